@@ -8,10 +8,27 @@ import { ChatInput } from "./components/chat-input.js";
 import { StatusBar } from "./components/status-bar.js";
 import { MAX_PROGRESS_LINES, ProgressPanel, progressPanelHeight } from "./components/progress-panel.js";
 import { PathSuggestionList, pathSuggestionHeight } from "./components/path-suggestion-list.js";
+import { ApprovalPanel, approvalPanelHeight } from "./components/approval-panel.js";
+import {
+  pendingQueryPanel,
+  QueryPanel,
+  queryErrorPanel,
+  queryPanelHeight,
+  queryResultPanel,
+  type QueryPanelState,
+} from "./components/query-panel.js";
 import { useWebSocket } from "./hooks/use-websocket.js";
+import { describeUnauthorized, readClientToken } from "../auth/client-token.js";
 import { useMouseScroll } from "./hooks/use-mouse-scroll.js";
 import type { MouseScrollEvent } from "./input/terminal-mouse.js";
-import { DOC_COMMAND_HELP, parseCliCommand } from "./commands.js";
+import {
+  APPROVAL_COMMAND_HELP,
+  DOC_COMMAND_HELP,
+  parseCliCommand,
+  QUERY_COMMAND_HELP,
+  STOP_COMMAND_HELP,
+} from "./commands.js";
+import { readMemoryExport, writeMemoryExport } from "./memory-transfer.js";
 import {
   applyPathSuggestion,
   getPathSuggestions,
@@ -22,9 +39,13 @@ import {
   stripPathMentions,
 } from "./path-mentions.js";
 import type {
+  ApprovalDecision,
+  ApprovalRequestedMessage,
+  BudgetRemaining,
   ChatAttachment,
   ChatMessage,
   ChatRequestAttachment,
+  QueryRequest,
   ServerMessage,
 } from "./types.js";
 
@@ -59,6 +80,9 @@ export function App(): React.JSX.Element {
   const [inputValue, setInputValue] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [progressLines, setProgressLines] = useState<string[]>([]);
+  const [pendingApprovals, setPendingApprovals] = useState<ApprovalRequestedMessage[]>([]);
+  const [budget, setBudget] = useState<BudgetRemaining | undefined>(undefined);
+  const [queryPanel, setQueryPanel] = useState<QueryPanelState | null>(null);
   const [recentRoots, setRecentRoots] = useState<string[]>([]);
   const [selectedSuggestionIndex, setSelectedSuggestionIndex] = useState(0);
   const [dismissedSuggestionInput, setDismissedSuggestionInput] = useState<string | null>(null);
@@ -71,6 +95,8 @@ export function App(): React.JSX.Element {
   const messageListRef = useRef<MessageListHandle>(null);
   const streamedMessageIdsRef = useRef(new Map<string, string>());
   const pendingRenderedRepliesRef = useRef(new Map<string, string>());
+  const activeChatMessageIdRef = useRef<string | null>(null);
+  const latestQueryRef = useRef<{ queryId: string; query: QueryRequest; exportPath?: string } | null>(null);
 
   useEffect(() => {
     const handleResize = (): void => {
@@ -89,6 +115,10 @@ export function App(): React.JSX.Element {
 
   const onMessage = useCallback((data: unknown) => {
     const msg = data as ServerMessage;
+    if ("budget" in msg && msg.budget && typeof msg.budget === "object") {
+      setBudget(msg.budget);
+    }
+
     if (msg.type === "reply_started" && typeof msg.turnId === "string") {
       const kind = toAssistantMessageKind(msg.kind);
       const draft = {
@@ -189,12 +219,65 @@ export function App(): React.JSX.Element {
       return;
     }
 
+    if (msg.type === "approval_requested" && typeof msg.approvalId === "string") {
+      setPendingApprovals((prev) => (
+        prev.some((request) => request.approvalId === msg.approvalId) ? prev : [...prev, msg]
+      ));
+      return;
+    }
+
+    if (msg.type === "approval_resolved" && typeof msg.approvalId === "string") {
+      setPendingApprovals((prev) => prev.filter((request) => request.approvalId !== msg.approvalId));
+      if (msg.source === "timeout") {
+        setMessages((prev) => [
+          ...prev,
+          createMessage("assistant", `Approval for ${msg.tool} expired, so it was denied.`, "notification"),
+        ]);
+      }
+      return;
+    }
+
+    if (msg.type === "cancel_run_result") {
+      const content = msg.status === "cancelling"
+        ? "Stopping the current run."
+        : "No run is active.";
+      setMessages((prev) => [...prev, createMessage("assistant", content, "notification")]);
+      return;
+    }
+
+    if (msg.type === "query_result" && typeof msg.queryId === "string") {
+      const latest = latestQueryRef.current;
+      // Only the most recent command owns the panel; late answers to replaced queries are dropped.
+      if (latest?.queryId === msg.queryId) {
+        latestQueryRef.current = null;
+        if (latest.exportPath && msg.ok) {
+          void writeMemoryExport(latest.exportPath, msg.result).then(
+            (exportPath) => setQueryPanel(queryResultPanel(msg, latest.query, { exportPath })),
+            (error: unknown) => setQueryPanel(queryErrorPanel(
+              latest.query,
+              `Could not write ${latest.exportPath}: ${error instanceof Error ? error.message : String(error)}`,
+            )),
+          );
+          return;
+        }
+        setQueryPanel(queryResultPanel(msg, latest.query));
+      }
+      return;
+    }
+
     if (msg.type === "progress" && typeof msg.content === "string") {
       const progressContent = msg.content;
       setProgressLines((prev) => [...prev, progressContent].slice(-MAX_PROGRESS_LINES));
       return;
     }
 
+    if (msg.type === "unauthorized" && typeof msg.content === "string") {
+      setMessages((prev) => [...prev, createMessage("assistant", describeUnauthorized(msg.content), "error")]);
+      setProgressLines([]);
+      setIsLoading(false);
+      return;
+    }
+
     if (msg.type === "error" && typeof msg.content === "string") {
       const reply = createMessage("assistant", msg.content, "error");
       setMessages((prev) => [...prev, reply]);
@@ -222,15 +305,83 @@ export function App(): React.JSX.Element {
     if (!connected) {
       return;
     }
+    const token = readClientToken("cli");
     send({
       type: "client_hello",
       clientKind: "cli",
+      ...(token ? { token } : {}),
       capabilities: {
         replyStreaming: true,
+        approvals: true,
       },
     });
   }, [connected, send]);
 
+  useEffect(() => {
+    if (!isLoading) {
+      activeChatMessageIdRef.current = null;
+    }
+  }, [isLoading]);
+
+  const stopActiveRun = useCallback((): string | null => {
+    const messageId = activeChatMessageIdRef.current;
+    if (!messageId) {
+      return "No run is active.";
+    }
+    send({ type: "cancel_run", messageId });
+    return null;
+  }, [send]);
+
+  const runQuery = useCallback((query: QueryRequest, exportPath?: string): string | null => {
+    if (!connected) {
+      return "Not connected to the Ayati daemon.";
+    }
+    const queryId = randomUUID();
+    latestQueryRef.current = { queryId, query, ...(exportPath ? { exportPath } : {}) };
+    setQueryPanel(pendingQueryPanel(query));
+    send({ type: "query", queryId, ...query });
+    return null;
+  }, [connected, send]);
+
+  const importMemory = useCallback((path: string, mode: "merge" | "replace"): string | null => {
+    if (!connected) {
+      return "Not connected to the Ayati daemon.";
+    }
+    const pending: QueryRequest = { kind: "import_memory", document: null, mode };
+    latestQueryRef.current = null;
+    setQueryPanel(pendingQueryPanel(pending));
+    void readMemoryExport(path).then(
+      (document) => {
+        const problem = runQuery({ kind: "import_memory", document, mode });
+        if (problem) setQueryPanel(queryErrorPanel(pending, problem));
+      },
+      (error: unknown) => setQueryPanel(queryErrorPanel(pending, error instanceof Error ? error.message : String(error))),
+    );
+    return null;
+  }, [connected, runQuery]);
+
+  const closeQueryPanel = useCallback(() => {
+    latestQueryRef.current = null;
+    setQueryPanel(null);
+  }, []);
+
+  const respondToApproval = useCallback((decision: ApprovalDecision): string | null => {
+    const request = pendingApprovals[0];
+    if (!request) {
+      return "No tool call is waiting for approval.";
+    }
+    if (!request.options.includes(decision)) {
+      return `That answer is not available for ${request.tool}. ${APPROVAL_COMMAND_HELP}`;
+    }
+    send({
+      type: "approval_response",
+      approvalId: request.approvalId,
+      decision,
+    });
+    setPendingApprovals((prev) => prev.filter((entry) => entry.approvalId !== request.approvalId));
+    return null;
+  }, [pendingApprovals, send]);
+
   const handleInputChange = useCallback((nextValue: string) => {
     setInputValue(nextValue);
   }, []);
@@ -304,9 +455,11 @@ export function App(): React.JSX.Element {
 
     setProgressLines([]);
     setIsLoading(true);
+    const messageId = randomUUID();
+    activeChatMessageIdRef.current = messageId;
     send({
       type: "chat",
-      messageId: randomUUID(),
+      messageId,
       content: trimmedServerContent,
       ...(attachments.length > 0 ? { attachments } : {}),
     });
@@ -320,8 +473,15 @@ export function App(): React.JSX.Element {
       if (!trimmed) return;
 
       if (trimmed.startsWith("/")) {
-        handleCommand(trimmed, (content) => {
-          setMessages((prev) => [...prev, createMessage("assistant", content)]);
+        handleCommand(trimmed, {
+          pushAssistantMessage: (content) => {
+            setMessages((prev) => [...prev, createMessage("assistant", content)]);
+          },
+          respondToApproval,
+          stopActiveRun,
+          runQuery,
+          importMemory,
+          closeQueryPanel,
         });
         setInputValue("");
         return;
@@ -359,7 +519,7 @@ export function App(): React.JSX.Element {
         mentionedAttachments,
       );
     },
-    [isLoading, submitChatMessage],
+    [closeQueryPanel, isLoading, importMemory, respondToApproval, runQuery, stopActiveRun, submitChatMessage],
   );
 
   const handleSuggestionUp = useCallback(() => {
@@ -388,9 +548,12 @@ export function App(): React.JSX.Element {
 
   const suggestionsHeight = suggestionsVisible ? pathSuggestionHeight(pathSuggestions) : 0;
   const progressHeight = progressPanelHeight(progressLines);
+  const activeApproval = pendingApprovals[0] ?? null;
+  const approvalHeight = approvalPanelHeight(activeApproval);
+  const queryHeight = queryPanelHeight(queryPanel);
   const messageViewportHeight = Math.max(
     MIN_MESSAGE_ROWS,
-    terminalRows - RESERVED_ROWS - suggestionsHeight - progressHeight,
+    terminalRows - RESERVED_ROWS - suggestionsHeight - progressHeight - approvalHeight - queryHeight,
   );
 
   return (
@@ -408,6 +571,15 @@ export function App(): React.JSX.Element {
         lines={progressLines}
         width={terminalColumns}
       />
+      <ApprovalPanel
+        request={activeApproval}
+        queued={Math.max(0, pendingApprovals.length - 1)}
+        width={terminalColumns}
+      />
+      <QueryPanel
+        panel={queryPanel}
+        width={terminalColumns}
+      />
       <PathSuggestionList
         suggestions={pathSuggestions}
         selectedIndex={selectedSuggestionIndex}
@@ -416,6 +588,7 @@ export function App(): React.JSX.Element {
       <StatusBar
         isLoading={isLoading}
         connected={connected}
+        budget={budget}
       />
       <ChatInput
         value={inputValue}
@@ -434,9 +607,58 @@ export function App(): React.JSX.Element {
   );
 }
 
-function handleCommand(command: string, pushAssistantMessage: (content: string) => void): void {
+interface CommandHandlers {
+  pushAssistantMessage(content: string): void;
+  respondToApproval(decision: ApprovalDecision): string | null;
+  stopActiveRun(): string | null;
+  runQuery(query: QueryRequest, exportPath?: string): string | null;
+  importMemory(path: string, mode: "merge" | "replace"): string | null;
+  closeQueryPanel(): void;
+}
+
+function handleCommand(command: string, handlers: CommandHandlers): void {
+  const { pushAssistantMessage } = handlers;
   const parsed = parseCliCommand(command);
 
+  if (parsed.type === "approval") {
+    const problem = handlers.respondToApproval(parsed.decision);
+    if (problem) {
+      pushAssistantMessage(problem);
+    }
+    return;
+  }
+
+  if (parsed.type === "stop") {
+    const problem = handlers.stopActiveRun();
+    if (problem) {
+      pushAssistantMessage(problem);
+    }
+    return;
+  }
+
+  if (parsed.type === "query") {
+    const problem = handlers.runQuery(parsed.query);
+    if (problem) {
+      pushAssistantMessage(problem);
+    }
+    return;
+  }
+
+  if (parsed.type === "memoryExport" || parsed.type === "memoryImport") {
+    const problem = parsed.type === "memoryExport"
+      ? handlers.runQuery({ kind: "export_memory" }, parsed.path)
+      : handlers.importMemory(parsed.path, parsed.mode);
+    if (problem) {
+      pushAssistantMessage(problem);
+    }
+    return;
+  }
+
+  if (parsed.type === "closePanel") {
+    handlers.closeQueryPanel();
+    return;
+  }
+
   if (parsed.type === "clearDocs") {
     pushAssistantMessage("There is no separate attachment tray. Delete @path text from the input to remove attachments before sending.");
     return;
@@ -447,7 +669,7 @@ function handleCommand(command: string, pushAssistantMessage: (content: string)
     return;
   }
 
-  pushAssistantMessage(`Unknown command. ${DOC_COMMAND_HELP}`);
+  pushAssistantMessage(`Unknown command. ${DOC_COMMAND_HELP} ${STOP_COMMAND_HELP} ${QUERY_COMMAND_HELP}`);
 }
 
 function toAssistantMessageKind(kind: unknown): ChatMessage["kind"] {
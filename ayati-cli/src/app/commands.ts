@@ -1,7 +1,31 @@
+import type { ApprovalDecision, MemorySectionId, QueryRequest } from "./types.js";
+
 export const DOC_COMMAND_HELP = "Use @path in the input to add files or folders. Delete the @path text to remove one before sending.";
+export const APPROVAL_COMMAND_HELP = "Answer with /approve, /deny, or /always (approve this tool for the rest of the workstream).";
+
+export const STOP_COMMAND_HELP = "Use /stop to cancel the run that is currently working.";
+export const QUERY_COMMAND_HELP = "Other commands: /workstreams [text], /open W-…, /star W-…, /unstar W-…, /archive W-…, /restore W-…, /rename W-… <title>, /merge W-… into W-…, /split W-… R-… [R-…] <title>, /resources W-…, /history <text>, /model <provider> <model>, /schedules [all], /status, /memory, /close.";
+export const MEMORY_COMMAND_HELP = "Memory: /memory [facts|timed|evolving] [all], /memory show <id>, /memory edit <id> <text>, /memory archive <id>, /memory export <file>, /memory import [--replace] <file>.";
+
+const WORKSTREAM_ID_PATTERN = /^W-\d{8}-\d{4}$/;
+const REQUEST_ID_PATTERN = /^R-\d{4}$/;
+const MEMORY_SECTIONS: Record<string, MemorySectionId> = {
+  facts: "user_facts",
+  user_facts: "user_facts",
+  timed: "time_based",
+  time_based: "time_based",
+  evolving: "evolving_memory",
+  evolving_memory: "evolving_memory",
+};
 
 export type ParsedCliCommand =
   | { type: "clearDocs" }
+  | { type: "stop" }
+  | { type: "approval"; decision: ApprovalDecision }
+  | { type: "query"; query: QueryRequest }
+  | { type: "memoryExport"; path: string }
+  | { type: "memoryImport"; path: string; mode: "merge" | "replace" }
+  | { type: "closePanel" }
   | { type: "invalid"; message: string }
   | { type: "unknown" };
 
@@ -13,11 +37,165 @@ export function parseCliCommand(input: string): ParsedCliCommand {
   }
 
   const commandName = match[1]?.toLowerCase() ?? "";
+  const argument = match[2]?.trim() ?? "";
 
   switch (commandName) {
     case "clear":
       return { type: "clearDocs" };
+    case "stop":
+      return { type: "stop" };
+    case "approve":
+      return { type: "approval", decision: "approve" };
+    case "deny":
+      return { type: "approval", decision: "deny" };
+    case "always":
+      return { type: "approval", decision: "always_for_workstream" };
+    case "workstreams":
+      return { type: "query", query: { kind: "list_workstreams", ...(argument ? { query: argument } : {}) } };
+    case "open":
+      return workstreamCommand(argument, "/open W-20260101-0001", (workstreamId) => ({
+        kind: "open_workstream",
+        workstreamId,
+      }));
+    case "star":
+    case "unstar":
+      return workstreamCommand(argument, `/${commandName} W-20260101-0001`, (workstreamId) => ({
+        kind: "set_workstream_star",
+        workstreamId,
+        starred: commandName === "star",
+      }));
+    case "archive":
+    case "restore":
+      return workstreamCommand(argument, `/${commandName} W-20260101-0001`, (workstreamId) => ({
+        kind: "archive_workstream",
+        workstreamId,
+        archived: commandName === "archive",
+      }));
+    case "rename":
+      return parseRenameCommand(argument);
+    case "merge":
+      return parseMergeCommand(argument);
+    case "split":
+      return parseSplitCommand(argument);
+    case "resources":
+      return workstreamCommand(argument, "/resources W-20260101-0001", (workstreamId) => ({
+        kind: "list_workstream_resources",
+        workstreamId,
+      }));
+    case "history":
+      return argument
+        ? { type: "query", query: { kind: "search_history", query: argument } }
+        : { type: "invalid", message: "Usage: /history <text to search for>" };
+    case "model": {
+      const [provider, model, ...extra] = argument.split(/\s+/).filter(Boolean);
+      return provider && model && extra.length === 0
+        ? { type: "query", query: { kind: "set_model", provider: provider.toLowerCase(), model } }
+        : { type: "invalid", message: "Usage: /model <provider> <model>, for example /model openai gpt-5-mini" };
+    }
+    case "schedules":
+      if (argument && argument.toLowerCase() !== "all") {
+        return { type: "invalid", message: "Usage: /schedules [all]" };
+      }
+      return { type: "query", query: { kind: "list_schedules", ...(argument ? { includeInactive: true } : {}) } };
+    case "status":
+      return { type: "query", query: { kind: "status" } };
+    case "memory":
+      return parseMemoryCommand(argument);
+    case "close":
+      return { type: "closePanel" };
     default:
       return { type: "unknown" };
   }
 }
+
+function parseMemoryCommand(argument: string): ParsedCliCommand {
+  const match = argument.match(/^(\S+)(?:\s+([\s\S]*))?$/);
+  const action = match?.[1]?.toLowerCase() ?? "";
+  const rest = match?.[2]?.trim() ?? "";
+  const [memoryId, ...textWords] = rest.split(/\s+/).filter(Boolean);
+  switch (action) {
+    case "show":
+    case "archive":
+      return memoryId && textWords.length === 0
+        ? { type: "query", query: { kind: action === "show" ? "memory_detail" : "archive_memory", memoryId } }
+        : { type: "invalid", message: `Usage: /memory ${action} <id>` };
+    case "edit": {
+      const text = rest.slice(memoryId?.length ?? 0).trim();
+      return memoryId && text
+        ? { type: "query", query: { kind: "edit_memory", memoryId, text } }
+        : { type: "invalid", message: "Usage: /memory edit <id> <corrected text>" };
+    }
+    case "export":
+      return rest ? { type: "memoryExport", path: rest } : { type: "invalid", message: "Usage: /memory export <file>" };
+    case "import": {
+      const replace = /^--replace(?:\s+|$)/.test(rest);
+      const path = replace ? rest.replace(/^--replace/, "").trim() : rest;
+      return path
+        ? { type: "memoryImport", path, mode: replace ? "replace" : "merge" }
+        : { type: "invalid", message: "Usage: /memory import [--replace] <file>" };
+    }
+  }
+
+  const words = argument.toLowerCase().split(/\s+/).filter(Boolean);
+  const includeInactive = words.at(-1) === "all";
+  const sectionWords = includeInactive ? words.slice(0, -1) : words;
+  const sectionId = sectionWords.length === 1 ? MEMORY_SECTIONS[sectionWords[0]!] : undefined;
+  if (sectionWords.length > 1 || (sectionWords.length === 1 && !sectionId)) {
+    return { type: "invalid", message: MEMORY_COMMAND_HELP };
+  }
+  return {
+    type: "query",
+    query: {
+      kind: "list_memories",
+      ...(sectionId ? { sectionId } : {}),
+      ...(includeInactive ? { includeInactive: true } : {}),
+    },
+  };
+}
+
+function parseRenameCommand(argument: string): ParsedCliCommand {
+  const [first = "", ...titleWords] = argument.split(/\s+/).filter(Boolean);
+  const workstreamId = first.toUpperCase();
+  if (!WORKSTREAM_ID_PATTERN.test(workstreamId) || titleWords.length === 0) {
+    return { type: "invalid", message: "Usage: /rename W-20260101-0001 <new title>" };
+  }
+  return { type: "query", query: { kind: "rename_workstream", workstreamId, title: titleWords.join(" ") } };
+}
+
+function parseMergeCommand(argument: string): ParsedCliCommand {
+  const match = argument.match(/^(\S+)\s+(?:into\s+)?(\S+)$/i);
+  const sourceWorkstreamId = match?.[1]?.toUpperCase() ?? "";
+  const targetWorkstreamId = match?.[2]?.toUpperCase() ?? "";
+  if (!WORKSTREAM_ID_PATTERN.test(sourceWorkstreamId) || !WORKSTREAM_ID_PATTERN.test(targetWorkstreamId)) {
+    return { type: "invalid", message: "Usage: /merge W-20260101-0001 into W-20260101-0002" };
+  }
+  return { type: "query", query: { kind: "merge_workstreams", sourceWorkstreamId, targetWorkstreamId } };
+}
+
+function parseSplitCommand(argument: string): ParsedCliCommand {
+  const [first = "", ...rest] = argument.split(/\s+/).filter(Boolean);
+  const workstreamId = first.toUpperCase();
+  const requestIds: string[] = [];
+  while (rest[0] && REQUEST_ID_PATTERN.test(rest[0].toUpperCase())) {
+    requestIds.push(rest.shift()!.toUpperCase());
+  }
+  if (!WORKSTREAM_ID_PATTERN.test(workstreamId) || requestIds.length === 0 || rest.length === 0) {
+    return { type: "invalid", message: "Usage: /split W-20260101-0001 R-0002 [R-0003 …] <new workstream title>" };
+  }
+  return {
+    type: "query",
+    query: { kind: "split_workstream", workstreamId, requestIds, title: rest.join(" ") },
+  };
+}
+
+function workstreamCommand(
+  argument: string,
+  usage: string,
+  build: (workstreamId: string) => QueryRequest,
+): ParsedCliCommand {
+  const workstreamId = argument.toUpperCase();
+  if (!WORKSTREAM_ID_PATTERN.test(workstreamId)) {
+    return { type: "invalid", message: `Usage: ${usage}` };
+  }
+  return { type: "query", query: build(workstreamId) };
+}
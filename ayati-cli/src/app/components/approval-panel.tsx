@@ -0,0 +1,59 @@
+import React from "react";
+import { Box, Text } from "ink";
+import type { ApprovalRequestedMessage } from "../types.js";
+
+export const MAX_APPROVAL_PREVIEW_LINES = 4;
+
+type Props = {
+  readonly request: ApprovalRequestedMessage | null;
+  readonly queued: number;
+  readonly width: number;
+};
+
+export function approvalPanelHeight(request: ApprovalRequestedMessage | null): number {
+  if (!request) {
+    return 0;
+  }
+  return 3 + previewLines(request.preview).length + (request.target ? 1 : 0);
+}
+
+export function ApprovalPanel({ request, queued, width }: Props): React.JSX.Element | null {
+  if (!request) {
+    return null;
+  }
+
+  const contentWidth = Math.max(12, width - 4);
+  const reason = request.reason === "destructive" ? "destructive" : "external effect";
+  const answers = request.options.includes("always_for_workstream")
+    ? "/approve  /deny  /always"
+    : "/approve  /deny";
+
+  return (
+    <Box flexDirection="column" paddingX={1} height={approvalPanelHeight(request)}>
+      <Text color="magenta" bold>
+        Approval needed: {request.tool} ({reason}){queued > 0 ? ` +${queued} more` : ""}
+      </Text>
+      {request.target ? <Text>{truncateLine(`target: ${request.target}`, contentWidth)}</Text> : null}
+      {previewLines(request.preview).map((line, index) => (
+        <Text key={`${index}-${line}`} dimColor>{truncateLine(line, contentWidth)}</Text>
+      ))}
+      <Text color="magenta">Answer with {answers}</Text>
+    </Box>
+  );
+}
+
+function previewLines(preview: string): string[] {
+  const lines = preview.split("\n").map((line) => line.trimEnd()).filter((line) => line.trim().length > 0);
+  if (lines.length <= MAX_APPROVAL_PREVIEW_LINES) {
+    return lines;
+  }
+  return [...lines.slice(0, MAX_APPROVAL_PREVIEW_LINES - 1), "..."];
+}
+
+function truncateLine(line: string, width: number): string {
+  if (line.length <= width) {
+    return line;
+  }
+
+  return `${line.slice(0, Math.max(0, width - 3))}...`;
+}
@@ -62,10 +62,6 @@ export function ChatInput({
   };
 
   useInput((input, key) => {
-    if (isLoading) {
-      return;
-    }
-
     if (suggestionsVisible) {
       if (key.upArrow) {
         onSuggestionUp?.();
@@ -184,9 +180,11 @@ export function ChatInput({
             {renderInputRow({
               row,
               cursorOffset,
-              showCursor: !isLoading,
+              showCursor: true,
               value,
-              placeholder: "Type a message or use @path for files/folders",
+              placeholder: isLoading
+                ? "Type /stop to cancel the current run"
+                : "Type a message or use @path for files/folders",
             })}
           </Box>
         ))}
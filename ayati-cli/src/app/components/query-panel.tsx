@@ -0,0 +1,407 @@
+import React from "react";
+import { Box, Text } from "ink";
+import type {
+  DaemonStatusResult,
+  HistorySearchResult,
+  MemoryCardSummary,
+  MemoryChangeResult,
+  MemoryDetailResult,
+  MemoryExportDocument,
+  MemoryImportResult,
+  MemoryListResult,
+  MemorySectionId,
+  ModelSwitchResult,
+  QueryRequest,
+  QueryResultMessage,
+  ScheduleListResult,
+  WorkstreamLifecycleResult,
+  WorkstreamListResult,
+  WorkstreamOpenResult,
+  WorkstreamResourcesResult,
+  WorkstreamStarResult,
+} from "../types.js";
+
+export const MAX_QUERY_PANEL_LINES = 10;
+
+export interface QueryPanelLine {
+  text: string;
+  tone?: "normal" | "dim" | "accent" | "warning";
+}
+
+export interface QueryPanelState {
+  title: string;
+  status: "loading" | "ready" | "error";
+  lines: QueryPanelLine[];
+}
+
+type Props = {
+  readonly panel: QueryPanelState | null;
+  readonly width: number;
+};
+
+export function queryPanelHeight(panel: QueryPanelState | null): number {
+  if (!panel) {
+    return 0;
+  }
+  return 2 + visibleLines(panel.lines).length;
+}
+
+export function QueryPanel({ panel, width }: Props): React.JSX.Element | null {
+  if (!panel) {
+    return null;
+  }
+
+  const contentWidth = Math.max(12, width - 4);
+  const titleColor = panel.status === "error" ? "red" : "cyan";
+
+  return (
+    <Box flexDirection="column" paddingX={1} height={queryPanelHeight(panel)}>
+      <Text color={titleColor} bold>
+        {truncateLine(panel.status === "loading" ? `${panel.title} (loading...)` : panel.title, contentWidth)}
+      </Text>
+      {visibleLines(panel.lines).map((line, index) => (
+        <Text
+          key={`${index}-${line.text}`}
+          dimColor={line.tone === "dim"}
+          {...(line.tone === "accent" ? { color: "yellow" } : {})}
+          {...(line.tone === "warning" ? { color: "red" } : {})}
+        >
+          {truncateLine(line.text, contentWidth)}
+        </Text>
+      ))}
+      <Text dimColor>/close to dismiss</Text>
+    </Box>
+  );
+}
+
+export function pendingQueryPanel(query: QueryRequest): QueryPanelState {
+  return { title: queryTitle(query), status: "loading", lines: [] };
+}
+
+/** For commands that fail on this side, before or after the daemon answered. */
+export function queryErrorPanel(query: QueryRequest, error: string): QueryPanelState {
+  return { title: queryTitle(query), status: "error", lines: [{ text: error, tone: "warning" }] };
+}
+
+/** Set by the app once a `/memory export` document has been written locally. */
+export interface QueryPanelContext {
+  exportPath?: string;
+}
+
+export function queryResultPanel(
+  message: QueryResultMessage,
+  query?: QueryRequest,
+  context: QueryPanelContext = {},
+): QueryPanelState {
+  const title = query ? queryTitle(query) : "Ayati";
+  if (!message.ok) {
+    return { title, status: "error", lines: [{ text: message.error, tone: "warning" }] };
+  }
+
+  switch (message.kind) {
+    case "list_workstreams":
+      return { title, status: "ready", lines: workstreamListLines(message.result as WorkstreamListResult) };
+    case "open_workstream": {
+      const opened = message.result as WorkstreamOpenResult;
+      return {
+        title: `${opened.workstream.workstreamId} ${opened.workstream.title}`,
+        status: "ready",
+        lines: workstreamCardLines(opened),
+      };
+    }
+    case "set_workstream_star": {
+      const star = message.result as WorkstreamStarResult;
+      return {
+        title,
+        status: "ready",
+        lines: [{ text: `${star.workstreamId} is ${star.starred ? "starred ★" : "no longer starred"}.` }],
+      };
+    }
+    case "archive_workstream":
+    case "rename_workstream":
+    case "merge_workstreams":
+    case "split_workstream":
+      return { title, status: "ready", lines: lifecycleLines(message.result as WorkstreamLifecycleResult) };
+    case "list_workstream_resources":
+      return { title, status: "ready", lines: resourceLines(message.result as WorkstreamResourcesResult) };
+    case "search_history":
+      return { title, status: "ready", lines: historyLines(message.result as HistorySearchResult) };
+    case "set_model": {
+      const model = message.result as ModelSwitchResult;
+      return {
+        title,
+        status: "ready",
+        lines: [{ text: `Now using ${model.provider} / ${model.model} for new model calls.` }],
+      };
+    }
+    case "list_schedules":
+      return { title, status: "ready", lines: scheduleLines(message.result as ScheduleListResult) };
+    case "status":
+      return { title, status: "ready", lines: statusLines(message.result as DaemonStatusResult) };
+    case "list_memories":
+      return { title, status: "ready", lines: memoryListLines(message.result as MemoryListResult) };
+    case "memory_detail":
+      return { title, status: "ready", lines: memoryDetailLines(message.result as MemoryDetailResult) };
+    case "edit_memory":
+    case "archive_memory": {
+      const { memory } = message.result as MemoryChangeResult;
+      const verb = message.kind === "edit_memory" ? "Updated" : "Archived";
+      return { title, status: "ready", lines: [{ text: `${verb} ${shortMemoryId(memory.memoryId)}: ${memory.text}` }] };
+    }
+    case "export_memory": {
+      const document = message.result as MemoryExportDocument;
+      const destination = context.exportPath ? ` to ${context.exportPath}` : "";
+      return {
+        title,
+        status: "ready",
+        lines: [{
+          text: `Saved ${document.cards.length} cards, ${document.evidence.length} evidence entries, `
+            + `${document.events.length} history events and ${document.aliases.length} aliases${destination}.`,
+        }],
+      };
+    }
+    case "import_memory": {
+      const imported = message.result as MemoryImportResult;
+      return {
+        title,
+        status: "ready",
+        lines: [
+          {
+            text: `Imported ${imported.cards} cards, ${imported.evidence} evidence entries, `
+              + `${imported.events} history events and ${imported.aliases} aliases.`,
+          },
+          ...(imported.skipped > 0
+            ? [{ text: `${imported.skipped} entries were already present and kept as they were.`, tone: "dim" as const }]
+            : []),
+        ],
+      };
+    }
+  }
+}
+
+function queryTitle(query: QueryRequest): string {
+  switch (query.kind) {
+    case "list_workstreams":
+      return query.query ? `Workstreams matching "${query.query}"` : "Workstreams";
+    case "open_workstream":
+      return query.workstreamId;
+    case "set_workstream_star":
+      return query.starred ? `Star ${query.workstreamId}` : `Unstar ${query.workstreamId}`;
+    case "archive_workstream":
+      return query.archived ? `Archive ${query.workstreamId}` : `Restore ${query.workstreamId}`;
+    case "rename_workstream":
+      return `Rename ${query.workstreamId}`;
+    case "merge_workstreams":
+      return `Merge ${query.sourceWorkstreamId} into ${query.targetWorkstreamId}`;
+    case "split_workstream":
+      return `Split ${query.workstreamId}`;
+    case "list_workstream_resources":
+      return `Resources of ${query.workstreamId}`;
+    case "search_history":
+      return `History matching "${query.query}"`;
+    case "set_model":
+      return "Model";
+    case "list_schedules":
+      return query.includeInactive ? "All schedules" : "Active schedules";
+    case "status":
+      return "Daemon status";
+    case "list_memories":
+      return `${query.sectionId ? MEMORY_SECTION_TITLES[query.sectionId] : "Memory"}${query.includeInactive ? " (all states)" : ""}`;
+    case "memory_detail":
+      return `Memory ${shortMemoryId(query.memoryId)}`;
+    case "edit_memory":
+      return `Edit memory ${shortMemoryId(query.memoryId)}`;
+    case "archive_memory":
+      return `Archive memory ${shortMemoryId(query.memoryId)}`;
+    case "export_memory":
+      return "Memory export";
+    case "import_memory":
+      return query.mode === "replace" ? "Memory import (replace)" : "Memory import";
+  }
+}
+
+const MEMORY_SECTION_TITLES: Record<MemorySectionId, string> = {
+  user_facts: "User facts",
+  time_based: "Time-based",
+  evolving_memory: "Evolving memory",
+};
+
+/** Card ids are `mem_<uuid>`; the daemon accepts this unambiguous prefix back. */
+function shortMemoryId(memoryId: string): string {
+  return memoryId.slice(0, 12);
+}
+
+function memoryListLines(result: MemoryListResult): QueryPanelLine[] {
+  const lines: QueryPanelLine[] = [];
+  for (const section of result.sections) {
+    if (result.sections.length > 1) {
+      lines.push({ text: `${MEMORY_SECTION_TITLES[section.sectionId]} (${section.cards.length})`, tone: "accent" });
+    }
+    if (section.cards.length === 0 && result.sections.length === 1) {
+      lines.push({ text: "Nothing remembered here yet.", tone: "dim" });
+    }
+    for (const card of section.cards) {
+      lines.push(memoryCardLine(card));
+    }
+  }
+  return lines;
+}
+
+function memoryCardLine(card: MemoryCardSummary): QueryPanelLine {
+  const live = card.state === "active" || card.state === "candidate";
+  const when = card.eventAt ?? card.expiresAt;
+  return {
+    text: `${shortMemoryId(card.memoryId)} ${card.text}${when ? ` (${when.slice(0, 10)})` : ""}${card.state === "active" ? "" : ` [${card.state}]`}`,
+    ...(live ? {} : { tone: "dim" as const }),
+  };
+}
+
+function memoryDetailLines(result: MemoryDetailResult): QueryPanelLine[] {
+  const { memory } = result;
+  const lines: QueryPanelLine[] = [
+    { text: memory.text },
+    {
+      text: `${MEMORY_SECTION_TITLES[memory.sectionId]} · ${memory.kind} · ${memory.slot} · ${memory.state} · `
+        + `confidence ${memory.confidence.toFixed(2)}`,
+      tone: "dim",
+    },
+  ];
+  if (memory.value) lines.push({ text: `Value: ${memory.value}` });
+  if (memory.eventAt) lines.push({ text: `Happens: ${formatInstant(memory.eventAt)}` });
+  if (memory.expiresAt) lines.push({ text: `Expires: ${formatInstant(memory.expiresAt)}` });
+  for (const evidence of result.evidence) {
+    lines.push({ text: `${evidence.createdAt.slice(0, 10)} ${evidence.evidenceType}: ${evidence.sourceText}`, tone: "dim" });
+  }
+  for (const event of result.events) {
+    lines.push({ text: `${event.createdAt.slice(0, 10)} history ${event.eventType}: ${event.sourceText}`, tone: "dim" });
+  }
+  return lines;
+}
+
+function workstreamListLines(result: WorkstreamListResult): QueryPanelLine[] {
+  if (result.workstreams.length === 0) {
+    return [{ text: "No workstreams found.", tone: "dim" }];
+  }
+  return result.workstreams.map((workstream) => {
+    const status = workstream.lifecycleStatus ?? workstream.status;
+    const request = workstream.currentRequest
+      ? ` — ${workstream.currentRequest.title} (${workstream.currentRequest.status})`
+      : "";
+    return {
+      text: `${workstream.starred ? "★" : " "} ${workstream.workstreamId} [${status}] ${workstream.title}${request}`,
+      ...(workstream.starred ? { tone: "accent" as const } : {}),
+    };
+  });
+}
+
+function workstreamCardLines(opened: WorkstreamOpenResult): QueryPanelLine[] {
+  const card = opened.card;
+  const lines: QueryPanelLine[] = [{ text: opened.workstream.objective, tone: "dim" }];
+  if (card) {
+    lines.push({ text: card.summary });
+    if (card.currentRequest) {
+      lines.push({ text: `Request: ${card.currentRequest.id} ${card.currentRequest.title} (${card.currentRequest.status})` });
+    }
+    if (card.currentFocus) lines.push({ text: `Focus: ${card.currentFocus}` });
+    if (card.next) lines.push({ text: `Next: ${card.next}` });
+    for (const blocker of card.blockers ?? []) {
+      lines.push({ text: `Blocked: ${blocker}`, tone: "warning" });
+    }
+    for (const resource of card.resourcesChangedSinceLastRun ?? []) {
+      lines.push({ text: `Changed since last run: ${resource.name} (${resource.change})`, tone: "warning" });
+    }
+  }
+  for (const progress of opened.recentProgress) {
+    lines.push({ text: `${progress.at?.slice(0, 10) ?? progress.commit} ${progress.summary}`, tone: "dim" });
+  }
+  return lines;
+}
+
+function lifecycleLines(result: WorkstreamLifecycleResult): QueryPanelLine[] {
+  if (!result.changed) {
+    return [{ text: `${result.workstreamId} ${result.title} was already up to date.`, tone: "dim" }];
+  }
+  const summary: Record<WorkstreamLifecycleResult["operation"], string> = {
+    archive: `Archived ${result.workstreamId} ${result.title}.`,
+    restore: `Restored ${result.workstreamId} ${result.title}.`,
+    rename: `${result.workstreamId} is now called ${result.title}.`,
+    merge: `Merged ${result.sourceWorkstreamId ?? "the workstream"} into ${result.workstreamId} ${result.title}.`,
+    split: `Split ${result.sourceWorkstreamId ?? "the workstream"} into ${result.workstreamId} ${result.title}.`,
+  };
+  return [
+    { text: summary[result.operation] },
+    ...result.movedRequests.map((moved) => ({
+      text: `${moved.fromRequestId} → ${result.workstreamId} ${moved.toRequestId}`,
+      tone: "dim" as const,
+    })),
+  ];
+}
+
+function resourceLines(result: WorkstreamResourcesResult): QueryPanelLine[] {
+  if (result.resources.length === 0) {
+    return [{ text: "No resources are bound to this workstream.", tone: "dim" }];
+  }
+  return result.resources.map((resource) => ({
+    text: `${resource.kind} ${resource.name} — ${resource.locator}${resource.availability === "available" ? "" : ` (${resource.availability})`}`,
+    ...(resource.availability === "available" ? {} : { tone: "warning" as const }),
+  }));
+}
+
+function historyLines(result: HistorySearchResult): QueryPanelLine[] {
+  if (result.hits.length === 0) {
+    return [{ text: "Nothing in the history matches.", tone: "dim" }];
+  }
+  return result.hits.map((hit) => ({
+    text: `${hit.at.slice(0, 16).replace("T", " ")} ${hit.kind}${hit.workstreamId ? ` ${hit.workstreamId}` : ""}: ${hit.preview.replace(/\s+/g, " ")}`,
+  }));
+}
+
+function scheduleLines(result: ScheduleListResult): QueryPanelLine[] {
+  if (result.schedules.length === 0) {
+    return [{ text: "Nothing is scheduled.", tone: "dim" }];
+  }
+  return result.schedules.map((schedule) => {
+    const when = schedule.cron ? `cron ${schedule.cron}` : `once ${formatInstant(schedule.at)}`;
+    const next = schedule.status === "active" ? `next ${formatInstant(schedule.nextFireAt)}` : schedule.status;
+    const last = schedule.lastFire ? `, last ${schedule.lastFire.status}` : "";
+    return {
+      text: `${schedule.scheduleId} ${schedule.name} — ${when}, ${next}${last}`,
+      ...(schedule.status === "active" ? {} : { tone: "dim" as const }),
+      ...(schedule.lastFire?.status === "failed" ? { tone: "warning" as const } : {}),
+    };
+  });
+}
+
+function formatInstant(value: string | undefined): string {
+  return value ? `${value.slice(0, 16).replace("T", " ")} UTC` : "never";
+}
+
+function statusLines(status: DaemonStatusResult): QueryPanelLine[] {
+  const active = status.activeRun
+    ? `Active run: ${status.activeRun.runId ?? "starting"}${status.activeRun.cancelling ? " (cancelling)" : ""}`
+    : "No run is active.";
+  return [
+    { text: active },
+    { text: `Queued chats: ${status.queued}` },
+    { text: `Waiting approvals: ${status.pendingApprovals}` },
+    { text: `Model: ${status.provider} / ${status.model}`, tone: "dim" },
+  ];
+}
+
+function visibleLines(lines: QueryPanelLine[]): QueryPanelLine[] {
+  if (lines.length <= MAX_QUERY_PANEL_LINES) {
+    return lines;
+  }
+  return [
+    ...lines.slice(0, MAX_QUERY_PANEL_LINES - 1),
+    { text: `... ${lines.length - MAX_QUERY_PANEL_LINES + 1} more`, tone: "dim" },
+  ];
+}
+
+function truncateLine(line: string, width: number): string {
+  if (line.length <= width) {
+    return line;
+  }
+
+  return `${line.slice(0, Math.max(0, width - 3))}...`;
+}
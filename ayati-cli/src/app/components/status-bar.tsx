@@ -1,25 +1,64 @@
 import React from "react";
 import { Box, Text } from "ink";
 import Spinner from "ink-spinner";
+import type { BudgetRemaining, BudgetScope } from "../types.js";
 
 type Props = {
   readonly isLoading: boolean;
   readonly connected?: boolean;
+  readonly budget?: BudgetRemaining;
 };
 
-export function StatusBar({ isLoading, connected }: Props): React.JSX.Element {
+const BUDGET_SCOPE_LABELS: Record<BudgetScope, string> = {
+  run: "this run",
+  workstream: "workstream",
+  day: "today",
+};
+
+export function StatusBar({ isLoading, connected, budget }: Props): React.JSX.Element {
+  const budgetText = budget ? formatBudgetRemaining(budget) : "";
   return (
     <Box paddingX={1} height={1}>
       {isLoading ? (
         <Text color="yellow">
-          <Spinner type="dots" /> Ayati is thinking...
+          <Spinner type="dots" /> Ayati is thinking... (/stop to cancel){budgetText ? ` | ${budgetText}` : ""}
         </Text>
       ) : (
         <Text dimColor>
           {connected === false ? "[disconnected] " : ""}
+          {budgetText ? `${budgetText} | ` : ""}
           {"Enter: select suggestion/send | @path files/folders | delete @path to remove | Tab drill/accept | Esc close suggestions | Ctrl+C: exit"}
         </Text>
       )}
     </Box>
   );
 }
+
+/** Shows the tightest remaining USD and token budgets, e.g. `$0.42 left this run · 12,000 tokens left today`. */
+export function formatBudgetRemaining(budget: BudgetRemaining): string {
+  const parts: string[] = [];
+  const usd = tightest(budget, "usd");
+  if (usd) {
+    parts.push(`$${usd.value.toFixed(2)} left ${BUDGET_SCOPE_LABELS[usd.scope]}`);
+  }
+  const tokens = tightest(budget, "tokens");
+  if (tokens) {
+    parts.push(`${tokens.value.toLocaleString("en-US")} tokens left ${BUDGET_SCOPE_LABELS[tokens.scope]}`);
+  }
+  return parts.join(" · ");
+}
+
+function tightest(
+  budget: BudgetRemaining,
+  unit: "usd" | "tokens",
+): { scope: BudgetScope; value: number } | undefined {
+  let best: { scope: BudgetScope; value: number } | undefined;
+  for (const scope of Object.keys(BUDGET_SCOPE_LABELS) as BudgetScope[]) {
+    const value = budget[scope]?.[unit];
+    if (typeof value !== "number" || !Number.isFinite(value)) continue;
+    if (!best || value < best.value) {
+      best = { scope, value };
+    }
+  }
+  return best;
+}
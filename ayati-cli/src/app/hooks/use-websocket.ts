@@ -2,7 +2,7 @@ import { useState, useEffect, useRef, useCallback } from "react";
 import WebSocket from "ws";
 import type { ClientMessage, ServerMessage } from "../types.js";
 
-const WS_URL = "ws://localhost:8080";
+export const WS_URL = "ws://localhost:8080";
 
 type UseWebSocketOptions = {
   onMessage: (data: ServerMessage | Record<string, unknown>) => void;
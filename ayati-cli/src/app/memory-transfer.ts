@@ -0,0 +1,31 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { resolvePathText } from "./path-mentions.js";
+
+/** Reads a memory export file for `/memory import`; the daemon validates its contents. */
+export async function readMemoryExport(pathText: string, options: { cwd?: string } = {}): Promise<unknown> {
+  const path = resolvePathText(pathText, options);
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (error) {
+    throw new Error(`Could not read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    throw new Error(`${path} is not a JSON memory export.`);
+  }
+}
+
+/** Writes a `/memory export` document readable only by the current user. Returns the absolute path. */
+export async function writeMemoryExport(
+  pathText: string,
+  document: unknown,
+  options: { cwd?: string } = {},
+): Promise<string> {
+  const path = resolvePathText(pathText, options);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(document, null, 2)}\n`, { mode: 0o600 });
+  return path;
+}
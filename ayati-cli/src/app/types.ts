@@ -43,16 +43,28 @@ export interface ChatRequestMessage {
 export interface ClientHelloMessage {
   type: "client_hello";
   clientKind?: "cli" | "desktop" | "voice";
+  /** Client token from the daemon's token file; required before any other message. */
+  token?: string;
   capabilities?: {
     replyStreaming?: boolean;
+    approvals?: boolean;
   };
 }
 
+export type BudgetScope = "run" | "workstream" | "day";
+
+/** Remaining budget per scope; only scopes with a configured limit are present. */
+export type BudgetRemaining = Partial<Record<BudgetScope, {
+  usd?: number;
+  tokens?: number;
+}>>;
+
 export interface ChatAcceptedMessage {
   type: "chat_accepted";
   messageId: string;
   queued: boolean;
   queuePosition: number;
+  budget?: BudgetRemaining;
   duplicate?: true;
 }
 
@@ -62,10 +74,53 @@ export interface ReplyRenderedMessage {
   renderedAt: string;
 }
 
+export type ApprovalDecision = "approve" | "deny" | "always_for_workstream";
+
+export interface ApprovalResponseMessage {
+  type: "approval_response";
+  approvalId: string;
+  decision: ApprovalDecision;
+}
+
+export interface CancelRunMessage {
+  type: "cancel_run";
+  messageId: string;
+}
+
+export type QueryRequest =
+  | { kind: "list_workstreams"; query?: string }
+  | { kind: "open_workstream"; workstreamId: string }
+  | { kind: "set_workstream_star"; workstreamId: string; starred: boolean }
+  | { kind: "archive_workstream"; workstreamId: string; archived: boolean }
+  | { kind: "rename_workstream"; workstreamId: string; title: string }
+  | { kind: "merge_workstreams"; sourceWorkstreamId: string; targetWorkstreamId: string }
+  | { kind: "split_workstream"; workstreamId: string; requestIds: string[]; title: string }
+  | { kind: "list_workstream_resources"; workstreamId: string }
+  | { kind: "search_history"; query: string }
+  | { kind: "set_model"; provider: string; model: string }
+  | { kind: "list_schedules"; includeInactive?: boolean }
+  | { kind: "status" }
+  | { kind: "list_memories"; sectionId?: MemorySectionId; includeInactive?: boolean }
+  | { kind: "memory_detail"; memoryId: string }
+  | { kind: "edit_memory"; memoryId: string; text: string }
+  | { kind: "archive_memory"; memoryId: string }
+  | { kind: "export_memory" }
+  | { kind: "import_memory"; document: unknown; mode: "merge" | "replace" };
+
+export type MemorySectionId = "user_facts" | "time_based" | "evolving_memory";
+
+export type QueryKind = QueryRequest["kind"];
+
+/** Read-mostly daemon query; answered with a `query_result` carrying the same queryId. */
+export type QueryRequestMessage = { type: "query"; queryId: string } & QueryRequest;
+
 export type ClientMessage =
   | ChatRequestMessage
   | ClientHelloMessage
-  | ReplyRenderedMessage;
+  | ReplyRenderedMessage
+  | ApprovalResponseMessage
+  | CancelRunMessage
+  | QueryRequestMessage;
 
 export interface ReplyMessage {
   type: "reply";
@@ -73,6 +128,7 @@ export interface ReplyMessage {
   runId?: string;
   commitStatus: ReplyCommitStatus;
   artifacts?: unknown[];
+  budget?: BudgetRemaining;
 }
 
 export interface FeedbackMessage {
@@ -80,6 +136,7 @@ export interface FeedbackMessage {
   content: string;
   runId?: string;
   commitStatus: ReplyCommitStatus;
+  budget?: BudgetRemaining;
 }
 
 export interface NotificationMessage {
@@ -88,6 +145,18 @@ export interface NotificationMessage {
   final?: boolean;
   runId?: string;
   commitStatus: ReplyCommitStatus;
+  budget?: BudgetRemaining;
+  /** Present when the notification reports a scheduled run rather than the current chat. */
+  schedule?: ScheduledRunInfo;
+}
+
+export interface ScheduledRunInfo {
+  scheduleId: string;
+  name: string;
+  fireId: string;
+  scheduledFor: string;
+  status: "completed" | "failed" | "cancelled";
+  workstreamId?: string;
 }
 
 export interface ProgressMessage {
@@ -118,6 +187,7 @@ export interface ReplyDoneMessage {
   kind?: "reply" | "feedback" | "notification";
   runId?: string;
   artifacts?: unknown[];
+  budget?: BudgetRemaining;
 }
 
 export type ReplyCommitStatus = "not_required" | "no_change" | "committed" | "failed";
@@ -127,6 +197,212 @@ export interface ErrorMessage {
   content: string;
 }
 
+/** Sent before the daemon closes a connection whose token is missing, unknown, or under-scoped. */
+export interface UnauthorizedMessage {
+  type: "unauthorized";
+  reason: "missing_token" | "invalid_token" | "insufficient_scope";
+  content: string;
+}
+
+export interface ApprovalRequestedMessage {
+  type: "approval_requested";
+  approvalId: string;
+  runId: string;
+  tool: string;
+  reason: "destructive" | "external_effect";
+  target?: string;
+  preview: string;
+  workstreamId?: string;
+  options: ApprovalDecision[];
+  expiresAt: string;
+}
+
+export interface ApprovalResolvedMessage {
+  type: "approval_resolved";
+  approvalId: string;
+  runId: string;
+  tool: string;
+  decision: ApprovalDecision;
+  source: "user" | "standing_grant" | "pre_approved" | "policy" | "timeout" | "unattended" | "run_ended";
+}
+
+export interface CancelRunResultMessage {
+  type: "cancel_run_result";
+  status: "cancelling" | "not_found";
+  messageId?: string;
+  runId?: string;
+  queued?: boolean;
+}
+
+type RequestStatus = "queued" | "active" | "blocked" | "done" | "dropped";
+
+export interface WorkstreamListResult {
+  workstreams: Array<{
+    workstreamId: string;
+    title: string;
+    status: string;
+    lifecycleStatus?: "active" | "paused" | "archived";
+    starred: boolean;
+    currentRequest?: { id: string; title: string; status: RequestStatus };
+    unfinishedRequests: number;
+    updatedAt: string;
+  }>;
+}
+
+export interface WorkstreamOpenResult {
+  workstream: {
+    workstreamId: string;
+    title: string;
+    objective: string;
+    status: string;
+    updatedAt: string;
+  };
+  card?: {
+    summary: string;
+    workstreamStatus?: "in_progress" | "done" | "blocked";
+    currentFocus?: string;
+    next?: string;
+    blockers?: string[];
+    currentRequest?: { id: string; title: string; status: RequestStatus };
+    latestOutcome?: string;
+    resourcesChangedSinceLastRun?: Array<{
+      resourceId: string;
+      name: string;
+      change: "changed" | "missing" | "restored";
+      at: string;
+    }>;
+  };
+  recentProgress: Array<{ commit: string; summary: string; at?: string }>;
+}
+
+export interface WorkstreamStarResult {
+  workstreamId: string;
+  starred: boolean;
+  starredAt?: string;
+}
+
+export interface WorkstreamLifecycleResult {
+  operation: "archive" | "restore" | "rename" | "merge" | "split";
+  workstreamId: string;
+  sourceWorkstreamId?: string;
+  title: string;
+  lifecycleStatus: "active" | "paused" | "archived";
+  changed: boolean;
+  commit?: string;
+  movedRequests: Array<{ fromRequestId: string; toRequestId: string }>;
+}
+
+export interface WorkstreamResourcesResult {
+  workstreamId: string;
+  resources: Array<{
+    resourceId: string;
+    kind: string;
+    name: string;
+    locator: string;
+    availability: "available" | "missing" | "changed" | "deleted" | "unverified";
+    roles: string[];
+    lastUsedAt?: string;
+  }>;
+}
+
+export interface HistorySearchResult {
+  query: string;
+  hits: Array<{
+    kind: "message" | "run" | "evidence";
+    at: string;
+    preview: string;
+    workstreamId?: string;
+  }>;
+}
+
+export interface ModelSwitchResult {
+  provider: string;
+  model: string;
+}
+
+export interface ScheduleListResult {
+  schedules: Array<{
+    scheduleId: string;
+    name: string;
+    kind: "cron" | "once";
+    cron?: string;
+    at?: string;
+    timezone: string;
+    status: "active" | "completed" | "cancelled";
+    workstreamId?: string;
+    nextFireAt?: string;
+    lastFire?: { scheduledFor: string; status: string };
+  }>;
+}
+
+export interface MemoryCardSummary {
+  memoryId: string;
+  sectionId: MemorySectionId;
+  kind: string;
+  slot: string;
+  text: string;
+  value?: string;
+  startsAt?: string;
+  eventAt?: string;
+  expiresAt?: string;
+  state: string;
+  confidence: number;
+  sourceType: string;
+  lastConfirmedAt: string;
+}
+
+export interface MemoryListResult {
+  sections: Array<{ sectionId: MemorySectionId; cards: MemoryCardSummary[] }>;
+}
+
+export interface MemoryDetailResult {
+  memory: MemoryCardSummary & {
+    importance: number;
+    confirmations: number;
+    corrections: number;
+    contradictions: number;
+    createdAt: string;
+  };
+  evidence: Array<{ evidenceType: string; sourceText: string; createdAt: string; runId?: string }>;
+  events: Array<{ eventType: string; sourceText: string; createdAt: string }>;
+}
+
+export interface MemoryChangeResult {
+  memory: MemoryCardSummary;
+}
+
+/** Versioned document returned by `export_memory` and accepted by `import_memory`. */
+export interface MemoryExportDocument {
+  format: "ayati-personal-memory";
+  version: number;
+  exportedAt: string;
+  cards: unknown[];
+  evidence: unknown[];
+  events: unknown[];
+  aliases: unknown[];
+}
+
+export interface MemoryImportResult {
+  mode: "merge" | "replace";
+  cards: number;
+  evidence: number;
+  events: number;
+  aliases: number;
+  skipped: number;
+}
+
+export interface DaemonStatusResult {
+  queued: number;
+  activeRun?: { messageId: string; runId?: string; cancelling?: true };
+  pendingApprovals: number;
+  provider: string;
+  model: string;
+}
+
+export type QueryResultMessage =
+  | { type: "query_result"; queryId: string; kind: QueryKind; ok: true; result: unknown }
+  | { type: "query_result"; queryId: string; kind: QueryKind | "unknown"; ok: false; error: string };
+
 export type ServerMessage =
   | ChatAcceptedMessage
   | ReplyMessage
@@ -136,4 +412,9 @@ export type ServerMessage =
   | ReplyStartedMessage
   | ReplyDeltaMessage
   | ReplyDoneMessage
-  | ErrorMessage;
+  | ApprovalRequestedMessage
+  | ApprovalResolvedMessage
+  | CancelRunResultMessage
+  | QueryResultMessage
+  | ErrorMessage
+  | UnauthorizedMessage;
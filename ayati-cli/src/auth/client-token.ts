@@ -0,0 +1,90 @@
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, isAbsolute, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const thisDir = dirname(fileURLToPath(import.meta.url));
+const repoRoot = resolve(thisDir, "..", "..", "..");
+
+export type ClientTokenName = "cli" | "voice";
+
+export interface ClientTokenOptions {
+  env?: NodeJS.ProcessEnv;
+  /** Checkout that holds `.env` and `ayati-main`; defaults to the one this CLI runs from. */
+  repoRoot?: string;
+}
+
+const OVERRIDE_ENV: Record<ClientTokenName, string> = {
+  cli: "AYATI_CLIENT_TOKEN",
+  voice: "AYATI_VOICE_TOKEN",
+};
+
+/**
+ * Returns the token this client presents to the daemon: the override variable when set,
+ * otherwise the named entry from the daemon's token file. Missing tokens are left for the
+ * daemon to reject so the user sees its `unauthorized` explanation.
+ */
+export function readClientToken(name: ClientTokenName, options: ClientTokenOptions = {}): string | undefined {
+  const override = (options.env ?? process.env)[OVERRIDE_ENV[name]]?.trim();
+  if (override) {
+    return override;
+  }
+  try {
+    const parsed = JSON.parse(readFileSync(clientTokensFile(options), "utf8")) as unknown;
+    const tokens = parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)["tokens"]
+      : undefined;
+    if (!Array.isArray(tokens)) return undefined;
+    for (const entry of tokens) {
+      const record = entry && typeof entry === "object" ? entry as Record<string, unknown> : {};
+      if (record["name"] === name && typeof record["token"] === "string") {
+        return record["token"];
+      }
+    }
+  } catch {
+    // Unreadable or absent: the daemon has not started yet or runs as another user.
+  }
+  return undefined;
+}
+
+/** `<AYATI_ROOT_DIR>/.ayati/client-tokens.json`, resolved the same way the daemon resolves its root. */
+export function clientTokensFile(options: ClientTokenOptions = {}): string {
+  const root = options.repoRoot ?? repoRoot;
+  const daemonDir = join(root, "ayati-main");
+  const configured = expandHome(
+    (options.env ?? process.env)["AYATI_ROOT_DIR"]?.trim() || readDotEnvValue(join(root, ".env"), "AYATI_ROOT_DIR") || "",
+  );
+  const rootDirectory = !configured
+    ? join(daemonDir, "ayati")
+    : isAbsolute(configured) ? resolve(configured) : resolve(daemonDir, configured);
+  return join(rootDirectory, ".ayati", "client-tokens.json");
+}
+
+/** The daemon loads the checkout's `.env`; clients usually do not, so read the one key they need. */
+function readDotEnvValue(path: string, key: string): string | undefined {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch {
+    return undefined;
+  }
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/.exec(line);
+    if (match?.[1] !== key) continue;
+    const value = match[2]!.trim();
+    const quoted = /^(["'])(.*)\1$/.exec(value);
+    return (quoted ? quoted[2]! : value.replace(/\s+#.*$/, "")).trim() || undefined;
+  }
+  return undefined;
+}
+
+function expandHome(value: string): string {
+  if (value === "~") return homedir();
+  return value.startsWith("~/") ? join(homedir(), value.slice(2)) : value;
+}
+
+/** Explains an `unauthorized` envelope with where the token should have come from. */
+export function describeUnauthorized(content: string, options: ClientTokenOptions = {}): string {
+  return `${content} The CLI reads its token from ${clientTokensFile(options)}; `
+    + "start the daemon once to create it, or set AYATI_CLIENT_TOKEN.";
+}
@@ -0,0 +1,261 @@
+import { existsSync, statSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { basename, resolve } from "node:path";
+import { WS_URL } from "../app/hooks/use-websocket.js";
+import type { ChatRequestAttachment } from "../app/types.js";
+import { HeadlessSession, type HeadlessAskResult } from "./headless-session.js";
+
+export interface RunHeadlessCommandOptions {
+  url?: string;
+  cwd?: string;
+  /** Receives raw text; streamed replies are written without added newlines. */
+  stdout?: (text: string) => void;
+  stderr?: (text: string) => void;
+  /** Aborting cancels the prompt in flight and stops a script before its next prompt. */
+  signal?: AbortSignal;
+  connect?: (url: string) => Promise<HeadlessSession>;
+}
+
+interface ParsedHeadlessArgs {
+  positionals: string[];
+  attachments: string[];
+  json: boolean;
+}
+
+/** `ayati ask "..." [--attach path] [--json]`: sends one chat and exits with its outcome. */
+export async function runAskCommand(
+  args: string[],
+  options: RunHeadlessCommandOptions = {},
+): Promise<number> {
+  const io = headlessIo(options);
+  const parsed = parseHeadlessArgs(args);
+  if (typeof parsed === "string") {
+    io.stderr(`${parsed}\n\n${askHelp()}\n`);
+    return 2;
+  }
+  if (parsed.positionals[0] === "help" && parsed.positionals.length === 1) {
+    io.stdout(`${askHelp()}\n`);
+    return 0;
+  }
+  const content = parsed.positionals.join(" ").trim();
+  if (!content) {
+    io.stderr(`ayati ask needs a prompt.\n\n${askHelp()}\n`);
+    return 2;
+  }
+  const attachments = resolveAttachments(parsed.attachments, options.cwd ?? process.cwd());
+  if (typeof attachments === "string") {
+    io.stderr(`${attachments}\n`);
+    return 2;
+  }
+
+  return await withSession(options, io, async (session) => {
+    const result = await askAndReport(session, { content, attachments }, parsed.json, io, options.signal);
+    return exitCodeFor(result, options.signal);
+  });
+}
+
+/**
+ * `ayati run-script file.txt [--json]`: sends each non-empty line as its own chat, in order, on
+ * one connection. Lines starting with `#` are comments. The script stops at the first failure.
+ */
+export async function runScriptCommand(
+  args: string[],
+  options: RunHeadlessCommandOptions = {},
+): Promise<number> {
+  const io = headlessIo(options);
+  const parsed = parseHeadlessArgs(args);
+  if (typeof parsed === "string") {
+    io.stderr(`${parsed}\n\n${scriptHelp()}\n`);
+    return 2;
+  }
+  if (parsed.positionals[0] === "help" && parsed.positionals.length === 1) {
+    io.stdout(`${scriptHelp()}\n`);
+    return 0;
+  }
+  if (parsed.positionals.length !== 1 || parsed.attachments.length > 0) {
+    io.stderr(`${scriptHelp()}\n`);
+    return 2;
+  }
+
+  const scriptPath = resolve(options.cwd ?? process.cwd(), parsed.positionals[0]!);
+  let prompts: string[];
+  try {
+    prompts = parseScript(await readFile(scriptPath, "utf-8"));
+  } catch (error) {
+    io.stderr(`Could not read ${scriptPath}: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 2;
+  }
+  if (prompts.length === 0) {
+    io.stderr(`${scriptPath} has no prompts.\n`);
+    return 2;
+  }
+
+  return await withSession(options, io, async (session) => {
+    for (const [index, content] of prompts.entries()) {
+      if (options.signal?.aborted) return 130;
+      if (!parsed.json) {
+        io.stderr(`${index > 0 ? "\n" : ""}[${index + 1}/${prompts.length}] ${content}\n`);
+      }
+      const result = await askAndReport(session, { content, attachments: [] }, parsed.json, io, options.signal);
+      const exitCode = exitCodeFor(result, options.signal);
+      if (exitCode !== 0) {
+        if (!parsed.json && index < prompts.length - 1) {
+          io.stderr(`Stopped after prompt ${index + 1} of ${prompts.length}.\n`);
+        }
+        return exitCode;
+      }
+    }
+    return 0;
+  });
+}
+
+export function parseScript(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"));
+}
+
+async function withSession(
+  options: RunHeadlessCommandOptions,
+  io: HeadlessIo,
+  body: (session: HeadlessSession) => Promise<number>,
+): Promise<number> {
+  let session: HeadlessSession;
+  try {
+    session = await (options.connect ?? HeadlessSession.connect)(options.url ?? WS_URL);
+  } catch (error) {
+    io.stderr([
+      `Could not reach Ayati: ${error instanceof Error ? error.message : String(error)}`,
+      "Start the Ayati daemon, then try again.",
+    ].join("\n") + "\n");
+    return 1;
+  }
+  try {
+    return await body(session);
+  } finally {
+    session.close();
+  }
+}
+
+async function askAndReport(
+  session: HeadlessSession,
+  request: { content: string; attachments: ChatRequestAttachment[] },
+  json: boolean,
+  io: HeadlessIo,
+  signal: AbortSignal | undefined,
+): Promise<HeadlessAskResult> {
+  let streamed = "";
+  const result = await session.ask({
+    ...request,
+    ...(signal ? { signal } : {}),
+    ...(json ? {} : {
+      onDelta: (delta: string) => {
+        streamed += delta;
+        io.stdout(delta);
+      },
+    }),
+  });
+
+  if (json) {
+    io.stdout(`${JSON.stringify(result)}\n`);
+    return result;
+  }
+  if (streamed && !streamed.endsWith("\n")) {
+    io.stdout("\n");
+  }
+  if (result.status === "error") {
+    io.stderr(`Error: ${result.error}\n`);
+  } else {
+    io.stderr(`runId: ${result.runId ?? "none"}\ncommitStatus: ${result.commitStatus}\n`);
+  }
+  return result;
+}
+
+function exitCodeFor(result: HeadlessAskResult, signal: AbortSignal | undefined): number {
+  if (signal?.aborted) return 130;
+  return result.status === "error" || result.commitStatus === "failed" ? 1 : 0;
+}
+
+function parseHeadlessArgs(args: string[]): ParsedHeadlessArgs | string {
+  const parsed: ParsedHeadlessArgs = { positionals: [], attachments: [], json: false };
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]!;
+    if (arg === "--") {
+      parsed.positionals.push(...args.slice(index + 1));
+      break;
+    }
+    if (arg === "--json") {
+      parsed.json = true;
+    } else if (arg === "--attach") {
+      const path = args[++index];
+      if (!path) return "--attach needs a path.";
+      parsed.attachments.push(path);
+    } else if (arg.startsWith("--attach=")) {
+      const path = arg.slice("--attach=".length);
+      if (!path) return "--attach needs a path.";
+      parsed.attachments.push(path);
+    } else if (arg === "--help" || arg === "-h") {
+      parsed.positionals = ["help"];
+      parsed.attachments = [];
+      break;
+    } else if (arg.startsWith("--")) {
+      return `Unknown option: ${arg}`;
+    } else {
+      parsed.positionals.push(arg);
+    }
+  }
+  return parsed;
+}
+
+function resolveAttachments(paths: string[], cwd: string): ChatRequestAttachment[] | string {
+  const attachments: ChatRequestAttachment[] = [];
+  for (const path of paths) {
+    const absolute = resolve(cwd, path);
+    if (!existsSync(absolute)) {
+      return `Could not find: ${path}`;
+    }
+    const name = basename(absolute);
+    attachments.push(statSync(absolute).isDirectory()
+      ? { type: "directory", source: "cli", path: absolute, name }
+      : { source: "cli", path: absolute, name });
+  }
+  return attachments;
+}
+
+interface HeadlessIo {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+function headlessIo(options: RunHeadlessCommandOptions): HeadlessIo {
+  return {
+    stdout: options.stdout ?? ((text) => process.stdout.write(text)),
+    stderr: options.stderr ?? ((text) => process.stderr.write(text)),
+  };
+}
+
+function askHelp(): string {
+  return [
+    "Usage: ayati ask \"<prompt>\" [--attach <path>]... [--json]",
+    "",
+    "Sends one prompt to the running daemon, streams the reply to stdout, and prints the",
+    "runId and commitStatus to stderr. Exits 1 on a daemon error or a failed commit.",
+    "",
+    "Options:",
+    "  --attach <path>  Attach a local file or folder (repeatable)",
+    "  --json           Print one JSON result line instead of streaming text",
+  ].join("\n");
+}
+
+function scriptHelp(): string {
+  return [
+    "Usage: ayati run-script <file> [--json]",
+    "",
+    "Sends each non-empty line of <file> as its own prompt, in order. Lines starting",
+    "with # are skipped. Stops at the first prompt that errors or fails to commit.",
+    "",
+    "Options:",
+    "  --json  Print one JSON result line per prompt",
+  ].join("\n");
+}
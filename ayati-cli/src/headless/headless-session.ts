@@ -0,0 +1,222 @@
+import { randomUUID } from "node:crypto";
+import WebSocket from "ws";
+import type {
+  BudgetRemaining,
+  ChatRequestAttachment,
+  ClientMessage,
+  ReplyCommitStatus,
+} from "../app/types.js";
+import { describeUnauthorized, readClientToken } from "../auth/client-token.js";
+
+const CONNECT_TIMEOUT_MS = 5_000;
+
+export interface HeadlessAskRequest {
+  content: string;
+  attachments?: ChatRequestAttachment[];
+  /** Receives reply text as it streams; notification turns are never forwarded. */
+  onDelta?: (delta: string) => void;
+  /** Aborting sends `cancel_run` for this message; the answer still arrives as a normal reply. */
+  signal?: AbortSignal;
+}
+
+export type HeadlessAskResult =
+  | {
+    status: "replied";
+    messageId: string;
+    kind: "reply" | "feedback";
+    content: string;
+    commitStatus: ReplyCommitStatus;
+    runId?: string;
+    budget?: BudgetRemaining;
+    cancelRequested?: true;
+  }
+  | {
+    status: "error";
+    messageId: string;
+    error: string;
+    cancelRequested?: true;
+  };
+
+interface PendingAsk {
+  messageId: string;
+  request: HeadlessAskRequest;
+  notificationTurns: Set<string>;
+  streamedTurns: Set<string>;
+  cancelRequested: boolean;
+  resolve(result: HeadlessAskResult): void;
+}
+
+/**
+ * One WebSocket connection to the daemon that sends chats one at a time and resolves each with
+ * its final `reply_done`. It declares no approval support, so gated tools are denied unattended.
+ */
+export class HeadlessSession {
+  private pending: PendingAsk | undefined;
+  private closedReason: string | undefined;
+
+  private constructor(private readonly socket: WebSocket) {
+    socket.on("message", (raw) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        this.receive(parsed as Record<string, unknown>);
+      }
+    });
+    socket.on("close", () => {
+      this.closedReason ??= "The Ayati daemon closed the connection.";
+      this.settle({ error: this.closedReason });
+    });
+    socket.on("error", () => {
+      // close follows error and settles any pending ask
+    });
+  }
+
+  static connect(url: string, token = readClientToken("cli")): Promise<HeadlessSession> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url, { handshakeTimeout: CONNECT_TIMEOUT_MS });
+      const fail = (error: Error): void => {
+        socket.removeAllListeners();
+        socket.on("error", () => undefined);
+        socket.terminate();
+        reject(error);
+      };
+      socket.once("error", fail);
+      socket.once("close", () => fail(new Error("Connection closed before it opened.")));
+      socket.once("open", () => {
+        socket.removeAllListeners();
+        const session = new HeadlessSession(socket);
+        session.send({
+          type: "client_hello",
+          clientKind: "cli",
+          ...(token ? { token } : {}),
+          capabilities: { replyStreaming: true, approvals: false },
+        });
+        resolve(session);
+      });
+    });
+  }
+
+  ask(request: HeadlessAskRequest): Promise<HeadlessAskResult> {
+    if (this.pending) {
+      throw new Error("HeadlessSession sends one chat at a time.");
+    }
+    const messageId = randomUUID();
+    if (this.closedReason) {
+      return Promise.resolve({ status: "error", messageId, error: this.closedReason });
+    }
+    return new Promise((resolve) => {
+      const onAbort = (): void => {
+        const pending = this.pending;
+        if (!pending || pending.messageId !== messageId || pending.cancelRequested) return;
+        pending.cancelRequested = true;
+        this.send({ type: "cancel_run", messageId });
+      };
+      this.pending = {
+        messageId,
+        request,
+        notificationTurns: new Set(),
+        streamedTurns: new Set(),
+        cancelRequested: false,
+        resolve: (result) => {
+          request.signal?.removeEventListener("abort", onAbort);
+          resolve(result);
+        },
+      };
+      this.send({
+        type: "chat",
+        messageId,
+        content: request.content,
+        ...(request.attachments && request.attachments.length > 0
+          ? { attachments: request.attachments }
+          : {}),
+      });
+      if (request.signal?.aborted) {
+        onAbort();
+      } else {
+        request.signal?.addEventListener("abort", onAbort, { once: true });
+      }
+    });
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private receive(message: Record<string, unknown>): void {
+    if (message["type"] === "unauthorized") {
+      this.closedReason = describeUnauthorized(
+        typeof message["content"] === "string" ? message["content"] : "The daemon rejected this client.",
+      );
+      this.settle({ error: this.closedReason });
+      return;
+    }
+    const pending = this.pending;
+    if (!pending) return;
+    const turnId = typeof message["turnId"] === "string" ? message["turnId"] : undefined;
+
+    switch (message["type"]) {
+      case "reply_started":
+        if (turnId && message["kind"] === "notification") {
+          pending.notificationTurns.add(turnId);
+        }
+        return;
+      case "reply_delta":
+        if (!turnId || pending.notificationTurns.has(turnId) || typeof message["delta"] !== "string") return;
+        pending.streamedTurns.add(turnId);
+        pending.request.onDelta?.(message["delta"]);
+        return;
+      case "reply_done": {
+        // Notifications can interleave with a run (reminders, scheduled work) and never end the ask.
+        if (!turnId || message["kind"] === "notification" || pending.notificationTurns.has(turnId)) return;
+        const content = typeof message["content"] === "string" ? message["content"] : "";
+        if (!pending.streamedTurns.has(turnId) && content) {
+          pending.request.onDelta?.(content);
+        }
+        this.settle({
+          reply: {
+            kind: message["kind"] === "feedback" ? "feedback" : "reply",
+            content,
+            commitStatus: isCommitStatus(message["commitStatus"]) ? message["commitStatus"] : "not_required",
+            ...(typeof message["runId"] === "string" ? { runId: message["runId"] } : {}),
+            ...(isRecord(message["budget"]) ? { budget: message["budget"] as BudgetRemaining } : {}),
+          },
+        });
+        return;
+      }
+      case "error":
+        this.settle({ error: typeof message["content"] === "string" ? message["content"] : "Unknown daemon error." });
+        return;
+    }
+  }
+
+  private settle(outcome: {
+    reply?: Omit<Extract<HeadlessAskResult, { status: "replied" }>, "status" | "messageId" | "cancelRequested">;
+    error?: string;
+  }): void {
+    const pending = this.pending;
+    if (!pending) return;
+    this.pending = undefined;
+    const cancelled = pending.cancelRequested ? { cancelRequested: true as const } : {};
+    pending.resolve(outcome.reply
+      ? { status: "replied", messageId: pending.messageId, ...outcome.reply, ...cancelled }
+      : { status: "error", messageId: pending.messageId, error: outcome.error ?? "Unknown daemon error.", ...cancelled });
+  }
+}
+
+function isCommitStatus(value: unknown): value is ReplyCommitStatus {
+  return value === "not_required" || value === "no_change" || value === "committed" || value === "failed";
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
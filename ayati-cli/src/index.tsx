@@ -2,11 +2,21 @@
 import { render } from "ink";
 import { App } from "./app/app.js";
 import { createMouseTrackingStdin } from "./app/input/terminal-mouse.js";
+import { runAskCommand, runScriptCommand } from "./headless/headless-commands.js";
 import { runVoiceCommand } from "./voice/voice-control-client.js";
 
 const args = process.argv.slice(2);
 if (args[0] === "voice") {
   process.exitCode = await runVoiceCommand(args.slice(1));
+} else if (args[0] === "ask" || args[0] === "run-script") {
+  const interrupt = new AbortController();
+  // First Ctrl-C cancels the run in flight; a second one exits immediately.
+  process.once("SIGINT", () => {
+    interrupt.abort();
+    process.once("SIGINT", () => process.exit(130));
+  });
+  const run = args[0] === "ask" ? runAskCommand : runScriptCommand;
+  process.exitCode = await run(args.slice(1), { signal: interrupt.signal });
 } else {
   const mouseScrollEnabled = process.env["AYATI_MOUSE_SCROLL"] === "1";
   const stdin = mouseScrollEnabled
@@ -1,6 +1,7 @@
 import { createConnection } from "node:net";
 import { tmpdir } from "node:os";
 import { isAbsolute, resolve } from "node:path";
+import { readClientToken } from "../auth/client-token.js";
 
 const REQUEST_TIMEOUT_MS = 5_000;
 const MAX_RESPONSE_BYTES = 16_384;
@@ -26,6 +27,7 @@ export interface RunVoiceCommandOptions {
   request?: (
     socketPath: string,
     command: VoiceControlCommand,
+    token: string | undefined,
   ) => Promise<VoiceControlResponse>;
 }
 
@@ -57,7 +59,8 @@ export async function runVoiceCommand(
   }
 
   try {
-    const response = await (options.request ?? requestVoiceControl)(socketPath, command);
+    const token = readClientToken("voice", { env: options.env ?? process.env });
+    const response = await (options.request ?? requestVoiceControl)(socketPath, command, token);
     const lines = [
       response.message,
       `State: ${response.voice.state}`,
@@ -100,6 +103,7 @@ export function resolveControlSocketPath(
 function requestVoiceControl(
   socketPath: string,
   command: VoiceControlCommand,
+  token: string | undefined,
 ): Promise<VoiceControlResponse> {
   return new Promise((resolve, reject) => {
     const socket = createConnection(socketPath);
@@ -115,7 +119,7 @@ function requestVoiceControl(
       reject(error);
     };
     socket.on("connect", () => {
-      socket.write(`${JSON.stringify({ version: 1, command })}\n`);
+      socket.write(`${JSON.stringify({ version: 1, command, ...(token ? { token } : {}) })}\n`);
     });
     socket.on("data", (chunk: string) => {
       response += chunk;
@@ -470,4 +470,117 @@ describe("App", () => {
       app.unmount();
     });
   });
+
+  it("shows pending tool approvals and answers them with slash commands", async () => {
+    const app = await renderApp();
+
+    await act(async () => {
+      deliver({
+        type: "approval_requested",
+        approvalId: "approval-1",
+        runId: "R-1",
+        tool: "delete",
+        reason: "destructive",
+        target: "/tmp/report.txt",
+        preview: "{\n  \"path\": \"/tmp/report.txt\"\n}",
+        workstreamId: "W-1",
+        options: ["approve", "deny", "always_for_workstream"],
+        expiresAt: "2026-10-19T10:05:00.000Z",
+      });
+    });
+
+    const frame = app.lastFrame() ?? "";
+    expect(frame).toContain("Approval needed: delete (destructive)");
+    expect(frame).toContain("target: /tmp/report.txt");
+    expect(frame).toContain("/always");
+
+    await writeInput(app, "/deny");
+
+    expect(sentMessages()).toContainEqual({
+      type: "approval_response",
+      approvalId: "approval-1",
+      decision: "deny",
+    });
+    expect(app.lastFrame() ?? "").not.toContain("Approval needed");
+
+    await writeInput(app, "/approve");
+    expect(app.lastFrame() ?? "").toContain("No tool call is waiting for approval.");
+
+    await act(async () => {
+      app.unmount();
+    });
+  });
+
+  it("stops the active chat run with /stop", async () => {
+    const app = await renderApp();
+
+    await writeInput(app, "/stop");
+    expect(app.lastFrame() ?? "").toContain("No run is active.");
+
+    await writeInput(app, "hello");
+    const [chat] = sentChatMessages() as Array<{ messageId: string }>;
+    await writeInput(app, "/stop");
+
+    expect(sentMessages()).toContainEqual({ type: "cancel_run", messageId: chat?.messageId });
+
+    await act(async () => {
+      deliver({ type: "cancel_run_result", status: "cancelling", messageId: chat!.messageId });
+    });
+    expect(app.lastFrame() ?? "").toContain("Stopping the current run.");
+
+    await act(async () => {
+      app.unmount();
+    });
+  });
+
+  it("renders daemon query results in a panel instead of chat history", async () => {
+    const app = await renderApp();
+
+    await writeInput(app, "/workstreams coffee");
+    const query = sentMessages().find((message) => (
+      (message as { type?: unknown }).type === "query"
+    )) as { queryId: string };
+    expect(query).toEqual({
+      type: "query",
+      queryId: expect.any(String),
+      kind: "list_workstreams",
+      query: "coffee",
+    });
+    expect(app.lastFrame() ?? "").toContain("Workstreams matching \"coffee\" (loading...)");
+
+    await act(async () => {
+      deliver({
+        type: "query_result",
+        queryId: query.queryId,
+        kind: "list_workstreams",
+        ok: true,
+        result: {
+          workstreams: [{
+            workstreamId: "W-20260719-0001",
+            title: "Coffee site",
+            status: "active",
+            starred: true,
+            currentRequest: { id: "R-0002", title: "Add menu page", status: "active" },
+            unfinishedRequests: 1,
+            updatedAt: "2026-07-19T10:00:00.000Z",
+          }],
+        },
+      });
+    });
+
+    const frame = app.lastFrame() ?? "";
+    expect(frame).toContain("★ W-20260719-0001 [active] Coffee site — Add menu page (active)");
+    expect(frame).toContain("/close to dismiss");
+    expect(sentChatMessages()).toEqual([]);
+
+    await writeInput(app, "/open nope");
+    expect(app.lastFrame() ?? "").toContain("Usage: /open W-20260101-0001");
+
+    await writeInput(app, "/close");
+    expect(app.lastFrame() ?? "").not.toContain("/close to dismiss");
+
+    await act(async () => {
+      app.unmount();
+    });
+  });
 });
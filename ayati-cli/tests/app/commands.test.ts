@@ -5,4 +5,112 @@ describe("parseCliCommand", () => {
   it("keeps /clear as the only document-related command", () => {
     expect(parseCliCommand("/clear")).toEqual({ type: "clearDocs" });
   });
+
+  it("parses approval answers", () => {
+    expect(parseCliCommand("/approve")).toEqual({ type: "approval", decision: "approve" });
+    expect(parseCliCommand("/DENY")).toEqual({ type: "approval", decision: "deny" });
+    expect(parseCliCommand("/always")).toEqual({ type: "approval", decision: "always_for_workstream" });
+  });
+
+  it("parses /stop as a run cancellation", () => {
+    expect(parseCliCommand("/stop")).toEqual({ type: "stop" });
+  });
+
+  it("parses daemon query commands", () => {
+    expect(parseCliCommand("/workstreams")).toEqual({ type: "query", query: { kind: "list_workstreams" } });
+    expect(parseCliCommand("/workstreams solar panels")).toEqual({
+      type: "query",
+      query: { kind: "list_workstreams", query: "solar panels" },
+    });
+    expect(parseCliCommand("/open w-20260719-0001")).toEqual({
+      type: "query",
+      query: { kind: "open_workstream", workstreamId: "W-20260719-0001" },
+    });
+    expect(parseCliCommand("/unstar W-20260719-0001")).toEqual({
+      type: "query",
+      query: { kind: "set_workstream_star", workstreamId: "W-20260719-0001", starred: false },
+    });
+    expect(parseCliCommand("/restore W-20260719-0001")).toEqual({
+      type: "query",
+      query: { kind: "archive_workstream", workstreamId: "W-20260719-0001", archived: false },
+    });
+    expect(parseCliCommand("/rename w-20260719-0001 Bakery website")).toEqual({
+      type: "query",
+      query: { kind: "rename_workstream", workstreamId: "W-20260719-0001", title: "Bakery website" },
+    });
+    expect(parseCliCommand("/merge W-20260719-0001 into W-20260719-0002")).toEqual({
+      type: "query",
+      query: { kind: "merge_workstreams", sourceWorkstreamId: "W-20260719-0001", targetWorkstreamId: "W-20260719-0002" },
+    });
+    expect(parseCliCommand("/split W-20260719-0001 r-0002 R-0004 Menu photos")).toEqual({
+      type: "query",
+      query: {
+        kind: "split_workstream",
+        workstreamId: "W-20260719-0001",
+        requestIds: ["R-0002", "R-0004"],
+        title: "Menu photos",
+      },
+    });
+    expect(parseCliCommand("/split W-20260719-0001 Menu photos")).toMatchObject({ type: "invalid" });
+    expect(parseCliCommand("/rename W-20260719-0001")).toMatchObject({ type: "invalid" });
+    expect(parseCliCommand("/resources W-20260719-0001")).toEqual({
+      type: "query",
+      query: { kind: "list_workstream_resources", workstreamId: "W-20260719-0001" },
+    });
+    expect(parseCliCommand("/history menu prices")).toEqual({
+      type: "query",
+      query: { kind: "search_history", query: "menu prices" },
+    });
+    expect(parseCliCommand("/model OpenAI gpt-5-mini")).toEqual({
+      type: "query",
+      query: { kind: "set_model", provider: "openai", model: "gpt-5-mini" },
+    });
+    expect(parseCliCommand("/schedules")).toEqual({ type: "query", query: { kind: "list_schedules" } });
+    expect(parseCliCommand("/schedules all")).toEqual({
+      type: "query",
+      query: { kind: "list_schedules", includeInactive: true },
+    });
+    expect(parseCliCommand("/status")).toEqual({ type: "query", query: { kind: "status" } });
+    expect(parseCliCommand("/close")).toEqual({ type: "closePanel" });
+  });
+
+  it("parses /memory browsing, editing and transfer commands", () => {
+    expect(parseCliCommand("/memory")).toEqual({ type: "query", query: { kind: "list_memories" } });
+    expect(parseCliCommand("/memory timed all")).toEqual({
+      type: "query",
+      query: { kind: "list_memories", sectionId: "time_based", includeInactive: true },
+    });
+    expect(parseCliCommand("/memory show mem_1a2b3c4d")).toEqual({
+      type: "query",
+      query: { kind: "memory_detail", memoryId: "mem_1a2b3c4d" },
+    });
+    expect(parseCliCommand("/memory edit mem_1a2b3c4d User's name is Sai Eshwar.")).toEqual({
+      type: "query",
+      query: { kind: "edit_memory", memoryId: "mem_1a2b3c4d", text: "User's name is Sai Eshwar." },
+    });
+    expect(parseCliCommand("/memory archive mem_1a2b3c4d")).toEqual({
+      type: "query",
+      query: { kind: "archive_memory", memoryId: "mem_1a2b3c4d" },
+    });
+    expect(parseCliCommand("/memory export ~/memory backup.json")).toEqual({
+      type: "memoryExport",
+      path: "~/memory backup.json",
+    });
+    expect(parseCliCommand("/memory import --replace backup.json")).toEqual({
+      type: "memoryImport",
+      path: "backup.json",
+      mode: "replace",
+    });
+    expect(parseCliCommand("/memory edit mem_1a2b3c4d")).toMatchObject({ type: "invalid" });
+    expect(parseCliCommand("/memory import")).toMatchObject({ type: "invalid" });
+    expect(parseCliCommand("/memory hobbies")).toMatchObject({ type: "invalid" });
+  });
+
+  it("rejects query commands with missing or malformed arguments", () => {
+    expect(parseCliCommand("/star")).toEqual({ type: "invalid", message: "Usage: /star W-20260101-0001" });
+    expect(parseCliCommand("/history")).toMatchObject({ type: "invalid" });
+    expect(parseCliCommand("/model openai")).toMatchObject({ type: "invalid" });
+    expect(parseCliCommand("/model openai gpt-5 extra")).toMatchObject({ type: "invalid" });
+    expect(parseCliCommand("/schedules soon")).toEqual({ type: "invalid", message: "Usage: /schedules [all]" });
+  });
 });
@@ -0,0 +1,220 @@
+import React from "react";
+import { render } from "ink-testing-library";
+import { describe, expect, it } from "vitest";
+import {
+  MAX_QUERY_PANEL_LINES,
+  QueryPanel,
+  queryPanelHeight,
+  queryResultPanel,
+} from "../../../src/app/components/query-panel.js";
+
+describe("query panel", () => {
+  it("renders an opened workstream card with its recent progress", () => {
+    const panel = queryResultPanel({
+      type: "query_result",
+      queryId: "q1",
+      kind: "open_workstream",
+      ok: true,
+      result: {
+        workstream: {
+          workstreamId: "W-20260719-0001",
+          title: "Coffee site",
+          objective: "Build the site.",
+          status: "active",
+          updatedAt: "2026-07-19T10:00:00.000Z",
+        },
+        card: {
+          summary: "Landing page shipped.",
+          next: "Add the menu page.",
+          blockers: ["Waiting on prices"],
+          resourcesChangedSinceLastRun: [{
+            resourceId: "RES-1",
+            name: "menu.md",
+            change: "missing",
+            at: "2026-07-19T11:00:00.000Z",
+          }],
+        },
+        recentProgress: [{ commit: "0123456789ab", summary: "Shipped the landing page.", at: "2026-07-19T09:00:00.000Z" }],
+      },
+    }, { kind: "open_workstream", workstreamId: "W-20260719-0001" });
+
+    const { lastFrame, unmount } = render(<QueryPanel panel={panel} width={100} />);
+    const frame = lastFrame() ?? "";
+
+    expect(frame).toContain("W-20260719-0001 Coffee site");
+    expect(frame).toContain("Next: Add the menu page.");
+    expect(frame).toContain("Blocked: Waiting on prices");
+    expect(frame).toContain("Changed since last run: menu.md (missing)");
+    expect(frame).toContain("2026-07-19 Shipped the landing page.");
+    unmount();
+  });
+
+  it("shows daemon status and query errors", () => {
+    const status = queryResultPanel({
+      type: "query_result",
+      queryId: "q2",
+      kind: "status",
+      ok: true,
+      result: {
+        queued: 1,
+        activeRun: { messageId: "m-1", runId: "run-7", cancelling: true },
+        pendingApprovals: 0,
+        provider: "openai",
+        model: "gpt-5-mini",
+      },
+    }, { kind: "status" });
+    const failed = queryResultPanel({
+      type: "query_result",
+      queryId: "q3",
+      kind: "set_model",
+      ok: false,
+      error: "Unknown provider \"acme\".",
+    }, { kind: "set_model", provider: "acme", model: "m" });
+
+    expect(status.lines.map((line) => line.text)).toEqual([
+      "Active run: run-7 (cancelling)",
+      "Queued chats: 1",
+      "Waiting approvals: 0",
+      "Model: openai / gpt-5-mini",
+    ]);
+    expect(failed).toEqual({
+      title: "Model",
+      status: "error",
+      lines: [{ text: "Unknown provider \"acme\".", tone: "warning" }],
+    });
+  });
+
+  it("lists schedules with their next fire and last result", () => {
+    const panel = queryResultPanel({
+      type: "query_result",
+      queryId: "q5",
+      kind: "list_schedules",
+      ok: true,
+      result: {
+        schedules: [{
+          scheduleId: "sched_0123456789ab",
+          name: "Inbox digest",
+          kind: "cron",
+          cron: "0 9 * * 1-5",
+          timezone: "Europe/Berlin",
+          status: "active",
+          nextFireAt: "2026-07-20T07:00:00.000Z",
+          lastFire: { scheduledFor: "2026-07-17T07:00:00.000Z", status: "failed" },
+        }],
+      },
+    }, { kind: "list_schedules" });
+
+    expect(panel).toEqual({
+      title: "Active schedules",
+      status: "ready",
+      lines: [{
+        text: "sched_0123456789ab Inbox digest — cron 0 9 * * 1-5, next 2026-07-20 07:00 UTC, last failed",
+        tone: "warning",
+      }],
+    });
+  });
+
+  it("lists memory by section and shows a card's evidence and history", () => {
+    const card = {
+      memoryId: "mem_1a2b3c4d-5e6f-4000-8000-000000000001",
+      sectionId: "time_based" as const,
+      kind: "exam",
+      slot: "education/exam",
+      text: "User has an exam on May 20.",
+      eventAt: "2026-05-20T03:30:00.000Z",
+      state: "active",
+      confidence: 0.86,
+      sourceType: "explicit_user_statement",
+      lastConfirmedAt: "2026-04-24T00:00:00.000Z",
+    };
+    const list = queryResultPanel({
+      type: "query_result",
+      queryId: "q6",
+      kind: "list_memories",
+      ok: true,
+      result: {
+        sections: [
+          { sectionId: "user_facts", cards: [] },
+          { sectionId: "time_based", cards: [card, { ...card, memoryId: "mem_99999999-0000", state: "expired" }] },
+        ],
+      },
+    }, { kind: "list_memories" });
+    const detail = queryResultPanel({
+      type: "query_result",
+      queryId: "q7",
+      kind: "memory_detail",
+      ok: true,
+      result: {
+        memory: { ...card, importance: 0.9, confirmations: 1, corrections: 0, contradictions: 0, createdAt: card.lastConfirmedAt },
+        evidence: [{ evidenceType: "creates", sourceText: "I have an exam on May 20.", createdAt: "2026-04-24T00:00:00.000Z" }],
+        events: [{ eventType: "creates", sourceText: "User has an exam on May 20.", createdAt: "2026-04-24T00:00:00.000Z" }],
+      },
+    }, { kind: "memory_detail", memoryId: "mem_1a2b3c4d" });
+
+    expect(list).toEqual({
+      title: "Memory",
+      status: "ready",
+      lines: [
+        { text: "User facts (0)", tone: "accent" },
+        { text: "Time-based (2)", tone: "accent" },
+        { text: "mem_1a2b3c4d User has an exam on May 20. (2026-05-20)" },
+        { text: "mem_99999999 User has an exam on May 20. (2026-05-20) [expired]", tone: "dim" },
+      ],
+    });
+    expect(detail.title).toBe("Memory mem_1a2b3c4d");
+    expect(detail.lines.map((line) => line.text)).toEqual([
+      "User has an exam on May 20.",
+      "Time-based · exam · education/exam · active · confidence 0.86",
+      "Happens: 2026-05-20 03:30 UTC",
+      "2026-04-24 creates: I have an exam on May 20.",
+      "2026-04-24 history creates: User has an exam on May 20.",
+    ]);
+  });
+
+  it("reports where a memory export was saved and what an import added", () => {
+    const exported = queryResultPanel({
+      type: "query_result",
+      queryId: "q8",
+      kind: "export_memory",
+      ok: true,
+      result: { format: "ayati-personal-memory", version: 1, exportedAt: "", cards: [{}, {}], evidence: [{}], events: [], aliases: [] },
+    }, { kind: "export_memory" }, { exportPath: "/home/sai/memory.json" });
+    const imported = queryResultPanel({
+      type: "query_result",
+      queryId: "q9",
+      kind: "import_memory",
+      ok: true,
+      result: { mode: "merge", cards: 2, evidence: 1, events: 0, aliases: 0, skipped: 3 },
+    }, { kind: "import_memory", document: null, mode: "merge" });
+
+    expect(exported.lines[0]?.text)
+      .toBe("Saved 2 cards, 1 evidence entries, 0 history events and 0 aliases to /home/sai/memory.json.");
+    expect(imported.lines.map((line) => line.text)).toEqual([
+      "Imported 2 cards, 1 evidence entries, 0 history events and 0 aliases.",
+      "3 entries were already present and kept as they were.",
+    ]);
+  });
+
+  it("caps long results to a fixed height", () => {
+    const panel = queryResultPanel({
+      type: "query_result",
+      queryId: "q4",
+      kind: "search_history",
+      ok: true,
+      result: {
+        query: "menu",
+        hits: Array.from({ length: 15 }, (_, index) => ({
+          kind: "message",
+          at: "2026-07-19T09:00:00.000Z",
+          preview: `hit ${index}`,
+        })),
+      },
+    }, { kind: "search_history", query: "menu" });
+
+    expect(queryPanelHeight(panel)).toBe(2 + MAX_QUERY_PANEL_LINES);
+    expect(queryPanelHeight(null)).toBe(0);
+    const { lastFrame, unmount } = render(<QueryPanel panel={panel} width={80} />);
+    expect(lastFrame()).toContain("... 6 more");
+    unmount();
+  });
+});
@@ -0,0 +1,25 @@
+import React from "react";
+import { render } from "ink-testing-library";
+import { describe, expect, it } from "vitest";
+import { formatBudgetRemaining, StatusBar } from "../../../src/app/components/status-bar.js";
+
+describe("status bar budget", () => {
+  it("shows the tightest remaining USD and token budgets", () => {
+    expect(formatBudgetRemaining({
+      run: { usd: 0.42 },
+      workstream: { usd: 3.1, tokens: 400_000 },
+      day: { usd: 4.5, tokens: 12_000 },
+    })).toBe("$0.42 left this run · 12,000 tokens left today");
+    expect(formatBudgetRemaining({ day: { usd: 0 } })).toBe("$0.00 left today");
+    expect(formatBudgetRemaining({})).toBe("");
+  });
+
+  it("renders remaining budget next to the idle hints", () => {
+    const { lastFrame, unmount } = render(
+      <StatusBar isLoading={false} connected budget={{ workstream: { usd: 1.25 } }} />,
+    );
+
+    expect(lastFrame()).toContain("$1.25 left workstream | Enter:");
+    unmount();
+  });
+});
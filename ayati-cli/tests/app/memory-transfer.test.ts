@@ -0,0 +1,34 @@
+import { mkdtemp, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { readMemoryExport, writeMemoryExport } from "../../src/app/memory-transfer.js";
+
+const roots: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map(async (root) => await rm(root, { recursive: true, force: true })));
+});
+
+describe("memory transfer files", () => {
+  it("writes an owner-only export relative to the working directory and reads it back", async () => {
+    const cwd = await mkdtemp(join(tmpdir(), "ayati-cli-memory-"));
+    roots.push(cwd);
+    const document = { format: "ayati-personal-memory", version: 1, cards: [] };
+
+    const path = await writeMemoryExport("backups/memory.json", document, { cwd });
+
+    expect(path).toBe(join(cwd, "backups", "memory.json"));
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+    expect(await readMemoryExport("backups/memory.json", { cwd })).toEqual(document);
+  });
+
+  it("explains unreadable and non-JSON files", async () => {
+    const cwd = await mkdtemp(join(tmpdir(), "ayati-cli-memory-"));
+    roots.push(cwd);
+    await writeFile(join(cwd, "notes.txt"), "not json");
+
+    await expect(readMemoryExport("missing.json", { cwd })).rejects.toThrow(/Could not read .*missing\.json/);
+    await expect(readMemoryExport("notes.txt", { cwd })).rejects.toThrow(/is not a JSON memory export/);
+  });
+});
@@ -0,0 +1,50 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { clientTokensFile, readClientToken } from "../../src/auth/client-token.js";
+
+const roots: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map(async (root) => await rm(root, { recursive: true, force: true })));
+});
+
+describe("client tokens", () => {
+  it("resolves the token file like the daemon resolves AYATI_ROOT_DIR", async () => {
+    const repoRoot = await tempRoot();
+    expect(clientTokensFile({ env: {}, repoRoot }))
+      .toBe(join(repoRoot, "ayati-main", "ayati", ".ayati", "client-tokens.json"));
+    expect(clientTokensFile({ env: { AYATI_ROOT_DIR: "data/root" }, repoRoot }))
+      .toBe(join(repoRoot, "ayati-main", "data", "root", ".ayati", "client-tokens.json"));
+
+    await writeFile(join(repoRoot, ".env"), "OPENAI_API_KEY=x\nexport AYATI_ROOT_DIR=\"/srv/ayati\" \n");
+    expect(clientTokensFile({ env: {}, repoRoot })).toBe("/srv/ayati/.ayati/client-tokens.json");
+    expect(clientTokensFile({ env: { AYATI_ROOT_DIR: "/opt/ayati" }, repoRoot }))
+      .toBe("/opt/ayati/.ayati/client-tokens.json");
+  });
+
+  it("reads the named entry and prefers the override variable", async () => {
+    const repoRoot = await tempRoot();
+    const file = clientTokensFile({ env: {}, repoRoot });
+    await mkdir(join(file, ".."), { recursive: true });
+    await writeFile(file, JSON.stringify({
+      version: 1,
+      tokens: [
+        { name: "cli", scopes: ["chat", "upload"], token: "ayati_cli_secret" },
+        { name: "voice", scopes: ["voice"], token: "ayati_voice_secret" },
+      ],
+    }));
+
+    expect(readClientToken("cli", { env: {}, repoRoot })).toBe("ayati_cli_secret");
+    expect(readClientToken("voice", { env: {}, repoRoot })).toBe("ayati_voice_secret");
+    expect(readClientToken("cli", { env: { AYATI_CLIENT_TOKEN: "ayati_override" }, repoRoot })).toBe("ayati_override");
+    expect(readClientToken("cli", { env: {}, repoRoot: await tempRoot() })).toBeUndefined();
+  });
+});
+
+async function tempRoot(): Promise<string> {
+  const root = await mkdtemp(join(tmpdir(), "ayati-cli-token-"));
+  roots.push(root);
+  return root;
+}
@@ -0,0 +1,235 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { WebSocketServer, type WebSocket } from "ws";
+import {
+  parseScript,
+  runAskCommand,
+  runScriptCommand,
+} from "../../src/headless/headless-commands.js";
+
+type Received = Record<string, unknown>;
+type Responder = (message: Received, reply: (data: Received) => void) => void;
+
+const servers: WebSocketServer[] = [];
+const roots: string[] = [];
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await Promise.all(servers.splice(0).map((server) => new Promise<void>((resolve) => {
+    for (const client of server.clients) client.terminate();
+    server.close(() => resolve());
+  })));
+  await Promise.all(roots.splice(0).map(async (root) => await rm(root, { recursive: true, force: true })));
+});
+
+describe("runAskCommand", () => {
+  it("streams the reply, reports run metadata and exits cleanly", async () => {
+    const daemon = await startDaemon((message, reply) => {
+      if (message["type"] !== "chat") return;
+      const messageId = message["messageId"];
+      reply({ type: "chat_accepted", messageId, queued: false, queuePosition: 1 });
+      reply({ type: "reply_started", turnId: "n1", kind: "notification" });
+      reply({ type: "reply_delta", turnId: "n1", seq: 1, delta: "Reminder!" });
+      reply({ type: "reply_done", turnId: "n1", kind: "notification", content: "Reminder!", commitStatus: "not_required" });
+      reply({ type: "reply_started", turnId: "t1", kind: "reply", runId: "run-1" });
+      reply({ type: "reply_delta", turnId: "t1", seq: 1, delta: "Hello " });
+      reply({ type: "reply_delta", turnId: "t1", seq: 2, delta: "there." });
+      reply({ type: "reply_done", turnId: "t1", kind: "reply", content: "Hello there.", commitStatus: "committed", runId: "run-1" });
+    });
+    const output = captureOutput();
+    vi.stubEnv("AYATI_CLIENT_TOKEN", "ayati_cli_test_token");
+
+    const exitCode = await runAskCommand(["summarize", "the", "notes"], { url: daemon.url, ...output.options });
+
+    expect(exitCode).toBe(0);
+    expect(output.stdout()).toBe("Hello there.\n");
+    expect(output.stderr()).toBe("runId: run-1\ncommitStatus: committed\n");
+    expect(daemon.received[0]).toEqual({
+      type: "client_hello",
+      clientKind: "cli",
+      token: "ayati_cli_test_token",
+      capabilities: { replyStreaming: true, approvals: false },
+    });
+    expect(daemon.received[1]).toEqual({
+      type: "chat",
+      messageId: expect.any(String),
+      content: "summarize the notes",
+    });
+  });
+
+  it("reports a rejected client token instead of a bare disconnect", async () => {
+    const daemon = await startDaemon((message, reply) => {
+      if (message["type"] !== "client_hello") return;
+      reply({
+        type: "unauthorized",
+        reason: "invalid_token",
+        content: "The client token was not recognized; it may have been rotated.",
+      });
+    });
+    const output = captureOutput();
+    vi.stubEnv("AYATI_CLIENT_TOKEN", "ayati_stale_token");
+
+    const exitCode = await runAskCommand(["hello"], { url: daemon.url, ...output.options });
+
+    expect(exitCode).toBe(1);
+    expect(output.stderr()).toContain("The client token was not recognized");
+    expect(output.stderr()).toContain("AYATI_CLIENT_TOKEN");
+  });
+
+  it("sends resolved attachments and prints a JSON result", async () => {
+    const root = await mkdtemp(join(tmpdir(), "ayati-headless-"));
+    roots.push(root);
+    await writeFile(join(root, "report.txt"), "data");
+    const daemon = await startDaemon((message, reply) => {
+      if (message["type"] !== "chat") return;
+      reply({ type: "reply_done", turnId: "t1", kind: "reply", content: "Done.", commitStatus: "no_change", runId: "run-2" });
+    });
+    const output = captureOutput();
+
+    const exitCode = await runAskCommand(
+      ["--json", "--attach", "report.txt", "--attach=.", "read these"],
+      { url: daemon.url, cwd: root, ...output.options },
+    );
+
+    expect(exitCode).toBe(0);
+    const chat = daemon.received[1]!;
+    expect(chat["attachments"]).toEqual([
+      { source: "cli", path: join(root, "report.txt"), name: "report.txt" },
+      { type: "directory", source: "cli", path: root, name: root.split("/").pop() },
+    ]);
+    expect(JSON.parse(output.stdout())).toEqual({
+      status: "replied",
+      messageId: chat["messageId"],
+      kind: "reply",
+      content: "Done.",
+      commitStatus: "no_change",
+      runId: "run-2",
+    });
+  });
+
+  it("exits non-zero on a failed commit or a daemon error", async () => {
+    const failing = await startDaemon((message, reply) => {
+      if (message["type"] !== "chat") return;
+      reply({ type: "reply_done", turnId: "t1", kind: "reply", content: "Partial.", commitStatus: "failed", runId: "run-3" });
+    });
+    const erroring = await startDaemon((message, reply) => {
+      if (message["type"] === "chat") reply({ type: "error", content: "Budget exhausted." });
+    });
+
+    const failedOutput = captureOutput();
+    const errorOutput = captureOutput();
+    expect(await runAskCommand(["go"], { url: failing.url, ...failedOutput.options })).toBe(1);
+    expect(await runAskCommand(["go"], { url: erroring.url, ...errorOutput.options })).toBe(1);
+    expect(failedOutput.stderr()).toContain("commitStatus: failed");
+    expect(errorOutput.stderr()).toBe("Error: Budget exhausted.\n");
+  });
+
+  it("cancels the run in flight when interrupted", async () => {
+    const daemon = await startDaemon((message, reply) => {
+      if (message["type"] === "cancel_run") {
+        reply({ type: "cancel_run_result", status: "cancelling", messageId: message["messageId"] });
+        reply({ type: "reply_done", turnId: "t1", kind: "reply", content: "Stopped.", commitStatus: "not_required" });
+      }
+    });
+    const interrupt = new AbortController();
+    const output = captureOutput();
+
+    const pending = runAskCommand(["long task"], { url: daemon.url, signal: interrupt.signal, ...output.options });
+    await waitFor(() => daemon.received.some((message) => message["type"] === "chat"));
+    interrupt.abort();
+
+    expect(await pending).toBe(130);
+    const chat = daemon.received.find((message) => message["type"] === "chat")!;
+    expect(daemon.received).toContainEqual({ type: "cancel_run", messageId: chat["messageId"] });
+  });
+
+  it("reports an unreachable daemon and rejects a missing prompt", async () => {
+    const unreachable = captureOutput();
+    const missing = captureOutput();
+
+    expect(await runAskCommand(["hi"], { url: "ws://127.0.0.1:1", ...unreachable.options })).toBe(1);
+    expect(await runAskCommand(["--json"], missing.options)).toBe(2);
+    expect(unreachable.stderr()).toContain("Start the Ayati daemon");
+    expect(missing.stderr()).toContain("needs a prompt");
+  });
+});
+
+describe("runScriptCommand", () => {
+  it("replays prompts in order and stops at the first failure", async () => {
+    const root = await mkdtemp(join(tmpdir(), "ayati-headless-"));
+    roots.push(root);
+    await writeFile(join(root, "prompts.txt"), "# nightly\nfirst\n\nsecond\nthird\n");
+    const daemon = await startDaemon((message, reply) => {
+      if (message["type"] !== "chat") return;
+      const content = String(message["content"]);
+      reply({
+        type: "reply_done",
+        turnId: `turn-${content}`,
+        kind: "reply",
+        content: `ok ${content}`,
+        commitStatus: content === "second" ? "failed" : "committed",
+      });
+    });
+    const output = captureOutput();
+
+    const exitCode = await runScriptCommand(["prompts.txt"], { url: daemon.url, cwd: root, ...output.options });
+
+    expect(exitCode).toBe(1);
+    const chats = daemon.received.filter((message) => message["type"] === "chat");
+    expect(chats.map((chat) => chat["content"])).toEqual(["first", "second"]);
+    expect(new Set(chats.map((chat) => chat["messageId"])).size).toBe(2);
+    expect(output.stdout()).toBe("ok first\nok second\n");
+    expect(output.stderr()).toContain("[2/3] second");
+    expect(output.stderr()).toContain("Stopped after prompt 2 of 3.");
+  });
+
+  it("skips blank lines and comments when reading a script", () => {
+    expect(parseScript("  # header\r\nfirst\r\n\r\n  second  \n#done")).toEqual(["first", "second"]);
+  });
+});
+
+async function startDaemon(respond: Responder): Promise<{ url: string; received: Received[] }> {
+  const server = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+  servers.push(server);
+  await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+  const received: Received[] = [];
+  server.on("connection", (socket: WebSocket) => {
+    socket.on("message", (raw) => {
+      const message = JSON.parse(raw.toString()) as Received;
+      received.push(message);
+      respond(message, (data) => socket.send(JSON.stringify(data)));
+    });
+  });
+  const { port } = server.address() as AddressInfo;
+  return { url: `ws://127.0.0.1:${port}`, received };
+}
+
+function captureOutput(): {
+  options: { stdout: (text: string) => void; stderr: (text: string) => void };
+  stdout(): string;
+  stderr(): string;
+} {
+  let stdout = "";
+  let stderr = "";
+  return {
+    options: {
+      stdout: (text) => {
+        stdout += text;
+      },
+      stderr: (text) => {
+        stderr += text;
+      },
+    },
+    stdout: () => stdout,
+    stderr: () => stderr,
+  };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
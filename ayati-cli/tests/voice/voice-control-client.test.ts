@@ -15,14 +15,14 @@ describe("runVoiceCommand", () => {
     const stdout: string[] = [];
 
     const exitCode = await runVoiceCommand(["start"], {
-      env: { AYATI_VOICE_SOCKET_PATH: socketPath },
+      env: { AYATI_VOICE_SOCKET_PATH: socketPath, AYATI_VOICE_TOKEN: "ayati_voice_test_token" },
       stdout: (message) => stdout.push(message),
       stderr: (message) => stdout.push(`error:${message}`),
       request,
     });
 
     expect(exitCode).toBe(0);
-    expect(request).toHaveBeenCalledWith(socketPath, "press");
+    expect(request).toHaveBeenCalledWith(socketPath, "press", "ayati_voice_test_token");
     expect(stdout.join("\n")).toContain("State: recording");
     expect(stdout.join("\n")).toContain("Detail: Listening.");
   });
@@ -30,18 +30,21 @@ export type RunOutcome =
   | "incomplete"
   | "failed"
   | "blocked"
-  | "needs_user_input";
+  | "needs_user_input"
+  | "cancelled";
 
 export type RunStatus = "running" | RunOutcome | "recovery_required";
 
 export type RunStopReason =
   | "completed"
   | "run_limit"
+  | "budget_exhausted"
   | "context_limit"
   | "failed"
   | "blocked"
   | "needs_user_input"
-  | "interrupted";
+  | "interrupted"
+  | "cancelled";
 
 export type ContextEngineCapability =
   | "health"
@@ -561,6 +564,8 @@ export interface WorkstreamContextProjection {
     finalizedAt: string;
   }>;
   resources?: WorkstreamResourceBinding[];
+  /** Resources that changed or disappeared outside Ayati since the last finalized run. */
+  resourceChanges?: WorkstreamResourceChange[];
 }
 
 export type WorkstreamDiscoveryReason =
@@ -834,12 +839,122 @@ export interface SetWorkstreamStarRequest extends ContextEngineRequestEnvelope {
   at: string;
 }
 
+/** A star change the user made directly in a client, outside any agent run. */
+export interface SetWorkstreamStarByUserRequest extends ContextEngineRequestEnvelope {
+  workstreamId: WorkstreamId;
+  starred: boolean;
+  at: string;
+}
+
 export interface SetWorkstreamStarResponse {
   workstreamId: WorkstreamId;
   starred: boolean;
   starredAt?: string;
 }
 
+/**
+ * Workstream lifecycle operations each make one journaled context commit. `runId` names the
+ * active agent run making the change; clients omit it when the user acts directly.
+ */
+export interface ArchiveWorkstreamRequest extends ContextEngineRequestEnvelope {
+  runId?: RunId;
+  workstreamId: WorkstreamId;
+  /** False restores an archived workstream. */
+  archived: boolean;
+  at: string;
+}
+
+export interface RenameWorkstreamRequest extends ContextEngineRequestEnvelope {
+  runId?: RunId;
+  workstreamId: WorkstreamId;
+  title: string;
+  /** Replaces the card aliases; omitted keeps them and adds the former title. */
+  aliases?: string[];
+  at: string;
+}
+
+/** Moves every request, progress entry, and resource binding of the source into the target and archives the source. */
+export interface MergeWorkstreamsRequest extends ContextEngineRequestEnvelope {
+  runId?: RunId;
+  sourceWorkstreamId: WorkstreamId;
+  targetWorkstreamId: WorkstreamId;
+  at: string;
+}
+
+/** Moves the selected requests with their progress and resource bindings into a new workstream. */
+export interface SplitWorkstreamRequest extends ContextEngineRequestEnvelope {
+  runId?: RunId;
+  workstreamId: WorkstreamId;
+  requestIds: string[];
+  title: string;
+  /** Purpose of the new workstream; defaults to the first moved request. */
+  objective?: string;
+  at: string;
+}
+
+export type WorkstreamLifecycleOperationKind = "archive" | "restore" | "rename" | "merge" | "split";
+
+export interface WorkstreamLifecycleOperationResponse {
+  operation: WorkstreamLifecycleOperationKind;
+  /** The archived, restored, or renamed workstream, the merge target, or the workstream a split created. */
+  workstreamId: WorkstreamId;
+  /** The merged or split workstream. */
+  sourceWorkstreamId?: WorkstreamId;
+  title: string;
+  lifecycleStatus: "active" | "paused" | "archived";
+  /** False when the workstream was already in the requested state and nothing was committed. */
+  changed: boolean;
+  commit?: string;
+  movedRequests: Array<{ fromRequestId: string; toRequestId: string }>;
+}
+
+/** Writes one workstream's context history and resource manifest to a signed portable bundle. */
+export interface ExportWorkstreamRequest {
+  workstreamId: WorkstreamId;
+  /** New file to create; existing files are never overwritten. */
+  outputPath: string;
+  at: string;
+}
+
+export interface ExportWorkstreamResponse {
+  workstreamId: WorkstreamId;
+  title: string;
+  bundlePath: string;
+  commits: number;
+  resources: { total: number; portable: number; unavailable: number };
+  /** SHA-256 fingerprint of the exporting installation's signing key. */
+  signer: string;
+}
+
+export interface ImportWorkstreamRequest {
+  bundlePath: string;
+  /** The bundle must be signed by one of these fingerprints unless `allowUntrusted` is set. */
+  trustedSigners?: string[];
+  /** Accepts a validly signed bundle from a signer outside `trustedSigners`. */
+  allowUntrusted?: boolean;
+  at: string;
+}
+
+export interface ImportWorkstreamResponse {
+  workstreamId: WorkstreamId;
+  /** The identity the workstream had where it was exported. */
+  sourceWorkstreamId: WorkstreamId;
+  renamed: boolean;
+  title: string;
+  contextRepositoryPath: string;
+  head: string;
+  commits: number;
+  resources: Array<{
+    resourceId: ResourceId;
+    sourceResourceId: ResourceId;
+    availability: ResourceAvailability;
+    reconciled: "existing" | "created";
+  }>;
+  signer: string;
+  /** False when the import was accepted only because `allowUntrusted` was set. */
+  trusted: boolean;
+}
+
 export interface SelectWorkstreamForRunInput {
   runId: RunId;
   at: string;
@@ -967,6 +1082,70 @@ export interface FindResourcesResponse {
   }>;
 }
 
+/** Embeds pending semantic documents with the configured embedder outside any run. */
+export interface RefreshSemanticIndexRequest {
+  /** Documents embedded in one refresh, most recently updated first; defaults to 256. */
+  limit?: number;
+}
+
+export interface RefreshSemanticIndexResponse {
+  embedderId: string;
+  embedded: number;
+  /** Documents still waiting for a vector from this embedder. */
+  pending: number;
+}
+
+/** Re-observes filesystem and git resources bound to active workstreams outside any run. */
+export interface SweepResourceAvailabilityRequest {
+  at: string;
+  /** Resources observed in one sweep, least recently verified first; defaults to 50. */
+  limit?: number;
+}
+
+export type ResourceAvailabilityChange = "changed" | "missing" | "restored";
+
+export interface ResourceAvailabilityDrift {
+  eventId: string;
+  resource: ResourceRef;
+  change: ResourceAvailabilityChange;
+  previousVersion: ResourceVersion;
+  workstreams: Array<{
+    workstreamId: WorkstreamId;
+    title: string;
+    role: ResourceRole;
+    primary: boolean;
+    /** True for primary, output, and deliverable bindings. */
+    deliverable: boolean;
+  }>;
+}
+
+export interface SweepResourceAvailabilityResponse {
+  observed: number;
+  drift: ResourceAvailabilityDrift[];
+  /** Resources that could not be observed; their recorded state is left unchanged. */
+  failures: Array<{ resourceId: ResourceId; message: string }>;
+}
+
+/** Sweep drift recorded for a bound resource after the workstream's last finalized run. */
+export interface WorkstreamResourceChange {
+  resourceId: ResourceId;
+  displayName: string;
+  change: ResourceAvailabilityChange;
+  availability: ResourceAvailability;
+  at: string;
+}
+
+/** What the caller learned by fetching a URL resource; the engine itself never reaches the network. */
+export interface UrlResourceFetchObservation {
+  status: number;
+  etag?: string;
+  lastModified?: string;
+  /** Hash of the fetched body, present only when the full body was retained. */
+  sha256?: string;
+  sizeBytes?: number;
+  mediaType?: string;
+}
+
 export interface InspectResourceForRunRequest extends ContextEngineRequestEnvelope {
   runId: RunId;
   locator: ResourcePublicLocator;
@@ -975,6 +1154,8 @@ export interface InspectResourceForRunRequest extends ContextEngineRequestEnvelo
   displayName?: string;
   description?: string;
   aliases?: string[];
+  /** Only valid with a URL locator. */
+  fetched?: UrlResourceFetchObservation;
   at: string;
 }
 
@@ -1178,7 +1359,8 @@ export interface ResourceEvent {
   resourceId: ResourceId;
   workstreamId?: WorkstreamId;
   requestId?: string;
-  runId: RunId;
+  /** Absent for events recorded by an availability sweep. */
+  runId?: RunId;
   step?: number;
   callId?: string;
   type: ResourceEventType;
@@ -1511,6 +1693,9 @@ export function isInspectResourceForRunRequest(
     && optionalBoundedString(value["description"], 2_000)
     && (value["aliases"] === undefined
       || isBoundedStringArray(value["aliases"], 32, 500))
+    && (value["fetched"] === undefined
+      || (isRecord(value["locator"]) && value["locator"]["kind"] === "url"
+        && isUrlResourceFetchObservation(value["fetched"])))
     && isNonEmptyString(value["at"]);
 }
 
@@ -1859,6 +2044,19 @@ function isResourceRole(value: unknown): value is ResourceRole {
     || value === "evidence" || value === "asset";
 }
 
+function isUrlResourceFetchObservation(value: unknown): value is UrlResourceFetchObservation {
+  return isRecord(value)
+    && Number.isInteger(value["status"])
+    && Number(value["status"]) >= 100
+    && Number(value["status"]) <= 599
+    && optionalBoundedString(value["etag"], 1_000)
+    && optionalBoundedString(value["lastModified"], 200)
+    && (value["sha256"] === undefined || /^[a-f0-9]{64}$/.test(String(value["sha256"])))
+    && (value["sizeBytes"] === undefined
+      || (Number.isInteger(value["sizeBytes"]) && Number(value["sizeBytes"]) >= 0))
+    && optionalBoundedString(value["mediaType"], 200);
+}
+
 function isResourceLocator(value: unknown): value is ResourcePublicLocator {
   if (!isRecord(value)) return false;
   if (value["kind"] === "filesystem") return isBoundedString(value["path"], 8_192);
@@ -1912,7 +2110,8 @@ function isRunOutcome(value: unknown): value is RunOutcome {
     || value === "incomplete"
     || value === "failed"
     || value === "blocked"
-    || value === "needs_user_input";
+    || value === "needs_user_input"
+    || value === "cancelled";
 }
 
 function isAssistantResponseKind(value: unknown): value is AssistantResponseKind {
@@ -1930,11 +2129,13 @@ function isAssistantFeedbackKind(value: unknown): value is AssistantFeedbackKind
 function isRunStopReason(value: unknown): value is RunStopReason {
   return value === "completed"
     || value === "run_limit"
+    || value === "budget_exhausted"
     || value === "context_limit"
     || value === "failed"
     || value === "blocked"
     || value === "needs_user_input"
-    || value === "interrupted";
+    || value === "interrupted"
+    || value === "cancelled";
 }
 
 function isTruthfulTerminalPair(outcome: unknown, stopReason: unknown): boolean {
@@ -1942,8 +2143,10 @@ function isTruthfulTerminalPair(outcome: unknown, stopReason: unknown): boolean
   if (outcome === "failed") return stopReason === "failed";
   if (outcome === "blocked") return stopReason === "blocked";
   if (outcome === "needs_user_input") return stopReason === "needs_user_input";
+  if (outcome === "cancelled") return stopReason === "cancelled";
   return outcome === "incomplete"
     && (stopReason === "run_limit"
+      || stopReason === "budget_exhausted"
       || stopReason === "context_limit"
       || stopReason === "interrupted");
 }
@@ -1,9 +1,15 @@
 import type { DatabaseSync } from "node:sqlite";
+import { SEMANTIC_DOCUMENTS_TABLE_SQL } from "../search/semantic-index.js";
 import schemaVersion from "./schema-version.json" with { type: "json" };
 
 const SCHEMA_VERSION = schemaVersion.version;
 const FOCUS_SCHEMA_VERSION = 10;
 const BINDING_SCHEMA_VERSION = 11;
+const RESOLUTION_RETIRED_SCHEMA_VERSION = 12;
+const CANCELLED_OUTCOME_SCHEMA_VERSION = 13;
+const BUDGET_OUTCOME_SCHEMA_VERSION = 14;
+const LIFECYCLE_SCHEMA_VERSION = 15;
+const RESOURCE_EVENTS_SCHEMA_VERSION = 16;
 
 const RUN_WORKSTREAM_BINDING_IMMUTABLE_TRIGGER_SQL = [
   "CREATE TRIGGER runs_workstream_binding_immutable",
@@ -35,6 +41,166 @@ const RUN_WORKSTREAM_BINDING_IMMUTABLE_TRIGGER_SQL = [
   "BEGIN SELECT RAISE(ABORT, 'run workstream binding is immutable'); END;",
 ].join("\n");
 
+const WORKSTREAM_PROGRESS_TABLE_SQL = [
+  "CREATE TABLE workstream_progress (",
+  "  run_id TEXT PRIMARY KEY,",
+  "  workstream_id TEXT NOT NULL,",
+  "  request_id TEXT NOT NULL,",
+  "  outcome TEXT NOT NULL CHECK (outcome IN ('done', 'incomplete', 'failed', 'blocked', 'needs_user_input', 'cancelled')),",
+  "  summary TEXT NOT NULL,",
+  "  validation_summary TEXT NOT NULL,",
+  "  next_action TEXT,",
+  "  commit_sha TEXT NOT NULL,",
+  "  finalized_at TEXT NOT NULL,",
+  "  FOREIGN KEY (workstream_id, request_id)",
+  "    REFERENCES workstream_requests(workstream_id, request_id)",
+  ");",
+  "CREATE INDEX workstream_progress_request ON workstream_progress(workstream_id, request_id, finalized_at DESC);",
+  "CREATE INDEX workstream_progress_recent ON workstream_progress(finalized_at DESC);",
+].join("\n");
+
+const RUNS_TABLE_SQL = [
+  "CREATE TABLE runs (",
+  "  run_id TEXT PRIMARY KEY,",
+  "  stream_id TEXT NOT NULL REFERENCES agent_streams(stream_id),",
+  "  workstream_id TEXT REFERENCES workstreams(workstream_id),",
+  "  bound_request_id TEXT,",
+  "  workstream_bound_at TEXT,",
+  "  run_sequence INTEGER NOT NULL,",
+  "  status TEXT NOT NULL CHECK (status IN ('running', 'done', 'incomplete', 'failed', 'blocked', 'needs_user_input', 'cancelled', 'recovery_required')),",
+  "  stop_reason TEXT CHECK (stop_reason IN ('completed', 'run_limit', 'budget_exhausted', 'context_limit', 'failed', 'blocked', 'needs_user_input', 'interrupted', 'cancelled')),",
+  "  trigger TEXT NOT NULL CHECK (trigger IN ('user', 'system_event')),",
+  "  step_count INTEGER NOT NULL DEFAULT 0,",
+  "  started_at TEXT NOT NULL,",
+  "  completed_at TEXT,",
+  "  CHECK ((workstream_id IS NULL AND bound_request_id IS NULL AND workstream_bound_at IS NULL)",
+  "    OR (workstream_id IS NOT NULL AND bound_request_id IS NOT NULL AND workstream_bound_at IS NOT NULL)),",
+  "  CHECK ((status IN ('running', 'recovery_required') AND stop_reason IS NULL AND completed_at IS NULL)",
+  "    OR (status = 'done' AND stop_reason = 'completed' AND completed_at IS NOT NULL)",
+  "    OR (status = 'failed' AND stop_reason = 'failed' AND completed_at IS NOT NULL)",
+  "    OR (status = 'blocked' AND stop_reason = 'blocked' AND completed_at IS NOT NULL)",
+  "    OR (status = 'needs_user_input' AND stop_reason = 'needs_user_input' AND completed_at IS NOT NULL)",
+  "    OR (status = 'cancelled' AND stop_reason = 'cancelled' AND completed_at IS NOT NULL)",
+  "    OR (status = 'incomplete' AND stop_reason IN ('run_limit', 'budget_exhausted', 'context_limit', 'interrupted') AND completed_at IS NOT NULL)),",
+  "  UNIQUE(stream_id, run_sequence),",
+  "  FOREIGN KEY (workstream_id, bound_request_id)",
+  "    REFERENCES workstream_requests(workstream_id, request_id)",
+  ");",
+  "CREATE UNIQUE INDEX runs_one_active_per_stream ON runs(stream_id)",
+  "WHERE status IN ('running', 'recovery_required');",
+].join("\n");
+
+const UNBOUND_RUN_FINALIZATIONS_TABLE_SQL = [
+  "CREATE TABLE unbound_run_finalizations (",
+  "  run_id TEXT PRIMARY KEY REFERENCES runs(run_id),",
+  "  operation_request_id TEXT NOT NULL UNIQUE REFERENCES idempotency_requests(request_id),",
+  "  stream_id TEXT NOT NULL REFERENCES agent_streams(stream_id),",
+  "  phase TEXT NOT NULL CHECK (phase IN ('prepared', 'completed', 'recovery_required')),",
+  "  outcome TEXT NOT NULL CHECK (outcome IN ('done', 'incomplete', 'failed', 'blocked', 'needs_user_input', 'cancelled')),",
+  "  stop_reason TEXT NOT NULL CHECK (stop_reason IN ('completed', 'run_limit', 'budget_exhausted', 'context_limit', 'failed', 'blocked', 'needs_user_input', 'interrupted', 'cancelled')),",
+  "  assistant_message_id TEXT REFERENCES messages(message_id),",
+  "  created_at TEXT NOT NULL,",
+  "  updated_at TEXT NOT NULL,",
+  "  last_error TEXT",
+  ");",
+  "CREATE INDEX unbound_run_finalizations_recovery ON unbound_run_finalizations(phase, updated_at);",
+].join("\n");
+
+const WORKSTREAM_FINALIZATIONS_TABLE_SQL = [
+  "CREATE TABLE workstream_finalizations (",
+  "  run_id TEXT PRIMARY KEY REFERENCES runs(run_id),",
+  "  operation_request_id TEXT NOT NULL UNIQUE REFERENCES idempotency_requests(request_id),",
+  "  lease_id TEXT REFERENCES resource_mutation_leases(lease_id),",
+  "  stream_id TEXT NOT NULL REFERENCES agent_streams(stream_id),",
+  "  workstream_id TEXT NOT NULL REFERENCES workstreams(workstream_id),",
+  "  bound_request_id TEXT NOT NULL,",
+  "  phase TEXT NOT NULL CHECK (phase IN ('prepared', 'resource_effects_recorded', 'context_committed', 'completed', 'recovery_required')),",
+  "  outcome TEXT NOT NULL CHECK (outcome IN ('done', 'incomplete', 'failed', 'blocked', 'needs_user_input', 'cancelled')),",
+  "  stop_reason TEXT NOT NULL CHECK (stop_reason IN ('completed', 'run_limit', 'budget_exhausted', 'context_limit', 'failed', 'blocked', 'needs_user_input', 'interrupted', 'cancelled')),",
+  "  validation TEXT NOT NULL CHECK (validation IN ('passed', 'failed', 'not_applicable')),",
+  "  summary TEXT NOT NULL,",
+  "  next_action TEXT,",
+  "  completion_json TEXT NOT NULL,",
+  "  request_effect_json TEXT NOT NULL,",
+  "  assistant_response TEXT NOT NULL,",
+  "  base_head TEXT NOT NULL,",
+  "  workstream_base_head TEXT NOT NULL,",
+  "  message_hash TEXT NOT NULL,",
+  "  plan_json TEXT NOT NULL,",
+  "  resource_events_json TEXT NOT NULL DEFAULT '[]',",
+  "  commit_head TEXT,",
+  "  commit_created INTEGER NOT NULL DEFAULT 0 CHECK (commit_created IN (0, 1)),",
+  "  created_at TEXT NOT NULL,",
+  "  updated_at TEXT NOT NULL,",
+  "  last_error TEXT,",
+  "  FOREIGN KEY (workstream_id, bound_request_id)",
+  "    REFERENCES workstream_requests(workstream_id, request_id)",
+  ");",
+  "CREATE INDEX workstream_finalizations_recovery ON workstream_finalizations(phase, updated_at);",
+].join("\n");
+
+/** Resource history; since V16, availability sweeps record events without an owning run. */
+const RESOURCE_EVENTS_TABLE_SQL = [
+  "CREATE TABLE resource_events (",
+  "  event_id TEXT PRIMARY KEY,",
+  "  resource_id TEXT NOT NULL REFERENCES resources(resource_id),",
+  "  workstream_id TEXT REFERENCES workstreams(workstream_id),",
+  "  bound_request_id TEXT,",
+  "  run_id TEXT REFERENCES runs(run_id),",
+  "  step INTEGER,",
+  "  call_id TEXT,",
+  "  event_type TEXT NOT NULL CHECK (event_type IN ('registered', 'linked', 'observed', 'created', 'modified', 'moved', 'deleted', 'missing', 'restored', 'downloaded', 'uploaded', 'delivered', 'external_state_changed')),",
+  "  before_version_json TEXT,",
+  "  after_version_json TEXT,",
+  "  verification_json TEXT NOT NULL,",
+  "  summary TEXT NOT NULL,",
+  "  created_at TEXT NOT NULL,",
+  "  FOREIGN KEY (workstream_id, bound_request_id)",
+  "    REFERENCES workstream_requests(workstream_id, request_id)",
+  ");",
+  "CREATE INDEX resource_events_resource ON resource_events(resource_id, created_at DESC);",
+  "CREATE INDEX resource_events_run ON resource_events(run_id, created_at, event_id);",
+].join("\n");
+
+/** Journal for archive, restore, rename, merge, and split context commits, added in V15. */
+const WORKSTREAM_LIFECYCLE_OPERATIONS_TABLE = "workstream_lifecycle_operations";
+const WORKSTREAM_LIFECYCLE_OPERATIONS_TABLE_SQL = [
+  "CREATE TABLE workstream_lifecycle_operations (",
+  "  operation_request_id TEXT PRIMARY KEY REFERENCES idempotency_requests(request_id),",
+  "  operation TEXT NOT NULL CHECK (operation IN ('archive', 'restore', 'rename', 'merge', 'split')),",
+  "  run_id TEXT REFERENCES runs(run_id),",
+  "  workstream_id TEXT NOT NULL REFERENCES workstreams(workstream_id),",
+  "  phase TEXT NOT NULL CHECK (phase IN ('prepared', 'context_committed', 'completed', 'recovery_required')),",
+  "  base_head TEXT NOT NULL,",
+  "  plan_json TEXT NOT NULL,",
+  "  commit_head TEXT,",
+  "  created_at TEXT NOT NULL,",
+  "  updated_at TEXT NOT NULL,",
+  "  last_error TEXT",
+  ");",
+  "CREATE INDEX workstream_lifecycle_operations_recovery ON workstream_lifecycle_operations(phase, updated_at);",
+].join("\n");
+
+/**
+ * Tables whose outcome and stop-reason CHECK constraints widened for cancelled runs in V13 and
+ * budget-exhausted runs in V14.
+ */
+const OUTCOME_TABLES = [
+  { table: "runs", sql: RUNS_TABLE_SQL },
+  { table: "workstream_progress", sql: WORKSTREAM_PROGRESS_TABLE_SQL },
+  { table: "unbound_run_finalizations", sql: UNBOUND_RUN_FINALIZATIONS_TABLE_SQL },
+  { table: "workstream_finalizations", sql: WORKSTREAM_FINALIZATIONS_TABLE_SQL },
+] as const;
+
+const RESOURCE_EVENTS_TABLES = [
+  { table: "resource_events", sql: RESOURCE_EVENTS_TABLE_SQL },
+] as const;
+
+const OUTCOME_AND_RESOURCE_EVENT_TABLES = [...OUTCOME_TABLES, ...RESOURCE_EVENTS_TABLES];
+
+/** Embedding text and vectors for hybrid history and workstream search, added in V17. */
+const SEMANTIC_DOCUMENTS_TABLE = "semantic_documents";
+
 const BASELINE_TABLES = [
   "agent_streams",
   "context_checkpoints",
@@ -55,9 +221,11 @@ const BASELINE_TABLES = [
   "run_work_state",
   "runs",
   "schema_metadata",
+  "semantic_documents",
   "unbound_run_finalizations",
   "workstream_accesses",
   "workstream_finalizations",
+  "workstream_lifecycle_operations",
   "workstream_preferences",
   "workstream_progress",
   "workstream_repository_state",
@@ -182,21 +350,7 @@ const BASELINE_SQL = [
   "  tokenize = 'unicode61 remove_diacritics 2'",
   ");",
   "",
-  "CREATE TABLE workstream_progress (",
-  "  run_id TEXT PRIMARY KEY,",
-  "  workstream_id TEXT NOT NULL,",
-  "  request_id TEXT NOT NULL,",
-  "  outcome TEXT NOT NULL CHECK (outcome IN ('done', 'incomplete', 'failed', 'blocked', 'needs_user_input')),",
-  "  summary TEXT NOT NULL,",
-  "  validation_summary TEXT NOT NULL,",
-  "  next_action TEXT,",
-  "  commit_sha TEXT NOT NULL,",
-  "  finalized_at TEXT NOT NULL,",
-  "  FOREIGN KEY (workstream_id, request_id)",
-  "    REFERENCES workstream_requests(workstream_id, request_id)",
-  ");",
-  "CREATE INDEX workstream_progress_request ON workstream_progress(workstream_id, request_id, finalized_at DESC);",
-  "CREATE INDEX workstream_progress_recent ON workstream_progress(finalized_at DESC);",
+  WORKSTREAM_PROGRESS_TABLE_SQL,
   "",
   "CREATE TABLE workstream_preferences (",
   "  workstream_id TEXT PRIMARY KEY REFERENCES workstreams(workstream_id) ON DELETE CASCADE,",
@@ -243,33 +397,7 @@ const BASELINE_SQL = [
   "CREATE TRIGGER message_response_metadata_immutable_delete BEFORE DELETE ON message_response_metadata",
   "BEGIN SELECT RAISE(ABORT, 'message response metadata is immutable'); END;",
   "",
-  "CREATE TABLE runs (",
-  "  run_id TEXT PRIMARY KEY,",
-  "  stream_id TEXT NOT NULL REFERENCES agent_streams(stream_id),",
-  "  workstream_id TEXT REFERENCES workstreams(workstream_id),",
-  "  bound_request_id TEXT,",
-  "  workstream_bound_at TEXT,",
-  "  run_sequence INTEGER NOT NULL,",
-  "  status TEXT NOT NULL CHECK (status IN ('running', 'done', 'incomplete', 'failed', 'blocked', 'needs_user_input', 'recovery_required')),",
-  "  stop_reason TEXT CHECK (stop_reason IN ('completed', 'run_limit', 'context_limit', 'failed', 'blocked', 'needs_user_input', 'interrupted')),",
-  "  trigger TEXT NOT NULL CHECK (trigger IN ('user', 'system_event')),",
-  "  step_count INTEGER NOT NULL DEFAULT 0,",
-  "  started_at TEXT NOT NULL,",
-  "  completed_at TEXT,",
-  "  CHECK ((workstream_id IS NULL AND bound_request_id IS NULL AND workstream_bound_at IS NULL)",
-  "    OR (workstream_id IS NOT NULL AND bound_request_id IS NOT NULL AND workstream_bound_at IS NOT NULL)),",
-  "  CHECK ((status IN ('running', 'recovery_required') AND stop_reason IS NULL AND completed_at IS NULL)",
-  "    OR (status = 'done' AND stop_reason = 'completed' AND completed_at IS NOT NULL)",
-  "    OR (status = 'failed' AND stop_reason = 'failed' AND completed_at IS NOT NULL)",
-  "    OR (status = 'blocked' AND stop_reason = 'blocked' AND completed_at IS NOT NULL)",
-  "    OR (status = 'needs_user_input' AND stop_reason = 'needs_user_input' AND completed_at IS NOT NULL)",
-  "    OR (status = 'incomplete' AND stop_reason IN ('run_limit', 'context_limit', 'interrupted') AND completed_at IS NOT NULL)),",
-  "  UNIQUE(stream_id, run_sequence),",
-  "  FOREIGN KEY (workstream_id, bound_request_id)",
-  "    REFERENCES workstream_requests(workstream_id, request_id)",
-  ");",
-  "CREATE UNIQUE INDEX runs_one_active_per_stream ON runs(stream_id)",
-  "WHERE status IN ('running', 'recovery_required');",
+  RUNS_TABLE_SQL,
   "CREATE TABLE context_checkpoints (",
   "  checkpoint_id TEXT PRIMARY KEY,",
   "  stream_id TEXT NOT NULL REFERENCES agent_streams(stream_id),",
@@ -387,25 +515,7 @@ const BASELINE_SQL = [
   ");",
   "CREATE INDEX resource_accesses_recent ON resource_accesses(resource_id, accessed_at DESC);",
   "",
-  "CREATE TABLE resource_events (",
-  "  event_id TEXT PRIMARY KEY,",
-  "  resource_id TEXT NOT NULL REFERENCES resources(resource_id),",
-  "  workstream_id TEXT REFERENCES workstreams(workstream_id),",
-  "  bound_request_id TEXT,",
-  "  run_id TEXT NOT NULL REFERENCES runs(run_id),",
-  "  step INTEGER,",
-  "  call_id TEXT,",
-  "  event_type TEXT NOT NULL CHECK (event_type IN ('registered', 'linked', 'observed', 'created', 'modified', 'moved', 'deleted', 'missing', 'restored', 'downloaded', 'uploaded', 'delivered', 'external_state_changed')),",
-  "  before_version_json TEXT,",
-  "  after_version_json TEXT,",
-  "  verification_json TEXT NOT NULL,",
-  "  summary TEXT NOT NULL,",
-  "  created_at TEXT NOT NULL,",
-  "  FOREIGN KEY (workstream_id, bound_request_id)",
-  "    REFERENCES workstream_requests(workstream_id, request_id)",
-  ");",
-  "CREATE INDEX resource_events_resource ON resource_events(resource_id, created_at DESC);",
-  "CREATE INDEX resource_events_run ON resource_events(run_id, created_at, event_id);",
+  RESOURCE_EVENTS_TABLE_SQL,
   "",
   "CREATE TABLE run_steps (",
   "  run_id TEXT NOT NULL REFERENCES runs(run_id),",
@@ -484,19 +594,7 @@ const BASELINE_SQL = [
   ");",
   "CREATE INDEX resource_mutation_operations_lease ON resource_mutation_operations(lease_id, created_at);",
   "",
-  "CREATE TABLE unbound_run_finalizations (",
-  "  run_id TEXT PRIMARY KEY REFERENCES runs(run_id),",
-  "  operation_request_id TEXT NOT NULL UNIQUE REFERENCES idempotency_requests(request_id),",
-  "  stream_id TEXT NOT NULL REFERENCES agent_streams(stream_id),",
-  "  phase TEXT NOT NULL CHECK (phase IN ('prepared', 'completed', 'recovery_required')),",
-  "  outcome TEXT NOT NULL CHECK (outcome IN ('done', 'incomplete', 'failed', 'blocked', 'needs_user_input')),",
-  "  stop_reason TEXT NOT NULL CHECK (stop_reason IN ('completed', 'run_limit', 'context_limit', 'failed', 'blocked', 'needs_user_input', 'interrupted')),",
-  "  assistant_message_id TEXT REFERENCES messages(message_id),",
-  "  created_at TEXT NOT NULL,",
-  "  updated_at TEXT NOT NULL,",
-  "  last_error TEXT",
-  ");",
-  "CREATE INDEX unbound_run_finalizations_recovery ON unbound_run_finalizations(phase, updated_at);",
+  UNBOUND_RUN_FINALIZATIONS_TABLE_SQL,
   "",
   "CREATE TABLE workstream_request_route_plans (",
   "  run_id TEXT PRIMARY KEY REFERENCES runs(run_id),",
@@ -519,37 +617,12 @@ const BASELINE_SQL = [
   "WHERE phase IN ('planned', 'recovery_required');",
   "CREATE INDEX workstream_request_route_plans_recovery ON workstream_request_route_plans(phase, updated_at);",
   "",
-  "CREATE TABLE workstream_finalizations (",
-  "  run_id TEXT PRIMARY KEY REFERENCES runs(run_id),",
-  "  operation_request_id TEXT NOT NULL UNIQUE REFERENCES idempotency_requests(request_id),",
-  "  lease_id TEXT REFERENCES resource_mutation_leases(lease_id),",
-  "  stream_id TEXT NOT NULL REFERENCES agent_streams(stream_id),",
-  "  workstream_id TEXT NOT NULL REFERENCES workstreams(workstream_id),",
-  "  bound_request_id TEXT NOT NULL,",
-  "  phase TEXT NOT NULL CHECK (phase IN ('prepared', 'resource_effects_recorded', 'context_committed', 'completed', 'recovery_required')),",
-  "  outcome TEXT NOT NULL CHECK (outcome IN ('done', 'incomplete', 'failed', 'blocked', 'needs_user_input')),",
-  "  stop_reason TEXT NOT NULL CHECK (stop_reason IN ('completed', 'run_limit', 'context_limit', 'failed', 'blocked', 'needs_user_input', 'interrupted')),",
-  "  validation TEXT NOT NULL CHECK (validation IN ('passed', 'failed', 'not_applicable')),",
-  "  summary TEXT NOT NULL,",
-  "  next_action TEXT,",
-  "  completion_json TEXT NOT NULL,",
-  "  request_effect_json TEXT NOT NULL,",
-  "  assistant_response TEXT NOT NULL,",
-  "  base_head TEXT NOT NULL,",
-  "  workstream_base_head TEXT NOT NULL,",
-  "  message_hash TEXT NOT NULL,",
-  "  plan_json TEXT NOT NULL,",
-  "  resource_events_json TEXT NOT NULL DEFAULT '[]',",
-  "  commit_head TEXT,",
-  "  commit_created INTEGER NOT NULL DEFAULT 0 CHECK (commit_created IN (0, 1)),",
-  "  created_at TEXT NOT NULL,",
-  "  updated_at TEXT NOT NULL,",
-  "  last_error TEXT,",
-  "  FOREIGN KEY (workstream_id, bound_request_id)",
-  "    REFERENCES workstream_requests(workstream_id, request_id)",
-  ");",
-  "CREATE INDEX workstream_finalizations_recovery ON workstream_finalizations(phase, updated_at);",
+  WORKSTREAM_FINALIZATIONS_TABLE_SQL,
   RUN_WORKSTREAM_BINDING_IMMUTABLE_TRIGGER_SQL,
+  "",
+  WORKSTREAM_LIFECYCLE_OPERATIONS_TABLE_SQL,
+  "",
+  SEMANTIC_DOCUMENTS_TABLE_SQL,
 ].join("\n");
 
 export function initializeSchema(database: DatabaseSync, now: () => string): void {
@@ -575,23 +648,47 @@ export function initializeSchema(database: DatabaseSync, now: () => string): voi
       }>
     : [];
   const currentVersion = Number(versions[0]?.version);
-  if (matchesPreV12Tables(existingTables)) {
+  const tables = currentVersion < SCHEMA_VERSION
+    ? withAdditiveTables(existingTables)
+    : existingTables;
+  if (matchesPreV12Tables(tables)) {
     if (currentVersion === 9) {
       migrateV9ToV10(database);
       migrateV10ToV11(database);
       migrateV11ToV12(database);
+      rebuildTables(database, RESOLUTION_RETIRED_SCHEMA_VERSION, OUTCOME_AND_RESOURCE_EVENT_TABLES);
       return;
     }
     if (currentVersion === FOCUS_SCHEMA_VERSION) {
       migrateV10ToV11(database);
       migrateV11ToV12(database);
+      rebuildTables(database, RESOLUTION_RETIRED_SCHEMA_VERSION, OUTCOME_AND_RESOURCE_EVENT_TABLES);
       return;
     }
     if (currentVersion === BINDING_SCHEMA_VERSION) {
       migrateV11ToV12(database);
+      rebuildTables(database, RESOLUTION_RETIRED_SCHEMA_VERSION, OUTCOME_AND_RESOURCE_EVENT_TABLES);
       return;
     }
   }
+  if (
+    (currentVersion === RESOLUTION_RETIRED_SCHEMA_VERSION || currentVersion === CANCELLED_OUTCOME_SCHEMA_VERSION)
+    && matchesSupportedTables(tables)
+  ) {
+    rebuildTables(database, currentVersion, OUTCOME_AND_RESOURCE_EVENT_TABLES);
+    return;
+  }
+  if (
+    (currentVersion === BUDGET_OUTCOME_SCHEMA_VERSION || currentVersion === LIFECYCLE_SCHEMA_VERSION)
+    && matchesSupportedTables(tables)
+  ) {
+    rebuildTables(database, currentVersion, RESOURCE_EVENTS_TABLES);
+    return;
+  }
+  if (currentVersion === RESOURCE_EVENTS_SCHEMA_VERSION && matchesSupportedTables(tables)) {
+    migrateV16ToV17(database);
+    return;
+  }
   const versionMatches = versions.length === 1
     && Number(versions[0]?.version) === SCHEMA_VERSION;
   const tablesMatch = matchesSupportedTables(existingTables);
@@ -599,7 +696,7 @@ export function initializeSchema(database: DatabaseSync, now: () => string): voi
     throw new Error([
       "Context Engine database reset required.",
       "The configured database uses a pre-V9 or unsupported schema and was not modified.",
-      "Run the shared-workstream migration or context:archive-reset explicitly, then restart Ayati to create the V12 baseline.",
+      "Run the shared-workstream migration or context:archive-reset explicitly, then restart Ayati to create the V17 baseline.",
     ].join(" "));
   }
 }
@@ -646,7 +743,7 @@ function migrateV11ToV12(database: DatabaseSync): void {
     database.exec("DROP TABLE workstream_resolution_activities");
     database.prepare(
       "UPDATE schema_metadata SET version = ? WHERE singleton = 1 AND version = ?",
-    ).run(SCHEMA_VERSION, BINDING_SCHEMA_VERSION);
+    ).run(RESOLUTION_RETIRED_SCHEMA_VERSION, BINDING_SCHEMA_VERSION);
     database.exec("COMMIT");
   } catch (error) {
     database.exec("ROLLBACK");
@@ -654,6 +751,89 @@ function migrateV11ToV12(database: DatabaseSync): void {
   }
 }
 
+/**
+ * SQLite cannot alter CHECK or NOT NULL constraints in place, so older databases rebuild each
+ * affected table from its current definition and copy rows across with foreign keys suspended.
+ * V12 and V13 rebuild the outcome-bearing tables; every version before V16 rebuilds
+ * resource_events. All land directly on the current version, including the V15 lifecycle journal
+ * and the V17 semantic documents.
+ */
+function rebuildTables(
+  database: DatabaseSync,
+  fromVersion: number,
+  tables: ReadonlyArray<{ table: string; sql: string }>,
+): void {
+  database.exec("PRAGMA foreign_keys = OFF");
+  database.exec("PRAGMA legacy_alter_table = ON");
+  try {
+    database.exec("BEGIN IMMEDIATE");
+    try {
+      database.exec("DROP TRIGGER IF EXISTS runs_workstream_binding_immutable");
+      for (const { table, sql } of tables) {
+        const retired = `${table}_v${fromVersion}`;
+        database.exec(`ALTER TABLE ${table} RENAME TO ${retired}`);
+        for (const index of readTableIndexNames(database, retired)) {
+          database.exec(`DROP INDEX ${index}`);
+        }
+        database.exec(sql);
+        const columns = readTableColumns(database, retired).join(", ");
+        database.exec(`INSERT INTO ${table} (${columns}) SELECT ${columns} FROM ${retired}`);
+        database.exec(`DROP TABLE ${retired}`);
+      }
+      database.exec(RUN_WORKSTREAM_BINDING_IMMUTABLE_TRIGGER_SQL);
+      createAdditiveTables(database);
+      const violations = database.prepare("PRAGMA foreign_key_check").all();
+      if (violations.length > 0) {
+        throw new Error(`Context Engine V${SCHEMA_VERSION} migration found foreign key violations.`);
+      }
+      database.prepare(
+        "UPDATE schema_metadata SET version = ? WHERE singleton = 1 AND version = ?",
+      ).run(SCHEMA_VERSION, fromVersion);
+      database.exec("COMMIT");
+    } catch (error) {
+      database.exec("ROLLBACK");
+      throw error;
+    }
+  } finally {
+    database.exec("PRAGMA legacy_alter_table = OFF");
+    database.exec("PRAGMA foreign_keys = ON");
+  }
+}
+
+/** V17 only adds a table; semantic documents for existing rows are backfilled at startup. */
+function migrateV16ToV17(database: DatabaseSync): void {
+  database.exec("BEGIN IMMEDIATE");
+  try {
+    createAdditiveTables(database);
+    database.prepare(
+      "UPDATE schema_metadata SET version = ? WHERE singleton = 1 AND version = ?",
+    ).run(SCHEMA_VERSION, RESOURCE_EVENTS_SCHEMA_VERSION);
+    database.exec("COMMIT");
+  } catch (error) {
+    database.exec("ROLLBACK");
+    throw error;
+  }
+}
+
+function createAdditiveTables(database: DatabaseSync): void {
+  const tables = readTableNames(database);
+  if (!tables.includes(WORKSTREAM_LIFECYCLE_OPERATIONS_TABLE)) {
+    database.exec(WORKSTREAM_LIFECYCLE_OPERATIONS_TABLE_SQL);
+  }
+  if (!tables.includes(SEMANTIC_DOCUMENTS_TABLE)) {
+    database.exec(SEMANTIC_DOCUMENTS_TABLE_SQL);
+  }
+}
+
+/** Older databases are compared as if they already had the lifecycle journal and semantic documents. */
+function withAdditiveTables(existingTables: string[]): string[] {
+  return [...new Set([
+    ...existingTables,
+    WORKSTREAM_LIFECYCLE_OPERATIONS_TABLE,
+    SEMANTIC_DOCUMENTS_TABLE,
+  ])].sort();
+}
+
 function matchesSupportedTables(existingTables: string[]): boolean {
   const currentTables = [...BASELINE_TABLES];
   const tablesWithRetiredObservations = [
@@ -694,6 +874,13 @@ function readTableNames(database: DatabaseSync): string[] {
   return rows.map((row) => row.name);
 }
 
+function readTableIndexNames(database: DatabaseSync, table: string): string[] {
+  const rows = database.prepare(
+    "SELECT name FROM sqlite_schema WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL",
+  ).all(table) as Array<{ name: string }>;
+  return rows.map((row) => row.name);
+}
+
 function readTableColumns(database: DatabaseSync, table: string): string[] {
   const rows = database.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
   return rows.map((row) => row.name);
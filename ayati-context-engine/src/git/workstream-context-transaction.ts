@@ -7,6 +7,8 @@ import type { WorkstreamContextCommitPlan } from "../repositories/workstream-fin
 import { WORKSTREAM_PROGRESS_PATH } from "../workstreams/workstream-repository-layout.js";
 import { gitCommitEnvironment, runGit } from "./git-process.js";
 
+const WORKSTREAM_DIRECTORY_PATTERN = /^W-\d{8}-\d{4}-[a-z0-9][a-z0-9-]*$/;
+
 export async function commitWorkstreamContextPlan(input: {
   contextRepositoryPath: string;
   branch: string;
@@ -15,13 +17,48 @@ export async function commitWorkstreamContextPlan(input: {
   plan: WorkstreamContextCommitPlan;
   at: string;
 }): Promise<{ head: string; created: boolean }> {
-  const paths = sharedPaths(input.contextRepositoryPath, input.plan);
+  return await commitPlan(
+    sharedPaths(input.contextRepositoryPath, input.plan),
+    input,
+    async () => await recognizeCommittedWorkstreamContextPlan(input),
+  );
+}
+
+/**
+ * Commits a plan whose paths are qualified by their workstream directory, so one commit can
+ * change several workstreams. Recovery finds the commit through its `identity` message line.
+ */
+export async function commitWorkstreamRepositoryPlan(input: {
+  workstreamRoot: string;
+  branch: string;
+  baseHead: string;
+  plan: WorkstreamContextCommitPlan;
+  identity: string;
+  at: string;
+}): Promise<{ head: string; created: boolean }> {
+  return await commitPlan(
+    qualifiedPaths(input.workstreamRoot, input.plan),
+    input,
+    async () => await recognizeCommittedWorkstreamRepositoryPlan(input),
+  );
+}
+
+async function commitPlan(
+  paths: PlanPaths,
+  input: {
+    branch: string;
+    baseHead: string;
+    plan: WorkstreamContextCommitPlan;
+    at: string;
+  },
+  recognize: () => Promise<string | undefined>,
+): Promise<{ head: string; created: boolean }> {
   const current = await readIdentity(paths.repositoryPath);
   if (current.branch !== input.branch) {
     throw mismatch("Shared workstream branch changed during finalization.", input, current.branch);
   }
   if (current.head !== input.baseHead) {
-    const recognized = await recognizeCommittedWorkstreamContextPlan(input);
+    const recognized = await recognize();
     if (recognized) return { head: recognized, created: true };
     throw mismatch("Shared workstream HEAD changed during finalization.", input, current.head);
   }
@@ -32,8 +69,7 @@ export async function commitWorkstreamContextPlan(input: {
 
   await requireCleanOrJournaledTree(paths.repositoryPath, paths.staged);
   for (const write of input.plan.contextWrites) {
-    requireContextPath(write.path);
-    const target = join(input.contextRepositoryPath, write.path);
+    const target = join(paths.repositoryPath, paths.prefix + write.path);
     const actual = await readFile(target, "utf8").catch((error: NodeJS.ErrnoException) => {
       if (error.code === "ENOENT") return undefined;
       throw error;
@@ -94,7 +130,7 @@ export async function commitWorkstreamContextPlan(input: {
     env: gitCommitEnvironment(input.at),
   });
   const head = await runGit(["rev-parse", "HEAD"], { cwd: paths.repositoryPath });
-  await verifyExistingCommit({ ...input, head });
+  await verifyExistingCommit(paths, { ...input, head });
   await requireCleanTree(paths.repositoryPath);
   return { head, created: true };
 }
@@ -105,14 +141,43 @@ export async function recognizeCommittedWorkstreamContextPlan(input: {
   baseHead: string;
   plan: WorkstreamContextCommitPlan;
 }): Promise<string | undefined> {
-  const paths = sharedPaths(input.contextRepositoryPath, input.plan);
+  const runId = /^Run:\s*(\S+)\s*$/m.exec(input.plan.commitMessage)?.[1];
+  return await recognizePlan(
+    sharedPaths(input.contextRepositoryPath, input.plan),
+    input,
+    runId ? "Run: " + runId : undefined,
+  );
+}
+
+export async function recognizeCommittedWorkstreamRepositoryPlan(input: {
+  workstreamRoot: string;
+  branch: string;
+  baseHead: string;
+  plan: WorkstreamContextCommitPlan;
+  identity: string;
+}): Promise<string | undefined> {
+  return await recognizePlan(
+    qualifiedPaths(input.workstreamRoot, input.plan),
+    input,
+    input.plan.commitMessage.split("\n").includes(input.identity) ? input.identity : undefined,
+  );
+}
+
+async function recognizePlan(
+  paths: PlanPaths,
+  input: {
+    branch: string;
+    baseHead: string;
+    plan: WorkstreamContextCommitPlan;
+  },
+  identity: string | undefined,
+): Promise<string | undefined> {
   const current = await readIdentity(paths.repositoryPath);
   if (current.branch !== input.branch) {
     throw mismatch("Shared workstream branch changed during recovery.", input, current.branch);
   }
   if (current.head === input.baseHead) return undefined;
-  const runId = /^Run:\s*(\S+)\s*$/m.exec(input.plan.commitMessage)?.[1];
-  if (!runId) {
+  if (!identity) {
     throw recovery("Finalization commit message is missing its run identity.");
   }
   const candidates = lines(await runGit([
@@ -120,11 +185,11 @@ export async function recognizeCommittedWorkstreamContextPlan(input: {
     "--all",
     "--format=%H",
     "--fixed-strings",
-    "--grep=Run: " + runId,
+    "--grep=" + identity,
   ], { cwd: paths.repositoryPath }));
   for (const candidate of candidates) {
     try {
-      await verifyExistingCommit({ ...input, head: candidate });
+      await verifyExistingCommit(paths, { ...input, head: candidate });
       return candidate;
     } catch (error) {
       if (!(error instanceof ContextEngineServiceError)) throw error;
@@ -137,14 +202,14 @@ export function contentHash(content: string): string {
   return "sha256:" + createHash("sha256").update(content).digest("hex");
 }
 
-async function verifyExistingCommit(input: {
-  contextRepositoryPath: string;
-  branch: string;
-  baseHead: string;
-  plan: WorkstreamContextCommitPlan;
-  head: string;
-}): Promise<void> {
-  const shared = sharedPaths(input.contextRepositoryPath, input.plan);
+async function verifyExistingCommit(
+  shared: PlanPaths,
+  input: {
+    baseHead: string;
+    plan: WorkstreamContextCommitPlan;
+    head: string;
+  },
+): Promise<void> {
   const parent = await runGit(["rev-parse", input.head + "^"], {
     cwd: shared.repositoryPath,
   });
@@ -174,21 +239,25 @@ async function verifyExistingCommit(input: {
   }
 }
 
-function sharedPaths(
-  contextRepositoryPath: string,
-  plan: WorkstreamContextCommitPlan,
-): {
+interface PlanPaths {
   repositoryPath: string;
+  /** Turns plan paths into shared-repository paths. */
   prefix: string;
   staged: string[];
-} {
+}
+
+function sharedPaths(
+  contextRepositoryPath: string,
+  plan: WorkstreamContextCommitPlan,
+): PlanPaths {
   const directory = basename(resolve(contextRepositoryPath));
-  if (!/^W-\d{8}-\d{4}-[a-z0-9][a-z0-9-]*$/.test(directory)) {
+  if (!WORKSTREAM_DIRECTORY_PATTERN.test(directory)) {
     throw recovery("Finalization target is not a canonical workstream directory.", {
       contextRepositoryPath,
     });
   }
   for (const path of plan.stagedPaths) requireContextPath(path);
+  for (const write of plan.contextWrites) requireContextPath(write.path);
   const prefix = directory + "/";
   return {
     repositoryPath: dirname(resolve(contextRepositoryPath)),
@@ -197,6 +266,26 @@ function sharedPaths(
   };
 }
 
+function qualifiedPaths(
+  workstreamRoot: string,
+  plan: WorkstreamContextCommitPlan,
+): PlanPaths {
+  for (const path of [...plan.stagedPaths, ...plan.contextWrites.map((write) => write.path)]) {
+    const separator = path.indexOf("/");
+    if (separator < 0 || !WORKSTREAM_DIRECTORY_PATTERN.test(path.slice(0, separator))) {
+      throw recovery("Finalization plan path is not inside a canonical workstream directory.", {
+        path,
+      });
+    }
+    requireContextPath(path.slice(separator + 1));
+  }
+  return {
+    repositoryPath: resolve(workstreamRoot),
+    prefix: "",
+    staged: [...plan.stagedPaths].sort(),
+  };
+}
+
 async function readIdentity(repositoryPath: string): Promise<{ head: string; branch: string }> {
   return {
     head: await runGit(["rev-parse", "HEAD"], { cwd: repositoryPath }),
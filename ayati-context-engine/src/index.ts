@@ -3,11 +3,15 @@ export * from "./contracts.js";
 export * from "./errors.js";
 export * from "./database/database.js";
 export * from "./observability.js";
+export * from "./resources/managed-resource-store.js";
 export * from "./run-finalization-limits.js";
 export * from "./run-work-state-contracts.js";
 export * from "./runtime.js";
+export * from "./search/semantic-index.js";
+export * from "./search/text-embedder.js";
 export * from "./service.js";
 export * from "./services/sqlite-context-engine-service.js";
+export * from "./services/workstream-bundle-service.js";
 export * from "./services/workstream-catalog-rebuild-service.js";
 export * from "./services/workstream-shared-repository-migration.js";
 export * from "./workstreams/workstream-card.js";
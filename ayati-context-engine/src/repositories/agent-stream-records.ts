@@ -55,6 +55,42 @@ export function clearAgentStreamWorkstreamFocus(database: ContextDatabase, input
   return Number(result.changes) === 1;
 }
 
+/** Follows a request that a lifecycle operation moved to another workstream. */
+export function moveAgentStreamWorkstreamFocus(database: ContextDatabase, input: {
+  fromWorkstreamId: string;
+  fromRequestId: string;
+  toWorkstreamId: string;
+  toRequestId: string;
+  at: string;
+}): void {
+  database.prepare([
+    "UPDATE agent_streams SET focused_workstream_id = ?, focused_request_id = ?, updated_at = ?",
+    "WHERE focused_workstream_id = ? AND focused_request_id = ?",
+  ].join(" ")).run(
+    input.toWorkstreamId,
+    input.toRequestId,
+    input.at,
+    input.fromWorkstreamId,
+    input.fromRequestId,
+  );
+}
+
+/** Clears focus on a workstream whose focused request can no longer receive work. */
+export function clearStaleAgentStreamWorkstreamFocus(database: ContextDatabase, input: {
+  workstreamId: string;
+  at: string;
+}): void {
+  database.prepare([
+    "UPDATE agent_streams SET focused_workstream_id = NULL, focused_request_id = NULL, updated_at = ?",
+    "WHERE focused_workstream_id = ? AND NOT EXISTS (",
+    "SELECT 1 FROM workstreams w JOIN workstream_requests q ON q.workstream_id = w.workstream_id",
+    "WHERE w.workstream_id = agent_streams.focused_workstream_id",
+    "AND q.request_id = agent_streams.focused_request_id",
+    "AND w.lifecycle_status = 'active' AND w.status IN ('initializing', 'active')",
+    "AND q.status IN ('queued', 'active', 'blocked'))",
+  ].join(" ")).run(input.at, input.workstreamId);
+}
+
 export function ensureAgentStream(database: ContextDatabase, input: {
   agentId: string;
   scopeKey: string;
@@ -8,6 +8,7 @@ import type {
 } from "../contracts.js";
 import type { ContextDatabase } from "../database/database.js";
 import { allocateStreamMessageSequence } from "./agent-stream-records.js";
+import { registerMessageSemanticDocument } from "./semantic-document-records.js";
 
 interface MessageRow {
   message_id: string;
@@ -77,6 +78,12 @@ export function appendStreamMessage(
   database.prepare([
     "INSERT INTO message_search(message_id, stream_id, content) VALUES (?, ?, ?)",
   ].join(" ")).run(messageId, input.streamId, input.content);
+  registerMessageSemanticDocument(database, {
+    messageId,
+    streamId: input.streamId,
+    content: input.content,
+    at: input.at,
+  });
   if (input.role === "assistant") {
     database.prepare([
       "INSERT INTO message_response_metadata(message_id, response_kind, feedback_kind)",
@@ -0,0 +1,144 @@
+import type {
+  ResourceAvailabilityChange,
+  ResourceAvailabilityDrift,
+  ResourceRef,
+  ResourceRole,
+  WorkstreamResourceChange,
+} from "../contracts.js";
+import type { ContextDatabase } from "../database/database.js";
+import { readResource } from "./resource-records.js";
+
+const DELIVERABLE_ROLES: ReadonlySet<ResourceRole> = new Set(["primary", "output", "deliverable"]);
+const MAX_WORKSTREAM_RESOURCE_CHANGES = 10;
+
+export interface ResourceSweepCandidate {
+  resource: ResourceRef;
+  workstreams: ResourceAvailabilityDrift["workstreams"];
+  /** A run of a bound workstream finalized since the resource was last observed. */
+  runSinceObserved?: string;
+}
+
+/**
+ * Filesystem resources bound to active workstreams, least recently verified first. Resources of
+ * a workstream with a run in flight wait until it finalizes, because that run may be changing them.
+ */
+export function readResourceSweepCandidates(
+  database: ContextDatabase,
+  limit: number,
+): ResourceSweepCandidate[] {
+  const rows = database.prepare([
+    "SELECT r.resource_id, COALESCE(r.last_verified_at, r.created_at) AS observed_at",
+    "FROM resources r WHERE r.locator_kind = 'filesystem'",
+    "AND EXISTS (SELECT 1 FROM workstream_resources wr",
+    "JOIN workstreams w ON w.workstream_id = wr.workstream_id",
+    "WHERE wr.resource_id = r.resource_id AND w.status = 'active' AND w.lifecycle_status != 'archived')",
+    "AND NOT EXISTS (SELECT 1 FROM workstream_resources wr",
+    "JOIN runs ru ON ru.workstream_id = wr.workstream_id",
+    "WHERE wr.resource_id = r.resource_id AND ru.status IN ('running', 'recovery_required'))",
+    "ORDER BY COALESCE(r.last_verified_at, r.created_at), r.resource_id LIMIT ?",
+  ].join(" ")).all(limit) as unknown as Array<{ resource_id: string; observed_at: string }>;
+  const candidates: ResourceSweepCandidate[] = [];
+  for (const row of rows) {
+    const resource = readResource(database, row.resource_id);
+    if (!resource) continue;
+    const links = database.prepare([
+      "SELECT wr.workstream_id, w.title, wr.role, wr.is_primary FROM workstream_resources wr",
+      "JOIN workstreams w ON w.workstream_id = wr.workstream_id",
+      "WHERE wr.resource_id = ? AND w.status = 'active' AND w.lifecycle_status != 'archived'",
+      "ORDER BY wr.workstream_id",
+    ].join(" ")).all(row.resource_id) as unknown as Array<{
+      workstream_id: string;
+      title: string;
+      role: ResourceRole;
+      is_primary: number;
+    }>;
+    const runSinceObserved = readRunFinalizedSince(
+      database,
+      links.map((link) => link.workstream_id),
+      row.observed_at,
+    );
+    candidates.push({
+      resource,
+      workstreams: links.map((link) => ({
+        workstreamId: link.workstream_id,
+        title: link.title,
+        role: link.role,
+        primary: link.is_primary === 1,
+        deliverable: link.is_primary === 1 || DELIVERABLE_ROLES.has(link.role),
+      })),
+      ...(runSinceObserved ? { runSinceObserved } : {}),
+    });
+  }
+  return candidates;
+}
+
+function readRunFinalizedSince(
+  database: ContextDatabase,
+  workstreamIds: string[],
+  observedAt: string,
+): string | undefined {
+  const lastRun = database.prepare([
+    "SELECT run_id, finalized_at FROM workstream_progress WHERE workstream_id = ?",
+    "ORDER BY finalized_at DESC LIMIT 1",
+  ].join(" "));
+  let latest: { runId: string; at: number } | undefined;
+  for (const workstreamId of workstreamIds) {
+    const row = lastRun.get(workstreamId) as { run_id: string; finalized_at: string } | undefined;
+    const at = row ? Date.parse(row.finalized_at) : Number.NaN;
+    if (row && at > Date.parse(observedAt) && (!latest || at > latest.at)) {
+      latest = { runId: row.run_id, at };
+    }
+  }
+  return latest?.runId;
+}
+
+export function markResourceSwept(
+  database: ContextDatabase,
+  resourceId: string,
+  at: string,
+): void {
+  database.prepare("UPDATE resources SET last_verified_at = ? WHERE resource_id = ?")
+    .run(at, resourceId);
+}
+
+/** Latest sweep drift per bound resource recorded after the workstream's last finalized run. */
+export function readWorkstreamResourceChanges(
+  database: ContextDatabase,
+  workstreamId: string,
+): WorkstreamResourceChange[] {
+  const lastRun = database.prepare(
+    "SELECT MAX(finalized_at) AS finalized_at FROM workstream_progress WHERE workstream_id = ?",
+  ).get(workstreamId) as { finalized_at: string | null };
+  const since = lastRun.finalized_at ? Date.parse(lastRun.finalized_at) : Number.NEGATIVE_INFINITY;
+  const rows = database.prepare([
+    "SELECT e.resource_id, e.event_type, e.created_at, r.display_name, r.availability",
+    "FROM resource_events e",
+    "JOIN workstream_resources wr ON wr.resource_id = e.resource_id AND wr.workstream_id = ?",
+    "JOIN resources r ON r.resource_id = e.resource_id",
+    "WHERE e.run_id IS NULL AND e.event_type IN ('modified', 'missing', 'restored')",
+    "ORDER BY e.created_at DESC, e.event_id DESC",
+  ].join(" ")).all(workstreamId) as unknown as Array<{
+    resource_id: string;
+    event_type: "modified" | "missing" | "restored";
+    created_at: string;
+    display_name: string;
+    availability: WorkstreamResourceChange["availability"];
+  }>;
+  const changes = new Map<string, WorkstreamResourceChange>();
+  for (const row of rows) {
+    if (changes.has(row.resource_id) || Date.parse(row.created_at) <= since) continue;
+    changes.set(row.resource_id, {
+      resourceId: row.resource_id,
+      displayName: row.display_name,
+      change: changeForEvent(row.event_type),
+      availability: row.availability,
+      at: row.created_at,
+    });
+    if (changes.size === MAX_WORKSTREAM_RESOURCE_CHANGES) break;
+  }
+  return [...changes.values()];
+}
+
+function changeForEvent(type: "modified" | "missing" | "restored"): ResourceAvailabilityChange {
+  return type === "modified" ? "changed" : type;
+}
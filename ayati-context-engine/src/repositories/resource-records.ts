@@ -21,6 +21,7 @@ import {
   type WorkstreamResourceBindingInput,
 } from "../resources/workstream-resource-binding-policy.js";
 import { requireAbsoluteFilesystemPath } from "../resources/filesystem-paths.js";
+import type { WorkstreamResourceManifestEntry } from "../workstreams/workstream-resource-manifest.js";
 
 interface ResourceRow {
   resource_id: string;
@@ -499,6 +500,90 @@ export function bindResourcesToWorkstream(
   return readWorkstreamResourceBindings(database, input.workstreamId);
 }
 
+/** Moves a request's resource links after a lifecycle operation moved the request. */
+export function moveRequestResourceBindings(
+  database: ContextDatabase,
+  input: {
+    fromWorkstreamId: string;
+    fromRequestId: string;
+    toWorkstreamId: string;
+    toRequestId: string;
+  },
+): void {
+  database.prepare([
+    "INSERT OR IGNORE INTO request_resources(",
+    "workstream_id, request_id, resource_id, role, created_by_run_id, created_at",
+    ") SELECT ?, ?, resource_id, role, created_by_run_id, created_at FROM request_resources",
+    "WHERE workstream_id = ? AND request_id = ?",
+  ].join(" ")).run(
+    input.toWorkstreamId,
+    input.toRequestId,
+    input.fromWorkstreamId,
+    input.fromRequestId,
+  );
+  database.prepare([
+    "DELETE FROM request_resources WHERE workstream_id = ? AND request_id = ?",
+  ].join(" ")).run(input.fromWorkstreamId, input.fromRequestId);
+}
+
+/**
+ * Makes a workstream's resource bindings match its committed manifest. Bindings new to the
+ * workstream keep the run history of the binding they were moved from.
+ */
+export function synchronizeWorkstreamResourceBindings(
+  database: ContextDatabase,
+  input: {
+    workstreamId: string;
+    resources: Array<Pick<
+      WorkstreamResourceManifestEntry,
+      "resourceId" | "role" | "access" | "primary" | "lastUsedAt"
+    >>;
+    movedFromWorkstreamId?: string;
+    at: string;
+  },
+): void {
+  database.prepare("UPDATE workstream_resources SET is_primary = 0 WHERE workstream_id = ?")
+    .run(input.workstreamId);
+  for (const entry of input.resources) {
+    const moved = input.movedFromWorkstreamId
+      ? database.prepare([
+          "SELECT first_bound_run_id, last_used_run_id, bound_at, last_used_at",
+          "FROM workstream_resources WHERE workstream_id = ? AND resource_id = ?",
+        ].join(" ")).get(input.movedFromWorkstreamId, entry.resourceId) as {
+          first_bound_run_id: string | null;
+          last_used_run_id: string | null;
+          bound_at: string;
+          last_used_at: string;
+        } | undefined
+      : undefined;
+    database.prepare([
+      "INSERT INTO workstream_resources(",
+      "workstream_id, resource_id, role, access, is_primary, first_bound_run_id, last_used_run_id,",
+      "bound_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
+      "ON CONFLICT(workstream_id, resource_id) DO UPDATE SET",
+      "role = excluded.role, access = excluded.access, is_primary = excluded.is_primary",
+    ].join(" ")).run(
+      input.workstreamId,
+      entry.resourceId,
+      entry.role,
+      entry.access,
+      entry.primary ? 1 : 0,
+      moved?.first_bound_run_id ?? null,
+      moved?.last_used_run_id ?? null,
+      moved?.bound_at ?? input.at,
+      moved?.last_used_at ?? entry.lastUsedAt ?? input.at,
+    );
+  }
+  const kept = new Set(input.resources.map((entry) => entry.resourceId));
+  const rows = database.prepare("SELECT resource_id FROM workstream_resources WHERE workstream_id = ?")
+    .all(input.workstreamId) as unknown as Array<{ resource_id: string }>;
+  for (const row of rows) {
+    if (kept.has(row.resource_id)) continue;
+    database.prepare("DELETE FROM workstream_resources WHERE workstream_id = ? AND resource_id = ?")
+      .run(input.workstreamId, row.resource_id);
+  }
+}
+
 export function readWorkstreamResourceBindings(
   database: ContextDatabase,
   workstreamId: string,
@@ -636,6 +721,54 @@ export function recordResourceObservation(
   return event;
 }
 
+/**
+ * Records a version observed by an availability sweep. The event has no owning run, and the
+ * resource keeps the run that last verified it.
+ */
+export function recordResourceAvailabilityDrift(
+  database: ContextDatabase,
+  input: {
+    resourceId: string;
+    beforeVersion: ResourceVersion;
+    afterVersion: ResourceVersion;
+    type: "modified" | "missing" | "restored";
+    availability: ResourceAvailability;
+    summary: string;
+    at: string;
+  },
+): ResourceEvent {
+  database.prepare([
+    "UPDATE resources SET current_version_key = ?, current_version_json = ?, availability = ?,",
+    "size_bytes = ?, content_hash = ?, last_verified_at = ?, updated_at = ? WHERE resource_id = ?",
+  ].join(" ")).run(
+    input.afterVersion.key,
+    JSON.stringify(input.afterVersion),
+    input.availability,
+    input.afterVersion.sizeBytes ?? null,
+    input.afterVersion.sha256 ?? null,
+    input.at,
+    input.at,
+    input.resourceId,
+  );
+  const event: ResourceEvent = {
+    eventId: stableEventId(
+      "availability_sweep",
+      input.resourceId,
+      input.type,
+      input.beforeVersion.key + ":" + input.afterVersion.key + ":" + input.at,
+    ),
+    resourceId: input.resourceId,
+    type: input.type,
+    beforeVersion: input.beforeVersion,
+    afterVersion: input.afterVersion,
+    verification: { source: "availability_sweep" },
+    summary: input.summary,
+    at: input.at,
+  };
+  insertResourceEvent(database, event);
+  return event;
+}
+
 export function readResourceEventsForRun(
   database: ContextDatabase,
   runId: string,
@@ -816,7 +949,7 @@ function insertResourceEvent(database: ContextDatabase, event: ResourceEvent): v
     event.resourceId,
     event.workstreamId ?? null,
     event.requestId ?? null,
-    event.runId,
+    event.runId ?? null,
     event.step ?? null,
     event.callId ?? null,
     event.type,
@@ -834,7 +967,7 @@ function resourceEventFromRow(row: Record<string, unknown>): ResourceEvent {
     resourceId: String(row["resource_id"]),
     ...(row["workstream_id"] ? { workstreamId: String(row["workstream_id"]) } : {}),
     ...(row["bound_request_id"] ? { requestId: String(row["bound_request_id"]) } : {}),
-    runId: String(row["run_id"]),
+    ...(row["run_id"] ? { runId: String(row["run_id"]) } : {}),
     ...(row["step"] !== null ? { step: Number(row["step"]) } : {}),
     ...(row["call_id"] ? { callId: String(row["call_id"]) } : {}),
     type: row["event_type"] as ResourceEvent["type"],
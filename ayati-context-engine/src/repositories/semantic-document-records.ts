@@ -0,0 +1,90 @@
+import type { ContextDatabase } from "../database/database.js";
+import {
+  deleteSemanticDocuments,
+  registerSemanticDocument,
+} from "../search/semantic-index.js";
+
+export const MESSAGE_SEMANTIC_KIND = "message";
+export const WORKSTREAM_SEMANTIC_KIND = "workstream";
+const WORKSTREAM_SEMANTIC_SCOPE = "catalog";
+
+export function registerMessageSemanticDocument(database: ContextDatabase, input: {
+  messageId: string;
+  streamId: string;
+  content: string;
+  at: string;
+}): void {
+  registerSemanticDocument(database, {
+    kind: MESSAGE_SEMANTIC_KIND,
+    documentId: input.messageId,
+    scopeId: input.streamId,
+    text: input.content,
+    at: input.at,
+  });
+}
+
+/** Embeds the same card, request, and finding text `workstream_search` holds, minus raw paths. */
+export function registerWorkstreamSemanticDocument(
+  database: ContextDatabase,
+  workstreamId: string,
+): void {
+  const row = database.prepare([
+    "SELECT s.title, s.aliases, s.purpose, s.current_snapshot, s.current_focus, s.findings,",
+    "s.unfinished_requests, w.updated_at",
+    "FROM workstream_search s JOIN workstreams w ON w.workstream_id = s.workstream_id",
+    "WHERE s.workstream_id = ?",
+  ].join(" ")).get(workstreamId) as Record<string, string | null> | undefined;
+  if (!row) {
+    deleteWorkstreamSemanticDocument(database, workstreamId);
+    return;
+  }
+  const { updated_at: updatedAt, ...text } = row;
+  registerSemanticDocument(database, {
+    kind: WORKSTREAM_SEMANTIC_KIND,
+    documentId: workstreamId,
+    scopeId: WORKSTREAM_SEMANTIC_SCOPE,
+    text: Object.values(text).filter(Boolean).join("\n"),
+    at: updatedAt ?? "",
+  });
+}
+
+export function deleteWorkstreamSemanticDocument(database: ContextDatabase, workstreamId: string): void {
+  deleteSemanticDocuments(database, WORKSTREAM_SEMANTIC_KIND, [workstreamId]);
+}
+
+/**
+ * Registers every message and cataloged workstream that has no semantic document, which covers
+ * databases migrated from V16. With `reset`, existing documents and vectors are discarded first.
+ */
+export function backfillSemanticDocuments(
+  database: ContextDatabase,
+  input: { at: string; reset?: boolean },
+): { messages: number; workstreams: number } {
+  if (input.reset) database.prepare("DELETE FROM semantic_documents").run();
+  const messages = database.prepare([
+    "SELECT m.message_id, m.stream_id, m.content FROM messages m",
+    "WHERE NOT EXISTS (SELECT 1 FROM semantic_documents d",
+    "WHERE d.document_kind = ? AND d.document_id = m.message_id)",
+  ].join(" ")).all(MESSAGE_SEMANTIC_KIND) as Array<{
+    message_id: string;
+    stream_id: string;
+    content: string;
+  }>;
+  for (const message of messages) {
+    registerMessageSemanticDocument(database, {
+      messageId: message.message_id,
+      streamId: message.stream_id,
+      content: message.content,
+      at: input.at,
+    });
+  }
+  const workstreams = database.prepare([
+    "SELECT s.workstream_id FROM workstream_search s",
+    "WHERE NOT EXISTS (SELECT 1 FROM semantic_documents d",
+    "WHERE d.document_kind = ? AND d.document_id = s.workstream_id)",
+  ].join(" ")).all(WORKSTREAM_SEMANTIC_KIND) as Array<{ workstream_id: string }>;
+  for (const workstream of workstreams) {
+    registerWorkstreamSemanticDocument(database, workstream.workstream_id);
+  }
+  return { messages: messages.length, workstreams: workstreams.length };
+}
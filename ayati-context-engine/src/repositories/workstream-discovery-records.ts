@@ -4,6 +4,7 @@ import type {
   WorkstreamContextProjection,
 } from "../contracts.js";
 import type { ContextDatabase } from "../database/database.js";
+import { registerWorkstreamSemanticDocument } from "./semantic-document-records.js";
 
 export interface WorkstreamDiscoveryRow {
   workstreamId: string;
@@ -268,6 +269,7 @@ export function writeWorkstreamDiscoveryProjection(
       entry.next_action,
     ]).join("\n"),
   );
+  registerWorkstreamSemanticDocument(database, input.workstreamId);
 }
 
 export function recordWorkstreamAccess(input: {
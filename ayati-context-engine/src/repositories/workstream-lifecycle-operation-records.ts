@@ -0,0 +1,160 @@
+import type {
+  WorkstreamLifecycleOperationKind,
+  WorkstreamLifecycleOperationResponse,
+} from "../contracts.js";
+import type { ContextDatabase } from "../database/database.js";
+import type { WorkstreamContextCommitPlan } from "./workstream-finalization-records.js";
+
+export type WorkstreamLifecycleOperationPhase =
+  | "prepared"
+  | "context_committed"
+  | "completed"
+  | "recovery_required";
+
+export interface WorkstreamMovedRequest {
+  fromWorkstreamId: string;
+  fromRequestId: string;
+  toWorkstreamId: string;
+  toRequestId: string;
+}
+
+export interface WorkstreamLifecycleOperationPlan {
+  /** Paths are qualified by workstream directory so one commit can span several workstreams. */
+  commit: WorkstreamContextCommitPlan;
+  /** Commit message line that identifies this operation during recovery. */
+  identity: string;
+  /** Catalog workstreams whose committed context is projected again. */
+  workstreamIds: string[];
+  /** Workstream a split creates; the catalog gains it once its context is committed. */
+  createdWorkstream?: { workstreamId: string; contextRepositoryPath: string };
+  movedRequests: WorkstreamMovedRequest[];
+  response: Omit<WorkstreamLifecycleOperationResponse, "commit">;
+}
+
+export interface WorkstreamLifecycleOperationRecord {
+  operationRequestId: string;
+  operation: WorkstreamLifecycleOperationKind;
+  runId?: string;
+  workstreamId: string;
+  phase: WorkstreamLifecycleOperationPhase;
+  baseHead: string;
+  plan: WorkstreamLifecycleOperationPlan;
+  commitHead?: string;
+  createdAt: string;
+  updatedAt: string;
+  lastError?: string;
+}
+
+interface Row {
+  operation_request_id: string;
+  operation: WorkstreamLifecycleOperationKind;
+  run_id: string | null;
+  workstream_id: string;
+  phase: WorkstreamLifecycleOperationPhase;
+  base_head: string;
+  plan_json: string;
+  commit_head: string | null;
+  created_at: string;
+  updated_at: string;
+  last_error: string | null;
+}
+
+export function insertWorkstreamLifecycleOperation(database: ContextDatabase, input: {
+  operationRequestId: string;
+  operation: WorkstreamLifecycleOperationKind;
+  runId?: string;
+  workstreamId: string;
+  baseHead: string;
+  plan: WorkstreamLifecycleOperationPlan;
+  at: string;
+}): WorkstreamLifecycleOperationRecord {
+  database.prepare([
+    "INSERT INTO workstream_lifecycle_operations(",
+    "operation_request_id, operation, run_id, workstream_id, phase, base_head, plan_json,",
+    "commit_head, created_at, updated_at, last_error",
+    ") VALUES (?, ?, ?, ?, 'prepared', ?, ?, NULL, ?, ?, NULL)",
+  ].join(" ")).run(
+    input.operationRequestId,
+    input.operation,
+    input.runId ?? null,
+    input.workstreamId,
+    input.baseHead,
+    JSON.stringify(input.plan),
+    input.at,
+    input.at,
+  );
+  return requireRecord(database, input.operationRequestId);
+}
+
+export function readWorkstreamLifecycleOperation(
+  database: ContextDatabase,
+  operationRequestId: string,
+): WorkstreamLifecycleOperationRecord | undefined {
+  const row = database.prepare(select() + " WHERE operation_request_id = ?")
+    .get(operationRequestId) as Row | undefined;
+  return row ? record(row) : undefined;
+}
+
+export function readRecoverableWorkstreamLifecycleOperations(
+  database: ContextDatabase,
+): WorkstreamLifecycleOperationRecord[] {
+  const rows = database.prepare([
+    select(),
+    "WHERE phase != 'completed' ORDER BY created_at, operation_request_id",
+  ].join(" ")).all() as unknown as Row[];
+  return rows.map(record);
+}
+
+export function updateWorkstreamLifecycleOperation(database: ContextDatabase, input: {
+  operationRequestId: string;
+  phase: WorkstreamLifecycleOperationPhase;
+  at: string;
+  commitHead?: string;
+  error?: string;
+}): WorkstreamLifecycleOperationRecord {
+  database.prepare([
+    "UPDATE workstream_lifecycle_operations SET phase = ?, updated_at = ?,",
+    "commit_head = COALESCE(?, commit_head), last_error = ? WHERE operation_request_id = ?",
+  ].join(" ")).run(
+    input.phase,
+    input.at,
+    input.commitHead ?? null,
+    input.error ?? null,
+    input.operationRequestId,
+  );
+  return requireRecord(database, input.operationRequestId);
+}
+
+function requireRecord(
+  database: ContextDatabase,
+  operationRequestId: string,
+): WorkstreamLifecycleOperationRecord {
+  const value = readWorkstreamLifecycleOperation(database, operationRequestId);
+  if (!value) {
+    throw new Error("Workstream lifecycle operation record is missing: " + operationRequestId);
+  }
+  return value;
+}
+
+function select(): string {
+  return [
+    "SELECT operation_request_id, operation, run_id, workstream_id, phase, base_head, plan_json,",
+    "commit_head, created_at, updated_at, last_error FROM workstream_lifecycle_operations",
+  ].join(" ");
+}
+
+function record(row: Row): WorkstreamLifecycleOperationRecord {
+  return {
+    operationRequestId: row.operation_request_id,
+    operation: row.operation,
+    ...(row.run_id ? { runId: row.run_id } : {}),
+    workstreamId: row.workstream_id,
+    phase: row.phase,
+    baseHead: row.base_head,
+    plan: JSON.parse(row.plan_json) as WorkstreamLifecycleOperationPlan,
+    ...(row.commit_head ? { commitHead: row.commit_head } : {}),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    ...(row.last_error ? { lastError: row.last_error } : {}),
+  };
+}
@@ -66,6 +66,27 @@ export function insertWorkstreamProgressProjection(
   }
 }
 
+/** Reassigns a request's finalized progress after the request moved to another workstream. */
+export function moveWorkstreamRequestProgress(
+  database: ContextDatabase,
+  input: {
+    fromWorkstreamId: string;
+    fromRequestId: string;
+    toWorkstreamId: string;
+    toRequestId: string;
+  },
+): void {
+  database.prepare([
+    "UPDATE workstream_progress SET workstream_id = ?, request_id = ?",
+    "WHERE workstream_id = ? AND request_id = ?",
+  ].join(" ")).run(
+    input.toWorkstreamId,
+    input.toRequestId,
+    input.fromWorkstreamId,
+    input.fromRequestId,
+  );
+}
+
 export function readWorkstreamProgressProjection(
   database: ContextDatabase,
   runId: string,
@@ -231,15 +231,18 @@ export function updateWorkstreamProjection(database: ContextDatabase, input: {
   currentSnapshot: string;
   currentFocus: string;
   blockers: string[];
-  lastRunId: string;
+  /** Omitted for changes a user makes outside any run; the previous run is kept. */
+  lastRunId?: string;
   lastCommit: string;
   at: string;
 }): void {
   database.prepare([
     "UPDATE workstreams SET title = ?, aliases_json = ?, purpose = ?, lifecycle_status = ?,",
     "current_request_id = ?, current_snapshot = ?, current_focus = ?, blockers_json = ?,",
-    "last_run_id = ?, last_commit_sha = ?, last_activity_at = ?, updated_at = ?, status =",
-    "CASE WHEN status = 'initializing' THEN 'active' ELSE status END",
+    "last_run_id = COALESCE(?, last_run_id), last_commit_sha = ?, last_activity_at = ?,",
+    "updated_at = ?, status = CASE",
+    "WHEN status = 'recovery_required' THEN status",
+    "WHEN ? = 'archived' THEN 'archived' ELSE 'active' END",
     "WHERE workstream_id = ?",
   ].join(" ")).run(
     input.title,
@@ -250,10 +253,11 @@ export function updateWorkstreamProjection(database: ContextDatabase, input: {
     input.currentSnapshot,
     input.currentFocus,
     JSON.stringify(input.blockers),
-    input.lastRunId,
+    input.lastRunId ?? null,
     input.lastCommit,
     input.at,
     input.at,
+    input.lifecycleStatus,
     input.workstreamId,
   );
 }
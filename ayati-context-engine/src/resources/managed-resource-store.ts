@@ -1,6 +1,6 @@
 import { createHash } from "node:crypto";
 import { createReadStream, createWriteStream } from "node:fs";
-import { chmod, lstat, mkdir, open, realpath, rename, rm } from "node:fs/promises";
+import { chmod, lstat, mkdir, open, realpath, rename, rm, writeFile } from "node:fs/promises";
 import { basename, join, resolve } from "node:path";
 import { ContextEngineServiceError } from "../errors.js";
 
@@ -23,6 +23,36 @@ export class ManagedResourceStore {
   async storeFile(sourcePath: string): Promise<StoredManagedResource> {
     const source = await this.requireSource(sourcePath);
     const digest = await hashFile(source);
+    return await this.install(digest, basename(source), async (temporary) => {
+      await copyFileExclusive(source, temporary);
+    }, "Managed upload");
+  }
+
+  /** Stores fetched bytes under the same content address an upload of them would receive. */
+  async storeBytes(content: Uint8Array, displayName: string): Promise<StoredManagedResource> {
+    const digest = createHash("sha256").update(content).digest("hex");
+    return await this.install(digest, displayName, async (temporary) => {
+      await writeFile(temporary, content, { flag: "wx", mode: 0o600 });
+    }, "Fetched content");
+  }
+
+  /** Returns the stored path for a content hash, or undefined when those bytes were never stored. */
+  async contentPath(contentHash: string): Promise<string | undefined> {
+    if (!/^[a-f0-9]{64}$/.test(contentHash)) return undefined;
+    const target = join(this.root, "sha256", contentHash.slice(0, 2), contentHash);
+    const stat = await lstat(target).catch((error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    });
+    return stat?.isFile() ? target : undefined;
+  }
+
+  private async install(
+    digest: string,
+    displayName: string,
+    writeTemporary: (temporary: string) => Promise<void>,
+    label: string,
+  ): Promise<StoredManagedResource> {
     const resourceId = "RES-" + digest.slice(0, 24).toUpperCase();
     const directory = join(this.root, "sha256", digest.slice(0, 2));
     const target = join(directory, digest);
@@ -43,16 +73,16 @@ export class ManagedResourceStore {
         resourceId,
         contentHash: digest,
         storedPath: target,
-        displayName: basename(source),
+        displayName,
         sizeBytes: existing.size,
         created: false,
       };
     }
     const temporary = join(directory, "." + digest + ".tmp-" + process.pid + "-" + crypto.randomUUID());
     try {
-      await copyFileExclusive(source, temporary);
+      await writeTemporary(temporary);
       if (await hashFile(temporary) !== digest) {
-        throw new Error("Managed upload hash changed while copying.");
+        throw new Error(label + " hash changed while copying.");
       }
       await chmod(temporary, 0o444);
       await rename(temporary, target).catch(async (error: NodeJS.ErrnoException) => {
@@ -73,7 +103,7 @@ export class ManagedResourceStore {
     if (!stored.isFile() || await hashFile(target) !== digest) {
       throw new ContextEngineServiceError({
         code: "RESOURCE_STORE_CORRUPT",
-        message: "Managed upload could not be verified after storage.",
+        message: label + " could not be verified after storage.",
         details: { contentHash: digest },
       });
     }
@@ -81,7 +111,7 @@ export class ManagedResourceStore {
       resourceId,
       contentHash: digest,
       storedPath: target,
-      displayName: basename(source),
+      displayName,
       sizeBytes: stored.size,
       created: true,
     };
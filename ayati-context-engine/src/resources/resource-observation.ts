@@ -6,6 +6,7 @@ import type {
   ResourceKind,
   ResourcePublicLocator,
   ResourceVersion,
+  UrlResourceFetchObservation,
 } from "../contracts.js";
 import { ContextEngineServiceError } from "../errors.js";
 import { runGit, runGitRaw } from "../git/git-process.js";
@@ -33,8 +34,12 @@ export async function observeResource(
     kind?: ResourceKind;
     managedBlobPath?: string;
     directoryMode?: "fingerprint" | "shallow";
+    fetched?: UrlResourceFetchObservation;
   },
 ): Promise<ObservedResource> {
+  if (input.fetched && locator.kind !== "url") {
+    throw invalidLocator("Fetch observations are only accepted for URL resources.", { kind: locator.kind });
+  }
   if (locator.kind === "filesystem") {
     return await observeFilesystem(
       locator.path,
@@ -70,10 +75,15 @@ export async function observeResource(
     }
     url.hash = "";
     const normalized = url.toString();
+    const locatorValue: ResourcePublicLocator = { kind: "url", url: normalized };
+    const displayName = url.hostname + (url.pathname === "/" ? "" : url.pathname);
+    if (input.fetched) {
+      return observeFetchedUrl(locatorValue, displayName, input.fetched, input.at, input.kind);
+    }
     return {
-      locator: { kind: "url", url: normalized },
+      locator: locatorValue,
       kind: input.kind ?? "url",
-      displayName: url.hostname + (url.pathname === "/" ? "" : url.pathname),
+      displayName,
       version: {
         key: "url:" + sha256(normalized),
         observedAt: input.at,
@@ -105,6 +115,44 @@ export async function observeResource(
   };
 }
 
+function observeFetchedUrl(
+  locator: Extract<ResourcePublicLocator, { kind: "url" }>,
+  displayName: string,
+  fetched: UrlResourceFetchObservation,
+  at: string,
+  kindHint?: ResourceKind,
+): ObservedResource {
+  // Redirects and 304 revalidations still prove the URL answers; only client and server errors do not.
+  const exists = fetched.status < 400;
+  const identity = fetched.sha256
+    ? "sha256:" + fetched.sha256
+    : fetched.etag
+      ? "etag:" + sha256(fetched.etag)
+      : fetched.lastModified
+        ? "modified:" + sha256(fetched.lastModified)
+        : undefined;
+  return {
+    locator,
+    kind: kindHint ?? "url",
+    displayName,
+    version: {
+      key: exists
+        ? "url:" + sha256(locator.url) + (identity ? ":" + identity : "")
+        : "missing:" + sha256(locator.url),
+      observedAt: at,
+      exists,
+      kind: "url",
+      ...(fetched.sha256 ? { sha256: fetched.sha256 } : {}),
+      ...(fetched.sizeBytes !== undefined ? { sizeBytes: fetched.sizeBytes } : {}),
+      ...(fetched.etag ? { etag: fetched.etag } : {}),
+      ...(fetched.lastModified ? { lastModified: fetched.lastModified } : {}),
+    },
+    ...(fetched.mediaType ? { mediaType: fetched.mediaType } : {}),
+    mutationEligible: false,
+    warnings: exists ? [] : ["URL returned HTTP " + fetched.status + "."],
+  };
+}
+
 async function observeFilesystem(
   inputPath: string,
   at: string,
@@ -205,7 +253,7 @@ async function observeFilesystem(
   };
 }
 
-async function observeGitRepository(path: string, at: string): Promise<ResourceVersion | undefined> {
+export async function observeGitRepository(path: string, at: string): Promise<ResourceVersion | undefined> {
   try {
     const top = resolve(await runGit(["rev-parse", "--show-toplevel"], { cwd: path }));
     if (top !== resolve(path)) return undefined;
@@ -5,6 +5,7 @@ import {
   ContextEngineObserver,
   type ContextEngineObservabilitySink,
 } from "./observability.js";
+import type { TextEmbedder } from "./search/text-embedder.js";
 import type { ContextEngineService } from "./service.js";
 import { SqliteContextEngineService } from "./services/sqlite-context-engine-service.js";
 import { ContextEngineWriterLock } from "./writer-lock.js";
@@ -13,6 +14,8 @@ export interface ContextEngineHostOptions {
   databasePath: string;
   rootDirectory: string;
   observabilitySink?: ContextEngineObservabilitySink;
+  /** Embedder for hybrid history and workstream search; defaults to offline hashed n-grams. */
+  embedder?: TextEmbedder;
 }
 
 export interface ContextEngineHost {
@@ -61,6 +64,7 @@ export async function startContextEngineHost(
       database,
       rootDirectory: options.rootDirectory,
       observer,
+      ...(options.embedder ? { embedder: options.embedder } : {}),
     });
     const health = await service.getHealth();
     if (!health.ready) {
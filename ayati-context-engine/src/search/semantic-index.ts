@@ -0,0 +1,176 @@
+import { createHash } from "node:crypto";
+import type { StatementSync } from "node:sqlite";
+import { cosineSimilarity, type TextEmbedder } from "./text-embedder.js";
+
+/** Shared by the Context Engine database and the personal-memory store. */
+export const SEMANTIC_DOCUMENTS_TABLE_SQL = [
+  "CREATE TABLE IF NOT EXISTS semantic_documents (",
+  "  document_kind TEXT NOT NULL,",
+  "  document_id TEXT NOT NULL,",
+  "  scope_id TEXT NOT NULL,",
+  "  text TEXT NOT NULL,",
+  "  content_hash TEXT NOT NULL,",
+  "  embedder_id TEXT,",
+  "  vector BLOB,",
+  "  updated_at TEXT NOT NULL,",
+  "  PRIMARY KEY (document_kind, document_id)",
+  ");",
+  "CREATE INDEX IF NOT EXISTS semantic_documents_scope ON semantic_documents(document_kind, scope_id);",
+  "CREATE INDEX IF NOT EXISTS semantic_documents_embedder ON semantic_documents(embedder_id);",
+].join("\n");
+
+const MAX_DOCUMENT_CHARS = 8_000;
+const DEFAULT_REFRESH_BATCH = 256;
+const RECIPROCAL_RANK_OFFSET = 60;
+
+export interface SemanticIndexDatabase {
+  prepare(sql: string): StatementSync;
+}
+
+export interface SemanticDocumentWrite {
+  kind: string;
+  documentId: string;
+  /** Narrows ranking, such as a message's stream or a memory's user and section. */
+  scopeId: string;
+  text: string;
+  at: string;
+}
+
+export interface SemanticQuery {
+  embedderId: string;
+  vector: Float32Array;
+  minScore: number;
+}
+
+export interface SemanticMatch {
+  documentId: string;
+  score: number;
+}
+
+/** Records text for embedding; unchanged text keeps its vector, changed text waits for a refresh. */
+export function registerSemanticDocument(
+  database: SemanticIndexDatabase,
+  document: SemanticDocumentWrite,
+): void {
+  const text = document.text.replace(/\s+/g, " ").trim().slice(0, MAX_DOCUMENT_CHARS);
+  if (!text) {
+    deleteSemanticDocuments(database, document.kind, [document.documentId]);
+    return;
+  }
+  const contentHash = createHash("sha256").update(text).digest("hex");
+  database.prepare([
+    "INSERT INTO semantic_documents(",
+    "document_kind, document_id, scope_id, text, content_hash, embedder_id, vector, updated_at",
+    ") VALUES (?, ?, ?, ?, ?, NULL, NULL, ?)",
+    "ON CONFLICT(document_kind, document_id) DO UPDATE SET",
+    "scope_id = excluded.scope_id, updated_at = excluded.updated_at,",
+    "embedder_id = CASE WHEN content_hash = excluded.content_hash THEN embedder_id END,",
+    "vector = CASE WHEN content_hash = excluded.content_hash THEN vector END,",
+    "text = excluded.text, content_hash = excluded.content_hash",
+  ].join(" ")).run(document.kind, document.documentId, document.scopeId, text, contentHash, document.at);
+}
+
+export function deleteSemanticDocuments(
+  database: SemanticIndexDatabase,
+  kind: string,
+  documentIds: readonly string[],
+): void {
+  const statement = database.prepare(
+    "DELETE FROM semantic_documents WHERE document_kind = ? AND document_id = ?",
+  );
+  for (const documentId of documentIds) statement.run(kind, documentId);
+}
+
+/**
+ * Embeds documents that have no vector from `embedder` yet. Callers run this in a background
+ * refresh, so provider-backed embedders stay off the write and search paths; a failed batch leaves
+ * rows pending.
+ */
+export async function refreshSemanticVectors(
+  database: SemanticIndexDatabase,
+  embedder: TextEmbedder,
+  limit = DEFAULT_REFRESH_BATCH,
+): Promise<number> {
+  const rows = database.prepare([
+    "SELECT document_kind, document_id, text, content_hash FROM semantic_documents",
+    "WHERE embedder_id IS NULL OR embedder_id != ?",
+    "ORDER BY updated_at DESC LIMIT ?",
+  ].join(" ")).all(embedder.id, limit) as Array<{
+    document_kind: string;
+    document_id: string;
+    text: string;
+    content_hash: string;
+  }>;
+  if (rows.length === 0) return 0;
+  const vectors = await embedder.embed(rows.map((row) => row.text));
+  if (vectors.length !== rows.length) {
+    throw new Error(`Embedder ${embedder.id} returned ${vectors.length} vectors for ${rows.length} texts.`);
+  }
+  const update = database.prepare([
+    "UPDATE semantic_documents SET embedder_id = ?, vector = ?",
+    "WHERE document_kind = ? AND document_id = ? AND content_hash = ?",
+  ].join(" "));
+  rows.forEach((row, index) => {
+    update.run(embedder.id, encodeVector(vectors[index]!), row.document_kind, row.document_id, row.content_hash);
+  });
+  return rows.length;
+}
+
+export function countPendingSemanticDocuments(database: SemanticIndexDatabase, embedderId: string): number {
+  const row = database.prepare(
+    "SELECT COUNT(*) AS count FROM semantic_documents WHERE embedder_id IS NULL OR embedder_id != ?",
+  ).get(embedderId) as { count: number };
+  return row.count;
+}
+
+/** Best cosine matches of one kind, optionally within a scope, that reach the query's floor. */
+export function rankSemanticDocuments(
+  database: SemanticIndexDatabase,
+  input: {
+    kind: string;
+    scopeId?: string;
+    query: SemanticQuery;
+    limit: number;
+  },
+): SemanticMatch[] {
+  const rows = database.prepare([
+    "SELECT document_id, vector FROM semantic_documents",
+    "WHERE document_kind = ? AND embedder_id = ? AND vector IS NOT NULL",
+    input.scopeId === undefined ? "" : "AND scope_id = ?",
+  ].join(" ")).all(
+    input.kind,
+    input.query.embedderId,
+    ...(input.scopeId === undefined ? [] : [input.scopeId]),
+  ) as Array<{ document_id: string; vector: Uint8Array }>;
+  const matches: SemanticMatch[] = [];
+  for (const row of rows) {
+    const score = cosineSimilarity(input.query.vector, decodeVector(row.vector));
+    if (score >= input.query.minScore) matches.push({ documentId: row.document_id, score });
+  }
+  return matches
+    .sort((left, right) => right.score - left.score || left.documentId.localeCompare(right.documentId))
+    .slice(0, input.limit);
+}
+
+/** Reciprocal-rank fusion: an id ranked well in several lists beats one ranked first in one. */
+export function fuseRankings(rankings: ReadonlyArray<readonly string[]>, limit: number): string[] {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, rank) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (RECIPROCAL_RANK_OFFSET + rank + 1));
+    });
+  }
+  return [...scores.entries()]
+    .sort((left, right) => right[1] - left[1] || left[0].localeCompare(right[0]))
+    .slice(0, limit)
+    .map(([id]) => id);
+}
+
+function encodeVector(vector: Float32Array): Uint8Array {
+  return new Uint8Array(vector.buffer.slice(vector.byteOffset, vector.byteOffset + vector.byteLength));
+}
+
+function decodeVector(bytes: Uint8Array): Float32Array {
+  const copy = new Uint8Array(bytes);
+  return new Float32Array(copy.buffer, 0, Math.floor(copy.byteLength / 4));
+}
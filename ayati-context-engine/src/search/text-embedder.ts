@@ -0,0 +1,92 @@
+/** Turns search text into fixed-length vectors; every stored vector records the embedder id. */
+export interface TextEmbedder {
+  /** Changes whenever vectors from this embedder are no longer comparable with earlier ones. */
+  readonly id: string;
+  /** Cosine similarity below which this embedder's vectors are treated as unrelated. */
+  readonly minScore: number;
+  embed(texts: readonly string[]): Promise<Float32Array[]>;
+}
+
+const DEFAULT_HASHED_DIMENSIONS = 2048;
+const WORD_WEIGHT = 1;
+const STEM_WEIGHT = 1;
+const STEM_LENGTH = 5;
+const TRIGRAM_WEIGHT = 0.5;
+const HASHED_MIN_SCORE = 0.2;
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have", "i", "in",
+  "is", "it", "its", "me", "my", "of", "on", "or", "our", "so", "that", "the", "this", "to", "was",
+  "we", "were", "with", "you", "your",
+]);
+
+/**
+ * Offline default: signed feature hashing of words, word stems, and word-leading character
+ * trigrams with sublinear term weights. It needs no model or network, so related spellings and word forms meet even
+ * when FTS tokens differ; true synonyms need a provider-backed embedder.
+ */
+export function createHashedNgramEmbedder(options: { dimensions?: number } = {}): TextEmbedder {
+  const dimensions = options.dimensions ?? DEFAULT_HASHED_DIMENSIONS;
+  if (!Number.isInteger(dimensions) || dimensions < 16) {
+    throw new Error("Hashed n-gram embeddings need at least 16 integer dimensions.");
+  }
+  return {
+    id: `hashed-ngram-v1:${dimensions}`,
+    minScore: HASHED_MIN_SCORE,
+    embed: async (texts) => texts.map((text) => hashedNgramVector(text, dimensions)),
+  };
+}
+
+export function hashedNgramVector(text: string, dimensions: number): Float32Array {
+  const counts = new Map<string, number>();
+  const add = (feature: string, weight: number): void => {
+    counts.set(feature, (counts.get(feature) ?? 0) + weight);
+  };
+  for (const word of text.toLowerCase().normalize("NFKC").match(/[\p{L}\p{N}]+/gu) ?? []) {
+    if (STOP_WORDS.has(word)) continue;
+    add("w:" + word, WORD_WEIGHT);
+    if (word.length > STEM_LENGTH - 1) add("s:" + word.slice(0, STEM_LENGTH), STEM_WEIGHT);
+    const padded = `#${word}`;
+    for (let index = 0; index + 3 <= padded.length; index += 1) {
+      add("t:" + padded.slice(index, index + 3), TRIGRAM_WEIGHT);
+    }
+  }
+  const vector = new Float32Array(dimensions);
+  for (const [feature, count] of counts) {
+    const hash = fnv1a(feature);
+    const sign = hash & 0x8000_0000 ? -1 : 1;
+    vector[hash % dimensions]! += sign * (1 + Math.log(count));
+  }
+  return normalizeVector(vector);
+}
+
+export function normalizeVector(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  if (norm === 0) return vector;
+  const scale = 1 / Math.sqrt(norm);
+  for (let index = 0; index < vector.length; index += 1) vector[index]! *= scale;
+  return vector;
+}
+
+/** Cosine similarity; vectors of different lengths never match. */
+export function cosineSimilarity(left: Float32Array, right: Float32Array): number {
+  if (left.length !== right.length) return 0;
+  let dot = 0;
+  let leftNorm = 0;
+  let rightNorm = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    dot += left[index]! * right[index]!;
+    leftNorm += left[index]! * left[index]!;
+    rightNorm += right[index]! * right[index]!;
+  }
+  return leftNorm === 0 || rightNorm === 0 ? 0 : dot / Math.sqrt(leftNorm * rightNorm);
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c_9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x0100_0193);
+  }
+  return hash >>> 0;
+}
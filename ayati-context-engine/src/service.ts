@@ -1,6 +1,7 @@
 import type {
   ActivateWorkstreamForRunRequest,
   AgentContextProjection,
+  ArchiveWorkstreamRequest,
   BindResourcesForRunRequest,
   BindResourcesForRunResponse,
   CheckpointRunWorkStateRequest,
@@ -8,6 +9,8 @@ import type {
   CommitContextCheckpointRequest,
   CommitContextCheckpointResponse,
   CreateWorkstreamForRunRequest,
+  ExportWorkstreamRequest,
+  ExportWorkstreamResponse,
   FinalizeRunRequest,
   FinalizeRunResponse,
   FindResourcesRequest,
@@ -17,11 +20,14 @@ import type {
   GetAgentContextRequest,
   GetWorkstreamRequest,
   GetWorkstreamResponse,
+  ImportWorkstreamRequest,
+  ImportWorkstreamResponse,
   ContextEngineHealth,
   InspectResourceForRunRequest,
   InspectResourceForRunResponse,
   ListWorkstreamsRequest,
   ListWorkstreamsResponse,
+  MergeWorkstreamsRequest,
   PlanContextCheckpointRequest,
   PlanWorkstreamRequestRouteRequest,
   PlanWorkstreamRequestRouteResponse,
@@ -43,13 +49,21 @@ import type {
   ReadWorkstreamRepositoryLogResponse,
   RecordRunStepRequest,
   RecordRunStepResponse,
+  RefreshSemanticIndexRequest,
+  RefreshSemanticIndexResponse,
+  RenameWorkstreamRequest,
   SearchAgentHistoryRequest,
   SearchAgentHistoryResponse,
   SelectedWorkstreamForRunResponse,
+  SetWorkstreamStarByUserRequest,
   SetWorkstreamStarRequest,
   SetWorkstreamStarResponse,
+  SplitWorkstreamRequest,
+  SweepResourceAvailabilityRequest,
+  SweepResourceAvailabilityResponse,
   VerifyResourceMutationRequest,
   VerifyResourceMutationResponse,
+  WorkstreamLifecycleOperationResponse,
   ContextCheckpointPlan,
 } from "./contracts.js";
 
@@ -85,7 +99,18 @@ export interface ContextEngineService {
     input: ReadWorkstreamRepositoryDiffRequest,
   ): Promise<ReadWorkstreamRepositoryDiffResponse>;
   setWorkstreamStar(input: SetWorkstreamStarRequest): Promise<SetWorkstreamStarResponse>;
+  setWorkstreamStarByUser(input: SetWorkstreamStarByUserRequest): Promise<SetWorkstreamStarResponse>;
+  exportWorkstream(input: ExportWorkstreamRequest): Promise<ExportWorkstreamResponse>;
+  importWorkstream(input: ImportWorkstreamRequest): Promise<ImportWorkstreamResponse>;
+  archiveWorkstream(input: ArchiveWorkstreamRequest): Promise<WorkstreamLifecycleOperationResponse>;
+  renameWorkstream(input: RenameWorkstreamRequest): Promise<WorkstreamLifecycleOperationResponse>;
+  mergeWorkstreams(input: MergeWorkstreamsRequest): Promise<WorkstreamLifecycleOperationResponse>;
+  splitWorkstream(input: SplitWorkstreamRequest): Promise<WorkstreamLifecycleOperationResponse>;
   findResources(input: FindResourcesRequest): Promise<FindResourcesResponse>;
+  sweepResourceAvailability(
+    input: SweepResourceAvailabilityRequest,
+  ): Promise<SweepResourceAvailabilityResponse>;
+  refreshSemanticIndex(input: RefreshSemanticIndexRequest): Promise<RefreshSemanticIndexResponse>;
   inspectResourceForRun(input: InspectResourceForRunRequest): Promise<InspectResourceForRunResponse>;
   bindResourcesForRun(input: BindResourcesForRunRequest): Promise<BindResourcesForRunResponse>;
   prepareResourceMutation(
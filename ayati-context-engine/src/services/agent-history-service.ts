@@ -24,6 +24,12 @@ import {
   readRunStepEvidence,
 } from "../repositories/run-records.js";
 import { readRunWorkState } from "../repositories/run-work-state-records.js";
+import { MESSAGE_SEMANTIC_KIND } from "../repositories/semantic-document-records.js";
+import {
+  fuseRankings,
+  rankSemanticDocuments,
+  type SemanticQuery,
+} from "../search/semantic-index.js";
 
 const DEFAULT_SEARCH_LIMIT = 10;
 const MAX_SEARCH_LIMIT = 25;
@@ -35,17 +41,14 @@ const CONVERSATION_CURSOR_PREFIX = "conversation:v1:";
 export class AgentHistoryService {
   constructor(private readonly database: ContextDatabase) {}
 
-  search(input: SearchAgentHistoryRequest): SearchAgentHistoryResponse {
+  /** With a semantic query, message hits fuse FTS and vector rankings before the recency sort. */
+  search(input: SearchAgentHistoryRequest, semantic?: SemanticQuery): SearchAgentHistoryResponse {
     this.requireStream(input.streamId);
     const limit = Math.min(Math.max(input.limit ?? DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
     const kinds = new Set(input.kinds ?? ["message", "run", "evidence"]);
     const hits: AgentHistoryHit[] = [];
     if (kinds.has("message")) {
-      for (const message of searchStreamMessages(this.database, {
-        streamId: input.streamId,
-        query: input.query,
-        limit,
-      })) {
+      for (const message of this.searchMessages(input.streamId, input.query, limit, semantic)) {
         hits.push({
           ref: "message:" + message.messageId,
           kind: "message",
@@ -66,6 +69,29 @@ export class AgentHistoryService {
     };
   }
 
+  private searchMessages(
+    streamId: string,
+    query: string,
+    limit: number,
+    semantic: SemanticQuery | undefined,
+  ): StreamMessage[] {
+    const lexical = searchStreamMessages(this.database, { streamId, query, limit });
+    if (!semantic) return lexical;
+    const matches = rankSemanticDocuments(this.database, {
+      kind: MESSAGE_SEMANTIC_KIND,
+      scopeId: streamId,
+      query: semantic,
+      limit,
+    });
+    const byId = new Map(lexical.map((message) => [message.messageId, message]));
+    return fuseRankings([
+      lexical.map((message) => message.messageId),
+      matches.map((match) => match.documentId),
+    ], limit)
+      .map((messageId) => byId.get(messageId) ?? readStreamMessage(this.database, messageId))
+      .filter((message): message is StreamMessage => message !== undefined);
+  }
+
   read(input: ReadAgentHistoryRequest): ReadAgentHistoryResponse {
     this.requireStream(input.streamId);
     const maxChars = Math.min(Math.max(input.maxChars ?? DEFAULT_READ_CHARS, 1), MAX_READ_CHARS);
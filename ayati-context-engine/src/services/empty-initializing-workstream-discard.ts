@@ -3,6 +3,7 @@ import type { ContextDatabase } from "../database/database.js";
 import { ContextEngineServiceError } from "../errors.js";
 import { clearAgentStreamWorkstreamFocus } from "../repositories/agent-stream-records.js";
 import { detachRunFromEmptyInitializingWorkstream } from "../repositories/run-records.js";
+import { deleteWorkstreamSemanticDocument } from "../repositories/semantic-document-records.js";
 
 interface DiscardableWorkstreamRow {
   stream_id: string;
@@ -74,6 +75,7 @@ export function discardEmptyInitializingWorkstream(input: {
     .run(input.workstreamId);
   input.database.prepare("DELETE FROM workstream_search WHERE workstream_id = ?")
     .run(input.workstreamId);
+  deleteWorkstreamSemanticDocument(input.database, input.workstreamId);
   detachRunFromEmptyInitializingWorkstream(input.database, input);
   input.database.prepare("DELETE FROM workstream_request_route_plans WHERE run_id = ?")
     .run(input.runId);
@@ -0,0 +1,120 @@
+import type {
+  ResourceAvailability,
+  ResourceAvailabilityChange,
+  ResourceAvailabilityDrift,
+  ResourceRef,
+  ResourceVersion,
+  SweepResourceAvailabilityRequest,
+  SweepResourceAvailabilityResponse,
+} from "../contracts.js";
+import type { ContextDatabase } from "../database/database.js";
+import {
+  markResourceSwept,
+  readResourceSweepCandidates,
+} from "../repositories/resource-availability-records.js";
+import {
+  readResource,
+  recordResourceAvailabilityDrift,
+  recordResourceObservation,
+} from "../repositories/resource-records.js";
+import { observeResource, type ObservedResource } from "../resources/resource-observation.js";
+
+const DEFAULT_SWEEP_LIMIT = 50;
+const MAX_SWEEP_LIMIT = 500;
+
+/**
+ * Re-observes bound filesystem and git resources between runs. Versions are otherwise observed
+ * only when a run touches a resource, so edits made outside Ayati stay invisible until then.
+ * A change first seen after a bound workstream's run finalized is credited to that run, since
+ * process and script tools change files without recording a version.
+ */
+export class ResourceAvailabilitySweepService {
+  constructor(private readonly database: ContextDatabase) {}
+
+  async sweep(input: SweepResourceAvailabilityRequest): Promise<SweepResourceAvailabilityResponse> {
+    const limit = Math.min(Math.max(input.limit ?? DEFAULT_SWEEP_LIMIT, 1), MAX_SWEEP_LIMIT);
+    const candidates = readResourceSweepCandidates(this.database, limit);
+    const drift: ResourceAvailabilityDrift[] = [];
+    const failures: SweepResourceAvailabilityResponse["failures"] = [];
+    for (const candidate of candidates) {
+      const { resource } = candidate;
+      let observed: ObservedResource;
+      try {
+        observed = await observeResource(resource.locator, {
+          at: input.at,
+          kind: resource.kind,
+          directoryMode: resource.version.key.startsWith("directory-entry:") ? "shallow" : "fingerprint",
+        });
+      } catch (error) {
+        failures.push({
+          resourceId: resource.resourceId,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+      const before = resource.version;
+      const after = observed.version;
+      if (after.key === before.key) {
+        markResourceSwept(this.database, resource.resourceId, input.at);
+        continue;
+      }
+      const change: ResourceAvailabilityChange = !after.exists
+        ? "missing"
+        : before.exists ? "changed" : "restored";
+      if (candidate.runSinceObserved) {
+        const runId = candidate.runSinceObserved;
+        this.database.transaction(() => recordResourceObservation(this.database, {
+          resourceId: resource.resourceId,
+          runId,
+          beforeVersion: before,
+          afterVersion: after,
+          type: change === "changed" ? "modified" : change,
+          verification: { source: "availability_sweep_after_run" },
+          summary: summaryFor(change, resource.displayName, runId),
+          at: input.at,
+        }));
+        continue;
+      }
+      const event = this.database.transaction(() => recordResourceAvailabilityDrift(this.database, {
+        resourceId: resource.resourceId,
+        beforeVersion: before,
+        afterVersion: after,
+        type: change === "changed" ? "modified" : change,
+        availability: availabilityAfter(change, resource, after),
+        summary: summaryFor(change, resource.displayName),
+        at: input.at,
+      }));
+      drift.push({
+        eventId: event.eventId,
+        resource: readResource(this.database, resource.resourceId) ?? resource,
+        change,
+        previousVersion: before,
+        workstreams: candidate.workstreams,
+      });
+    }
+    return { observed: candidates.length - failures.length, drift, failures };
+  }
+}
+
+function availabilityAfter(
+  change: ResourceAvailabilityChange,
+  resource: ResourceRef,
+  version: ResourceVersion,
+): ResourceAvailability {
+  if (change === "missing") return "missing";
+  if (change === "changed") return "changed";
+  return resource.describedVersionKey && resource.describedVersionKey !== version.key
+    ? "changed"
+    : "available";
+}
+
+function summaryFor(change: ResourceAvailabilityChange, displayName: string, runId?: string): string {
+  switch (change) {
+    case "changed":
+      return displayName + (runId ? " changed during run " + runId + "." : " changed outside Ayati.");
+    case "missing":
+      return displayName + " is no longer at its recorded location.";
+    case "restored":
+      return displayName + " is present again at its recorded location.";
+  }
+}
@@ -127,6 +127,7 @@ export class ResourceCatalogService {
     const observed = await observeResource(input.locator, {
       at: input.at,
       ...(input.kind ? { kind: input.kind } : {}),
+      ...(input.fetched ? { fetched: input.fetched } : {}),
     });
     const existingBefore = this.findByObservedLocator(observed.locator);
     const admission: ObservedResourceAdmission = {
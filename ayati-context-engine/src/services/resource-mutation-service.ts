@@ -256,7 +256,11 @@ export class ResourceMutationService {
           const beforeResource = before.resources.find(
             (candidate) => candidate.resourceId === afterResource.resourceId,
           );
-          if (!beforeResource || beforeResource.version.key === afterResource.version.key) continue;
+          const resourcePaths = comparison.changedPaths.filter(
+            (path) => mutationPathIsWithin(afterResource.rootPath, path),
+          );
+          // Git version keys track head and status only, so a verified ref or content change still records.
+          if (!beforeResource || resourcePaths.length === 0) continue;
           const type = eventType(beforeResource.version, afterResource.version);
           recorded.push(recordResourceObservation(this.database, {
             resourceId: afterResource.resourceId,
@@ -267,9 +271,7 @@ export class ResourceMutationService {
             verification: {
               operationId: operation.operation_id,
               callId: operation.call_id,
-              changedPaths: comparison.changedPaths.filter(
-                (path) => mutationPathIsWithin(afterResource.rootPath, path),
-              ),
+              changedPaths: resourcePaths,
             },
             summary: mutationSummary(type, afterResource.resourceId),
             at: input.at,
@@ -10,6 +10,7 @@ import type {
 } from "../contracts.js";
 import { ContextEngineServiceError } from "../errors.js";
 import { runGitRaw } from "../git/git-process.js";
+import { observeGitRepository } from "../resources/resource-observation.js";
 
 const MAX_SNAPSHOT_ENTRIES = 20_000;
 const MAX_SNAPSHOT_BYTES = 512 * 1024 * 1024;
@@ -35,6 +36,8 @@ export interface MutationResourceSnapshot {
   rootPath: string;
   entries: SnapshotEntry[];
   version: ResourceVersion;
+  /** Digest of HEAD and every ref, so branch and commit changes count as changes. */
+  refs?: string;
 }
 
 export interface MutationOperationSnapshot {
@@ -109,6 +112,9 @@ export function compareMutationSnapshots(
         changedPaths.add(resolve(beforeResource.rootPath, path === "." ? "" : path));
       }
     }
+    if (beforeResource.refs !== afterResource.refs) {
+      changedPaths.add(resolve(beforeResource.rootPath, ".git"));
+    }
   }
   const ordered = [...changedPaths].sort();
   const unexpectedPaths = ordered.filter((path) => !before.targets.some((target) => {
@@ -235,7 +241,22 @@ async function snapshotGitResource(
     if (totalBytes > MAX_SNAPSHOT_BYTES) verificationLimit(resourceId, "byte count");
     entries.push(entry);
   }
-  return snapshotResult(resourceId, rootPath, entries, totalBytes, at, rootState);
+  const snapshot = snapshotResult(resourceId, rootPath, entries, totalBytes, at, rootState);
+  const [version, refs] = await Promise.all([
+    observeGitRepository(rootPath, at),
+    snapshotGitRefs(rootPath),
+  ]);
+  // The observed Git version keeps head/dirty and matches what the availability sweep compares.
+  return { ...snapshot, ...(version ? { version } : {}), refs };
+}
+
+async function snapshotGitRefs(rootPath: string): Promise<string> {
+  const [headRef, head, refs] = await Promise.all([
+    runGitRaw(["symbolic-ref", "-q", "HEAD"], { cwd: rootPath }).catch(() => ""),
+    runGitRaw(["rev-parse", "-q", "--verify", "HEAD"], { cwd: rootPath }).catch(() => ""),
+    runGitRaw(["for-each-ref", "--format=%(objectname) %(refname)"], { cwd: rootPath }),
+  ]);
+  return createHash("sha256").update(headRef + "\u0000" + head + "\u0000" + refs).digest("hex");
 }
 
 async function snapshotFilesystemResource(
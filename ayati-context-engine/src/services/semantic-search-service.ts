@@ -0,0 +1,52 @@
+import type { RefreshSemanticIndexResponse } from "../contracts.js";
+import type { ContextDatabase } from "../database/database.js";
+import type { ContextEngineObserver } from "../observability.js";
+import {
+  countPendingSemanticDocuments,
+  refreshSemanticVectors,
+  type SemanticQuery,
+} from "../search/semantic-index.js";
+import type { TextEmbedder } from "../search/text-embedder.js";
+
+/**
+ * Embeds search queries with the configured embedder and, from the background refresh, the
+ * semantic documents still waiting for a vector. Search embeds only the query, so documents
+ * written since the last refresh are found through FTS until they are embedded. Embedding
+ * failures degrade search to its FTS results instead of failing the request.
+ */
+export class SemanticSearchService {
+  constructor(
+    private readonly database: ContextDatabase,
+    private readonly embedder: TextEmbedder,
+    private readonly observer: ContextEngineObserver,
+  ) {}
+
+  async query(text: string | undefined): Promise<SemanticQuery | undefined> {
+    const trimmed = text?.trim() ?? "";
+    if (!trimmed) return undefined;
+    try {
+      const [vector] = await this.embedder.embed([trimmed]);
+      return vector
+        ? { embedderId: this.embedder.id, vector, minScore: this.embedder.minScore }
+        : undefined;
+    } catch (error) {
+      this.observer.emit({
+        level: "warn",
+        event: "semantic_search_degraded",
+        outcome: "failed",
+        message: error instanceof Error ? error.message : String(error),
+        data: { embedderId: this.embedder.id },
+      });
+      return undefined;
+    }
+  }
+
+  async refresh(limit?: number): Promise<RefreshSemanticIndexResponse> {
+    const embedded = await refreshSemanticVectors(this.database, this.embedder, limit);
+    return {
+      embedderId: this.embedder.id,
+      embedded,
+      pending: countPendingSemanticDocuments(this.database, this.embedder.id),
+    };
+  }
+}
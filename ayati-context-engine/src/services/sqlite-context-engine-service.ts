@@ -1,6 +1,7 @@
 import { join } from "node:path";
 import {
   type ActivateWorkstreamForRunRequest,
+  type ArchiveWorkstreamRequest,
   type AgentContextProjection,
   type BindResourcesForRunRequest,
   type BindResourcesForRunResponse,
@@ -11,6 +12,8 @@ import {
   type ContextCheckpointPlan,
   type ContextCheckpointRecord,
   type CreateWorkstreamForRunRequest,
+  type ExportWorkstreamRequest,
+  type ExportWorkstreamResponse,
   type FinalizeRunRequest,
   type FinalizeRunResponse,
   type FindResourcesRequest,
@@ -20,11 +23,14 @@ import {
   type GetAgentContextRequest,
   type GetWorkstreamRequest,
   type GetWorkstreamResponse,
+  type ImportWorkstreamRequest,
+  type ImportWorkstreamResponse,
   type ContextEngineHealth,
   type InspectResourceForRunRequest,
   type InspectResourceForRunResponse,
   type ListWorkstreamsRequest,
   type ListWorkstreamsResponse,
+  type MergeWorkstreamsRequest,
   type PlanContextCheckpointRequest,
   type PlanWorkstreamRequestRouteRequest,
   type PlanWorkstreamRequestRouteResponse,
@@ -46,13 +52,22 @@ import {
   type ReadWorkstreamRepositoryLogResponse,
   type RecordRunStepRequest,
   type RecordRunStepResponse,
+  type RefreshSemanticIndexRequest,
+  type RefreshSemanticIndexResponse,
+  type RenameWorkstreamRequest,
   type SearchAgentHistoryRequest,
   type SearchAgentHistoryResponse,
   type SelectedWorkstreamForRunResponse,
+  type SetWorkstreamStarByUserRequest,
   type SetWorkstreamStarRequest,
   type SetWorkstreamStarResponse,
+  type SplitWorkstreamRequest,
+  type SweepResourceAvailabilityRequest,
+  type SweepResourceAvailabilityResponse,
   type VerifyResourceMutationRequest,
   type VerifyResourceMutationResponse,
+  type WorkstreamContextProjection,
+  type WorkstreamLifecycleOperationResponse,
 } from "../contracts.js";
 import type { ContextDatabase } from "../database/database.js";
 import {
@@ -71,12 +86,15 @@ import {
   readAgentStream,
 } from "../repositories/agent-stream-records.js";
 import { readStreamMessage } from "../repositories/message-records.js";
+import { readWorkstreamResourceChanges } from "../repositories/resource-availability-records.js";
 import {
   readRun,
   readRunEvidence,
 } from "../repositories/run-records.js";
+import { backfillSemanticDocuments } from "../repositories/semantic-document-records.js";
 import { readRecentRequestProgress } from "../repositories/workstream-progress-records.js";
 import { refreshWorkstreamDiscoveryProjection } from "../repositories/workstream-discovery-records.js";
+import { createHashedNgramEmbedder, type TextEmbedder } from "../search/text-embedder.js";
 import type { ContextEngineService } from "../service.js";
 import { SerializedWriteQueue } from "../write-queue.js";
 import { AgentContextProjectionService } from "./agent-context-projection-service.js";
@@ -86,17 +104,21 @@ import {
   completePreparedAgentRunReceipt,
   requirePreparedAgentRunReceipt,
 } from "./prepared-agent-run-receipt.js";
+import { ResourceAvailabilitySweepService } from "./resource-availability-sweep-service.js";
 import { ResourceCatalogService } from "./resource-catalog-service.js";
 import { ResourceMutationService } from "./resource-mutation-service.js";
 import { RunFinalizationService } from "./run-finalization-service.js";
 import { RunLifecycleService } from "./run-lifecycle-service.js";
+import { SemanticSearchService } from "./semantic-search-service.js";
 import { StartupRunRecoveryService } from "./startup-run-recovery-service.js";
 import { TurnPreparationService } from "./turn-preparation-service.js";
 import { UnboundRunFinalizationService } from "./unbound-run-finalization-service.js";
 import { WorkstreamBindingService } from "./workstream-binding-service.js";
 import { WorkstreamBoundFinalizationService } from "./workstream-bound-finalization-service.js";
+import { WorkstreamBundleService } from "./workstream-bundle-service.js";
 import { WorkstreamDiscoveryService } from "./workstream-discovery-service.js";
 import { WorkstreamLifecycleService } from "./workstream-lifecycle-service.js";
+import { WorkstreamLifecycleOperationService } from "./workstream-lifecycle-operation-service.js";
 import { WorkstreamRequestRoutingService } from "./workstream-request-routing-service.js";
 import { WorkstreamRepositoryInspectionService } from "./workstream-repository-inspection-service.js";
 
@@ -105,6 +127,8 @@ export interface SqliteContextEngineServiceOptions {
   rootDirectory: string;
   now?: () => string;
   observer?: ContextEngineObserver;
+  /** Embeds history and workstream text for hybrid search; defaults to offline hashed n-grams. */
+  embedder?: TextEmbedder;
 }
 
 export class SqliteContextEngineService implements ContextEngineService {
@@ -120,12 +144,16 @@ export class SqliteContextEngineService implements ContextEngineService {
   private readonly workstreamBinding: WorkstreamBindingService;
   private readonly resourceCatalog: ResourceCatalogService;
   private readonly resourceMutations: ResourceMutationService;
+  private readonly resourceAvailability: ResourceAvailabilitySweepService;
   private readonly runFinalization: RunFinalizationService;
   private readonly startupRunRecovery: StartupRunRecoveryService;
   private readonly agentContext: AgentContextProjectionService;
   private readonly checkpoints: ContextCheckpointService;
   private readonly history: AgentHistoryService;
+  private readonly semanticSearch: SemanticSearchService;
   private readonly workstreamRepositoryInspection: WorkstreamRepositoryInspectionService;
+  private readonly workstreamBundles: WorkstreamBundleService;
+  private readonly workstreamLifecycleOperations: WorkstreamLifecycleOperationService;
   private closed = false;
   private startupRecovered = false;
 
@@ -141,6 +169,7 @@ export class SqliteContextEngineService implements ContextEngineService {
       rootDirectory: options.rootDirectory,
     });
     this.resourceMutations = new ResourceMutationService(this.database);
+    this.resourceAvailability = new ResourceAvailabilitySweepService(this.database);
     this.workstreamDiscovery = new WorkstreamDiscoveryService(this.database, this.now);
     this.workstreamLifecycle = new WorkstreamLifecycleService({
       database: this.database,
@@ -217,6 +246,7 @@ export class SqliteContextEngineService implements ContextEngineService {
           ...context,
           recentProgress,
           resources: this.resourceCatalog.readWorkstreamBindings(binding.workstreamId),
+          ...this.resourceChanges(binding.workstreamId),
         };
       },
       loadFocusedWorkstream: async (stream) => {
@@ -237,6 +267,7 @@ export class SqliteContextEngineService implements ContextEngineService {
           return {
             ...context,
             resources: this.resourceCatalog.readWorkstreamBindings(stream.focusedWorkstreamId),
+            ...this.resourceChanges(stream.focusedWorkstreamId),
           };
         } catch (error) {
           if (error instanceof ContextEngineServiceError
@@ -254,10 +285,23 @@ export class SqliteContextEngineService implements ContextEngineService {
     });
     this.checkpoints = new ContextCheckpointService(this.database);
     this.history = new AgentHistoryService(this.database);
+    this.semanticSearch = new SemanticSearchService(
+      this.database,
+      options.embedder ?? createHashedNgramEmbedder(),
+      this.observer,
+    );
     this.workstreamRepositoryInspection = new WorkstreamRepositoryInspectionService({
       database: this.database,
       workstreamRoot,
     });
+    this.workstreamBundles = new WorkstreamBundleService({
+      database: this.database,
+      rootDirectory: options.rootDirectory,
+    });
+    this.workstreamLifecycleOperations = new WorkstreamLifecycleOperationService({
+      database: this.database,
+      workstreamRoot,
+    });
   }
 
   async getHealth(): Promise<ContextEngineHealth> {
@@ -417,7 +461,7 @@ export class SqliteContextEngineService implements ContextEngineService {
   async searchAgentHistory(input: SearchAgentHistoryRequest): Promise<SearchAgentHistoryResponse> {
     return await this.queue.enqueue(async () => {
       await this.ensureStartupRecovery();
-      return this.history.search(input);
+      return this.history.search(input, await this.semanticSearch.query(input.query));
     });
   }
 
@@ -470,14 +514,17 @@ export class SqliteContextEngineService implements ContextEngineService {
   async listWorkstreams(input: ListWorkstreamsRequest): Promise<ListWorkstreamsResponse> {
     return await this.queue.enqueue(async () => {
       await this.ensureStartupRecovery();
-      return this.workstreamDiscovery.find(input);
+      return this.workstreamDiscovery.find(input, await this.semanticSearch.query(input.query));
     });
   }
 
   async findWorkstreams(input: FindWorkstreamsRequest): Promise<FindWorkstreamsResponse> {
     return await this.queue.enqueue(async () => {
       await this.ensureStartupRecovery();
-      return this.workstreamDiscovery.find(input);
+      return this.workstreamDiscovery.find(
+        input,
+        await this.semanticSearch.query(input.query ?? input.currentText),
+      );
     });
   }
 
@@ -488,7 +535,9 @@ export class SqliteContextEngineService implements ContextEngineService {
       const resources = this.resourceCatalog.readWorkstreamBindings(input.workstreamId);
       return {
         ...result,
-        ...(result.context ? { context: { ...result.context, resources } } : {}),
+        ...(result.context
+          ? { context: { ...result.context, resources, ...this.resourceChanges(input.workstreamId) } }
+          : {}),
       };
     });
   }
@@ -573,6 +622,57 @@ export class SqliteContextEngineService implements ContextEngineService {
     });
   }
 
+  async setWorkstreamStarByUser(
+    input: SetWorkstreamStarByUserRequest,
+  ): Promise<SetWorkstreamStarResponse> {
+    return await this.queue.enqueue(async () => {
+      await this.ensureStartupRecovery();
+      return this.workstreamDiscovery.setStarByUser(input);
+    });
+  }
+
+  async exportWorkstream(input: ExportWorkstreamRequest): Promise<ExportWorkstreamResponse> {
+    return await this.queue.enqueue(async () => {
+      await this.ensureStartupRecovery();
+      return await this.workstreamBundles.export(input);
+    });
+  }
+
+  async importWorkstream(input: ImportWorkstreamRequest): Promise<ImportWorkstreamResponse> {
+    return await this.queue.enqueue(async () => {
+      await this.ensureStartupRecovery();
+      return await this.workstreamBundles.import(input);
+    });
+  }
+
+  async archiveWorkstream(input: ArchiveWorkstreamRequest): Promise<WorkstreamLifecycleOperationResponse> {
+    return await this.queue.enqueue(async () => {
+      await this.ensureStartupRecovery();
+      return await this.workstreamLifecycleOperations.archive(input);
+    });
+  }
+
+  async renameWorkstream(input: RenameWorkstreamRequest): Promise<WorkstreamLifecycleOperationResponse> {
+    return await this.queue.enqueue(async () => {
+      await this.ensureStartupRecovery();
+      return await this.workstreamLifecycleOperations.rename(input);
+    });
+  }
+
+  async mergeWorkstreams(input: MergeWorkstreamsRequest): Promise<WorkstreamLifecycleOperationResponse> {
+    return await this.queue.enqueue(async () => {
+      await this.ensureStartupRecovery();
+      return await this.workstreamLifecycleOperations.merge(input);
+    });
+  }
+
+  async splitWorkstream(input: SplitWorkstreamRequest): Promise<WorkstreamLifecycleOperationResponse> {
+    return await this.queue.enqueue(async () => {
+      await this.ensureStartupRecovery();
+      return await this.workstreamLifecycleOperations.split(input);
+    });
+  }
+
   async findResources(input: FindResourcesRequest): Promise<FindResourcesResponse> {
     return await this.queue.enqueue(async () => {
       await this.ensureStartupRecovery();
@@ -580,6 +680,24 @@ export class SqliteContextEngineService implements ContextEngineService {
     });
   }
 
+  async sweepResourceAvailability(
+    input: SweepResourceAvailabilityRequest,
+  ): Promise<SweepResourceAvailabilityResponse> {
+    return await this.queue.enqueue(async () => {
+      await this.ensureStartupRecovery();
+      return await this.resourceAvailability.sweep(input);
+    });
+  }
+
+  /**
+   * Embedding waits on the embedder, so only startup recovery runs in the queue; vectors are
+   * written only while a document still has the text that was embedded.
+   */
+  async refreshSemanticIndex(input: RefreshSemanticIndexRequest): Promise<RefreshSemanticIndexResponse> {
+    await this.queue.enqueue(async () => await this.ensureStartupRecovery());
+    return await this.semanticSearch.refresh(input.limit);
+  }
+
   async inspectResourceForRun(
     input: InspectResourceForRunRequest,
   ): Promise<InspectResourceForRunResponse> {
@@ -816,7 +934,10 @@ export class SqliteContextEngineService implements ContextEngineService {
     await this.workstreamLifecycle.recoverInitializingState();
     this.resourceMutations.recoverInterrupted(this.now());
     await this.runFinalization.recover(this.now());
+    await this.workstreamLifecycleOperations.recover(this.now());
     const recovered = this.startupRunRecovery.recover(this.now());
+    const now = this.now();
+    this.database.transaction(() => backfillSemanticDocuments(this.database, { at: now }));
     this.startupRecovered = true;
     this.observer.emit({
       level: "info",
@@ -841,6 +962,11 @@ export class SqliteContextEngineService implements ContextEngineService {
     return run;
   }
 
+  private resourceChanges(workstreamId: string): Pick<WorkstreamContextProjection, "resourceChanges"> {
+    const resourceChanges = readWorkstreamResourceChanges(this.database, workstreamId);
+    return resourceChanges.length > 0 ? { resourceChanges } : {};
+  }
+
   private requireRun(runId: string): void {
     if (!readRunEvidence(this.database, runId)) {
       throw new ContextEngineServiceError({
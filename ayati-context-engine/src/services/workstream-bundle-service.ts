@@ -0,0 +1,669 @@
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+  type KeyObject,
+} from "node:crypto";
+import { lstat, mkdir, mkdtemp, readFile, realpath, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import type {
+  ExportWorkstreamRequest,
+  ExportWorkstreamResponse,
+  ImportWorkstreamRequest,
+  ImportWorkstreamResponse,
+  ResourcePublicLocator,
+} from "../contracts.js";
+import type { ContextDatabase } from "../database/database.js";
+import { ContextEngineServiceError } from "../errors.js";
+import { gitCommitEnvironment, runGit, runGitRaw } from "../git/git-process.js";
+import {
+  readResource,
+  readResourceByLocator,
+  resourceIdForLocator,
+  resourceLocatorKey,
+} from "../repositories/resource-records.js";
+import { readWorkstreamCatalogEntry } from "../repositories/workstream-records.js";
+import { updateSharedWorkstreamRepositoryState } from "../repositories/workstream-repository-state-records.js";
+import {
+  requireWorkstreamId,
+  WORKSTREAM_RESOURCES_PATH,
+  workstreamDirectoryName,
+} from "../workstreams/workstream-repository-layout.js";
+import { validateWorkstreamRepository } from "../workstreams/workstream-repository-validator.js";
+import {
+  parseWorkstreamResourceManifest,
+  renderWorkstreamResourceManifest,
+  WORKSTREAM_RESOURCE_MANIFEST_SCHEMA,
+  type WorkstreamResourceManifestEntry,
+} from "../workstreams/workstream-resource-manifest.js";
+import { ensureSharedWorkstreamRepository } from "../workstreams/shared-workstream-repository.js";
+import {
+  insertWorkstreamCatalogRepository,
+  readWorkstreamCatalogRepository,
+} from "./workstream-catalog-rebuild-service.js";
+
+export const WORKSTREAM_BUNDLE_SCHEMA = "ayati.workstream-bundle/v1";
+
+const MAX_BUNDLE_BYTES = 64 * 1024 * 1024;
+const SIGNING_KEY_FILE = "workstream-signing-key.pem";
+const DIRECTORY_PATTERN = /^W-\d{8}-\d{4}-[a-z0-9][a-z0-9-]*$/;
+/** Identities that are local to one installation and are remapped when history is imported. */
+const IDENTITY_TOKEN_PATTERN = /\b(?:W-\d{8}-\d{4}|RES-[0-9A-F]{24}|RUN-[0-9A-F]{8}-\d{10})\b/g;
+
+/** Filesystem locators inside the exporting Ayati root travel relative to that root. */
+type WorkstreamBundleLocator =
+  | ResourcePublicLocator
+  | { kind: "ayati_root"; path: string };
+
+type WorkstreamBundleResource = Omit<WorkstreamResourceManifestEntry, "locator" | "formerLocators"> & {
+  locator: WorkstreamBundleLocator;
+};
+
+interface WorkstreamBundlePayload {
+  workstreamId: string;
+  directory: string;
+  title: string;
+  exportedAt: string;
+  commits: number;
+  resources: WorkstreamBundleResource[];
+  /** Base64 `git bundle` whose linear history touches only `directory`. */
+  git: string;
+}
+
+interface WorkstreamBundleFile {
+  schema: typeof WORKSTREAM_BUNDLE_SCHEMA;
+  payload: WorkstreamBundlePayload;
+  signature: { algorithm: "ed25519"; publicKey: string; value: string };
+}
+
+interface SourceCommit {
+  message: string;
+  env: NodeJS.ProcessEnv;
+}
+
+/**
+ * Moves one workstream between installations. Export replays the commits that touched its
+ * `W-*` directory into a standalone Git bundle and signs it with this installation's key;
+ * import replays that history onto the shared repository, remapping identities that would
+ * collide locally, then catalogs the result the same way a catalog rebuild would.
+ */
+export class WorkstreamBundleService {
+  private readonly database: ContextDatabase;
+  private readonly rootDirectory: string;
+  private readonly workstreamRoot: string;
+
+  constructor(options: { database: ContextDatabase; rootDirectory: string }) {
+    this.database = options.database;
+    this.rootDirectory = resolve(options.rootDirectory);
+    this.workstreamRoot = join(this.rootDirectory, "workstreams");
+  }
+
+  async export(input: ExportWorkstreamRequest): Promise<ExportWorkstreamResponse> {
+    const workstream = readWorkstreamCatalogEntry(this.database, requireWorkstreamId(input.workstreamId));
+    if (!workstream) {
+      throw new ContextEngineServiceError({
+        code: "WORKSTREAM_NOT_FOUND",
+        message: "Workstream is not in the catalog.",
+        details: { workstreamId: input.workstreamId },
+      });
+    }
+    const bundlePath = resolve(input.outputPath);
+    if (await exists(bundlePath)) {
+      throw invalid("Refusing to overwrite an existing file.", { bundlePath });
+    }
+    const validation = await validateWorkstreamRepository({
+      workstreamRoot: this.workstreamRoot,
+      contextRepositoryPath: workstream.contextRepositoryPath,
+      expectedWorkstreamId: workstream.workstreamId,
+      requestReadMode: "all",
+    });
+    const repositoryPath = validation.repositoryPath;
+    const directory = basename(validation.contextRepositoryPath);
+    const commits = lines(await runGit([
+      "log",
+      "--reverse",
+      "--format=%H",
+      validation.repositoryHead,
+      "--",
+      directory,
+    ], { cwd: repositoryPath }));
+
+    const scratch = await mkdtemp(join(tmpdir(), "ayati-workstream-export-"));
+    let git: Buffer;
+    let replayed = 0;
+    try {
+      await runGit(["init", "--quiet", "--initial-branch=main"], { cwd: scratch });
+      // Borrow the shared repository's objects instead of copying every workstream's history.
+      const objects = resolve(repositoryPath, await runGit(["rev-parse", "--git-path", "objects"], {
+        cwd: repositoryPath,
+      }));
+      await writeFile(join(scratch, ".git", "objects", "info", "alternates"), objects + "\n", "utf8");
+      const env = { GIT_INDEX_FILE: join(scratch, "export.index") };
+      let parent: string | undefined;
+      for (const commit of commits) {
+        const subtree = await runGit(["rev-parse", "--verify", "--quiet", commit + ":" + directory], {
+          cwd: repositoryPath,
+        }).catch(() => "");
+        if (!subtree) continue;
+        await runGit(["read-tree", "--empty"], { cwd: scratch, env });
+        await runGit(["read-tree", "--prefix=" + directory + "/", subtree], { cwd: scratch, env });
+        const tree = await runGit(["write-tree"], { cwd: scratch, env });
+        parent = await commitTree(scratch, tree, parent, await readSourceCommit(repositoryPath, commit));
+        replayed += 1;
+      }
+      if (!parent) {
+        throw invalid("Workstream directory has no committed history to export.", { directory });
+      }
+      await runGit(["update-ref", "refs/heads/main", parent], { cwd: scratch });
+      await runGit(["bundle", "create", "--quiet", join(scratch, "workstream.bundle"), "main"], {
+        cwd: scratch,
+      });
+      git = await readFile(join(scratch, "workstream.bundle"));
+    } finally {
+      await rm(scratch, { recursive: true, force: true });
+    }
+
+    const roots = await rootAliases(this.rootDirectory);
+    const portable = validation.resourceManifest.resources.map((entry) => portableResource(entry, roots));
+    const resources = portable.map((item) => item.resource);
+    const payload: WorkstreamBundlePayload = {
+      workstreamId: validation.workstreamId,
+      directory,
+      title: validation.workstreamCard.title,
+      exportedAt: input.at,
+      commits: replayed,
+      resources,
+      git: git.toString("base64"),
+    };
+    const key = await this.loadSigningKey();
+    const publicKey = createPublicKey(key).export({ type: "spki", format: "der" });
+    const file: WorkstreamBundleFile = {
+      schema: WORKSTREAM_BUNDLE_SCHEMA,
+      payload,
+      signature: {
+        algorithm: "ed25519",
+        publicKey: publicKey.toString("base64"),
+        value: sign(null, Buffer.from(JSON.stringify(payload), "utf8"), key).toString("base64"),
+      },
+    };
+    await mkdir(dirname(bundlePath), { recursive: true });
+    await writeFile(bundlePath, JSON.stringify(file) + "\n", { encoding: "utf8", flag: "wx" });
+    const unavailable = portable.filter((item) => !item.portable).length;
+    return {
+      workstreamId: validation.workstreamId,
+      title: payload.title,
+      bundlePath,
+      commits: replayed,
+      resources: {
+        total: resources.length,
+        portable: resources.length - unavailable,
+        unavailable,
+      },
+      signer: fingerprint(publicKey),
+    };
+  }
+
+  async import(input: ImportWorkstreamRequest): Promise<ImportWorkstreamResponse> {
+    const bundlePath = resolve(input.bundlePath);
+    const stat = await lstat(bundlePath).catch(() => undefined);
+    if (!stat?.isFile()) throw invalid("Workstream bundle file does not exist.", { bundlePath });
+    if (stat.size > MAX_BUNDLE_BYTES) {
+      throw invalid("Workstream bundle exceeds its size limit.", { bundlePath, sizeBytes: stat.size });
+    }
+    const { payload, signer } = readBundle(await readFile(bundlePath, "utf8"));
+    // The verifying key travels inside the bundle, so a valid signature alone proves nothing.
+    const trusted = input.trustedSigners?.includes(signer) ?? false;
+    if (!trusted && !input.allowUntrusted) {
+      throw invalid("Workstream bundle is not signed by a trusted key.", { signer });
+    }
+
+    const state = await ensureSharedWorkstreamRepository({
+      database: this.database,
+      workstreamRoot: this.workstreamRoot,
+      at: input.at,
+    });
+    const repositoryPath = state.repositoryPath;
+    const baseHead = await runGit(["rev-parse", "HEAD"], { cwd: repositoryPath });
+    const status = await runGit(["status", "--porcelain", "--untracked-files=all"], {
+      cwd: repositoryPath,
+    });
+    if (baseHead !== state.head || state.health !== "ready" || status) {
+      throw new ContextEngineServiceError({
+        code: "WORKSTREAM_REPOSITORY_DIRTY",
+        message: "Import requires a clean shared workstream repository that matches the catalog.",
+        details: { repositoryPath, head: baseHead, catalogHead: state.head, health: state.health },
+      });
+    }
+    const trackedDirectories = lines(await runGit(["ls-tree", "--name-only", baseHead], {
+      cwd: repositoryPath,
+    }));
+    const workstreamId = this.importIdentity(payload.workstreamId, trackedDirectories, input.at);
+    const directory = workstreamId === payload.workstreamId
+      ? payload.directory
+      : workstreamDirectoryName(workstreamId, payload.title);
+    const reconciled = await this.reconcileResources(payload.resources);
+    const tokens = new Map<string, string>([[payload.workstreamId, workstreamId], ...reconciled.tokens]);
+    const rewrite = (text: string): string => text.replace(IDENTITY_TOKEN_PATTERN, (token) =>
+      tokens.get(token) ?? (token.startsWith("RUN-") ? importedRunId(token, workstreamId) : token));
+
+    const scratch = await mkdtemp(join(tmpdir(), "ayati-workstream-import-"));
+    let head = baseHead;
+    let commits = 0;
+    try {
+      const bundleFile = join(scratch, "workstream.bundle");
+      await writeFile(bundleFile, Buffer.from(payload.git, "base64"));
+      await runGit(["fetch", "--quiet", "--no-tags", bundleFile, "main"], { cwd: repositoryPath });
+      const fetched = await runGit(["rev-parse", "FETCH_HEAD"], { cwd: repositoryPath });
+      const history = lines(await runGit(["rev-list", "--reverse", "--parents", fetched], {
+        cwd: repositoryPath,
+      })).map((line) => line.split(" "));
+      const env = { GIT_INDEX_FILE: join(scratch, "import.index") };
+      for (const [commit = "", ...parents] of history) {
+        const names = lines(await runGit(["ls-tree", "--name-only", commit], { cwd: repositoryPath }));
+        if (parents.length > 1 || names.length !== 1 || names[0] !== payload.directory) {
+          throw invalid("Workstream bundle history must be linear and touch only its workstream.", {
+            commit,
+          });
+        }
+        await runGit(["read-tree", head], { cwd: repositoryPath, env });
+        await runGit(["rm", "-r", "--cached", "--quiet", "--ignore-unmatch", "--", directory], {
+          cwd: repositoryPath,
+          env,
+        });
+        const entries = await this.rewrittenEntries(repositoryPath, commit + ":" + payload.directory, scratch, rewrite);
+        await runGit([
+          "update-index",
+          "--add",
+          ...entries.flatMap((entry) => ["--cacheinfo", `${entry.mode},${entry.sha},${directory}/${entry.path}`]),
+        ], { cwd: repositoryPath, env });
+        const tree = await runGit(["write-tree"], { cwd: repositoryPath, env });
+        const source = await readSourceCommit(repositoryPath, commit);
+        head = await commitTree(repositoryPath, tree, head, { ...source, message: rewrite(source.message) });
+        commits += 1;
+      }
+      if (commits === 0) throw invalid("Workstream bundle contains no history.");
+
+      const manifestPath = directory + "/" + WORKSTREAM_RESOURCES_PATH;
+      const committed = parseWorkstreamResourceManifest(
+        await runGitRaw(["show", head + ":" + manifestPath], { cwd: repositoryPath }),
+        workstreamId,
+      );
+      const manifest = renderWorkstreamResourceManifest({
+        schema: WORKSTREAM_RESOURCE_MANIFEST_SCHEMA,
+        workstreamId,
+        updatedAt: input.at,
+        resources: reconciled.entries,
+      });
+      if (manifest !== renderWorkstreamResourceManifest({ ...committed, updatedAt: input.at })) {
+        await writeFile(join(scratch, "resources.json"), manifest, "utf8");
+        const blob = await runGit(["hash-object", "-w", join(scratch, "resources.json")], {
+          cwd: repositoryPath,
+        });
+        await runGit(["read-tree", head], { cwd: repositoryPath, env });
+        await runGit(["update-index", "--cacheinfo", `100644,${blob},${manifestPath}`], {
+          cwd: repositoryPath,
+          env,
+        });
+        const tree = await runGit(["write-tree"], { cwd: repositoryPath, env });
+        head = await commitTree(repositoryPath, tree, head, {
+          message: [
+            "import workstream " + workstreamId + " resources",
+            "",
+            "Source-Workstream: " + payload.workstreamId,
+            "Signer: " + signer,
+          ].join("\n"),
+          env: gitCommitEnvironment(input.at),
+        });
+      }
+      await this.validateImportedHead(repositoryPath, head, directory, scratch, input.at);
+      await runGit(["merge", "--ff-only", "--quiet", head], { cwd: repositoryPath });
+    } catch (error) {
+      await runGit(["reset", "--hard", "--quiet", baseHead], { cwd: repositoryPath });
+      throw error;
+    } finally {
+      await rm(scratch, { recursive: true, force: true });
+    }
+
+    try {
+      const repository = await readWorkstreamCatalogRepository({
+        workstreamRoot: repositoryPath,
+        contextRepositoryPath: join(repositoryPath, directory),
+        now: input.at,
+      });
+      this.database.transaction(() => {
+        insertWorkstreamCatalogRepository(this.database, repository);
+        updateSharedWorkstreamRepositoryState(this.database, {
+          expectedHead: baseHead,
+          head: repository.repositoryHead,
+          health: "ready",
+          at: input.at,
+        });
+      });
+      return {
+        workstreamId,
+        sourceWorkstreamId: payload.workstreamId,
+        renamed: workstreamId !== payload.workstreamId,
+        title: repository.title,
+        contextRepositoryPath: repository.contextRepositoryPath,
+        head: repository.head,
+        commits,
+        resources: reconciled.receipts,
+        signer,
+        trusted,
+      };
+    } catch (error) {
+      await runGit(["reset", "--hard", "--quiet", baseHead], { cwd: repositoryPath });
+      throw error;
+    }
+  }
+
+  /**
+   * Validates the rewritten history in a scratch clone sharing the repository's objects, so the
+   * shared `main` only moves once the imported directory is known to be a valid workstream.
+   */
+  private async validateImportedHead(
+    repositoryPath: string,
+    head: string,
+    directory: string,
+    scratch: string,
+    at: string,
+  ): Promise<void> {
+    const clone = join(scratch, "validate");
+    await runGit(["clone", "--quiet", "--shared", "--no-checkout", repositoryPath, clone], { cwd: scratch });
+    await runGit(["checkout", "--quiet", "-B", "main", head], { cwd: clone });
+    const repository = await readWorkstreamCatalogRepository({
+      workstreamRoot: clone,
+      contextRepositoryPath: join(clone, directory),
+      now: at,
+    });
+    const usedRun = repository.progress.find((entry) =>
+      this.database.prepare("SELECT 1 FROM workstream_progress WHERE run_id = ?").get(entry.runId));
+    if (usedRun) {
+      throw invalid("Imported progress reuses a local run identity.", { runId: usedRun.runId });
+    }
+  }
+
+  /** Keeps the exported identity unless this installation already uses it. */
+  private importIdentity(sourceId: string, trackedDirectories: string[], at: string): string {
+    const taken = (workstreamId: string): boolean =>
+      Boolean(this.database.prepare("SELECT 1 FROM workstreams WHERE workstream_id = ?").get(workstreamId))
+      || trackedDirectories.some((name) => name.startsWith(workstreamId + "-"));
+    if (!taken(sourceId)) return sourceId;
+    const prefix = "W-" + at.slice(0, 10).replaceAll("-", "") + "-";
+    const row = this.database.prepare([
+      "SELECT COALESCE(MAX(CAST(substr(workstream_id, 12) AS INTEGER)), 0) + 1 AS next",
+      "FROM workstreams WHERE workstream_id LIKE ?",
+    ].join(" ")).get(prefix + "%") as { next: number };
+    for (let next = Number(row.next); next <= 9_999; next += 1) {
+      const workstreamId = prefix + String(next).padStart(4, "0");
+      if (!taken(workstreamId)) return workstreamId;
+    }
+    throw invalid("No workstream identity is available for the import today.");
+  }
+
+  /**
+   * Points each bundled resource at this installation: root-relative paths are re-rooted, and a
+   * locator the catalog already knows keeps its local identity. Nothing is verified here, so
+   * resources that exist locally are `unverified` until a run observes them.
+   */
+  private async reconcileResources(resources: WorkstreamBundleResource[]): Promise<{
+    entries: WorkstreamResourceManifestEntry[];
+    tokens: Map<string, string>;
+    receipts: ImportWorkstreamResponse["resources"];
+  }> {
+    const entries: WorkstreamResourceManifestEntry[] = [];
+    const tokens = new Map<string, string>();
+    const receipts: ImportWorkstreamResponse["resources"] = [];
+    for (const resource of resources) {
+      const locator: ResourcePublicLocator = resource.locator.kind === "ayati_root"
+        ? { kind: "filesystem", path: join(this.rootDirectory, ...rootRelativeSegments(resource.locator.path)) }
+        : resource.locator;
+      const existing = readResourceByLocator(this.database, locator);
+      if (existing && existing.kind !== resource.kind) {
+        throw conflict("A bundled resource locator is registered here with a different kind.", {
+          resourceId: existing.resourceId,
+        });
+      }
+      const resourceId = existing?.resourceId ?? (locator.kind === "managed_blob"
+        ? locator.resourceId
+        : resourceIdForLocator(resourceLocatorKey(locator)));
+      if (!existing && readResource(this.database, resourceId)) {
+        throw conflict("A bundled resource identity is registered here with a different locator.", {
+          resourceId,
+        });
+      }
+      const availability = existing
+        ? existing.availability
+        : locator.kind === "filesystem"
+          ? await exists(locator.path) ? "unverified" : "missing"
+          : locator.kind === "managed_blob" ? "missing" : resource.availability;
+      entries.push({ ...resource, resourceId, locator, availability });
+      tokens.set(resource.resourceId, resourceId);
+      receipts.push({
+        resourceId,
+        sourceResourceId: resource.resourceId,
+        availability,
+        reconciled: existing ? "existing" : "created",
+      });
+    }
+    return { entries, tokens, receipts };
+  }
+
+  private async rewrittenEntries(
+    repositoryPath: string,
+    tree: string,
+    scratch: string,
+    rewrite: (text: string) => string,
+  ): Promise<Array<{ mode: string; sha: string; path: string }>> {
+    const listing = await runGitRaw(["ls-tree", "-r", "-z", tree], { cwd: repositoryPath });
+    const entries: Array<{ mode: string; sha: string; path: string }> = [];
+    for (const record of listing.split("\0").filter(Boolean)) {
+      const [meta = "", path = ""] = record.split("\t");
+      const [mode = "", type = "", sha = ""] = meta.split(" ");
+      if (type !== "blob" || mode === "120000") {
+        throw invalid("Workstream bundle contains a non-file entry.", { path });
+      }
+      const content = await runGitRaw(["cat-file", "blob", sha], { cwd: repositoryPath });
+      const rewritten = rewrite(content);
+      if (rewritten === content) {
+        entries.push({ mode, sha, path });
+        continue;
+      }
+      const temporary = join(scratch, "blob");
+      await writeFile(temporary, rewritten, "utf8");
+      entries.push({
+        mode,
+        sha: await runGit(["hash-object", "-w", temporary], { cwd: repositoryPath }),
+        path,
+      });
+    }
+    return entries;
+  }
+
+  private async loadSigningKey(): Promise<KeyObject> {
+    const path = join(this.rootDirectory, ".ayati", SIGNING_KEY_FILE);
+    const existing = await readFile(path, "utf8").catch((error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    });
+    if (existing) return createPrivateKey(existing);
+    const { privateKey } = generateKeyPairSync("ed25519");
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, privateKey.export({ type: "pkcs8", format: "pem" }), {
+      encoding: "utf8",
+      flag: "wx",
+      mode: 0o600,
+    });
+    return privateKey;
+  }
+}
+
+function readBundle(content: string): { payload: WorkstreamBundlePayload; signer: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw invalid("Workstream bundle is not valid JSON.");
+  }
+  if (!isRecord(parsed)
+    || parsed["schema"] !== WORKSTREAM_BUNDLE_SCHEMA
+    || !isRecord(parsed["payload"])
+    || !isRecord(parsed["signature"])
+    || parsed["signature"]["algorithm"] !== "ed25519"
+    || typeof parsed["signature"]["publicKey"] !== "string"
+    || typeof parsed["signature"]["value"] !== "string") {
+    throw invalid("Workstream bundle has an invalid shape.");
+  }
+  const publicKey = Buffer.from(parsed["signature"]["publicKey"], "base64");
+  let verified = false;
+  try {
+    verified = verify(
+      null,
+      Buffer.from(JSON.stringify(parsed["payload"]), "utf8"),
+      createPublicKey({ key: publicKey, format: "der", type: "spki" }),
+      Buffer.from(parsed["signature"]["value"], "base64"),
+    );
+  } catch {
+    verified = false;
+  }
+  if (!verified) throw invalid("Workstream bundle signature does not match its contents.");
+  const payload = parsed["payload"];
+  if (typeof payload["workstreamId"] !== "string"
+    || typeof payload["directory"] !== "string"
+    || !DIRECTORY_PATTERN.test(payload["directory"])
+    || !payload["directory"].startsWith(payload["workstreamId"] + "-")
+    || typeof payload["title"] !== "string"
+    || typeof payload["git"] !== "string"
+    || !Array.isArray(payload["resources"])
+    || !payload["resources"].every((resource) => isRecord(resource)
+      && typeof resource["resourceId"] === "string"
+      && isRecord(resource["locator"]))) {
+    throw invalid("Workstream bundle payload has an invalid shape.");
+  }
+  requireWorkstreamId(payload["workstreamId"]);
+  return { payload: payload as unknown as WorkstreamBundlePayload, signer: fingerprint(publicKey) };
+}
+
+function portableResource(
+  entry: WorkstreamResourceManifestEntry,
+  roots: string[],
+): { resource: WorkstreamBundleResource; portable: boolean } {
+  const { formerLocators: _formerLocators, ...resource } = entry;
+  if (entry.locator.kind === "filesystem") {
+    const path = entry.locator.path;
+    for (const root of roots) {
+      const relativePath = relative(root, path);
+      if (relativePath && !relativePath.startsWith("..") && !isAbsolute(relativePath)) {
+        return {
+          resource: { ...resource, locator: { kind: "ayati_root", path: relativePath.split(sep).join("/") } },
+          portable: true,
+        };
+      }
+    }
+    return { resource: { ...resource, availability: "missing" }, portable: false };
+  }
+  // Managed blob bytes stay in the exporting installation's store.
+  if (entry.locator.kind === "managed_blob") {
+    return { resource: { ...resource, availability: "missing" }, portable: false };
+  }
+  return { resource, portable: true };
+}
+
+function rootRelativeSegments(path: string): string[] {
+  const segments = path.split("/");
+  if (path.length === 0 || isAbsolute(path) || segments.some((segment) => segment === "" || segment === "." || segment === "..")) {
+    throw invalid("Workstream bundle contains an unsafe root-relative resource path.", { path });
+  }
+  return segments;
+}
+
+/** Keeps the sequence while moving the run into an identity space local streams never produce. */
+function importedRunId(runId: string, workstreamId: string): string {
+  const streamPart = createHash("sha256")
+    .update("import:" + workstreamId + ":" + runId.slice(4, 12))
+    .digest("hex")
+    .slice(0, 8)
+    .toUpperCase();
+  return "RUN-" + streamPart + runId.slice(12);
+}
+
+async function readSourceCommit(repositoryPath: string, commit: string): Promise<SourceCommit> {
+  const raw = await runGitRaw([
+    "show",
+    "-s",
+    "--format=%an%x00%ae%x00%aI%x00%cn%x00%ce%x00%cI%x00%B",
+    commit,
+  ], { cwd: repositoryPath });
+  const [authorName = "", authorEmail = "", authorDate = "", committerName = "", committerEmail = "", committerDate = "", ...message] = raw.split("\0");
+  return {
+    message: message.join("\0").replace(/\n+$/, ""),
+    env: {
+      GIT_AUTHOR_NAME: authorName,
+      GIT_AUTHOR_EMAIL: authorEmail,
+      GIT_AUTHOR_DATE: authorDate,
+      GIT_COMMITTER_NAME: committerName,
+      GIT_COMMITTER_EMAIL: committerEmail,
+      GIT_COMMITTER_DATE: committerDate,
+    },
+  };
+}
+
+async function commitTree(
+  cwd: string,
+  tree: string,
+  parent: string | undefined,
+  commit: SourceCommit,
+): Promise<string> {
+  return await runGit([
+    "commit-tree",
+    "--no-gpg-sign",
+    tree,
+    ...(parent ? ["-p", parent] : []),
+    "-m",
+    commit.message,
+  ], { cwd, env: commit.env });
+}
+
+async function rootAliases(rootDirectory: string): Promise<string[]> {
+  const real = await realpath(rootDirectory).catch(() => rootDirectory);
+  return real === rootDirectory ? [rootDirectory] : [rootDirectory, real];
+}
+
+function fingerprint(publicKey: Buffer): string {
+  return "sha256:" + createHash("sha256").update(publicKey).digest("hex");
+}
+
+async function exists(path: string): Promise<boolean> {
+  return await lstat(path).then(() => true, (error: NodeJS.ErrnoException) => {
+    if (error.code === "ENOENT") return false;
+    throw error;
+  });
+}
+
+function lines(value: string): string[] {
+  return value.split("\n").map((line) => line.trim()).filter(Boolean);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function invalid(message: string, details?: Record<string, unknown>): ContextEngineServiceError {
+  return new ContextEngineServiceError({
+    code: "INVALID_REQUEST",
+    message,
+    ...(details ? { details } : {}),
+  });
+}
+
+function conflict(message: string, details?: Record<string, unknown>): ContextEngineServiceError {
+  return new ContextEngineServiceError({
+    code: "RESOURCE_CONFLICT",
+    message,
+    ...(details ? { details } : {}),
+  });
+}
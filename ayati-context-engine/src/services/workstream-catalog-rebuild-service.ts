@@ -11,6 +11,7 @@ import {
 import {
   resourceLocatorKey,
 } from "../repositories/resource-records.js";
+import { backfillSemanticDocuments } from "../repositories/semantic-document-records.js";
 import {
   writeWorkstreamDiscoveryProjection,
 } from "../repositories/workstream-discovery-records.js";
@@ -63,6 +64,8 @@ export interface WorkstreamCatalogRebuildResult {
   repositories: WorkstreamCatalogRebuildRepository[];
   failures: WorkstreamCatalogRebuildFailure[];
   applied: boolean;
+  /** Semantic documents re-registered for embedding after a confirmed rebuild. */
+  semanticDocuments?: { messages: number; workstreams: number };
 }
 
 export async function rebuildWorkstreamCatalog(input: {
@@ -77,46 +80,11 @@ export async function rebuildWorkstreamCatalog(input: {
   const failures: WorkstreamCatalogRebuildFailure[] = [];
   for (const candidate of candidates) {
     try {
-      const validation = await validateWorkstreamRepository({
+      repositories.push(await readWorkstreamCatalogRepository({
         workstreamRoot: workstreamRoot!,
         contextRepositoryPath: candidate,
-        requestReadMode: "all",
-      });
-      const history = await pathCommitHistory(
-        validation.repositoryPath,
-        basename(candidate),
-        input.now,
-      );
-      validateProgressRequests(
-        validation.progress.entries,
-        validation.requests,
-      );
-      repositories.push({
-        workstreamId: validation.workstreamId,
-        contextRepositoryPath: validation.contextRepositoryPath,
-        repositoryPath: validation.repositoryPath,
-        branch: "main",
-        head: validation.head,
-        repositoryHead: validation.repositoryHead,
-        title: validation.workstreamCard.title,
-        objective: validation.workstreamCard.purpose,
-        aliases: [...validation.workstreamCard.aliases],
-        lifecycleStatus: validation.workstreamCard.status,
-        repositoryHealth: validation.health,
-        currentSnapshot: validation.workstreamCard.currentSnapshot,
-        currentFocus: validation.workstreamCard.currentFocus,
-        importantFindings: [...validation.workstreamCard.importantFindings],
-        blockers: [...validation.workstreamCard.blockers],
-        ...(validation.currentRequest
-          ? { currentRequest: structuredClone(validation.currentRequest) }
-          : {}),
-        requests: validation.requests.map((request) => structuredClone(request)),
-        progress: validation.progress.entries.map((entry) => structuredClone(entry)),
-        createdAt: history.createdAt,
-        updatedAt: history.updatedAt,
-        progressCommits: history.progressCommits,
-        resources: validation.resourceManifest.resources.map((entry) => structuredClone(entry)),
-      });
+        now: input.now,
+      }));
     } catch (error) {
       failures.push({
         contextRepositoryPath: candidate,
@@ -138,17 +106,71 @@ export async function rebuildWorkstreamCatalog(input: {
     };
   }
   if (!input.database) {
-    throw new Error("Catalog rebuild confirmation requires an initialized V12 database.");
+    throw new Error("Catalog rebuild confirmation requires an initialized V17 database.");
   }
   if (failures.length > 0) {
     throw new Error("Catalog rebuild refused because shared-repository validation failed.");
   }
   applyCatalog(input.database, repositories, input.now);
+  const database = input.database;
+  const semanticDocuments = database.transaction(() => backfillSemanticDocuments(database, {
+    at: input.now,
+    reset: true,
+  }));
   return {
     scannedDirectories: candidates.length,
     repositories,
     failures,
     applied: true,
+    semanticDocuments,
+  };
+}
+
+/** Validates one shared-repository workstream directory into the rows its catalog entry needs. */
+export async function readWorkstreamCatalogRepository(input: {
+  workstreamRoot: string;
+  contextRepositoryPath: string;
+  now: string;
+}): Promise<WorkstreamCatalogRebuildRepository> {
+  const validation = await validateWorkstreamRepository({
+    workstreamRoot: input.workstreamRoot,
+    contextRepositoryPath: input.contextRepositoryPath,
+    requestReadMode: "all",
+  });
+  const history = await pathCommitHistory(
+    validation.repositoryPath,
+    basename(validation.contextRepositoryPath),
+    input.now,
+  );
+  validateProgressRequests(
+    validation.progress.entries,
+    validation.requests,
+  );
+  return {
+    workstreamId: validation.workstreamId,
+    contextRepositoryPath: validation.contextRepositoryPath,
+    repositoryPath: validation.repositoryPath,
+    branch: "main",
+    head: validation.head,
+    repositoryHead: validation.repositoryHead,
+    title: validation.workstreamCard.title,
+    objective: validation.workstreamCard.purpose,
+    aliases: [...validation.workstreamCard.aliases],
+    lifecycleStatus: validation.workstreamCard.status,
+    repositoryHealth: validation.health,
+    currentSnapshot: validation.workstreamCard.currentSnapshot,
+    currentFocus: validation.workstreamCard.currentFocus,
+    importantFindings: [...validation.workstreamCard.importantFindings],
+    blockers: [...validation.workstreamCard.blockers],
+    ...(validation.currentRequest
+      ? { currentRequest: structuredClone(validation.currentRequest) }
+      : {}),
+    requests: validation.requests.map((request) => structuredClone(request)),
+    progress: validation.progress.entries.map((entry) => structuredClone(entry)),
+    createdAt: history.createdAt,
+    updatedAt: history.updatedAt,
+    progressCommits: history.progressCommits,
+    resources: validation.resourceManifest.resources.map((entry) => structuredClone(entry)),
   };
 }
 
@@ -192,50 +214,66 @@ function applyCatalog(
         updatedAt: now,
       });
     }
-    for (const workstream of repositories) insertWorkstream(database, workstream);
-    for (const workstream of repositories) {
-      for (const request of workstream.requests) {
-        writeWorkstreamRequestProjection(database, {
-          request,
-          lastActivityAt: request.updatedAt,
-        });
-      }
-      synchronizeCurrentWorkstreamRequest(database, workstream.workstreamId);
-    }
     for (const item of rebuildResources(repositories)) insertResource(database, item);
-    for (const workstream of repositories) insertResourceBindings(database, workstream);
-    for (const workstream of repositories) {
-      for (const entry of workstream.progress) {
-        insertWorkstreamProgressProjection(database, {
-          workstreamId: workstream.workstreamId,
-          entry,
-          commit: commitForProgress(workstream, entry),
-        });
-      }
-      writeWorkstreamDiscoveryProjection(database, {
-        workstreamId: workstream.workstreamId,
-        expectedHead: workstream.head,
-        title: workstream.title,
-        objective: workstream.objective,
-        aliases: workstream.aliases,
-        currentSnapshot: workstream.currentSnapshot,
-        currentFocus: workstream.currentFocus,
-        importantFindings: workstream.importantFindings,
-        lifecycleStatus: workstream.lifecycleStatus,
-        repositoryHealth: workstream.repositoryHealth,
-        ...(workstream.currentRequest ? {
-          currentRequest: {
-            id: workstream.currentRequest.id,
-            title: workstream.currentRequest.title,
-            status: workstream.currentRequest.status,
-            searchText: [
-              workstream.currentRequest.title,
-              workstream.currentRequest.request,
-            ].join("\n"),
-          },
-        } : {}),
-      });
-    }
+    for (const workstream of repositories) insertWorkstreamCatalogRepository(database, workstream);
+  });
+}
+
+/**
+ * Inserts one validated workstream with its requests, bindings, progress, and discovery rows.
+ * Resources already in the catalog keep their existing rows; the rest are inserted first.
+ * Callers run this inside a transaction.
+ */
+export function insertWorkstreamCatalogRepository(
+  database: ContextDatabase,
+  workstream: WorkstreamCatalogRebuildRepository,
+): void {
+  for (const entry of workstream.resources) {
+    if (database.prepare("SELECT 1 FROM resources WHERE resource_id = ?").get(entry.resourceId)) continue;
+    insertResource(database, {
+      entry,
+      createdAt: workstream.createdAt,
+      updatedAt: entry.lastUsedAt ?? workstream.updatedAt,
+    });
+  }
+  insertWorkstream(database, workstream);
+  for (const request of workstream.requests) {
+    writeWorkstreamRequestProjection(database, {
+      request,
+      lastActivityAt: request.updatedAt,
+    });
+  }
+  synchronizeCurrentWorkstreamRequest(database, workstream.workstreamId);
+  insertResourceBindings(database, workstream);
+  for (const entry of workstream.progress) {
+    insertWorkstreamProgressProjection(database, {
+      workstreamId: workstream.workstreamId,
+      entry,
+      commit: commitForProgress(workstream, entry),
+    });
+  }
+  writeWorkstreamDiscoveryProjection(database, {
+    workstreamId: workstream.workstreamId,
+    expectedHead: workstream.head,
+    title: workstream.title,
+    objective: workstream.objective,
+    aliases: workstream.aliases,
+    currentSnapshot: workstream.currentSnapshot,
+    currentFocus: workstream.currentFocus,
+    importantFindings: workstream.importantFindings,
+    lifecycleStatus: workstream.lifecycleStatus,
+    repositoryHealth: workstream.repositoryHealth,
+    ...(workstream.currentRequest ? {
+      currentRequest: {
+        id: workstream.currentRequest.id,
+        title: workstream.currentRequest.title,
+        status: workstream.currentRequest.status,
+        searchText: [
+          workstream.currentRequest.title,
+          workstream.currentRequest.request,
+        ].join("\n"),
+      },
+    } : {}),
   });
 }
 
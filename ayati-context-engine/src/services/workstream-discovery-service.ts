@@ -2,6 +2,7 @@ import { isAbsolute, relative, resolve, sep } from "node:path";
 import type {
   FindWorkstreamsRequest,
   FindWorkstreamsResponse,
+  SetWorkstreamStarByUserRequest,
   SetWorkstreamStarRequest,
   SetWorkstreamStarResponse,
   ResourceRef,
@@ -13,6 +14,7 @@ import type { ContextDatabase } from "../database/database.js";
 import { executeIdempotent } from "../database/idempotency.js";
 import { ContextEngineServiceError } from "../errors.js";
 import { readRunEvidence } from "../repositories/run-records.js";
+import { WORKSTREAM_SEMANTIC_KIND } from "../repositories/semantic-document-records.js";
 import { readWorkstreamCatalogEntry } from "../repositories/workstream-records.js";
 import {
   readWorkstreamResourceDiscoveryIndex,
@@ -30,6 +32,10 @@ import {
   searchWorkstreamRequests,
   type WorkstreamRequestSearchHit,
 } from "../repositories/workstream-request-records.js";
+import {
+  rankSemanticDocuments,
+  type SemanticQuery,
+} from "../search/semantic-index.js";
 
 const DEFAULT_LIMIT = 10;
 const MAX_LIMIT = 50;
@@ -43,7 +49,8 @@ export class WorkstreamDiscoveryService {
     private readonly now: () => string,
   ) {}
 
-  find(input: FindWorkstreamsRequest): FindWorkstreamsResponse {
+  /** A semantic query adds vector-similar workstreams to the broad text matches. */
+  find(input: FindWorkstreamsRequest, semantic?: SemanticQuery): FindWorkstreamsResponse {
     const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
     const now = this.now();
     const cutoff = new Date(Date.parse(now) - 30 * 24 * 60 * 60 * 1_000).toISOString();
@@ -75,6 +82,13 @@ export class WorkstreamDiscoveryService {
         Math.max(limit * 4, 50),
       ),
       ...requestMatches.map((request) => request.workstreamId),
+      ...(semantic && query
+        ? rankSemanticDocuments(this.database, {
+            kind: WORKSTREAM_SEMANTIC_KIND,
+            query: semantic,
+            limit: Math.max(limit * 4, 50),
+          }).map((match) => match.documentId)
+        : []),
     ]);
     const strictFtsIds = new Set([
       ...searchWorkstreamIds(
@@ -201,22 +215,38 @@ export class WorkstreamDiscoveryService {
             details: { runId: input.runId },
           });
         }
-        if (!readWorkstreamCatalogEntry(this.database, input.workstreamId)) {
-          throw new ContextEngineServiceError({
-            code: "WORKSTREAM_NOT_FOUND",
-            message: "Workstream does not exist.",
-            details: { workstreamId: input.workstreamId },
-          });
-        }
-        return setWorkstreamStar({
-          database: this.database,
-          workstreamId: input.workstreamId,
-          starred: input.starred,
-          at: input.at,
-        });
+        return this.applyStar(input);
       },
     });
   }
+
+  /** The star is a user preference, so a client may change it directly without an agent run. */
+  setStarByUser(input: SetWorkstreamStarByUserRequest): SetWorkstreamStarResponse {
+    return executeIdempotent({
+      database: this.database,
+      requestId: input.requestId,
+      operation: "set_workstream_star_by_user",
+      payload: input,
+      now: input.at,
+      execute: () => this.applyStar(input),
+    });
+  }
+
+  private applyStar(input: { workstreamId: string; starred: boolean; at: string }): SetWorkstreamStarResponse {
+    if (!readWorkstreamCatalogEntry(this.database, input.workstreamId)) {
+      throw new ContextEngineServiceError({
+        code: "WORKSTREAM_NOT_FOUND",
+        message: "Workstream does not exist.",
+        details: { workstreamId: input.workstreamId },
+      });
+    }
+    return setWorkstreamStar({
+      database: this.database,
+      workstreamId: input.workstreamId,
+      starred: input.starred,
+      at: input.at,
+    });
+  }
 }
 
 function candidateForRow(input: {
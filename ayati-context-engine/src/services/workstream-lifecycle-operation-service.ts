@@ -0,0 +1,1081 @@
+import { readdir, readFile } from "node:fs/promises";
+import { basename, join } from "node:path";
+import type {
+  ArchiveWorkstreamRequest,
+  MergeWorkstreamsRequest,
+  RenameWorkstreamRequest,
+  SplitWorkstreamRequest,
+  WorkstreamLifecycleOperationKind,
+  WorkstreamLifecycleOperationResponse,
+} from "../contracts.js";
+import type { ContextDatabase } from "../database/database.js";
+import {
+  beginRecoverableIdempotent,
+  completeRecoverableIdempotent,
+  hasRecoverableIdempotencyRequest,
+  markRecoverableIdempotencyFailed,
+} from "../database/idempotency.js";
+import { ContextEngineServiceError } from "../errors.js";
+import {
+  commitWorkstreamRepositoryPlan,
+  contentHash,
+  recognizeCommittedWorkstreamRepositoryPlan,
+} from "../git/workstream-context-transaction.js";
+import {
+  clearStaleAgentStreamWorkstreamFocus,
+  moveAgentStreamWorkstreamFocus,
+} from "../repositories/agent-stream-records.js";
+import {
+  moveRequestResourceBindings,
+  synchronizeWorkstreamResourceBindings,
+} from "../repositories/resource-records.js";
+import { readActiveRunIds, readRunEvidence } from "../repositories/run-records.js";
+import {
+  insertWorkstreamLifecycleOperation,
+  readRecoverableWorkstreamLifecycleOperations,
+  readWorkstreamLifecycleOperation,
+  updateWorkstreamLifecycleOperation,
+  type WorkstreamLifecycleOperationPlan,
+  type WorkstreamLifecycleOperationRecord,
+  type WorkstreamMovedRequest,
+} from "../repositories/workstream-lifecycle-operation-records.js";
+import { moveWorkstreamRequestProgress } from "../repositories/workstream-progress-records.js";
+import {
+  readWorkstreamCatalogEntry,
+  readWorkstreamInitialization,
+  updateWorkstreamProjection,
+} from "../repositories/workstream-records.js";
+import {
+  markSharedWorkstreamRepositoryHealth,
+  readSharedWorkstreamRepositoryState,
+  updateSharedWorkstreamRepositoryState,
+} from "../repositories/workstream-repository-state-records.js";
+import {
+  synchronizeCurrentWorkstreamRequest,
+  writeWorkstreamRequestProjection,
+} from "../repositories/workstream-request-records.js";
+import { writeWorkstreamDiscoveryProjection } from "../repositories/workstream-discovery-records.js";
+import { renderWorkstreamCard, type WorkstreamCard } from "../workstreams/workstream-card.js";
+import {
+  renderWorkstreamProgress,
+  type WorkstreamProgressEntry,
+} from "../workstreams/workstream-progress.js";
+import {
+  nextRequestId,
+  requestPath,
+  requireRequestId,
+  requireWorkstreamId,
+  WORKSTREAM_CARD_PATH,
+  WORKSTREAM_PROGRESS_PATH,
+  WORKSTREAM_RESOURCES_PATH,
+  WORKSTREAM_SCHEMA,
+  workstreamDirectoryName,
+} from "../workstreams/workstream-repository-layout.js";
+import {
+  activateWorkstreamCard,
+  cloneCard,
+  cloneRequest,
+  inactiveWorkstreamCard,
+  normalizeLifecycleState,
+  requireMutableWorkstream,
+  transitionRequest,
+  withoutRequestBlocker,
+} from "../workstreams/workstream-request-lifecycle-state.js";
+import {
+  normalizeWorkstreamRequest,
+  renderWorkstreamRequest,
+  type WorkstreamRequest,
+} from "../workstreams/workstream-request.js";
+import {
+  validateWorkstreamRepository,
+  type WorkstreamRepositoryValidation,
+} from "../workstreams/workstream-repository-validator.js";
+import {
+  parseWorkstreamResourceManifest,
+  renderWorkstreamResourceManifest,
+  WORKSTREAM_RESOURCE_MANIFEST_SCHEMA,
+  type WorkstreamResourceManifestEntry,
+} from "../workstreams/workstream-resource-manifest.js";
+import {
+  insertWorkstreamCatalogRepository,
+  readWorkstreamCatalogRepository,
+  type WorkstreamCatalogRebuildRepository,
+} from "./workstream-catalog-rebuild-service.js";
+
+/** Tombstones left in a workstream whose request moved elsewhere start with this note. */
+const MOVED_REQUEST_NOTE = /^Moved to (W-\d{8}-\d{4}) as (R-\d{4})\./;
+const MAX_CARD_LIST_ITEMS = 20;
+
+interface LifecycleRequest {
+  requestId: string;
+  runId?: string;
+  at: string;
+}
+
+interface PreparedOperation {
+  operation: WorkstreamLifecycleOperationKind;
+  /** Catalog workstream the journal belongs to. */
+  workstreamId: string;
+  baseHead: string;
+  /** Undefined when the workstream is already in the requested state. */
+  plan?: WorkstreamLifecycleOperationPlan;
+  response: Omit<WorkstreamLifecycleOperationResponse, "commit">;
+}
+
+type LifecycleResponse = Omit<WorkstreamLifecycleOperationResponse, "commit" | "changed">;
+
+interface LoadedWorkstream {
+  workstreamId: string;
+  validation: WorkstreamRepositoryValidation;
+  directory: string;
+  /** Committed context files, keyed by their path inside the workstream directory. */
+  files: Map<string, string>;
+}
+
+interface WorkstreamChange {
+  workstreamId: string;
+  directory: string;
+  files: Map<string, string>;
+  writes: Map<string, string>;
+}
+
+/** The part of a workstream that receives moved requests. */
+interface ReceivingWorkstream {
+  workstreamId: string;
+  card: WorkstreamCard;
+  requests: WorkstreamRequest[];
+  progress: WorkstreamProgressEntry[];
+}
+
+/**
+ * Archives, restores, renames, merges, and splits workstreams. Each operation is one commit on
+ * the shared repository, journaled before it is made so startup recovery can finish or
+ * recognize it, and then projected into the catalog in one transaction.
+ */
+export class WorkstreamLifecycleOperationService {
+  constructor(private readonly options: {
+    database: ContextDatabase;
+    workstreamRoot: string;
+  }) {}
+
+  async archive(input: ArchiveWorkstreamRequest): Promise<WorkstreamLifecycleOperationResponse> {
+    return await this.perform(input, input.archived ? "archive_workstream" : "restore_workstream", async () => {
+      const workstreamId = requireWorkstreamId(input.workstreamId);
+      const loaded = await this.load(workstreamId);
+      const card = loaded.validation.workstreamCard;
+      const status = input.archived ? "archived" : "active";
+      const operation = input.archived ? "archive" : "restore";
+      const response: LifecycleResponse = {
+        operation,
+        workstreamId,
+        title: card.title,
+        lifecycleStatus: status,
+        movedRequests: [],
+      };
+      if (card.status === status) {
+        return unchanged(operation, loaded, response);
+      }
+      let requests = loaded.validation.requests.map(cloneRequest);
+      let nextCard: WorkstreamCard;
+      if (input.archived) {
+        this.requireNoActiveRun(workstreamId);
+        requests = requests.map((request) => request.status === "active"
+          ? transitionRequest(request, "queued", input.at, {
+            lifecycleNote: "Queued when the workstream was archived.",
+          })
+          : request);
+        nextCard = inactiveWorkstreamCard(
+          { ...card, status },
+          "Archived; restore the workstream before continuing its requests.",
+        );
+      } else {
+        nextCard = inactiveWorkstreamCard(
+          { ...card, status },
+          "Restored; choose the next request to continue.",
+        );
+      }
+      normalizeLifecycleState({
+        expectedHead: loaded.validation.head,
+        workstreamCard: nextCard,
+        requests,
+      });
+      const writes = new Map<string, string>([[WORKSTREAM_CARD_PATH, renderWorkstreamCard(nextCard)]]);
+      for (const request of requests) {
+        writes.set(request.relativePath, renderWorkstreamRequest(request));
+      }
+      return prepared(input, {
+        operation,
+        baseHead: loaded.validation.repositoryHead,
+        subject: operation + " workstream " + workstreamId,
+        workstreamId,
+        changes: [{ ...loaded, writes }],
+        response,
+        movedRequests: [],
+      });
+    });
+  }
+
+  async rename(input: RenameWorkstreamRequest): Promise<WorkstreamLifecycleOperationResponse> {
+    return await this.perform(input, "rename_workstream", async () => {
+      const workstreamId = requireWorkstreamId(input.workstreamId);
+      const loaded = await this.load(workstreamId);
+      const card = loaded.validation.workstreamCard;
+      const title = normalizeText(input.title);
+      const aliases = input.aliases
+        ? input.aliases.map(normalizeText).filter(Boolean)
+        : title === card.title
+          ? card.aliases
+          : [...card.aliases, card.title].filter((alias) => alias !== title)
+            .slice(-MAX_CARD_LIST_ITEMS);
+      const nextCard: WorkstreamCard = { ...cloneCard(card), title, aliases: [...new Set(aliases)] };
+      const content = renderWorkstreamCard(nextCard);
+      const response: LifecycleResponse = {
+        operation: "rename",
+        workstreamId,
+        title,
+        lifecycleStatus: card.status,
+        movedRequests: [],
+      };
+      if (content === loaded.files.get(WORKSTREAM_CARD_PATH)) {
+        return unchanged("rename", loaded, response);
+      }
+      return prepared(input, {
+        operation: "rename",
+        baseHead: loaded.validation.repositoryHead,
+        subject: "rename workstream " + workstreamId,
+        workstreamId,
+        changes: [{ ...loaded, writes: new Map([[WORKSTREAM_CARD_PATH, content]]) }],
+        response,
+        movedRequests: [],
+      });
+    });
+  }
+
+  async merge(input: MergeWorkstreamsRequest): Promise<WorkstreamLifecycleOperationResponse> {
+    return await this.perform(input, "merge_workstreams", async () => {
+      const sourceId = requireWorkstreamId(input.sourceWorkstreamId);
+      const targetId = requireWorkstreamId(input.targetWorkstreamId);
+      if (sourceId === targetId) throw invalid("A workstream cannot be merged into itself.");
+      const source = await this.load(sourceId);
+      const target = await this.load(targetId);
+      requireMutableWorkstream(target.validation.workstreamCard);
+      const pending = source.validation.requests
+        .filter((request) => !MOVED_REQUEST_NOTE.test(request.lifecycleNote))
+        .sort((left, right) => left.id.localeCompare(right.id));
+      const response: LifecycleResponse = {
+        operation: "merge",
+        workstreamId: targetId,
+        sourceWorkstreamId: sourceId,
+        title: target.validation.workstreamCard.title,
+        lifecycleStatus: target.validation.workstreamCard.status,
+        movedRequests: [],
+      };
+      if (pending.length === 0 && source.validation.workstreamCard.status === "archived") {
+        return unchanged("merge", target, response);
+      }
+      this.requireNoActiveRun(sourceId);
+      const moved = moveRequests({
+        source: source.validation,
+        target: {
+          workstreamId: targetId,
+          card: target.validation.workstreamCard,
+          requests: target.validation.requests,
+          progress: target.validation.progress.entries,
+        },
+        requests: pending,
+        at: input.at,
+      });
+      const sourceCard = inactiveWorkstreamCard({
+        ...cloneCard(source.validation.workstreamCard),
+        status: "archived",
+        blockers: moved.sourceBlockers,
+      }, "Merged into " + targetId + ".");
+      const manifests = moveManifestEntries({
+        source: source.validation.resourceManifest.resources,
+        target: target.validation.resourceManifest.resources,
+        mapping: moved.mapping,
+        moveAll: true,
+      });
+      return prepared(input, {
+        operation: "merge",
+        baseHead: source.validation.repositoryHead,
+        subject: "merge workstream " + sourceId + " into " + targetId,
+        workstreamId: targetId,
+        changes: [
+          {
+            ...source,
+            writes: contextWrites({ ...source, requests: source.validation.requests }, {
+              head: source.validation.repositoryHead,
+              card: sourceCard,
+              requests: moved.tombstones,
+              progress: moved.sourceProgress,
+              resources: manifests.source,
+              at: input.at,
+            }),
+          },
+          {
+            ...target,
+            writes: contextWrites({ ...target, requests: target.validation.requests }, {
+              head: target.validation.repositoryHead,
+              card: moved.targetCard,
+              requests: moved.copies,
+              progress: moved.targetProgress,
+              resources: manifests.target,
+              at: input.at,
+            }),
+          },
+        ],
+        response: { ...response, lifecycleStatus: moved.targetCard.status, movedRequests: moved.receipts },
+        movedRequests: moved.movedRequests,
+      });
+    });
+  }
+
+  async split(input: SplitWorkstreamRequest): Promise<WorkstreamLifecycleOperationResponse> {
+    return await this.perform(input, "split_workstream", async () => {
+      const sourceId = requireWorkstreamId(input.workstreamId);
+      const requestIds = [...new Set(input.requestIds.map(requireRequestId))].sort();
+      if (requestIds.length === 0) throw invalid("Split requires at least one request.");
+      const title = normalizeText(input.title);
+      const source = await this.load(sourceId);
+      const sourceCard = source.validation.workstreamCard;
+      requireMutableWorkstream(sourceCard);
+      const selected = requestIds.map((requestId) => {
+        const request = source.validation.requests.find((item) => item.id === requestId);
+        if (!request || MOVED_REQUEST_NOTE.test(request.lifecycleNote)) {
+          throw invalid("Split request is not in the workstream.", { workstreamId: sourceId, requestId });
+        }
+        return request;
+      });
+      this.requireNoActiveRun(sourceId, new Set(requestIds));
+      const workstreamId = await this.allocateWorkstreamId(input.at);
+      const directory = workstreamDirectoryName(workstreamId, title);
+      const focus = "Choose the next request to continue.";
+      const moved = moveRequests({
+        source: source.validation,
+        target: {
+          workstreamId,
+          card: {
+            schema: WORKSTREAM_SCHEMA,
+            id: workstreamId,
+            title,
+            status: "active",
+            currentRequest: null,
+            aliases: [],
+            purpose: normalizeText(input.objective ?? selected[0]!.request).slice(0, 2_000),
+            currentSnapshot: "Split from " + sourceId + " with " + selected.length
+              + (selected.length === 1 ? " request." : " requests."),
+            importantFindings: [],
+            decisions: [...sourceCard.decisions],
+            currentFocus: focus,
+            openQuestions: [],
+            blockers: [],
+            nextAction: focus,
+          },
+          requests: [],
+          progress: [],
+        },
+        requests: selected,
+        at: input.at,
+      });
+      const remainingCard = sourceCard.currentRequest && requestIds.includes(sourceCard.currentRequest)
+        ? inactiveWorkstreamCard(
+          sourceCard,
+          "Moved " + sourceCard.currentRequest + " to " + workstreamId + "; " + focus.toLowerCase(),
+        )
+        : cloneCard(sourceCard);
+      remainingCard.blockers = moved.sourceBlockers;
+      const manifests = moveManifestEntries({
+        source: source.validation.resourceManifest.resources,
+        target: [],
+        mapping: moved.mapping,
+        moveAll: false,
+      });
+      const created = { workstreamId, directory, files: new Map<string, string>() };
+      const contextRepositoryPath = join(source.validation.repositoryPath, directory);
+      return prepared(input, {
+        operation: "split",
+        baseHead: source.validation.repositoryHead,
+        subject: "split workstream " + sourceId + " into " + workstreamId,
+        workstreamId: sourceId,
+        changes: [
+          {
+            ...source,
+            writes: contextWrites({ ...source, requests: source.validation.requests }, {
+              head: source.validation.repositoryHead,
+              card: remainingCard,
+              requests: moved.tombstones,
+              progress: moved.sourceProgress,
+              resources: manifests.source,
+              at: input.at,
+            }),
+          },
+          {
+            ...created,
+            writes: contextWrites({ ...created, requests: [] }, {
+              head: source.validation.repositoryHead,
+              card: moved.targetCard,
+              requests: moved.copies,
+              progress: moved.targetProgress,
+              resources: manifests.target,
+              at: input.at,
+            }),
+          },
+        ],
+        createdWorkstream: { workstreamId, contextRepositoryPath },
+        response: {
+          operation: "split",
+          workstreamId,
+          sourceWorkstreamId: sourceId,
+          title,
+          lifecycleStatus: "active",
+          movedRequests: moved.receipts,
+        },
+        movedRequests: moved.movedRequests,
+      });
+    });
+  }
+
+  async recover(at: string): Promise<void> {
+    for (const record of readRecoverableWorkstreamLifecycleOperations(this.options.database)) {
+      try {
+        const head = await this.executeRecord(record, at);
+        completeRecoverableIdempotent({
+          database: this.options.database,
+          requestId: record.operationRequestId,
+          result: { ...record.plan.response, commit: head },
+          now: at,
+        });
+      } catch (error) {
+        this.markRecoveryRequired(record, error, at);
+      }
+    }
+  }
+
+  private async perform(
+    input: LifecycleRequest,
+    operation: string,
+    prepare: () => Promise<PreparedOperation>,
+  ): Promise<WorkstreamLifecycleOperationResponse> {
+    if (input.runId) this.requireRunningRun(input.runId);
+    const begin = (execute: () => WorkstreamLifecycleOperationResponse | { operationRequestId: string }) =>
+      beginRecoverableIdempotent<WorkstreamLifecycleOperationResponse | { operationRequestId: string }>({
+        database: this.options.database,
+        requestId: input.requestId,
+        operation,
+        payload: input,
+        now: input.at,
+        execute,
+      });
+    if (hasRecoverableIdempotencyRequest({
+      database: this.options.database,
+      requestId: input.requestId,
+      operation,
+      payload: input,
+    })) {
+      const pending = begin(() => ({ operationRequestId: input.requestId }));
+      if (pending.completed && "operation" in pending.result) return pending.result;
+      const existing = readWorkstreamLifecycleOperation(this.options.database, input.requestId);
+      if (existing) return await this.execute(existing, input.at);
+    }
+
+    const preparedOperation = await prepare();
+    const plan = preparedOperation.plan;
+    if (!plan) {
+      const result: WorkstreamLifecycleOperationResponse = { ...preparedOperation.response };
+      begin(() => ({ operationRequestId: input.requestId }));
+      return completeRecoverableIdempotent({
+        database: this.options.database,
+        requestId: input.requestId,
+        result,
+        now: input.at,
+      });
+    }
+    const journal = () => insertWorkstreamLifecycleOperation(this.options.database, {
+      operationRequestId: input.requestId,
+      operation: preparedOperation.operation,
+      ...(input.runId ? { runId: input.runId } : {}),
+      workstreamId: preparedOperation.workstreamId,
+      baseHead: preparedOperation.baseHead,
+      plan,
+      at: input.at,
+    });
+    const pending = begin(() => {
+      journal();
+      return { operationRequestId: input.requestId };
+    });
+    if (pending.completed && "operation" in pending.result) return pending.result;
+    // A receipt left without its journal by an interrupted attempt is journaled now.
+    const record = readWorkstreamLifecycleOperation(this.options.database, input.requestId) ?? journal();
+    return await this.execute(record, input.at);
+  }
+
+  private async execute(
+    record: WorkstreamLifecycleOperationRecord,
+    at: string,
+  ): Promise<WorkstreamLifecycleOperationResponse> {
+    try {
+      const head = await this.executeRecord(record, at);
+      return completeRecoverableIdempotent({
+        database: this.options.database,
+        requestId: record.operationRequestId,
+        result: { ...record.plan.response, commit: head },
+        now: at,
+      });
+    } catch (error) {
+      this.markRecoveryRequired(record, error, at);
+      markRecoverableIdempotencyFailed({
+        database: this.options.database,
+        requestId: record.operationRequestId,
+      });
+      throw error;
+    }
+  }
+
+  private async executeRecord(
+    initial: WorkstreamLifecycleOperationRecord,
+    at: string,
+  ): Promise<string> {
+    let record = readWorkstreamLifecycleOperation(this.options.database, initial.operationRequestId)
+      ?? initial;
+    if (record.phase === "completed" && record.commitHead) return record.commitHead;
+    if (record.phase === "recovery_required") {
+      const recognizedHead = await recognizeCommittedWorkstreamRepositoryPlan({
+        workstreamRoot: this.options.workstreamRoot,
+        branch: "main",
+        baseHead: record.baseHead,
+        plan: record.plan.commit,
+        identity: record.plan.identity,
+      });
+      if (recognizedHead) {
+        record = updateWorkstreamLifecycleOperation(this.options.database, {
+          operationRequestId: record.operationRequestId,
+          phase: "context_committed",
+          commitHead: recognizedHead,
+          at,
+        });
+      } else if (record.commitHead && record.commitHead !== record.baseHead) {
+        throw recovery("Journaled lifecycle commit is no longer the repository HEAD.", {
+          operationRequestId: record.operationRequestId,
+          commitHead: record.commitHead,
+        });
+      } else {
+        record = updateWorkstreamLifecycleOperation(this.options.database, {
+          operationRequestId: record.operationRequestId,
+          phase: "prepared",
+          at,
+        });
+      }
+    }
+    if (record.phase === "prepared") {
+      const commit = await commitWorkstreamRepositoryPlan({
+        workstreamRoot: this.options.workstreamRoot,
+        branch: "main",
+        baseHead: record.baseHead,
+        plan: record.plan.commit,
+        identity: record.plan.identity,
+        at,
+      });
+      record = updateWorkstreamLifecycleOperation(this.options.database, {
+        operationRequestId: record.operationRequestId,
+        phase: "context_committed",
+        commitHead: commit.head,
+        at,
+      });
+    }
+    const head = record.commitHead;
+    if (!head) throw recovery("Lifecycle operation journal is missing its commit.");
+    const repositories = await this.readCommitted(record, head, at);
+    this.acknowledge(record, head, repositories, at);
+    return head;
+  }
+
+  private async readCommitted(
+    record: WorkstreamLifecycleOperationRecord,
+    head: string,
+    at: string,
+  ): Promise<WorkstreamCatalogRebuildRepository[]> {
+    const paths = record.plan.workstreamIds.map((workstreamId) => {
+      const workstream = readWorkstreamInitialization(this.options.database, workstreamId);
+      if (!workstream) throw recovery("Lifecycle operation workstream is missing from the catalog.");
+      return workstream.contextRepositoryPath;
+    });
+    if (record.plan.createdWorkstream) paths.push(record.plan.createdWorkstream.contextRepositoryPath);
+    const repositories: WorkstreamCatalogRebuildRepository[] = [];
+    for (const contextRepositoryPath of paths) {
+      const repository = await readWorkstreamCatalogRepository({
+        workstreamRoot: this.options.workstreamRoot,
+        contextRepositoryPath,
+        now: at,
+      });
+      if (repository.head !== head || repository.repositoryHealth !== "ready") {
+        throw recovery("Committed workstream context does not match the lifecycle operation.", {
+          workstreamId: repository.workstreamId,
+          head: repository.head,
+          expectedHead: head,
+        });
+      }
+      repositories.push(repository);
+    }
+    return repositories;
+  }
+
+  private acknowledge(
+    record: WorkstreamLifecycleOperationRecord,
+    head: string,
+    repositories: WorkstreamCatalogRebuildRepository[],
+    at: string,
+  ): void {
+    const database = this.options.database;
+    const created = record.plan.createdWorkstream?.workstreamId;
+    const movedFrom = record.plan.movedRequests[0]?.fromWorkstreamId;
+    database.transaction(() => {
+      const repository = readSharedWorkstreamRepositoryState(database);
+      if (!repository || (repository.head !== record.baseHead && repository.head !== head)) {
+        throw new Error("Shared repository HEAD cannot acknowledge the lifecycle operation commit.");
+      }
+      updateSharedWorkstreamRepositoryState(database, {
+        expectedHead: repository.head,
+        head,
+        health: "ready",
+        at,
+      });
+      for (const workstream of repositories) {
+        if (workstream.workstreamId === created) {
+          insertWorkstreamCatalogRepository(database, { ...workstream, progress: [], resources: [] });
+          continue;
+        }
+        for (const request of workstream.requests) {
+          writeWorkstreamRequestProjection(database, { request, lastActivityAt: request.updatedAt });
+        }
+        synchronizeCurrentWorkstreamRequest(database, workstream.workstreamId);
+      }
+      for (const moved of record.plan.movedRequests) {
+        moveRequestResourceBindings(database, moved);
+        moveWorkstreamRequestProgress(database, moved);
+        moveAgentStreamWorkstreamFocus(database, { ...moved, at });
+      }
+      // Receiving workstreams first, so moved bindings keep their run history before the source drops them.
+      const ordered = [...repositories].sort((left, right) =>
+        Number(left.workstreamId === movedFrom) - Number(right.workstreamId === movedFrom));
+      for (const workstream of ordered) {
+        synchronizeWorkstreamResourceBindings(database, {
+          workstreamId: workstream.workstreamId,
+          resources: workstream.resources,
+          ...(movedFrom && workstream.workstreamId !== movedFrom
+            ? { movedFromWorkstreamId: movedFrom }
+            : {}),
+          at,
+        });
+      }
+      for (const workstream of repositories) {
+        const current = workstream.currentRequest;
+        updateWorkstreamProjection(database, {
+          workstreamId: workstream.workstreamId,
+          title: workstream.title,
+          aliases: workstream.aliases,
+          purpose: workstream.objective,
+          lifecycleStatus: workstream.lifecycleStatus,
+          currentRequestId: current?.id ?? null,
+          currentSnapshot: workstream.currentSnapshot,
+          currentFocus: workstream.currentFocus,
+          blockers: workstream.blockers,
+          ...(record.runId ? { lastRunId: record.runId } : {}),
+          lastCommit: head,
+          at,
+        });
+        writeWorkstreamDiscoveryProjection(database, {
+          workstreamId: workstream.workstreamId,
+          expectedHead: head,
+          title: workstream.title,
+          objective: workstream.objective,
+          aliases: workstream.aliases,
+          currentSnapshot: workstream.currentSnapshot,
+          currentFocus: workstream.currentFocus,
+          importantFindings: workstream.importantFindings,
+          lifecycleStatus: workstream.lifecycleStatus,
+          repositoryHealth: workstream.repositoryHealth,
+          ...(current ? {
+            currentRequest: {
+              id: current.id,
+              title: current.title,
+              status: current.status,
+              searchText: [current.title, current.request].join("\n"),
+            },
+          } : {}),
+        });
+        clearStaleAgentStreamWorkstreamFocus(database, { workstreamId: workstream.workstreamId, at });
+      }
+      updateWorkstreamLifecycleOperation(database, {
+        operationRequestId: record.operationRequestId,
+        phase: "completed",
+        commitHead: head,
+        at,
+      });
+    });
+  }
+
+  private async load(workstreamId: string): Promise<LoadedWorkstream> {
+    const repository = readSharedWorkstreamRepositoryState(this.options.database);
+    if (!repository || repository.health !== "ready") {
+      throw new ContextEngineServiceError({
+        code: repository?.health === "recovery_required" ? "RECOVERY_REQUIRED" : "WORKSTREAM_REPOSITORY_DIRTY",
+        message: "Workstream lifecycle operations require a ready shared workstream repository.",
+        details: { health: repository?.health ?? "unavailable" },
+      });
+    }
+    const workstream = readWorkstreamCatalogEntry(this.options.database, workstreamId);
+    if (!workstream) {
+      throw new ContextEngineServiceError({
+        code: "WORKSTREAM_NOT_FOUND",
+        message: "Workstream is not in the catalog.",
+        details: { workstreamId },
+      });
+    }
+    const validation = await validateWorkstreamRepository({
+      workstreamRoot: this.options.workstreamRoot,
+      contextRepositoryPath: workstream.contextRepositoryPath,
+      expectedWorkstreamId: workstreamId,
+      requestReadMode: "all",
+    });
+    if (validation.health !== "ready") {
+      throw new ContextEngineServiceError({
+        code: "WORKSTREAM_REPOSITORY_DIRTY",
+        message: "Workstream lifecycle operations require a clean shared workstream repository.",
+        details: { workingTreeChanges: validation.workingTreeChanges },
+      });
+    }
+    if (validation.head !== workstream.head || validation.repositoryHead !== repository.head) {
+      throw new ContextEngineServiceError({
+        code: "WORKSTREAM_HEAD_MISMATCH",
+        message: "Workstream context changed outside the catalog.",
+        details: { workstreamId, expectedHead: workstream.head, actualHead: validation.head },
+      });
+    }
+    const directory = basename(validation.contextRepositoryPath);
+    const files = new Map<string, string>();
+    const paths = [
+      WORKSTREAM_CARD_PATH,
+      WORKSTREAM_PROGRESS_PATH,
+      WORKSTREAM_RESOURCES_PATH,
+      ...validation.requests.map((request) => request.relativePath),
+    ];
+    for (const path of paths) {
+      files.set(path, await readFile(join(validation.contextRepositoryPath, path), "utf8"));
+    }
+    return { workstreamId, validation, directory, files };
+  }
+
+  /** Runs bound to the workstream would finalize into requests this operation moves or parks. */
+  private requireNoActiveRun(workstreamId: string, requestIds?: Set<string>): void {
+    for (const runId of readActiveRunIds(this.options.database)) {
+      const binding = readRunEvidence(this.options.database, runId)?.workstreamBinding;
+      if (binding?.workstreamId !== workstreamId) continue;
+      if (requestIds && !requestIds.has(binding.requestId)) continue;
+      throw new ContextEngineServiceError({
+        code: "WORKSTREAM_BUSY",
+        message: "An active run is bound to the workstream; finish it first.",
+        details: { workstreamId, requestId: binding.requestId, runId },
+      });
+    }
+  }
+
+  private requireRunningRun(runId: string): void {
+    const run = readRunEvidence(this.options.database, runId);
+    if (!run || run.status !== "running") {
+      throw new ContextEngineServiceError({
+        code: "RUN_NOT_ACTIVE",
+        message: "Workstream lifecycle operations require the matching active run.",
+        details: { runId },
+      });
+    }
+  }
+
+  private async allocateWorkstreamId(at: string): Promise<string> {
+    const directories = await readdir(this.options.workstreamRoot);
+    const prefix = "W-" + at.slice(0, 10).replaceAll("-", "") + "-";
+    const row = this.options.database.prepare([
+      "SELECT COALESCE(MAX(CAST(substr(workstream_id, 12) AS INTEGER)), 0) + 1 AS next",
+      "FROM workstreams WHERE workstream_id LIKE ?",
+    ].join(" ")).get(prefix + "%") as { next: number };
+    for (let next = Number(row.next); next <= 9_999; next += 1) {
+      const workstreamId = prefix + String(next).padStart(4, "0");
+      if (!directories.some((name) => name.startsWith(workstreamId + "-"))) return workstreamId;
+    }
+    throw invalid("No workstream identity is available for the split today.");
+  }
+
+  private markRecoveryRequired(
+    record: WorkstreamLifecycleOperationRecord,
+    error: unknown,
+    at: string,
+  ): void {
+    const message = error instanceof Error ? error.message : String(error);
+    this.options.database.transaction(() => {
+      markSharedWorkstreamRepositoryHealth(this.options.database, "recovery_required", at);
+      updateWorkstreamLifecycleOperation(this.options.database, {
+        operationRequestId: record.operationRequestId,
+        phase: "recovery_required",
+        error: message,
+        at,
+      });
+    });
+  }
+}
+
+function unchanged(
+  operation: WorkstreamLifecycleOperationKind,
+  loaded: LoadedWorkstream,
+  response: LifecycleResponse,
+): PreparedOperation {
+  return {
+    operation,
+    workstreamId: loaded.workstreamId,
+    baseHead: loaded.validation.repositoryHead,
+    response: { ...response, changed: false },
+  };
+}
+
+function prepared(
+  input: LifecycleRequest,
+  operation: {
+    operation: WorkstreamLifecycleOperationKind;
+    baseHead: string;
+    subject: string;
+    workstreamId: string;
+    changes: WorkstreamChange[];
+    createdWorkstream?: WorkstreamLifecycleOperationPlan["createdWorkstream"];
+    response: LifecycleResponse;
+    movedRequests: WorkstreamMovedRequest[];
+  },
+): PreparedOperation {
+  const contextWrites: Array<{ path: string; content: string }> = [];
+  const contextBefore: Array<{ path: string; sha256: string }> = [];
+  for (const change of operation.changes) {
+    for (const [path, content] of change.writes) {
+      const before = change.files.get(path);
+      if (before === content) continue;
+      const qualified = change.directory + "/" + path;
+      contextWrites.push({ path: qualified, content });
+      contextBefore.push({ path: qualified, sha256: before === undefined ? "missing" : contentHash(before) });
+    }
+  }
+  contextWrites.sort((left, right) => left.path.localeCompare(right.path));
+  contextBefore.sort((left, right) => left.path.localeCompare(right.path));
+  const identity = "Operation: " + input.requestId;
+  return {
+    operation: operation.operation,
+    workstreamId: operation.workstreamId,
+    baseHead: operation.baseHead,
+    plan: {
+      commit: {
+        commitRequired: true,
+        contextWrites,
+        contextBefore,
+        stagedPaths: contextWrites.map((write) => write.path),
+        commitMessage: [
+          operation.subject,
+          "",
+          "Workstream: " + operation.workstreamId,
+          identity,
+        ].join("\n"),
+      },
+      identity,
+      workstreamIds: operation.changes
+        .map((change) => change.workstreamId)
+        .filter((workstreamId) => workstreamId !== operation.createdWorkstream?.workstreamId),
+      ...(operation.createdWorkstream ? { createdWorkstream: operation.createdWorkstream } : {}),
+      movedRequests: operation.movedRequests,
+      response: { ...operation.response, changed: true },
+    },
+    response: { ...operation.response, changed: true },
+  };
+}
+
+/**
+ * Copies requests into the target under fresh identities and leaves dropped tombstones that
+ * name the copy, so a repeated merge finds nothing left to move.
+ */
+function moveRequests(input: {
+  source: WorkstreamRepositoryValidation;
+  target: ReceivingWorkstream;
+  requests: WorkstreamRequest[];
+  at: string;
+}): {
+  copies: WorkstreamRequest[];
+  tombstones: WorkstreamRequest[];
+  targetCard: WorkstreamCard;
+  sourceBlockers: string[];
+  sourceProgress: WorkstreamProgressEntry[];
+  targetProgress: WorkstreamProgressEntry[];
+  mapping: Map<string, string>;
+  movedRequests: WorkstreamMovedRequest[];
+  receipts: Array<{ fromRequestId: string; toRequestId: string }>;
+} {
+  const sourceId = input.source.workstreamId;
+  const targetId = input.target.workstreamId;
+  const ids = input.target.requests.map((request) => request.id);
+  const mapping = new Map<string, string>();
+  const copies: WorkstreamRequest[] = [];
+  const tombstones: WorkstreamRequest[] = [];
+  let targetCard = cloneCard(input.target.card);
+  let sourceBlockers = [...input.source.workstreamCard.blockers];
+  const targetBlockers = [...targetCard.blockers];
+  let targetActive = input.target.requests.some((request) => request.status === "active");
+  for (const request of input.requests) {
+    const toRequestId = nextRequestId(ids);
+    ids.push(toRequestId);
+    mapping.set(request.id, toRequestId);
+    let copy = normalizeWorkstreamRequest({
+      ...cloneRequest(request),
+      id: toRequestId,
+      workstreamId: targetId,
+      relativePath: requestPath(toRequestId, request.title),
+      updatedAt: input.at,
+      lifecycleNote: boundedNote("Moved from " + sourceId + " " + request.id + ". " + request.lifecycleNote),
+    });
+    if (copy.status === "active") {
+      if (targetCard.status === "active" && !targetActive) {
+        targetActive = true;
+        targetCard = activateWorkstreamCard(targetCard, copy);
+      } else {
+        copy = transitionRequest(copy, "queued", input.at, {});
+      }
+    }
+    copies.push(copy);
+    const note = "Moved to " + targetId + " as " + toRequestId + ".";
+    tombstones.push(request.status === "done" || request.status === "dropped"
+      ? normalizeWorkstreamRequest({ ...cloneRequest(request), lifecycleNote: note, updatedAt: input.at })
+      : transitionRequest(request, "dropped", input.at, {
+        lifecycleNote: note,
+        closedAt: input.at,
+        finalOutcome: note,
+      }));
+    const prefix = "Request " + request.id + ":";
+    for (const blocker of sourceBlockers.filter((item) => item.startsWith(prefix))) {
+      const moved = "Request " + toRequestId + ":" + blocker.slice(prefix.length);
+      if (targetBlockers.length < MAX_CARD_LIST_ITEMS) targetBlockers.push(moved);
+    }
+    sourceBlockers = withoutRequestBlocker(sourceBlockers, request.id);
+  }
+  targetCard.blockers = targetBlockers;
+  const movedProgress = input.source.progress.entries
+    .filter((entry) => mapping.has(entry.requestId))
+    .map((entry) => ({ ...structuredClone(entry), requestId: mapping.get(entry.requestId)! }));
+  return {
+    copies,
+    tombstones,
+    targetCard,
+    sourceBlockers,
+    sourceProgress: input.source.progress.entries.filter((entry) => !mapping.has(entry.requestId)),
+    targetProgress: [...input.target.progress, ...movedProgress]
+      .sort((left, right) => Date.parse(left.at) - Date.parse(right.at)),
+    mapping,
+    movedRequests: [...mapping].map(([fromRequestId, toRequestId]) => ({
+      fromWorkstreamId: sourceId,
+      fromRequestId,
+      toWorkstreamId: targetId,
+      toRequestId,
+    })),
+    receipts: [...mapping].map(([fromRequestId, toRequestId]) => ({ fromRequestId, toRequestId })),
+  };
+}
+
+/**
+ * Carries resource entries with the requests that use them. A merge moves every entry; a split
+ * moves entries only the moved requests use and copies the ones it shares with the source.
+ * The receiving workstream keeps its own primary resource.
+ */
+function moveManifestEntries(input: {
+  source: WorkstreamResourceManifestEntry[];
+  target: WorkstreamResourceManifestEntry[];
+  mapping: Map<string, string>;
+  moveAll: boolean;
+}): { source: WorkstreamResourceManifestEntry[]; target: WorkstreamResourceManifestEntry[] } {
+  const source: WorkstreamResourceManifestEntry[] = [];
+  const target = input.target.map((entry) => structuredClone(entry));
+  let hasPrimary = target.some((entry) => entry.primary);
+  for (const entry of input.source) {
+    const moved = entry.requestIds.filter((requestId) => input.mapping.has(requestId));
+    const kept = entry.requestIds.filter((requestId) => !input.mapping.has(requestId));
+    if (!input.moveAll && moved.length === 0) {
+      source.push(structuredClone(entry));
+      continue;
+    }
+    const shared = !input.moveAll && kept.length > 0;
+    if (shared) source.push({ ...structuredClone(entry), requestIds: kept });
+    const requestIds = moved.map((requestId) => input.mapping.get(requestId)!);
+    const existing = target.find((item) => item.resourceId === entry.resourceId);
+    if (existing) {
+      existing.requestIds = [...new Set([...existing.requestIds, ...requestIds])].sort();
+      if (entry.access === "mutate") existing.access = "mutate";
+      if (entry.lastUsedAt && (!existing.lastUsedAt || entry.lastUsedAt > existing.lastUsedAt)) {
+        existing.lastUsedAt = entry.lastUsedAt;
+      }
+      continue;
+    }
+    const primary = entry.primary && !shared && !hasPrimary;
+    hasPrimary ||= primary;
+    target.push({ ...structuredClone(entry), primary, requestIds });
+  }
+  return { source, target };
+}
+
+/**
+ * Renders a workstream's context after requests moved in or out. The card and the complete
+ * request set must still satisfy the request lifecycle invariants.
+ */
+function contextWrites(
+  workstream: { workstreamId: string; files: Map<string, string>; requests: WorkstreamRequest[] },
+  input: {
+    /** Shared-repository HEAD the operation is planned against. */
+    head: string;
+    card: WorkstreamCard;
+    requests: WorkstreamRequest[];
+    progress: WorkstreamProgressEntry[];
+    resources: WorkstreamResourceManifestEntry[];
+    at: string;
+  },
+): Map<string, string> {
+  const committed = workstream.files.get(WORKSTREAM_RESOURCES_PATH);
+  const before = committed ? parseWorkstreamResourceManifest(committed, workstream.workstreamId) : undefined;
+  const requests = new Map(workstream.requests.map((request) => [request.id, request]));
+  for (const request of input.requests) requests.set(request.id, request);
+  normalizeLifecycleState({
+    expectedHead: input.head,
+    workstreamCard: input.card,
+    requests: [...requests.values()],
+  });
+  const writes = new Map<string, string>([
+    [WORKSTREAM_CARD_PATH, renderWorkstreamCard(input.card)],
+    [WORKSTREAM_PROGRESS_PATH, renderWorkstreamProgress(input.progress)],
+  ]);
+  for (const request of input.requests) writes.set(request.relativePath, renderWorkstreamRequest(request));
+  const manifest = {
+    schema: WORKSTREAM_RESOURCE_MANIFEST_SCHEMA,
+    workstreamId: workstream.workstreamId,
+    updatedAt: before?.updatedAt ?? input.at,
+    resources: input.resources,
+  } as const;
+  writes.set(WORKSTREAM_RESOURCES_PATH, committed === renderWorkstreamResourceManifest(manifest)
+    ? committed
+    : renderWorkstreamResourceManifest({ ...manifest, updatedAt: input.at }));
+  return writes;
+}
+
+function boundedNote(value: string): string {
+  const normalized = normalizeText(value);
+  return normalized.length <= 1_000 ? normalized : normalized.slice(0, 999).trimEnd() + "…";
+}
+
+function normalizeText(value: string): string {
+  return value.trim().replace(/\s+/g, " ");
+}
+
+function invalid(message: string, details?: Record<string, unknown>): ContextEngineServiceError {
+  return new ContextEngineServiceError({ code: "INVALID_REQUEST", message, ...(details ? { details } : {}) });
+}
+
+function recovery(message: string, details?: Record<string, unknown>): ContextEngineServiceError {
+  return new ContextEngineServiceError({ code: "RECOVERY_REQUIRED", message, ...(details ? { details } : {}) });
+}
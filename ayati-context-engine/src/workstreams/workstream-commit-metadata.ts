@@ -3,7 +3,7 @@ import { RUN_FINALIZATION_LIMITS } from "../run-finalization-limits.js";
 import { requireRequestId, requireWorkstreamId } from "./workstream-repository-layout.js";
 import { requireSingleLine } from "./workstream-markdown.js";
 
-export type WorkstreamCommitOutcome = "completed" | "incomplete" | "blocked" | "failed";
+export type WorkstreamCommitOutcome = "completed" | "incomplete" | "blocked" | "failed" | "cancelled";
 export type WorkstreamCommitValidation =
   | "passed"
   | "failed"
@@ -332,7 +332,7 @@ function identity(value: string, field: string): string {
 
 function outcome(value: string): WorkstreamCommitOutcome {
   if (value === "completed" || value === "incomplete" || value === "blocked"
-    || value === "failed") {
+    || value === "failed" || value === "cancelled") {
     return value;
   }
   invalid("Workstream-bound run commit outcome is invalid.", { value });
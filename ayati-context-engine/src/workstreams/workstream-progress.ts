@@ -32,6 +32,7 @@ const OUTCOMES = new Set<RunOutcome>([
   "failed",
   "blocked",
   "needs_user_input",
+  "cancelled",
 ]);
 
 interface ProgressCursor {
@@ -313,6 +313,7 @@ describe("Context Engine contracts", () => {
       workState: workState({ status: "needs_user_input" }),
     })).toBe(false);
     expect(isFinalizeRunRequest({ ...base, outcome: "done", stopReason: "run_limit" })).toBe(false);
+    expect(isFinalizeRunRequest({ ...base, outcome: "done", stopReason: "budget_exhausted" })).toBe(false);
     expect(isFinalizeRunRequest({ ...base, streamSummary: "" })).toBe(false);
   });
 
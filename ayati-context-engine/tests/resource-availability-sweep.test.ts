@@ -0,0 +1,181 @@
+import { rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  createBoundWorkstreamWithMutableDirectory,
+  createWorkstreamServiceFixture,
+  workState,
+  type WorkstreamServiceFixture,
+} from "./simple-workstream-repository-fixtures.js";
+
+const fixtures: WorkstreamServiceFixture[] = [];
+
+afterEach(async () => {
+  await Promise.all(fixtures.splice(0).map(async (fixture) => await fixture.dispose()));
+});
+
+describe("resource availability sweep", () => {
+  it("records drift outside runs and surfaces it until the next run finalizes", async () => {
+    const { fixture, workstreamId, resourceId, outputPath } = await createSource("sweep-drift");
+
+    await expect(fixture.service.sweepResourceAvailability({ at: at(11) }))
+      .resolves.toEqual({ observed: 1, drift: [], failures: [] });
+
+    await writeFile(join(outputPath, "report.md"), "# Edited by hand\n", "utf8");
+    const changed = await fixture.service.sweepResourceAvailability({ at: at(12) });
+    expect(changed).toMatchObject({
+      observed: 1,
+      drift: [{
+        eventId: expect.stringMatching(/^RE-[0-9A-F]{24}$/),
+        change: "changed",
+        resource: { resourceId, availability: "changed" },
+        previousVersion: { exists: true },
+        workstreams: [{ workstreamId, role: "primary", primary: true, deliverable: true }],
+      }],
+      failures: [],
+    });
+    await expect(fixture.service.sweepResourceAvailability({ at: at(13) }))
+      .resolves.toMatchObject({ observed: 1, drift: [] });
+    expect(fixture.database.prepare([
+      "SELECT event_type, run_id FROM resource_events",
+      "WHERE resource_id = ? AND run_id IS NULL",
+    ].join(" ")).all(resourceId)).toEqual([{ event_type: "modified", run_id: null }]);
+
+    await rm(outputPath, { recursive: true, force: true });
+    await expect(fixture.service.sweepResourceAvailability({ at: at(14) })).resolves.toMatchObject({
+      drift: [{ change: "missing", resource: { availability: "missing" } }],
+    });
+    expect((await fixture.service.getWorkstream({ workstreamId })).context?.resourceChanges).toEqual([{
+      resourceId,
+      displayName: "explicit-test-output",
+      change: "missing",
+      availability: "missing",
+      at: at(14),
+    }]);
+
+    fixture.prepared = await fixture.service.prepareAgentRun({
+      requestId: "REQ-sweep-drift-2",
+      timezone: "Asia/Kolkata",
+      agentId: "local",
+      role: "user",
+      content: "Continue the solar analysis.",
+      at: at(15),
+    });
+    await fixture.service.activateWorkstreamForRun({
+      requestId: "REQ-sweep-drift-2-activate",
+      runId: fixture.prepared.run.runId,
+      workstreamId,
+      route: { kind: "continue_current", requestId: "R-0001", reason: "The user continued." },
+      at: at(15),
+    });
+    const activated = await fixture.service.getAgentContext({ agentId: "local" });
+    expect(activated.activeWorkstream?.resourceChanges).toEqual([
+      expect.objectContaining({ resourceId, change: "missing" }),
+    ]);
+    await finalize(fixture, "REQ-sweep-drift-2-finalize", at(16));
+    expect((await fixture.service.getWorkstream({ workstreamId })).context?.resourceChanges)
+      .toBeUndefined();
+  });
+
+  it("waits for a workstream's run to finalize and credits what it changed to that run", async () => {
+    const { fixture, workstreamId, resourceId, outputPath } = await createSource("sweep-active-run");
+    await expect(fixture.service.sweepResourceAvailability({ at: at(11) }))
+      .resolves.toMatchObject({ observed: 1, drift: [] });
+
+    fixture.prepared = await fixture.service.prepareAgentRun({
+      requestId: "REQ-sweep-active-run-2",
+      timezone: "Asia/Kolkata",
+      agentId: "local",
+      role: "user",
+      content: "Continue the solar analysis.",
+      at: at(12),
+    });
+    await fixture.service.activateWorkstreamForRun({
+      requestId: "REQ-sweep-active-run-2-activate",
+      runId: fixture.prepared.run.runId,
+      workstreamId,
+      route: { kind: "continue_current", requestId: "R-0001", reason: "The user continued." },
+      at: at(12),
+    });
+    await writeFile(join(outputPath, "report.md"), "# Written by a run script\n", "utf8");
+    await expect(fixture.service.sweepResourceAvailability({ at: at(13) }))
+      .resolves.toEqual({ observed: 0, drift: [], failures: [] });
+
+    await finalize(fixture, "REQ-sweep-active-run-2-finalize", at(14));
+    await expect(fixture.service.sweepResourceAvailability({ at: at(15) }))
+      .resolves.toEqual({ observed: 1, drift: [], failures: [] });
+    expect(fixture.database.prepare([
+      "SELECT event_type, run_id FROM resource_events",
+      "WHERE resource_id = ? AND verification_json LIKE '%availability_sweep%'",
+    ].join(" ")).all(resourceId)).toEqual([{ event_type: "modified", run_id: fixture.prepared.run.runId }]);
+    expect((await fixture.service.getWorkstream({ workstreamId })).context?.resourceChanges)
+      .toBeUndefined();
+
+    await writeFile(join(outputPath, "report.md"), "# Edited by hand\n", "utf8");
+    await expect(fixture.service.sweepResourceAvailability({ at: at(16) })).resolves.toMatchObject({
+      drift: [{ change: "changed", resource: { resourceId } }],
+    });
+  });
+
+  it("skips resources bound only to archived workstreams", async () => {
+    const { fixture, workstreamId } = await createSource("sweep-archived");
+    await fixture.service.archiveWorkstream({
+      requestId: "REQ-sweep-archive",
+      workstreamId,
+      archived: true,
+      at: at(11),
+    });
+
+    await expect(fixture.service.sweepResourceAvailability({ at: at(12) }))
+      .resolves.toEqual({ observed: 0, drift: [], failures: [] });
+  });
+});
+
+async function createSource(name: string): Promise<{
+  fixture: WorkstreamServiceFixture;
+  workstreamId: string;
+  resourceId: string;
+  outputPath: string;
+}> {
+  const fixture = await createWorkstreamServiceFixture(name, "Create a durable analysis workspace.");
+  fixtures.push(fixture);
+  const selected = await createBoundWorkstreamWithMutableDirectory(fixture, {
+    title: "Solar Research",
+    objective: "Analyze home solar options and retain durable evidence.",
+  });
+  const resource = selected.resourceBindings.find((binding) => binding.primary)?.resource;
+  if (!resource || resource.locator.kind !== "filesystem") {
+    throw new Error("Expected explicit primary output directory.");
+  }
+  await finalize(fixture, `REQ-${name}-finalize`, "2026-07-19T10:02:00+05:30");
+  return {
+    fixture,
+    workstreamId: selected.workstream.workstreamId,
+    resourceId: resource.resourceId,
+    outputPath: resource.locator.path,
+  };
+}
+
+async function finalize(fixture: WorkstreamServiceFixture, requestId: string, finalizedAt: string) {
+  await fixture.service.finalizeRun({
+    requestId,
+    runId: fixture.prepared.run.runId,
+    outcome: "incomplete",
+    stopReason: "run_limit",
+    assistantResponse: "The solar analysis remains in progress.",
+    streamSummary: "Worked on the solar analysis.",
+    summary: "The output directory holds the current analysis.",
+    validation: "not_applicable",
+    next: "Collect the first source set.",
+    workState: workState({ summary: "The workstream remains in progress." }),
+    workstream: {
+      completion: { accepted: false, resources: [], missing: [], failures: [], criteria: [] },
+      requestEffect: { kind: "none" },
+    },
+    at: finalizedAt,
+  });
+}
+
+function at(hour: number): string {
+  return `2026-07-19T${hour}:00:00+05:30`;
+}
@@ -3,6 +3,7 @@ import { mkdir, symlink, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { promisify } from "node:util";
 import { afterEach, describe, expect, it } from "vitest";
+import { ManagedResourceStore } from "../src/resources/managed-resource-store.js";
 import {
   createWorkstreamServiceFixture,
   type WorkstreamServiceFixture,
@@ -166,6 +167,82 @@ describe("resource locator inspection", () => {
       .toContain("README.md");
     expect(await git(path, ["ls-files"])).toBe("README.md");
   });
+
+  it("versions URL resources from a caller fetch and tracks their availability", async () => {
+    const fixture = await createWorkstreamServiceFixture("inspect-url", "Summarize a published guide.");
+    fixtures.push(fixture);
+    const stored = await new ManagedResourceStore(join(fixture.root, ".ayati", "resources"))
+      .storeBytes(new TextEncoder().encode("<h1>Guide</h1>"), "guide.html");
+
+    const fetched = await fixture.service.inspectResourceForRun({
+      requestId: "REQ-inspect-url-fetched",
+      runId: fixture.prepared.run.runId,
+      locator: { kind: "url", url: "https://example.com/guide#intro" },
+      origin: "agent_discovered",
+      fetched: {
+        status: 200,
+        etag: "\"v1\"",
+        lastModified: "Mon, 05 Oct 2026 08:00:00 GMT",
+        sha256: stored.contentHash,
+        sizeBytes: stored.sizeBytes,
+        mediaType: "text/html",
+      },
+      at: "2026-07-19T10:01:00+05:30",
+    });
+
+    expect(fetched).toMatchObject({
+      warnings: [],
+      mutationEligible: false,
+      resource: {
+        locator: { kind: "url", url: "https://example.com/guide" },
+        mediaType: "text/html",
+        availability: "available",
+        version: {
+          kind: "url",
+          exists: true,
+          etag: "\"v1\"",
+          lastModified: "Mon, 05 Oct 2026 08:00:00 GMT",
+          sha256: stored.contentHash,
+          sizeBytes: 14,
+        },
+      },
+    });
+    expect(await new ManagedResourceStore(join(fixture.root, ".ayati", "resources"))
+      .contentPath(stored.contentHash)).toBe(stored.storedPath);
+
+    const gone = await fixture.service.inspectResourceForRun({
+      requestId: "REQ-inspect-url-gone",
+      runId: fixture.prepared.run.runId,
+      locator: { kind: "url", url: "https://example.com/guide" },
+      origin: "agent_discovered",
+      fetched: { status: 404 },
+      at: "2026-07-19T10:02:00+05:30",
+    });
+
+    expect(gone).toMatchObject({
+      existing: true,
+      warnings: ["URL returned HTTP 404."],
+      resource: {
+        resourceId: fetched.resource.resourceId,
+        availability: "missing",
+        version: { kind: "url", exists: false },
+      },
+    });
+  });
+
+  it("rejects fetch observations for non-URL locators", async () => {
+    const fixture = await createWorkstreamServiceFixture("inspect-fetched-file", "Read a local note.");
+    fixtures.push(fixture);
+
+    await expect(fixture.service.inspectResourceForRun({
+      requestId: "REQ-inspect-fetched-file",
+      runId: fixture.prepared.run.runId,
+      locator: { kind: "filesystem", path: join(fixture.root, "note.md") },
+      origin: "user_reference",
+      fetched: { status: 200 },
+      at: "2026-07-19T10:01:00+05:30",
+    })).rejects.toMatchObject({ code: "RESOURCE_LOCATOR_INVALID" });
+  });
 });
 
 async function git(cwd: string, args: string[]): Promise<string> {
@@ -0,0 +1,218 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { ContextDatabase } from "../src/database/database.js";
+import { fuseRankings } from "../src/search/semantic-index.js";
+import {
+  cosineSimilarity,
+  createHashedNgramEmbedder,
+  hashedNgramVector,
+  type TextEmbedder,
+} from "../src/search/text-embedder.js";
+import { SqliteContextEngineService } from "../src/services/sqlite-context-engine-service.js";
+import {
+  createBoundWorkstreamWithMutableDirectory,
+  createWorkstreamServiceFixture,
+  workState,
+  type WorkstreamServiceFixture,
+} from "./simple-workstream-repository-fixtures.js";
+
+const roots: string[] = [];
+const services: SqliteContextEngineService[] = [];
+const fixtures: WorkstreamServiceFixture[] = [];
+const AT = "2026-07-21T10:00:00+05:30";
+
+afterEach(async () => {
+  await Promise.all(services.splice(0).map(async (service) => await service.close()));
+  await Promise.all(fixtures.splice(0).map(async (fixture) => await fixture.dispose()));
+  await Promise.all(roots.splice(0).map(async (root) => {
+    await rm(root, { recursive: true, force: true });
+  }));
+});
+
+describe("semantic search", () => {
+  it("hashes related word forms close together and unrelated text apart", async () => {
+    const embedder = createHashedNgramEmbedder();
+    const [query, related, unrelated] = await embedder.embed([
+      "invoice reminders",
+      "Set up automated invoicing reminder emails for late clients.",
+      "What did we decide about the quarterly tax filing?",
+    ]);
+
+    expect(embedder.id).toBe("hashed-ngram-v1:2048");
+    expect(cosineSimilarity(query!, related!)).toBeGreaterThanOrEqual(embedder.minScore);
+    expect(cosineSimilarity(query!, unrelated!)).toBeLessThan(embedder.minScore);
+    expect(hashedNgramVector("", 32)).toEqual(new Float32Array(32));
+    expect(fuseRankings([["a", "b", "c"], ["c", "d"]], 3)).toEqual(["c", "a", "b"]);
+  });
+
+  it("fuses FTS and vector matches for history search with a pluggable embedder", async () => {
+    const { service } = await createFixture(synonymEmbedder());
+    const first = await service.prepareAgentRun(prepareRequest("REQ-billing", "Add billing nudges for overdue customers.", AT));
+    await finalizeUnbound(service, first.run.runId, "REQ-billing-finalize");
+    await service.prepareAgentRun(prepareRequest("REQ-garden", "Water the tomato garden on Sunday.", at(1)));
+    await expect(service.refreshSemanticIndex({})).resolves.toMatchObject({ embedderId: "synonym-test-v1", pending: 0 });
+
+    const search = await service.searchAgentHistory({
+      streamId: first.stream.streamId,
+      query: "invoice reminders",
+      kinds: ["message"],
+    });
+
+    expect(search.hits.map((hit) => hit.preview)).toEqual([
+      expect.stringContaining("billing nudges"),
+    ]);
+  });
+
+  it("falls back to FTS results when the embedder fails", async () => {
+    const failing: TextEmbedder = {
+      id: "failing",
+      minScore: 0.5,
+      embed: async () => { throw new Error("embedding endpoint unavailable"); },
+    };
+    const { service } = await createFixture(failing);
+    const prepared = await service.prepareAgentRun(prepareRequest("REQ-cobalt", "Discuss the cobalt migration.", AT));
+
+    await expect(service.searchAgentHistory({
+      streamId: prepared.stream.streamId,
+      query: "cobalt",
+      kinds: ["message"],
+    })).resolves.toMatchObject({ hits: [{ kind: "message", sequence: 1 }] });
+    await expect(service.searchAgentHistory({
+      streamId: prepared.stream.streamId,
+      query: "nickel",
+      kinds: ["message"],
+    })).resolves.toEqual({ hits: [] });
+  });
+
+  it("indexes workstream writes and finds them by related word forms", async () => {
+    const fixture = await createWorkstreamServiceFixture("semantic-workstream", "Start the solar research.");
+    fixtures.push(fixture);
+    const selected = await createBoundWorkstreamWithMutableDirectory(fixture, {
+      title: "Solar Research",
+      objective: "Analyze home solar options and retain durable evidence.",
+    });
+    await fixture.service.finalizeRun({
+      requestId: "REQ-semantic-workstream-finalize",
+      runId: fixture.prepared.run.runId,
+      outcome: "incomplete",
+      stopReason: "run_limit",
+      assistantResponse: "The solar analysis remains in progress.",
+      streamSummary: "Worked on the solar analysis.",
+      summary: "The output directory holds the current analysis.",
+      validation: "not_applicable",
+      next: "Collect the first source set.",
+      workState: workState({ summary: "The workstream remains in progress." }),
+      workstream: {
+        completion: { accepted: false, resources: [], missing: [], failures: [], criteria: [] },
+        requestEffect: { kind: "none" },
+      },
+      at: "2026-07-19T10:02:00+05:30",
+    });
+
+    expect(fixture.database.prepare([
+      "SELECT document_kind, embedder_id FROM semantic_documents",
+      "WHERE document_id = ?",
+    ].join(" ")).get(selected.workstream.workstreamId)).toEqual({
+      document_kind: "workstream",
+      embedder_id: null,
+    });
+    const pendingCount = () => fixture.database.prepare([
+      "SELECT COUNT(*) AS count FROM semantic_documents WHERE embedder_id IS NULL",
+    ].join(" ")).get() as { count: number };
+    const pendingBeforeSearch = pendingCount().count;
+    await fixture.service.listWorkstreams({ query: "researching solar option analyses" });
+    expect(pendingCount().count).toBe(pendingBeforeSearch);
+
+    await expect(fixture.service.refreshSemanticIndex({})).resolves.toMatchObject({
+      embedded: pendingBeforeSearch,
+      pending: 0,
+    });
+    const listed = await fixture.service.listWorkstreams({ query: "researching solar option analyses" });
+
+    expect(listed.workstreams.map((workstream) => workstream.workstreamId))
+      .toEqual([selected.workstream.workstreamId]);
+  });
+
+  it("embeds only the query on the search path and leaves pending documents to the refresh", async () => {
+    const embedded: string[][] = [];
+    const embedder = synonymEmbedder();
+    const { service } = await createFixture({ ...embedder, embed: async (texts) => { embedded.push([...texts]); return await embedder.embed(texts); } });
+    const prepared = await service.prepareAgentRun(prepareRequest("REQ-billing", "Add billing nudges for overdue customers.", AT));
+
+    await service.searchAgentHistory({ streamId: prepared.stream.streamId, query: "invoice reminders", kinds: ["message"] });
+    expect(embedded).toEqual([["invoice reminders"]]);
+
+    await expect(service.refreshSemanticIndex({ limit: 1 })).resolves.toMatchObject({
+      embedderId: "synonym-test-v1",
+      embedded: 1,
+    });
+    expect(embedded[1]).toEqual([expect.stringContaining("billing nudges")]);
+  });
+});
+
+/** Maps each known phrase family onto one axis, standing in for a provider model. */
+function synonymEmbedder(): TextEmbedder {
+  const families = [
+    ["invoice", "billing", "reminder", "nudge"],
+    ["garden", "tomato", "water"],
+    ["cobalt", "migration"],
+  ];
+  return {
+    id: "synonym-test-v1",
+    minScore: 0.5,
+    embed: async (texts) => texts.map((text) => {
+      const lower = text.toLowerCase();
+      const vector = new Float32Array(families.length);
+      families.forEach((words, index) => {
+        vector[index] = words.filter((word) => lower.includes(word)).length;
+      });
+      return vector;
+    }),
+  };
+}
+
+async function createFixture(embedder: TextEmbedder): Promise<{ service: SqliteContextEngineService }> {
+  const root = await mkdtemp(join(tmpdir(), "ayati-semantic-search-"));
+  roots.push(root);
+  const database = await ContextDatabase.open({ path: join(root, "context.sqlite") });
+  const service = new SqliteContextEngineService({
+    database,
+    rootDirectory: root,
+    now: () => AT,
+    embedder,
+  });
+  services.push(service);
+  return { service };
+}
+
+async function finalizeUnbound(service: SqliteContextEngineService, runId: string, requestId: string) {
+  await service.finalizeRun({
+    requestId,
+    runId,
+    outcome: "done",
+    stopReason: "completed",
+    assistantResponse: "Noted.",
+    streamSummary: "Noted the request.",
+    summary: "Noted the request.",
+    validation: "not_applicable",
+    workState: workState({ status: "done", summary: "Noted the request." }),
+    at: AT,
+  });
+}
+
+function prepareRequest(requestId: string, content: string, requestAt: string) {
+  return {
+    requestId,
+    timezone: "Asia/Kolkata",
+    agentId: "local",
+    role: "user" as const,
+    content,
+    at: requestAt,
+  };
+}
+
+function at(minute: number): string {
+  return `2026-07-21T10:0${minute}:00+05:30`;
+}
@@ -270,6 +270,42 @@ describe("resource-scoped mutation authority", () => {
     })).resolves.toMatchObject({ status: "verified", verified: true });
   });
 
+  it("verifies Git ref changes only under a repository-root target and records head state", async () => {
+    const state = await createMutationFixture("git-refs", true);
+    const head = await runGit(["rev-parse", "HEAD"], { cwd: state.resourceRoot });
+    const prepared = await state.fixture.service.prepareResourceMutation({
+      ...mutationInput(state, "call-git-branch", "src/app.ts"),
+      tool: "git_write",
+      targets: [{ resourceId: state.resourceId, kind: "directory", expectedVersionKey: state.versionKey }],
+    });
+    await runGit(["branch", "feature/refs"], { cwd: state.resourceRoot });
+    await expect(state.fixture.service.verifyResourceMutation({
+      requestId: "REQ-verify-git-branch",
+      operationId: prepared.operationId,
+      leaseId: prepared.leaseId,
+      lockToken: prepared.lockToken,
+      toolStatus: "completed",
+      at: "2026-07-19T10:03:00+05:30",
+    })).resolves.toMatchObject({
+      status: "verified",
+      events: [{ afterVersion: { kind: "git", head, dirty: false } }],
+    });
+
+    const scoped = await createMutationFixture("git-refs-file", true);
+    const filePrepared = await scoped.fixture.service.prepareResourceMutation(
+      mutationInput(scoped, "call-git-file", "src/app.ts"),
+    );
+    await runGit(["branch", "feature/unexpected"], { cwd: scoped.resourceRoot });
+    await expect(scoped.fixture.service.verifyResourceMutation({
+      requestId: "REQ-verify-git-file",
+      operationId: filePrepared.operationId,
+      leaseId: filePrepared.leaseId,
+      lockToken: filePrepared.lockToken,
+      toolStatus: "completed",
+      at: "2026-07-19T10:03:00+05:30",
+    })).resolves.toMatchObject({ status: "recovery_required", verified: false });
+  });
+
   it("records an unrelated directory link without following it", async () => {
     const state = await createMutationFixture("directory-link");
     await symlink("src", join(state.resourceRoot, "source-link"), "dir");
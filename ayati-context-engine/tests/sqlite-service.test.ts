@@ -1,4 +1,4 @@
-import { mkdtemp, rm } from "node:fs/promises";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
 import { DatabaseSync } from "node:sqlite";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
@@ -18,19 +18,19 @@ afterEach(async () => {
   }));
 });
 
-describe("SQLite Context Engine V12 baseline", () => {
+describe("SQLite Context Engine V17 baseline", () => {
   it("rejects relative database paths instead of anchoring them to process.cwd()", async () => {
     await expect(ContextDatabase.open({ path: "context.sqlite" }))
       .rejects.toThrow("database path must be an absolute filesystem path");
   });
 
-  it("creates the clean V12 stream/run/checkpoint schema without retired resolution storage", async () => {
+  it("creates the clean V17 stream/run/checkpoint schema without retired resolution storage", async () => {
     const fixture = await createFixture();
 
-    expect(latestSchemaVersion()).toBe(12);
+    expect(latestSchemaVersion()).toBe(17);
     expect(fixture.database.prepare(
       "SELECT version FROM schema_metadata WHERE singleton = 1",
-    ).get()).toEqual({ version: 12 });
+    ).get()).toEqual({ version: 17 });
     const streamColumns = new Set((fixture.database.prepare(
       "PRAGMA table_info(agent_streams)",
     ).all() as Array<{ name: string }>).map((column) => column.name));
@@ -65,7 +65,7 @@ describe("SQLite Context Engine V12 baseline", () => {
       .toEqual([{ foreign_keys: 1 }]);
   });
 
-  it("opens an existing V12 database with retired observation tables without using them", async () => {
+  it("opens an existing V17 database with retired observation tables without using them", async () => {
     const fixture = await createFixture();
     await closeTracked(fixture.service);
     const legacy = new DatabaseSync(fixture.databasePath);
@@ -75,11 +75,11 @@ describe("SQLite Context Engine V12 baseline", () => {
 
     const reopened = await ContextDatabase.open({ path: fixture.databasePath });
 
-    expect(reopened.schemaVersion()).toBe(12);
+    expect(reopened.schemaVersion()).toBe(17);
     reopened.close();
   });
 
-  it("migrates V10 through V11 to V12 while narrowing the immutable binding exception", async () => {
+  it("migrates V10 through V12 to V17 while narrowing the immutable binding exception", async () => {
     const fixture = await createFixture();
     const prepared = await fixture.service.prepareAgentRun(
       prepareRequest("REQ-v10-preserved", "Preserve this V10 stream.", AT),
@@ -100,7 +100,7 @@ describe("SQLite Context Engine V12 baseline", () => {
 
     const migrated = await ContextDatabase.open({ path: databasePath });
 
-    expect(migrated.schemaVersion()).toBe(12);
+    expect(migrated.schemaVersion()).toBe(17);
     expect(migrated.prepare(
       "SELECT stream_id FROM runs WHERE run_id = ?",
     ).get(prepared.run.runId)).toEqual({ stream_id: prepared.stream.streamId });
@@ -113,7 +113,7 @@ describe("SQLite Context Engine V12 baseline", () => {
     migrated.close();
   });
 
-  it("migrates a supported V9 catalog through V10 and V11 to V12 without replacing its records", async () => {
+  it("migrates a supported V9 catalog through V12 to V17 without replacing its records", async () => {
     const fixture = await createFixture();
     const prepared = await fixture.service.prepareAgentRun(
       prepareRequest("REQ-v9-preserved", "Preserve this stream.", AT),
@@ -127,7 +127,7 @@ describe("SQLite Context Engine V12 baseline", () => {
 
     const migrated = await ContextDatabase.open({ path: databasePath });
 
-    expect(migrated.schemaVersion()).toBe(12);
+    expect(migrated.schemaVersion()).toBe(17);
     expect(migrated.prepare([
       "SELECT agent_id, scope_key, focused_workstream_id, focused_request_id",
       "FROM agent_streams WHERE stream_id = ?",
@@ -157,7 +157,7 @@ describe("SQLite Context Engine V12 baseline", () => {
 
     const migrated = await ContextDatabase.open({ path: databasePath });
 
-    expect(migrated.schemaVersion()).toBe(12);
+    expect(migrated.schemaVersion()).toBe(17);
     expect(migrated.prepare(
       "SELECT stream_id FROM runs WHERE run_id = ?",
     ).get(prepared.run.runId)).toEqual({ stream_id: prepared.stream.streamId });
@@ -170,6 +170,167 @@ describe("SQLite Context Engine V12 baseline", () => {
     migrated.close();
   });
 
+  it("migrates V12 by rebuilding outcome tables so runs can finalize as cancelled", async () => {
+    const fixture = await createFixture();
+    const prepared = await fixture.service.prepareAgentRun(
+      prepareRequest("REQ-v12-preserved", "Preserve this V12 stream.", AT),
+    );
+    fixture.database.prepare(
+      "UPDATE schema_metadata SET version = 12 WHERE singleton = 1",
+    ).run();
+    const databasePath = fixture.databasePath;
+    await closeTracked(fixture.service);
+
+    const migrated = await ContextDatabase.open({ path: databasePath });
+
+    expect(migrated.schemaVersion()).toBe(17);
+    migrated.prepare([
+      "UPDATE runs SET status = 'cancelled', stop_reason = 'cancelled', completed_at = ?",
+      "WHERE run_id = ?",
+    ].join(" ")).run(AT, prepared.run.runId);
+    expect(migrated.prepare(
+      "SELECT stream_id, status FROM runs WHERE run_id = ?",
+    ).get(prepared.run.runId)).toEqual({ stream_id: prepared.stream.streamId, status: "cancelled" });
+    expect(migrated.prepare([
+      "SELECT name FROM sqlite_schema WHERE name IN",
+      "('runs_one_active_per_stream', 'runs_workstream_binding_immutable', 'workstream_progress_recent')",
+      "ORDER BY name",
+    ].join(" ")).all()).toHaveLength(3);
+    expect(migrated.prepare("PRAGMA foreign_key_check").all()).toEqual([]);
+    migrated.close();
+  });
+
+  it("migrates V13 by rebuilding outcome tables so runs can stop on an exhausted budget", async () => {
+    const fixture = await createFixture();
+    const prepared = await fixture.service.prepareAgentRun(
+      prepareRequest("REQ-v13-preserved", "Preserve this V13 stream.", AT),
+    );
+    fixture.database.prepare(
+      "UPDATE schema_metadata SET version = 13 WHERE singleton = 1",
+    ).run();
+    const databasePath = fixture.databasePath;
+    await closeTracked(fixture.service);
+
+    const migrated = await ContextDatabase.open({ path: databasePath });
+
+    expect(migrated.schemaVersion()).toBe(17);
+    migrated.prepare([
+      "UPDATE runs SET status = 'incomplete', stop_reason = 'budget_exhausted', completed_at = ?",
+      "WHERE run_id = ?",
+    ].join(" ")).run(AT, prepared.run.runId);
+    expect(migrated.prepare(
+      "SELECT status, stop_reason FROM runs WHERE run_id = ?",
+    ).get(prepared.run.runId)).toEqual({ status: "incomplete", stop_reason: "budget_exhausted" });
+    expect(migrated.prepare("PRAGMA foreign_key_check").all()).toEqual([]);
+    migrated.close();
+  });
+
+  it("migrates V14 by adding the workstream lifecycle operation journal", async () => {
+    const fixture = await createFixture();
+    const prepared = await fixture.service.prepareAgentRun(
+      prepareRequest("REQ-v14-preserved", "Preserve this V14 stream.", AT),
+    );
+    fixture.database.exec("DROP TABLE workstream_lifecycle_operations");
+    fixture.database.prepare(
+      "UPDATE schema_metadata SET version = 14 WHERE singleton = 1",
+    ).run();
+    const databasePath = fixture.databasePath;
+    await closeTracked(fixture.service);
+
+    const migrated = await ContextDatabase.open({ path: databasePath });
+
+    expect(migrated.schemaVersion()).toBe(17);
+    expect(migrated.prepare(
+      "SELECT stream_id FROM runs WHERE run_id = ?",
+    ).get(prepared.run.runId)).toEqual({ stream_id: prepared.stream.streamId });
+    expect(migrated.prepare([
+      "SELECT name FROM sqlite_schema WHERE name IN",
+      "('workstream_lifecycle_operations', 'workstream_lifecycle_operations_recovery')",
+      "ORDER BY name",
+    ].join(" ")).all()).toHaveLength(2);
+    migrated.close();
+  });
+
+  it("migrates V15 by rebuilding resource events so sweeps can record them without a run", async () => {
+    const fixture = await createFixture();
+    const notes = join(fixture.root, "notes.txt");
+    await writeFile(notes, "V15 notes\n", "utf8");
+    await fixture.service.prepareAgentRun({
+      ...prepareRequest("REQ-v15-preserved", "Preserve this V15 stream.", AT),
+      resources: [{
+        admissionId: "upload-v15-notes",
+        kind: "document",
+        origin: "user_attachment",
+        locator: { kind: "filesystem", path: notes },
+        displayName: "notes.txt",
+        role: "attachment",
+      }],
+    });
+    const { sql } = fixture.database.prepare(
+      "SELECT sql FROM sqlite_schema WHERE type = 'table' AND name = 'resource_events'",
+    ).get() as { sql: string };
+    fixture.database.exec("CREATE TEMP TABLE resource_events_v15 AS SELECT * FROM resource_events");
+    fixture.database.exec("DROP TABLE resource_events");
+    fixture.database.exec(sql.replace("run_id TEXT REFERENCES", "run_id TEXT NOT NULL REFERENCES"));
+    fixture.database.exec("INSERT INTO resource_events SELECT * FROM resource_events_v15");
+    fixture.database.prepare(
+      "UPDATE schema_metadata SET version = 15 WHERE singleton = 1",
+    ).run();
+    const databasePath = fixture.databasePath;
+    await closeTracked(fixture.service);
+
+    const migrated = await ContextDatabase.open({ path: databasePath });
+
+    expect(migrated.schemaVersion()).toBe(17);
+    expect(migrated.prepare(
+      "SELECT event_type FROM resource_events",
+    ).all()).toEqual([{ event_type: "registered" }]);
+    expect((migrated.prepare("PRAGMA table_info(resource_events)").all() as Array<{
+      name: string;
+      notnull: number;
+    }>).find((column) => column.name === "run_id")).toMatchObject({ notnull: 0 });
+    expect(migrated.prepare([
+      "SELECT name FROM sqlite_schema WHERE name IN",
+      "('resource_events_resource', 'resource_events_run', 'runs_workstream_binding_immutable')",
+      "ORDER BY name",
+    ].join(" ")).all()).toHaveLength(3);
+    expect(migrated.prepare("PRAGMA foreign_key_check").all()).toEqual([]);
+    migrated.close();
+  });
+
+  it("migrates V16 by adding semantic documents that startup backfills for existing messages", async () => {
+    const fixture = await createFixture();
+    const prepared = await fixture.service.prepareAgentRun(
+      prepareRequest("REQ-v16-preserved", "Preserve this V16 stream.", AT),
+    );
+    fixture.database.exec("DROP TABLE semantic_documents");
+    fixture.database.prepare(
+      "UPDATE schema_metadata SET version = 16 WHERE singleton = 1",
+    ).run();
+    const databasePath = fixture.databasePath;
+    await closeTracked(fixture.service);
+
+    const migrated = await ContextDatabase.open({ path: databasePath });
+
+    expect(migrated.schemaVersion()).toBe(17);
+    expect(migrated.prepare("SELECT COUNT(*) AS count FROM semantic_documents").get()).toEqual({ count: 0 });
+    const service = new SqliteContextEngineService({ database: migrated, rootDirectory: fixture.root, now: () => AT });
+    services.push(service);
+    await service.refreshSemanticIndex({});
+    await expect(service.searchAgentHistory({
+      streamId: prepared.stream.streamId,
+      query: "preserving",
+      kinds: ["message"],
+    })).resolves.toMatchObject({ hits: [{ kind: "message", sequence: 1 }] });
+    expect(migrated.prepare([
+      "SELECT document_kind, scope_id, embedder_id FROM semantic_documents",
+    ].join(" ")).all()).toEqual([{
+      document_kind: "message",
+      scope_id: prepared.stream.streamId,
+      embedder_id: "hashed-ngram-v1:2048",
+    }]);
+  });
+
   it("refuses pre-V9 or unknown state without modifying it", async () => {
     const root = await mkdtemp(join(tmpdir(), "ayati-old-context-schema-"));
     roots.push(root);
@@ -0,0 +1,222 @@
+import { createPublicKey, generateKeyPairSync, sign } from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { runGit } from "../src/git/git-process.js";
+import {
+  createBoundWorkstreamWithMutableDirectory,
+  createWorkstreamServiceFixture,
+  workState,
+  type WorkstreamServiceFixture,
+} from "./simple-workstream-repository-fixtures.js";
+
+const IMPORT_AT = "2026-07-20T09:00:00+05:30";
+const fixtures: WorkstreamServiceFixture[] = [];
+
+afterEach(async () => {
+  await Promise.all(fixtures.splice(0).map(async (fixture) => await fixture.dispose()));
+});
+
+describe("workstream bundles", () => {
+  it("exports signed history and imports it under a free identity with reconciled resources", async () => {
+    const source = await createSource("bundle-source");
+    const destination = await createWorkstreamServiceFixture("bundle-destination");
+    fixtures.push(destination);
+    const local = await createBoundWorkstreamWithMutableDirectory(destination, { title: "Local Work" });
+    const localResource = local.resourceBindings[0]!.resource;
+    const bundlePath = join(destination.root, "solar.ayati-workstream");
+
+    const exported = await source.fixture.service.exportWorkstream({
+      workstreamId: source.workstreamId,
+      outputPath: bundlePath,
+      at: IMPORT_AT,
+    });
+
+    expect(exported).toMatchObject({
+      workstreamId: "W-20260719-0001",
+      title: "Solar Research",
+      bundlePath,
+      commits: 1,
+      resources: { total: 1, portable: 1, unavailable: 0 },
+      signer: expect.stringMatching(/^sha256:[0-9a-f]{64}$/),
+    });
+    await expect(source.fixture.service.exportWorkstream({
+      workstreamId: source.workstreamId,
+      outputPath: bundlePath,
+      at: IMPORT_AT,
+    })).rejects.toThrow("Refusing to overwrite an existing file.");
+
+    const imported = await destination.service.importWorkstream({
+      bundlePath,
+      trustedSigners: [exported.signer],
+      at: IMPORT_AT,
+    });
+
+    expect(imported).toMatchObject({
+      workstreamId: "W-20260720-0001",
+      sourceWorkstreamId: "W-20260719-0001",
+      renamed: true,
+      title: "Solar Research",
+      commits: exported.commits,
+      resources: [{
+        resourceId: localResource.resourceId,
+        sourceResourceId: source.resourceId,
+        reconciled: "existing",
+      }],
+      signer: exported.signer,
+      trusted: true,
+    });
+    expect(imported.contextRepositoryPath.endsWith("/W-20260720-0001-solar-research")).toBe(true);
+    const card = await readFile(join(imported.contextRepositoryPath, "workstream.md"), "utf8");
+    expect(card).toContain("W-20260720-0001");
+    expect(card).not.toContain("W-20260719-0001");
+    const manifest = JSON.parse(await readFile(join(imported.contextRepositoryPath, "resources.json"), "utf8"));
+    expect(manifest.resources[0]).toMatchObject({
+      resourceId: localResource.resourceId,
+      locator: { kind: "filesystem", path: join(destination.root, "workspace", "explicit-test-output") },
+    });
+
+    const progress = destination.database.prepare(
+      "SELECT run_id FROM workstream_progress WHERE workstream_id = ?",
+    ).all(imported.workstreamId) as Array<{ run_id: string }>;
+    expect(progress).toHaveLength(1);
+    expect(progress[0]!.run_id).toMatch(/^RUN-[0-9A-F]{8}-\d{10}$/);
+    expect(progress[0]!.run_id).not.toBe(source.fixture.prepared.run.runId);
+    expect((await destination.service.getWorkstream({ workstreamId: imported.workstreamId })).context)
+      .toMatchObject({ resources: [{ resource: { resourceId: localResource.resourceId } }] });
+    expect(destination.database.prepare(
+      "SELECT head_sha FROM workstream_repository_state WHERE singleton_id = 1",
+    ).get()).toEqual({
+      head_sha: await runGit(["rev-parse", "HEAD"], { cwd: join(destination.root, "workstreams") }),
+    });
+    const log = await runGit(["log", "--format=%s", "--", "W-20260720-0001-solar-research"], {
+      cwd: join(destination.root, "workstreams"),
+    });
+    expect(log.split("\n")).toEqual(["import workstream W-20260720-0001 resources", expect.any(String)]);
+  });
+
+  it("rejects tampered bundles and untrusted signers without touching the repository", async () => {
+    const source = await createSource("bundle-tamper");
+    const bundlePath = join(source.fixture.root, "export.ayati-workstream");
+    await source.fixture.service.exportWorkstream({
+      workstreamId: source.workstreamId,
+      outputPath: bundlePath,
+      at: IMPORT_AT,
+    });
+    const destination = await createWorkstreamServiceFixture("bundle-tamper-destination");
+    fixtures.push(destination);
+
+    await expect(destination.service.importWorkstream({
+      bundlePath,
+      trustedSigners: ["sha256:" + "0".repeat(64)],
+      at: IMPORT_AT,
+    })).rejects.toMatchObject({ code: "INVALID_REQUEST", message: "Workstream bundle is not signed by a trusted key." });
+    await expect(destination.service.importWorkstream({ bundlePath, at: IMPORT_AT }))
+      .rejects.toThrow("Workstream bundle is not signed by a trusted key.");
+
+    const bundle = JSON.parse(await readFile(bundlePath, "utf8"));
+    bundle.payload.title = "Someone Else's Research";
+    const tamperedPath = join(source.fixture.root, "tampered.ayati-workstream");
+    await writeFile(tamperedPath, JSON.stringify(bundle), "utf8");
+    await expect(destination.service.importWorkstream({
+      bundlePath: tamperedPath,
+      allowUntrusted: true,
+      at: IMPORT_AT,
+    })).rejects.toThrow("Workstream bundle signature does not match its contents.");
+    expect(destination.database.prepare("SELECT COUNT(*) AS count FROM workstreams").get())
+      .toEqual({ count: 0 });
+
+    const imported = await destination.service.importWorkstream({
+      bundlePath,
+      allowUntrusted: true,
+      at: IMPORT_AT,
+    });
+    expect(imported).toMatchObject({
+      workstreamId: source.workstreamId,
+      renamed: false,
+      trusted: false,
+      resources: [{ availability: "missing", reconciled: "created" }],
+    });
+  });
+
+  it("validates the rewritten history before moving the shared main", async () => {
+    const source = await createSource("bundle-invalid");
+    const bundlePath = join(source.fixture.root, "export.ayati-workstream");
+    await source.fixture.service.exportWorkstream({
+      workstreamId: source.workstreamId,
+      outputPath: bundlePath,
+      at: IMPORT_AT,
+    });
+    const bundle = JSON.parse(await readFile(bundlePath, "utf8"));
+    const clone = join(source.fixture.root, "bundle-clone");
+    const gitBundle = join(source.fixture.root, "original.bundle");
+    await writeFile(gitBundle, Buffer.from(bundle.payload.git, "base64"));
+    await runGit(["clone", "--quiet", "--branch", "main", gitBundle, clone], { cwd: source.fixture.root });
+    await writeFile(join(clone, bundle.payload.directory, "workstream.md"), "not a workstream card\n", "utf8");
+    await runGit(["-c", "user.name=Test", "-c", "user.email=test@example.com", "commit", "--quiet", "-am", "break card"], {
+      cwd: clone,
+    });
+    const brokenBundle = join(source.fixture.root, "broken.bundle");
+    await runGit(["bundle", "create", "--quiet", brokenBundle, "main"], { cwd: clone });
+    bundle.payload.git = (await readFile(brokenBundle)).toString("base64");
+    const { privateKey } = generateKeyPairSync("ed25519");
+    bundle.signature = {
+      algorithm: "ed25519",
+      publicKey: createPublicKey(privateKey).export({ type: "spki", format: "der" }).toString("base64"),
+      value: sign(null, Buffer.from(JSON.stringify(bundle.payload), "utf8"), privateKey).toString("base64"),
+    };
+    const brokenPath = join(source.fixture.root, "broken.ayati-workstream");
+    await writeFile(brokenPath, JSON.stringify(bundle), "utf8");
+
+    const destination = await createWorkstreamServiceFixture("bundle-invalid-destination");
+    fixtures.push(destination);
+    const repositoryPath = join(destination.root, "workstreams");
+    const reflog = await runGit(["reflog", "show", "--format=%H", "main"], { cwd: repositoryPath });
+
+    await expect(destination.service.importWorkstream({
+      bundlePath: brokenPath,
+      allowUntrusted: true,
+      at: IMPORT_AT,
+    })).rejects.toMatchObject({ code: "WORKSTREAM_CARD_INVALID" });
+    expect(await runGit(["reflog", "show", "--format=%H", "main"], { cwd: repositoryPath })).toBe(reflog);
+    expect(destination.database.prepare("SELECT COUNT(*) AS count FROM workstreams").get())
+      .toEqual({ count: 0 });
+  });
+});
+
+async function createSource(name: string): Promise<{
+  fixture: WorkstreamServiceFixture;
+  workstreamId: string;
+  resourceId: string;
+}> {
+  const fixture = await createWorkstreamServiceFixture(name, "Create a durable analysis workspace.");
+  fixtures.push(fixture);
+  const selected = await createBoundWorkstreamWithMutableDirectory(fixture, {
+    title: "Solar Research",
+    objective: "Analyze home solar options and retain durable evidence.",
+  });
+  const resource = selected.resourceBindings.find((binding) => binding.primary)?.resource;
+  if (!resource) throw new Error("Expected explicit primary output resource.");
+  await fixture.service.finalizeRun({
+    requestId: `REQ-${name}-finalize`,
+    runId: fixture.prepared.run.runId,
+    outcome: "incomplete",
+    stopReason: "run_limit",
+    assistantResponse: "The solar analysis remains in progress.",
+    streamSummary: "Started a durable solar analysis.",
+    summary: "The workstream and its output resource are initialized.",
+    validation: "not_applicable",
+    next: "Collect the first source set.",
+    workState: workState({ summary: "The workstream remains in progress." }),
+    workstream: {
+      completion: { accepted: false, resources: [], missing: [], failures: [], criteria: [] },
+      requestEffect: { kind: "none" },
+    },
+    at: "2026-07-19T10:02:00+05:30",
+  });
+  return {
+    fixture,
+    workstreamId: selected.workstream.workstreamId,
+    resourceId: resource.resourceId,
+  };
+}
@@ -262,6 +262,29 @@ describe("autonomous workstream discovery", () => {
     });
     expect(accessCount(state.fixture)).toBe(before);
   });
+
+  it("lets a client change a star without an active run", async () => {
+    const state = await createDiscoveryFixture();
+    const input = {
+      requestId: "REQ-user-star-research",
+      workstreamId: state.researchWorkstreamId,
+      starred: true,
+      at: "2026-07-19T10:09:00+05:30",
+    } as const;
+
+    const first = await state.fixture.service.setWorkstreamStarByUser(input);
+    const replay = await state.fixture.service.setWorkstreamStarByUser(input);
+    const starred = await state.fixture.service.findWorkstreams({ view: "starred" });
+
+    expect(replay).toEqual(first);
+    expect(first).toEqual({ workstreamId: state.researchWorkstreamId, starred: true, starredAt: input.at });
+    expect(starred.workstreams.map((workstream) => workstream.workstreamId)).toEqual([state.researchWorkstreamId]);
+    await expect(state.fixture.service.setWorkstreamStarByUser({
+      ...input,
+      requestId: "REQ-user-star-missing",
+      workstreamId: "W-20260719-9999",
+    })).rejects.toMatchObject({ code: "WORKSTREAM_NOT_FOUND" });
+  });
 });
 
 async function createDiscoveryFixture(): Promise<DiscoveryFixture> {
@@ -0,0 +1,275 @@
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import type { WorkstreamRequestRoute } from "../src/contracts.js";
+import { runGit } from "../src/git/git-process.js";
+import { validateWorkstreamRepository } from "../src/workstreams/workstream-repository-validator.js";
+import {
+  createBoundWorkstream,
+  createBoundWorkstreamWithMutableDirectory,
+  createWorkstreamServiceFixture,
+  materializeBoundWorkstream,
+  workState,
+  type WorkstreamServiceFixture,
+} from "./simple-workstream-repository-fixtures.js";
+
+const fixtures: WorkstreamServiceFixture[] = [];
+
+afterEach(async () => {
+  await Promise.all(fixtures.splice(0).map(async (fixture) => await fixture.dispose()));
+});
+
+describe("workstream lifecycle operations", () => {
+  it("archives and restores idempotently with one context commit each", async () => {
+    const { fixture, source } = await createWorkstreams("lifecycle-archive");
+
+    const archived = await fixture.service.archiveWorkstream({
+      requestId: "REQ-archive-1",
+      workstreamId: source,
+      archived: true,
+      at: at(4, 0),
+    });
+    expect(archived).toMatchObject({
+      operation: "archive",
+      workstreamId: source,
+      lifecycleStatus: "archived",
+      changed: true,
+      commit: expect.stringMatching(/^[0-9a-f]{40}$/),
+      movedRequests: [],
+    });
+    await expect(fixture.service.archiveWorkstream({
+      requestId: "REQ-archive-1",
+      workstreamId: source,
+      archived: true,
+      at: at(4, 0),
+    })).resolves.toEqual(archived);
+    await expect(fixture.service.archiveWorkstream({
+      requestId: "REQ-archive-2",
+      workstreamId: source,
+      archived: true,
+      at: at(4, 2),
+    })).resolves.toMatchObject({ changed: false, lifecycleStatus: "archived" });
+    expect(fixture.database.prepare(
+      "SELECT status FROM workstreams WHERE workstream_id = ?",
+    ).get(source)).toEqual({ status: "archived" });
+
+    const restored = await fixture.service.archiveWorkstream({
+      requestId: "REQ-restore",
+      workstreamId: source,
+      archived: false,
+      at: at(4, 3),
+    });
+    expect(restored).toMatchObject({ operation: "restore", lifecycleStatus: "active", changed: true });
+    expect(await operationSubjects(fixture)).toEqual([
+      `restore workstream ${source}`,
+      `archive workstream ${source}`,
+    ]);
+    expect(fixture.database.prepare(
+      "SELECT operation, phase FROM workstream_lifecycle_operations ORDER BY created_at",
+    ).all()).toEqual([
+      { operation: "archive", phase: "completed" },
+      { operation: "restore", phase: "completed" },
+    ]);
+  });
+
+  it("renames a workstream and keeps the former title searchable as an alias", async () => {
+    const { fixture, source } = await createWorkstreams("lifecycle-rename");
+
+    await expect(fixture.service.renameWorkstream({
+      requestId: "REQ-rename",
+      workstreamId: source,
+      title: "Rooftop Solar Study",
+      at: at(4, 0),
+    })).resolves.toMatchObject({ operation: "rename", title: "Rooftop Solar Study", changed: true });
+
+    expect(fixture.database.prepare(
+      "SELECT title, aliases FROM workstream_search WHERE workstream_id = ?",
+    ).get(source)).toEqual({
+      title: "Rooftop Solar Study",
+      aliases: expect.stringContaining("Solar Research"),
+    });
+    const listed = await fixture.service.listWorkstreams({ query: "rooftop" });
+    expect(listed.workstreams.map((workstream) => workstream.workstreamId)).toEqual([source]);
+    await expect(fixture.service.renameWorkstream({
+      requestId: "REQ-rename-again",
+      workstreamId: source,
+      title: "Rooftop Solar Study",
+      at: at(4, 1),
+    })).resolves.toMatchObject({ changed: false });
+  });
+
+  it("splits selected requests into a new workstream and merges one workstream into another", async () => {
+    const { fixture, source, target } = await createWorkstreams("lifecycle-merge");
+
+    const split = await fixture.service.splitWorkstream({
+      requestId: "REQ-split",
+      workstreamId: source,
+      requestIds: ["R-0002"],
+      title: "Battery Sizing",
+      at: at(4, 0),
+    });
+    expect(split).toMatchObject({
+      operation: "split",
+      workstreamId: "W-20260724-0001",
+      sourceWorkstreamId: source,
+      lifecycleStatus: "active",
+      changed: true,
+      movedRequests: [{ fromRequestId: "R-0002", toRequestId: "R-0001" }],
+    });
+    const created = await validate(fixture, split.workstreamId);
+    expect(created.health).toBe("ready");
+    expect(created.requests).toEqual([
+      expect.objectContaining({ id: "R-0001", status: "queued", title: "Battery sizing" }),
+    ]);
+    expect((await validate(fixture, source)).requests).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: "R-0001", status: "active" }),
+      expect.objectContaining({ id: "R-0002", status: "dropped" }),
+    ]));
+
+    const merged = await fixture.service.mergeWorkstreams({
+      requestId: "REQ-merge",
+      sourceWorkstreamId: source,
+      targetWorkstreamId: target,
+      at: at(4, 1),
+    });
+    expect(merged).toMatchObject({
+      operation: "merge",
+      workstreamId: target,
+      sourceWorkstreamId: source,
+      changed: true,
+      movedRequests: [{ fromRequestId: "R-0001", toRequestId: "R-0002" }],
+    });
+    expect(fixture.database.prepare(
+      "SELECT workstream_id, status FROM workstreams ORDER BY workstream_id",
+    ).all()).toEqual([
+      { workstream_id: source, status: "archived" },
+      { workstream_id: target, status: "active" },
+      { workstream_id: split.workstreamId, status: "active" },
+    ]);
+    expect(fixture.database.prepare(
+      "SELECT COUNT(*) AS count FROM workstream_progress WHERE workstream_id = ?",
+    ).get(source)).toEqual({ count: 0 });
+    expect(fixture.database.prepare(
+      "SELECT request_id FROM workstream_progress WHERE workstream_id = ? ORDER BY request_id",
+    ).all(target)).toEqual([
+      { request_id: "R-0001" },
+      { request_id: "R-0002" },
+    ]);
+    expect(fixture.database.prepare(
+      "SELECT request_id FROM workstream_progress WHERE workstream_id = ?",
+    ).all(split.workstreamId)).toEqual([{ request_id: "R-0001" }]);
+    expect(fixture.database.prepare(
+      "SELECT workstream_id, COUNT(*) AS count FROM workstream_resources GROUP BY workstream_id ORDER BY workstream_id",
+    ).all()).toEqual([{ workstream_id: target, count: 2 }]);
+    expect((await validate(fixture, target)).health).toBe("ready");
+
+    await expect(fixture.service.mergeWorkstreams({
+      requestId: "REQ-merge-again",
+      sourceWorkstreamId: source,
+      targetWorkstreamId: target,
+      at: at(4, 2),
+    })).resolves.toMatchObject({ changed: false, movedRequests: [] });
+    expect((await operationSubjects(fixture)).length).toBe(2);
+  });
+});
+
+async function createWorkstreams(name: string): Promise<{
+  fixture: WorkstreamServiceFixture;
+  source: string;
+  target: string;
+}> {
+  const fixture = await createWorkstreamServiceFixture(name, "Start the solar research.");
+  fixtures.push(fixture);
+  const selected = await createBoundWorkstreamWithMutableDirectory(fixture, {
+    title: "Solar Research",
+    objective: "Analyze home solar options.",
+  });
+  const source = selected.workstream.workstreamId;
+  let head = await finalize(fixture, 1);
+
+  fixture.prepared = await prepare(fixture, 2);
+  await fixture.service.activateWorkstreamForRun({
+    requestId: "REQ-lifecycle-2-activate",
+    runId: fixture.prepared.run.runId,
+    workstreamId: source,
+    expectedWorkstreamHead: head,
+    route: queuedRoute(),
+    at: at(2, 1),
+  });
+  head = await finalize(fixture, 2);
+
+  fixture.prepared = await prepare(fixture, 3);
+  const target = (await createBoundWorkstream(fixture, {
+    requestId: "REQ-lifecycle-3-create",
+    title: "Energy Plan",
+    objective: "Plan household energy upgrades.",
+  })).workstream.workstreamId;
+  await materializeBoundWorkstream(fixture);
+  return { fixture, source, target };
+}
+
+function queuedRoute(): WorkstreamRequestRoute {
+  return {
+    kind: "create_queued",
+    reason: "The user asked to size the battery later.",
+    title: "Battery sizing",
+    request: "Size a home battery for the solar system.",
+    acceptance: ["The battery size is justified."],
+    constraints: [],
+  };
+}
+
+async function prepare(fixture: WorkstreamServiceFixture, runNumber: number) {
+  return await fixture.service.prepareAgentRun({
+    requestId: `REQ-lifecycle-${runNumber}`,
+    timezone: "Asia/Kolkata",
+    agentId: "local",
+    role: "user",
+    content: `Continue the energy work ${runNumber}.`,
+    at: at(runNumber, 0),
+  });
+}
+
+async function finalize(fixture: WorkstreamServiceFixture, runNumber: number): Promise<string> {
+  const result = await fixture.service.finalizeRun({
+    requestId: `REQ-lifecycle-${runNumber}-finalize`,
+    runId: fixture.prepared.run.runId,
+    outcome: "incomplete",
+    stopReason: "run_limit",
+    assistantResponse: `Run ${runNumber} made progress.`,
+    streamSummary: `Run ${runNumber} made progress.`,
+    summary: `Run ${runNumber} made progress.`,
+    validation: "not_applicable",
+    next: "Continue the selected request.",
+    workState: workState(),
+    workstream: {
+      completion: { accepted: false, resources: [], missing: [], failures: [], criteria: [] },
+      requestEffect: { kind: "none" },
+    },
+    at: at(runNumber, 2),
+  });
+  if (result.workstreamContextCommit.status !== "committed") {
+    throw new Error("Expected the finalized bound run to create a context commit.");
+  }
+  return result.workstreamContextCommit.headAfter;
+}
+
+async function validate(fixture: WorkstreamServiceFixture, workstreamId: string) {
+  const { workstream } = await fixture.service.getWorkstream({ workstreamId });
+  return await validateWorkstreamRepository({
+    workstreamRoot: join(fixture.root, "workstreams"),
+    contextRepositoryPath: workstream.contextRepositoryPath,
+    expectedWorkstreamId: workstreamId,
+    requestReadMode: "all",
+  });
+}
+
+async function operationSubjects(fixture: WorkstreamServiceFixture): Promise<string[]> {
+  const log = await runGit(["log", "--format=%s%n%b", "--grep=^Operation: "], {
+    cwd: join(fixture.root, "workstreams"),
+  });
+  return log.split("\n").filter((line) => /^(archive|restore|rename|merge|split) /.test(line));
+}
+
+function at(runNumber: number, second: number): string {
+  return `2026-07-2${runNumber}T10:00:0${second}+05:30`;
+}
@@ -0,0 +1,139 @@
+import { readdir, stat } from "node:fs/promises";
+import { basename, isAbsolute, resolve } from "node:path";
+import {
+  MAX_CHAT_ATTACHMENTS,
+  type ChatAttachment,
+  type UploadImageInput,
+} from "../shared/contracts.js";
+import { readDesktopClientToken } from "./client-token.js";
+import { isLoopbackHostname } from "./daemon-client.js";
+
+const DEFAULT_DAEMON_HTTP_URL = "http://127.0.0.1:8081";
+const UPLOAD_PATH = "/api/uploads";
+const UPLOAD_TIMEOUT_MS = 60_000;
+
+export interface AttachmentBridgeOptions {
+  /** Daemon HTTP origin; defaults to AYATI_DESKTOP_HTTP_URL or the local daemon. */
+  httpUrl?: string;
+  /** Read before each upload; defaults to the daemon's token file. */
+  token?: () => string | undefined;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Issues chat attachments for the renderer. Paths are checked here and uploads go through the
+ * daemon's HTTP route, and a chat may only forward attachments this bridge issued, so the
+ * renderer never chooses what the daemon reads.
+ */
+export class AttachmentBridge {
+  private readonly uploadUrl: string;
+  private readonly token: () => string | undefined;
+  private readonly fetch: typeof fetch;
+  private readonly issued = new Map<string, ChatAttachment>();
+
+  constructor(options: AttachmentBridgeOptions = {}) {
+    this.uploadUrl = resolveDaemonUploadUrl(options.httpUrl);
+    this.token = options.token ?? (() => readDesktopClientToken());
+    this.fetch = options.fetch ?? fetch;
+  }
+
+  async inspectPaths(paths: readonly string[]): Promise<ChatAttachment[]> {
+    if (paths.length > MAX_CHAT_ATTACHMENTS) {
+      throw new Error(`Attach at most ${MAX_CHAT_ATTACHMENTS} files or folders at once.`);
+    }
+    const attachments: ChatAttachment[] = [];
+    for (const path of new Set(paths)) {
+      if (!isAbsolute(path)) {
+        throw new Error(`Attachment path must be absolute: ${path}`);
+      }
+      const absolute = resolve(path);
+      const stats = await stat(absolute).catch(() => null);
+      if (stats?.isFile()) {
+        attachments.push({ kind: "file", path: absolute, name: basename(absolute), sizeBytes: stats.size });
+      } else if (stats?.isDirectory()) {
+        const entries = await readdir(absolute).catch(() => null);
+        attachments.push({
+          kind: "directory",
+          path: absolute,
+          name: basename(absolute) || absolute,
+          ...(entries ? { entryCount: entries.length } : {}),
+        });
+      } else {
+        throw new Error(`${absolute} is not a readable file or folder.`);
+      }
+    }
+    return attachments.map((attachment) => this.issue(attachment));
+  }
+
+  async uploadImage(input: UploadImageInput): Promise<ChatAttachment> {
+    const token = this.token();
+    const form = new FormData();
+    form.set("file", new Blob([Uint8Array.from(input.bytes)], { type: input.mimeType }), input.name);
+    let response: Response;
+    try {
+      response = await this.fetch(this.uploadUrl, {
+        method: "POST",
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        body: form,
+        signal: AbortSignal.timeout(UPLOAD_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new Error(`Could not reach the Ayati upload server: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const body = await response.json().catch(() => ({})) as Record<string, unknown>;
+    if (!response.ok) {
+      throw new Error(typeof body["error"] === "string" ? `Upload failed: ${body["error"]}` : `Upload failed with HTTP ${response.status}.`);
+    }
+    const fileId = typeof body["fileId"] === "string" ? body["fileId"] : undefined;
+    if (!fileId) {
+      throw new Error("The upload server did not return a managed file id.");
+    }
+    return this.issue({
+      kind: "upload",
+      fileId,
+      name: typeof body["originalName"] === "string" ? body["originalName"] : input.name,
+      mimeType: typeof body["mimeType"] === "string" ? body["mimeType"] : input.mimeType,
+      sizeBytes: typeof body["sizeBytes"] === "number" ? body["sizeBytes"] : input.bytes.byteLength,
+    });
+  }
+
+  /** Returns the issued copies of `attachments`; any the bridge did not issue rejects the chat. */
+  resolveForSend(attachments: readonly ChatAttachment[]): ChatAttachment[] {
+    return attachments.map((attachment) => {
+      const issued = this.issued.get(attachmentKey(attachment));
+      if (!issued) {
+        throw new Error(`Attachment ${attachment.name} was not issued by this desktop session.`);
+      }
+      return issued;
+    });
+  }
+
+  private issue(attachment: ChatAttachment): ChatAttachment {
+    this.issued.set(attachmentKey(attachment), attachment);
+    return attachment;
+  }
+}
+
+export function resolveDaemonUploadUrl(configured?: string): string {
+  const raw = configured?.trim() || DEFAULT_DAEMON_HTTP_URL;
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new Error("AYATI_DESKTOP_HTTP_URL must be a valid HTTP URL.");
+  }
+  if (url.username || url.password) {
+    throw new Error("AYATI_DESKTOP_HTTP_URL must not contain credentials.");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("AYATI_DESKTOP_HTTP_URL must use http: or https:.");
+  }
+  if (url.protocol === "http:" && !isLoopbackHostname(url.hostname)) {
+    throw new Error("Unencrypted Ayati desktop uploads must use a loopback host.");
+  }
+  return new URL(UPLOAD_PATH, url).toString();
+}
+
+function attachmentKey(attachment: ChatAttachment): string {
+  return attachment.kind === "upload" ? `upload:${attachment.fileId}` : `${attachment.kind}:${attachment.path}`;
+}
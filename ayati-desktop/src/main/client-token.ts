@@ -0,0 +1,77 @@
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, isAbsolute, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const thisDir = dirname(fileURLToPath(import.meta.url));
+const repoRoot = resolve(thisDir, "..", "..", "..");
+const TOKEN_NAME = "desktop";
+
+export interface DesktopTokenOptions {
+  env?: NodeJS.ProcessEnv;
+  /** Checkout that holds `.env` and `ayati-main`; defaults to the one the app runs from. */
+  repoRoot?: string;
+}
+
+/**
+ * Token the desktop presents in `client_hello`: AYATI_DESKTOP_TOKEN when set, otherwise the
+ * `desktop` entry of the daemon's token file. Read on every connection attempt so a rotated
+ * token is picked up by the next reconnect.
+ */
+export function readDesktopClientToken(options: DesktopTokenOptions = {}): string | undefined {
+  const override = (options.env ?? process.env)["AYATI_DESKTOP_TOKEN"]?.trim();
+  if (override) {
+    return override;
+  }
+  try {
+    const parsed = JSON.parse(readFileSync(desktopTokensFile(options), "utf8")) as unknown;
+    const tokens = parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)["tokens"]
+      : undefined;
+    if (!Array.isArray(tokens)) return undefined;
+    for (const entry of tokens) {
+      const record = entry && typeof entry === "object" ? entry as Record<string, unknown> : {};
+      if (record["name"] === TOKEN_NAME && typeof record["token"] === "string") {
+        return record["token"];
+      }
+    }
+  } catch {
+    // The daemon has not created the file yet, or it belongs to another user.
+  }
+  return undefined;
+}
+
+/** `<AYATI_ROOT_DIR>/.ayati/client-tokens.json`, resolved the same way the daemon resolves its root. */
+export function desktopTokensFile(options: DesktopTokenOptions = {}): string {
+  const root = options.repoRoot ?? repoRoot;
+  const daemonDir = join(root, "ayati-main");
+  const configured = expandHome(
+    (options.env ?? process.env)["AYATI_ROOT_DIR"]?.trim() || readDotEnvValue(join(root, ".env"), "AYATI_ROOT_DIR") || "",
+  );
+  const rootDirectory = !configured
+    ? join(daemonDir, "ayati")
+    : isAbsolute(configured) ? resolve(configured) : resolve(daemonDir, configured);
+  return join(rootDirectory, ".ayati", "client-tokens.json");
+}
+
+function readDotEnvValue(path: string, key: string): string | undefined {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch {
+    return undefined;
+  }
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/.exec(line);
+    if (match?.[1] !== key) continue;
+    const value = match[2]!.trim();
+    const quoted = /^(["'])(.*)\1$/.exec(value);
+    return (quoted ? quoted[2]! : value.replace(/\s+#.*$/, "")).trim() || undefined;
+  }
+  return undefined;
+}
+
+function expandHome(value: string): string {
+  if (value === "~") return homedir();
+  return value.startsWith("~/") ? join(homedir(), value.slice(2)) : value;
+}
@@ -1,21 +1,35 @@
+import { randomUUID } from "node:crypto";
 import WebSocket, { type RawData } from "ws";
 import {
   parseDaemonServerMessage,
+  type ApprovalDecision,
+  type ChatAttachment,
   type DaemonConnectionState,
   type DesktopEvent,
 } from "../shared/contracts.js";
+import { desktopTokensFile, readDesktopClientToken } from "./client-token.js";
 
 const DEFAULT_DAEMON_URL = "ws://127.0.0.1:8080";
 const INITIAL_RETRY_MS = 1_000;
 const MAX_RETRY_MS = 30_000;
 const CONNECTION_TIMEOUT_MS = 10_000;
 const MAX_SERVER_MESSAGE_BYTES = 4 * 1024 * 1024;
+const QUERY_TIMEOUT_MS = 30_000;
 
 export interface DaemonClientOptions {
   url?: string;
   initialRetryMs?: number;
   maxRetryMs?: number;
   now?: () => Date;
+  /** Called before each connection attempt; defaults to the daemon's token file. */
+  token?: () => string | undefined;
+  queryTimeoutMs?: number;
+}
+
+interface PendingQuery {
+  resolve(result: unknown): void;
+  reject(error: Error): void;
+  timer: ReturnType<typeof setTimeout>;
 }
 
 export class DaemonClient {
@@ -23,6 +37,9 @@ export class DaemonClient {
   private readonly initialRetryMs: number;
   private readonly maxRetryMs: number;
   private readonly now: () => Date;
+  private readonly token: () => string | undefined;
+  private readonly queryTimeoutMs: number;
+  private readonly pendingQueries = new Map<string, PendingQuery>();
   private readonly listeners = new Set<(event: DesktopEvent) => void>();
   private socket: WebSocket | null = null;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
@@ -38,6 +55,8 @@ export class DaemonClient {
       positiveInteger(options.maxRetryMs) ?? MAX_RETRY_MS,
     );
     this.now = options.now ?? (() => new Date());
+    this.token = options.token ?? (() => readDesktopClientToken());
+    this.queryTimeoutMs = positiveInteger(options.queryTimeoutMs) ?? QUERY_TIMEOUT_MS;
     this.connectionState = {
       status: "disconnected",
       changedAt: this.now().toISOString(),
@@ -63,6 +82,7 @@ export class DaemonClient {
     if (socket && socket.readyState < WebSocket.CLOSING) {
       socket.close(1000, "Ayati desktop is stopping");
     }
+    this.rejectPendingQueries("Desktop connection stopped.");
     this.updateConnectionState({
       status: "disconnected",
       changedAt: this.now().toISOString(),
@@ -79,11 +99,12 @@ export class DaemonClient {
     return { ...this.connectionState };
   }
 
-  sendChat(messageId: string, content: string): void {
+  sendChat(messageId: string, content: string, attachments: readonly ChatAttachment[] = []): void {
     this.send({
       type: "chat",
       messageId,
       content,
+      ...(attachments.length > 0 ? { attachments: attachments.map(toDaemonAttachment) } : {}),
     });
   }
 
@@ -95,6 +116,42 @@ export class DaemonClient {
     });
   }
 
+  respondToApproval(approvalId: string, decision: ApprovalDecision): void {
+    this.send({
+      type: "approval_response",
+      approvalId,
+      decision,
+    });
+  }
+
+  cancelRun(messageId: string): void {
+    this.send({
+      type: "cancel_run",
+      messageId,
+    });
+  }
+
+  /**
+   * Sends a daemon `query` envelope and resolves with its result. Queries are answered only to
+   * this connection, so one that is in flight when the socket closes is rejected.
+   */
+  async query(kind: string, fields: Record<string, unknown> = {}): Promise<unknown> {
+    const queryId = randomUUID();
+    const result = new Promise<unknown>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingQueries.delete(queryId);
+        reject(new Error("The Ayati daemon did not answer in time."));
+      }, this.queryTimeoutMs);
+      this.pendingQueries.set(queryId, { resolve, reject, timer });
+    });
+    try {
+      this.send({ ...fields, type: "query", queryId, kind });
+    } catch (error) {
+      this.settleQuery(queryId)?.reject(error as Error);
+    }
+    return await result;
+  }
+
   private connect(): void {
     if (this.stopped) return;
     this.updateConnectionState({
@@ -122,29 +179,37 @@ export class DaemonClient {
         changedAt: this.now().toISOString(),
         detail: "Connected to the Ayati daemon.",
       });
+      const token = this.token();
       socket.send(JSON.stringify({
         type: "client_hello",
         clientKind: "desktop",
+        ...(token ? { token } : {}),
         capabilities: {
           replyStreaming: true,
+          approvals: true,
         },
       }));
     });
 
-    socket.on("message", (data) => this.handleMessage(data));
+    socket.on("message", (data) => {
+      const rejection = this.handleMessage(data);
+      if (rejection) latestError = rejection;
+    });
     socket.once("error", (error) => {
       latestError = error.message;
     });
     socket.once("close", () => {
       if (this.socket === socket) {
         this.socket = null;
+        this.rejectPendingQueries("Daemon connection closed before it answered.");
       }
       if (this.stopped) return;
       this.scheduleReconnect(latestError);
     });
   }
 
-  private handleMessage(data: RawData): void {
+  /** Returns the daemon's explanation when it rejects this client's token. */
+  private handleMessage(data: RawData): string | undefined {
     const bytes = toBuffer(data);
     if (bytes.byteLength > MAX_SERVER_MESSAGE_BYTES) {
       console.warn("Ignored oversized Ayati daemon message.");
@@ -157,6 +222,12 @@ export class DaemonClient {
       console.warn("Ignored non-JSON Ayati daemon message.");
       return;
     }
+    const rejection = unauthorizedContent(parsed);
+    if (rejection) {
+      return `${rejection} The desktop reads its token from ${desktopTokensFile()}; `
+        + "set AYATI_DESKTOP_TOKEN to use a different one.";
+    }
+    if (this.handleQueryResult(parsed)) return;
     const message = parseDaemonServerMessage(parsed);
     if (!message) {
       console.warn("Ignored unsupported Ayati daemon message.");
@@ -165,6 +236,34 @@ export class DaemonClient {
     this.emit({ type: "server_message", message });
   }
 
+  private handleQueryResult(value: unknown): boolean {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+    const record = value as Record<string, unknown>;
+    if (record["type"] !== "query_result" || typeof record["queryId"] !== "string") return false;
+    const pending = this.settleQuery(record["queryId"]);
+    if (!pending) return true;
+    if (record["ok"] === true) {
+      pending.resolve(record["result"]);
+    } else {
+      pending.reject(new Error(typeof record["error"] === "string" ? record["error"] : "The daemon query failed."));
+    }
+    return true;
+  }
+
+  private settleQuery(queryId: string): PendingQuery | undefined {
+    const pending = this.pendingQueries.get(queryId);
+    if (!pending) return undefined;
+    clearTimeout(pending.timer);
+    this.pendingQueries.delete(queryId);
+    return pending;
+  }
+
+  private rejectPendingQueries(reason: string): void {
+    for (const queryId of [...this.pendingQueries.keys()]) {
+      this.settleQuery(queryId)?.reject(new Error(reason));
+    }
+  }
+
   private scheduleReconnect(errorMessage?: string): void {
     const retryInMs = Math.min(
       this.initialRetryMs * 2 ** this.reconnectAttempt,
@@ -229,7 +328,14 @@ export function resolveDaemonWebSocketUrl(configured?: string): string {
   return url.toString();
 }
 
-function isLoopbackHostname(hostname: string): boolean {
+function unauthorizedContent(value: unknown): string | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  const record = value as Record<string, unknown>;
+  if (record["type"] !== "unauthorized") return undefined;
+  return typeof record["content"] === "string" ? record["content"] : "The daemon rejected the desktop token.";
+}
+
+export function isLoopbackHostname(hostname: string): boolean {
   const normalized = hostname.toLowerCase().replace(/^\[|\]$/g, "");
   return normalized === "localhost" || normalized === "127.0.0.1" || normalized === "::1";
 }
@@ -245,3 +351,10 @@ function toBuffer(data: RawData): Buffer {
   if (data instanceof ArrayBuffer) return Buffer.from(data);
   return data;
 }
+
+/** The daemon reads `{fileId}` as a managed file and `{type, path, name}` as a local path mention. */
+function toDaemonAttachment(attachment: ChatAttachment): Record<string, string> {
+  return attachment.kind === "upload"
+    ? { fileId: attachment.fileId }
+    : { type: attachment.kind, path: attachment.path, name: attachment.name };
+}
@@ -1,20 +1,37 @@
 import { randomUUID } from "node:crypto";
-import { ipcMain, type BrowserWindow, type IpcMainInvokeEvent } from "electron";
+import { dialog, ipcMain, type BrowserWindow, type IpcMainInvokeEvent } from "electron";
 import {
+  parseApprovalResponseInput,
+  parseAttachPathsInput,
+  parseCancelRunInput,
+  parseMemoryRequest,
+  parsePickAttachmentsInput,
   parseReplyRenderedInput,
   parseSendChatInput,
+  parseUploadImageInput,
+  type ChatAttachment,
   type SendChatReceipt,
 } from "../shared/contracts.js";
+import type { AttachmentBridge } from "./attachment-bridge.js";
 import { isTrustedDesktopUrl } from "./desktop-protocol.js";
 import type { DaemonClient } from "./daemon-client.js";
+import { handleMemoryRequest } from "./memory-bridge.js";
 
 export const DESKTOP_EVENT_CHANNEL = "ayati:desktop-event";
 const GET_CONNECTION_STATE_CHANNEL = "ayati:get-connection-state";
 const SEND_CHAT_CHANNEL = "ayati:send-chat";
 const REPLY_RENDERED_CHANNEL = "ayati:reply-rendered";
+const APPROVAL_RESPONSE_CHANNEL = "ayati:approval-response";
+const CANCEL_RUN_CHANNEL = "ayati:cancel-run";
+const MEMORY_CHANNEL = "ayati:memory";
+const ATTACH_PATHS_CHANNEL = "ayati:attach-paths";
+const PICK_ATTACHMENTS_CHANNEL = "ayati:pick-attachments";
+const UPLOAD_IMAGE_CHANNEL = "ayati:upload-image";
+const MEMORY_FILE_FILTERS = [{ name: "Ayati memory export", extensions: ["json"] }];
 
 export interface DesktopIpcOptions {
   client: DaemonClient;
+  attachments: AttachmentBridge;
   getWindow: () => BrowserWindow | null;
   now?: () => Date;
 }
@@ -29,13 +46,46 @@ export function registerDesktopIpc(options: DesktopIpcOptions): () => void {
     assertTrustedSender(event, options.getWindow());
     const input = parseSendChatInput(value);
     if (!input) {
-      throw new Error("Chat content must contain between 1 and 100000 characters.");
+      throw new Error("Chat content must contain between 1 and 100000 characters and at most 10 attachments.");
     }
+    const attachments = options.attachments.resolveForSend(input.attachments ?? []);
     const messageId = randomUUID();
     const submittedAt = now().toISOString();
-    options.client.sendChat(messageId, input.content);
+    options.client.sendChat(messageId, input.content, attachments);
     return { messageId, submittedAt };
   });
+  ipcMain.handle(ATTACH_PATHS_CHANNEL, async (event, value: unknown): Promise<ChatAttachment[]> => {
+    assertTrustedSender(event, options.getWindow());
+    const input = parseAttachPathsInput(value);
+    if (!input) {
+      throw new Error("Attach between 1 and 10 files or folders.");
+    }
+    return await options.attachments.inspectPaths(input.paths);
+  });
+  ipcMain.handle(PICK_ATTACHMENTS_CHANNEL, async (event, value: unknown): Promise<ChatAttachment[]> => {
+    const window = options.getWindow();
+    assertTrustedSender(event, window);
+    const input = parsePickAttachmentsInput(value);
+    if (!input) {
+      throw new Error("Attachment picker request is invalid.");
+    }
+    const result = await dialog.showOpenDialog(window!, {
+      title: input.kind === "directory" ? "Attach folders" : "Attach files",
+      properties: [input.kind === "directory" ? "openDirectory" : "openFile", "multiSelections"],
+    });
+    if (result.canceled || result.filePaths.length === 0) {
+      return [];
+    }
+    return await options.attachments.inspectPaths(result.filePaths);
+  });
+  ipcMain.handle(UPLOAD_IMAGE_CHANNEL, async (event, value: unknown): Promise<ChatAttachment> => {
+    assertTrustedSender(event, options.getWindow());
+    const input = parseUploadImageInput(value);
+    if (!input) {
+      throw new Error("Pasted images must be non-empty image files of at most 25 MB.");
+    }
+    return await options.attachments.uploadImage(input);
+  });
   ipcMain.handle(REPLY_RENDERED_CHANNEL, (event, value: unknown): void => {
     assertTrustedSender(event, options.getWindow());
     const input = parseReplyRenderedInput(value);
@@ -44,11 +94,60 @@ export function registerDesktopIpc(options: DesktopIpcOptions): () => void {
     }
     options.client.acknowledgeReplyRendered(input.turnId, input.renderedAt);
   });
+  ipcMain.handle(APPROVAL_RESPONSE_CHANNEL, (event, value: unknown): void => {
+    assertTrustedSender(event, options.getWindow());
+    const input = parseApprovalResponseInput(value);
+    if (!input) {
+      throw new Error("Approval response is invalid.");
+    }
+    options.client.respondToApproval(input.approvalId, input.decision);
+  });
+  ipcMain.handle(CANCEL_RUN_CHANNEL, (event, value: unknown): void => {
+    assertTrustedSender(event, options.getWindow());
+    const input = parseCancelRunInput(value);
+    if (!input) {
+      throw new Error("Cancel request is invalid.");
+    }
+    options.client.cancelRun(input.messageId);
+  });
+  ipcMain.handle(MEMORY_CHANNEL, async (event, value: unknown): Promise<unknown> => {
+    const window = options.getWindow();
+    assertTrustedSender(event, window);
+    const request = parseMemoryRequest(value);
+    if (!request) {
+      throw new Error("Memory request is invalid.");
+    }
+    return await handleMemoryRequest(request, {
+      client: options.client,
+      chooseExportPath: async () => {
+        const result = await dialog.showSaveDialog(window!, {
+          title: "Export personal memory",
+          defaultPath: `ayati-memory-${now().toISOString().slice(0, 10)}.json`,
+          filters: MEMORY_FILE_FILTERS,
+        });
+        return result.canceled || !result.filePath ? null : result.filePath;
+      },
+      chooseImportPath: async () => {
+        const result = await dialog.showOpenDialog(window!, {
+          title: "Import personal memory",
+          properties: ["openFile"],
+          filters: MEMORY_FILE_FILTERS,
+        });
+        return result.canceled ? null : result.filePaths[0] ?? null;
+      },
+    });
+  });
 
   return () => {
     ipcMain.removeHandler(GET_CONNECTION_STATE_CHANNEL);
     ipcMain.removeHandler(SEND_CHAT_CHANNEL);
     ipcMain.removeHandler(REPLY_RENDERED_CHANNEL);
+    ipcMain.removeHandler(APPROVAL_RESPONSE_CHANNEL);
+    ipcMain.removeHandler(CANCEL_RUN_CHANNEL);
+    ipcMain.removeHandler(MEMORY_CHANNEL);
+    ipcMain.removeHandler(ATTACH_PATHS_CHANNEL);
+    ipcMain.removeHandler(PICK_ATTACHMENTS_CHANNEL);
+    ipcMain.removeHandler(UPLOAD_IMAGE_CHANNEL);
   };
 }
 
@@ -1,6 +1,7 @@
 import { dirname, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 import { app, session } from "electron";
+import { AttachmentBridge } from "./attachment-bridge.js";
 import { DaemonClient } from "./daemon-client.js";
 import {
   desktopUrl,
@@ -74,6 +75,7 @@ async function startDesktop(): Promise<void> {
   });
   unregisterIpc = registerDesktopIpc({
     client,
+    attachments: new AttachmentBridge({ httpUrl: process.env["AYATI_DESKTOP_HTTP_URL"] }),
     getWindow: () => windowManager?.getWindow() ?? null,
   });
   unsubscribeClient = client.subscribe((event) => {
@@ -0,0 +1,78 @@
+import { readFile, writeFile } from "node:fs/promises";
+import type {
+  MemoryImportOutcome,
+  MemoryRequest,
+  MemoryResultByKind,
+} from "../shared/contracts.js";
+
+export interface MemoryBridgeOptions {
+  client: { query(kind: string, fields?: Record<string, unknown>): Promise<unknown> };
+  /** Returns the file to write an export to, or null when the user cancels. */
+  chooseExportPath(): Promise<string | null>;
+  /** Returns the export file to import, or null when the user cancels. */
+  chooseImportPath(): Promise<string | null>;
+}
+
+/**
+ * Runs a memory-view action against the daemon. Export and import files are handled here so the
+ * renderer never touches the filesystem; the daemon still validates imported documents.
+ */
+export async function handleMemoryRequest<R extends MemoryRequest>(
+  request: R,
+  options: MemoryBridgeOptions,
+): Promise<MemoryResultByKind[R["kind"]]> {
+  return await runMemoryRequest(request, options) as MemoryResultByKind[R["kind"]];
+}
+
+async function runMemoryRequest(request: MemoryRequest, options: MemoryBridgeOptions): Promise<unknown> {
+  switch (request.kind) {
+    case "list_memories":
+      return await options.client.query("list_memories", {
+        ...(request.sectionId ? { sectionId: request.sectionId } : {}),
+        ...(request.includeInactive ? { includeInactive: true } : {}),
+      });
+    case "memory_detail":
+    case "archive_memory":
+      return await options.client.query(request.kind, { memoryId: request.memoryId });
+    case "edit_memory":
+      return await options.client.query("edit_memory", {
+        memoryId: request.memoryId,
+        updates: { text: request.text },
+      });
+    case "export_memory": {
+      const path = await options.chooseExportPath();
+      if (!path) return null;
+      const document = await options.client.query("export_memory");
+      await writeFile(path, `${JSON.stringify(document, null, 2)}\n`, { mode: 0o600 });
+      return { path, cards: countCards(document) };
+    }
+    case "import_memory": {
+      const path = await options.chooseImportPath();
+      if (!path) return null;
+      const document = await readExportFile(path);
+      const result = await options.client.query("import_memory", { document, mode: request.mode });
+      return { ...(result as Omit<MemoryImportOutcome, "path">), path };
+    }
+  }
+}
+
+async function readExportFile(path: string): Promise<unknown> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (error) {
+    throw new Error(`Could not read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    throw new Error(`${path} is not a JSON memory export.`);
+  }
+}
+
+function countCards(document: unknown): number {
+  const cards = document && typeof document === "object"
+    ? (document as Record<string, unknown>)["cards"]
+    : undefined;
+  return Array.isArray(cards) ? cards.length : 0;
+}
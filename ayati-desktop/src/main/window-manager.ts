@@ -184,6 +184,14 @@ function notificationContent(
       body: truncate(message.content),
     };
   }
+  if (message.type === "notification" && message.schedule) {
+    return {
+      title: message.schedule.status === "completed"
+        ? `Ayati · ${message.schedule.name}`
+        : `Ayati · ${message.schedule.name} ${message.schedule.status}`,
+      body: truncate(message.content),
+    };
+  }
   if (
     message.type === "reply"
     || message.type === "feedback"
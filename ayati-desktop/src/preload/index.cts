@@ -1,17 +1,30 @@
-import { contextBridge, ipcRenderer } from "electron";
+import { contextBridge, ipcRenderer, webUtils } from "electron";
 import type {
+  ApprovalResponseInput,
   AyatiDesktopApi,
+  CancelRunInput,
+  ChatAttachment,
   DaemonConnectionState,
   DesktopEvent,
+  MemoryRequest,
+  MemoryResultByKind,
+  PickAttachmentsInput,
   ReplyRenderedInput,
   SendChatInput,
   SendChatReceipt,
+  UploadImageInput,
 } from "../shared/contracts.js";
 
 const DESKTOP_EVENT_CHANNEL = "ayati:desktop-event";
 const GET_CONNECTION_STATE_CHANNEL = "ayati:get-connection-state";
 const SEND_CHAT_CHANNEL = "ayati:send-chat";
 const REPLY_RENDERED_CHANNEL = "ayati:reply-rendered";
+const APPROVAL_RESPONSE_CHANNEL = "ayati:approval-response";
+const CANCEL_RUN_CHANNEL = "ayati:cancel-run";
+const MEMORY_CHANNEL = "ayati:memory";
+const ATTACH_PATHS_CHANNEL = "ayati:attach-paths";
+const PICK_ATTACHMENTS_CHANNEL = "ayati:pick-attachments";
+const UPLOAD_IMAGE_CHANNEL = "ayati:upload-image";
 const MAX_PENDING_EVENTS = 100;
 const eventListeners = new Set<(event: DesktopEvent) => void>();
 const pendingEvents: DesktopEvent[] = [];
@@ -37,9 +50,30 @@ const api: AyatiDesktopApi = Object.freeze({
   sendChat: async (input: SendChatInput): Promise<SendChatReceipt> => (
     await ipcRenderer.invoke(SEND_CHAT_CHANNEL, input) as SendChatReceipt
   ),
+  attachFiles: async (files: readonly File[]): Promise<ChatAttachment[]> => {
+    // Only the OS path crosses to the main process, which stats it before issuing an attachment.
+    const paths = files.map((file) => webUtils.getPathForFile(file)).filter((path) => path.length > 0);
+    if (paths.length === 0) return [];
+    return await ipcRenderer.invoke(ATTACH_PATHS_CHANNEL, { paths }) as ChatAttachment[];
+  },
+  pickAttachments: async (input: PickAttachmentsInput): Promise<ChatAttachment[]> => (
+    await ipcRenderer.invoke(PICK_ATTACHMENTS_CHANNEL, input) as ChatAttachment[]
+  ),
+  uploadImage: async (input: UploadImageInput): Promise<ChatAttachment> => (
+    await ipcRenderer.invoke(UPLOAD_IMAGE_CHANNEL, input) as ChatAttachment
+  ),
   acknowledgeReplyRendered: async (input: ReplyRenderedInput): Promise<void> => {
     await ipcRenderer.invoke(REPLY_RENDERED_CHANNEL, input);
   },
+  respondToApproval: async (input: ApprovalResponseInput): Promise<void> => {
+    await ipcRenderer.invoke(APPROVAL_RESPONSE_CHANNEL, input);
+  },
+  cancelRun: async (input: CancelRunInput): Promise<void> => {
+    await ipcRenderer.invoke(CANCEL_RUN_CHANNEL, input);
+  },
+  memory: async <R extends MemoryRequest>(request: R): Promise<MemoryResultByKind[R["kind"]]> => (
+    await ipcRenderer.invoke(MEMORY_CHANNEL, request) as MemoryResultByKind[R["kind"]]
+  ),
   onEvent: (listener: (event: DesktopEvent) => void): (() => void) => {
     eventListeners.add(listener);
     const bufferedEvents = pendingEvents.splice(0);
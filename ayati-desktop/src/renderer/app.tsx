@@ -1,14 +1,30 @@
-import { useEffect, useReducer, useRef, useState, type FormEvent, type KeyboardEvent } from "react";
-import type {
-  DaemonConnectionState,
-  DesktopEvent,
-  ReplyDoneMessage,
+import {
+  useEffect,
+  useReducer,
+  useRef,
+  useState,
+  type ClipboardEvent,
+  type DragEvent,
+  type FormEvent,
+  type KeyboardEvent,
+} from "react";
+import {
+  MAX_CHAT_ATTACHMENTS,
+  MAX_PASTED_IMAGE_BYTES,
+  type ApprovalDecision,
+  type ApprovalRequestedMessage,
+  type ChatAttachment,
+  type DaemonConnectionState,
+  type DesktopEvent,
+  type ReplyDoneMessage,
 } from "../shared/contracts.js";
 import {
   initialChatState,
+  mergeAttachments,
   reduceChatState,
   type ChatViewMessage,
 } from "./chat-state.js";
+import { MemoryView } from "./memory-view.js";
 
 const INITIAL_CONNECTION: DaemonConnectionState = {
   status: "disconnected",
@@ -21,6 +37,10 @@ export function App(): React.JSX.Element {
   const [chat, dispatch] = useReducer(reduceChatState, initialChatState);
   const [draft, setDraft] = useState("");
   const [submitting, setSubmitting] = useState(false);
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([]);
+  const [attaching, setAttaching] = useState(false);
+  const [dragActive, setDragActive] = useState(false);
+  const [memoryOpen, setMemoryOpen] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const acknowledgedTurnsRef = useRef(new Set<string>());
 
@@ -59,9 +79,13 @@ export function App(): React.JSX.Element {
     if (!content || submitting || connection.status !== "connected") return;
     setSubmitting(true);
     try {
-      const receipt = await window.ayati.sendChat({ content });
-      dispatch({ type: "chat_submitted", content, receipt });
+      const receipt = await window.ayati.sendChat({
+        content,
+        ...(attachments.length > 0 ? { attachments } : {}),
+      });
+      dispatch({ type: "chat_submitted", content, attachments, receipt });
       setDraft("");
+      setAttachments([]);
     } catch (error) {
       dispatch({
         type: "submission_failed",
@@ -73,6 +97,68 @@ export function App(): React.JSX.Element {
     }
   };
 
+  const addAttachments = async (load: () => Promise<ChatAttachment[]>): Promise<void> => {
+    if (attaching) return;
+    setAttaching(true);
+    try {
+      const merged = mergeAttachments(attachments, await load());
+      setAttachments(merged.attachments);
+      if (merged.dropped > 0) {
+        reportError(`Messages can carry at most ${MAX_CHAT_ATTACHMENTS} attachments.`);
+      }
+    } catch (error) {
+      reportError(formatError(error));
+    } finally {
+      setAttaching(false);
+    }
+  };
+
+  const reportError = (message: string): void => {
+    dispatch({ type: "submission_failed", message, receivedAt: new Date().toISOString() });
+  };
+
+  const handleDragOver = (event: DragEvent): void => {
+    if (!event.dataTransfer.types.includes("Files")) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = connection.status === "connected" ? "copy" : "none";
+    setDragActive(true);
+  };
+
+  const handleDragLeave = (event: DragEvent): void => {
+    if (event.relatedTarget instanceof Node && event.currentTarget.contains(event.relatedTarget)) return;
+    setDragActive(false);
+  };
+
+  const handleDrop = (event: DragEvent): void => {
+    event.preventDefault();
+    setDragActive(false);
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length === 0 || connection.status !== "connected" || memoryOpen) return;
+    void addAttachments(() => window.ayati.attachFiles(files));
+  };
+
+  const handlePaste = (event: ClipboardEvent<HTMLTextAreaElement>): void => {
+    const images = Array.from(event.clipboardData.files).filter((file) => file.type.startsWith("image/"));
+    if (images.length === 0) return;
+    if (!event.clipboardData.types.includes("text/plain")) {
+      event.preventDefault();
+    }
+    void addAttachments(async () => {
+      const uploaded: ChatAttachment[] = [];
+      for (const image of images) {
+        if (image.size > MAX_PASTED_IMAGE_BYTES) {
+          throw new Error(`${image.name || "Pasted image"} is larger than 25 MB.`);
+        }
+        uploaded.push(await window.ayati.uploadImage({
+          name: image.name || `pasted-image.${image.type.slice("image/".length) || "png"}`,
+          mimeType: image.type,
+          bytes: new Uint8Array(await image.arrayBuffer()),
+        }));
+      }
+      return uploaded;
+    });
+  };
+
   const handleSubmit = (event: FormEvent): void => {
     event.preventDefault();
     void submit();
@@ -85,10 +171,43 @@ export function App(): React.JSX.Element {
     }
   };
 
+  const answerApproval = async (approvalId: string, decision: ApprovalDecision): Promise<void> => {
+    try {
+      await window.ayati.respondToApproval({ approvalId, decision });
+      dispatch({ type: "approval_answered", approvalId });
+    } catch (error) {
+      dispatch({
+        type: "submission_failed",
+        message: formatError(error),
+        receivedAt: new Date().toISOString(),
+      });
+    }
+  };
+
+  const stopRun = async (): Promise<void> => {
+    const messageId = chat.activeMessageId;
+    if (!messageId || chat.stopRequested) return;
+    dispatch({ type: "stop_requested" });
+    try {
+      await window.ayati.cancelRun({ messageId });
+    } catch (error) {
+      dispatch({
+        type: "submission_failed",
+        message: formatError(error),
+        receivedAt: new Date().toISOString(),
+      });
+    }
+  };
+
   const sendDisabled = connection.status !== "connected" || draft.trim().length === 0 || submitting;
 
   return (
-    <main className="app-shell">
+    <main
+      className={`app-shell ${dragActive ? "drag-active" : ""}`}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       <header className="topbar">
         <div className="brand-lockup">
           <div className="brand-mark" aria-hidden="true"><span /></div>
@@ -97,10 +216,21 @@ export function App(): React.JSX.Element {
             <div className="brand-subtitle">DESKTOP CHANNEL</div>
           </div>
         </div>
-        <ConnectionBadge state={connection} />
+        <div className="topbar-actions">
+          <button
+            type="button"
+            className={`view-toggle ${memoryOpen ? "active" : ""}`}
+            aria-pressed={memoryOpen}
+            onClick={() => setMemoryOpen((open) => !open)}
+          >
+            {memoryOpen ? "Back to chat" : "Memory"}
+          </button>
+          <ConnectionBadge state={connection} />
+        </div>
       </header>
 
-      <section className="conversation" aria-label="Conversation">
+      {memoryOpen ? <MemoryView connected={connection.status === "connected"} /> : null}
+      <section className="conversation" aria-label="Conversation" hidden={memoryOpen}>
         {chat.messages.length === 0 ? <EmptyState connected={connection.status === "connected"} /> : null}
         <div className="message-list" aria-live="polite">
           {chat.messages.map((message) => <Message key={message.id} message={message} />)}
@@ -110,6 +240,13 @@ export function App(): React.JSX.Element {
               Queued at position {chat.queuePosition}
             </div>
           ) : null}
+          {chat.pendingApprovals.map((request) => (
+            <ApprovalCard
+              key={request.approvalId}
+              request={request}
+              onAnswer={(decision) => void answerApproval(request.approvalId, decision)}
+            />
+          ))}
           {chat.progressLines.length > 0 ? (
             <div className="progress-card">
               <div className="progress-title">
@@ -136,22 +273,60 @@ export function App(): React.JSX.Element {
             {connection.detail ?? "Start the Ayati daemon to begin."}
           </div>
         ) : null}
+        {attachments.length > 0 ? (
+          <AttachmentChips
+            attachments={attachments}
+            onRemove={(removed) => setAttachments((current) => current.filter((entry) => entry !== removed))}
+          />
+        ) : null}
         <form className="composer" onSubmit={handleSubmit}>
+          <div className="composer-attach">
+            <button
+              type="button"
+              aria-label="Attach files"
+              title="Attach files"
+              disabled={connection.status !== "connected" || attaching}
+              onClick={() => void addAttachments(() => window.ayati.pickAttachments({ kind: "file" }))}
+            >
+              <PaperclipIcon />
+            </button>
+            <button
+              type="button"
+              aria-label="Attach folder"
+              title="Attach folder"
+              disabled={connection.status !== "connected" || attaching}
+              onClick={() => void addAttachments(() => window.ayati.pickAttachments({ kind: "directory" }))}
+            >
+              <FolderIcon />
+            </button>
+          </div>
           <textarea
             aria-label="Message Ayati"
             placeholder={connection.status === "connected" ? "Message Ayati…" : "Waiting for daemon…"}
             value={draft}
             onChange={(event) => setDraft(event.target.value)}
             onKeyDown={handleComposerKeyDown}
+            onPaste={handlePaste}
             disabled={connection.status !== "connected"}
             rows={1}
           />
-          <button type="submit" disabled={sendDisabled} aria-label="Send message">
+          {chat.isAgentActive && chat.activeMessageId ? (
+            <button
+              type="button"
+              className="stop"
+              onClick={() => void stopRun()}
+              disabled={chat.stopRequested || connection.status !== "connected"}
+              aria-label={chat.stopRequested ? "Stopping run" : "Stop run"}
+            >
+              <StopIcon />
+            </button>
+          ) : null}
+          <button type="submit" disabled={sendDisabled || attaching} aria-label="Send message">
             {submitting ? <span className="button-spinner" /> : <ArrowIcon />}
           </button>
         </form>
         <div className="composer-hint">
-          <span>Enter to send · Shift+Enter for a new line</span>
+          <span>Enter to send · Shift+Enter for a new line · Drop or paste files to attach</span>
           <span>Voice remains available through your Ayati push-to-talk shortcut</span>
         </div>
       </footer>
@@ -240,6 +415,7 @@ function Message({ message }: { message: ChatViewMessage }): React.JSX.Element {
         {message.content || (message.streaming ? "Thinking" : "")}
         {message.streaming ? <span className="streaming-cursor" /> : null}
       </div>
+      {message.attachments ? <AttachmentChips attachments={message.attachments} /> : null}
       {message.commitStatus ? (
         <div className={`commit-status ${message.commitStatus}`}>{formatCommitStatus(message.commitStatus)}</div>
       ) : null}
@@ -247,6 +423,74 @@ function Message({ message }: { message: ChatViewMessage }): React.JSX.Element {
   );
 }
 
+function AttachmentChips({
+  attachments,
+  onRemove,
+}: {
+  attachments: ChatAttachment[];
+  onRemove?: (attachment: ChatAttachment) => void;
+}): React.JSX.Element {
+  return (
+    <ul className="attachment-chips" aria-label="Attachments">
+      {attachments.map((attachment) => (
+        <li
+          key={attachment.kind === "upload" ? attachment.fileId : attachment.path}
+          className={`attachment-chip ${attachment.kind}`}
+          title={attachment.kind === "upload" ? attachment.name : attachment.path}
+        >
+          {attachment.kind === "directory" ? <FolderIcon /> : <PaperclipIcon />}
+          <span className="attachment-name">{attachment.name}</span>
+          <span className="attachment-detail">{formatAttachmentDetail(attachment)}</span>
+          {onRemove ? (
+            <button type="button" aria-label={`Remove ${attachment.name}`} onClick={() => onRemove(attachment)}>
+              ×
+            </button>
+          ) : null}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const APPROVAL_LABELS: Record<ApprovalDecision, string> = {
+  approve: "Approve",
+  deny: "Deny",
+  always_for_workstream: "Always for this workstream",
+};
+
+function ApprovalCard({
+  request,
+  onAnswer,
+}: {
+  request: ApprovalRequestedMessage;
+  onAnswer: (decision: ApprovalDecision) => void;
+}): React.JSX.Element {
+  return (
+    <div className="approval-card" role="alertdialog" aria-label={`Approve ${request.tool}`}>
+      <div className="approval-title">
+        Approval needed · {request.tool}
+        <span className="approval-reason">
+          {request.reason === "destructive" ? "destructive" : "external effect"}
+        </span>
+      </div>
+      {request.target ? <div className="approval-target">{request.target}</div> : null}
+      <pre className="approval-preview">{request.preview}</pre>
+      <div className="approval-actions">
+        {request.options.map((decision) => (
+          <button
+            key={decision}
+            type="button"
+            className={decision === "deny" ? "deny" : undefined}
+            onClick={() => onAnswer(decision)}
+          >
+            {APPROVAL_LABELS[decision]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function ArrowIcon(): React.JSX.Element {
   return (
     <svg viewBox="0 0 24 24" aria-hidden="true">
@@ -255,6 +499,30 @@ function ArrowIcon(): React.JSX.Element {
   );
 }
 
+function PaperclipIcon(): React.JSX.Element {
+  return (
+    <svg viewBox="0 0 24 24" aria-hidden="true">
+      <path d="M20 11.5l-8.2 8.2a5 5 0 0 1-7.1-7.1l8.5-8.5a3.3 3.3 0 0 1 4.7 4.7l-8.5 8.5a1.7 1.7 0 0 1-2.4-2.4l7.8-7.8" />
+    </svg>
+  );
+}
+
+function FolderIcon(): React.JSX.Element {
+  return (
+    <svg viewBox="0 0 24 24" aria-hidden="true">
+      <path d="M3.5 7.5a2 2 0 0 1 2-2h4l2 2h7a2 2 0 0 1 2 2v8a2 2 0 0 1-2 2h-13a2 2 0 0 1-2-2z" />
+    </svg>
+  );
+}
+
+function StopIcon(): React.JSX.Element {
+  return (
+    <svg viewBox="0 0 24 24" aria-hidden="true">
+      <rect x="7" y="7" width="10" height="10" rx="1.5" />
+    </svg>
+  );
+}
+
 function formatTime(value: string): string {
   const date = new Date(value);
   return Number.isFinite(date.getTime())
@@ -262,6 +530,16 @@ function formatTime(value: string): string {
     : "";
 }
 
+function formatAttachmentDetail(attachment: ChatAttachment): string {
+  if (attachment.kind === "directory") {
+    return attachment.entryCount === undefined ? "folder" : `${attachment.entryCount} items`;
+  }
+  if (attachment.sizeBytes === undefined) return attachment.kind === "upload" ? "image" : "file";
+  if (attachment.sizeBytes < 1024) return `${attachment.sizeBytes} B`;
+  if (attachment.sizeBytes < 1024 * 1024) return `${Math.round(attachment.sizeBytes / 1024)} KB`;
+  return `${(attachment.sizeBytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 function formatCommitStatus(value: string): string {
   return value.replaceAll("_", " ");
 }
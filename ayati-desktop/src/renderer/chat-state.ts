@@ -1,8 +1,11 @@
-import type {
-  AssistantMessageKind,
-  DaemonServerMessage,
-  ReplyCommitStatus,
-  SendChatReceipt,
+import {
+  MAX_CHAT_ATTACHMENTS,
+  type ApprovalRequestedMessage,
+  type AssistantMessageKind,
+  type ChatAttachment,
+  type DaemonServerMessage,
+  type ReplyCommitStatus,
+  type SendChatReceipt,
 } from "../shared/contracts.js";
 
 const MAX_PROGRESS_LINES = 8;
@@ -16,13 +19,18 @@ export interface ChatViewMessage {
   streaming?: boolean;
   runId?: string;
   commitStatus?: ReplyCommitStatus;
+  attachments?: ChatAttachment[];
 }
 
 export interface ChatUiState {
   messages: ChatViewMessage[];
   progressLines: string[];
+  pendingApprovals: ApprovalRequestedMessage[];
   queuePosition?: number;
   isAgentActive: boolean;
+  /** Ingress message ID of the chat this window is waiting on; the Stop button cancels it. */
+  activeMessageId?: string;
+  stopRequested: boolean;
   nextLocalId: number;
 }
 
@@ -30,6 +38,7 @@ export type ChatUiAction =
   | {
     type: "chat_submitted";
     content: string;
+    attachments?: ChatAttachment[];
     receipt: SendChatReceipt;
   }
   | {
@@ -41,15 +50,48 @@ export type ChatUiAction =
     type: "submission_failed";
     message: string;
     receivedAt: string;
+  }
+  | {
+    type: "approval_answered";
+    approvalId: string;
+  }
+  | {
+    type: "stop_requested";
   };
 
 export const initialChatState: ChatUiState = {
   messages: [],
   progressLines: [],
+  pendingApprovals: [],
   isAgentActive: false,
+  stopRequested: false,
   nextLocalId: 1,
 };
 
+/**
+ * Appends newly issued attachments to the composer's pending list, skipping ones already pending
+ * and dropping any past the per-message limit.
+ */
+export function mergeAttachments(
+  current: readonly ChatAttachment[],
+  added: readonly ChatAttachment[],
+): { attachments: ChatAttachment[]; dropped: number } {
+  const attachments = [...current];
+  const keys = new Set(current.map(attachmentKey));
+  let dropped = 0;
+  for (const attachment of added) {
+    const key = attachmentKey(attachment);
+    if (keys.has(key)) continue;
+    if (attachments.length >= MAX_CHAT_ATTACHMENTS) {
+      dropped += 1;
+      continue;
+    }
+    keys.add(key);
+    attachments.push(attachment);
+  }
+  return { attachments, dropped };
+}
+
 export function reduceChatState(state: ChatUiState, action: ChatUiAction): ChatUiState {
   if (action.type === "chat_submitted") {
     return {
@@ -60,12 +102,19 @@ export function reduceChatState(state: ChatUiState, action: ChatUiAction): ChatU
         kind: "user",
         content: action.content,
         timestamp: action.receipt.submittedAt,
+        ...(action.attachments?.length ? { attachments: action.attachments } : {}),
       }],
       isAgentActive: true,
+      activeMessageId: action.receipt.messageId,
+      stopRequested: false,
       progressLines: [],
     };
   }
 
+  if (action.type === "stop_requested") {
+    return { ...state, stopRequested: true };
+  }
+
   if (action.type === "submission_failed") {
     return appendAssistantMessage(state, {
       kind: "error",
@@ -74,7 +123,47 @@ export function reduceChatState(state: ChatUiState, action: ChatUiAction): ChatU
     });
   }
 
+  if (action.type === "approval_answered") {
+    return {
+      ...state,
+      pendingApprovals: state.pendingApprovals.filter((entry) => entry.approvalId !== action.approvalId),
+    };
+  }
+
   const message = action.message;
+  if (message.type === "approval_requested") {
+    if (state.pendingApprovals.some((entry) => entry.approvalId === message.approvalId)) return state;
+    return {
+      ...state,
+      pendingApprovals: [...state.pendingApprovals, message],
+      isAgentActive: true,
+    };
+  }
+
+  if (message.type === "approval_resolved") {
+    const pendingApprovals = state.pendingApprovals.filter((entry) => entry.approvalId !== message.approvalId);
+    if (message.source !== "timeout") {
+      return { ...state, pendingApprovals };
+    }
+    return appendAssistantMessage({ ...state, pendingApprovals }, {
+      kind: "notification",
+      content: `Approval for ${message.tool} expired, so it was denied.`,
+      timestamp: action.receivedAt,
+      runId: message.runId,
+    });
+  }
+
+  if (message.type === "cancel_run_result") {
+    if (message.status === "cancelling") {
+      return { ...state, stopRequested: true };
+    }
+    return appendAssistantMessage({ ...state, stopRequested: false }, {
+      kind: "notification",
+      content: "No run is active.",
+      timestamp: action.receivedAt,
+    });
+  }
+
   if (message.type === "chat_accepted") {
     return {
       ...state,
@@ -154,19 +243,12 @@ export function reduceChatState(state: ChatUiState, action: ChatUiAction): ChatU
           ? { ...entry, ...finalized, timestamp: entry.timestamp }
           : entry)
         : [...state.messages, finalized],
-      progressLines: [],
-      queuePosition: undefined,
-      isAgentActive: false,
+      ...settledRun(),
     };
   }
 
   if (message.type === "reply" || message.type === "feedback" || message.type === "error") {
-    return appendAssistantMessage({
-      ...state,
-      progressLines: [],
-      queuePosition: undefined,
-      isAgentActive: false,
-    }, {
+    return appendAssistantMessage({ ...state, ...settledRun() }, {
       kind: message.type,
       content: message.content,
       timestamp: action.receivedAt,
@@ -178,9 +260,7 @@ export function reduceChatState(state: ChatUiState, action: ChatUiAction): ChatU
   if (message.type === "notification") {
     return appendAssistantMessage({
       ...state,
-      ...(message.final === true
-        ? { progressLines: [], queuePosition: undefined, isAgentActive: false }
-        : {}),
+      ...(message.final === true ? settledRun() : {}),
     }, {
       kind: "notification",
       content: message.content,
@@ -193,6 +273,19 @@ export function reduceChatState(state: ChatUiState, action: ChatUiAction): ChatU
   return state;
 }
 
+function settledRun(): Pick<
+  ChatUiState,
+  "progressLines" | "queuePosition" | "isAgentActive" | "activeMessageId" | "stopRequested"
+> {
+  return {
+    progressLines: [],
+    queuePosition: undefined,
+    isAgentActive: false,
+    activeMessageId: undefined,
+    stopRequested: false,
+  };
+}
+
 function appendAssistantMessage(
   state: ChatUiState,
   message: Omit<ChatViewMessage, "id" | "role">,
@@ -207,3 +300,7 @@ function appendAssistantMessage(
     }],
   };
 }
+
+function attachmentKey(attachment: ChatAttachment): string {
+  return attachment.kind === "upload" ? `upload:${attachment.fileId}` : `${attachment.kind}:${attachment.path}`;
+}
@@ -0,0 +1,262 @@
+import { useCallback, useEffect, useState } from "react";
+import type {
+  MemoryCardSummary,
+  MemoryDetailResult,
+  MemoryListResult,
+  MemorySectionId,
+} from "../shared/contracts.js";
+
+const SECTION_TABS: Array<{ sectionId: MemorySectionId; label: string }> = [
+  { sectionId: "user_facts", label: "User facts" },
+  { sectionId: "time_based", label: "Time-based" },
+  { sectionId: "evolving_memory", label: "Evolving" },
+];
+
+/**
+ * Browses what Ayati remembers about the user. Every change goes through the daemon, which records
+ * it as a manual correction so the next run's memory snapshot reflects it.
+ */
+export function MemoryView({ connected }: { connected: boolean }): React.JSX.Element {
+  const [sectionId, setSectionId] = useState<MemorySectionId>("user_facts");
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const [cards, setCards] = useState<MemoryCardSummary[]>([]);
+  const [detail, setDetail] = useState<MemoryDetailResult | null>(null);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<{ tone: "info" | "error"; text: string } | null>(null);
+
+  const run = useCallback(async (action: () => Promise<void>): Promise<void> => {
+    setBusy(true);
+    setNotice(null);
+    try {
+      await action();
+    } catch (error) {
+      setNotice({ tone: "error", text: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const reload = useCallback(async (): Promise<void> => {
+    const result: MemoryListResult = await window.ayati.memory({
+      kind: "list_memories",
+      sectionId,
+      ...(includeInactive ? { includeInactive: true } : {}),
+    });
+    setCards(result.sections.flatMap((section) => section.cards));
+  }, [sectionId, includeInactive]);
+
+  const openDetail = async (memoryId: string): Promise<void> => {
+    setDraft(null);
+    setDetail(await window.ayati.memory({ kind: "memory_detail", memoryId }));
+  };
+
+  useEffect(() => {
+    if (!connected) return;
+    setDetail(null);
+    void run(reload);
+  }, [connected, reload, run]);
+
+  const saveEdit = (memoryId: string, text: string): void => {
+    void run(async () => {
+      await window.ayati.memory({ kind: "edit_memory", memoryId, text });
+      await Promise.all([reload(), openDetail(memoryId)]);
+      setNotice({ tone: "info", text: "Memory updated." });
+    });
+  };
+
+  const archive = (memoryId: string): void => {
+    void run(async () => {
+      await window.ayati.memory({ kind: "archive_memory", memoryId });
+      await Promise.all([reload(), openDetail(memoryId)]);
+      setNotice({ tone: "info", text: "Memory archived; Ayati will stop using it." });
+    });
+  };
+
+  const exportMemory = (): void => {
+    void run(async () => {
+      const result = await window.ayati.memory({ kind: "export_memory" });
+      if (result) setNotice({ tone: "info", text: `Exported ${result.cards} memories to ${result.path}.` });
+    });
+  };
+
+  const importMemory = (mode: "merge" | "replace"): void => {
+    if (mode === "replace" && !window.confirm("Replace all personal memory with the imported file?")) return;
+    void run(async () => {
+      const result = await window.ayati.memory({ kind: "import_memory", mode });
+      if (!result) return;
+      await reload();
+      setDetail(null);
+      setNotice({
+        tone: "info",
+        text: `Imported ${result.cards} memories from ${result.path}`
+          + (result.skipped > 0 ? `; ${result.skipped} already existed.` : "."),
+      });
+    });
+  };
+
+  const disabled = !connected || busy;
+
+  return (
+    <section className="memory-view" aria-label="Personal memory">
+      <div className="memory-toolbar">
+        <div className="memory-tabs" role="tablist">
+          {SECTION_TABS.map((tab) => (
+            <button
+              key={tab.sectionId}
+              type="button"
+              role="tab"
+              aria-selected={tab.sectionId === sectionId}
+              className={tab.sectionId === sectionId ? "active" : undefined}
+              onClick={() => setSectionId(tab.sectionId)}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        <label className="memory-toggle">
+          <input
+            type="checkbox"
+            checked={includeInactive}
+            onChange={(event) => setIncludeInactive(event.target.checked)}
+          />
+          Show archived
+        </label>
+        <div className="memory-transfer">
+          <button type="button" onClick={exportMemory} disabled={disabled}>Export</button>
+          <button type="button" onClick={() => importMemory("merge")} disabled={disabled}>Import</button>
+          <button type="button" className="deny" onClick={() => importMemory("replace")} disabled={disabled}>
+            Replace from file
+          </button>
+        </div>
+      </div>
+      {notice ? <div className={`memory-notice ${notice.tone}`}>{notice.text}</div> : null}
+      {!connected ? <div className="memory-notice">Connect to the daemon to view memory.</div> : null}
+
+      <div className="memory-columns">
+        <ul className="memory-list">
+          {cards.length === 0 && connected && !busy ? <li className="memory-empty">Nothing remembered here yet.</li> : null}
+          {cards.map((card) => (
+            <li key={card.memoryId}>
+              <button
+                type="button"
+                className={`memory-card ${card.state} ${detail?.memory.memoryId === card.memoryId ? "selected" : ""}`}
+                onClick={() => void run(async () => await openDetail(card.memoryId))}
+              >
+                <span className="memory-card-text">{card.text}</span>
+                <span className="memory-card-meta">
+                  {card.kind}.{card.slot} · {formatConfidence(card.confidence)}
+                  {card.state !== "active" ? ` · ${card.state}` : ""}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {detail ? (
+          <MemoryDetail
+            detail={detail}
+            draft={draft}
+            disabled={disabled}
+            onDraftChange={setDraft}
+            onSave={(text) => saveEdit(detail.memory.memoryId, text)}
+            onArchive={() => archive(detail.memory.memoryId)}
+          />
+        ) : (
+          <div className="memory-detail placeholder">Select a memory to see where it came from.</div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+function MemoryDetail({
+  detail,
+  draft,
+  disabled,
+  onDraftChange,
+  onSave,
+  onArchive,
+}: {
+  detail: MemoryDetailResult;
+  draft: string | null;
+  disabled: boolean;
+  onDraftChange: (draft: string | null) => void;
+  onSave: (text: string) => void;
+  onArchive: () => void;
+}): React.JSX.Element {
+  const { memory } = detail;
+  const live = memory.state === "active" || memory.state === "candidate";
+  return (
+    <div className="memory-detail">
+      {draft === null ? (
+        <p className="memory-detail-text">{memory.text}</p>
+      ) : (
+        <textarea
+          aria-label="Memory text"
+          value={draft}
+          onChange={(event) => onDraftChange(event.target.value)}
+          rows={3}
+        />
+      )}
+      <dl className="memory-facts">
+        <dt>Key</dt><dd>{memory.kind}.{memory.slot}</dd>
+        {memory.value ? <><dt>Value</dt><dd>{memory.value}</dd></> : null}
+        {memory.eventAt ? <><dt>When</dt><dd>{formatDate(memory.eventAt)}</dd></> : null}
+        {memory.expiresAt ? <><dt>Expires</dt><dd>{formatDate(memory.expiresAt)}</dd></> : null}
+        <dt>State</dt><dd>{memory.state}</dd>
+        <dt>Confidence</dt><dd>{formatConfidence(memory.confidence)}</dd>
+        <dt>Source</dt><dd>{memory.sourceType.replaceAll("_", " ")}</dd>
+        <dt>Confirmed</dt><dd>{formatDate(memory.lastConfirmedAt)}</dd>
+      </dl>
+      <div className="approval-actions">
+        {draft === null ? (
+          <>
+            <button type="button" onClick={() => onDraftChange(memory.text)} disabled={disabled || !live}>Edit</button>
+            <button type="button" className="deny" onClick={onArchive} disabled={disabled || !live}>Archive</button>
+          </>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={() => onSave(draft)}
+              disabled={disabled || draft.trim().length === 0 || draft.trim() === memory.text}
+            >
+              Save
+            </button>
+            <button type="button" onClick={() => onDraftChange(null)} disabled={disabled}>Cancel</button>
+          </>
+        )}
+      </div>
+      <h3>Evidence</h3>
+      <ol className="memory-timeline">
+        {detail.evidence.map((entry, index) => (
+          <li key={`${entry.createdAt}:${index}`}>
+            <span>{entry.evidenceType} · {formatDate(entry.createdAt)}</span>
+            {entry.sourceText}
+          </li>
+        ))}
+      </ol>
+      <h3>History</h3>
+      <ol className="memory-timeline">
+        {detail.events.map((entry, index) => (
+          <li key={`${entry.createdAt}:${index}`}>
+            <span>{entry.eventType} · {formatDate(entry.createdAt)}</span>
+            {entry.sourceText}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+function formatConfidence(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatDate(value: string): string {
+  const date = new Date(value);
+  return Number.isFinite(date.getTime())
+    ? new Intl.DateTimeFormat(undefined, { dateStyle: "medium", timeStyle: "short" }).format(date)
+    : value;
+}
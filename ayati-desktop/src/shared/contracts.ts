@@ -1,4 +1,7 @@
 export const MAX_CHAT_CONTENT_CHARS = 100_000;
+export const MAX_CHAT_ATTACHMENTS = 10;
+export const MAX_PASTED_IMAGE_BYTES = 25 * 1024 * 1024;
+const MAX_ATTACHMENT_PATH_CHARS = 4_096;
 
 export type DaemonConnectionStatus =
   | "connecting"
@@ -20,11 +23,20 @@ export type ReplyCommitStatus =
 
 export type AssistantMessageKind = "reply" | "feedback" | "notification";
 
+export type BudgetScope = "run" | "workstream" | "day";
+
+/** Remaining daemon cost budget; only scopes with a configured limit are present. */
+export type BudgetRemaining = Partial<Record<BudgetScope, {
+  usd?: number;
+  tokens?: number;
+}>>;
+
 export interface ChatAcceptedMessage {
   type: "chat_accepted";
   messageId: string;
   queued: boolean;
   queuePosition: number;
+  budget?: BudgetRemaining;
   duplicate?: true;
 }
 
@@ -53,6 +65,7 @@ export interface ReplyDoneMessage {
   kind?: AssistantMessageKind;
   runId?: string;
   artifacts?: unknown[];
+  budget?: BudgetRemaining;
 }
 
 export interface ContentMessage {
@@ -63,6 +76,50 @@ export interface ContentMessage {
   runId?: string;
   commitStatus?: ReplyCommitStatus;
   artifacts?: unknown[];
+  /** Set on notifications that report a scheduled run rather than the current chat. */
+  schedule?: ScheduledRunInfo;
+}
+
+export interface ScheduledRunInfo {
+  scheduleId: string;
+  name: string;
+  scheduledFor: string;
+  status: "completed" | "failed" | "cancelled";
+  workstreamId?: string;
+}
+
+export type ApprovalDecision = "approve" | "deny" | "always_for_workstream";
+
+export interface ApprovalRequestedMessage {
+  type: "approval_requested";
+  approvalId: string;
+  runId: string;
+  messageId?: string;
+  tool: string;
+  reason: "destructive" | "external_effect";
+  target?: string;
+  preview: string;
+  workstreamId?: string;
+  options: ApprovalDecision[];
+  expiresAt: string;
+}
+
+export interface ApprovalResolvedMessage {
+  type: "approval_resolved";
+  approvalId: string;
+  runId: string;
+  messageId?: string;
+  tool: string;
+  decision: ApprovalDecision;
+  source: string;
+}
+
+export interface CancelRunResultMessage {
+  type: "cancel_run_result";
+  status: "cancelling" | "not_found";
+  messageId?: string;
+  runId?: string;
+  queued?: boolean;
 }
 
 export type DaemonServerMessage =
@@ -70,6 +127,9 @@ export type DaemonServerMessage =
   | ReplyStartedMessage
   | ReplyDeltaMessage
   | ReplyDoneMessage
+  | ApprovalRequestedMessage
+  | ApprovalResolvedMessage
+  | CancelRunResultMessage
   | ContentMessage;
 
 export type DesktopEvent =
@@ -82,8 +142,43 @@ export type DesktopEvent =
     message: DaemonServerMessage;
   };
 
+/**
+ * Attachment chip metadata. File and directory attachments name a local path the daemon reads;
+ * uploads name the managed file the daemon stored for pasted image bytes.
+ */
+export type ChatAttachment =
+  | {
+    kind: "file" | "directory";
+    path: string;
+    name: string;
+    sizeBytes?: number;
+    entryCount?: number;
+  }
+  | {
+    kind: "upload";
+    fileId: string;
+    name: string;
+    mimeType?: string;
+    sizeBytes?: number;
+  };
+
 export interface SendChatInput {
   content: string;
+  attachments?: ChatAttachment[];
+}
+
+export interface AttachPathsInput {
+  paths: string[];
+}
+
+export interface PickAttachmentsInput {
+  kind: "file" | "directory";
+}
+
+export interface UploadImageInput {
+  name: string;
+  mimeType: string;
+  bytes: Uint8Array;
 }
 
 export interface SendChatReceipt {
@@ -96,10 +191,103 @@ export interface ReplyRenderedInput {
   renderedAt: string;
 }
 
+export interface ApprovalResponseInput {
+  approvalId: string;
+  decision: ApprovalDecision;
+}
+
+export interface CancelRunInput {
+  messageId: string;
+}
+
+export type MemorySectionId = "user_facts" | "time_based" | "evolving_memory";
+
+export const MEMORY_SECTION_IDS: readonly MemorySectionId[] = ["user_facts", "time_based", "evolving_memory"];
+
+export const MAX_MEMORY_TEXT_CHARS = 2_000;
+
+/** Personal-memory actions of the memory view; export and import also open a file dialog. */
+export type MemoryRequest =
+  | { kind: "list_memories"; sectionId?: MemorySectionId; includeInactive?: boolean }
+  | { kind: "memory_detail"; memoryId: string }
+  | { kind: "edit_memory"; memoryId: string; text: string }
+  | { kind: "archive_memory"; memoryId: string }
+  | { kind: "export_memory" }
+  | { kind: "import_memory"; mode: "merge" | "replace" };
+
+export interface MemoryCardSummary {
+  memoryId: string;
+  sectionId: MemorySectionId;
+  kind: string;
+  slot: string;
+  text: string;
+  value?: string;
+  startsAt?: string;
+  eventAt?: string;
+  expiresAt?: string;
+  state: string;
+  confidence: number;
+  sourceType: string;
+  lastConfirmedAt: string;
+}
+
+export interface MemoryListResult {
+  sections: Array<{ sectionId: MemorySectionId; cards: MemoryCardSummary[] }>;
+}
+
+export interface MemoryDetailResult {
+  memory: MemoryCardSummary & {
+    importance: number;
+    confirmations: number;
+    corrections: number;
+    contradictions: number;
+    createdAt: string;
+  };
+  evidence: Array<{ evidenceType: string; sourceText: string; createdAt: string; runId?: string }>;
+  events: Array<{ eventType: string; sourceText: string; createdAt: string }>;
+}
+
+export interface MemoryChangeResult {
+  memory: MemoryCardSummary;
+}
+
+export interface MemoryExportOutcome {
+  path: string;
+  cards: number;
+}
+
+export interface MemoryImportOutcome {
+  path: string;
+  mode: "merge" | "replace";
+  cards: number;
+  evidence: number;
+  events: number;
+  aliases: number;
+  skipped: number;
+}
+
+/** Export and import resolve to null when the user cancels the file dialog. */
+export interface MemoryResultByKind {
+  list_memories: MemoryListResult;
+  memory_detail: MemoryDetailResult;
+  edit_memory: MemoryChangeResult;
+  archive_memory: MemoryChangeResult;
+  export_memory: MemoryExportOutcome | null;
+  import_memory: MemoryImportOutcome | null;
+}
+
 export interface AyatiDesktopApi {
   getConnectionState(): Promise<DaemonConnectionState>;
   sendChat(input: SendChatInput): Promise<SendChatReceipt>;
+  /** Attaches dropped files and directories; the main process checks each path before issuing it. */
+  attachFiles(files: readonly File[]): Promise<ChatAttachment[]>;
+  /** Resolves to an empty list when the user cancels the file dialog. */
+  pickAttachments(input: PickAttachmentsInput): Promise<ChatAttachment[]>;
+  uploadImage(input: UploadImageInput): Promise<ChatAttachment>;
   acknowledgeReplyRendered(input: ReplyRenderedInput): Promise<void>;
+  respondToApproval(input: ApprovalResponseInput): Promise<void>;
+  cancelRun(input: CancelRunInput): Promise<void>;
+  memory<R extends MemoryRequest>(request: R): Promise<MemoryResultByKind[R["kind"]]>;
   onEvent(listener: (event: DesktopEvent) => void): () => void;
 }
 
@@ -112,7 +300,86 @@ export function parseSendChatInput(value: unknown): SendChatInput | null {
   if (content.length === 0 || content.length > MAX_CHAT_CONTENT_CHARS) {
     return null;
   }
-  return { content };
+  if (record["attachments"] === undefined) {
+    return { content };
+  }
+  const rows = record["attachments"];
+  if (!Array.isArray(rows) || rows.length > MAX_CHAT_ATTACHMENTS) {
+    return null;
+  }
+  const attachments = rows.map(parseChatAttachment);
+  if (attachments.some((attachment) => !attachment)) {
+    return null;
+  }
+  return {
+    content,
+    ...(attachments.length > 0 ? { attachments: attachments as ChatAttachment[] } : {}),
+  };
+}
+
+export function parseChatAttachment(value: unknown): ChatAttachment | null {
+  const record = asRecord(value);
+  const name = boundedString(record?.["name"], 255);
+  if (!record || !name) return null;
+  const sizeBytes = nonNegativeInteger(record["sizeBytes"]);
+  if (record["kind"] === "file" || record["kind"] === "directory") {
+    const path = boundedString(record["path"], MAX_ATTACHMENT_PATH_CHARS);
+    const entryCount = nonNegativeInteger(record["entryCount"]);
+    return path
+      ? {
+        kind: record["kind"],
+        path,
+        name,
+        ...(sizeBytes !== undefined ? { sizeBytes } : {}),
+        ...(entryCount !== undefined ? { entryCount } : {}),
+      }
+      : null;
+  }
+  if (record["kind"] === "upload") {
+    const fileId = boundedString(record["fileId"], 128);
+    const mimeType = boundedString(record["mimeType"], 128);
+    return fileId
+      ? {
+        kind: "upload",
+        fileId,
+        name,
+        ...(mimeType ? { mimeType } : {}),
+        ...(sizeBytes !== undefined ? { sizeBytes } : {}),
+      }
+      : null;
+  }
+  return null;
+}
+
+export function parseAttachPathsInput(value: unknown): AttachPathsInput | null {
+  const paths = asRecord(value)?.["paths"];
+  if (!Array.isArray(paths) || paths.length === 0 || paths.length > MAX_CHAT_ATTACHMENTS) {
+    return null;
+  }
+  const bounded = paths.map((path) => boundedString(path, MAX_ATTACHMENT_PATH_CHARS));
+  return bounded.every((path): path is string => Boolean(path)) ? { paths: bounded } : null;
+}
+
+export function parsePickAttachmentsInput(value: unknown): PickAttachmentsInput | null {
+  const kind = asRecord(value)?.["kind"];
+  return kind === "file" || kind === "directory" ? { kind } : null;
+}
+
+export function parseUploadImageInput(value: unknown): UploadImageInput | null {
+  const record = asRecord(value);
+  const name = boundedString(record?.["name"], 255);
+  const mimeType = boundedString(record?.["mimeType"], 128);
+  const bytes = record?.["bytes"];
+  if (
+    !name
+    || !mimeType?.startsWith("image/")
+    || !(bytes instanceof Uint8Array)
+    || bytes.byteLength === 0
+    || bytes.byteLength > MAX_PASTED_IMAGE_BYTES
+  ) {
+    return null;
+  }
+  return { name, mimeType, bytes };
 }
 
 export function parseReplyRenderedInput(value: unknown): ReplyRenderedInput | null {
@@ -125,6 +392,54 @@ export function parseReplyRenderedInput(value: unknown): ReplyRenderedInput | nu
   return { turnId, renderedAt };
 }
 
+export function parseApprovalResponseInput(value: unknown): ApprovalResponseInput | null {
+  const record = asRecord(value);
+  const approvalId = boundedString(record?.["approvalId"], 128);
+  const decision = approvalDecision(record?.["decision"]);
+  if (!approvalId || !decision) {
+    return null;
+  }
+  return { approvalId, decision };
+}
+
+export function parseCancelRunInput(value: unknown): CancelRunInput | null {
+  const messageId = boundedString(asRecord(value)?.["messageId"], 128);
+  return messageId ? { messageId } : null;
+}
+
+export function parseMemoryRequest(value: unknown): MemoryRequest | null {
+  const record = asRecord(value);
+  const memoryId = boundedString(record?.["memoryId"], 128);
+  switch (record?.["kind"]) {
+    case "list_memories": {
+      const sectionId = record["sectionId"];
+      if (sectionId !== undefined && !MEMORY_SECTION_IDS.includes(sectionId as MemorySectionId)) {
+        return null;
+      }
+      return {
+        kind: "list_memories",
+        ...(sectionId !== undefined ? { sectionId: sectionId as MemorySectionId } : {}),
+        ...(record["includeInactive"] === true ? { includeInactive: true } : {}),
+      };
+    }
+    case "memory_detail":
+    case "archive_memory":
+      return memoryId ? { kind: record["kind"], memoryId } : null;
+    case "edit_memory": {
+      const text = boundedString(record["text"], MAX_MEMORY_TEXT_CHARS);
+      return memoryId && text ? { kind: "edit_memory", memoryId, text } : null;
+    }
+    case "export_memory":
+      return { kind: "export_memory" };
+    case "import_memory":
+      return record["mode"] === "merge" || record["mode"] === "replace"
+        ? { kind: "import_memory", mode: record["mode"] }
+        : null;
+    default:
+      return null;
+  }
+}
+
 export function parseDaemonServerMessage(value: unknown): DaemonServerMessage | null {
   const record = asRecord(value);
   const type = record?.["type"];
@@ -143,6 +458,7 @@ export function parseDaemonServerMessage(value: unknown): DaemonServerMessage |
       messageId,
       queued: record["queued"],
       queuePosition,
+      ...budgetMetadata(record),
       ...(record["duplicate"] === true ? { duplicate: true as const } : {}),
     };
   }
@@ -188,6 +504,71 @@ export function parseDaemonServerMessage(value: unknown): DaemonServerMessage |
       ...(kind ? { kind } : {}),
       ...(commitStatus ? { commitStatus } : {}),
       ...(Array.isArray(record["artifacts"]) ? { artifacts: record["artifacts"] } : {}),
+      ...budgetMetadata(record),
+    };
+  }
+
+  if (type === "approval_requested") {
+    const approvalId = boundedString(record["approvalId"], 128);
+    const runId = boundedString(record["runId"], 128);
+    const tool = boundedString(record["tool"], 128);
+    const reason = record["reason"] === "destructive" || record["reason"] === "external_effect"
+      ? record["reason"]
+      : undefined;
+    const expiresAt = boundedString(record["expiresAt"], 64);
+    const options = Array.isArray(record["options"])
+      ? record["options"].map(approvalDecision).filter((entry): entry is ApprovalDecision => Boolean(entry))
+      : [];
+    if (!approvalId || !runId || !tool || !reason || !expiresAt || typeof record["preview"] !== "string") {
+      return null;
+    }
+    const target = boundedString(record["target"], 512);
+    const workstreamId = boundedString(record["workstreamId"], 128);
+    return {
+      type,
+      approvalId,
+      runId,
+      ...commonMessageMetadata(record),
+      tool,
+      reason,
+      ...(target ? { target } : {}),
+      preview: record["preview"],
+      ...(workstreamId ? { workstreamId } : {}),
+      options: options.length > 0 ? options : ["approve", "deny"],
+      expiresAt,
+    };
+  }
+
+  if (type === "approval_resolved") {
+    const approvalId = boundedString(record["approvalId"], 128);
+    const runId = boundedString(record["runId"], 128);
+    const tool = boundedString(record["tool"], 128);
+    const decision = approvalDecision(record["decision"]);
+    const source = boundedString(record["source"], 64);
+    if (!approvalId || !runId || !tool || !decision || !source) {
+      return null;
+    }
+    return {
+      type,
+      approvalId,
+      runId,
+      ...commonMessageMetadata(record),
+      tool,
+      decision,
+      source,
+    };
+  }
+
+  if (type === "cancel_run_result") {
+    const status = record["status"] === "cancelling" || record["status"] === "not_found"
+      ? record["status"]
+      : undefined;
+    if (!status) return null;
+    return {
+      type,
+      status,
+      ...commonMessageMetadata(record),
+      ...(record["queued"] === true ? { queued: true } : {}),
     };
   }
 
@@ -209,12 +590,35 @@ export function parseDaemonServerMessage(value: unknown): DaemonServerMessage |
       ...(record["final"] === true ? { final: true } : {}),
       ...(commitStatus ? { commitStatus } : {}),
       ...(Array.isArray(record["artifacts"]) ? { artifacts: record["artifacts"] } : {}),
+      ...(type === "notification" ? scheduleMetadata(record) : {}),
     };
   }
 
   return null;
 }
 
+function scheduleMetadata(record: Record<string, unknown>): { schedule?: ScheduledRunInfo } {
+  const raw = asRecord(record["schedule"]);
+  if (!raw) return {};
+  const scheduleId = boundedString(raw["scheduleId"], 64);
+  const name = boundedString(raw["name"], 80);
+  const scheduledFor = boundedString(raw["scheduledFor"], 64);
+  const status = raw["status"] === "completed" || raw["status"] === "failed" || raw["status"] === "cancelled"
+    ? raw["status"]
+    : undefined;
+  if (!scheduleId || !name || !scheduledFor || !status) return {};
+  const workstreamId = boundedString(raw["workstreamId"], 32);
+  return {
+    schedule: {
+      scheduleId,
+      name,
+      scheduledFor,
+      status,
+      ...(workstreamId ? { workstreamId } : {}),
+    },
+  };
+}
+
 function commonMessageMetadata(record: Record<string, unknown>): {
   messageId?: string;
   runId?: string;
@@ -227,6 +631,28 @@ function commonMessageMetadata(record: Record<string, unknown>): {
   };
 }
 
+function budgetMetadata(record: Record<string, unknown>): { budget?: BudgetRemaining } {
+  const raw = asRecord(record["budget"]);
+  if (!raw) return {};
+  const budget: BudgetRemaining = {};
+  for (const scope of ["run", "workstream", "day"] as const) {
+    const entry = asRecord(raw[scope]);
+    if (!entry) continue;
+    const usd = nonNegativeNumber(entry["usd"]);
+    const tokens = nonNegativeInteger(entry["tokens"]);
+    if (usd === undefined && tokens === undefined) continue;
+    budget[scope] = {
+      ...(usd !== undefined ? { usd } : {}),
+      ...(tokens !== undefined ? { tokens } : {}),
+    };
+  }
+  return Object.keys(budget).length > 0 ? { budget } : {};
+}
+
+function nonNegativeNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
 function asRecord(value: unknown): Record<string, unknown> | undefined {
   return value && typeof value === "object" && !Array.isArray(value)
     ? value as Record<string, unknown>
@@ -253,6 +679,12 @@ function assistantKind(value: unknown): AssistantMessageKind | undefined {
     : undefined;
 }
 
+function approvalDecision(value: unknown): ApprovalDecision | undefined {
+  return value === "approve" || value === "deny" || value === "always_for_workstream"
+    ? value
+    : undefined;
+}
+
 function replyCommitStatus(value: unknown): ReplyCommitStatus | undefined {
   return value === "not_required"
     || value === "no_change"
@@ -0,0 +1,81 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { AttachmentBridge, resolveDaemonUploadUrl } from "../../src/main/attachment-bridge.js";
+
+const roots: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map(async (root) => await rm(root, { recursive: true, force: true })));
+});
+
+describe("attachment bridge", () => {
+  it("issues file and folder attachments and only forwards issued ones", async () => {
+    const root = await mkdtemp(join(tmpdir(), "ayati-desktop-attach-"));
+    roots.push(root);
+    await writeFile(join(root, "notes.md"), "hello");
+    await mkdir(join(root, "drafts"));
+    await writeFile(join(root, "drafts", "a.txt"), "a");
+    const bridge = new AttachmentBridge({ token: () => undefined });
+
+    const issued = await bridge.inspectPaths([join(root, "notes.md"), join(root, "drafts"), join(root, "notes.md")]);
+
+    expect(issued).toEqual([
+      { kind: "file", path: join(root, "notes.md"), name: "notes.md", sizeBytes: 5 },
+      { kind: "directory", path: join(root, "drafts"), name: "drafts", entryCount: 1 },
+    ]);
+    expect(bridge.resolveForSend([{ ...issued[0]!, sizeBytes: 1 }])).toEqual([issued[0]]);
+    expect(() => bridge.resolveForSend([{ kind: "file", path: "/etc/passwd", name: "passwd" }]))
+      .toThrow("was not issued by this desktop session");
+    await expect(bridge.inspectPaths(["relative.txt"])).rejects.toThrow("must be absolute");
+    await expect(bridge.inspectPaths([join(root, "missing.txt")])).rejects.toThrow("is not a readable file or folder");
+  });
+
+  it("uploads pasted images through the daemon HTTP route", async () => {
+    const requests: Array<{ url: string; init: RequestInit }> = [];
+    const bridge = new AttachmentBridge({
+      httpUrl: "http://localhost:9090",
+      token: () => "desktop-token",
+      fetch: async (url, init) => {
+        requests.push({ url: String(url), init: init! });
+        return Response.json({
+          uploadId: "upl_1",
+          fileId: "file_1",
+          uploadedPath: "/tmp/uploads/clip.png",
+          originalName: "clip.png",
+          mimeType: "image/png",
+          sizeBytes: 3,
+        }, { status: 201 });
+      },
+    });
+
+    const attachment = await bridge.uploadImage({ name: "clip.png", mimeType: "image/png", bytes: new Uint8Array([1, 2, 3]) });
+
+    expect(attachment).toEqual({ kind: "upload", fileId: "file_1", name: "clip.png", mimeType: "image/png", sizeBytes: 3 });
+    expect(requests[0]?.url).toBe("http://localhost:9090/api/uploads");
+    expect(requests[0]?.init.headers).toEqual({ Authorization: "Bearer desktop-token" });
+    const file = (requests[0]?.init.body as FormData).get("file") as File;
+    expect(file.name).toBe("clip.png");
+    expect(file.type).toBe("image/png");
+    expect(bridge.resolveForSend([attachment])).toEqual([attachment]);
+  });
+
+  it("surfaces upload server errors", async () => {
+    const bridge = new AttachmentBridge({
+      token: () => "desktop-token",
+      fetch: async () => Response.json({ error: "Token lacks the upload scope." }, { status: 403 }),
+    });
+
+    await expect(bridge.uploadImage({ name: "clip.png", mimeType: "image/png", bytes: new Uint8Array([1]) }))
+      .rejects.toThrow("Upload failed: Token lacks the upload scope.");
+  });
+
+  it("only sends uploads in clear text to loopback hosts", () => {
+    expect(resolveDaemonUploadUrl(undefined)).toBe("http://127.0.0.1:8081/api/uploads");
+    expect(resolveDaemonUploadUrl("https://ayati.example.com/base")).toBe("https://ayati.example.com/api/uploads");
+    expect(() => resolveDaemonUploadUrl("http://192.168.1.5:8081")).toThrow("must use a loopback host");
+    expect(() => resolveDaemonUploadUrl("http://user:pw@127.0.0.1:8081")).toThrow("must not contain credentials");
+    expect(() => resolveDaemonUploadUrl("ftp://127.0.0.1")).toThrow("must use http: or https:");
+  });
+});
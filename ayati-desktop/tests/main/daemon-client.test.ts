@@ -33,6 +33,7 @@ describe("DaemonClient", () => {
         url: `ws://127.0.0.1:${address.port}`,
         initialRetryMs: 10,
         maxRetryMs: 10,
+        token: () => "ayati_desktop_test_token",
       });
       client.subscribe((event) => events.push(event));
       client.start();
@@ -41,7 +42,8 @@ describe("DaemonClient", () => {
       expect(received[0]).toEqual({
         type: "client_hello",
         clientKind: "desktop",
-        capabilities: { replyStreaming: true },
+        token: "ayati_desktop_test_token",
+        capabilities: { replyStreaming: true, approvals: true },
       });
       expect(client.getConnectionState().status).toBe("connected");
 
@@ -71,6 +73,33 @@ describe("DaemonClient", () => {
         renderedAt: "2026-08-06T12:00:00.000Z",
       });
 
+      client.respondToApproval("approval-1", "deny");
+      await waitFor(() => received.length >= 4);
+      expect(received[3]).toEqual({
+        type: "approval_response",
+        approvalId: "approval-1",
+        decision: "deny",
+      });
+
+      client.cancelRun("message-1");
+      await waitFor(() => received.length >= 5);
+      expect(received[4]).toEqual({ type: "cancel_run", messageId: "message-1" });
+
+      client.sendChat("message-2", "Summarize these.", [
+        { kind: "directory", path: "/home/user/notes", name: "notes", entryCount: 3 },
+        { kind: "upload", fileId: "file_1", name: "clip.png", mimeType: "image/png" },
+      ]);
+      await waitFor(() => received.length >= 6);
+      expect(received[5]).toEqual({
+        type: "chat",
+        messageId: "message-2",
+        content: "Summarize these.",
+        attachments: [
+          { type: "directory", path: "/home/user/notes", name: "notes" },
+          { fileId: "file_1" },
+        ],
+      });
+
       client.stop();
       await closeServer(server);
     },
@@ -127,6 +156,125 @@ describe("DaemonClient", () => {
     },
   );
 
+  it.runIf(canBindTcpSocket())(
+    "surfaces a rejected token in the connection state and retries with a fresh read",
+    async () => {
+      const server = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+      await once(server, "listening");
+      const address = server.address();
+      if (!address || typeof address === "string") {
+        throw new Error("WebSocket test server did not bind a TCP address.");
+      }
+      server.on("connection", (socket) => {
+        socket.once("message", () => {
+          socket.send(JSON.stringify({
+            type: "unauthorized",
+            reason: "invalid_token",
+            content: "The client token was not recognized; it may have been rotated.",
+          }));
+          socket.close(4401, "invalid_token");
+        });
+      });
+
+      let reads = 0;
+      const details: string[] = [];
+      const client = new DaemonClient({
+        url: `ws://127.0.0.1:${address.port}`,
+        initialRetryMs: 10,
+        maxRetryMs: 10,
+        token: () => `ayati_token_${++reads}`,
+      });
+      client.subscribe((event) => {
+        if (event.type === "connection_state" && event.state.detail) {
+          details.push(event.state.detail);
+        }
+      });
+
+      try {
+        client.start();
+        await waitFor(() => reads >= 2);
+        expect(details).toContainEqual(expect.stringContaining("The client token was not recognized"));
+        expect(details).toContainEqual(expect.stringContaining("AYATI_DESKTOP_TOKEN"));
+      } finally {
+        client.stop();
+        await closeServer(server);
+      }
+    },
+  );
+
+  it.runIf(canBindTcpSocket())(
+    "answers queries by id and rejects ones left pending when the connection closes",
+    async () => {
+      const server = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+      await once(server, "listening");
+      const address = server.address();
+      if (!address || typeof address === "string") {
+        throw new Error("WebSocket test server did not bind a TCP address.");
+      }
+      const queries: Array<Record<string, unknown>> = [];
+      server.on("connection", (socket) => {
+        socket.on("message", (raw) => {
+          const message = JSON.parse(raw.toString()) as Record<string, unknown>;
+          if (message["type"] !== "query") return;
+          queries.push(message);
+          if (message["kind"] === "memory_detail") {
+            socket.send(JSON.stringify({
+              type: "query_result",
+              queryId: message["queryId"],
+              kind: "memory_detail",
+              ok: false,
+              error: "Memory mem_missing does not exist.",
+            }));
+          } else if (message["kind"] === "list_memories") {
+            socket.send(JSON.stringify({
+              type: "query_result",
+              queryId: message["queryId"],
+              kind: "list_memories",
+              ok: true,
+              result: { sections: [] },
+            }));
+          }
+        });
+      });
+
+      const client = new DaemonClient({
+        url: `ws://127.0.0.1:${address.port}`,
+        initialRetryMs: 10,
+        maxRetryMs: 10,
+        token: () => "ayati_desktop_test_token",
+      });
+      const serverMessages: DesktopEvent[] = [];
+      client.subscribe((event) => {
+        if (event.type === "server_message") serverMessages.push(event);
+      });
+
+      try {
+        await expect(client.query("status")).rejects.toThrow(/not connected/);
+        client.start();
+        await waitFor(() => client.getConnectionState().status === "connected");
+
+        await expect(client.query("list_memories", { sectionId: "user_facts" })).resolves.toEqual({ sections: [] });
+        expect(queries[0]).toEqual({
+          type: "query",
+          queryId: expect.any(String),
+          kind: "list_memories",
+          sectionId: "user_facts",
+        });
+        await expect(client.query("memory_detail", { memoryId: "mem_missing" }))
+          .rejects.toThrow("Memory mem_missing does not exist.");
+
+        const unanswered = client.query("export_memory");
+        await waitFor(() => queries.length >= 3);
+        client.stop();
+        await expect(unanswered).rejects.toThrow(/stopped/);
+        expect(serverMessages).toEqual([]);
+      } finally {
+        client.stop();
+        await closeServer(server);
+      }
+    },
+  );
+
   it("permits plaintext only for loopback daemon URLs", () => {
     expect(resolveDaemonWebSocketUrl()).toBe("ws://127.0.0.1:8080/");
     expect(resolveDaemonWebSocketUrl("ws://localhost:9000/chat")).toBe("ws://localhost:9000/chat");
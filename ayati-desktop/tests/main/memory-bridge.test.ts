@@ -0,0 +1,72 @@
+import { mkdtemp, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { handleMemoryRequest, type MemoryBridgeOptions } from "../../src/main/memory-bridge.js";
+
+const roots: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map(async (root) => await rm(root, { recursive: true, force: true })));
+});
+
+describe("memory bridge", () => {
+  it("maps view actions onto daemon queries", async () => {
+    const { options, queries } = createBridge(() => ({ memory: { memoryId: "mem_1" } }));
+
+    await handleMemoryRequest({ kind: "edit_memory", memoryId: "mem_1", text: "Lives in Pune." }, options);
+    await handleMemoryRequest({ kind: "list_memories", sectionId: "user_facts" }, options);
+
+    expect(queries).toEqual([
+      { kind: "edit_memory", fields: { memoryId: "mem_1", updates: { text: "Lives in Pune." } } },
+      { kind: "list_memories", fields: { sectionId: "user_facts" } },
+    ]);
+  });
+
+  it("writes exports privately and sends imported files to the daemon", async () => {
+    const root = await mkdtemp(join(tmpdir(), "ayati-desktop-memory-"));
+    roots.push(root);
+    const exportPath = join(root, "memory.json");
+    const document = { format: "ayati-personal-memory", version: 1, cards: [{ id: "mem_1" }] };
+    const { options, queries } = createBridge((kind) => kind === "export_memory"
+      ? document
+      : { mode: "merge", cards: 1, evidence: 0, events: 0, aliases: 0, skipped: 0 });
+    options.chooseExportPath = async () => exportPath;
+    options.chooseImportPath = async () => exportPath;
+
+    await expect(handleMemoryRequest({ kind: "export_memory" }, options)).resolves.toEqual({ path: exportPath, cards: 1 });
+    expect(JSON.parse(await readFile(exportPath, "utf8"))).toEqual(document);
+    expect((await stat(exportPath)).mode & 0o777).toBe(0o600);
+
+    await expect(handleMemoryRequest({ kind: "import_memory", mode: "merge" }, options))
+      .resolves.toMatchObject({ path: exportPath, cards: 1 });
+    expect(queries.at(-1)).toEqual({ kind: "import_memory", fields: { document, mode: "merge" } });
+
+    await writeFile(exportPath, "not json");
+    await expect(handleMemoryRequest({ kind: "import_memory", mode: "merge" }, options))
+      .rejects.toThrow("is not a JSON memory export");
+  });
+
+  it("does nothing when a file dialog is cancelled", async () => {
+    const { options, queries } = createBridge(() => ({}));
+
+    await expect(handleMemoryRequest({ kind: "export_memory" }, options)).resolves.toBeNull();
+    await expect(handleMemoryRequest({ kind: "import_memory", mode: "replace" }, options)).resolves.toBeNull();
+    expect(queries).toEqual([]);
+  });
+});
+
+function createBridge(answer: (kind: string) => unknown) {
+  const queries: Array<{ kind: string; fields?: Record<string, unknown> }> = [];
+  const options: MemoryBridgeOptions = {
+    client: {
+      query: async (kind, fields) => {
+        queries.push({ kind, ...(fields ? { fields } : {}) });
+        return answer(kind);
+      },
+    },
+    chooseExportPath: async () => null,
+    chooseImportPath: async () => null,
+  };
+  return { options, queries };
+}
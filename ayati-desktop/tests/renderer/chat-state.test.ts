@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 import {
   initialChatState,
+  mergeAttachments,
   reduceChatState,
 } from "../../src/renderer/chat-state.js";
 
@@ -126,4 +127,96 @@ describe("desktop chat state", () => {
     expect(final.isAgentActive).toBe(false);
     expect(final.progressLines).toEqual([]);
   });
+
+  it("tracks pending tool approvals until they are answered or resolved", () => {
+    const request = {
+      type: "approval_requested" as const,
+      approvalId: "approval-1",
+      runId: "run-1",
+      tool: "process_run",
+      reason: "external_effect" as const,
+      preview: "{}",
+      options: ["approve" as const, "deny" as const],
+      expiresAt: "2026-10-19T10:05:00.000Z",
+    };
+    let state = reduceChatState(initialChatState, {
+      type: "server_message",
+      receivedAt: "2026-10-19T10:00:00.000Z",
+      message: request,
+    });
+    expect(state.pendingApprovals).toEqual([request]);
+
+    state = reduceChatState(state, { type: "approval_answered", approvalId: "approval-1" });
+    expect(state.pendingApprovals).toEqual([]);
+
+    state = reduceChatState(state, {
+      type: "server_message",
+      receivedAt: "2026-10-19T10:00:01.000Z",
+      message: { ...request, approvalId: "approval-2" },
+    });
+    state = reduceChatState(state, {
+      type: "server_message",
+      receivedAt: "2026-10-19T10:05:00.000Z",
+      message: {
+        type: "approval_resolved",
+        approvalId: "approval-2",
+        runId: "run-1",
+        tool: "process_run",
+        decision: "deny",
+        source: "timeout",
+      },
+    });
+    expect(state.pendingApprovals).toEqual([]);
+    expect(state.messages.at(-1)).toMatchObject({
+      kind: "notification",
+      content: "Approval for process_run expired, so it was denied.",
+    });
+  });
+
+  it("tracks the active chat so it can be stopped until the run settles", () => {
+    let state = reduceChatState(initialChatState, {
+      type: "chat_submitted",
+      content: "Run the long task.",
+      receipt: { messageId: "message-1", submittedAt: "2026-10-19T10:00:00.000Z" },
+    });
+    expect(state).toMatchObject({ isAgentActive: true, activeMessageId: "message-1", stopRequested: false });
+
+    state = reduceChatState(state, { type: "stop_requested" });
+    state = reduceChatState(state, {
+      type: "server_message",
+      receivedAt: "2026-10-19T10:00:01.000Z",
+      message: { type: "cancel_run_result", status: "cancelling", messageId: "message-1", runId: "run-1" },
+    });
+    expect(state.stopRequested).toBe(true);
+
+    state = reduceChatState(state, {
+      type: "server_message",
+      receivedAt: "2026-10-19T10:00:02.000Z",
+      message: { type: "reply", content: "Run cancelled.", runId: "run-1" },
+    });
+    expect(state).toMatchObject({ isAgentActive: false, activeMessageId: undefined, stopRequested: false });
+
+    state = reduceChatState(state, {
+      type: "server_message",
+      receivedAt: "2026-10-19T10:00:03.000Z",
+      message: { type: "cancel_run_result", status: "not_found", messageId: "message-1" },
+    });
+    expect(state.messages.at(-1)).toMatchObject({ kind: "notification", content: "No run is active." });
+  });
+
+  it("shows submitted attachments and merges pending ones without duplicates", () => {
+    const notes = { kind: "file" as const, path: "/home/user/notes.md", name: "notes.md", sizeBytes: 12 };
+    const clip = { kind: "upload" as const, fileId: "file_1", name: "clip.png" };
+    const state = reduceChatState(initialChatState, {
+      type: "chat_submitted",
+      content: "Compare these.",
+      attachments: [notes, clip],
+      receipt: { messageId: "message-1", submittedAt: "2026-10-19T10:00:00.000Z" },
+    });
+    expect(state.messages[0]).toMatchObject({ content: "Compare these.", attachments: [notes, clip] });
+
+    expect(mergeAttachments([notes], [{ ...notes }, clip])).toEqual({ attachments: [notes, clip], dropped: 0 });
+    const many = Array.from({ length: 10 }, (_, index) => ({ ...notes, path: `/tmp/${index}.md` }));
+    expect(mergeAttachments(many, [clip])).toEqual({ attachments: many, dropped: 1 });
+  });
 });
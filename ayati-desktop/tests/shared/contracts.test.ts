@@ -1,9 +1,18 @@
 import { describe, expect, it } from "vitest";
 import {
+  MAX_CHAT_ATTACHMENTS,
   MAX_CHAT_CONTENT_CHARS,
+  MAX_PASTED_IMAGE_BYTES,
+  MAX_MEMORY_TEXT_CHARS,
+  parseApprovalResponseInput,
+  parseAttachPathsInput,
+  parseCancelRunInput,
   parseDaemonServerMessage,
+  parseMemoryRequest,
+  parsePickAttachmentsInput,
   parseReplyRenderedInput,
   parseSendChatInput,
+  parseUploadImageInput,
 } from "../../src/shared/contracts.js";
 
 describe("desktop contracts", () => {
@@ -41,6 +50,67 @@ describe("desktop contracts", () => {
     });
   });
 
+  it("keeps well-formed remaining budget on accepted and finished chats", () => {
+    expect(parseDaemonServerMessage({
+      type: "chat_accepted",
+      messageId: "message-1",
+      queued: false,
+      queuePosition: 1,
+      budget: { run: { usd: 0.5 }, day: { usd: 4.25, tokens: 1.5 }, month: { usd: 10 } },
+    })).toEqual({
+      type: "chat_accepted",
+      messageId: "message-1",
+      queued: false,
+      queuePosition: 1,
+      budget: { run: { usd: 0.5 }, day: { usd: 4.25 } },
+    });
+    expect(parseDaemonServerMessage({
+      type: "reply_done",
+      turnId: "turn-1",
+      content: "Paused.",
+      budget: { workstream: { tokens: 12_000 }, run: { usd: -1 } },
+    })).toEqual({
+      type: "reply_done",
+      turnId: "turn-1",
+      content: "Paused.",
+      budget: { workstream: { tokens: 12_000 } },
+    });
+  });
+
+  it("keeps scheduled-run metadata on notifications", () => {
+    expect(parseDaemonServerMessage({
+      type: "notification",
+      content: "Scheduled run \"Digest\":\n\nThree new emails.",
+      runId: "run-9",
+      commitStatus: "committed",
+      schedule: {
+        scheduleId: "sched_0123456789ab",
+        name: "Digest",
+        fireId: "fire_1",
+        scheduledFor: "2026-07-20T07:00:00.000Z",
+        status: "completed",
+        workstreamId: "W-20260719-0001",
+      },
+    })).toEqual({
+      type: "notification",
+      content: "Scheduled run \"Digest\":\n\nThree new emails.",
+      runId: "run-9",
+      commitStatus: "committed",
+      schedule: {
+        scheduleId: "sched_0123456789ab",
+        name: "Digest",
+        scheduledFor: "2026-07-20T07:00:00.000Z",
+        status: "completed",
+        workstreamId: "W-20260719-0001",
+      },
+    });
+    expect(parseDaemonServerMessage({
+      type: "notification",
+      content: "Done.",
+      schedule: { scheduleId: "sched_1", name: "Digest", scheduledFor: "x", status: "paused" },
+    })).toEqual({ type: "notification", content: "Done." });
+  });
+
   it("rejects malformed or unsupported daemon envelopes", () => {
     expect(parseDaemonServerMessage({ type: "reply_delta", turnId: "turn-1", delta: "x" })).toBeNull();
     expect(parseDaemonServerMessage({ type: "unknown", content: "x" })).toBeNull();
@@ -61,4 +131,96 @@ describe("desktop contracts", () => {
     });
     expect(parseReplyRenderedInput({ turnId: "turn-1", renderedAt: "later" })).toBeNull();
   });
+
+  it("validates chat attachments and attachment requests", () => {
+    const file = { kind: "file", path: "/home/user/notes.md", name: "notes.md", sizeBytes: 12 };
+    const upload = { kind: "upload", fileId: "file_1", name: "clip.png", mimeType: "image/png", extra: true };
+    expect(parseSendChatInput({ content: "Read these", attachments: [file, upload] })).toEqual({
+      content: "Read these",
+      attachments: [file, { kind: "upload", fileId: "file_1", name: "clip.png", mimeType: "image/png" }],
+    });
+    expect(parseSendChatInput({ content: "Read these", attachments: [] })).toEqual({ content: "Read these" });
+    expect(parseSendChatInput({ content: "Read", attachments: [{ ...file, kind: "socket" }] })).toBeNull();
+    expect(parseSendChatInput({ content: "Read", attachments: [{ kind: "upload", name: "clip.png" }] })).toBeNull();
+    expect(parseSendChatInput({
+      content: "Read",
+      attachments: Array.from({ length: MAX_CHAT_ATTACHMENTS + 1 }, () => file),
+    })).toBeNull();
+
+    expect(parseAttachPathsInput({ paths: ["/tmp/a.txt"] })).toEqual({ paths: ["/tmp/a.txt"] });
+    expect(parseAttachPathsInput({ paths: [] })).toBeNull();
+    expect(parseAttachPathsInput({ paths: ["/tmp/a.txt", 7] })).toBeNull();
+    expect(parsePickAttachmentsInput({ kind: "directory" })).toEqual({ kind: "directory" });
+    expect(parsePickAttachmentsInput({ kind: "any" })).toBeNull();
+
+    const bytes = new Uint8Array([1, 2, 3]);
+    expect(parseUploadImageInput({ name: "clip.png", mimeType: "image/png", bytes }))
+      .toEqual({ name: "clip.png", mimeType: "image/png", bytes });
+    expect(parseUploadImageInput({ name: "notes.txt", mimeType: "text/plain", bytes })).toBeNull();
+    expect(parseUploadImageInput({ name: "clip.png", mimeType: "image/png", bytes: new Uint8Array() })).toBeNull();
+    expect(parseUploadImageInput({
+      name: "clip.png",
+      mimeType: "image/png",
+      bytes: new Uint8Array(MAX_PASTED_IMAGE_BYTES + 1),
+    })).toBeNull();
+  });
+
+  it("parses tool approval requests and validates approval answers", () => {
+    expect(parseDaemonServerMessage({
+      type: "approval_requested",
+      approvalId: "approval-1",
+      runId: "run-1",
+      messageId: "message-1",
+      tool: "delete",
+      reason: "destructive",
+      target: "/tmp/report.txt",
+      preview: "{}",
+      options: ["approve", "deny", "launch"],
+      expiresAt: "2026-10-19T10:05:00.000Z",
+    })).toEqual({
+      type: "approval_requested",
+      approvalId: "approval-1",
+      runId: "run-1",
+      messageId: "message-1",
+      tool: "delete",
+      reason: "destructive",
+      target: "/tmp/report.txt",
+      preview: "{}",
+      options: ["approve", "deny"],
+      expiresAt: "2026-10-19T10:05:00.000Z",
+    });
+    expect(parseDaemonServerMessage({ type: "approval_requested", approvalId: "a", runId: "r" })).toBeNull();
+
+    expect(parseApprovalResponseInput({ approvalId: "approval-1", decision: "always_for_workstream" }))
+      .toEqual({ approvalId: "approval-1", decision: "always_for_workstream" });
+    expect(parseApprovalResponseInput({ approvalId: "approval-1", decision: "maybe" })).toBeNull();
+  });
+
+  it("parses cancel results and validates stop requests", () => {
+    expect(parseDaemonServerMessage({
+      type: "cancel_run_result",
+      status: "cancelling",
+      messageId: "message-1",
+      queued: true,
+    })).toEqual({ type: "cancel_run_result", status: "cancelling", messageId: "message-1", queued: true });
+    expect(parseDaemonServerMessage({ type: "cancel_run_result", status: "stopped" })).toBeNull();
+
+    expect(parseCancelRunInput({ messageId: " message-1 " })).toEqual({ messageId: "message-1" });
+    expect(parseCancelRunInput({ messageId: "" })).toBeNull();
+  });
+
+  it("validates memory-view requests", () => {
+    expect(parseMemoryRequest({ kind: "list_memories", sectionId: "time_based", includeInactive: true }))
+      .toEqual({ kind: "list_memories", sectionId: "time_based", includeInactive: true });
+    expect(parseMemoryRequest({ kind: "list_memories", sectionId: "secrets" })).toBeNull();
+    expect(parseMemoryRequest({ kind: "edit_memory", memoryId: " mem_1 ", text: " Lives in Pune. " }))
+      .toEqual({ kind: "edit_memory", memoryId: "mem_1", text: "Lives in Pune." });
+    expect(parseMemoryRequest({ kind: "edit_memory", memoryId: "mem_1", text: "x".repeat(MAX_MEMORY_TEXT_CHARS + 1) }))
+      .toBeNull();
+    expect(parseMemoryRequest({ kind: "archive_memory" })).toBeNull();
+    expect(parseMemoryRequest({ kind: "import_memory", mode: "replace", path: "/etc/passwd" }))
+      .toEqual({ kind: "import_memory", mode: "replace" });
+    expect(parseMemoryRequest({ kind: "import_memory", mode: "overwrite" })).toBeNull();
+    expect(parseMemoryRequest({ kind: "delete_memory", memoryId: "mem_1" })).toBeNull();
+  });
 });
@@ -0,0 +1,181 @@
+import type {
+  MountedToolGroup,
+  ToolExecutor,
+  ToolGroupMeta,
+  ToolRegistryContext,
+  ValidationResult,
+} from "../skills/tool-executor.js";
+import { getToolTaxonomy } from "../skills/tool-taxonomy.js";
+import type { ToolDefinition, ToolExecutionContext, ToolResult } from "../skills/types.js";
+import type {
+  ToolApprovalBroker,
+  ToolApprovalOutcome,
+  ToolApprovalReason,
+} from "./tool-approval-broker.js";
+
+export const TOOL_APPROVAL_DENIED_CODE = "TOOL_APPROVAL_DENIED";
+
+const MAX_APPROVAL_PREVIEW_CHARS = 600;
+const MAX_APPROVAL_TARGET_CHARS = 240;
+
+export function createApprovalGatedToolExecutor(input: {
+  base: ToolExecutor;
+  broker: ToolApprovalBroker;
+}): ToolExecutor {
+  return new ApprovalGatedToolExecutor(input.base, input.broker);
+}
+
+/**
+ * Returns why a tool needs explicit user approval, or undefined when it may run unattended. The
+ * safety taxonomy also counts, so a destructive tool is gated even when its definition omits
+ * annotations, and a definition may gate individual calls by their input.
+ */
+export function toolApprovalReason(
+  toolName: string,
+  definition: ToolDefinition | undefined,
+  input?: unknown,
+): ToolApprovalReason | undefined {
+  if (definition?.annotations?.destructive || getToolTaxonomy(toolName)?.effect === "destructive") {
+    return "destructive";
+  }
+  if (definition?.annotations?.mutatesExternalWorld) return "external_effect";
+  return definition?.approvalReason?.(input);
+}
+
+class ApprovalGatedToolExecutor implements ToolExecutor {
+  constructor(
+    private readonly base: ToolExecutor,
+    private readonly broker: ToolApprovalBroker,
+  ) {}
+
+  list(context?: ToolRegistryContext): string[] {
+    return this.base.list(context);
+  }
+
+  definitions(context?: ToolRegistryContext): ToolDefinition[] {
+    return this.base.definitions(context);
+  }
+
+  validate(toolName: string, input: unknown, context?: ToolRegistryContext): ValidationResult {
+    return this.base.validate(toolName, input, context);
+  }
+
+  mount(groupId: string, tools: ToolDefinition[], meta?: Partial<ToolGroupMeta>): void {
+    this.base.mount?.(groupId, tools, meta);
+  }
+
+  unmount(groupId: string): void {
+    this.base.unmount?.(groupId);
+  }
+
+  listMountedGroups(context?: ToolRegistryContext): MountedToolGroup[] {
+    return this.base.listMountedGroups?.(context) ?? [];
+  }
+
+  cleanupExpired(context: ToolRegistryContext): string[] {
+    return this.base.cleanupExpired?.(context) ?? [];
+  }
+
+  async execute(toolName: string, input: unknown, context?: ToolExecutionContext): Promise<ToolResult> {
+    const definition = this.base.definitions(context).find((tool) => tool.name === toolName);
+    const reason = toolApprovalReason(toolName, definition, input);
+    if (!reason) {
+      return await this.base.execute(toolName, input, context);
+    }
+
+    const target = approvalTarget(input);
+    const outcome = await this.broker.requestApproval({
+      ...(context?.runId ? { runId: context.runId } : {}),
+      ...(context?.resourceScope?.workstreamId ? { workstreamId: context.resourceScope.workstreamId } : {}),
+      tool: toolName,
+      reason,
+      ...(target ? { target } : {}),
+      preview: approvalPreview(input),
+    });
+    if (!outcome.approved) {
+      return approvalDeniedResult(toolName, outcome, target);
+    }
+    return await this.base.execute(toolName, input, context);
+  }
+}
+
+function approvalDeniedResult(
+  toolName: string,
+  outcome: ToolApprovalOutcome,
+  target: string | undefined,
+): ToolResult {
+  const message = outcome.source === "unattended"
+    ? `'${toolName}' requires user approval, but no interactive client is attached to this run.`
+    : outcome.source === "timeout"
+      ? `'${toolName}' was not approved before the approval request expired.`
+      : `The user denied '${toolName}'.`;
+  return {
+    ok: false,
+    error: message,
+    v2: {
+      transportOk: true,
+      operationStatus: "failed",
+      code: TOOL_APPROVAL_DENIED_CODE,
+      message,
+      error: {
+        category: "permission",
+        code: TOOL_APPROVAL_DENIED_CODE,
+        message,
+        retryable: false,
+        recoverable: true,
+        ...(target ? { target } : {}),
+        actual: { decision: outcome.decision, source: outcome.source },
+        suggestedNextActions: [
+          "Do not retry the denied call or an equivalent call with the same effect.",
+          "Continue with a read-only or non-destructive alternative, or tell the user what was not done.",
+        ],
+      },
+    },
+  };
+}
+
+function approvalTarget(input: unknown): string | undefined {
+  const record = asRecord(input);
+  if (!record) return undefined;
+  const executable = readString(record["executable"]);
+  if (executable) {
+    const args = Array.isArray(record["args"])
+      ? record["args"].filter((arg): arg is string => typeof arg === "string")
+      : [];
+    return bounded([executable, ...args].join(" "), MAX_APPROVAL_TARGET_CHARS);
+  }
+  const source = readString(record["source"]);
+  const destination = readString(record["destination"]);
+  if (source && destination) {
+    return bounded(`${source} -> ${destination}`, MAX_APPROVAL_TARGET_CHARS);
+  }
+  const direct = readString(record["path"])
+    ?? readString(record["target"])
+    ?? readString(record["url"])
+    ?? readString(record["sessionId"]);
+  return direct ? bounded(direct, MAX_APPROVAL_TARGET_CHARS) : undefined;
+}
+
+function approvalPreview(input: unknown): string {
+  let serialized: string;
+  try {
+    serialized = JSON.stringify(input ?? {}, null, 2) ?? "{}";
+  } catch {
+    serialized = String(input);
+  }
+  return bounded(serialized, MAX_APPROVAL_PREVIEW_CHARS);
+}
+
+function bounded(value: string, maxChars: number): string {
+  return value.length > maxChars ? `${value.slice(0, maxChars - 3)}...` : value;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : undefined;
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : undefined;
+}
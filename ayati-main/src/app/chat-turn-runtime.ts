@@ -39,13 +39,24 @@ import type {
   FinalResponseStreamEvent,
   FinalResponseStreamKind,
   LoopConfig,
+  RunBudgetRemaining,
+  RunSpend,
 } from "../ivec/types.js";
-import { createWorkstreamBindingCoordinator } from "../ivec/workstream-binding/coordinator.js";
+import {
+  bindRunToWorkstream,
+  createWorkstreamBindingCoordinator,
+} from "../ivec/workstream-binding/coordinator.js";
 import {
   createChatReplyChannel,
   type ChatReplyChannel,
 } from "./chat-reply-channel.js";
 import { buildStaticSystemContext } from "./static-prompt.js";
+import type { ToolApprovalBroker } from "./tool-approval-broker.js";
+import {
+  addRunSpend,
+  createSpendMeteredProvider,
+  type CostBudgetLedger,
+} from "./cost-budget-ledger.js";
 import type {
   ContextEnginePreparedTurn,
   ContextEngineRuntime,
@@ -58,6 +69,9 @@ import {
 export interface CreateChatTurnRuntimeOptions {
   onReply?: (clientId: string, data: unknown) => void;
   clientSupportsReplyStreaming?: (clientId: string) => boolean;
+  clientSupportsApprovals?: (clientId: string) => boolean;
+  toolApprovals?: ToolApprovalBroker;
+  costBudget?: CostBudgetLedger;
   provider?: LlmProvider;
   workspaceRoot: string;
   staticContext?: StaticContext;
@@ -72,6 +86,8 @@ export interface CreateChatTurnRuntimeOptions {
   fileLibrary?: FileLibrary;
   directoryLibrary?: DirectoryLibrary;
   eventSink?: AgentEventSink;
+  /** Releases run-owned tool state, such as Python sessions, once the run has been finalized. */
+  releaseRunResources?: (runId: string) => Promise<void>;
 }
 
 interface RegisteredChatAttachments {
@@ -96,6 +112,9 @@ export function createChatTurnRuntime(options: CreateChatTurnRuntimeOptions): Ch
 class AppChatTurnRuntime implements ChatTurnRuntime {
   private readonly onReply?: (clientId: string, data: unknown) => void;
   private readonly clientSupportsReplyStreaming: (clientId: string) => boolean;
+  private readonly clientSupportsApprovals: (clientId: string) => boolean;
+  private readonly toolApprovals?: ToolApprovalBroker;
+  private readonly costBudget?: CostBudgetLedger;
   private readonly provider?: LlmProvider;
   private readonly workspaceRoot: string;
   private readonly staticContext?: StaticContext;
@@ -108,11 +127,15 @@ class AppChatTurnRuntime implements ChatTurnRuntime {
   private readonly fileLibrary?: FileLibrary;
   private readonly directoryLibrary?: DirectoryLibrary;
   private readonly eventSink?: AgentEventSink;
+  private readonly releaseRunResources?: (runId: string) => Promise<void>;
   private readonly chatContextRuntime: ContextEngineRuntime;
   private readonly contextEngineService?: ContextEngineService;
   constructor(options: CreateChatTurnRuntimeOptions) {
     this.onReply = options.onReply;
     this.clientSupportsReplyStreaming = options.clientSupportsReplyStreaming ?? (() => false);
+    this.clientSupportsApprovals = options.clientSupportsApprovals ?? (() => false);
+    this.toolApprovals = options.toolApprovals;
+    this.costBudget = options.costBudget;
     this.provider = options.provider;
     this.workspaceRoot = options.workspaceRoot;
     this.staticContext = options.staticContext;
@@ -125,6 +148,7 @@ class AppChatTurnRuntime implements ChatTurnRuntime {
     this.fileLibrary = options.fileLibrary;
     this.directoryLibrary = options.directoryLibrary;
     this.eventSink = options.eventSink;
+    this.releaseRunResources = options.releaseRunResources;
     this.chatContextRuntime = options.chatContextRuntime;
     this.contextEngineService = options.contextEngineService;
   }
@@ -140,6 +164,10 @@ class AppChatTurnRuntime implements ChatTurnRuntime {
     let chatContextTurn: ContextEnginePreparedTurn | null = null;
     let liveFinalResponseStream: LiveReplyStream | null = null;
     let finalizationAttempted = false;
+    let releaseApprovals: (() => void) | undefined;
+    // Metered outside the loop so a run that throws is still charged to its workstream.
+    let runSpend: RunSpend = { usd: 0, tokens: 0 };
+    let runBudgetSettled = false;
 
     try {
       const ingressAt = this.nowProvider().toISOString();
@@ -153,6 +181,7 @@ class AppChatTurnRuntime implements ChatTurnRuntime {
       );
       inputHandle = this.inputHandleFromChatContextTurn(chatContextTurn);
       runHandle = chatContextTurn.run;
+      input.onRunStarted?.(runHandle.runId);
       this.eventSink?.record({
         clientId: input.clientId,
         sessionId: inputHandle.sessionId,
@@ -168,15 +197,33 @@ class AppChatTurnRuntime implements ChatTurnRuntime {
       });
 
       if (this.provider) {
+        releaseApprovals = this.toolApprovals?.attachRun(runHandle.runId, {
+          clientId: replyChannel.clientId,
+          interactive: this.clientSupportsApprovals(replyChannel.clientId),
+          ...(input.preApprovedTools?.length ? { preApprovedTools: input.preApprovedTools } : {}),
+          send: (data) => replyChannel.send(data),
+        });
+        if (releaseApprovals) {
+          // A cancelled run must not sit behind an unanswered approval prompt.
+          input.signal?.addEventListener("abort", releaseApprovals, { once: true });
+        }
         await this.associateRegisteredAttachmentsWithRun(registeredAttachments, runHandle.runId);
+        if (input.boundWorkstream) {
+          chatContextTurn = await this.bindRequestedWorkstream(input, chatContextTurn, inputHandle.sessionId);
+        }
         const harnessContext = this.harnessContextFromPreparedTurn(chatContextTurn);
         const toolDefinitions = this.toolExecutor?.definitions({
           clientId: input.clientId,
           runId: runHandle.runId,
           sessionId: inputHandle.sessionId,
         }) ?? [];
+        const provider = this.costBudget
+          ? createSpendMeteredProvider(this.provider, (spend) => {
+              runSpend = addRunSpend(runSpend, spend);
+            })
+          : this.provider;
         let result = await agentLoop({
-          provider: this.provider,
+          provider,
           workspaceRoot: this.workspaceRoot,
           toolExecutor: this.toolExecutor,
           capabilitySurfaceManager: this.capabilitySurfaceManager,
@@ -225,6 +272,8 @@ class AppChatTurnRuntime implements ChatTurnRuntime {
           managedDirectories: registeredAttachments.managedDirectories,
           fileLibrary: this.fileLibrary,
           directoryLibrary: this.directoryLibrary,
+          ...(input.signal ? { signal: input.signal } : {}),
+          ...(this.costBudget ? { budget: this.costBudget } : {}),
           onProgress: (log, _runPath) => {
             devLog(`[${input.clientId}] ${log}`);
             this.sendProgress(replyChannel, runHandle!, log);
@@ -242,13 +291,15 @@ class AppChatTurnRuntime implements ChatTurnRuntime {
               }
             : {}),
         });
+        const budget = this.settleRunBudget(result);
+        runBudgetSettled = true;
         finalizationAttempted = true;
         const commitStatus = await this.finalizeChatContextRun(
           input.clientId,
           chatContextTurn,
           result,
         );
-        this.dispatchAgentResponse(replyChannel, runHandle, result, commitStatus, liveFinalResponseStream);
+        this.dispatchAgentResponse(replyChannel, runHandle, result, commitStatus, liveFinalResponseStream, budget);
         this.eventSink?.record({
           clientId: input.clientId,
           sessionId: inputHandle.sessionId,
@@ -317,12 +368,16 @@ class AppChatTurnRuntime implements ChatTurnRuntime {
           data: { message },
         });
       }
+      if (runHandle && chatContextTurn && !runBudgetSettled) {
+        await this.chargeFailedRunBudget(input.clientId, chatContextTurn, runSpend);
+      }
       if (runHandle && chatContextTurn && !finalizationAttempted) {
         await this.completeFailedChatContextRun(
           input.clientId,
           chatContextTurn,
           runHandle,
           err,
+          input.signal?.aborted === true,
         );
       }
       const failedLiveStream = liveFinalResponseStream as LiveReplyStream | null;
@@ -340,6 +395,16 @@ class AppChatTurnRuntime implements ChatTurnRuntime {
         ...(runHandle ? { runId: runHandle.runId } : {}),
       });
       if (runHandle) this.eventSink?.scheduleCheckpoint?.(runHandle.runId);
+    } finally {
+      if (releaseApprovals) {
+        input.signal?.removeEventListener("abort", releaseApprovals);
+        releaseApprovals();
+      }
+      if (runHandle && this.releaseRunResources) {
+        await this.releaseRunResources(runHandle.runId).catch((error: unknown) => {
+          devWarn(`[${input.clientId}] run resource release failed: ${errMessage(error)}`);
+        });
+      }
     }
   }
 
@@ -451,15 +516,18 @@ class AppChatTurnRuntime implements ChatTurnRuntime {
     prepared: ContextEnginePreparedTurn,
     runHandle: AgentRunHandle,
     error: unknown,
+    cancelled: boolean,
   ): Promise<void> {
     const message = errMessage(error);
     try {
       await this.finalizeChatContextRun(clientId, prepared, {
         type: "reply",
         runId: runHandle.runId,
-        outcome: "failed",
-        stopReason: "failed",
-        content: `Runtime failed before the run could complete: ${message}`,
+        outcome: cancelled ? "cancelled" : "failed",
+        stopReason: cancelled ? "cancelled" : "failed",
+        content: cancelled
+          ? `Run was cancelled before it could complete: ${message}`
+          : `Runtime failed before the run could complete: ${message}`,
         status: "failed",
         totalIterations: 0,
         totalToolCalls: 0,
@@ -487,6 +555,44 @@ class AppChatTurnRuntime implements ChatTurnRuntime {
     };
   }
 
+  /**
+   * Binds a run that arrived for a fixed workstream before the agent starts. A failed binding
+   * leaves the run unbound, so the agent routes it from the message as usual.
+   */
+  private async bindRequestedWorkstream(
+    input: ChatTurnRuntimeInput,
+    turn: ContextEnginePreparedTurn,
+    streamId: string,
+  ): Promise<ContextEnginePreparedTurn> {
+    const target = input.boundWorkstream;
+    if (!target || !this.contextEngineService) return turn;
+    const outcome = await bindRunToWorkstream({
+      service: this.contextEngineService,
+      runId: turn.run.runId,
+      streamId,
+      currentInput: input.content,
+      now: this.nowProvider,
+    }, target);
+    this.eventSink?.record({
+      clientId: input.clientId,
+      sessionId: streamId,
+      runId: turn.run.runId,
+      stage: "context_engine",
+      event: "requested_workstream_binding",
+      data: {
+        workstreamId: target.workstreamId,
+        ...(target.requestId ? { requestId: target.requestId } : {}),
+        status: outcome.status,
+        ...(outcome.status === "failed" ? { code: outcome.code, message: outcome.message } : {}),
+      },
+    });
+    if (outcome.status !== "resolved") {
+      devWarn(`Run ${turn.run.runId} could not be bound to ${target.workstreamId}; routing from the message instead.`);
+      return turn;
+    }
+    return { ...turn, context: outcome.context };
+  }
+
   private harnessContextFromPreparedTurn(
     turn: ContextEnginePreparedTurn | null,
   ): HarnessContextInput {
@@ -498,6 +604,51 @@ class AppChatTurnRuntime implements ChatTurnRuntime {
     };
   }
 
+  /**
+   * Charges a run that threw before returning a result to the workstream it is bound to. Called
+   * before the run is finalized, while the Context Engine still reports it as the stream's run.
+   */
+  private async chargeFailedRunBudget(
+    clientId: string,
+    turn: ContextEnginePreparedTurn,
+    spend: RunSpend,
+  ): Promise<void> {
+    if (!this.costBudget || (spend.usd <= 0 && spend.tokens <= 0)) {
+      return;
+    }
+    const routing = turn.context.current.routing;
+    let workstreamId = routing?.status === "bound" ? routing.workstreamId : undefined;
+    if (this.contextEngineService) {
+      try {
+        const context = await this.contextEngineService.getAgentContext({ streamId: turn.streamId });
+        if (context.run?.run.runId === turn.run.runId) {
+          workstreamId = context.run.run.workstreamBinding?.workstreamId;
+        }
+      } catch (error) {
+        devWarn(`[${clientId}] failed run workstream lookup failed: ${errMessage(error)}`);
+      }
+    }
+    this.costBudget.recordRun({ ...(workstreamId ? { workstreamId } : {}), spend });
+  }
+
+  /** Reports headroom including this run, then charges the run to its workstream. */
+  private settleRunBudget(result: AgentLoopResult): RunBudgetRemaining | undefined {
+    if (!this.costBudget) {
+      return undefined;
+    }
+    const routing = result.harnessContext?.contextEngine?.current.routing;
+    const workstreamId = routing?.status === "bound" ? routing.workstreamId : undefined;
+    const remaining = this.costBudget.remaining({
+      ...(result.spend ? { spent: result.spend } : {}),
+      ...(workstreamId ? { workstreamId } : {}),
+    });
+    this.costBudget.recordRun({
+      ...(workstreamId ? { workstreamId } : {}),
+      ...(result.spend ? { spend: result.spend } : {}),
+    });
+    return remaining;
+  }
+
   private dispatchAgentResponse(
     replyChannel: ChatReplyChannel,
     runHandle: AgentRunHandle | null,
@@ -508,16 +659,17 @@ class AppChatTurnRuntime implements ChatTurnRuntime {
     },
     commitStatus: ReplyCommitStatus,
     liveStream?: LiveReplyStream | null,
+    budget?: RunBudgetRemaining,
   ): void {
     switch (result.type) {
       case "reply":
-        this.sendAssistantReply(replyChannel, runHandle, result.content, commitStatus, result.artifacts, liveStream);
+        this.sendAssistantReply(replyChannel, runHandle, result.content, commitStatus, result.artifacts, liveStream, budget);
         return;
       case "feedback":
-        this.sendAssistantFeedback(replyChannel, runHandle, result.content, commitStatus, result.artifacts, liveStream);
+        this.sendAssistantFeedback(replyChannel, runHandle, result.content, commitStatus, result.artifacts, liveStream, budget);
         return;
       case "notification":
-        this.sendAssistantNotification(replyChannel, runHandle, result.content, commitStatus, result.artifacts, liveStream);
+        this.sendAssistantNotification(replyChannel, runHandle, result.content, commitStatus, result.artifacts, liveStream, budget);
         return;
       case "none":
         return;
@@ -531,11 +683,13 @@ class AppChatTurnRuntime implements ChatTurnRuntime {
     commitStatus: ReplyCommitStatus,
     artifacts?: AgentArtifact[],
     liveStream?: LiveReplyStream | null,
+    budget?: RunBudgetRemaining,
   ): void {
     const terminalPayload = {
       ...(runHandle ? { runId: runHandle.runId } : {}),
       commitStatus,
       ...(artifacts && artifacts.length > 0 ? { artifacts } : {}),
+      ...(budget ? { budget } : {}),
     };
     if (liveStream) {
       this.finishLiveFinalResponseStream(replyChannel, runHandle, liveStream, {
@@ -564,11 +718,13 @@ class AppChatTurnRuntime implements ChatTurnRuntime {
     commitStatus: ReplyCommitStatus,
     artifacts?: AgentArtifact[],
     liveStream?: LiveReplyStream | null,
+    budget?: RunBudgetRemaining,
   ): void {
     const terminalPayload = {
       ...(runHandle ? { runId: runHandle.runId } : {}),
       commitStatus,
       ...(artifacts && artifacts.length > 0 ? { artifacts } : {}),
+      ...(budget ? { budget } : {}),
     };
     if (liveStream) {
       this.finishLiveFinalResponseStream(replyChannel, runHandle, liveStream, {
@@ -597,11 +753,13 @@ class AppChatTurnRuntime implements ChatTurnRuntime {
     commitStatus: ReplyCommitStatus,
     artifacts?: AgentArtifact[],
     liveStream?: LiveReplyStream | null,
+    budget?: RunBudgetRemaining,
   ): void {
     const terminalPayload = {
       ...(runHandle ? { runId: runHandle.runId } : {}),
       commitStatus,
       ...(artifacts && artifacts.length > 0 ? { artifacts } : {}),
+      ...(budget ? { budget } : {}),
     };
     if (liveStream) {
       this.finishLiveFinalResponseStream(replyChannel, runHandle, liveStream, {
@@ -769,7 +927,11 @@ class AppChatTurnRuntime implements ChatTurnRuntime {
             continue;
           }
 
-          managedFiles.push(await this.registerIncomingManagedFile(attachment));
+          const file = await this.registerIncomingManagedFile(attachment);
+          // Images are prepared up front so the run can send the provider-sized preview; OCR waits for file_describe.
+          managedFiles.push(file.capabilities.includes("image")
+            ? (await this.fileLibrary.prepareFile(file.fileId, { ocr: false })).file
+            : file);
         } catch (err) {
           warnings.push(`${formatAttachmentLabel(attachment)}: ${err instanceof Error ? err.message : String(err)}`);
         }
@@ -0,0 +1,638 @@
+import { randomUUID } from "node:crypto";
+import type {
+  ContextEngineService,
+  ResourcePublicLocator,
+  WorkstreamCandidate,
+} from "ayati-context-engine";
+import {
+  getActiveProvider,
+  getModelForProvider,
+  isSupportedLlmProvider,
+  setActiveModel,
+  SUPPORTED_LLM_PROVIDERS,
+} from "../config/llm-runtime-config.js";
+import type { RunQueueStatus } from "../ivec/index.js";
+import {
+  exportPersonalMemory,
+  parsePersonalMemoryExport,
+} from "../memory/personal/memory-export.js";
+import type { PersonalMemoryStore } from "../memory/personal/personal-memory-store.js";
+import {
+  EVOLVING_MEMORY_SECTION_ID,
+  TIME_BASED_SECTION_ID,
+  USER_FACTS_SECTION_ID,
+  type MemoryCard,
+  type MemoryCardEdit,
+  type MemoryImportMode,
+  type MemorySectionId,
+  type MemoryState,
+} from "../memory/personal/types.js";
+import type { SchedulerRuntime } from "../scheduler/index.js";
+import { devWarn } from "../shared/index.js";
+
+const WORKSTREAM_ID_PATTERN = /^W-\d{8}-\d{4}$/;
+const MAX_QUERY_ID_CHARS = 128;
+const MAX_QUERY_TEXT_CHARS = 500;
+const MAX_WORKSTREAM_TITLE_CHARS = 200;
+const MAX_SPLIT_REQUESTS = 50;
+const REQUEST_ID_PATTERN = /^R-\d{4}$/;
+const WORKSTREAM_LIST_LIMIT = 20;
+const RECENT_PROGRESS_LIMIT = 5;
+const RESOURCE_LIST_LIMIT = 50;
+const HISTORY_HIT_LIMIT = 10;
+const SCHEDULE_LIST_LIMIT = 50;
+const MEMORY_LIST_LIMIT = 200;
+const MEMORY_EVIDENCE_LIMIT = 20;
+const MEMORY_EVENT_LIMIT = 50;
+const MAX_MEMORY_ID_CHARS = 128;
+const MIN_MEMORY_ID_PREFIX_CHARS = 8;
+const MAX_MEMORY_TEXT_CHARS = 2_000;
+const MEMORY_SECTION_IDS: readonly MemorySectionId[] = [
+  USER_FACTS_SECTION_ID,
+  TIME_BASED_SECTION_ID,
+  EVOLVING_MEMORY_SECTION_ID,
+];
+const ALL_MEMORY_STATES: MemoryState[] = ["candidate", "active", "archived", "superseded", "merged", "expired", "rejected"];
+const MEMORY_EDIT_FIELDS = ["text", "value", "startsAt", "eventAt", "expiresAt"] as const;
+
+export type ClientQuery =
+  | { kind: "list_workstreams"; query?: string }
+  | { kind: "open_workstream"; workstreamId: string }
+  | { kind: "set_workstream_star"; workstreamId: string; starred: boolean }
+  | { kind: "archive_workstream"; workstreamId: string; archived: boolean }
+  | { kind: "rename_workstream"; workstreamId: string; title: string }
+  | { kind: "merge_workstreams"; sourceWorkstreamId: string; targetWorkstreamId: string }
+  | { kind: "split_workstream"; workstreamId: string; requestIds: string[]; title: string }
+  | { kind: "list_workstream_resources"; workstreamId: string }
+  | { kind: "search_history"; query: string }
+  | { kind: "set_model"; provider: string; model: string }
+  | { kind: "list_schedules"; includeInactive: boolean }
+  | { kind: "status" }
+  | { kind: "list_memories"; sectionId?: MemorySectionId; includeInactive: boolean }
+  | { kind: "memory_detail"; memoryId: string }
+  | { kind: "edit_memory"; memoryId: string; updates: MemoryCardEdit }
+  | { kind: "archive_memory"; memoryId: string }
+  | { kind: "export_memory" }
+  | { kind: "import_memory"; document: unknown; mode: MemoryImportMode };
+
+export type ClientQueryKind = ClientQuery["kind"];
+
+type MemoryClientQuery = Extract<ClientQuery, {
+  kind: "list_memories" | "memory_detail" | "edit_memory" | "archive_memory" | "export_memory" | "import_memory";
+}>;
+
+export type ClientQueryResultEnvelope =
+  | { type: "query_result"; queryId: string; kind: ClientQueryKind; ok: true; result: unknown }
+  | { type: "query_result"; queryId: string; kind: ClientQueryKind | "unknown"; ok: false; error: string };
+
+export interface ClientQueryHandlerOptions {
+  service: ContextEngineService;
+  agentId: string;
+  runQueueStatus: () => RunQueueStatus;
+  pendingApprovals?: () => number;
+  /** Absent when the daemon scheduler is disabled. */
+  scheduler?: Pick<SchedulerRuntime, "listSchedules" | "recentFires">;
+  /** Personal memory browsed and edited by the memory panels. */
+  memory?: {
+    store: PersonalMemoryStore;
+    userId: string;
+    /** Rebuilds the prompt snapshot after a client changed memory. */
+    refreshSnapshot(reason: string): Promise<unknown>;
+  };
+  send(clientId: string, data: ClientQueryResultEnvelope): void;
+  now?: () => Date;
+}
+
+/**
+ * Answers read-mostly `query` envelopes from clients (slash commands, panels) straight from the
+ * context engine and runtime config. Queries never start an agent run or enter the run queue.
+ */
+export class ClientQueryHandler {
+  private readonly now: () => Date;
+
+  constructor(private readonly options: ClientQueryHandlerOptions) {
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /** Starts answering a query. Returns false when the envelope is not a query. */
+  handle(transportClientId: string, data: unknown): boolean {
+    const record = asRecord(data);
+    if (!record || record["type"] !== "query") {
+      return false;
+    }
+    const queryId = boundedString(record["queryId"], MAX_QUERY_ID_CHARS);
+    if (!queryId) {
+      devWarn(`Ignored query without a queryId from ${transportClientId}`);
+      return true;
+    }
+    const parsed = parseClientQuery(record);
+    if (typeof parsed === "string") {
+      this.reply(transportClientId, {
+        type: "query_result",
+        queryId,
+        kind: knownKind(record["kind"]) ?? "unknown",
+        ok: false,
+        error: parsed,
+      });
+      return true;
+    }
+    void this.answer(parsed).then(
+      (result) => this.reply(transportClientId, { type: "query_result", queryId, kind: parsed.kind, ok: true, result }),
+      (error: unknown) => this.reply(transportClientId, {
+        type: "query_result",
+        queryId,
+        kind: parsed.kind,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    );
+    return true;
+  }
+
+  private async answer(query: ClientQuery): Promise<unknown> {
+    const { service } = this.options;
+    switch (query.kind) {
+      case "list_workstreams": {
+        const listed = await service.listWorkstreams({
+          ...(query.query ? { query: query.query } : {}),
+          limit: WORKSTREAM_LIST_LIMIT,
+        });
+        return { workstreams: listed.workstreams.map(workstreamSummary) };
+      }
+      case "open_workstream": {
+        // readWorkstream records an open for the active run; a client peek stays outside any run.
+        const opened = await service.getWorkstream({ workstreamId: query.workstreamId });
+        const context = opened.context;
+        return {
+          workstream: {
+            workstreamId: opened.workstream.workstreamId,
+            title: opened.workstream.title,
+            objective: opened.workstream.objective,
+            status: opened.workstream.status,
+            updatedAt: opened.workstream.updatedAt,
+          },
+          card: context
+            ? {
+                summary: context.summary,
+                ...(context.workstreamStatus ? { workstreamStatus: context.workstreamStatus } : {}),
+                ...(context.currentFocus ? { currentFocus: context.currentFocus } : {}),
+                ...(context.next ? { next: context.next } : {}),
+                ...(context.blockers && context.blockers.length > 0 ? { blockers: context.blockers } : {}),
+                ...(context.currentRequest
+                  ? {
+                      currentRequest: {
+                        id: context.currentRequest.id,
+                        title: context.currentRequest.title,
+                        status: context.currentRequest.status,
+                      },
+                    }
+                  : {}),
+                ...(context.latestOutcome ? { latestOutcome: context.latestOutcome } : {}),
+                ...(context.resourceChanges && context.resourceChanges.length > 0
+                  ? {
+                      resourcesChangedSinceLastRun: context.resourceChanges.map((change) => ({
+                        resourceId: change.resourceId,
+                        name: change.displayName,
+                        change: change.change,
+                        at: change.at,
+                      })),
+                    }
+                  : {}),
+              }
+            : undefined,
+          recentProgress: (context?.recentCommits ?? []).slice(0, RECENT_PROGRESS_LIMIT).map((commit) => ({
+            commit: commit.commit.slice(0, 12),
+            summary: commit.workSummary ?? commit.outcome ?? commit.subject,
+            ...(commit.committedAt ? { at: commit.committedAt } : {}),
+          })),
+        };
+      }
+      case "set_workstream_star": {
+        const at = this.now().toISOString();
+        return await service.setWorkstreamStarByUser({
+          requestId: `client-star:${randomUUID()}`,
+          workstreamId: query.workstreamId,
+          starred: query.starred,
+          at,
+        });
+      }
+      case "archive_workstream":
+        return await service.archiveWorkstream({
+          requestId: `client-archive:${randomUUID()}`,
+          workstreamId: query.workstreamId,
+          archived: query.archived,
+          at: this.now().toISOString(),
+        });
+      case "rename_workstream":
+        return await service.renameWorkstream({
+          requestId: `client-rename:${randomUUID()}`,
+          workstreamId: query.workstreamId,
+          title: query.title,
+          at: this.now().toISOString(),
+        });
+      case "merge_workstreams":
+        return await service.mergeWorkstreams({
+          requestId: `client-merge:${randomUUID()}`,
+          sourceWorkstreamId: query.sourceWorkstreamId,
+          targetWorkstreamId: query.targetWorkstreamId,
+          at: this.now().toISOString(),
+        });
+      case "split_workstream":
+        return await service.splitWorkstream({
+          requestId: `client-split:${randomUUID()}`,
+          workstreamId: query.workstreamId,
+          requestIds: query.requestIds,
+          title: query.title,
+          at: this.now().toISOString(),
+        });
+      case "list_workstream_resources": {
+        const found = await service.findResources({
+          workstreamId: query.workstreamId,
+          includeMissing: true,
+          limit: RESOURCE_LIST_LIMIT,
+        });
+        return {
+          workstreamId: query.workstreamId,
+          resources: found.resources.map((entry) => ({
+            resourceId: entry.resource.resourceId,
+            kind: entry.resource.kind,
+            name: entry.resource.displayName,
+            locator: describeLocator(entry.resource.locator),
+            availability: entry.resource.availability,
+            roles: entry.roles,
+            ...(entry.lastUsedAt ? { lastUsedAt: entry.lastUsedAt } : {}),
+          })),
+        };
+      }
+      case "search_history": {
+        const context = await service.getAgentContext({ agentId: this.options.agentId, scopeKey: "default" });
+        const streamId = context.stream?.stream.streamId;
+        if (!streamId) {
+          return { query: query.query, hits: [] };
+        }
+        const found = await service.searchAgentHistory({ streamId, query: query.query, limit: HISTORY_HIT_LIMIT });
+        return {
+          query: query.query,
+          hits: found.hits.map((hit) => ({
+            kind: hit.kind,
+            at: hit.at,
+            preview: hit.preview,
+            ...(hit.workstreamId ? { workstreamId: hit.workstreamId } : {}),
+          })),
+        };
+      }
+      case "set_model": {
+        if (!isSupportedLlmProvider(query.provider)) {
+          throw new Error(
+            `Unknown provider "${query.provider}". Use one of: ${SUPPORTED_LLM_PROVIDERS.join(", ")}.`,
+          );
+        }
+        const config = await setActiveModel(query.provider, query.model);
+        return { provider: config.activeProvider, model: config.models[config.activeProvider] };
+      }
+      case "list_schedules": {
+        const { scheduler } = this.options;
+        if (!scheduler) {
+          throw new Error("The scheduler is disabled; set AYATI_SCHEDULER_ENABLED=true to use schedules.");
+        }
+        const schedules = scheduler.listSchedules({
+          ...(query.includeInactive ? {} : { statuses: ["active"] }),
+          limit: SCHEDULE_LIST_LIMIT,
+        });
+        return {
+          schedules: schedules.map((schedule) => {
+            const lastFire = scheduler.recentFires(schedule.scheduleId, 1)[0];
+            return {
+              scheduleId: schedule.scheduleId,
+              name: schedule.name,
+              kind: schedule.kind,
+              ...(schedule.cron ? { cron: schedule.cron } : {}),
+              ...(schedule.runAt ? { at: schedule.runAt } : {}),
+              timezone: schedule.timezone,
+              status: schedule.status,
+              ...(schedule.workstreamId ? { workstreamId: schedule.workstreamId } : {}),
+              ...(schedule.nextFireAt ? { nextFireAt: schedule.nextFireAt } : {}),
+              ...(lastFire ? { lastFire: { scheduledFor: lastFire.scheduledFor, status: lastFire.status } } : {}),
+            };
+          }),
+        };
+      }
+      case "status": {
+        const provider = getActiveProvider();
+        return {
+          ...this.options.runQueueStatus(),
+          pendingApprovals: this.options.pendingApprovals?.() ?? 0,
+          provider,
+          model: getModelForProvider(provider),
+        };
+      }
+      case "list_memories":
+      case "memory_detail":
+      case "edit_memory":
+      case "archive_memory":
+      case "export_memory":
+      case "import_memory":
+        return await this.answerMemory(query);
+    }
+  }
+
+  private async answerMemory(query: MemoryClientQuery): Promise<unknown> {
+    const { memory } = this.options;
+    if (!memory) {
+      throw new Error("Personal memory is not available in this daemon.");
+    }
+    const { store, userId } = memory;
+    switch (query.kind) {
+      case "list_memories": {
+        const sections = query.sectionId ? [query.sectionId] : MEMORY_SECTION_IDS;
+        const states = query.includeInactive ? ALL_MEMORY_STATES : undefined;
+        return {
+          sections: sections.map((sectionId) => ({
+            sectionId,
+            cards: store.listMemories(userId, states, MEMORY_LIST_LIMIT, sectionId).map(memorySummary),
+          })),
+        };
+      }
+      case "memory_detail": {
+        const card = ownedMemory(store, userId, query.memoryId);
+        return {
+          memory: {
+            ...memorySummary(card),
+            importance: card.importance,
+            confirmations: card.confirmations,
+            corrections: card.corrections,
+            contradictions: card.contradictions,
+            createdAt: card.createdAt,
+            ...(card.lastUsedAt ? { lastUsedAt: card.lastUsedAt } : {}),
+            ...(card.supersededById ? { supersededById: card.supersededById } : {}),
+            ...(card.mergedIntoId ? { mergedIntoId: card.mergedIntoId } : {}),
+          },
+          evidence: store.listEvidence(card.id, MEMORY_EVIDENCE_LIMIT).map((evidence) => ({
+            evidenceType: evidence.evidenceType,
+            sourceText: evidence.sourceText,
+            createdAt: evidence.createdAt,
+            ...(evidence.runId ? { runId: evidence.runId } : {}),
+          })),
+          events: store.listEvolutionEvents({ userId, memoryId: card.id, limit: MEMORY_EVENT_LIMIT }).map((event) => ({
+            eventType: event.eventType,
+            sourceText: event.sourceText,
+            createdAt: event.createdAt,
+          })),
+        };
+      }
+      case "edit_memory": {
+        const card = ownedMemory(store, userId, query.memoryId);
+        const updated = store.runInTransaction(() => store.editCard(card.id, query.updates, this.now().toISOString()));
+        await memory.refreshSnapshot("client_memory_edit");
+        return { memory: memorySummary(updated) };
+      }
+      case "archive_memory": {
+        const card = ownedMemory(store, userId, query.memoryId);
+        const archived = store.runInTransaction(() => store.archiveCardByUser(
+          card.id,
+          "Archived by the user from the memory panel.",
+          this.now().toISOString(),
+        ));
+        await memory.refreshSnapshot("client_memory_archive");
+        return { memory: memorySummary(archived) };
+      }
+      case "export_memory":
+        return exportPersonalMemory(store, userId, this.now());
+      case "import_memory": {
+        const records = parsePersonalMemoryExport(query.document);
+        const imported = store.importRecords(userId, records, query.mode);
+        await memory.refreshSnapshot("client_memory_import");
+        return imported;
+      }
+    }
+  }
+
+  private reply(clientId: string, envelope: ClientQueryResultEnvelope): void {
+    try {
+      this.options.send(clientId, envelope);
+    } catch (error) {
+      devWarn("Query result delivery failed:", error);
+    }
+  }
+}
+
+const READ_ONLY_QUERY_KINDS: ReadonlySet<ClientQueryKind> = new Set([
+  "list_workstreams",
+  "open_workstream",
+  "list_workstream_resources",
+  "search_history",
+  "list_schedules",
+  "status",
+  "list_memories",
+  "memory_detail",
+  "export_memory",
+]);
+
+/** True for query envelopes an observer-scoped client may send; they change no daemon state. */
+export function isReadOnlyClientQuery(data: unknown): boolean {
+  const record = asRecord(data);
+  if (!record || record["type"] !== "query") return false;
+  const kind = knownKind(record["kind"]);
+  return kind !== undefined && READ_ONLY_QUERY_KINDS.has(kind);
+}
+
+export function parseClientQuery(record: Record<string, unknown>): ClientQuery | string {
+  const kind = knownKind(record["kind"]);
+  const workstreamId = boundedString(record["workstreamId"], 32);
+  const validWorkstreamId = workstreamId && WORKSTREAM_ID_PATTERN.test(workstreamId) ? workstreamId : undefined;
+  switch (kind) {
+    case "list_workstreams": {
+      const query = boundedString(record["query"], MAX_QUERY_TEXT_CHARS);
+      return { kind, ...(query ? { query } : {}) };
+    }
+    case "open_workstream":
+    case "list_workstream_resources":
+      return validWorkstreamId ? { kind, workstreamId: validWorkstreamId } : "A workstream id like W-20260101-0001 is required.";
+    case "set_workstream_star":
+      if (!validWorkstreamId) return "A workstream id like W-20260101-0001 is required.";
+      if (typeof record["starred"] !== "boolean") return "starred must be true or false.";
+      return { kind, workstreamId: validWorkstreamId, starred: record["starred"] };
+    case "archive_workstream":
+      if (!validWorkstreamId) return "A workstream id like W-20260101-0001 is required.";
+      if (typeof record["archived"] !== "boolean") return "archived must be true or false.";
+      return { kind, workstreamId: validWorkstreamId, archived: record["archived"] };
+    case "rename_workstream": {
+      if (!validWorkstreamId) return "A workstream id like W-20260101-0001 is required.";
+      const title = boundedString(record["title"], MAX_WORKSTREAM_TITLE_CHARS);
+      return title ? { kind, workstreamId: validWorkstreamId, title } : "A rename needs the new title.";
+    }
+    case "merge_workstreams": {
+      const source = boundedString(record["sourceWorkstreamId"], 32);
+      const target = boundedString(record["targetWorkstreamId"], 32);
+      if (!source || !target || !WORKSTREAM_ID_PATTERN.test(source) || !WORKSTREAM_ID_PATTERN.test(target)) {
+        return "Source and target workstream ids like W-20260101-0001 are required.";
+      }
+      return { kind, sourceWorkstreamId: source, targetWorkstreamId: target };
+    }
+    case "split_workstream": {
+      if (!validWorkstreamId) return "A workstream id like W-20260101-0001 is required.";
+      const requestIds = Array.isArray(record["requestIds"]) ? record["requestIds"] : [];
+      if (requestIds.length === 0 || requestIds.length > MAX_SPLIT_REQUESTS
+        || !requestIds.every((id) => typeof id === "string" && REQUEST_ID_PATTERN.test(id))) {
+        return "A split needs request ids like R-0001.";
+      }
+      const title = boundedString(record["title"], MAX_WORKSTREAM_TITLE_CHARS);
+      return title
+        ? { kind, workstreamId: validWorkstreamId, requestIds: requestIds as string[], title }
+        : "A split needs a title for the new workstream.";
+    }
+    case "search_history": {
+      const query = boundedString(record["query"], MAX_QUERY_TEXT_CHARS);
+      return query ? { kind, query } : "A history search needs query text.";
+    }
+    case "set_model": {
+      const provider = boundedString(record["provider"], 64);
+      const model = boundedString(record["model"], 256);
+      return provider && model ? { kind, provider, model } : "Both a provider and a model are required.";
+    }
+    case "list_schedules":
+      return { kind, includeInactive: record["includeInactive"] === true };
+    case "status":
+    case "export_memory":
+      return { kind };
+    case "list_memories": {
+      const sectionId = record["sectionId"];
+      if (sectionId !== undefined && !MEMORY_SECTION_IDS.includes(sectionId as MemorySectionId)) {
+        return `sectionId must be one of ${MEMORY_SECTION_IDS.join(", ")}.`;
+      }
+      return {
+        kind,
+        ...(sectionId !== undefined ? { sectionId: sectionId as MemorySectionId } : {}),
+        includeInactive: record["includeInactive"] === true,
+      };
+    }
+    case "memory_detail":
+    case "archive_memory": {
+      const memoryId = boundedString(record["memoryId"], MAX_MEMORY_ID_CHARS);
+      return memoryId ? { kind, memoryId } : "A memory id is required.";
+    }
+    case "edit_memory": {
+      const memoryId = boundedString(record["memoryId"], MAX_MEMORY_ID_CHARS);
+      if (!memoryId) return "A memory id is required.";
+      const updates: MemoryCardEdit = {};
+      for (const field of MEMORY_EDIT_FIELDS) {
+        const value = record[field];
+        if (value === undefined) continue;
+        if (value !== null && (typeof value !== "string" || value.length > MAX_MEMORY_TEXT_CHARS)) {
+          return `${field} must be a string of at most ${MAX_MEMORY_TEXT_CHARS} characters, or null.`;
+        }
+        if (field === "text" && (value === null || value.trim().length === 0)) {
+          return "Memory text cannot be empty.";
+        }
+        Object.assign(updates, { [field]: value });
+      }
+      return Object.keys(updates).length > 0
+        ? { kind, memoryId, updates }
+        : `An edit needs at least one of ${MEMORY_EDIT_FIELDS.join(", ")}.`;
+    }
+    case "import_memory": {
+      const mode = record["mode"] ?? "merge";
+      if (mode !== "merge" && mode !== "replace") return "mode must be merge or replace.";
+      if (!asRecord(record["document"])) return "An import needs the exported memory document.";
+      return { kind, document: record["document"], mode };
+    }
+    default:
+      return "Unknown query kind.";
+  }
+}
+
+/** Finds the user's card by full id or by an unambiguous prefix of at least eight characters. */
+function ownedMemory(store: PersonalMemoryStore, userId: string, memoryId: string): MemoryCard {
+  const card = store.getMemory(memoryId);
+  if (card?.userId === userId) {
+    return card;
+  }
+  const matches = memoryId.length >= MIN_MEMORY_ID_PREFIX_CHARS ? store.findMemoriesByIdPrefix(userId, memoryId) : [];
+  if (matches.length > 1) {
+    throw new Error(`Memory id ${memoryId} is ambiguous; use more of the id.`);
+  }
+  if (!matches[0]) {
+    throw new Error(`Memory ${memoryId} does not exist.`);
+  }
+  return matches[0];
+}
+
+function memorySummary(card: MemoryCard): Record<string, unknown> {
+  return {
+    memoryId: card.id,
+    sectionId: card.sectionId,
+    kind: card.kind,
+    slot: card.slot,
+    text: card.text,
+    ...(card.value ? { value: card.value } : {}),
+    ...(card.startsAt ? { startsAt: card.startsAt } : {}),
+    ...(card.eventAt ? { eventAt: card.eventAt } : {}),
+    ...(card.expiresAt ? { expiresAt: card.expiresAt } : {}),
+    state: card.state,
+    confidence: card.confidence,
+    sourceType: card.sourceType,
+    lastConfirmedAt: card.lastConfirmedAt,
+  };
+}
+
+function workstreamSummary(candidate: WorkstreamCandidate): Record<string, unknown> {
+  return {
+    workstreamId: candidate.workstreamId,
+    title: candidate.title,
+    status: candidate.status,
+    ...(candidate.lifecycleStatus ? { lifecycleStatus: candidate.lifecycleStatus } : {}),
+    starred: candidate.starred,
+    ...(candidate.currentRequest ? { currentRequest: candidate.currentRequest } : {}),
+    unfinishedRequests: candidate.unfinishedRequests.length,
+    updatedAt: candidate.updatedAt,
+  };
+}
+
+function describeLocator(locator: ResourcePublicLocator): string {
+  switch (locator.kind) {
+    case "filesystem":
+      return locator.path;
+    case "url":
+      return locator.url;
+    case "external":
+      return locator.uri ?? `${locator.provider}:${locator.externalId}`;
+    case "managed_blob":
+      return `managed:${locator.resourceId}`;
+  }
+}
+
+const CLIENT_QUERY_KINDS: readonly ClientQueryKind[] = [
+  "list_workstreams",
+  "open_workstream",
+  "set_workstream_star",
+  "archive_workstream",
+  "rename_workstream",
+  "merge_workstreams",
+  "split_workstream",
+  "list_workstream_resources",
+  "search_history",
+  "set_model",
+  "list_schedules",
+  "status",
+  "list_memories",
+  "memory_detail",
+  "edit_memory",
+  "archive_memory",
+  "export_memory",
+  "import_memory",
+];
+
+function knownKind(value: unknown): ClientQueryKind | undefined {
+  return CLIENT_QUERY_KINDS.includes(value as ClientQueryKind) ? value as ClientQueryKind : undefined;
+}
+
+function boundedString(value: unknown, maxLength: number): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  return trimmed && trimmed.length <= maxLength ? trimmed : undefined;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
@@ -1,5 +1,6 @@
 import { resolve } from "node:path";
 import type { AyatiRuntimeConfig } from "../config/runtime-config.js";
+import { DirectoryIndexScheduler } from "../files/directory-index-scheduler.js";
 import { DirectoryLibrary } from "../files/directory-library.js";
 import { FileLibrary } from "../files/file-library.js";
 import { SessionAttachmentService } from "../files/session-attachment-service.js";
@@ -13,6 +14,8 @@ export interface ContentRuntime {
   sessionAttachmentService: SessionAttachmentService;
   fileLibrary: FileLibrary;
   directoryLibrary: DirectoryLibrary;
+  /** Refreshes directory full-text indexes in the background; started with the daemon. */
+  directoryIndexScheduler: DirectoryIndexScheduler;
   uploadsDir: string;
   httpHost: string;
   httpPort: number;
@@ -21,7 +24,11 @@ export interface ContentRuntime {
 export async function createContentRuntime(options: ContentRuntimeOptions): Promise<ContentRuntime> {
   const dataDir = resolve(options.projectRoot, "data");
   const fileLibrary = new FileLibrary({ dataDir });
-  const directoryLibrary = new DirectoryLibrary({ dataDir });
+  const directoryLibrary = new DirectoryLibrary({
+    dataDir,
+    requestIndexRefresh: (directoryId) => directoryIndexScheduler.enqueue(directoryId),
+  });
+  const directoryIndexScheduler = new DirectoryIndexScheduler({ library: directoryLibrary });
   const sessionAttachmentService = new SessionAttachmentService({
     fileLibrary,
     directoryLibrary,
@@ -31,6 +38,7 @@ export async function createContentRuntime(options: ContentRuntimeOptions): Prom
     sessionAttachmentService,
     fileLibrary,
     directoryLibrary,
+    directoryIndexScheduler,
     uploadsDir: resolve(dataDir, "uploads"),
     httpHost: options.config.http.host,
     httpPort: options.config.http.port,
@@ -0,0 +1,291 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { LlmProvider } from "../core/contracts/provider.js";
+import type { LlmTurnOutput } from "../core/contracts/llm-protocol.js";
+import type {
+  RunBudgetExhaustion,
+  RunBudgetGate,
+  RunBudgetRemaining,
+  RunBudgetScope,
+  RunBudgetUnit,
+  RunSpend,
+} from "../ivec/types.js";
+import { roundUsd } from "../providers/shared/token-pricing.js";
+import { devWarn } from "../shared/index.js";
+
+export interface CostBudgetLimit {
+  usd?: number;
+  tokens?: number;
+}
+
+export type CostBudgetPolicy = Record<RunBudgetScope, CostBudgetLimit>;
+
+interface CostBudgetLedgerFile {
+  version: 1;
+  days: Record<string, RunSpend>;
+  workstreams: Record<string, RunSpend>;
+}
+
+const BUDGET_SCOPES: RunBudgetScope[] = ["run", "workstream", "day"];
+const BUDGET_UNITS: RunBudgetUnit[] = ["usd", "tokens"];
+const RETAINED_DAYS = 31;
+
+export function loadCostBudgetPolicy(env: NodeJS.ProcessEnv = process.env): CostBudgetPolicy {
+  return {
+    run: readBudgetLimit(env, "RUN"),
+    workstream: readBudgetLimit(env, "WORKSTREAM"),
+    day: readBudgetLimit(env, "DAY"),
+  };
+}
+
+export function hasCostBudget(policy: CostBudgetPolicy): boolean {
+  return BUDGET_SCOPES.some((scope) => BUDGET_UNITS.some((unit) => policy[scope][unit] !== undefined));
+}
+
+/**
+ * Tracks provider spend per calendar day and per workstream so runs can stop before a budget is
+ * crossed. Day totals grow with every metered provider call, including memory and context work
+ * outside runs; workstream totals grow when a bound run ends, whether it finishes or fails.
+ */
+export class CostBudgetLedger implements RunBudgetGate {
+  private readonly policy: CostBudgetPolicy;
+  private readonly filePath: string;
+  private readonly timezone: string;
+  private readonly now: () => Date;
+  private days: Record<string, RunSpend> = {};
+  private workstreams: Record<string, RunSpend> = {};
+  private persistChain: Promise<void> = Promise.resolve();
+
+  constructor(options: {
+    policy: CostBudgetPolicy;
+    filePath: string;
+    timezone: string;
+    now?: () => Date;
+  }) {
+    this.policy = options.policy;
+    this.filePath = options.filePath;
+    this.timezone = options.timezone;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+    const parsed = parseLedgerFile(raw);
+    if (!parsed) {
+      devWarn(`Ignoring unreadable cost budget ledger at ${this.filePath}.`);
+      return;
+    }
+    this.days = parsed.days;
+    this.workstreams = parsed.workstreams;
+  }
+
+  /** Adds one provider call to today's total. */
+  recordUsage(spend: RunSpend): void {
+    if (spend.usd <= 0 && spend.tokens <= 0) return;
+    const day = this.currentDay();
+    this.days[day] = addRunSpend(this.days[day], spend);
+    this.schedulePersist();
+  }
+
+  /** Adds a finished run's spend to its workstream's total. */
+  recordRun(input: { workstreamId?: string; spend?: RunSpend }): void {
+    if (!input.workstreamId || !input.spend) return;
+    if (input.spend.usd <= 0 && input.spend.tokens <= 0) return;
+    this.workstreams[input.workstreamId] = addRunSpend(this.workstreams[input.workstreamId], input.spend);
+    this.schedulePersist();
+  }
+
+  check(input: { spent: RunSpend; projected: RunSpend; workstreamId?: string }): RunBudgetExhaustion | null {
+    for (const scope of BUDGET_SCOPES) {
+      const spent = this.scopeSpend(scope, input.spent, input.workstreamId);
+      if (!spent) continue;
+      for (const unit of BUDGET_UNITS) {
+        const limit = this.policy[scope][unit];
+        if (limit === undefined) continue;
+        if (spent[unit] >= limit || spent[unit] + input.projected[unit] > limit) {
+          return { scope, unit, limit, spent: spent[unit], projected: input.projected[unit] };
+        }
+      }
+    }
+    return null;
+  }
+
+  /** Scopes that cannot be resolved yet (no workstream bound) are omitted rather than guessed. */
+  remaining(input: { spent?: RunSpend; workstreamId?: string } = {}): RunBudgetRemaining | undefined {
+    const remaining: RunBudgetRemaining = {};
+    for (const scope of BUDGET_SCOPES) {
+      const spent = this.scopeSpend(scope, input.spent ?? { usd: 0, tokens: 0 }, input.workstreamId);
+      if (!spent) continue;
+      const headroom: CostBudgetLimit = {};
+      for (const unit of BUDGET_UNITS) {
+        const limit = this.policy[scope][unit];
+        if (limit === undefined) continue;
+        const left = Math.max(0, limit - spent[unit]);
+        headroom[unit] = unit === "usd" ? roundUsd(left) : left;
+      }
+      if (Object.keys(headroom).length > 0) {
+        remaining[scope] = headroom;
+      }
+    }
+    return Object.keys(remaining).length > 0 ? remaining : undefined;
+  }
+
+  async flush(): Promise<void> {
+    await this.persistChain;
+  }
+
+  private scopeSpend(scope: RunBudgetScope, runSpend: RunSpend, workstreamId: string | undefined): RunSpend | undefined {
+    if (scope === "run") return runSpend;
+    if (scope === "day") return this.days[this.currentDay()] ?? { usd: 0, tokens: 0 };
+    // A running run's spend is not yet in the workstream total, so it is added here.
+    return workstreamId ? addRunSpend(this.workstreams[workstreamId], runSpend) : undefined;
+  }
+
+  private currentDay(): string {
+    return calendarDay(this.now(), this.timezone);
+  }
+
+  private schedulePersist(): void {
+    const snapshot: CostBudgetLedgerFile = {
+      version: 1,
+      days: retainRecentDays(this.days),
+      workstreams: { ...this.workstreams },
+    };
+    this.days = snapshot.days;
+    this.persistChain = this.persistChain
+      .then(() => writeLedgerFile(this.filePath, snapshot))
+      .catch((error) => {
+        devWarn("Failed to persist cost budget ledger:", error instanceof Error ? error.message : String(error));
+      });
+  }
+}
+
+/** Meters every provider call into the ledger's day total, whichever runtime made it. */
+export function createBudgetMeteredProvider(provider: LlmProvider, ledger: CostBudgetLedger): LlmProvider {
+  return createSpendMeteredProvider(provider, (spend) => ledger.recordUsage(spend));
+}
+
+/** Reports the spend of every call made through `provider` to `onSpend`. */
+export function createSpendMeteredProvider(
+  provider: LlmProvider,
+  onSpend: (spend: RunSpend) => void,
+): LlmProvider {
+  const record = (output: LlmTurnOutput): LlmTurnOutput => {
+    onSpend({
+      usd: output.cost?.totalCostUsd ?? 0,
+      tokens: output.usage?.totalTokens ?? 0,
+    });
+    return output;
+  };
+  return {
+    get name() {
+      return provider.name;
+    },
+    get model() {
+      return provider.model;
+    },
+    get version() {
+      return provider.version;
+    },
+    get capabilities() {
+      return provider.capabilities;
+    },
+    start: () => provider.start(),
+    stop: () => provider.stop(),
+    ...(provider.countInputTokens
+      ? { countInputTokens: (input) => provider.countInputTokens!(input) }
+      : {}),
+    generateTurn: async (input) => record(await provider.generateTurn(input)),
+    ...(provider.streamTurn
+      ? { streamTurn: async (input, callbacks) => record(await provider.streamTurn!(input, callbacks)) }
+      : {}),
+  };
+}
+
+function readBudgetLimit(env: NodeJS.ProcessEnv, scope: string): CostBudgetLimit {
+  const usd = readPositiveNumber(env, `AYATI_BUDGET_${scope}_USD`);
+  const tokens = readPositiveNumber(env, `AYATI_BUDGET_${scope}_TOKENS`);
+  if (tokens !== undefined && !Number.isInteger(tokens)) {
+    throw new Error(`AYATI_BUDGET_${scope}_TOKENS must be a positive integer; received ${tokens}.`);
+  }
+  return {
+    ...(usd !== undefined ? { usd } : {}),
+    ...(tokens !== undefined ? { tokens } : {}),
+  };
+}
+
+function readPositiveNumber(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  const raw = env[name]?.trim();
+  if (!raw) return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`${name} must be a positive number; received ${JSON.stringify(raw)}.`);
+  }
+  return value;
+}
+
+function calendarDay(date: Date, timezone: string): string {
+  // en-CA formats as YYYY-MM-DD.
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+function retainRecentDays(days: Record<string, RunSpend>): Record<string, RunSpend> {
+  const kept = Object.keys(days).sort().slice(-RETAINED_DAYS);
+  return Object.fromEntries(kept.map((day) => [day, days[day]!]));
+}
+
+export function addRunSpend(current: RunSpend | undefined, spend: RunSpend): RunSpend {
+  return {
+    usd: roundUsd((current?.usd ?? 0) + spend.usd),
+    tokens: (current?.tokens ?? 0) + spend.tokens,
+  };
+}
+
+function parseLedgerFile(raw: string): CostBudgetLedgerFile | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isRecord(value) || value["version"] !== 1) return null;
+  return {
+    version: 1,
+    days: readSpendRecord(value["days"]),
+    workstreams: readSpendRecord(value["workstreams"]),
+  };
+}
+
+function readSpendRecord(value: unknown): Record<string, RunSpend> {
+  if (!isRecord(value)) return {};
+  const entries = Object.entries(value).flatMap(([key, spend]) => {
+    if (!isRecord(spend)) return [];
+    const usd = spend["usd"];
+    const tokens = spend["tokens"];
+    if (typeof usd !== "number" || typeof tokens !== "number" || usd < 0 || tokens < 0) return [];
+    return [[key, { usd, tokens }] as const];
+  });
+  return Object.fromEntries(entries);
+}
+
+async function writeLedgerFile(filePath: string, file: CostBudgetLedgerFile): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await writeFile(tempPath, `${JSON.stringify(file, null, 2)}\n`, "utf8");
+  await rename(tempPath, filePath);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
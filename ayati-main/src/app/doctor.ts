@@ -7,6 +7,13 @@ import { promisify } from "node:util";
 import { executeSql } from "../database/sqlite-runtime.js";
 import { loadAyatiRuntimeConfig } from "../config/runtime-config.js";
 import { ensureManagedPythonInterpreter, resolveManagedPythonInterpreter } from "../skills/builtins/python/runtime.js";
+import {
+  detectProcessSandboxCapabilities,
+  ProcessSandboxError,
+  resolveSandboxIsolation,
+  type ProcessSandboxCapabilities,
+  type ProcessSandboxPolicy,
+} from "../skills/process-sandbox.js";
 import { loadVoiceRuntimeConfig, resolveVoiceRuntimePaths } from "../voice/index.js";
 
 const execFileAsync = promisify(execFile);
@@ -96,6 +103,14 @@ export async function runDoctor(options: DoctorOptions): Promise<DoctorReport> {
     ],
   });
 
+  sections.push({
+    title: "Image Preparation",
+    checks: [
+      await checkTesseract(env),
+      await checkImageMagick(env),
+    ],
+  });
+
   sections.push({
     title: "Voice Input",
     checks: [
@@ -134,6 +149,11 @@ export async function runDoctor(options: DoctorOptions): Promise<DoctorReport> {
     ],
   });
 
+  sections.push({
+    title: "Process Sandbox",
+    checks: checkProcessSandbox(config.sandbox, await detectProcessSandboxCapabilities()),
+  });
+
   return {
     projectRoot,
     generatedAt: (options.now ?? (() => new Date()))().toISOString(),
@@ -176,6 +196,44 @@ export function hasDoctorFailures(report: DoctorReport): boolean {
   return summarizeDoctorReport(report).fail > 0;
 }
 
+/** Reports what `process_run`, `process_start`, and the Python tools actually run under. */
+export function checkProcessSandbox(
+  policy: ProcessSandboxPolicy,
+  capabilities: ProcessSandboxCapabilities,
+): DoctorCheck[] {
+  let isolation: DoctorCheck;
+  let namespaced = false;
+  try {
+    const resolved = resolveSandboxIsolation(policy, capabilities);
+    namespaced = resolved.isolation !== "none";
+    isolation = policy.mode === "none"
+      ? { label: "isolation", status: "warn", detail: "disabled by AYATI_SANDBOX=none; only the environment is scrubbed" }
+      : resolved.degraded
+        ? { label: "isolation", status: "warn", detail: `${resolved.isolation}; ${resolved.degraded}` }
+        : { label: "isolation", status: "ok", detail: resolved.isolation };
+  } catch (err) {
+    if (!(err instanceof ProcessSandboxError)) throw err;
+    isolation = { label: "isolation", status: "fail", detail: err.message };
+  }
+  return [
+    isolation,
+    capabilities.bwrap
+      ? { label: "bwrap", status: "ok", detail: "namespaces available" }
+      : { label: "bwrap", status: "warn", detail: "missing or cannot create namespaces; install bubblewrap for a read-only filesystem outside the root" },
+    capabilities.unshare
+      ? { label: "unshare", status: "ok", detail: "user namespaces available" }
+      : { label: "unshare", status: "warn", detail: "missing or user namespaces are disabled" },
+    capabilities.prlimit
+      ? { label: "prlimit", status: "ok", detail: "CPU, memory, and file-size limits applied" }
+      : { label: "prlimit", status: "warn", detail: "missing; CPU, memory, and file-size limits are not applied" },
+    policy.allowNetwork
+      ? { label: "network", status: "warn", detail: "AYATI_SANDBOX_NETWORK=true lets child processes reach the network" }
+      : namespaced
+        ? { label: "network", status: "ok", detail: "blocked for child processes" }
+        : { label: "network", status: "warn", detail: "cannot be blocked without a namespace tool" },
+  ];
+}
+
 function checkNodePackage(packageName: string): DoctorCheck {
   try {
     const resolved = require.resolve(packageName);
@@ -278,6 +336,32 @@ async function checkTika(env: NodeJS.ProcessEnv): Promise<DoctorCheck> {
     };
 }
 
+async function checkTesseract(env: NodeJS.ProcessEnv): Promise<DoctorCheck> {
+  const command = env["TESSERACT_BIN"]?.trim() || "tesseract";
+  const found = await commandPath(command);
+  return found
+    ? { label: "tesseract", status: "ok", detail: found }
+    : {
+      label: "tesseract",
+      status: "warn",
+      detail: "missing; text in attached images will not be read locally",
+    };
+}
+
+async function checkImageMagick(env: NodeJS.ProcessEnv): Promise<DoctorCheck> {
+  const configured = env["IMAGEMAGICK_BIN"]?.trim();
+  const found = configured
+    ? await commandPath(configured)
+    : await commandPath("magick") ?? await commandPath("convert");
+  return found
+    ? { label: "imagemagick", status: "ok", detail: found }
+    : {
+      label: "imagemagick",
+      status: "warn",
+      detail: "missing; large or rotated images are sent to vision providers without a downscaled preview",
+    };
+}
+
 async function checkJavaForTika(env: NodeJS.ProcessEnv): Promise<DoctorCheck> {
   if (!env["TIKA_JAR_PATH"]?.trim()) {
     return {
@@ -401,7 +401,7 @@ function collectMutationPolicyPaths(toolName: string, value: unknown): string[]
   if (DIRECT_FILESYSTEM_MUTATION_TOOLS.has(toolName)) {
     return collectToolPaths(value);
   }
-  if (toolName === "process_start") {
+  if (toolName === "process_start" || toolName === "python_session_start") {
     return readDirectPaths(value, ["cwd"]);
   }
   if (PROCESS_MUTATION_TOOLS.has(toolName)) {
@@ -419,6 +419,10 @@ function collectMutationPolicyPaths(toolName: string, value: unknown): string[]
   if (toolName.startsWith("db_")) {
     return readDirectPaths(value, ["dbPath"]);
   }
+  if (toolName === "file_query_tables") {
+    // Mounted databases are only read; the saved result is the one write.
+    return readDirectPaths(value, ["saveAs"]);
+  }
   return collectToolPaths(value);
 }
 
@@ -1,7 +1,12 @@
 import { dirname, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
-import { IVecEngine } from "../ivec/index.js";
-import { UploadServer, WsServer } from "../server/index.js";
+import { IVecEngine, parseRunCancellationRequest } from "../ivec/index.js";
+import {
+  ClientTokenStore,
+  clientTokensPath,
+  UploadServer,
+  WsServer,
+} from "../server/index.js";
 import providerFactory from "../config/provider.js";
 import {
   getActiveProvider,
@@ -14,15 +19,25 @@ import { loadStaticContext, type StaticContext } from "../context/static-context
 import { devLog, devWarn } from "../shared/index.js";
 import { createMemoryRuntime } from "./memory-runtime.js";
 import { createContentRuntime } from "./content-runtime.js";
+import { setActiveIndexedPathSearcher } from "../files/directory-index.js";
 import { createSkillRuntime } from "./skill-runtime.js";
 import { loadAyatiRuntimeConfig } from "../config/runtime-config.js";
 import {
   NOOP_AGENT_EVENT_SINK,
   type AgentEventSink,
 } from "../ivec/agent-event-sink.js";
-import { startContextEngineHost } from "ayati-context-engine";
+import { createHashedNgramEmbedder, startContextEngineHost } from "ayati-context-engine";
 import { createContextEngineRuntime } from "./context-engine-runtime.js";
 import { createChatTurnRuntime } from "./chat-turn-runtime.js";
+import { ToolApprovalBroker } from "./tool-approval-broker.js";
+import { ClientQueryHandler, isReadOnlyClientQuery } from "./client-query-handler.js";
+import { ResourceAvailabilitySweeper } from "./resource-availability-sweeper.js";
+import { SemanticIndexRefresher } from "./semantic-index-refresher.js";
+import {
+  CostBudgetLedger,
+  createBudgetMeteredProvider,
+  hasCostBudget,
+} from "./cost-budget-ledger.js";
 import { ensureWorkspaceRoot } from "../skills/workspace-paths.js";
 import {
   createHarnessContextEngineObserver,
@@ -41,12 +56,15 @@ import {
   loadVoiceRuntimeConfig,
   resolveVoiceRuntimePaths,
 } from "../voice/index.js";
+import { ScheduleStore, SchedulerRuntime } from "../scheduler/index.js";
+import { createOpenAiEmbedder } from "../providers/openai/embeddings.js";
 
 const thisDir = dirname(fileURLToPath(import.meta.url));
 const projectRoot = resolve(thisDir, "..", "..");
 
 const CLIENT_ID = "local";
 const VOICE_REPLY_CLIENT_ID = "voice";
+const SCHEDULER_REPLY_CLIENT_ID = "scheduler";
 
 export async function main(): Promise<void> {
   await initializeLlmRuntimeConfig({ projectRoot });
@@ -69,20 +87,51 @@ export async function main(): Promise<void> {
     devLog(`Live evaluation capture unavailable: ${error instanceof Error ? error.message : String(error)}`);
   }
   const eventSink: AgentEventSink = evaluationRecorder ?? NOOP_AGENT_EVENT_SINK;
-  const provider = createEvaluationProvider(loadedProvider);
+  const costBudget = hasCostBudget(runtimeConfig.budget)
+    ? new CostBudgetLedger({
+        policy: runtimeConfig.budget,
+        filePath: resolve(projectRoot, "data", "runtime", "cost-budget-ledger.json"),
+        timezone: runtimeConfig.contextEngine.timezone,
+      })
+    : null;
+  await costBudget?.load();
+  const evaluatedProvider = createEvaluationProvider(loadedProvider);
+  const provider = costBudget
+    ? createBudgetMeteredProvider(evaluatedProvider, costBudget)
+    : evaluatedProvider;
   let engine: IVecEngine | null = null;
   let staticContext: StaticContext | null = null;
   let voiceChannel: VoiceChannelRuntime | null = null;
   const runByReplyTurn = new Map<string, string>();
+  const toolApprovals = new ToolApprovalBroker({
+    policy: runtimeConfig.toolApproval,
+    eventSink,
+    grantsFilePath: resolve(projectRoot, "data", "runtime", "tool-approval-grants.json"),
+  });
+  await toolApprovals.load();
+
+  const embedder = runtimeConfig.embeddings.provider === "openai"
+    ? createOpenAiEmbedder({ model: runtimeConfig.embeddings.model })
+    : createHashedNgramEmbedder();
 
   const memory = await createMemoryRuntime({
     projectRoot,
     clientId: CLIENT_ID,
     provider,
+    embedder,
   });
 
+  const clientTokens = new ClientTokenStore({
+    filePath: clientTokensPath(runtimeConfig.contextEngine.rootDirectory),
+  });
+  await clientTokens.start();
+  devLog(`Client tokens: ${clientTokens.filePath}`);
+
   let content: Awaited<ReturnType<typeof createContentRuntime>> | null = null;
+  let clientQueries: ClientQueryHandler | null = null;
   const wsServer = new WsServer({
+    auth: clientTokens,
+    allowsObserverMessage: isReadOnlyClientQuery,
     onReplyRendered: (transportClientId, acknowledgement) => {
       const runId = runByReplyTurn.get(acknowledgement.turnId);
       runByReplyTurn.delete(acknowledgement.turnId);
@@ -107,10 +156,19 @@ export async function main(): Promise<void> {
         event: "inbound",
         data: { transportClientId, envelope: data },
       });
-      const receipt = engine?.handleMessage(CLIENT_ID, data, {
-        replyClientId: transportClientId,
-        channel: wsServer.clientKind(transportClientId),
-      });
+      if (toolApprovals.respond(transportClientId, data)) {
+        return;
+      }
+      if (clientQueries?.handle(transportClientId, data)) {
+        return;
+      }
+      const cancellation = parseRunCancellationRequest(data);
+      const receipt = cancellation
+        ? engine?.cancelRun(cancellation)
+        : engine?.handleMessage(CLIENT_ID, data, {
+            replyClientId: transportClientId,
+            channel: wsServer.clientKind(transportClientId),
+          });
       if (receipt) {
         const started = process.hrtime.bigint();
         wsServer.send(transportClientId, receipt);
@@ -133,6 +191,7 @@ export async function main(): Promise<void> {
   const contextEngineHost = await startContextEngineHost({
     databasePath: runtimeConfig.contextEngine.databasePath,
     rootDirectory: runtimeConfig.contextEngine.rootDirectory,
+    embedder,
     observabilitySink: (event) => recordContextEngineObservabilityEvent(eventSink, event),
   });
   const contextEngineService = contextEngineHost.service;
@@ -150,6 +209,48 @@ export async function main(): Promise<void> {
       });
     },
   });
+  const resourceSweeper = new ResourceAvailabilitySweeper({
+    service: contextEngineService,
+    intervalMs: runtimeConfig.contextEngine.resourceSweepIntervalMs,
+    broadcast: (data) => wsServer.broadcast(data),
+  });
+  const semanticIndexRefresher = new SemanticIndexRefresher({ service: contextEngineService });
+  const memoryIndexRefresher = new SemanticIndexRefresher({
+    service: memory.personalMemoryStore,
+    label: "Personal memory index",
+  });
+  const scheduler = runtimeConfig.scheduler.enabled
+    ? new SchedulerRuntime({
+        store: new ScheduleStore({ dbPath: resolve(projectRoot, "data", "runtime", "schedules.sqlite") }),
+        config: runtimeConfig.scheduler,
+        defaultTimezone: runtimeConfig.contextEngine.timezone,
+        broadcast: (data) => wsServer.broadcast(data),
+        notifier: new NotifySendVoiceNotifier("notify-send", { appName: "Ayati", icon: "appointment-soon" }),
+        submitChat: ({ messageId, content: scheduledContent, boundWorkstream, preApprovedTools, onSettled }) => {
+          eventSink.record({
+            clientId: CLIENT_ID,
+            stage: "transport",
+            event: "inbound",
+            data: {
+              transportClientId: SCHEDULER_REPLY_CLIENT_ID,
+              channel: "scheduled",
+              envelope: { type: "chat", messageId, content: scheduledContent },
+            },
+          });
+          return engine?.handleMessage(CLIENT_ID, {
+            type: "chat",
+            messageId,
+            content: scheduledContent,
+          }, {
+            replyClientId: SCHEDULER_REPLY_CLIENT_ID,
+            channel: "scheduled",
+            ...(boundWorkstream ? { boundWorkstream } : {}),
+            preApprovedTools,
+            onSettled,
+          }) ?? null;
+        },
+      })
+    : null;
   const skills = await createSkillRuntime({
     projectRoot,
     clientId: CLIENT_ID,
@@ -159,6 +260,8 @@ export async function main(): Promise<void> {
     directoryLibrary: content.directoryLibrary,
     config: runtimeConfig,
     contextEngineService: contextEngineService,
+    toolApprovals,
+    ...(scheduler ? { scheduler } : {}),
     personalMemorySnapshot: (clientId) => memory.personalMemorySnapshotCache.getSnapshot(clientId),
   });
   const toolExecutor = createEvaluationToolExecutor(skills.toolExecutor);
@@ -170,18 +273,24 @@ export async function main(): Promise<void> {
       const started = process.hrtime.bigint();
       if (clientId === VOICE_REPLY_CLIENT_ID) {
         voiceChannel?.handleAgentMessage(data);
+      } else if (clientId === SCHEDULER_REPLY_CLIENT_ID) {
+        scheduler?.handleAgentMessage(data);
       } else {
         wsServer.send(clientId, data);
       }
       recordOutboundTransport(eventSink, clientId, data, runByReplyTurn, elapsedMs(started));
     },
     clientSupportsReplyStreaming: (clientId) => wsServer.clientSupportsReplyStreaming(clientId),
+    clientSupportsApprovals: (clientId) => wsServer.clientSupportsApprovals(clientId),
+    toolApprovals,
+    ...(costBudget ? { costBudget } : {}),
     provider,
     workspaceRoot: runtimeConfig.workspace.root,
     staticContext,
     toolExecutor,
     capabilitySurfaceManager: skills.capabilitySurfaceManager,
     hotContextRuntime: skills.hotContextRuntime,
+    releaseRunResources: async (runId) => await skills.releaseRun(runId),
     dataDir: resolve(projectRoot, "data"),
     fileLibrary: content.fileLibrary,
     directoryLibrary: content.directoryLibrary,
@@ -197,11 +306,26 @@ export async function main(): Promise<void> {
     maxUploadBytes: runtimeConfig.http.maxUploadBytes,
     allowOrigin: runtimeConfig.http.allowOrigin,
     fileLibrary: content.fileLibrary,
+    auth: clientTokens,
   });
   engine = new IVecEngine({
     provider,
     staticContext,
     chatTurnRuntime,
+    ...(costBudget ? { budgetRemaining: () => costBudget.remaining() } : {}),
+  });
+  clientQueries = new ClientQueryHandler({
+    service: contextEngineService,
+    agentId: runtimeConfig.contextEngine.agentId,
+    runQueueStatus: () => engine?.runQueueStatus() ?? { queued: 0 },
+    pendingApprovals: () => toolApprovals.pendingCount(),
+    ...(scheduler ? { scheduler } : {}),
+    memory: {
+      store: memory.personalMemoryStore,
+      userId: CLIENT_ID,
+      refreshSnapshot: async (reason) => await memory.personalMemorySnapshotCache.refresh(CLIENT_ID, reason),
+    },
+    send: (clientId, data) => wsServer.send(clientId, data),
   });
   if (voiceConfig.enabled) {
     voiceChannel = new VoiceChannelRuntime({
@@ -214,6 +338,7 @@ export async function main(): Promise<void> {
         maxTranscriptChars: voiceConfig.maxTranscriptChars,
       }),
       notifier: new NotifySendVoiceNotifier(),
+      authorizeControl: (token) => clientTokens.authenticate(token)?.scopes.has("voice") === true,
       submitChat: ({ messageId, content: voiceContent, onSettled }) => {
         eventSink.record({
           clientId: CLIENT_ID,
@@ -238,6 +363,12 @@ export async function main(): Promise<void> {
     });
   }
   await engine.start();
+  scheduler?.start();
+  content.directoryIndexScheduler.start();
+  resourceSweeper.start();
+  semanticIndexRefresher.start();
+  memoryIndexRefresher.start();
+  setActiveIndexedPathSearcher(content.directoryLibrary);
   await wsServer.start();
   if (voiceChannel) {
     try {
@@ -259,11 +390,23 @@ export async function main(): Promise<void> {
   const shutdown = (status: "completed" | "interrupted" | "failed" = "completed"): Promise<void> => {
     if (shutdownPromise) return shutdownPromise;
     shutdownPromise = (async () => {
+      toolApprovals.stop();
       await voiceChannel?.stop();
+      scheduler?.stop();
+      setActiveIndexedPathSearcher(undefined);
+      await content?.directoryIndexScheduler.stop();
+      await resourceSweeper.stop();
+      await semanticIndexRefresher.stop();
+      await memoryIndexRefresher.stop();
+      content?.directoryLibrary.close();
       await uploadServer.stop();
       await wsServer.stop();
       await memory.stop();
       await engine.stop();
+      scheduler?.close();
+      await skills.close();
+      await costBudget?.flush();
+      await toolApprovals.flush();
       await contextEngineHost.stop();
       await stopLiveEvaluationCapture(evaluationRecorder, status);
     })();
@@ -6,6 +6,7 @@ import type { LlmProvider } from "../core/contracts/provider.js";
 import type {
   ContextCheckpointPlan,
   ContextCheckpointRecord,
+  TextEmbedder,
 } from "ayati-context-engine";
 import { MemoryConsolidator } from "../memory/personal/memory-consolidator.js";
 import type { MemoryConsolidationJobPayload } from "../memory/personal/types.js";
@@ -14,6 +15,7 @@ export interface MemoryRuntimeOptions {
   projectRoot: string;
   clientId: string;
   provider: LlmProvider;
+  embedder?: TextEmbedder;
 }
 
 export interface PersonalMemoryCheckpointInput {
@@ -41,6 +43,7 @@ export async function createMemoryRuntime(options: MemoryRuntimeOptions): Promis
   const memoryDataDir = resolve(projectRoot, "data", "memory");
   const personalMemoryStore = new PersonalMemoryStore({
     dataDir: memoryDataDir,
+    embedder: options.embedder,
   });
   personalMemoryStore.start(loadMemoryPolicy(projectRoot));
 
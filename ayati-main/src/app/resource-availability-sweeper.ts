@@ -0,0 +1,126 @@
+import type {
+  ContextEngineService,
+  ResourceAvailabilityDrift,
+  SweepResourceAvailabilityResponse,
+} from "ayati-context-engine";
+import {
+  ProviderBackgroundSummaryScheduler,
+  type BackgroundTaskResult,
+} from "../ivec/context-preparation/background-scheduler.js";
+import { devLog, devWarn } from "../shared/index.js";
+
+const SWEEP_TASK_KEY = "resource-availability-sweep";
+
+export interface ResourceDriftNotification {
+  type: "notification";
+  content: string;
+  resourceDrift: {
+    eventId: string;
+    resourceId: string;
+    displayName: string;
+    change: "changed" | "missing";
+    availability: ResourceAvailabilityDrift["resource"]["availability"];
+    workstreams: Array<{ workstreamId: string; title: string }>;
+  };
+}
+
+export interface ResourceAvailabilitySweeperOptions {
+  service: Pick<ContextEngineService, "sweepResourceAvailability">;
+  /** Zero leaves the sweeper idle. */
+  intervalMs: number;
+  /** Sends an envelope to every connected client and returns how many received it. */
+  broadcast: (data: unknown) => number;
+  now?: () => Date;
+}
+
+/**
+ * Periodically asks the Context Engine to re-observe bound filesystem and git resources, and
+ * notifies clients when a workstream's deliverable changed outside Ayati or disappeared. Sweeps
+ * share one background slot, so a tick that lands during a sweep joins it instead of queueing.
+ */
+export class ResourceAvailabilitySweeper {
+  private readonly scheduler = new ProviderBackgroundSummaryScheduler();
+  private readonly now: () => Date;
+  private timer: NodeJS.Timeout | null = null;
+  private pending: Promise<unknown> | null = null;
+
+  constructor(private readonly options: ResourceAvailabilitySweeperOptions) {
+    this.now = options.now ?? (() => new Date());
+  }
+
+  start(): void {
+    if (this.timer || this.options.intervalMs <= 0) return;
+    void this.sweep();
+    this.timer = setInterval(() => void this.sweep(), this.options.intervalMs);
+    this.timer.unref();
+  }
+
+  async sweep(): Promise<BackgroundTaskResult<SweepResourceAvailabilityResponse>> {
+    const promise = this.scheduler.runWhenAvailable(SWEEP_TASK_KEY, async () => {
+      const response = await this.options.service.sweepResourceAvailability({
+        at: this.now().toISOString(),
+      });
+      this.report(response);
+      return response;
+    });
+    this.pending = promise;
+    const result = await promise;
+    if (result.status === "failed") {
+      devWarn("Resource availability sweep failed:", result.error);
+    }
+    return result;
+  }
+
+  /** Stops sweeping and waits for a sweep in progress. */
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.pending;
+  }
+
+  private report(response: SweepResourceAvailabilityResponse): void {
+    if (response.drift.length > 0 || response.failures.length > 0) {
+      devLog(
+        `Resource availability sweep observed ${response.observed}: ${response.drift.length} drifted, ${response.failures.length} unreadable`,
+      );
+    }
+    for (const drift of response.drift) {
+      const notification = deliverableDriftNotification(drift);
+      if (!notification) continue;
+      try {
+        this.options.broadcast(notification);
+      } catch (error) {
+        devWarn("Resource drift notification delivery failed:", error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+}
+
+/** Only deliverables that changed or disappeared are pushed; every drift still reaches workstream cards. */
+export function deliverableDriftNotification(
+  drift: ResourceAvailabilityDrift,
+): ResourceDriftNotification | undefined {
+  if (drift.change === "restored") return undefined;
+  const workstreams = drift.workstreams
+    .filter((workstream) => workstream.deliverable)
+    .map((workstream) => ({ workstreamId: workstream.workstreamId, title: workstream.title }));
+  if (workstreams.length === 0) return undefined;
+  const owners = workstreams
+    .map((workstream) => `"${workstream.title}" (${workstream.workstreamId})`)
+    .join(", ");
+  const location = drift.resource.locator.kind === "filesystem" ? drift.resource.locator.path : drift.resource.displayName;
+  return {
+    type: "notification",
+    content: drift.change === "changed"
+      ? `Deliverable ${drift.resource.displayName} of ${owners} changed outside Ayati.`
+      : `Deliverable ${drift.resource.displayName} of ${owners} is missing from ${location}.`,
+    resourceDrift: {
+      eventId: drift.eventId,
+      resourceId: drift.resource.resourceId,
+      displayName: drift.resource.displayName,
+      change: drift.change,
+      availability: drift.resource.availability,
+      workstreams,
+    },
+  };
+}
@@ -104,6 +104,12 @@ class ResourceScopedToolExecutor implements ToolExecutor {
       !taxonomy
       || taxonomy.effect === "context_mutation"
       || definition?.annotations?.domain === "context"
+      // Web tools address URLs, which the web fetch policy governs instead of filesystem scope.
+      || definition?.annotations?.domain === "web"
+      // Schedules live in the scheduler's own store, not in any workspace path.
+      || definition?.annotations?.domain === "schedule"
+      // MCP servers enforce their own scope; approval still gates their effects.
+      || definition?.annotations?.domain === "mcp"
     ) {
       return await this.base.execute(toolName, originalInput, context);
     }
@@ -350,7 +356,8 @@ class ResourceScopedToolExecutor implements ToolExecutor {
     if (isObservationalTool(toolName)) {
       return await this.base.execute(toolName, scopedInput, scopedContext);
     }
-    if (toolName === "process_poll" || toolName === "process_stop") {
+    if (toolName === "process_poll" || toolName === "process_stop"
+      || toolName === "python_session_inspect" || toolName === "python_session_stop") {
       return await this.base.execute(toolName, scopedInput, scopedContext);
     }
     if (rootBinding.access !== "mutate") {
@@ -359,7 +366,8 @@ class ResourceScopedToolExecutor implements ToolExecutor {
         "The selected resource is bound read-only. Bind it with mutate access before changing it.",
       );
     }
-    if (toolName === "process_start" || toolName === "process_send_input") {
+    if (toolName === "process_start" || toolName === "process_send_input"
+      || toolName === "python_session_start" || toolName === "python_session_exec") {
       return await this.base.execute(toolName, scopedInput, scopedContext);
     }
 
@@ -474,6 +482,11 @@ function collectMutationTargetInputs(
   toolName: string,
   value: unknown,
 ): Array<{ path: string; kind?: ResourceMutationTarget["kind"] }> {
+  if (toolName === "git_write") {
+    // Refs, the index, and new worktrees all live under the repository root.
+    const repositoryPath = isRecord(value) ? value["repositoryPath"] : undefined;
+    return typeof repositoryPath === "string" ? [{ path: repositoryPath, kind: "directory" }] : [];
+  }
   if (toolName !== "process_run" && toolName !== "process_start"
     && toolName !== "process_send_input" && toolName !== "python_execute") {
     return collectToolPaths(value).map((path) => ({ path }));
@@ -0,0 +1,72 @@
+import type { ContextEngineService, RefreshSemanticIndexResponse } from "ayati-context-engine";
+import {
+  ProviderBackgroundSummaryScheduler,
+  type BackgroundTaskResult,
+} from "../ivec/context-preparation/background-scheduler.js";
+import { devLog, devWarn } from "../shared/index.js";
+
+const REFRESH_TASK_KEY = "semantic-index-refresh";
+const DEFAULT_INTERVAL_MS = 60_000;
+const MAX_BATCHES_PER_REFRESH = 8;
+
+export interface SemanticIndexRefresherOptions {
+  /** The Context Engine, or any other store that keeps a semantic document index. */
+  service: Pick<ContextEngineService, "refreshSemanticIndex">;
+  /** Defaults to one minute; zero leaves the refresher idle. */
+  intervalMs?: number;
+  /** Names the index in logs; defaults to "Semantic index". */
+  label?: string;
+}
+
+/**
+ * Embeds semantic documents written since the last refresh, so searches only embed their query.
+ * Documents stay reachable through FTS until their vectors land.
+ */
+export class SemanticIndexRefresher {
+  private readonly scheduler = new ProviderBackgroundSummaryScheduler();
+  private readonly intervalMs: number;
+  private readonly label: string;
+  private timer: NodeJS.Timeout | null = null;
+  private pending: Promise<unknown> | null = null;
+
+  constructor(private readonly options: SemanticIndexRefresherOptions) {
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.label = options.label ?? "Semantic index";
+  }
+
+  start(): void {
+    if (this.timer || this.intervalMs <= 0) return;
+    void this.refresh();
+    this.timer = setInterval(() => void this.refresh(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  /** Embeds up to eight batches, stopping early once nothing is pending. */
+  async refresh(): Promise<BackgroundTaskResult<RefreshSemanticIndexResponse>> {
+    const promise = this.scheduler.runWhenAvailable(REFRESH_TASK_KEY, async () => {
+      let response = await this.options.service.refreshSemanticIndex({});
+      let embedded = response.embedded;
+      for (let batch = 1; batch < MAX_BATCHES_PER_REFRESH && response.embedded > 0 && response.pending > 0; batch += 1) {
+        response = await this.options.service.refreshSemanticIndex({});
+        embedded += response.embedded;
+      }
+      if (embedded > 0) {
+        devLog(`${this.label} embedded ${embedded} documents with ${response.embedderId}; ${response.pending} pending`);
+      }
+      return { ...response, embedded };
+    });
+    this.pending = promise;
+    const result = await promise;
+    if (result.status === "failed") {
+      devWarn(`${this.label} refresh failed:`, result.error);
+    }
+    return result;
+  }
+
+  /** Stops refreshing and waits for a refresh in progress. */
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.pending;
+  }
+}
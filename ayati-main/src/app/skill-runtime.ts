@@ -1,25 +1,33 @@
-import { resolve } from "node:path";
+import { join, resolve } from "node:path";
 import type { PersonalMemoryStore } from "../memory/personal/personal-memory-store.js";
 import type { SessionAttachmentService } from "../files/session-attachment-service.js";
 import type { DirectoryLibrary } from "../files/directory-library.js";
 import type { FileLibrary } from "../files/file-library.js";
 import type { AyatiRuntimeConfig } from "../config/runtime-config.js";
-import type { ContextEngineService } from "ayati-context-engine";
+import type { SchedulerRuntime } from "../scheduler/index.js";
+import { ManagedResourceStore, type ContextEngineService } from "ayati-context-engine";
 import { builtInSkillsProvider } from "../skills/provider.js";
 import { createToolExecutor, type ToolExecutor } from "../skills/tool-executor.js";
 import type { SkillDefinition } from "../skills/types.js";
 import { createMemorySkill } from "../skills/builtins/memory/index.js";
 import { createPythonSkill } from "../skills/builtins/python/index.js";
+import { PythonSessionManager } from "../skills/builtins/python/sessions.js";
 import { createAttachmentSkill } from "../skills/builtins/attachments/index.js";
 import { createFilesSkill } from "../skills/builtins/files/index.js";
 import { createGitContextSkill } from "../skills/builtins/git-context/index.js";
 import { createGitReadSkill } from "../skills/builtins/git-read/index.js";
+import { createGitWriteSkill } from "../skills/builtins/git-write/index.js";
 import { createContextSkill } from "../skills/builtins/context/index.js";
 import { createSystemSkill } from "../skills/builtins/system/index.js";
-import { CapabilityCatalog } from "../ivec/agent-runner/capabilities/catalog.js";
+import { createWebSkill } from "../skills/builtins/web/index.js";
+import { createScheduleSkill } from "../skills/builtins/schedule/index.js";
+import { startMcpServers } from "../skills/mcp/index.js";
+import { CAPABILITY_DEFINITIONS, CapabilityCatalog } from "../ivec/agent-runner/capabilities/catalog.js";
 import { ToolRegistry } from "../ivec/agent-runner/capabilities/registry.js";
 import { CapabilitySurfaceManager } from "../ivec/agent-runner/capabilities/surface-manager.js";
 import { createResourceScopedToolExecutor } from "./resource-scoped-tool-executor.js";
+import { createApprovalGatedToolExecutor } from "./approval-gated-tool-executor.js";
+import type { ToolApprovalBroker } from "./tool-approval-broker.js";
 import {
   createPersonalMemoryHotContextSource,
   HotContextRuntime,
@@ -35,6 +43,9 @@ export interface SkillRuntimeOptions {
   directoryLibrary: DirectoryLibrary;
   config: AyatiRuntimeConfig;
   contextEngineService: ContextEngineService;
+  toolApprovals?: ToolApprovalBroker;
+  /** Registers the schedule tools when the daemon scheduler is enabled. */
+  scheduler?: SchedulerRuntime;
   personalMemorySnapshot(clientId: string): string;
 }
 
@@ -43,6 +54,10 @@ export interface SkillRuntime {
   toolRegistry: ToolRegistry;
   capabilitySurfaceManager: CapabilitySurfaceManager;
   hotContextRuntime: HotContextRuntime;
+  /** Stops the run-scoped Python sessions a finalized run left behind. */
+  releaseRun(runId: string): Promise<void>;
+  /** Stops the MCP servers and Python sessions this runtime launched. */
+  close(): Promise<void>;
 }
 
 export async function createSkillRuntime(options: SkillRuntimeOptions): Promise<SkillRuntime> {
@@ -55,6 +70,7 @@ export async function createSkillRuntime(options: SkillRuntimeOptions): Promise<
     ],
     runScopedKeys: [...RUN_SCOPED_HOT_CONTEXT_KEYS],
   });
+  const pythonSessions = new PythonSessionManager();
 
   const runtimeSkills: SkillDefinition[] = [
     createContextSkill({ hotContextRuntime }),
@@ -69,6 +85,7 @@ export async function createSkillRuntime(options: SkillRuntimeOptions): Promise<
     createPythonSkill({
       dataDir: resolve(options.projectRoot, "data"),
       interpreterPath: options.config.python.interpreterPath,
+      sessions: pythonSessions,
     }),
     createAttachmentSkill({ sessionAttachmentService: options.sessionAttachmentService }),
     createFilesSkill({
@@ -82,13 +99,32 @@ export async function createSkillRuntime(options: SkillRuntimeOptions): Promise<
       service: options.contextEngineService,
       workstreamRoot: resolve(options.config.contextEngine.rootDirectory, "workstreams"),
     }),
+    createGitWriteSkill({
+      workstreamRoot: resolve(options.config.contextEngine.rootDirectory, "workstreams"),
+    }),
+    createWebSkill({
+      service: options.contextEngineService,
+      // Shares the catalog's managed store so fetched bodies are addressed by the versions it records.
+      resourceStore: new ManagedResourceStore(join(options.config.contextEngine.rootDirectory, ".ayati", "resources")),
+      policy: options.config.web,
+    }),
+    ...(options.scheduler
+      ? [createScheduleSkill({ scheduler: options.scheduler, service: options.contextEngineService })]
+      : []),
   ];
 
+  const mcp = await startMcpServers(options.config.mcp.servers);
+
   const allRuntimeSkills = [
     ...builtInSkills,
     ...runtimeSkills,
+    ...mcp.skills,
   ];
-  const baseToolExecutor = createToolExecutor([]);
+  const registryToolExecutor = createToolExecutor([]);
+  // Approval sits beneath resource scoping so prompts only fire for admitted calls and see the bound workstream.
+  const baseToolExecutor = options.toolApprovals
+    ? createApprovalGatedToolExecutor({ base: registryToolExecutor, broker: options.toolApprovals })
+    : registryToolExecutor;
   const toolExecutor = createResourceScopedToolExecutor({
     base: baseToolExecutor,
     contextEngine: options.contextEngineService,
@@ -97,7 +133,7 @@ export async function createSkillRuntime(options: SkillRuntimeOptions): Promise<
   });
   const toolRegistry = ToolRegistry.fromSkills(allRuntimeSkills);
   const capabilitySurfaceManager = new CapabilitySurfaceManager({
-    catalog: new CapabilityCatalog(),
+    catalog: new CapabilityCatalog([...CAPABILITY_DEFINITIONS, ...mcp.capabilities]),
     registry: toolRegistry,
     toolExecutor,
     maxVisibleTools: options.config.agent.loopConfig.maxCapabilitySurfaceTools,
@@ -108,5 +144,10 @@ export async function createSkillRuntime(options: SkillRuntimeOptions): Promise<
     toolRegistry,
     capabilitySurfaceManager,
     hotContextRuntime,
+    releaseRun: async (runId) => await pythonSessions.releaseRun(runId),
+    close: async () => {
+      await pythonSessions.closeAll();
+      await mcp.close();
+    },
   };
 }
@@ -0,0 +1,402 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { AgentEventSink } from "../ivec/agent-event-sink.js";
+import { devWarn } from "../shared/index.js";
+
+export type ToolApprovalMode = "prompt" | "auto_approve";
+
+export interface ToolApprovalPolicy {
+  mode: ToolApprovalMode;
+  timeoutMs: number;
+}
+
+export const DEFAULT_TOOL_APPROVAL_POLICY: ToolApprovalPolicy = {
+  mode: "prompt",
+  timeoutMs: 5 * 60 * 1000,
+};
+
+export type ToolApprovalDecision = "approve" | "deny" | "always_for_workstream";
+
+export type ToolApprovalReason = "destructive" | "external_effect";
+
+export type ToolApprovalOutcomeSource =
+  | "user"
+  | "standing_grant"
+  | "pre_approved"
+  | "policy"
+  | "timeout"
+  | "unattended"
+  | "run_ended";
+
+export const TOOL_APPROVAL_DECISIONS: readonly ToolApprovalDecision[] = [
+  "approve",
+  "deny",
+  "always_for_workstream",
+];
+
+export interface ToolApprovalRequestInput {
+  runId?: string;
+  workstreamId?: string;
+  tool: string;
+  reason: ToolApprovalReason;
+  target?: string;
+  preview: string;
+}
+
+export interface ToolApprovalOutcome {
+  approved: boolean;
+  decision: ToolApprovalDecision;
+  source: ToolApprovalOutcomeSource;
+  approvalId?: string;
+}
+
+/** Reply path for one active run; only the transport client that owns the run may answer. */
+export interface ToolApprovalChannel {
+  clientId: string;
+  interactive: boolean;
+  /** Tools this run may use without asking, such as the ones a schedule was approved with. */
+  preApprovedTools?: readonly string[];
+  send(data: unknown): void;
+}
+
+export interface ToolApprovalRequestedEnvelope {
+  type: "approval_requested";
+  approvalId: string;
+  runId: string;
+  tool: string;
+  reason: ToolApprovalReason;
+  target?: string;
+  preview: string;
+  workstreamId?: string;
+  options: ToolApprovalDecision[];
+  expiresAt: string;
+}
+
+export interface ToolApprovalResolvedEnvelope {
+  type: "approval_resolved";
+  approvalId: string;
+  runId: string;
+  tool: string;
+  decision: ToolApprovalDecision;
+  source: ToolApprovalOutcomeSource;
+}
+
+export interface ToolApprovalResponse {
+  approvalId: string;
+  decision: ToolApprovalDecision;
+}
+
+interface PendingApproval {
+  approvalId: string;
+  runId: string;
+  workstreamId?: string;
+  tool: string;
+  channel: ToolApprovalChannel;
+  timer: ReturnType<typeof setTimeout>;
+  resolve(outcome: ToolApprovalOutcome): void;
+}
+
+export interface ToolApprovalBrokerOptions {
+  policy?: ToolApprovalPolicy;
+  eventSink?: AgentEventSink;
+  now?: () => Date;
+  /** Where always-for-this-workstream grants persist; without it they last until the daemon stops. */
+  grantsFilePath?: string;
+}
+
+interface StandingGrantFile {
+  version: 1;
+  grants: Array<{ workstreamId: string; tool: string }>;
+}
+
+export class ToolApprovalBroker {
+  private readonly policy: ToolApprovalPolicy;
+  private readonly eventSink?: AgentEventSink;
+  private readonly nowProvider: () => Date;
+  private readonly channels = new Map<string, ToolApprovalChannel>();
+  private readonly pending = new Map<string, PendingApproval>();
+  private readonly standingGrants = new Set<string>();
+  private readonly grantsFilePath?: string;
+  private persistChain: Promise<void> = Promise.resolve();
+
+  constructor(options?: ToolApprovalBrokerOptions) {
+    this.policy = options?.policy ?? DEFAULT_TOOL_APPROVAL_POLICY;
+    this.eventSink = options?.eventSink;
+    this.nowProvider = options?.now ?? (() => new Date());
+    this.grantsFilePath = options?.grantsFilePath;
+  }
+
+  /** Restores standing grants saved by an earlier daemon. */
+  async load(): Promise<void> {
+    if (!this.grantsFilePath) return;
+    let raw: string;
+    try {
+      raw = await readFile(this.grantsFilePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+    const parsed = parseStandingGrantFile(raw);
+    if (!parsed) {
+      devWarn(`Ignoring unreadable tool approval grants at ${this.grantsFilePath}.`);
+      return;
+    }
+    for (const grant of parsed.grants) {
+      this.standingGrants.add(grantKey(grant.workstreamId, grant.tool));
+    }
+  }
+
+  async flush(): Promise<void> {
+    await this.persistChain;
+  }
+
+  /** Binds a run to its reply channel; the returned release denies anything still pending. */
+  attachRun(runId: string, channel: ToolApprovalChannel): () => void {
+    this.channels.set(runId, channel);
+    return () => {
+      if (this.channels.get(runId) === channel) {
+        this.channels.delete(runId);
+      }
+      for (const pending of [...this.pending.values()]) {
+        if (pending.runId === runId) {
+          this.settle(pending, "deny", "run_ended");
+        }
+      }
+    };
+  }
+
+  async requestApproval(request: ToolApprovalRequestInput): Promise<ToolApprovalOutcome> {
+    if (this.policy.mode === "auto_approve") {
+      return { approved: true, decision: "approve", source: "policy" };
+    }
+    if (request.workstreamId && this.standingGrants.has(grantKey(request.workstreamId, request.tool))) {
+      return { approved: true, decision: "always_for_workstream", source: "standing_grant" };
+    }
+
+    const channel = request.runId ? this.channels.get(request.runId) : undefined;
+    if (channel?.preApprovedTools?.includes(request.tool)) {
+      this.recordEvent(request.runId, "pre_approved", { tool: request.tool, reason: request.reason });
+      return { approved: true, decision: "approve", source: "pre_approved" };
+    }
+    if (!request.runId || !channel?.interactive) {
+      this.recordEvent(request.runId, "unattended", { tool: request.tool, reason: request.reason });
+      return { approved: false, decision: "deny", source: "unattended" };
+    }
+
+    const runId = request.runId;
+    const approvalId = randomUUID();
+    const expiresAt = new Date(this.nowProvider().getTime() + this.policy.timeoutMs).toISOString();
+    const options = request.workstreamId
+      ? [...TOOL_APPROVAL_DECISIONS]
+      : TOOL_APPROVAL_DECISIONS.filter((decision) => decision !== "always_for_workstream");
+    const envelope: ToolApprovalRequestedEnvelope = {
+      type: "approval_requested",
+      approvalId,
+      runId,
+      tool: request.tool,
+      reason: request.reason,
+      ...(request.target ? { target: request.target } : {}),
+      preview: request.preview,
+      ...(request.workstreamId ? { workstreamId: request.workstreamId } : {}),
+      options,
+      expiresAt,
+    };
+
+    return await new Promise<ToolApprovalOutcome>((resolve) => {
+      const timer = setTimeout(() => {
+        const current = this.pending.get(approvalId);
+        if (current) this.settle(current, "deny", "timeout");
+      }, this.policy.timeoutMs);
+      timer.unref?.();
+      this.pending.set(approvalId, {
+        approvalId,
+        runId,
+        ...(request.workstreamId ? { workstreamId: request.workstreamId } : {}),
+        tool: request.tool,
+        channel,
+        timer,
+        resolve,
+      });
+      this.recordEvent(runId, "requested", {
+        approvalId,
+        tool: request.tool,
+        reason: request.reason,
+        ...(request.target ? { target: request.target } : {}),
+        ...(request.workstreamId ? { workstreamId: request.workstreamId } : {}),
+      });
+      channel.send(envelope);
+    });
+  }
+
+  /** Applies a client answer. Returns false when the envelope is not an approval response. */
+  respond(transportClientId: string, data: unknown): boolean {
+    if (!isApprovalResponseEnvelope(data)) {
+      return false;
+    }
+    const response = parseToolApprovalResponse(data);
+    if (!response) {
+      return true;
+    }
+    const pending = this.pending.get(response.approvalId);
+    if (!pending) {
+      return true;
+    }
+    if (pending.channel.clientId !== transportClientId) {
+      devWarn(`Ignored approval response for ${response.approvalId} from non-owning client ${transportClientId}`);
+      return true;
+    }
+    if (response.decision === "always_for_workstream" && !pending.workstreamId) {
+      this.settle(pending, "approve", "user");
+      return true;
+    }
+    this.settle(pending, response.decision, "user");
+    return true;
+  }
+
+  pendingCount(): number {
+    return this.pending.size;
+  }
+
+  stop(): void {
+    for (const pending of [...this.pending.values()]) {
+      this.settle(pending, "deny", "run_ended");
+    }
+    this.channels.clear();
+  }
+
+  private settle(
+    pending: PendingApproval,
+    decision: ToolApprovalDecision,
+    source: ToolApprovalOutcomeSource,
+  ): void {
+    if (!this.pending.delete(pending.approvalId)) {
+      return;
+    }
+    clearTimeout(pending.timer);
+    if (decision === "always_for_workstream" && pending.workstreamId) {
+      this.standingGrants.add(grantKey(pending.workstreamId, pending.tool));
+      this.schedulePersist();
+    }
+    const resolved: ToolApprovalResolvedEnvelope = {
+      type: "approval_resolved",
+      approvalId: pending.approvalId,
+      runId: pending.runId,
+      tool: pending.tool,
+      decision,
+      source,
+    };
+    this.recordEvent(pending.runId, "resolved", {
+      approvalId: pending.approvalId,
+      tool: pending.tool,
+      decision,
+      source,
+    });
+    try {
+      pending.channel.send(resolved);
+    } catch (error) {
+      devWarn("Approval resolution delivery failed:", error);
+    }
+    pending.resolve({
+      approved: decision !== "deny",
+      decision,
+      source,
+      approvalId: pending.approvalId,
+    });
+  }
+
+  private schedulePersist(): void {
+    const filePath = this.grantsFilePath;
+    if (!filePath) return;
+    const snapshot: StandingGrantFile = {
+      version: 1,
+      grants: [...this.standingGrants].map((key) => {
+        const [workstreamId = "", tool = ""] = key.split("\u0000");
+        return { workstreamId, tool };
+      }),
+    };
+    this.persistChain = this.persistChain
+      .then(() => writeStandingGrantFile(filePath, snapshot))
+      .catch((error) => {
+        devWarn("Failed to persist tool approval grants:", error instanceof Error ? error.message : String(error));
+      });
+  }
+
+  private recordEvent(runId: string | undefined, event: string, data: Record<string, unknown>): void {
+    this.eventSink?.record({
+      ...(runId ? { runId } : {}),
+      stage: "approval",
+      event,
+      data,
+    });
+  }
+}
+
+export function loadToolApprovalPolicy(env: NodeJS.ProcessEnv = process.env): ToolApprovalPolicy {
+  const rawMode = env["AYATI_TOOL_APPROVAL_MODE"]?.trim();
+  if (rawMode && rawMode !== "prompt" && rawMode !== "auto_approve") {
+    throw new Error(
+      `AYATI_TOOL_APPROVAL_MODE must be one of prompt, auto_approve; received ${JSON.stringify(rawMode)}.`,
+    );
+  }
+  const timeoutMs = Number.parseInt(env["AYATI_TOOL_APPROVAL_TIMEOUT_MS"] ?? "", 10);
+  return {
+    mode: (rawMode as ToolApprovalMode | undefined) || DEFAULT_TOOL_APPROVAL_POLICY.mode,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0
+      ? timeoutMs
+      : DEFAULT_TOOL_APPROVAL_POLICY.timeoutMs,
+  };
+}
+
+export function parseToolApprovalResponse(data: unknown): ToolApprovalResponse | null {
+  if (!isApprovalResponseEnvelope(data)) {
+    return null;
+  }
+  const approvalId = typeof data["approvalId"] === "string" ? data["approvalId"].trim() : "";
+  const decision = data["decision"];
+  if (!approvalId || approvalId.length > 128) {
+    return null;
+  }
+  if (!TOOL_APPROVAL_DECISIONS.includes(decision as ToolApprovalDecision)) {
+    return null;
+  }
+  return { approvalId, decision: decision as ToolApprovalDecision };
+}
+
+function isApprovalResponseEnvelope(data: unknown): data is Record<string, unknown> {
+  return Boolean(data)
+    && typeof data === "object"
+    && !Array.isArray(data)
+    && (data as Record<string, unknown>)["type"] === "approval_response";
+}
+
+function parseStandingGrantFile(raw: string): StandingGrantFile | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const record = value as Record<string, unknown>;
+  if (record["version"] !== 1 || !Array.isArray(record["grants"])) return null;
+  const grants = record["grants"].flatMap((grant) => {
+    if (!grant || typeof grant !== "object") return [];
+    const { workstreamId, tool } = grant as Record<string, unknown>;
+    return typeof workstreamId === "string" && workstreamId && typeof tool === "string" && tool
+      ? [{ workstreamId, tool }]
+      : [];
+  });
+  return { version: 1, grants };
+}
+
+async function writeStandingGrantFile(filePath: string, file: StandingGrantFile): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await writeFile(tempPath, `${JSON.stringify(file, null, 2)}\n`, "utf8");
+  await rename(tempPath, filePath);
+}
+
+function grantKey(workstreamId: string, tool: string): string {
+  return `${workstreamId}\u0000${tool}`;
+}
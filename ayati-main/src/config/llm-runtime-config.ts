@@ -6,6 +6,7 @@ import {
   resolveLlmContextPressureThresholds,
 } from "./llm-context-profile.js";
 import type { LlmModelContextLimitConfig } from "./llm-context-profile.js";
+import type { LlmModelRole } from "../core/contracts/llm-protocol.js";
 
 export {
   DEFAULT_LLM_OUTPUT_RESERVE_TOKENS,
@@ -16,13 +17,35 @@ export type { LlmModelContextLimitConfig } from "./llm-context-profile.js";
 const thisDir = dirname(fileURLToPath(import.meta.url));
 const defaultProjectRoot = resolve(thisDir, "..", "..");
 
-export const SUPPORTED_LLM_PROVIDERS = ["openrouter", "openai", "anthropic", "fireworks"] as const;
+export const SUPPORTED_LLM_PROVIDERS = ["openrouter", "openai", "anthropic", "fireworks", "local"] as const;
 
 export type SupportedLlmProvider = (typeof SUPPORTED_LLM_PROVIDERS)[number];
 
+export const LLM_MODEL_ROLES: readonly LlmModelRole[] = [
+  "decision",
+  "stream_checkpoint",
+  "memory_consolidation",
+  "context_extraction",
+];
+
+/** A provider plus an optional model; without a model the provider's entry in `models` applies. */
+export interface LlmModelRoute {
+  provider: SupportedLlmProvider;
+  model?: string;
+}
+
+export interface ResolvedLlmModelRoute {
+  provider: SupportedLlmProvider;
+  model: string;
+}
+
 export interface LlmRuntimeConfig {
   activeProvider: SupportedLlmProvider;
   models: Record<SupportedLlmProvider, string>;
+  /** Tried in order after a role's own route fails transiently. */
+  fallback: LlmModelRoute[];
+  /** Roles without an entry use `activeProvider`. */
+  roles: Partial<Record<LlmModelRole, LlmModelRoute>>;
   modelContextLimits: Record<string, LlmModelContextLimitConfig>;
 }
 
@@ -31,6 +54,7 @@ export const DEFAULT_LLM_MODELS: Record<SupportedLlmProvider, string> = {
   openai: "gpt-4o-mini",
   anthropic: "claude-sonnet-4-5-20250929",
   fireworks: "fireworks/minimax-m2p5",
+  local: "llama3.1:8b",
 };
 
 const DEFAULT_ACTIVE_PROVIDER: SupportedLlmProvider = "openrouter";
@@ -51,6 +75,8 @@ export function createDefaultLlmRuntimeConfig(): LlmRuntimeConfig {
   return {
     activeProvider: DEFAULT_ACTIVE_PROVIDER,
     models: { ...DEFAULT_LLM_MODELS },
+    fallback: [],
+    roles: {},
     modelContextLimits: {},
   };
 }
@@ -89,6 +115,20 @@ export function getModelForProvider(provider: SupportedLlmProvider): string {
   return state.config.models[provider];
 }
 
+/** The role's route followed by the fallback chain, without repeated provider/model pairs. */
+export function resolveLlmModelRoutes(role: LlmModelRole = "decision"): ResolvedLlmModelRoute[] {
+  const config = state.config;
+  const primary = config.roles[role] ?? { provider: config.activeProvider };
+  const routes: ResolvedLlmModelRoute[] = [];
+  for (const route of [primary, ...config.fallback]) {
+    const model = route.model ?? config.models[route.provider];
+    if (!routes.some((existing) => existing.provider === route.provider && existing.model === model)) {
+      routes.push({ provider: route.provider, model });
+    }
+  }
+  return routes;
+}
+
 export function getConfiguredModelContextLimits(
   provider: SupportedLlmProvider,
   model: string = getModelForProvider(provider),
@@ -122,6 +162,49 @@ export async function setModelForProvider(
   }));
 }
 
+/** Switches the active provider and its model in one config write. */
+export async function setActiveModel(
+  provider: SupportedLlmProvider,
+  model: string,
+): Promise<LlmRuntimeConfig> {
+  const normalizedModel = model.trim();
+  if (normalizedModel.length === 0) {
+    throw new Error(`Model for provider "${provider}" must not be empty.`);
+  }
+
+  return updateLlmRuntimeConfig((current) => ({
+    ...current,
+    activeProvider: provider,
+    models: {
+      ...current.models,
+      [provider]: normalizedModel,
+    },
+  }));
+}
+
+export async function setFallbackRoutes(routes: LlmModelRoute[]): Promise<LlmRuntimeConfig> {
+  return updateLlmRuntimeConfig((current) => ({
+    ...current,
+    fallback: routes.map((route, index) => normalizeModelRoute(route, `fallback[${index}]`)),
+  }));
+}
+
+/** Assigns a route to one role; `null` returns the role to `activeProvider`. */
+export async function setRoleRoute(
+  role: LlmModelRole,
+  route: LlmModelRoute | null,
+): Promise<LlmRuntimeConfig> {
+  return updateLlmRuntimeConfig((current) => {
+    const roles = { ...current.roles };
+    if (route) {
+      roles[role] = normalizeModelRoute(route, `roles.${role}`);
+    } else {
+      delete roles[role];
+    }
+    return { ...current, roles };
+  });
+}
+
 export async function setModelContextLimitsForProvider(
   provider: SupportedLlmProvider,
   limits: LlmModelContextLimitConfig,
@@ -213,10 +296,61 @@ function normalizeLlmRuntimeConfig(input: unknown): LlmRuntimeConfig {
   return {
     activeProvider: rawActiveProvider,
     models,
+    fallback: normalizeFallbackRoutes(input["fallback"]),
+    roles: normalizeRoleRoutes(input["roles"]),
     modelContextLimits: normalizeModelContextLimits(input["modelContextLimits"]),
   };
 }
 
+function normalizeFallbackRoutes(input: unknown): LlmModelRoute[] {
+  if (input === undefined) {
+    return [];
+  }
+  if (!Array.isArray(input)) {
+    throw new Error("Invalid LLM runtime config: expected fallback to be an array.");
+  }
+  return input.map((route, index) => normalizeModelRoute(route, `fallback[${index}]`));
+}
+
+function normalizeRoleRoutes(input: unknown): Partial<Record<LlmModelRole, LlmModelRoute>> {
+  if (input === undefined) {
+    return {};
+  }
+  if (!isPlainObject(input)) {
+    throw new Error("Invalid LLM runtime config: expected roles to be an object.");
+  }
+  const roles: Partial<Record<LlmModelRole, LlmModelRoute>> = {};
+  for (const [role, route] of Object.entries(input)) {
+    if (!LLM_MODEL_ROLES.includes(role as LlmModelRole)) {
+      throw new Error(
+        `Invalid LLM runtime config: unsupported role "${role}". Expected one of ${LLM_MODEL_ROLES.join(", ")}.`,
+      );
+    }
+    roles[role as LlmModelRole] = normalizeModelRoute(route, `roles.${role}`);
+  }
+  return roles;
+}
+
+/** Accepts a bare provider name or `{ "provider": ..., "model": ... }`. */
+function normalizeModelRoute(input: unknown, path: string): LlmModelRoute {
+  const route = typeof input === "string" ? { provider: input } : input;
+  if (!isPlainObject(route)) {
+    throw new Error(`Invalid LLM runtime config: expected ${path} to be a provider name or an object.`);
+  }
+  const provider = route["provider"];
+  if (typeof provider !== "string" || !isSupportedLlmProvider(provider)) {
+    throw new Error(`Invalid LLM runtime config: unsupported ${path}.provider "${String(provider)}".`);
+  }
+  const model = route["model"];
+  if (model === undefined) {
+    return { provider };
+  }
+  if (typeof model !== "string" || model.trim().length === 0) {
+    throw new Error(`Invalid LLM runtime config: ${path}.model must be a non-empty string.`);
+  }
+  return { provider, model: model.trim() };
+}
+
 function normalizeModelContextLimits(input: unknown): Record<string, LlmModelContextLimitConfig> {
   if (input === undefined) {
     return {};
@@ -280,6 +414,10 @@ function cloneLlmRuntimeConfig(config: LlmRuntimeConfig): LlmRuntimeConfig {
   return {
     activeProvider: config.activeProvider,
     models: { ...config.models },
+    fallback: config.fallback.map((route) => ({ ...route })),
+    roles: Object.fromEntries(
+      Object.entries(config.roles).map(([role, route]) => [role, { ...route }]),
+    ),
     modelContextLimits: Object.fromEntries(
       Object.entries(config.modelContextLimits).map(([key, limits]) => [key, { ...limits }]),
     ),
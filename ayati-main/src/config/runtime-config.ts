@@ -6,6 +6,30 @@ import {
   loadFilesystemAccessPolicy,
   type FilesystemAccessPolicy,
 } from "../app/filesystem-access-policy.js";
+import {
+  loadToolApprovalPolicy,
+  type ToolApprovalPolicy,
+} from "../app/tool-approval-broker.js";
+import {
+  loadCostBudgetPolicy,
+  type CostBudgetPolicy,
+} from "../app/cost-budget-ledger.js";
+import {
+  loadWebFetchPolicy,
+  type WebFetchPolicy,
+} from "../skills/builtins/web/policy.js";
+import {
+  loadProcessSandboxPolicy,
+  type ProcessSandboxPolicy,
+} from "../skills/process-sandbox.js";
+import {
+  loadMcpRuntimeConfig,
+  type McpRuntimeConfig,
+} from "../skills/mcp/mcp-config.js";
+import {
+  loadSchedulerRuntimeConfig,
+  type SchedulerRuntimeConfig,
+} from "../scheduler/scheduler-config.js";
 
 const thisDir = dirname(fileURLToPath(import.meta.url));
 const projectRoot = resolve(thisDir, "..", "..");
@@ -19,6 +43,8 @@ export const DEFAULT_AYATI_ROOT_DIR = resolve(projectRoot, "ayati");
 export const DEFAULT_WORKSPACE_DIR = join(DEFAULT_AYATI_ROOT_DIR, "workspace");
 export const DEFAULT_CONTEXT_ENGINE_TIMEZONE = "Asia/Kolkata";
 export const DEFAULT_CONTEXT_ENGINE_AGENT_ID = "local";
+export const DEFAULT_RESOURCE_SWEEP_MINUTES = 15;
+export const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
 
 export interface HttpRuntimeConfig {
   host: string;
@@ -44,6 +70,16 @@ export interface ContextEngineRuntimeConfig {
   databasePath: string;
   timezone: string;
   agentId: string;
+  /** How often bound filesystem and git resources are re-observed between runs; 0 disables. */
+  resourceSweepIntervalMs: number;
+}
+
+export type EmbeddingsProvider = "hashed" | "openai";
+
+export interface EmbeddingsRuntimeConfig {
+  /** `hashed` embeds offline; `openai` calls the embeddings API with `model`. */
+  provider: EmbeddingsProvider;
+  model: string;
 }
 
 export interface AyatiRuntimeConfig {
@@ -51,8 +87,15 @@ export interface AyatiRuntimeConfig {
   python: PythonRuntimeConfig;
   agent: AgentRuntimeConfig;
   filesystemAccess: FilesystemAccessPolicy;
+  toolApproval: ToolApprovalPolicy;
+  budget: CostBudgetPolicy;
+  web: WebFetchPolicy;
+  sandbox: ProcessSandboxPolicy;
+  mcp: McpRuntimeConfig;
+  scheduler: SchedulerRuntimeConfig;
   workspace: WorkspaceRuntimeConfig;
   contextEngine: ContextEngineRuntimeConfig;
+  embeddings: EmbeddingsRuntimeConfig;
 }
 
 export function loadAyatiRuntimeConfig(env: NodeJS.ProcessEnv = process.env): AyatiRuntimeConfig {
@@ -65,8 +108,15 @@ export function loadAyatiRuntimeConfig(env: NodeJS.ProcessEnv = process.env): Ay
     python: loadPythonRuntimeConfig(env),
     agent: loadAgentRuntimeConfig(env),
     filesystemAccess: loadFilesystemAccessPolicy(env),
+    toolApproval: loadToolApprovalPolicy(env),
+    budget: loadCostBudgetPolicy(env),
+    web: loadWebFetchPolicy(env),
+    sandbox: loadProcessSandboxPolicy(env),
+    mcp: loadMcpRuntimeConfig(env),
+    scheduler: loadSchedulerRuntimeConfig(env),
     workspace,
     contextEngine: loadContextEngineRuntimeConfig(env, rootDirectory),
+    embeddings: loadEmbeddingsRuntimeConfig(env),
   };
 }
 
@@ -129,9 +179,27 @@ function loadContextEngineRuntimeConfig(
     agentId: trimOptional(env["AYATI_CONTEXT_ENGINE_AGENT_ID"])
       ?? trimOptional(env["AYATI_GIT_CONTEXT_AGENT_ID"])
       ?? DEFAULT_CONTEXT_ENGINE_AGENT_ID,
+    resourceSweepIntervalMs: parseResourceSweepMinutes(env["AYATI_RESOURCE_SWEEP_MINUTES"]) * 60_000,
+  };
+}
+
+function loadEmbeddingsRuntimeConfig(env: NodeJS.ProcessEnv): EmbeddingsRuntimeConfig {
+  const provider = trimOptional(env["AYATI_EMBEDDINGS"])?.toLowerCase() ?? "hashed";
+  if (provider !== "hashed" && provider !== "openai") {
+    throw new Error(`AYATI_EMBEDDINGS must be one of hashed, openai; received ${JSON.stringify(provider)}.`);
+  }
+  return {
+    provider,
+    model: trimOptional(env["AYATI_EMBEDDING_MODEL"]) ?? DEFAULT_EMBEDDING_MODEL,
   };
 }
 
+function parseResourceSweepMinutes(rawValue: string | undefined): number {
+  return rawValue?.trim() === "0"
+    ? 0
+    : parsePositiveInt(rawValue, DEFAULT_RESOURCE_SWEEP_MINUTES);
+}
+
 function resolveConfiguredPath(rawValue: string | undefined, fallback: string): string {
   const normalized = normalizeSpecialPath(rawValue ?? "");
   if (!normalized) return fallback;
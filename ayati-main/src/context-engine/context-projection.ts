@@ -145,5 +145,8 @@ function projectWorkstream(
     ...(context.selectedRequest ? { selectedRequest: context.selectedRequest } : {}),
     recentProgress: context.recentProgress ?? [],
     resources: context.resources ?? [],
+    ...(context.resourceChanges && context.resourceChanges.length > 0
+      ? { resourceChanges: context.resourceChanges }
+      : {}),
   };
 }
@@ -9,6 +9,7 @@ import type {
   WorkstreamCandidate,
   WorkstreamRepositoryProjection,
   WorkstreamResourceBinding,
+  WorkstreamResourceChange,
 } from "ayati-context-engine";
 
 export interface ContextAgentStreamMeta {
@@ -84,7 +85,7 @@ export interface ContextWorkstreamProjection {
   };
   recentProgress: Array<{
     runId: string;
-    outcome: "done" | "incomplete" | "failed" | "blocked" | "needs_user_input";
+    outcome: "done" | "incomplete" | "failed" | "blocked" | "needs_user_input" | "cancelled";
     summary: string;
     validationSummary: string;
     nextAction?: string;
@@ -92,6 +93,8 @@ export interface ContextWorkstreamProjection {
     finalizedAt: string;
   }>;
   resources: WorkstreamResourceBinding[];
+  /** Bound resources that changed or disappeared outside Ayati since the last finalized run. */
+  resourceChanges?: WorkstreamResourceChange[];
 }
 
 /**
@@ -40,7 +40,16 @@ export type LlmUserContent = string | LlmUserContentPart[];
 
 export type LlmMessage =
   | {
-      role: "system" | "assistant";
+      role: "system";
+      content: string;
+      /**
+       * Ends a stable prompt prefix that providers with explicit prompt caching may cache. Providers
+       * that cache automatically ignore it and rely on the same stable-first message order.
+       */
+      cacheBreakpoint?: boolean;
+    }
+  | {
+      role: "assistant";
       content: string;
     }
   | {
@@ -67,6 +76,23 @@ export interface LlmTurnInput {
   responseFormat?: LlmResponseFormat;
   /** Optional provider-side ceiling for this response only. */
   maxOutputTokens?: number;
+  /** Aborts the in-flight provider request when the owning run is cancelled. */
+  signal?: AbortSignal;
+  /** Selects the configured provider route; unrouted turns use the decision route. */
+  modelRole?: LlmModelRole;
+  /** Overrides the provider's configured model for this turn; set by the runtime router. */
+  model?: string;
+}
+
+export type LlmModelRole = "decision" | "stream_checkpoint" | "memory_consolidation" | "context_extraction";
+
+/** The provider and model that actually answered a routed turn. */
+export interface LlmServedBy {
+  provider: string;
+  model: string;
+  role: LlmModelRole;
+  /** Routes that failed transiently before this one answered, as `provider:model`. */
+  fallbackFrom?: string[];
 }
 
 export interface LlmTurnStreamCallbacks {
@@ -105,6 +131,7 @@ export type LlmTurnOutput =
       content: string;
       usage?: LlmTokenUsage;
       cost?: LlmCostEstimate;
+      servedBy?: LlmServedBy;
     }
   | {
       type: "tool_calls";
@@ -112,10 +139,13 @@ export type LlmTurnOutput =
       assistantContent?: string;
       usage?: LlmTokenUsage;
       cost?: LlmCostEstimate;
+      servedBy?: LlmServedBy;
     };
 
 export interface LlmProviderCapabilities {
   nativeToolCalling: boolean;
+  /** Without native tool calling, the provider prompts for JSON tool calls and parses them from assistant text. */
+  textToolCallFallback?: boolean;
   streaming?: boolean;
   imageInput?: boolean;
   structuredOutput?: {
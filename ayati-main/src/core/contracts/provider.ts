@@ -8,6 +8,8 @@ import type {
 
 export interface LlmProvider {
   name: string;
+  /** Model serving decision turns when it differs from the configured model for `name`. */
+  model?: string;
   version: string;
   start(): void | Promise<void>;
   stop(): void | Promise<void>;
@@ -556,6 +556,31 @@ export function executeSql(input: ExecuteSqlInput): DatabaseResult<DatabaseExecu
   });
 }
 
+/**
+ * Runs one read-only SELECT/WITH statement on a connection the caller owns, such as an in-memory
+ * session with other databases attached. Rows and cells are bounded like `executeSql` queries.
+ */
+export function queryConnection(
+  db: DatabaseSync,
+  input: { sql: string; params?: unknown[]; maxRows?: number },
+): Omit<DatabaseExecutionSummary, "dbPath"> {
+  const sql = requireNonEmptyString(input.sql, "sql");
+  if (hasMultipleStatements(sql)) {
+    throw new Error("query mode supports a single statement only.");
+  }
+  if (!/^(SELECT|WITH)\b/i.test(sql)) {
+    throw new Error("sql must be a single SELECT or WITH query.");
+  }
+  const queryResult = collectRows(db.prepare(sql), encodeParams(input.params), clampRows(input.maxRows));
+  return {
+    statementType: "query",
+    rows: queryResult.rows,
+    rowCount: queryResult.rows.length,
+    truncated: queryResult.truncated,
+    columns: queryResult.columns,
+  };
+}
+
 function withDatabase<T>(dbPath: string | undefined, handler: (db: DatabaseSync, resolvedPath: string) => T): DatabaseResult<T> {
   const resolvedPath = resolveDatabasePath(dbPath);
   mkdirSync(dirname(resolvedPath), { recursive: true });
@@ -0,0 +1,26 @@
+import { constants as fsConstants } from "node:fs";
+import { access } from "node:fs/promises";
+import { delimiter, isAbsolute, join, resolve } from "node:path";
+
+/** Resolves a command the way `execFile` would, returning its executable path or null when missing. */
+export async function findCommand(command: string): Promise<string | null> {
+  if (command.includes("/")) {
+    const path = isAbsolute(command) ? command : resolve(command);
+    return await isExecutable(path) ? path : null;
+  }
+  for (const dir of (process.env["PATH"] ?? "").split(delimiter)) {
+    if (dir.length === 0) continue;
+    const path = join(dir, command);
+    if (await isExecutable(path)) return path;
+  }
+  return null;
+}
+
+async function isExecutable(path: string): Promise<boolean> {
+  try {
+    await access(path, fsConstants.X_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
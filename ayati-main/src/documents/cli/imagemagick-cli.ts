@@ -0,0 +1,55 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { findCommand } from "./command-path.js";
+
+const execFileAsync = promisify(execFile);
+
+export interface ImageMagickResizeOptions {
+  inputPath: string;
+  outputPath: string;
+  /** Longest edge of the output; smaller images are not enlarged. */
+  maxEdge: number;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/**
+ * Writes an upright, metadata-stripped copy of the first frame, scaled down to fit `maxEdge`.
+ * Uses `IMAGEMAGICK_BIN` when set, otherwise ImageMagick 7's `magick` and then 6's `convert`.
+ */
+export async function resizeImageWithImageMagick(options: ImageMagickResizeOptions): Promise<void> {
+  const timeoutMs = Math.max(1_000, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const args = [
+    `${options.inputPath}[0]`,
+    "-auto-orient",
+    "-thumbnail",
+    `${options.maxEdge}x${options.maxEdge}>`,
+    "-strip",
+    options.outputPath,
+  ];
+  const candidates = imageMagickCandidates();
+  for (const [index, bin] of candidates.entries()) {
+    try {
+      await execFileAsync(bin, args, { maxBuffer: 4 * 1024 * 1024, timeout: timeoutMs });
+      return;
+    } catch (err) {
+      const missing = (err as NodeJS.ErrnoException).code === "ENOENT";
+      if (!missing || index === candidates.length - 1) throw err;
+    }
+  }
+}
+
+/** Path of the binary `resizeImageWithImageMagick` would run first, or null when none is installed. */
+export async function resolveImageMagickBin(): Promise<string | null> {
+  for (const candidate of imageMagickCandidates()) {
+    const found = await findCommand(candidate);
+    if (found) return found;
+  }
+  return null;
+}
+
+function imageMagickCandidates(): string[] {
+  const configured = process.env["IMAGEMAGICK_BIN"]?.trim();
+  return configured ? [configured] : ["magick", "convert"];
+}
@@ -0,0 +1,33 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { findCommand } from "./command-path.js";
+
+const execFileAsync = promisify(execFile);
+
+export interface TesseractCliOptions {
+  filePath: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+export async function extractTextWithTesseract(options: TesseractCliOptions): Promise<string> {
+  const tesseractBin = tesseractCommand();
+  const languages = process.env["TESSERACT_LANG"]?.trim();
+  const timeoutMs = Math.max(1_000, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const { stdout } = await execFileAsync(
+    tesseractBin,
+    [options.filePath, "stdout", ...(languages ? ["-l", languages] : [])],
+    { maxBuffer: 20 * 1024 * 1024, timeout: timeoutMs },
+  );
+  return stdout.trim();
+}
+
+/** Path of the tesseract binary `extractTextWithTesseract` would run, or null when none is installed. */
+export function resolveTesseractBin(): Promise<string | null> {
+  return findCommand(tesseractCommand());
+}
+
+function tesseractCommand(): string {
+  return process.env["TESSERACT_BIN"]?.trim() || "tesseract";
+}
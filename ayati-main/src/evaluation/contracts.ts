@@ -199,6 +199,8 @@ export interface RunEvidenceTotals {
   inputTokens: number;
   outputTokens: number;
   cachedInputTokens: number;
+  /** Share of input tokens served from provider prompt caches, from 0 to 1. */
+  cacheHitRatio: number;
   totalTokens: number;
   costUsd: number;
   wallDurationMs: number;
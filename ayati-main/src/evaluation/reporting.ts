@@ -13,6 +13,7 @@ import type {
 } from "./contracts.js";
 import { readEvaluationAnnotation, readScenarioLabels, readSessionAnnotations, renderEvaluationAnnotation, type RunEvaluationAnnotation } from "./annotation-reporting.js";
 import { readEvaluationComparisons, renderEvaluationComparisons } from "./comparison-reporting.js";
+import { cacheHitRatio } from "../ivec/metrics.js";
 import { buildDeterministicFindings, type HydratedEvaluationEvent } from "./diagnostics.js";
 import { atomicWriteOutsideEvaluation, EvaluationStorage, safeSegment } from "./storage.js";
 
@@ -206,6 +207,8 @@ function calculateTotals(
     ...events.map((event) => Number(event.iteration ?? 0)),
     ...hydrated.map(({ data }) => Number(data?.["iteration"] ?? 0)),
   ].filter(Number.isFinite);
+  const inputTokens = requests.reduce((sum, request) => sum + (request.usage?.inputTokens ?? 0), 0);
+  const cachedInputTokens = requests.reduce((sum, request) => sum + (request.usage?.cachedInputTokens ?? 0), 0);
   return {
     agentLoopIterations: Math.max(0, ...iterationValues),
     logicalModelOperations: operations.length,
@@ -220,9 +223,10 @@ function calculateTotals(
         && ["countInputTokens", "generateTurn", "streamTurn"].includes(event.event)).length,
     toolCalls: events.filter((event) => event.component === "tool" && event.event === "completed").length
       || events.filter((event) => event.component === "action" && event.event === "tool_result").length,
-    inputTokens: requests.reduce((sum, request) => sum + (request.usage?.inputTokens ?? 0), 0),
+    inputTokens,
     outputTokens: requests.reduce((sum, request) => sum + (request.usage?.outputTokens ?? 0), 0),
-    cachedInputTokens: requests.reduce((sum, request) => sum + (request.usage?.cachedInputTokens ?? 0), 0),
+    cachedInputTokens,
+    cacheHitRatio: cacheHitRatio(cachedInputTokens, inputTokens),
     totalTokens: requests.reduce((sum, request) => sum + (request.usage?.totalTokens ?? 0), 0),
     costUsd: requests.reduce((sum, request) => sum + (request.cost?.totalCostUsd ?? 0), 0),
     wallDurationMs: 0,
@@ -354,7 +358,7 @@ function renderRunReport(evidence: RunEvidence, annotation?: EvaluationAnnotatio
     "",
     "## Token, cost, and cache totals",
     "",
-    `Input ${evidence.totals.inputTokens}; output ${evidence.totals.outputTokens}; cached ${evidence.totals.cachedInputTokens}; total ${evidence.totals.totalTokens}; cost USD ${evidence.totals.costUsd.toFixed(6)}.`,
+    `Input ${evidence.totals.inputTokens}; output ${evidence.totals.outputTokens}; cached ${evidence.totals.cachedInputTokens} (cache hit ratio ${evidence.totals.cacheHitRatio.toFixed(4)}); total ${evidence.totals.totalTokens}; cost USD ${evidence.totals.costUsd.toFixed(6)}.`,
     `Model operations: ${evidence.totals.foregroundModelOperations} foreground and ${evidence.totals.backgroundModelOperations} background; provider requests: ${evidence.totals.foregroundProviderInvocations} foreground and ${evidence.totals.backgroundProviderInvocations} background.`,
     "",
     "## Foreground latency waterfall",
@@ -403,6 +407,7 @@ function renderSessionReport(
     run.totals.logicalModelOperations,
     run.totals.providerInvocations,
     run.totals.totalTokens,
+    run.totals.cacheHitRatio.toFixed(4),
     run.totals.costUsd.toFixed(6),
     run.totals.wallDurationMs.toFixed(1),
     run.findings.filter((finding) => ["error", "critical"].includes(finding.severity)).length,
@@ -427,8 +432,8 @@ function renderSessionReport(
     "",
     "## Turn outcomes",
     "",
-    "Run | Result | Stop | Operations | Requests | Tokens | Cost USD | Wall ms | Errors | Evidence",
-    "--- | --- | --- | ---: | ---: | ---: | ---: | ---: | ---: | ---",
+    "Run | Result | Stop | Operations | Requests | Tokens | Cache hit | Cost USD | Wall ms | Errors | Evidence",
+    "--- | --- | --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---",
     ...(rows.length > 0 ? rows : ["- | - | - | - | - | - | - | - | - | -"]),
     "",
     "## Chronological causal timeline",
@@ -469,7 +474,11 @@ function buildRunReportJson(evidence: RunEvidence): Record<string, unknown> {
       correctness: evidence.findings.filter((item) => item.code.includes("COMPLETION") || item.code.includes("VERIFICATION")),
       reliability: evidence.findings.filter((item) => item.code.includes("FAILED") || item.code.includes("RETRY")),
       context: evidence.findings.filter((item) => item.likelySubsystem.includes("context")),
-      tokenEfficiency: { inputTokens: evidence.totals.inputTokens, cachedInputTokens: evidence.totals.cachedInputTokens },
+      tokenEfficiency: {
+        inputTokens: evidence.totals.inputTokens,
+        cachedInputTokens: evidence.totals.cachedInputTokens,
+        cacheHitRatio: evidence.totals.cacheHitRatio,
+      },
       latency: { wallDurationMs: evidence.totals.wallDurationMs, foregroundCriticalPathMs: evidence.totals.foregroundCriticalPathMs },
       toolBehavior: { toolCalls: evidence.totals.toolCalls, findings: evidence.findings.filter((item) => item.likelySubsystem.includes("tool")) },
       practicalUsefulness: { source: "annotation", value: null },
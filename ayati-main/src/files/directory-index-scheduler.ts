@@ -0,0 +1,98 @@
+import { devLog, devWarn } from "../shared/index.js";
+import type { DirectoryLibrary } from "./directory-library.js";
+
+const DEFAULT_SWEEP_INTERVAL_MS = 10 * 60_000;
+
+export interface DirectoryIndexSchedulerOptions {
+  library: Pick<DirectoryLibrary, "listDirectoryIds" | "refreshIndex">;
+  /** How often every attachment is re-checked for changed files. */
+  sweepIntervalMs?: number;
+}
+
+/**
+ * Keeps directory attachments' full-text indexes fresh outside agent runs. Refreshes run one at
+ * a time in enqueue order; a directory already waiting is not queued twice. Every attachment is
+ * swept on start and then periodically, and new attachments are queued as they register.
+ */
+export class DirectoryIndexScheduler {
+  private readonly library: DirectoryIndexSchedulerOptions["library"];
+  private readonly sweepIntervalMs: number;
+  private readonly queue: string[] = [];
+  private processingPromise: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = true;
+
+  constructor(options: DirectoryIndexSchedulerOptions) {
+    this.library = options.library;
+    this.sweepIntervalMs = options.sweepIntervalMs ?? DEFAULT_SWEEP_INTERVAL_MS;
+  }
+
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    void this.sweep();
+    this.timer = setInterval(() => void this.sweep(), this.sweepIntervalMs);
+    this.timer.unref();
+  }
+
+  enqueue(directoryId: string): void {
+    if (this.stopped || this.queue.includes(directoryId)) return;
+    this.queue.push(directoryId);
+    this.scheduleProcessing();
+  }
+
+  /** Resolves once every queued refresh has finished. */
+  async idle(): Promise<void> {
+    while (this.processingPromise) {
+      await this.processingPromise;
+    }
+  }
+
+  /** Stops queueing new work and waits for the refresh in progress. */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.queue.length = 0;
+    await this.processingPromise;
+  }
+
+  private async sweep(): Promise<void> {
+    try {
+      for (const directoryId of await this.library.listDirectoryIds()) {
+        this.enqueue(directoryId);
+      }
+    } catch (err) {
+      devWarn("Directory index sweep failed:", err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  private scheduleProcessing(): void {
+    if (this.processingPromise) return;
+    this.processingPromise = this.processQueue().finally(() => {
+      this.processingPromise = null;
+      if (!this.stopped && this.queue.length > 0) {
+        this.scheduleProcessing();
+      }
+    });
+  }
+
+  private async processQueue(): Promise<void> {
+    while (!this.stopped) {
+      const directoryId = this.queue[0];
+      if (!directoryId) return;
+      try {
+        const result = await this.library.refreshIndex(directoryId);
+        if (result.added + result.updated + result.removed > 0) {
+          devLog(
+            `Directory index ${directoryId} refreshed: +${result.added} ~${result.updated} -${result.removed} in ${result.durationMs}ms`,
+          );
+        }
+      } catch (err) {
+        devWarn(`Directory index refresh failed for ${directoryId}:`, err instanceof Error ? err.message : String(err));
+      } finally {
+        this.queue.shift();
+      }
+    }
+  }
+}
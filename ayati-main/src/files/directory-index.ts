@@ -0,0 +1,383 @@
+import { mkdirSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { DatabaseSync, type SQLInputValue } from "node:sqlite";
+import {
+  fingerprintFilesystemFile,
+  sameFilesystemFileFingerprint,
+  type FilesystemFileFingerprint,
+} from "../shared/filesystem-target-state.js";
+import type {
+  DirectoryIndexHit,
+  DirectoryIndexRefreshResult,
+  DirectoryIndexStatus,
+  IndexedPathSearchInput,
+  IndexedPathSearchResult,
+} from "./types.js";
+
+export interface DirectoryIndexOptions {
+  dbPath: string;
+  now?: () => Date;
+}
+
+export interface IndexableFile {
+  path: string;
+  relativePath: string;
+}
+
+export interface DirectoryIndexSearchInput {
+  query: string;
+  maxResults: number;
+  /** Restricts hits to this relative directory inside the attachment. */
+  pathPrefix?: string;
+  includeHidden?: boolean;
+  contextLines?: number;
+  maxLineMatches?: number;
+}
+
+interface IndexedFileRow {
+  id: number;
+  relative_path: string;
+  device: number;
+  inode: number;
+  size_bytes: number;
+  mtime_ms: number;
+}
+
+interface PendingWrite {
+  relativePath: string;
+  fingerprint: FilesystemFileFingerprint;
+  content: string | null;
+}
+
+interface ParsedIndexQuery {
+  match: string;
+  patterns: RegExp[];
+}
+
+/** Ranked search over whichever attached directory covers a path; implemented by DirectoryLibrary. */
+export interface IndexedPathSearcher {
+  searchIndexedPath(input: IndexedPathSearchInput): Promise<IndexedPathSearchResult | null>;
+}
+
+let activeIndexedPathSearcher: IndexedPathSearcher | undefined;
+
+/** Lets the static `search_in_files` tool reach the daemon's directory indexes. */
+export function setActiveIndexedPathSearcher(searcher: IndexedPathSearcher | undefined): void {
+  activeIndexedPathSearcher = searcher;
+}
+
+export function getActiveIndexedPathSearcher(): IndexedPathSearcher | undefined {
+  return activeIndexedPathSearcher;
+}
+
+const WRITE_BATCH_SIZE = 100;
+const MAX_SNIPPET_TOKENS = 16;
+const MAX_LINE_CHARS = 200;
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const WORD_CHAR = "[\\p{L}\\p{N}]";
+
+/**
+ * Full-text index of one directory attachment, stored beside its metadata as SQLite FTS5.
+ * Files are re-read only when their size, mtime, or inode changed since the previous refresh;
+ * binary and oversized files are remembered as skipped so they are not re-read either.
+ */
+export class DirectoryIndex {
+  readonly dbPath: string;
+  private readonly nowProvider: () => Date;
+  private db: DatabaseSync | null = null;
+
+  constructor(options: DirectoryIndexOptions) {
+    this.dbPath = options.dbPath;
+    this.nowProvider = options.now ?? (() => new Date());
+  }
+
+  status(): DirectoryIndexStatus {
+    const db = this.open();
+    const refreshedAt = readState(db, "refreshed_at");
+    const counts = db.prepare(`
+      SELECT
+        COALESCE(SUM(CASE WHEN indexed = 1 THEN 1 ELSE 0 END), 0) AS indexed,
+        COALESCE(SUM(CASE WHEN indexed = 0 THEN 1 ELSE 0 END), 0) AS skipped
+      FROM indexed_files
+    `).get() as { indexed: number; skipped: number };
+    return {
+      state: refreshedAt ? "ready" : "missing",
+      ...(refreshedAt ? { refreshedAt } : {}),
+      indexedFiles: counts.indexed,
+      skippedFiles: counts.skipped,
+    };
+  }
+
+  /**
+   * Brings the index in line with the files `walk` visits. Files the walk no longer reaches are
+   * removed, so the index always mirrors the attachment's include/exclude rules and limits.
+   */
+  async refresh(
+    walk: (visit: (file: IndexableFile) => Promise<void>) => Promise<void>,
+    options: { maxFileBytes: number },
+  ): Promise<DirectoryIndexRefreshResult> {
+    const db = this.open();
+    const startedAt = Date.now();
+    const known = new Map<string, IndexedFileRow>();
+    for (const row of db.prepare(
+      "SELECT id, relative_path, device, inode, size_bytes, mtime_ms FROM indexed_files",
+    ).all() as unknown as IndexedFileRow[]) {
+      known.set(row.relative_path, row);
+    }
+
+    const seen = new Set<string>();
+    const pending: PendingWrite[] = [];
+    const result: DirectoryIndexRefreshResult = { added: 0, updated: 0, removed: 0, unchanged: 0, skipped: 0, durationMs: 0 };
+
+    await walk(async (file) => {
+      const fingerprint = await fingerprintFilesystemFile(file.path).catch(() => null);
+      if (!fingerprint || seen.has(file.relativePath)) return;
+      seen.add(file.relativePath);
+      const previous = known.get(file.relativePath);
+      if (previous && sameFilesystemFileFingerprint(fingerprintOf(previous), fingerprint)) {
+        result.unchanged++;
+        return;
+      }
+      const content = fingerprint.sizeBytes <= options.maxFileBytes
+        ? await readText(file.path)
+        : null;
+      if (content === null) result.skipped++;
+      if (previous) result.updated++;
+      else result.added++;
+      pending.push({ relativePath: file.relativePath, fingerprint, content });
+      if (pending.length >= WRITE_BATCH_SIZE) {
+        this.writeBatch(pending.splice(0));
+      }
+    });
+
+    const removed = [...known.values()].filter((row) => !seen.has(row.relative_path));
+    result.removed = removed.length;
+    this.transaction(() => {
+      this.writeRows(pending.splice(0));
+      const deleteText = db.prepare("DELETE FROM file_text WHERE rowid = ?");
+      const deleteFile = db.prepare("DELETE FROM indexed_files WHERE id = ?");
+      for (const row of removed) {
+        deleteText.run(row.id);
+        deleteFile.run(row.id);
+      }
+      writeState(db, "refreshed_at", this.nowProvider().toISOString());
+    });
+    result.durationMs = Date.now() - startedAt;
+    return result;
+  }
+
+  search(input: DirectoryIndexSearchInput): DirectoryIndexHit[] {
+    const parsed = parseIndexQuery(input.query);
+    const filters: string[] = [];
+    const params: SQLInputValue[] = [parsed.match];
+    const prefix = input.pathPrefix?.replace(/^\/+|\/+$/g, "") ?? "";
+    if (prefix) {
+      filters.push("substr(f.relative_path, 1, ?) = ?");
+      params.push(prefix.length + 1, `${prefix}/`);
+    }
+    if (!input.includeHidden) {
+      filters.push("f.relative_path NOT LIKE '.%' AND f.relative_path NOT LIKE '%/.%'");
+    }
+    params.push(input.maxResults);
+    const rows = this.open().prepare(`
+      SELECT
+        f.relative_path AS relativePath,
+        bm25(file_text) AS rank,
+        snippet(file_text, 0, '**', '**', '…', ${MAX_SNIPPET_TOKENS}) AS excerpt,
+        file_text.content AS content
+      FROM file_text
+      JOIN indexed_files f ON f.id = file_text.rowid
+      WHERE file_text MATCH ?
+      ${filters.map((filter) => `AND ${filter}`).join("\n      ")}
+      ORDER BY rank
+      LIMIT ?
+    `).all(...params) as Array<{ relativePath: string; rank: number; excerpt: string; content: string }>;
+
+    return rows.map((row) => ({
+      relativePath: row.relativePath,
+      // Terms found in most files get FTS5's floored IDF, so keep significant digits, not decimals.
+      score: Number((-row.rank).toPrecision(4)),
+      excerpt: row.excerpt,
+      lineMatches: findIndexedLines(row.content, parsed.patterns, input.maxLineMatches ?? 3, input.contextLines ?? 0),
+    }));
+  }
+
+  /**
+   * Indexed files whose text contains `query` as a case-insensitive substring, so words the
+   * tokenized MATCH splits differently (for example `Agent` inside `AyatiAgent`) are still found.
+   */
+  searchSubstring(input: { query: string; maxResults: number }): Array<{ relativePath: string; content: string }> {
+    return this.open().prepare(`
+      SELECT f.relative_path AS relativePath, file_text.content AS content
+      FROM file_text
+      JOIN indexed_files f ON f.id = file_text.rowid
+      WHERE instr(lower(file_text.content), lower(?)) > 0
+      ORDER BY f.relative_path
+      LIMIT ?
+    `).all(input.query, input.maxResults) as Array<{ relativePath: string; content: string }>;
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private writeBatch(writes: PendingWrite[]): void {
+    this.transaction(() => this.writeRows(writes));
+  }
+
+  private writeRows(writes: PendingWrite[]): void {
+    const db = this.open();
+    const upsert = db.prepare(`
+      INSERT INTO indexed_files (relative_path, device, inode, size_bytes, mtime_ms, indexed, indexed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(relative_path) DO UPDATE SET
+        device = excluded.device,
+        inode = excluded.inode,
+        size_bytes = excluded.size_bytes,
+        mtime_ms = excluded.mtime_ms,
+        indexed = excluded.indexed,
+        indexed_at = excluded.indexed_at
+      RETURNING id
+    `);
+    const deleteText = db.prepare("DELETE FROM file_text WHERE rowid = ?");
+    const insertText = db.prepare("INSERT INTO file_text (rowid, content) VALUES (?, ?)");
+    const indexedAt = this.nowProvider().toISOString();
+    for (const write of writes) {
+      const { id } = upsert.get(
+        write.relativePath,
+        write.fingerprint.device,
+        write.fingerprint.inode,
+        write.fingerprint.sizeBytes,
+        write.fingerprint.mtimeMs,
+        write.content === null ? 0 : 1,
+        indexedAt,
+      ) as { id: number };
+      deleteText.run(id);
+      if (write.content !== null) {
+        insertText.run(id, write.content);
+      }
+    }
+  }
+
+  private transaction(work: () => void): void {
+    const db = this.open();
+    db.exec("BEGIN IMMEDIATE");
+    try {
+      work();
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  private open(): DatabaseSync {
+    if (this.db) return this.db;
+    mkdirSync(dirname(this.dbPath), { recursive: true });
+    const db = new DatabaseSync(this.dbPath);
+    db.exec(`
+      PRAGMA journal_mode = WAL;
+      PRAGMA synchronous = NORMAL;
+      CREATE TABLE IF NOT EXISTS index_state (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS indexed_files (
+        id INTEGER PRIMARY KEY,
+        relative_path TEXT NOT NULL UNIQUE,
+        device INTEGER NOT NULL,
+        inode INTEGER NOT NULL,
+        size_bytes INTEGER NOT NULL,
+        mtime_ms REAL NOT NULL,
+        indexed INTEGER NOT NULL,
+        indexed_at TEXT NOT NULL
+      );
+      CREATE VIRTUAL TABLE IF NOT EXISTS file_text USING fts5(
+        content,
+        tokenize = 'unicode61 remove_diacritics 0'
+      );
+    `);
+    this.db = db;
+    return db;
+  }
+}
+
+/**
+ * Turns user search text into an FTS5 expression. Bare words must all appear, `"quoted text"` is
+ * an exact phrase, and a trailing `*` makes a word a prefix. Every other FTS5 operator is quoted,
+ * so user input can never produce a syntax error.
+ */
+export function parseIndexQuery(query: string): ParsedIndexQuery {
+  const terms: string[] = [];
+  const patterns: RegExp[] = [];
+  for (const match of query.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const phrase = match[1];
+    const word = match[2];
+    const prefix = word !== undefined && word.endsWith("*");
+    const words = [...(phrase ?? word ?? "").matchAll(WORD_PATTERN)].map((token) => token[0].toLowerCase());
+    if (words.length === 0) continue;
+    terms.push(`"${words.join(" ")}"${prefix ? "*" : ""}`);
+    const body = words.map(escapeRegExp).join(`(?:(?!${WORD_CHAR}).)+`);
+    patterns.push(new RegExp(`(?<!${WORD_CHAR})${body}${prefix ? "" : `(?!${WORD_CHAR})`}`, "iu"));
+  }
+  if (terms.length === 0) {
+    throw new Error("query must contain at least one letter or digit.");
+  }
+  return { match: terms.join(" "), patterns };
+}
+
+function findIndexedLines(
+  content: string,
+  patterns: RegExp[],
+  maxMatches: number,
+  contextLines: number,
+): DirectoryIndexHit["lineMatches"] {
+  const lines = content.split("\n");
+  const out: DirectoryIndexHit["lineMatches"] = [];
+  for (let index = 0; index < lines.length && out.length < maxMatches; index++) {
+    const line = lines[index] ?? "";
+    if (!patterns.some((pattern) => pattern.test(line))) continue;
+    out.push({
+      line: index + 1,
+      text: line.slice(0, MAX_LINE_CHARS),
+      ...(contextLines > 0
+        ? {
+            before: lines.slice(Math.max(0, index - contextLines), index).map((entry) => entry.slice(0, MAX_LINE_CHARS)),
+            after: lines.slice(index + 1, index + 1 + contextLines).map((entry) => entry.slice(0, MAX_LINE_CHARS)),
+          }
+        : {}),
+    });
+  }
+  return out;
+}
+
+async function readText(path: string): Promise<string | null> {
+  try {
+    const content = await readFile(path, "utf-8");
+    return content.includes("\u0000") ? null : content;
+  } catch {
+    return null;
+  }
+}
+
+function fingerprintOf(row: IndexedFileRow): FilesystemFileFingerprint {
+  return { device: row.device, inode: row.inode, sizeBytes: row.size_bytes, mtimeMs: row.mtime_ms };
+}
+
+function readState(db: DatabaseSync, key: string): string | undefined {
+  const row = db.prepare("SELECT value FROM index_state WHERE key = ?").get(key) as { value: string } | undefined;
+  return row?.value;
+}
+
+function writeState(db: DatabaseSync, key: string, value: string): void {
+  db.prepare(`
+    INSERT INTO index_state (key, value) VALUES (?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value
+  `).run(key, value);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -1,13 +1,18 @@
 import { createHash } from "node:crypto";
 import { mkdir, readFile, readdir, stat, writeFile } from "node:fs/promises";
-import { basename, extname, join, relative, resolve } from "node:path";
+import { basename, extname, join, relative, resolve, sep } from "node:path";
 import {
   canonicalizeAbsoluteFilesystemPath,
   requireAbsoluteFilesystemPath,
 } from "../shared/filesystem-paths.js";
+import { DirectoryIndex } from "./directory-index.js";
 import type {
   DirectoryAttachmentEntry,
   DirectoryAttachmentRecord,
+  DirectoryIndexRefreshResult,
+  DirectoryIndexStatus,
+  IndexedPathSearchInput,
+  IndexedPathSearchResult,
   RegisterDirectoryInput,
   RunDirectoriesManifest,
   RunDirectoryReference,
@@ -18,6 +23,8 @@ export interface DirectoryLibraryOptions {
   now?: () => Date;
   defaultMaxDepth?: number;
   defaultMaxFiles?: number;
+  /** Asks the background indexer to refresh an attachment's full-text index. */
+  requestIndexRefresh?: (directoryId: string) => void;
 }
 
 interface ScanState {
@@ -40,6 +47,8 @@ const DEFAULT_MAX_FILES = 1000;
 const MAX_MANIFEST_ENTRIES = 250;
 const DEFAULT_MAX_SEARCH_RESULTS = 50;
 const DEFAULT_MAX_SEARCH_FILE_BYTES = 1024 * 1024;
+const MAX_INDEXED_FILE_BYTES = 1024 * 1024;
+const DIRECTORY_ID_PATTERN = /^dir_[a-f0-9]{16}$/i;
 
 const DEFAULT_EXCLUDES = [
   ".git",
@@ -68,6 +77,8 @@ export class DirectoryLibrary {
   private readonly nowProvider: () => Date;
   private readonly defaultMaxDepth: number;
   private readonly defaultMaxFiles: number;
+  private readonly requestIndexRefresh?: (directoryId: string) => void;
+  private readonly indexes = new Map<string, DirectoryIndex>();
 
   constructor(options: DirectoryLibraryOptions) {
     this.dataDir = resolve(options.dataDir);
@@ -76,6 +87,7 @@ export class DirectoryLibrary {
     this.nowProvider = options.now ?? (() => new Date());
     this.defaultMaxDepth = clampInt(options.defaultMaxDepth, DEFAULT_MAX_DEPTH, 0, 20);
     this.defaultMaxFiles = clampInt(options.defaultMaxFiles, DEFAULT_MAX_FILES, 1, 10_000);
+    this.requestIndexRefresh = options.requestIndexRefresh;
   }
 
   async registerPath(input: RegisterDirectoryInput): Promise<DirectoryAttachmentRecord> {
@@ -128,6 +140,7 @@ export class DirectoryLibrary {
 
     await mkdir(this.directoryDir(directoryId), { recursive: true });
     await writeFile(this.metadataPath(directoryId), JSON.stringify(record, null, 2), "utf-8");
+    this.requestIndexRefresh?.(directoryId);
 
     if (input.runId) {
       await this.appendRunDirectory(input.runId, {
@@ -150,6 +163,89 @@ export class DirectoryLibrary {
     }
   }
 
+  /** Ids of every registered directory attachment. */
+  async listDirectoryIds(): Promise<string[]> {
+    try {
+      const dirents = await readdir(this.directoriesDir, { withFileTypes: true });
+      return dirents
+        .filter((dirent) => dirent.isDirectory() && DIRECTORY_ID_PATTERN.test(dirent.name))
+        .map((dirent) => dirent.name)
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  getIndexStatus(directoryId: string): DirectoryIndexStatus {
+    return this.indexFor(normalizeDirectoryId(directoryId)).status();
+  }
+
+  /** Re-reads changed files into the attachment's full-text index. Runs in the background indexer. */
+  async refreshIndex(directoryId: string): Promise<DirectoryIndexRefreshResult> {
+    const directory = await this.getDirectory(directoryId);
+    return await this.indexFor(directory.directoryId).refresh(
+      async (visit) => await traverseDirectory({
+        rootPath: directory.rootPath,
+        include: directory.include,
+        exclude: directory.exclude,
+        maxDepth: directory.maxDepth,
+        maxFiles: directory.maxFiles,
+        onEntry: async (entry) => {
+          if (entry.kind === "file") await visit(entry);
+        },
+      }),
+      { maxFileBytes: MAX_INDEXED_FILE_BYTES },
+    );
+  }
+
+  /**
+   * Ranked search of `path` through the index of the innermost attached directory containing it.
+   * Returns null when no attachment covers the path or its index has not been built yet.
+   */
+  async searchIndexedPath(input: IndexedPathSearchInput): Promise<IndexedPathSearchResult | null> {
+    const path = resolve(input.path);
+    let owner: DirectoryAttachmentRecord | undefined;
+    for (const directoryId of await this.listDirectoryIds()) {
+      let directory: DirectoryAttachmentRecord;
+      try {
+        directory = await this.getDirectory(directoryId);
+      } catch {
+        continue;
+      }
+      const covers = path === directory.rootPath || path.startsWith(`${directory.rootPath}${sep}`);
+      if (covers && (!owner || directory.rootPath.length > owner.rootPath.length)) {
+        owner = directory;
+      }
+    }
+    if (!owner) return null;
+    const index = this.indexFor(owner.directoryId);
+    const status = index.status();
+    if (status.state !== "ready") {
+      this.requestIndexRefresh?.(owner.directoryId);
+      return null;
+    }
+    const rootPath = owner.rootPath;
+    const hits = index.search({
+      query: input.query,
+      maxResults: input.maxResults,
+      pathPrefix: normalizeRelativePath(relative(rootPath, path)),
+      includeHidden: input.includeHidden,
+      contextLines: input.contextLines,
+    });
+    return {
+      directoryId: owner.directoryId,
+      rootPath,
+      index: status,
+      hits: hits.map((hit) => ({ ...hit, path: join(rootPath, hit.relativePath) })),
+    };
+  }
+
+  /** Closes open index databases. */
+  close(): void {
+    for (const index of this.indexes.values()) index.close();
+    this.indexes.clear();
+  }
+
   async touchRunDirectory(runId: string, directoryId: string, role: RunDirectoryReference["role"] = "used"): Promise<void> {
     const directory = await this.getDirectory(directoryId);
     const now = this.nowProvider().toISOString();
@@ -186,6 +282,31 @@ export class DirectoryLibrary {
     const searchContents = input.searchContents ?? false;
     const maxResults = clampInt(input.maxResults, DEFAULT_MAX_SEARCH_RESULTS, 1, 500);
     const maxFileBytes = clampInt(input.maxFileBytes, DEFAULT_MAX_SEARCH_FILE_BYTES, 1024, 5 * 1024 * 1024);
+
+    // The index is case-insensitive and word-based, so case-sensitive or punctuation-only
+    // content searches keep scanning files.
+    if (searchContents && !caseSensitive && /[\p{L}\p{N}]/u.test(query)) {
+      const index = this.indexFor(directory.directoryId);
+      const status = index.status();
+      if (status.state === "ready") {
+        const matches = await searchIndexedContents(directory, index, query, maxResults);
+        return {
+          directory: summarizeDirectory(directory),
+          query,
+          searchContents,
+          caseSensitive,
+          maxResults,
+          searchMode: "index",
+          index: status,
+          matchCount: matches.length,
+          capped: matches.length >= maxResults,
+          matches,
+          errors: [],
+        };
+      }
+      this.requestIndexRefresh?.(directory.directoryId);
+    }
+
     const matches: unknown[] = [];
     const errors: Array<Record<string, unknown>> = [];
 
@@ -230,6 +351,7 @@ export class DirectoryLibrary {
       searchContents,
       caseSensitive,
       maxResults,
+      searchMode: "scan",
       matchCount: matches.length,
       capped: matches.length >= maxResults,
       matches,
@@ -237,6 +359,18 @@ export class DirectoryLibrary {
     };
   }
 
+  private indexFor(directoryId: string): DirectoryIndex {
+    let index = this.indexes.get(directoryId);
+    if (!index) {
+      index = new DirectoryIndex({
+        dbPath: resolve(this.directoryDir(directoryId), "index.sqlite"),
+        now: this.nowProvider,
+      });
+      this.indexes.set(directoryId, index);
+    }
+    return index;
+  }
+
   private directoryDir(directoryId: string): string {
     return resolve(this.directoriesDir, directoryId);
   }
@@ -373,6 +507,56 @@ async function scanDirectory(input: {
   return { entries, fileCount, directoryCount, totalSizeBytes, fileTypes, truncated, warnings };
 }
 
+/**
+ * Finds what a content scan would, ranked hits first: FTS matches including hidden files, then
+ * indexed files containing the query as a substring, then directories whose name or path matches.
+ */
+async function searchIndexedContents(
+  directory: DirectoryAttachmentRecord,
+  index: DirectoryIndex,
+  query: string,
+  maxResults: number,
+): Promise<Array<Record<string, unknown>>> {
+  const ranked = index.search({ query, maxResults, includeHidden: true });
+  const matches: Array<Record<string, unknown>> = ranked.map((hit) => ({
+    path: join(directory.rootPath, hit.relativePath),
+    relativePath: hit.relativePath,
+    name: basename(hit.relativePath),
+    kind: "file",
+    score: hit.score,
+    excerpt: hit.excerpt,
+    lineMatches: hit.lineMatches.map((match) => ({ line: match.line, snippet: match.text })),
+  }));
+  const seen = new Set(ranked.map((hit) => hit.relativePath));
+  for (const hit of index.searchSubstring({ query, maxResults: maxResults + ranked.length })) {
+    if (matches.length >= maxResults) break;
+    if (seen.has(hit.relativePath)) continue;
+    matches.push({
+      path: join(directory.rootPath, hit.relativePath),
+      relativePath: hit.relativePath,
+      name: basename(hit.relativePath),
+      kind: "file",
+      lineMatches: findLineMatches(hit.content, query, false, 3),
+    });
+  }
+  if (matches.length >= maxResults) return matches;
+
+  await traverseDirectory({
+    rootPath: directory.rootPath,
+    include: directory.include,
+    exclude: directory.exclude,
+    maxDepth: directory.maxDepth,
+    maxFiles: directory.maxFiles,
+    onEntry: async (entry) => {
+      if (matches.length >= maxResults) return "stop";
+      if (entry.kind === "directory" && (matchesQuery(entry.relativePath, query, false) || matchesQuery(entry.name, query, false))) {
+        matches.push({ ...entry });
+      }
+    },
+  });
+  return matches;
+}
+
 async function traverseDirectory(input: {
   rootPath: string;
   include: string[];
@@ -474,7 +658,7 @@ function buildDirectoryId(input: {
 
 function normalizeDirectoryId(value: string): string {
   const trimmed = value.trim();
-  if (!/^dir_[a-f0-9]{16}$/i.test(trimmed)) {
+  if (!DIRECTORY_ID_PATTERN.test(trimmed)) {
     throw new Error(`Invalid directoryId: ${value}`);
   }
   return trimmed;
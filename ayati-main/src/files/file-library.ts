@@ -14,12 +14,15 @@ import { prepareImageFile } from "./processors/image-processor.js";
 import { prepareTableFile } from "./processors/table-processor.js";
 import { prepareTextFile } from "./processors/text-processor.js";
 import { prepareUnsupportedFile } from "./processors/unsupported-processor.js";
+import { TableWorkspace, tableFormatForPath } from "./table-workspace.js";
 import type {
   FileOrigin,
   ManagedFileRecord,
   PreparedFileRecord,
+  PreparedImageData,
   PreparedTextChunk,
   PrepareFileOptions,
+  QueryTablesInput,
   RegisterFileInput,
   RegisterPathInput,
   RunFileReference,
@@ -32,6 +35,7 @@ export interface FileLibraryOptions {
 
 const DEFAULT_MAX_CHUNK_TOKENS = 700;
 const MAX_TOOL_TEXT_CHARS = 120_000;
+const MAX_DESCRIBED_OCR_CHARS = 4_000;
 
 export class FileLibrary {
   readonly layout: FileStorageLayout;
@@ -143,10 +147,17 @@ export class FileLibrary {
       }
 
       if (file.capabilities.includes("image")) {
-        const image = await prepareImageFile({ file, outputPath: imagePath });
+        const image = await prepareImageFile({
+          file,
+          outputPath: imagePath,
+          previewBasePath: this.layout.derivedPath(file.fileId, "preview"),
+          ocr: options?.ocr ?? true,
+        });
         const updated = await this.updateFile(file.fileId, {
-          processingStatus: "ready",
+          processingStatus: image.warnings.length > 0 ? "partial" : "ready",
           warnings: image.warnings,
+          ...(!file.mimeType && image.mimeType ? { mimeType: image.mimeType } : {}),
+          imagePreview: image.preview,
         });
         return { file: updated, image };
       }
@@ -167,9 +178,17 @@ export class FileLibrary {
     }
   }
 
+  /** Images are prepared first so models without image input can still reason from their facts. */
   async describeFile(fileId: string): Promise<Record<string, unknown>> {
     const file = await this.getFile(fileId);
-    return summarizeFile(file);
+    if (!file.capabilities.includes("image")) {
+      return summarizeFile(file);
+    }
+    const prepared = await this.prepareFile(file.fileId);
+    return {
+      ...summarizeFile(prepared.file),
+      ...(prepared.image ? { image: summarizeImage(prepared.image) } : {}),
+    };
   }
 
   async readText(fileId: string): Promise<Record<string, unknown>> {
@@ -244,6 +263,62 @@ export class FileLibrary {
     };
   }
 
+  /**
+   * Mounts several tables into one query session so a single SELECT can join them. File tables are
+   * named by their stable alias; attached databases are schemas (`alias.table`). With `saveAs`, the
+   * full result is written to a new CSV/XLSX file and registered as a generated artifact.
+   */
+  async queryTables(input: QueryTablesInput): Promise<Record<string, unknown>> {
+    if (input.sources.length === 0) {
+      throw new Error("tables must list at least one file or database to mount.");
+    }
+    let savePath: string | undefined;
+    if (input.saveAs) {
+      const required = requireAbsoluteFilesystemPath(input.saveAs);
+      if (!required.ok) throw new Error(required.message);
+      tableFormatForPath(required.absolutePath);
+      savePath = required.absolutePath;
+    }
+
+    const workspace = new TableWorkspace();
+    const warnings: string[] = [];
+    try {
+      for (const source of input.sources) {
+        if (source.source === "database") {
+          workspace.mountDatabase(source);
+          continue;
+        }
+        const prepared = await this.prepareFile(source.fileId, { sheetName: source.sheetName });
+        if (!prepared.table) {
+          throw new Error(`File does not have queryable table data: ${prepared.file.fileId}`);
+        }
+        workspace.mountTable({
+          fileId: prepared.file.fileId,
+          originalName: prepared.file.originalName,
+          table: prepared.table,
+          ...(source.alias ? { alias: source.alias } : {}),
+        });
+        warnings.push(...prepared.file.warnings.map((warning) => `${prepared.file.originalName}: ${warning}`));
+      }
+
+      const result = workspace.query({ sql: input.sql, maxRows: input.maxRows });
+      let saved: Record<string, unknown> | undefined;
+      if (savePath) {
+        const written = await workspace.saveQuery({ sql: input.sql, path: savePath });
+        const record = await this.registerArtifact({ path: savePath, runId: input.runId });
+        saved = { file: summarizeFile(record), format: written.format, rowCount: written.rowCount };
+      }
+      return {
+        tables: workspace.listMounts(),
+        ...result,
+        ...(saved ? { saved } : {}),
+        warnings,
+      };
+    } finally {
+      workspace.close();
+    }
+  }
+
   private async registerBytes(input: RegisterFileInput): Promise<ManagedFileRecord> {
     const originalName = input.originalName.trim();
     if (originalName.length === 0) {
@@ -346,6 +421,30 @@ export function summarizeFile(file: ManagedFileRecord): Record<string, unknown>
   };
 }
 
+function summarizeImage(image: PreparedImageData): Record<string, unknown> {
+  const ocrText = image.ocr?.text;
+  return {
+    format: image.format,
+    width: image.width,
+    height: image.height,
+    ...(image.exif ? { exif: image.exif } : {}),
+    ...(image.preview ? { preview: { width: image.preview.width, height: image.preview.height } } : {}),
+    ...(image.ocr
+      ? {
+          ocr: {
+            status: image.ocr.status,
+            ...(ocrText
+              ? {
+                  text: ocrText.length > MAX_DESCRIBED_OCR_CHARS ? `${ocrText.slice(0, MAX_DESCRIBED_OCR_CHARS)}\n...[truncated]` : ocrText,
+                  truncated: image.ocr.truncated === true || ocrText.length > MAX_DESCRIBED_OCR_CHARS,
+                }
+              : {}),
+          },
+        }
+      : {}),
+  };
+}
+
 function roleForOrigin(origin: FileOrigin): RunFileReference["role"] {
   switch (origin) {
     case "agent_download":
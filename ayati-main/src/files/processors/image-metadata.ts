@@ -0,0 +1,272 @@
+import type { ImageExifFacts, ImageFormat } from "../types.js";
+
+export interface ImageHeader {
+  format: ImageFormat;
+  mimeType: string;
+  width?: number;
+  height?: number;
+  /** Raw TIFF-structured EXIF block, when the container carries one. */
+  exif?: Buffer;
+}
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  bmp: "image/bmp",
+};
+
+const ORIENTATIONS: Record<number, string> = {
+  1: "normal",
+  2: "mirrored horizontally",
+  3: "rotated 180°",
+  4: "mirrored vertically",
+  5: "mirrored horizontally and rotated 270° clockwise",
+  6: "rotated 90° clockwise",
+  7: "mirrored horizontally and rotated 90° clockwise",
+  8: "rotated 270° clockwise",
+};
+
+/**
+ * Reads format, pixel dimensions, and the EXIF block from an image's container headers without
+ * decoding pixels. Returns null for formats it does not recognize; truncated headers yield
+ * whatever could be read.
+ */
+export function readImageHeader(bytes: Buffer): ImageHeader | null {
+  try {
+    if (bytes.length >= 24 && bytes.readUInt32BE(0) === 0x89504e47) return readPng(bytes);
+    if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) return readJpeg(bytes);
+    const ascii = bytes.subarray(0, 12).toString("ascii");
+    if (ascii.startsWith("GIF87a") || ascii.startsWith("GIF89a")) {
+      return bytes.length >= 10
+        ? { format: "gif", mimeType: MIME_TYPES.gif, width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) }
+        : { format: "gif", mimeType: MIME_TYPES.gif };
+    }
+    if (ascii.startsWith("RIFF") && ascii.slice(8, 12) === "WEBP") return readWebp(bytes);
+    if (ascii.startsWith("BM") && bytes.length >= 26) {
+      return {
+        format: "bmp",
+        mimeType: MIME_TYPES.bmp,
+        width: Math.abs(bytes.readInt32LE(18)),
+        height: Math.abs(bytes.readInt32LE(22)),
+      };
+    }
+  } catch {
+    // Malformed headers are reported as an unrecognized image below.
+  }
+  return null;
+}
+
+/** Extracts capture time, camera, orientation, and GPS position from a TIFF-structured EXIF block. */
+export function parseExif(tiff: Buffer): ImageExifFacts {
+  const reader = createTiffReader(tiff);
+  if (!reader) return {};
+  const facts: ImageExifFacts = {};
+  try {
+    const ifd0 = reader.readIfd(reader.u32(4));
+    const orientation = ifd0.get(0x0112)?.[0];
+    if (typeof orientation === "number" && ORIENTATIONS[orientation]) {
+      facts.orientation = orientation;
+      facts.orientationDescription = ORIENTATIONS[orientation];
+    }
+    const make = ifd0.get(0x010f)?.[0];
+    const model = ifd0.get(0x0110)?.[0];
+    if (typeof make === "string" && make.length > 0) facts.cameraMake = make;
+    if (typeof model === "string" && model.length > 0) facts.cameraModel = model;
+
+    const exifPointer = ifd0.get(0x8769)?.[0];
+    const exifIfd = typeof exifPointer === "number" ? reader.readIfd(exifPointer) : new Map<number, ExifValue[]>();
+    const captured = exifIfd.get(0x9003)?.[0] ?? ifd0.get(0x0132)?.[0];
+    const offset = exifIfd.get(0x9011)?.[0];
+    const capturedAt = typeof captured === "string" ? formatExifDate(captured, typeof offset === "string" ? offset : undefined) : undefined;
+    if (capturedAt) facts.capturedAt = capturedAt;
+
+    const gpsPointer = ifd0.get(0x8825)?.[0];
+    if (typeof gpsPointer === "number") {
+      const gps = reader.readIfd(gpsPointer);
+      const latitude = readCoordinate(gps.get(2), gps.get(1)?.[0], "S");
+      const longitude = readCoordinate(gps.get(4), gps.get(3)?.[0], "W");
+      if (latitude !== undefined && longitude !== undefined) {
+        const altitude = gps.get(6)?.[0];
+        const belowSeaLevel = gps.get(5)?.[0] === 1;
+        facts.gps = {
+          latitude,
+          longitude,
+          ...(typeof altitude === "number" && Number.isFinite(altitude)
+            ? { altitudeMeters: round(belowSeaLevel ? -altitude : altitude, 1) }
+            : {}),
+        };
+      }
+    }
+  } catch {
+    // Keep whatever was read before the block turned out to be malformed.
+  }
+  return facts;
+}
+
+export function mimeTypeForImageFormat(format: ImageFormat): string {
+  return MIME_TYPES[format];
+}
+
+function readPng(bytes: Buffer): ImageHeader {
+  const header: ImageHeader = {
+    format: "png",
+    mimeType: MIME_TYPES.png,
+    width: bytes.readUInt32BE(16),
+    height: bytes.readUInt32BE(20),
+  };
+  for (let offset = 8; offset + 12 <= bytes.length;) {
+    const length = bytes.readUInt32BE(offset);
+    const type = bytes.subarray(offset + 4, offset + 8).toString("ascii");
+    if (type === "eXIf") {
+      header.exif = bytes.subarray(offset + 8, offset + 8 + length);
+      break;
+    }
+    if (type === "IEND") break;
+    offset += 12 + length;
+  }
+  return header;
+}
+
+function readJpeg(bytes: Buffer): ImageHeader {
+  const header: ImageHeader = { format: "jpeg", mimeType: MIME_TYPES.jpeg };
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+    const marker = bytes[offset + 1]!;
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xd9 || marker === 0xda) break;
+    const length = bytes.readUInt16BE(offset + 2);
+    if (marker === 0xe1 && !header.exif && bytes.subarray(offset + 4, offset + 10).toString("binary") === "Exif\u0000\u0000") {
+      header.exif = bytes.subarray(offset + 10, offset + 2 + length);
+    }
+    // SOF0–SOF15 carry the frame size; C4 (DHT), C8 (JPG), and CC (DAC) share the range but do not.
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc && offset + 9 <= bytes.length) {
+      header.height = bytes.readUInt16BE(offset + 5);
+      header.width = bytes.readUInt16BE(offset + 7);
+      break;
+    }
+    offset += 2 + length;
+  }
+  return header;
+}
+
+function readWebp(bytes: Buffer): ImageHeader {
+  const header: ImageHeader = { format: "webp", mimeType: MIME_TYPES.webp };
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const type = bytes.subarray(offset, offset + 4).toString("ascii");
+    const length = bytes.readUInt32LE(offset + 4);
+    const data = offset + 8;
+    if (type === "VP8 " && data + 10 <= bytes.length && header.width === undefined) {
+      header.width = bytes.readUInt16LE(data + 6) & 0x3fff;
+      header.height = bytes.readUInt16LE(data + 8) & 0x3fff;
+    } else if (type === "VP8L" && data + 5 <= bytes.length && header.width === undefined) {
+      const b1 = bytes[data + 2]!;
+      const b2 = bytes[data + 3]!;
+      const b3 = bytes[data + 4]!;
+      header.width = 1 + (((b1 & 0x3f) << 8) | bytes[data + 1]!);
+      header.height = 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6));
+    } else if (type === "VP8X" && data + 10 <= bytes.length) {
+      header.width = 1 + bytes.readUIntLE(data + 4, 3);
+      header.height = 1 + bytes.readUIntLE(data + 7, 3);
+    } else if (type === "EXIF") {
+      const exif = bytes.subarray(data, data + length);
+      header.exif = exif.subarray(0, 6).toString("binary") === "Exif\u0000\u0000" ? exif.subarray(6) : exif;
+    }
+    offset = data + length + (length % 2);
+  }
+  return header;
+}
+
+type ExifValue = string | number;
+
+function createTiffReader(tiff: Buffer): { u32(offset: number): number; readIfd(offset: number): Map<number, ExifValue[]> } | null {
+  if (tiff.length < 8) return null;
+  const order = tiff.subarray(0, 2).toString("ascii");
+  if (order !== "II" && order !== "MM") return null;
+  const little = order === "II";
+  const u16 = (offset: number): number => little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+  const u32 = (offset: number): number => little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+  const i32 = (offset: number): number => little ? tiff.readInt32LE(offset) : tiff.readInt32BE(offset);
+  if (u16(2) !== 42) return null;
+
+  const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+  const readIfd = (offset: number): Map<number, ExifValue[]> => {
+    const entries = new Map<number, ExifValue[]>();
+    if (offset + 2 > tiff.length) return entries;
+    const count = u16(offset);
+    for (let index = 0; index < count; index++) {
+      const entry = offset + 2 + index * 12;
+      if (entry + 12 > tiff.length) break;
+      const tag = u16(entry);
+      const type = u16(entry + 2);
+      const valueCount = u32(entry + 4);
+      const size = TYPE_SIZES[type];
+      if (!size || valueCount > 4096) continue;
+      const valueOffset = size * valueCount > 4 ? u32(entry + 8) : entry + 8;
+      if (valueOffset + size * valueCount > tiff.length) continue;
+      if (type === 2) {
+        entries.set(tag, [tiff.subarray(valueOffset, valueOffset + valueCount).toString("latin1").replace(/\u0000+$/, "").trim()]);
+        continue;
+      }
+      const values: number[] = [];
+      for (let item = 0; item < valueCount; item++) {
+        const at = valueOffset + item * size;
+        switch (type) {
+          case 1:
+          case 7:
+            values.push(tiff[at]!);
+            break;
+          case 3:
+            values.push(u16(at));
+            break;
+          case 4:
+            values.push(u32(at));
+            break;
+          case 9:
+            values.push(i32(at));
+            break;
+          case 5:
+            values.push(u32(at) / u32(at + 4));
+            break;
+          case 10:
+            values.push(i32(at) / i32(at + 4));
+            break;
+        }
+      }
+      entries.set(tag, values);
+    }
+    return entries;
+  };
+  return { u32, readIfd };
+}
+
+function readCoordinate(values: ExifValue[] | undefined, ref: ExifValue | undefined, negativeRef: string): number | undefined {
+  if (!values || values.length < 3 || !values.every((value) => typeof value === "number" && Number.isFinite(value))) {
+    return undefined;
+  }
+  const [degrees, minutes, seconds] = values as number[];
+  const decimal = degrees! + minutes! / 60 + seconds! / 3600;
+  return round(ref === negativeRef ? -decimal : decimal, 6);
+}
+
+/** EXIF stores local wall-clock time as `YYYY:MM:DD HH:MM:SS`, optionally with a separate UTC offset. */
+function formatExifDate(value: string, offset?: string): string | undefined {
+  const match = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match || match[1] === "0000") return undefined;
+  const local = `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}`;
+  return offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? `${local}${offset}` : local;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -1,15 +1,145 @@
-import { writeFile } from "node:fs/promises";
-import type { ManagedFileRecord, PreparedImageData } from "../types.js";
+import { readFile, writeFile } from "node:fs/promises";
+import { resizeImageWithImageMagick, resolveImageMagickBin } from "../../documents/cli/imagemagick-cli.js";
+import { extractTextWithTesseract, resolveTesseractBin } from "../../documents/cli/tesseract-cli.js";
+import type {
+  ImageFormat,
+  ImagePreview,
+  ManagedFileRecord,
+  PreparedImageData,
+  PreparedImageOcr,
+  PreparedImageTools,
+} from "../types.js";
+import { parseExif, readImageHeader, type ImageHeader } from "./image-metadata.js";
+
+/** Longest edge providers accept without downscaling the image themselves. */
+const MAX_PROVIDER_IMAGE_EDGE = 1568;
+/** Stays under the common 5 MB base64 request limit. */
+const MAX_PROVIDER_IMAGE_BYTES = 3_750_000;
+const PROVIDER_IMAGE_FORMATS = new Set<ImageFormat>(["png", "jpeg", "gif", "webp"]);
+const MAX_OCR_CHARS = 20_000;
 
 export async function prepareImageFile(input: {
   file: ManagedFileRecord;
   outputPath: string;
+  /** Preview path without extension; the preview format decides it. */
+  previewBasePath: string;
+  /** Runs tesseract; otherwise OCR is recorded as `skipped` and filled in by a later preparation that asks. */
+  ocr: boolean;
 }): Promise<PreparedImageData> {
+  const tools = await detectImageTools();
+  const cached = await readCachedImage(input.outputPath, tools);
+  if (cached && (!input.ocr || cached.ocr?.status !== "skipped")) return cached;
+  if (cached) {
+    const ocr = await runOcr(input.file.storagePath);
+    const prepared: PreparedImageData = { ...cached, ocr, warnings: [...cached.warnings, ...ocrWarnings(ocr)] };
+    await writeFile(input.outputPath, JSON.stringify(prepared, null, 2), "utf-8");
+    return prepared;
+  }
+
+  const warnings: string[] = [];
+  const bytes = await readFile(input.file.storagePath);
+  const header = readImageHeader(bytes);
+  if (!header) {
+    warnings.push("Unrecognized image format; dimensions and EXIF are unavailable.");
+  }
+  const exif = header?.exif ? parseExif(header.exif) : undefined;
+  const preview = header && needsPreview(header, input.file.sizeBytes, exif?.orientation, exif?.gps !== undefined)
+    ? await createPreview(input.file.storagePath, input.previewBasePath, header.format, warnings)
+    : undefined;
+  const ocr: PreparedImageOcr = input.ocr ? await runOcr(input.file.storagePath) : { status: "skipped" };
+  warnings.push(...ocrWarnings(ocr));
+
   const prepared: PreparedImageData = {
-    mimeType: input.file.mimeType,
+    ...(header ? { format: header.format } : {}),
+    ...(header?.width !== undefined ? { width: header.width } : {}),
+    ...(header?.height !== undefined ? { height: header.height } : {}),
+    mimeType: input.file.mimeType ?? header?.mimeType,
     sizeBytes: input.file.sizeBytes,
-    warnings: [],
+    ...(exif && Object.keys(exif).length > 0 ? { exif } : {}),
+    ...(preview ? { preview } : {}),
+    ocr,
+    tools,
+    warnings,
   };
   await writeFile(input.outputPath, JSON.stringify(prepared, null, 2), "utf-8");
   return prepared;
 }
+
+/**
+ * Reuses an earlier preparation of the same content, including its warnings and failed OCR, as long
+ * as the same image tools are installed. Installing, removing, or repointing tesseract or ImageMagick
+ * prepares the image again.
+ */
+async function readCachedImage(outputPath: string, tools: PreparedImageTools): Promise<PreparedImageData | null> {
+  try {
+    const cached = JSON.parse(await readFile(outputPath, "utf-8")) as PreparedImageData;
+    return cached.tools?.tesseract === tools.tesseract && cached.tools.imagemagick === tools.imagemagick
+      ? cached
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+async function detectImageTools(): Promise<PreparedImageTools> {
+  const [tesseract, imagemagick] = await Promise.all([resolveTesseractBin(), resolveImageMagickBin()]);
+  return { tesseract, imagemagick };
+}
+
+function ocrWarnings(ocr: PreparedImageOcr): string[] {
+  return ocr.status === "failed" ? [`OCR failed: ${ocr.error}`] : [];
+}
+
+function needsPreview(header: ImageHeader, sizeBytes: number, orientation: number | undefined, hasGps: boolean): boolean {
+  return !PROVIDER_IMAGE_FORMATS.has(header.format)
+    || sizeBytes > MAX_PROVIDER_IMAGE_BYTES
+    || (header.width ?? 0) > MAX_PROVIDER_IMAGE_EDGE
+    || (header.height ?? 0) > MAX_PROVIDER_IMAGE_EDGE
+    || (orientation !== undefined && orientation !== 1)
+    || hasGps;
+}
+
+async function createPreview(
+  sourcePath: string,
+  previewBasePath: string,
+  format: ImageFormat,
+  warnings: string[],
+): Promise<ImagePreview | undefined> {
+  const path = `${previewBasePath}.${format === "jpeg" ? "jpg" : "png"}`;
+  try {
+    await resizeImageWithImageMagick({ inputPath: sourcePath, outputPath: path, maxEdge: MAX_PROVIDER_IMAGE_EDGE });
+    const header = readImageHeader(await readFile(path));
+    return {
+      path,
+      mimeType: format === "jpeg" ? "image/jpeg" : "image/png",
+      ...(header?.width !== undefined ? { width: header.width } : {}),
+      ...(header?.height !== undefined ? { height: header.height } : {}),
+    };
+  } catch (err) {
+    warnings.push(isMissingCommand(err)
+      ? "Image preview unavailable: ImageMagick was not found; install it or set IMAGEMAGICK_BIN."
+      : `Image preview failed: ${err instanceof Error ? err.message : String(err)}`);
+    return undefined;
+  }
+}
+
+async function runOcr(filePath: string): Promise<PreparedImageOcr> {
+  try {
+    const text = await extractTextWithTesseract({ filePath });
+    if (text.length === 0) return { status: "empty", engine: "tesseract" };
+    const truncated = text.length > MAX_OCR_CHARS;
+    return {
+      status: "ok",
+      engine: "tesseract",
+      text: truncated ? text.slice(0, MAX_OCR_CHARS) : text,
+      ...(truncated ? { truncated } : {}),
+    };
+  } catch (err) {
+    if (isMissingCommand(err)) return { status: "unavailable" };
+    return { status: "failed", engine: "tesseract", error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+function isMissingCommand(err: unknown): boolean {
+  return (err as NodeJS.ErrnoException | undefined)?.code === "ENOENT";
+}
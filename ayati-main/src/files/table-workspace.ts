@@ -0,0 +1,186 @@
+import { existsSync } from "node:fs";
+import { writeFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import { DatabaseSync } from "node:sqlite";
+import * as XLSX from "xlsx";
+import { queryConnection, resolveDatabasePath } from "../database/sqlite-runtime.js";
+import type { PreparedTableData, TableWorkspaceMount, TableWorkspaceQueryResult } from "./types.js";
+
+const ALIAS_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const STAGING_SCHEMA = "ayati_staging";
+const RESERVED_ALIASES = new Set(["main", "temp", "sqlite_master", "sqlite_schema", STAGING_SCHEMA]);
+const MAX_SAVED_ROWS = 200_000;
+
+export type TableWorkspaceFormat = "csv" | "xlsx";
+
+/**
+ * One in-memory SQLite session that several prepared tables and databases are mounted into, so a
+ * single query can join them. Prepared file tables are copied in under their alias because every
+ * sheet of a workbook is staged into the same per-file database. Databases are attached as schemas
+ * (`alias.table`). The session is read-only once mounting is finished.
+ */
+export class TableWorkspace {
+  private readonly db = new DatabaseSync(":memory:");
+  private readonly mounts: TableWorkspaceMount[] = [];
+  private readonly aliases = new Set<string>();
+  private sealed = false;
+
+  mountTable(input: {
+    fileId: string;
+    originalName: string;
+    table: PreparedTableData;
+    alias?: string;
+  }): TableWorkspaceMount {
+    const alias = this.claimAlias(input.alias, input.table.sheetName && input.table.sheetNames && input.table.sheetNames.length > 1
+      ? `${stem(input.originalName)}_${input.table.sheetName}`
+      : stem(input.originalName));
+    this.db.prepare(`ATTACH DATABASE ? AS ${STAGING_SCHEMA}`).run(input.table.dbPath);
+    try {
+      this.db.exec(`CREATE TABLE main.${quoteIdentifier(alias)} AS SELECT * FROM ${STAGING_SCHEMA}.${quoteIdentifier(input.table.tableName)}`);
+    } finally {
+      this.db.exec(`DETACH DATABASE ${STAGING_SCHEMA}`);
+    }
+    const mount: TableWorkspaceMount = {
+      alias,
+      source: "file",
+      fileId: input.fileId,
+      originalName: input.originalName,
+      ...(input.table.sheetName ? { sheetName: input.table.sheetName } : {}),
+      columns: input.table.columns,
+      rowCount: input.table.rowCount,
+    };
+    this.mounts.push(mount);
+    return mount;
+  }
+
+  mountDatabase(input: { dbPath?: string; alias?: string }): TableWorkspaceMount {
+    const dbPath = resolveDatabasePath(input.dbPath);
+    if (!existsSync(dbPath)) {
+      throw new Error(`Database not found: ${dbPath}`);
+    }
+    const alias = this.claimAlias(input.alias, stem(dbPath));
+    this.db.prepare("ATTACH DATABASE ? AS " + quoteIdentifier(alias)).run(dbPath);
+    const tables = this.db.prepare(`
+      SELECT name FROM ${quoteIdentifier(alias)}.sqlite_master
+      WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'
+      ORDER BY name ASC
+    `).all() as Array<{ name: string }>;
+    const mount: TableWorkspaceMount = {
+      alias,
+      source: "database",
+      dbPath,
+      tables: tables.map((table) => `${alias}.${table.name}`),
+    };
+    this.mounts.push(mount);
+    return mount;
+  }
+
+  listMounts(): TableWorkspaceMount[] {
+    return [...this.mounts];
+  }
+
+  query(input: { sql: string; maxRows?: number }): TableWorkspaceQueryResult {
+    this.seal();
+    const result = queryConnection(this.db, input);
+    return {
+      columns: result.columns ?? [],
+      rows: result.rows ?? [],
+      rowCount: result.rowCount ?? 0,
+      truncated: result.truncated ?? false,
+    };
+  }
+
+  /** Writes every row of the query (not just the returned preview) to a new CSV or XLSX file. */
+  async saveQuery(input: { sql: string; path: string }): Promise<{ format: TableWorkspaceFormat; rowCount: number }> {
+    const format = tableFormatForPath(input.path);
+    // Validates the statement the same way as a preview query before iterating every row.
+    this.query({ sql: input.sql, maxRows: 1 });
+    if (existsSync(input.path)) {
+      throw new Error(`Refusing to overwrite existing file: ${input.path}`);
+    }
+    const statement = this.db.prepare(input.sql.trim());
+    const columns = statement.columns().map((column) => String(column.name ?? ""));
+    const rows: unknown[][] = [];
+    for (const row of statement.iterate() as Iterable<Record<string, unknown>>) {
+      if (rows.length >= MAX_SAVED_ROWS) {
+        throw new Error(`Query returns more than ${MAX_SAVED_ROWS} rows; narrow it before saving the result.`);
+      }
+      rows.push(columns.map((column) => row[column] ?? null));
+    }
+
+    if (format === "csv") {
+      const lines = [columns, ...rows].map((row) => row.map(formatCsvCell).join(","));
+      await writeFile(input.path, `${lines.join("\n")}\n`, "utf-8");
+    } else {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([columns, ...rows]), "Result");
+      await writeFile(input.path, XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer);
+    }
+    return { format, rowCount: rows.length };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private seal(): void {
+    if (this.sealed) return;
+    if (this.mounts.length === 0) {
+      throw new Error("Mount at least one table before querying the workspace.");
+    }
+    this.db.exec("PRAGMA query_only = ON");
+    this.sealed = true;
+  }
+
+  private claimAlias(requested: string | undefined, fallback: string): string {
+    if (this.sealed) {
+      throw new Error("Tables cannot be mounted after the workspace has been queried.");
+    }
+    if (requested !== undefined) {
+      if (!ALIAS_PATTERN.test(requested) || RESERVED_ALIASES.has(requested.toLowerCase())) {
+        throw new Error(`Invalid table alias "${requested}": use letters, digits, and underscores, not starting with a digit.`);
+      }
+      if (this.aliases.has(requested.toLowerCase())) {
+        throw new Error(`Table alias "${requested}" is used more than once.`);
+      }
+      this.aliases.add(requested.toLowerCase());
+      return requested;
+    }
+    const base = normalizeAlias(fallback);
+    let alias = base;
+    for (let suffix = 2; this.aliases.has(alias) || RESERVED_ALIASES.has(alias); suffix++) {
+      alias = `${base}_${suffix}`;
+    }
+    this.aliases.add(alias);
+    return alias;
+  }
+}
+
+export function tableFormatForPath(path: string): TableWorkspaceFormat {
+  const extension = extname(path).toLowerCase();
+  if (extension === ".csv") return "csv";
+  if (extension === ".xlsx") return "xlsx";
+  throw new Error(`saveAs path must end in .csv or .xlsx: ${path}`);
+}
+
+/** Derives the alias a source gets by default, so the same file keeps the same table name across calls. */
+function normalizeAlias(value: string): string {
+  const normalized = value.toLowerCase().replace(/[^a-z0-9_]+/g, "_").replace(/_+/g, "_").replace(/^_|_$/g, "");
+  if (normalized.length === 0) return "table";
+  return /^[0-9]/.test(normalized) ? `t_${normalized}` : normalized;
+}
+
+function stem(path: string): string {
+  const name = basename(path);
+  return name.slice(0, name.length - extname(name).length) || name;
+}
+
+function quoteIdentifier(value: string): string {
+  return `"${value.replace(/"/g, "\"\"")}"`;
+}
+
+function formatCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Uint8Array ? Buffer.from(value).toString("base64") : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
@@ -46,6 +46,8 @@ export interface ManagedFileRecord {
   warnings: string[];
   sourceUri?: string;
   originalPath?: string;
+  /** Set once an image is prepared and its original is too large or unsuitable to send to a provider. */
+  imagePreview?: ImagePreview;
 }
 
 export interface RunFileReference {
@@ -100,6 +102,49 @@ export interface DirectoryAttachmentRecord {
   warnings: string[];
 }
 
+export interface DirectoryIndexStatus {
+  /** `missing` until the first background refresh of the attachment finishes. */
+  state: "missing" | "ready";
+  refreshedAt?: string;
+  indexedFiles: number;
+  /** Binary, unreadable, or oversized files that are tracked but not searchable. */
+  skippedFiles: number;
+}
+
+export interface DirectoryIndexRefreshResult {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  skipped: number;
+  durationMs: number;
+}
+
+export interface DirectoryIndexHit {
+  relativePath: string;
+  /** BM25 relevance; higher is better. */
+  score: number;
+  /** Best-matching excerpt with matched terms wrapped in `**`. */
+  excerpt: string;
+  lineMatches: Array<{ line: number; text: string; before?: string[]; after?: string[] }>;
+}
+
+export interface IndexedPathSearchInput {
+  /** Canonical absolute directory inside an attached directory. */
+  path: string;
+  query: string;
+  maxResults: number;
+  includeHidden?: boolean;
+  contextLines?: number;
+}
+
+export interface IndexedPathSearchResult {
+  directoryId: string;
+  rootPath: string;
+  index: DirectoryIndexStatus;
+  hits: Array<DirectoryIndexHit & { path: string }>;
+}
+
 export interface RegisterDirectoryInput {
   path: string;
   name?: string;
@@ -157,14 +202,62 @@ export interface PreparedTableData {
   warnings: string[];
 }
 
+export type ImageFormat = "png" | "jpeg" | "gif" | "webp" | "bmp";
+
+export interface ImageExifFacts {
+  /** Local wall-clock capture time; carries a UTC offset only when the camera recorded one. */
+  capturedAt?: string;
+  cameraMake?: string;
+  cameraModel?: string;
+  /** EXIF orientation 1–8; stored pixels must be transformed this way to display upright. */
+  orientation?: number;
+  orientationDescription?: string;
+  gps?: {
+    latitude: number;
+    longitude: number;
+    altitudeMeters?: number;
+  };
+}
+
+export interface ImagePreview {
+  path: string;
+  mimeType: string;
+  width?: number;
+  height?: number;
+}
+
+export interface PreparedImageOcr {
+  /**
+   * `unavailable` when no tesseract CLI was found, `skipped` when the preparation did not ask for OCR.
+   * Both are retried once tesseract appears or OCR is requested.
+   */
+  status: "ok" | "empty" | "unavailable" | "failed" | "skipped";
+  engine?: "tesseract";
+  text?: string;
+  truncated?: boolean;
+  error?: string;
+}
+
 export interface PreparedImageData {
+  format?: ImageFormat;
   width?: number;
   height?: number;
   mimeType?: string;
   sizeBytes: number;
+  exif?: ImageExifFacts;
+  /** Downscaled, upright, metadata-stripped copy for vision providers; absent when the original already fits. */
+  preview?: ImagePreview;
+  ocr?: PreparedImageOcr;
+  /** Image tools found when this was prepared; the cached result is reused until they change. */
+  tools?: PreparedImageTools;
   warnings: string[];
 }
 
+export interface PreparedImageTools {
+  tesseract: string | null;
+  imagemagick: string | null;
+}
+
 export interface PreparedFileRecord {
   file: ManagedFileRecord;
   text?: PreparedTextData;
@@ -194,4 +287,44 @@ export interface RegisterPathInput {
 export interface PrepareFileOptions {
   sheetName?: string;
   maxChunkTokens?: number;
+  /** Runs tesseract on images; defaults to true. Attachment intake turns it off to stay off the OCR timeout. */
+  ocr?: boolean;
+}
+
+export type TableWorkspaceSource =
+  | { source: "file"; fileId: string; sheetName?: string; alias?: string }
+  | { source: "database"; dbPath?: string; alias?: string };
+
+export type TableWorkspaceMount =
+  | {
+      alias: string;
+      source: "file";
+      fileId: string;
+      originalName: string;
+      sheetName?: string;
+      columns: string[];
+      rowCount: number;
+    }
+  | {
+      alias: string;
+      source: "database";
+      dbPath: string;
+      /** Schema-qualified names, e.g. `agent.orders`. */
+      tables: string[];
+    };
+
+export interface TableWorkspaceQueryResult {
+  columns: string[];
+  rows: Array<Record<string, unknown>>;
+  rowCount: number;
+  truncated: boolean;
+}
+
+export interface QueryTablesInput {
+  sources: TableWorkspaceSource[];
+  sql: string;
+  maxRows?: number;
+  /** Absolute .csv or .xlsx path the full result is written to and registered as an artifact. */
+  saveAs?: string;
+  runId?: string;
 }
@@ -32,6 +32,7 @@ export interface AgentActionExecutionDeps {
   workstreamResources?: WorkstreamResourceBinding[];
   filesystemMutationRoots?: string[];
   metrics?: RunMetrics;
+  signal?: AbortSignal;
 }
 
 export interface AgentActionExecutionResult {
@@ -278,6 +279,11 @@ async function executeCalls(
   const failedCallIds = new Set<string>();
   let stoppedByFailure: string | undefined;
   for (const call of calls) {
+    if (deps.signal?.aborted) {
+      failedCallIds.add(call.id);
+      toolCalls.push(skippedToolCall(call, "Skipped because the run was cancelled."));
+      continue;
+    }
     if (stoppedByFailure) {
       const skipped = skippedToolCall(call, `Skipped because an earlier sequential call failed: ${stoppedByFailure}`);
       failedCallIds.add(call.id);
@@ -328,6 +334,7 @@ async function executeToolCall(
       ? { filesystemMutationRoots: deps.filesystemMutationRoots }
       : {}),
     stepNumber,
+    ...(deps.signal ? { signal: deps.signal } : {}),
   };
   const validation = deps.toolExecutor.validate(call.tool, call.input, context);
   if (!validation.valid) {
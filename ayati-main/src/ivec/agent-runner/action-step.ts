@@ -57,6 +57,7 @@ export async function executeActionStep(input: ExecuteActionStepInput): Promise<
       metrics: input.metrics,
       workstreamResources,
       filesystemMutationRoots,
+      ...(input.deps.signal ? { signal: input.deps.signal } : {}),
     },
     input.decision.action,
     input.stepNumber,
@@ -65,7 +66,7 @@ export async function executeActionStep(input: ExecuteActionStepInput): Promise<
 
   if (!execution.verifyOutput.passed) {
     const recovery = planLocalRecovery(input.decision.action, execution.actOutput.toolCalls);
-    if (recovery) {
+    if (recovery && !input.deps.signal?.aborted) {
       recordRunMetric(input.metrics, "local_recovery", { kind: "local" });
       const retryExecution = await executeAgentAction(
         {
@@ -77,6 +78,7 @@ export async function executeActionStep(input: ExecuteActionStepInput): Promise<
           metrics: input.metrics,
           workstreamResources,
           filesystemMutationRoots,
+          ...(input.deps.signal ? { signal: input.deps.signal } : {}),
         },
         recovery.action,
         input.stepNumber,
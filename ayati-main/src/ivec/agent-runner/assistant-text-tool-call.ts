@@ -50,6 +50,27 @@ export function detectAssistantTextToolCall(
   };
 }
 
+export interface ParsedAssistantTextToolCall {
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/** Reads one `{ "tool": ..., "input": ... }` call printed as assistant text, for providers without native tool calling. */
+export function parseAssistantTextToolCall(
+  text: string,
+  toolNames: string[],
+): ParsedAssistantTextToolCall | null {
+  const parsed = parseJsonRecord(stripJsonFence(text.trim()));
+  if (!parsed || !looksLikeToolCallRecord(parsed)) {
+    return null;
+  }
+  const name = readToolLikeName(parsed);
+  if (!name || !toolNames.includes(name)) {
+    return null;
+  }
+  return { name, input: readToolLikeInput(parsed) ?? {} };
+}
+
 export function looksLikeToolCallRecord(value: unknown): boolean {
   if (!isPlainObject(value)) {
     return false;
@@ -248,6 +269,11 @@ function readToolLikeInput(
   return undefined;
 }
 
+function stripJsonFence(text: string): string {
+  const fenced = /^```(?:json)?\s*\n([\s\S]*?)\n?```$/.exec(text);
+  return fenced?.[1]?.trim() ?? text;
+}
+
 function parseJsonRecord(text: string): Record<string, unknown> | null {
   try {
     const parsed: unknown = JSON.parse(text);
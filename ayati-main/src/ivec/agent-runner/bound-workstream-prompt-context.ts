@@ -17,6 +17,7 @@ export const BOUND_WORKSTREAM_PROMPT_LIMITS = {
   resourceDescriptionChars: 500,
   resourceAliasCount: 5,
   resourceAliasChars: 100,
+  resourceChangeCount: 10,
 } as const;
 
 type ContextWorkstream = NonNullable<ContextEngineMachineContext["workstream"]>;
@@ -41,6 +42,8 @@ export interface PromptBoundWorkstreamContext {
   recentProgress: PromptBoundWorkstreamProgress[];
   resources: PromptBoundWorkstreamResource[];
   otherResourceCount: number;
+  /** Bound resources edited or removed outside Ayati since the last finalized run. */
+  resourcesChangedSinceLastRun?: PromptBoundResourceChange[];
 }
 
 export interface PromptBoundRequestContext {
@@ -55,7 +58,7 @@ export interface PromptBoundRequestContext {
 
 export interface PromptBoundWorkstreamProgress {
   runId: string;
-  outcome: "done" | "incomplete" | "failed" | "blocked" | "needs_user_input";
+  outcome: "done" | "incomplete" | "failed" | "blocked" | "needs_user_input" | "cancelled";
   summary: string;
   validation: string;
   next?: string;
@@ -75,6 +78,14 @@ export interface PromptBoundWorkstreamResource {
   requestRelevant: boolean;
 }
 
+export interface PromptBoundResourceChange {
+  id: string;
+  name: string;
+  change: "changed" | "missing" | "restored";
+  availability: ContextWorkstreamResource["resource"]["availability"];
+  at: string;
+}
+
 /**
  * Builds the bounded, model-facing context for the exact request selected by
  * the current run. Binding identity is authoritative: inconsistent projections
@@ -172,6 +183,15 @@ export function buildBoundWorkstreamPromptContext(
     workstream.resources,
     selectedRequest.id,
   );
+  const resourceChanges = (workstream.resourceChanges ?? [])
+    .slice(0, BOUND_WORKSTREAM_PROMPT_LIMITS.resourceChangeCount)
+    .map((change) => ({
+      id: change.resourceId,
+      name: compactText(change.displayName, BOUND_WORKSTREAM_PROMPT_LIMITS.resourceNameChars),
+      change: change.change,
+      availability: change.availability,
+      at: change.at,
+    }));
 
   return {
     id: workstreamId,
@@ -203,6 +223,7 @@ export function buildBoundWorkstreamPromptContext(
       .map((progress) => projectRecentProgress(progress)),
     resources,
     otherResourceCount: Math.max(0, workstream.resources.length - resources.length),
+    ...(resourceChanges.length > 0 ? { resourcesChangedSinceLastRun: resourceChanges } : {}),
   };
 }
 
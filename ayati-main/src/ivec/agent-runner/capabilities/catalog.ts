@@ -144,6 +144,9 @@ export const CAPABILITY_DEFINITIONS: readonly CapabilityDefinition[] = [
     "file_profile_table",
     "file_query_table",
   ]),
+  capability("attachment:join", "Join several attached tables and databases in one query.", "Use when an answer needs rows from more than one table file or database, or a query result must be saved as a CSV/XLSX artifact.", MUTATION, [
+    "file_query_tables",
+  ]),
   capability("attachment:restore", "Restore a durable attachment into the bound run.", "Use when a known attachment must be re-admitted to current bound work.", EXECUTE, ["attachment_restore"], [], {
     success: ["attachment:read"],
   }),
@@ -151,6 +154,12 @@ export const CAPABILITY_DEFINITIONS: readonly CapabilityDefinition[] = [
     "python_inspect_dataset",
   ]),
   capability("python:execute", "Run bounded Python analysis.", "Use when deterministic dataset tools are insufficient for the authorized analysis.", MUTATION, ["python_execute"]),
+  capability("python:session", "Keep a Python session across analysis steps.", "Use for iterative analysis that reuses loaded data between calls.", MUTATION, [
+    "python_session_start",
+    "python_session_exec",
+    "python_session_inspect",
+    "python_session_stop",
+  ]),
 
   capability("artifact:register", "Register an existing path or produced artifact.", "Use to make a bound filesystem output durable and addressable.", MUTATION, [
     "file_register_path",
@@ -177,6 +186,33 @@ export const CAPABILITY_DEFINITIONS: readonly CapabilityDefinition[] = [
     OBSERVE_BOTH,
     ["git_read"],
   ),
+  capability(
+    "git:write",
+    "Stage, commit, branch, switch, stash, add worktrees, or revert commits in a bound Git repository.",
+    "Use instead of process_run git for repository changes. Each call is one verified, non-destructive operation; inspect state with git_read first.",
+    MUTATION,
+    ["git_write"],
+    ["git_read"],
+  ),
+  capability(
+    "web:read",
+    "Fetch public web pages and extract their readable text.",
+    "Use when the answer depends on the current content of an exact http or https URL. Prefer web_extract_readable for articles and documentation; use web_head to check availability or size first.",
+    OBSERVE_BOTH,
+    ["web_fetch", "web_extract_readable"],
+    ["web_head"],
+  ),
+  capability("schedule:read", "List scheduled runs and their recent results.", "Use when the user asks what is scheduled or how a scheduled run went.", OBSERVE_BOTH, [
+    "schedule_list",
+  ]),
+  capability(
+    "schedule:write",
+    "Create or cancel scheduled runs.",
+    "Use only when the user explicitly asks Ayati to do something later or on a recurring basis, or to stop doing so.",
+    MUTATION,
+    ["schedule_create", "schedule_cancel"],
+    ["schedule_list"],
+  ),
   unboundCapability(
     "resource:ownership",
     "Find workstreams that own a resource.",
@@ -186,6 +222,12 @@ export const CAPABILITY_DEFINITIONS: readonly CapabilityDefinition[] = [
   ),
   capability("resource:binding", "Bind resources to the active workstream.", "Use after ownership is resolved and the run is bound.", MUTATION, ["git_context_bind_resources"]),
   capability("workstream:preferences", "Update an explicit workstream preference.", "Use only for an explicit star or preference change.", EXECUTE, ["git_context_set_workstream_star"]),
+  capability("workstream:lifecycle", "Archive, restore, rename, merge, or split workstreams.", "Use only when the user explicitly asks to reorganize workstreams; each change is one context commit.", EXECUTE, [
+    "git_context_archive_workstream",
+    "git_context_rename_workstream",
+    "git_context_merge_workstreams",
+    "git_context_split_workstream",
+  ]),
   capability("history:read", "Search, page, and read exact older agent-stream history.", "Use when exact older discussion or evidence is required. Search by topic when possible; page chronologically only when sequence context matters.", OBSERVE_BOTH, [
     "agent_history_search",
     "agent_conversation_read",
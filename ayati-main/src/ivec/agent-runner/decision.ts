@@ -42,7 +42,13 @@ import {
   withEvaluationModelOperation,
 } from "../../evaluation/capture-runtime.js";
 import type { RunMetrics } from "../metrics.js";
-import { recordOptimizationEvent, recordPromptMetric, recordProviderUsageMetric, recordRunMetric } from "../metrics.js";
+import {
+  recordOptimizationEvent,
+  recordPromptMetric,
+  recordProviderRouteMetric,
+  recordProviderUsageMetric,
+  recordRunMetric,
+} from "../metrics.js";
 import type { AgentContextCheckpointCoordinator, ToolContextProjectionPolicy } from "../types.js";
 import type { ContextPreparationManager } from "../context-preparation/manager.js";
 import type { ContextMaintenanceLifecycle } from "../context-preparation/context-maintenance.js";
@@ -184,6 +190,7 @@ interface CallAgentDecisionInput {
   onContextCompilation?: (receipt: ContextCompilationReceipt) => void;
   onAssistantTextDelta?: (delta: string) => void;
   imageInputs?: LlmImageContentPart[];
+  signal?: AbortSignal;
 }
 
 interface ToolProtocolViolation {
@@ -224,10 +231,12 @@ const DEFAULT_MODE_CAPABILITY_OPTIONS = new CapabilityCatalog().modeOptions();
 export async function callAgentDecision(input: CallAgentDecisionInput): Promise<AgentDecision> {
   const contextLimits = resolveModelContextLimits(input.provider);
   const promptStateView = projectAgentStateViewForPrompt(input.stateView);
-  const promptSections = buildDecisionPromptSections(promptStateView, input.toolDefinitions, input.toolRoutingSummary);
-  const prompt = Object.values(promptSections).filter((section) => section.trim().length > 0).join("\n\n");
+  const promptSections = buildDecisionPromptSections(promptStateView);
+  const prompt = joinPromptSections(promptSections);
   const systemSections = buildDecisionSystemSections(input.systemContext);
-  const systemContext = Object.values(systemSections).filter((section) => section.trim().length > 0).join("\n\n");
+  const systemContext = joinPromptSections(systemSections);
+  const capabilitySections = buildDecisionCapabilitySections(input.toolDefinitions, input.toolRoutingSummary);
+  const capabilitySurface = joinPromptSections(capabilitySections);
   recordDecisionFeedback(input, "state_view_projected", {
     stateView: promptStateView,
     summary: summarizePromptStateView(promptStateView),
@@ -236,13 +245,17 @@ export async function callAgentDecision(input: CallAgentDecisionInput): Promise<
   recordPromptMetric(input.metrics, "agent_decision", {
     "system.stableDecisionRules": systemSections.stableDecisionRules,
     "system.runtimeContext": systemSections.runtimeContext,
+    ...capabilitySections,
     ...promptSections,
   }, {
     stateBreakdown: buildStateViewPromptBreakdown(promptStateView),
   });
 
+  // Stable-first layout: static context, then the mode's capability surface, then volatile state.
+  // Explicit breakpoints let Anthropic cache both prefixes; automatic-caching providers reuse them too.
   let messages: LlmMessage[] = [
-    { role: "system", content: systemContext },
+    { role: "system", content: systemContext, cacheBreakpoint: true },
+    { role: "system", content: capabilitySurface, cacheBreakpoint: true },
     {
       role: "user",
       content: input.imageInputs && input.imageInputs.length > 0
@@ -278,7 +291,7 @@ export async function callAgentDecision(input: CallAgentDecisionInput): Promise<
       toolChoicePolicy.toolChoice,
     );
     try {
-      if (!input.provider.capabilities.nativeToolCalling) {
+      if (!input.provider.capabilities.nativeToolCalling && !input.provider.capabilities.textToolCallFallback) {
         throw new Error(`Provider ${input.provider.name} does not support native decision tools.`);
       }
       recordDecisionFeedback(input, "native_tool_surface", {
@@ -311,6 +324,7 @@ export async function callAgentDecision(input: CallAgentDecisionInput): Promise<
         status: "success",
       });
       recordProviderUsageMetric(input.metrics, metricStage, turn.usage, turn.cost);
+      recordProviderRouteMetric(input.metrics, metricStage, turn.servedBy);
     } catch (error) {
       recordRunMetric(input.metrics, metricStage, {
         durationMs: Date.now() - startedAt,
@@ -574,11 +588,7 @@ async function generateTurnWithEmptyResponseRetry(
       && input.contextPreparationMode !== "final_response",
     allowSynchronousSemanticRecovery: request.decisionAttempt === 1
       && input.contextPreparationMode !== "final_response",
-    buildPrompt: (stateView) => Object.values(buildDecisionPromptSections(
-      stateView,
-      input.toolDefinitions,
-      input.toolRoutingSummary,
-    )).filter((section) => section.trim().length > 0).join("\n\n"),
+    buildPrompt: (stateView) => joinPromptSections(buildDecisionPromptSections(stateView)),
   });
   recordDecisionFeedback(input, "context_preparation_span", {
     decisionAttempt: request.decisionAttempt,
@@ -646,6 +656,11 @@ async function generateTurnWithEmptyResponseRetry(
   );
   assertContextIsAdmissible(compilation.receipt);
   assertContextRecoveryIsNotExhausted(compilation.receipt);
+  const turnInput: LlmTurnInput = {
+    ...compilation.finalTurnInput,
+    modelRole: "decision",
+    ...(input.signal ? { signal: input.signal } : {}),
+  };
   let providerAttempt = 0;
 
   for (;;) {
@@ -673,14 +688,14 @@ async function generateTurnWithEmptyResponseRetry(
           && input.provider.capabilities.streaming === true
           && input.provider.streamTurn
         ) {
-          return await input.provider.streamTurn(compilation.finalTurnInput, {
+          return await input.provider.streamTurn(turnInput, {
             onTextDelta: (delta) => {
               receivedStreamingOutput = true;
               input.onAssistantTextDelta?.(delta);
             },
           });
         }
-        return await input.provider.generateTurn(compilation.finalTurnInput);
+        return await input.provider.generateTurn(turnInput);
       });
     } catch (error) {
       const responseFailure = providerResponseFailureDetails(error);
@@ -688,7 +703,8 @@ async function generateTurnWithEmptyResponseRetry(
         const failure = classifyProviderFailure(error, input.provider.name);
         const willRetry = failure.retryable
           && providerAttempt <= MAX_PROVIDER_RETRIES
-          && !receivedStreamingOutput;
+          && !receivedStreamingOutput
+          && !input.signal?.aborted;
         const retryDelayMs = failure.retryDelayMs ?? PROVIDER_RETRY_DELAY_MS;
         recordDecisionFeedback(input, "provider_call_failed", {
           attempt: request.decisionAttempt,
@@ -1236,20 +1252,30 @@ function looksLikeStructuredDecision(text: string): boolean {
   return typeof parsed?.["kind"] === "string" || looksLikeToolCallRecord(parsed);
 }
 
-function buildDecisionPromptSections(
-  stateView: ReturnType<typeof projectAgentStateViewForPrompt>,
+function buildDecisionCapabilitySections(
   toolDefinitions: ToolDefinition[],
   toolRoutingSummary: string | undefined,
 ): Record<string, string> {
   return {
-    "user.tools": `Selected tools:\n${formatSelectedToolNames(toolDefinitions)}`,
-    "user.toolRouting": toolRoutingSummary?.trim()
+    "system.tools": `Selected tools:\n${formatSelectedToolNames(toolDefinitions)}`,
+    "system.toolRouting": toolRoutingSummary?.trim()
       ? `Capability catalog (use exact ids in the selected mode control's capabilities field):\n${toolRoutingSummary.trim()}`
       : "",
+  };
+}
+
+function buildDecisionPromptSections(
+  stateView: ReturnType<typeof projectAgentStateViewForPrompt>,
+): Record<string, string> {
+  return {
     "user.state": `State view:\n${JSON.stringify(stateView, null, 2)}`,
   };
 }
 
+function joinPromptSections(sections: Record<string, string>): string {
+  return Object.values(sections).filter((section) => section.trim().length > 0).join("\n\n");
+}
+
 function buildStateViewPromptBreakdown(
   stateView: ReturnType<typeof projectAgentStateViewForPrompt>,
 ): Record<string, string | undefined> {
@@ -142,11 +142,9 @@ function readSignature(call: Pick<AgentToolCallSpec, "tool" | "input">): string
 function normalizeSearchInFilesInput(
   input: Record<string, unknown>,
 ): Record<string, unknown> {
-  const resultMode = input["resultMode"] === "snippets"
-    ? "snippets"
-    : input["resultMode"] === "count"
-      ? "count"
-      : "paths";
+  const resultMode = input["resultMode"] === "snippets" || input["resultMode"] === "count" || input["resultMode"] === "ranked"
+    ? input["resultMode"]
+    : "paths";
   const common = {
     query: input["query"],
     roots: normalizeStringArray(input["roots"]),
@@ -160,7 +158,7 @@ function normalizeSearchInFilesInput(
     ...(resultMode === "count"
       ? {}
       : { maxResults: input["maxResults"] ?? 500 }),
-    ...(resultMode === "snippets"
+    ...(resultMode === "snippets" || resultMode === "ranked"
       ? { contextLines: input["contextLines"] ?? 1 }
       : {}),
   };
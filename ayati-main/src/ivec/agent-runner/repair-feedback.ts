@@ -12,6 +12,7 @@ import { markReadProgressRejected } from "./read-progress-policy.js";
 import type { RepairCode, RepairSignal } from "./repair-policy.js";
 import {
   createRepairSignal,
+  REPAIR_CODE_CATALOG,
   repairSignalToFeedbackData,
   repairSignalToPromptCard,
 } from "./repair-policy.js";
@@ -369,6 +370,22 @@ function createStepFailureRepairSignal(input: {
   blockedTargets: string[];
   step: StepSummary;
 }): RepairSignal | undefined {
+  const deniedCall = extractApprovalDeniedCall(input.step);
+  if (deniedCall) {
+    const tool = readString(deniedCall, "tool");
+    return createRepairSignal("R_TOOL_APPROVAL_DENIED", {
+      ...(tool ? { message: `The user did not approve ${tool}, so it did not run.` } : {}),
+      blockedTargets: tool ? [tool] : input.blockedTargets,
+      operatorDetails: {
+        step: input.step.step,
+        reason: input.reason,
+        failureType: input.failureType,
+        toolsUsed: input.step.toolsUsed,
+        deniedCall,
+      },
+    });
+  }
+
   const editRecovery = extractEditTargetRecovery(input.step);
   if (editRecovery) {
     return createRepairSignal("R_EDIT_TARGET_RECOVERY", {
@@ -387,6 +404,26 @@ function createStepFailureRepairSignal(input: {
     });
   }
 
+  const testRecovery = extractTestFailureRecovery(input.step);
+  if (testRecovery) {
+    return createRepairSignal("R_TEST_FAILURE_RECOVERY", {
+      message: `${testRecovery.command || testRecovery.tool} failed at ${testRecovery.locations.length} parsed location${testRecovery.locations.length === 1 ? "" : "s"}.`,
+      blockedTargets: testRecovery.locations,
+      allowedNextActions: [
+        `Fix these reported locations first: ${testRecovery.locations.join("; ")}.`,
+        ...REPAIR_CODE_CATALOG.R_TEST_FAILURE_RECOVERY.allowedNextActions,
+      ],
+      operatorDetails: {
+        step: input.step.step,
+        reason: input.reason,
+        failureType: input.failureType,
+        executionContract: input.step.executionContract,
+        toolsUsed: input.step.toolsUsed,
+        recovery: testRecovery,
+      },
+    });
+  }
+
   const missingFields = extractMissingRequiredFields(input.reason);
   const invalidFields = missingFields.length > 0 ? [] : extractInvalidFields(input.reason);
   const code = stepFailureRepairCode(input.failureType, input.reason, missingFields, invalidFields);
@@ -465,6 +502,23 @@ function extractEditTargetRecovery(step: StepSummary): EditTargetRecovery | unde
   return undefined;
 }
 
+function extractTestFailureRecovery(step: StepSummary): { tool: string; command?: string; locations: string[] } | undefined {
+  for (const call of evidenceToolCalls(step)) {
+    const tool = readString(call, "tool");
+    const locations = Array.isArray(call["failureLocations"])
+      ? call["failureLocations"].filter((location): location is string => typeof location === "string" && location.trim().length > 0)
+      : [];
+    if (!tool || readString(call, "status") !== "failed" || locations.length === 0) continue;
+    const command = readString(call, "command");
+    return { tool, ...(command ? { command } : {}), locations };
+  }
+  return undefined;
+}
+
+function extractApprovalDeniedCall(step: StepSummary): Record<string, unknown> | undefined {
+  return evidenceToolCalls(step).find((call) => readString(call, "code") === "TOOL_APPROVAL_DENIED");
+}
+
 function evidenceToolCalls(step: StepSummary): Record<string, unknown>[] {
   const source = readRecord(step.evidenceSource);
   const calls = source && Array.isArray(source["toolCalls"]) ? source["toolCalls"] : [];
@@ -19,6 +19,8 @@ export type RepairCode =
   | "R_NO_PROGRESS"
   | "R_EDIT_TARGET_RECOVERY"
   | "R_EDIT_ESCALATE_TO_GUARDED_REWRITE"
+  | "R_TEST_FAILURE_RECOVERY"
+  | "R_TOOL_APPROVAL_DENIED"
   | "R_DUPLICATE_READ"
   | "R_MUTATION_EXPECTED_AFTER_CONTEXT"
   | "R_MODE_TRANSITION_INVALID"
@@ -107,6 +109,8 @@ export const REPAIR_CODES: readonly RepairCode[] = [
   "R_NO_PROGRESS",
   "R_EDIT_TARGET_RECOVERY",
   "R_EDIT_ESCALATE_TO_GUARDED_REWRITE",
+  "R_TEST_FAILURE_RECOVERY",
+  "R_TOOL_APPROVAL_DENIED",
   "R_DUPLICATE_READ",
   "R_MUTATION_EXPECTED_AFTER_CONTEXT",
   "R_MODE_TRANSITION_INVALID",
@@ -341,6 +345,29 @@ export const REPAIR_CODE_CATALOG: Readonly<Record<RepairCode, RepairCatalogEntry
     ],
     modelFacing: true,
   },
+  R_TEST_FAILURE_RECOVERY: {
+    code: "R_TEST_FAILURE_RECOVERY",
+    severity: "repairable",
+    source: "runner.test_recovery",
+    message: "A test, typecheck, lint, or build command failed and its output was parsed into exact failing locations.",
+    allowedNextActions: [
+      "Read the reported file and line before changing code; fix the first failing location before the rest.",
+      "Rerun the same command after the fix instead of a broader or different command.",
+    ],
+    modelFacing: true,
+  },
+  R_TOOL_APPROVAL_DENIED: {
+    code: "R_TOOL_APPROVAL_DENIED",
+    severity: "repairable",
+    source: "runner.tool_approval",
+    message: "The user did not approve a destructive or external-effect tool call, so it did not run.",
+    allowedNextActions: [
+      "Do not retry the denied call or an equivalent call with the same effect in this run.",
+      "Continue with read-only or non-destructive work if it still satisfies the request.",
+      "Otherwise respond to the user with what was not done and what approval it would need.",
+    ],
+    modelFacing: true,
+  },
   R_DUPLICATE_READ: {
     code: "R_DUPLICATE_READ",
     severity: "repairable",
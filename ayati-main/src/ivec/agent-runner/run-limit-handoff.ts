@@ -1,6 +1,6 @@
 import type { VerifiedFilesystemResourceEffect } from "ayati-context-engine";
 import { compactText, compactWorkState } from "../state-compaction.js";
-import type { LoopState, StepSummary, WorkState } from "../types.js";
+import type { LoopState, RunBudgetExhaustion, StepSummary, WorkState } from "../types.js";
 import { buildVerifiedResourceEffects } from "./verified-resource-effects.js";
 
 const MAX_RESPONSE_ITEMS = 4;
@@ -17,10 +17,12 @@ export interface RunLimitHandoff {
 /**
  * Close an exhausted run from exact runtime evidence without another model
  * call. This is a partial-progress handoff, not task-completion validation.
+ * Passing `budget` describes a cost-budget stop instead of the decision limit.
  */
 export function buildRunLimitHandoff(
   state: LoopState,
   maxIterations: number,
+  budget?: RunBudgetExhaustion,
 ): RunLimitHandoff {
   const effects = buildVerifiedResourceEffects(state);
   const verifiedSteps = state.completedSteps.filter(isVerifiedSuccessfulStep);
@@ -37,7 +39,7 @@ export function buildRunLimitHandoff(
     || selectedRequest?.request?.trim()
     || state.userMessage.trim()
     || "Continue from the latest verified state.";
-  const summary = handoffSummary(effects.length, verifiedSteps.length);
+  const summary = handoffSummary(effects.length, verifiedSteps.length, budget ? budgetKind(budget) : "decision limit");
   const workState = compactWorkState({
     ...state.workState,
     status: "in_progress",
@@ -57,7 +59,7 @@ export function buildRunLimitHandoff(
 
   return {
     response: buildResponse({
-      maxIterations,
+      limit: budget ? describeBudget(budget) : `the ${maxIterations}-decision limit`,
       completed,
       pending,
       nextAction,
@@ -109,14 +111,30 @@ function pendingWork(
   return state.userMessage.trim() ? [state.userMessage.trim()] : [];
 }
 
-function handoffSummary(effectCount: number, verifiedStepCount: number): string {
+function handoffSummary(effectCount: number, verifiedStepCount: number, limit: string): string {
   if (effectCount > 0) {
-    return `Run paused at the decision limit after preserving ${effectCount} verified resource ${effectCount === 1 ? "effect" : "effects"}.`;
+    return `Run paused at the ${limit} after preserving ${effectCount} verified resource ${effectCount === 1 ? "effect" : "effects"}.`;
   }
   if (verifiedStepCount > 0) {
-    return `Run paused at the decision limit after ${verifiedStepCount} verified task ${verifiedStepCount === 1 ? "step" : "steps"}; no verified filesystem change was recorded.`;
+    return `Run paused at the ${limit} after ${verifiedStepCount} verified task ${verifiedStepCount === 1 ? "step" : "steps"}; no verified filesystem change was recorded.`;
   }
-  return "Run paused at the decision limit before any task action was durably verified.";
+  return `Run paused at the ${limit} before any task action was durably verified.`;
+}
+
+function budgetKind(budget: RunBudgetExhaustion): string {
+  return budget.unit === "usd" ? "spending budget" : "token budget";
+}
+
+function describeBudget(budget: RunBudgetExhaustion): string {
+  const owner = budget.scope === "run"
+    ? "this run's"
+    : budget.scope === "workstream"
+      ? "this workstream's"
+      : "today's";
+  const amount = budget.unit === "usd"
+    ? `$${budget.limit.toFixed(2)}`
+    : `${budget.limit}-token`;
+  return `${owner} ${amount} ${budgetKind(budget)}`;
 }
 
 function appendEffectEvidence(
@@ -136,7 +154,7 @@ function appendEffectEvidence(
 }
 
 function buildResponse(input: {
-  maxIterations: number;
+  limit: string;
   completed: string[];
   pending: string[];
   nextAction: string;
@@ -144,7 +162,7 @@ function buildResponse(input: {
   requestId?: string;
 }): string {
   const sections = [
-    `I reached the ${input.maxIterations}-decision limit and safely paused this run.`,
+    `I reached ${input.limit} and safely paused this run.`,
     input.completed.length > 0
       ? `Completed and verified:\n${bullets(input.completed)}`
       : "Completed and verified: No task action was durably verified in this run.",
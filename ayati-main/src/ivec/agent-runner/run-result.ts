@@ -334,6 +334,7 @@ function deriveStopReason(
 ): AgentWorkstreamSummaryRecord["stopReason"] {
   if (state.contextLimitReached) return "context_limit";
   if (state.runLimitReached) return "run_limit";
+  if (state.budgetExhausted) return "budget_exhausted";
   if (state.workState.status === "needs_user_input") return "needs_user_input";
   if (state.workState.status === "blocked") return "blocked";
   if (status === "failed") return "failed";
@@ -13,6 +13,8 @@ import type {
   CompletionDirective,
   LoopConfig,
   LoopState,
+  RunBudgetExhaustion,
+  RunSpend,
   WorkState,
 } from "../types.js";
 import {
@@ -27,6 +29,7 @@ import {
   recordRunMetric,
   recordStateSizeMetric,
   recordVerificationMetric,
+  summarizeRunSpend,
 } from "../metrics.js";
 import {
   buildLoopStateSizeBreakdown,
@@ -305,8 +308,45 @@ export async function runAgentLoop(
       content: input.content,
       completion: input.completion,
       responseKind: input.responseKind,
+      spend: summarizeRunSpend(metrics),
     });
   };
+  const cancelRun = async (): Promise<AgentLoopResult> => {
+    state.cancelled = true;
+    state.status = "failed";
+    state.workState = {
+      ...state.workState,
+      summary: state.workState.summary === "Run started."
+        ? "The run was cancelled before it finished."
+        : state.workState.summary,
+      nextAction: state.workState.nextAction
+        || "Resume from the latest verified state only if the user asks to continue.",
+    };
+    state.finalOutput = "Run cancelled. Work completed before the cancellation was kept.";
+    recordFeedback(deps, inputHandle, runHandle.runId, "guard", "run_cancelled", {
+      iteration: state.iteration,
+    });
+    return await finalize({ status: "failed", content: state.finalOutput });
+  };
+  const stopForBudget = async (exhaustion: RunBudgetExhaustion): Promise<AgentLoopResult> => {
+    const handoff = buildRunLimitHandoff(state, config.maxIterations, exhaustion);
+    state.budgetExhausted = true;
+    state.status = "stuck";
+    state.workState = handoff.workState;
+    state.finalOutput = handoff.response;
+    recordFeedback(deps, inputHandle, runHandle.runId, "guard", "budget_exhausted_handoff", {
+      iteration: state.iteration,
+      ...exhaustion,
+      verifiedEffectCount: handoff.verifiedEffectCount,
+      verifiedStepCount: handoff.verifiedStepCount,
+      workstreamBound: handoff.bound,
+      ...(handoff.requestId ? { requestId: handoff.requestId } : {}),
+      nextAction: handoff.workState.nextAction,
+    });
+    return await finalize({ status: "stuck", content: state.finalOutput });
+  };
+  let spendAtIterationStart: RunSpend = { usd: 0, tokens: 0 };
+  let largestIterationSpend: RunSpend = { usd: 0, tokens: 0 };
   const finalizeAcceptedTerminalStop = async (
     stop: Extract<TerminalStopResult, { accepted: true }>,
   ): Promise<AgentLoopResult> => {
@@ -372,10 +412,26 @@ export async function runAgentLoop(
     && state.iteration - (state.runContextMaintenanceBudgetCredits ?? 0) < config.maxIterations
   ) {
     if (deps.signal?.aborted) {
-      state.interrupted = true;
-      state.status = "failed";
-      state.finalOutput = "Agent was stopped.";
-      return finalize({ status: "failed", content: state.finalOutput });
+      return await cancelRun();
+    }
+    if (deps.budget) {
+      // The costliest decision so far stands in for the next one, so a run stops before crossing a limit.
+      const spent = summarizeRunSpend(metrics);
+      largestIterationSpend = {
+        usd: Math.max(largestIterationSpend.usd, spent.usd - spendAtIterationStart.usd),
+        tokens: Math.max(largestIterationSpend.tokens, spent.tokens - spendAtIterationStart.tokens),
+      };
+      spendAtIterationStart = spent;
+      const exhaustion = deps.budget.check({
+        spent,
+        projected: largestIterationSpend,
+        ...(state.harnessContext.contextEngine?.current.routing?.workstreamId
+          ? { workstreamId: state.harnessContext.contextEngine.current.routing.workstreamId }
+          : {}),
+      });
+      if (exhaustion) {
+        return await stopForBudget(exhaustion);
+      }
     }
 
     syncHarnessContext(state, deps, inputHandle);
@@ -526,6 +582,7 @@ export async function runAgentLoop(
           runId: runHandle.runId,
         },
         imageInputs: managedImageInputs(deps.provider, state),
+        ...(deps.signal ? { signal: deps.signal } : {}),
         onContextCompilation: (receipt) => {
           state.contextPressure = updateContextPressureState({
             current: state.contextPressure,
@@ -535,6 +592,9 @@ export async function runAgentLoop(
         },
       });
     } catch (error) {
+      if (deps.signal?.aborted) {
+        return await cancelRun();
+      }
       if (!(error instanceof ContextRunCapacityError || error instanceof ContextInputLimitError)) {
         const handoff = buildRunFailureHandoff(state, error);
         state.status = "failed";
@@ -1456,11 +1516,15 @@ function managedImageInputs(
 ): LlmImageContentPart[] | undefined {
   if (provider.capabilities.imageInput !== true) return undefined;
   const images = (state.managedFiles ?? []).flatMap((file): LlmImageContentPart[] => {
-    if (file.kind !== "image" || !file.mimeType?.startsWith("image/")) return [];
+    if (file.kind !== "image") return [];
+    // Prefer the prepared preview: downscaled, upright, and without EXIF location data.
+    const imagePath = file.imagePreview?.path ?? file.storagePath;
+    const mimeType = file.imagePreview?.mimeType ?? file.mimeType;
+    if (!mimeType?.startsWith("image/")) return [];
     return [{
       type: "image",
-      imagePath: file.storagePath,
-      mimeType: file.mimeType,
+      imagePath,
+      mimeType,
       name: file.originalName,
     }];
   });
@@ -1476,6 +1540,7 @@ function buildLoopResult(
     content?: string;
     completion?: CompletionDirective;
     responseKind?: AgentLoopResult["type"];
+    spend: RunSpend;
   },
 ): AgentLoopResult {
   const content = input.content ?? input.completion?.summary ?? state.finalOutput;
@@ -1494,6 +1559,7 @@ function buildLoopResult(
     workState: state.workState,
     completedSteps: state.completedSteps,
     harnessContext: state.harnessContext,
+    spend: input.spend,
   };
 
   if (isWorkstreamBound(state)) {
@@ -1515,8 +1581,8 @@ function deriveRunTerminal(
   state: LoopState,
   status: AgentLoopResult["status"],
 ): Pick<AgentLoopResult, "outcome" | "stopReason"> {
-  if (state.interrupted) {
-    return { outcome: "incomplete", stopReason: "interrupted" };
+  if (state.cancelled) {
+    return { outcome: "cancelled", stopReason: "cancelled" };
   }
   if (state.contextLimitReached) {
     return { outcome: "incomplete", stopReason: "context_limit" };
@@ -1524,6 +1590,9 @@ function deriveRunTerminal(
   if (state.runLimitReached) {
     return { outcome: "incomplete", stopReason: "run_limit" };
   }
+  if (state.budgetExhausted) {
+    return { outcome: "incomplete", stopReason: "budget_exhausted" };
+  }
   if (state.workState.status === "needs_user_input") {
     return { outcome: "needs_user_input", stopReason: "needs_user_input" };
   }
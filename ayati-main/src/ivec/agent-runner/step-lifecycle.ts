@@ -225,7 +225,7 @@ function selectedSourceFields(value: unknown): Record<string, unknown> {
   }
   const record = value as Record<string, unknown>;
   const output: Record<string, unknown> = {};
-  for (const key of ["path", "filePath", "dirPath", "cwd", "query", "pattern", "cmd", "command", "scriptPath", "exitCode", "timedOut", "matchCount", "patchIndex", "failedEditIndex", "mode"] as const) {
+  for (const key of ["path", "filePath", "dirPath", "cwd", "query", "pattern", "cmd", "command", "scriptPath", "exitCode", "timedOut", "matchCount", "patchIndex", "failedEditIndex", "mode", "failureLocations"] as const) {
     const selected = compactSourceValue(record[key]);
     if (selected !== undefined) {
       output[key] = selected;
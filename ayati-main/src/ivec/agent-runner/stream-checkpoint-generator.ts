@@ -7,7 +7,7 @@ import {
   type ContextCheckpointSummary,
 } from "ayati-context-engine";
 import type { LlmProvider } from "../../core/contracts/provider.js";
-import type { LlmCostEstimate, LlmTokenUsage } from "../../core/contracts/llm-protocol.js";
+import type { LlmCostEstimate, LlmServedBy, LlmTokenUsage } from "../../core/contracts/llm-protocol.js";
 import { correctLocalInputTokenEstimate } from "../../prompt/context-token-counter.js";
 import { estimateTurnInputTokens } from "../../prompt/token-estimator.js";
 import { AGENT_STREAM_CHECKPOINT_SUMMARY_SCHEMA } from "./agent-context-events.js";
@@ -29,6 +29,7 @@ export interface StreamCheckpointGenerationAttempt {
   errors: string[];
   usage?: LlmTokenUsage;
   cost?: LlmCostEstimate;
+  servedBy?: LlmServedBy;
 }
 
 export interface StreamCheckpointGenerationResult {
@@ -90,6 +91,7 @@ export async function generateStreamCheckpoint(input: {
         strict: true,
       },
       maxOutputTokens: maximumTokens,
+      modelRole: "stream_checkpoint",
     } as const;
     const correctedInputTokens = correctLocalInputTokenEstimate(
       estimateTurnInputTokens(turnInput).totalTokens,
@@ -121,6 +123,7 @@ export async function generateStreamCheckpoint(input: {
         errors,
         usage: response.usage,
         cost: response.cost,
+        servedBy: response.servedBy,
       });
       return fallbackResult(input.plan, attempts, errors[0]!, maximumTokens);
     }
@@ -141,6 +144,7 @@ export async function generateStreamCheckpoint(input: {
         errors,
         usage: response.usage,
         cost: response.cost,
+        servedBy: response.servedBy,
       });
       return fallbackResult(input.plan, attempts, errors.join("; "), maximumTokens, modelTokenCount);
     }
@@ -156,6 +160,7 @@ export async function generateStreamCheckpoint(input: {
         errors,
         usage: response.usage,
         cost: response.cost,
+        servedBy: response.servedBy,
       });
       const fitted = fitCheckpointToBudget({
         summary: parsed.summary,
@@ -183,6 +188,7 @@ export async function generateStreamCheckpoint(input: {
       errors: [],
       usage: response.usage,
       cost: response.cost,
+      servedBy: response.servedBy,
     });
     return {
       status: "success",
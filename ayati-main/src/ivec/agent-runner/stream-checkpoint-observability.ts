@@ -1,6 +1,7 @@
 import type { RunMetrics } from "../metrics.js";
 import {
   recordOptimizationEvent,
+  recordProviderRouteMetric,
   recordProviderUsageMetric,
   recordRunMetric,
 } from "../metrics.js";
@@ -55,6 +56,7 @@ export function recordStreamCheckpointObservability(input: {
       attempt.usage,
       attempt.cost,
     );
+    recordProviderRouteMetric(input.metrics, "context_stream_checkpoint", attempt.servedBy);
   }
 
   if (input.compilation.receipt.mode !== "stream_checkpoint") return;
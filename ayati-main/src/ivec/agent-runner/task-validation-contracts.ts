@@ -18,6 +18,8 @@ export const TASK_VALIDATION_OUTCOME_KINDS = [
   "database.read_succeeded",
   "database.mutation_succeeded",
   "process.exit_success",
+  "tests.all_passed",
+  "git.mutation_succeeded",
   "python.execution_succeeded",
   "memory.read_succeeded",
   "memory.change_succeeded",
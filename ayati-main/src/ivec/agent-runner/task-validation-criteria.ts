@@ -4,11 +4,15 @@ import type {
 } from "ayati-context-engine";
 import type { LoopState } from "../types.js";
 import type {
+  ModeTransitionValidationCheck,
   ValidationCheckResult,
   ValidationCriterionProofSelection,
 } from "./task-validation-contracts.js";
 import { validationCompletionReceiptValue } from "./work-state/completion-receipts.js";
 
+// Criteria such as "all tests pass" need parsed test results, not just a zero exit code.
+const TESTS_PASS_CRITERION = /\btests?(?:\s+suite)?\s+(?:(?:all|are|is|still|must|should|now)\s+)*(?:pass(?:es|ed|ing)?|succeed(?:s|ed)?|green)\b/i;
+
 export interface ValidationCriterionProofIssue {
   message: string;
   subjects: string[];
@@ -19,6 +23,7 @@ export function validateCriterionProofSelections(input: {
   acceptance: readonly string[];
   outcomeRefs: readonly string[];
   selections: readonly ValidationCriterionProofSelection[];
+  checks?: readonly ModeTransitionValidationCheck[];
 }): ValidationCriterionProofIssue | undefined {
   if (input.acceptance.length === 0) {
     return input.selections.length === 0
@@ -38,6 +43,9 @@ export function validateCriterionProofSelections(input: {
   }
 
   const selectedRefs = new Set(input.outcomeRefs);
+  const checkKinds = new Map((input.checks ?? []).flatMap((check) => (
+    check.outcomeRef ? [[check.outcomeRef, check.kind] as const] : []
+  )));
   const seenCriteria = new Set<number>();
   for (const selection of input.selections) {
     if (
@@ -81,6 +89,20 @@ export function validateCriterionProofSelections(input: {
         ["Use only exact refs already included in this decision's outcomeRefs."],
       );
     }
+    if (
+      input.checks
+      && TESTS_PASS_CRITERION.test(input.acceptance[selection.criterionIndex] ?? "")
+      && !selection.outcomeRefs.some((outcomeRef) => checkKinds.get(outcomeRef) === "tests.all_passed")
+    ) {
+      return issue(
+        `Criterion index ${selection.criterionIndex} requires passing tests, but no selected outcome proves every test passed.`,
+        selection.outcomeRefs,
+        [
+          "Run the project's test command with process_run so its results can be parsed, then select the resulting tests.all_passed outcomeRef.",
+          "If the runner's output is not recognized, rerun it with a machine-readable reporter such as --reporter=json or --junitxml.",
+        ],
+      );
+    }
   }
 
   const missing = input.acceptance
@@ -23,6 +23,8 @@ const VERIFIED_FACT_OUTCOMES: Readonly<Record<string, TaskValidationOutcomeKind>
   database_read: "database.read_succeeded",
   database_mutated: "database.mutation_succeeded",
   process_exit_success: "process.exit_success",
+  tests_passed: "tests.all_passed",
+  git_mutation_verified: "git.mutation_succeeded",
   python_execution_succeeded: "python.execution_succeeded",
   memory_read_completed: "memory.read_succeeded",
   memory_change_completed: "memory.change_succeeded",
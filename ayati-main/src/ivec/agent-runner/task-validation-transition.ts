@@ -52,6 +52,7 @@ export function prepareTaskValidationTransition(input: {
     acceptance: input.acceptance ?? [],
     outcomeRefs: input.request.outcomeRefs ?? [],
     selections: input.request.criterionProofs ?? [],
+    checks: selection.checks,
   });
   if (criterionIssue) {
     return {
@@ -29,13 +29,10 @@ export function buildToolProjectionMetadata(tool: string, structuredContent: unk
     });
   }
   if (tool === "search_in_files") {
-    const resultMode = structuredContent["resultMode"] === "snippets"
-      ? "snippets"
-      : structuredContent["resultMode"] === "count"
-        ? "count"
-        : "paths";
+    const showsText = structuredContent["resultMode"] === "snippets"
+      || structuredContent["resultMode"] === "ranked";
     return sanitizeRecord(structuredContent, {
-      dropKeys: resultMode === "snippets"
+      dropKeys: showsText
         ? new Set(["observation"])
         : new Set(["observation", "before", "match", "after"]),
       maxArrayItems: 40,
@@ -64,6 +61,7 @@ export function buildToolProjectionMetadata(tool: string, structuredContent: unk
       "rawOutputChars",
       "blockedPattern",
       "reason",
+      "testReport",
     ], 4_000);
   }
   if (WRITE_TOOLS.has(tool)) {
@@ -82,7 +80,7 @@ export function buildToolProjectionMetadata(tool: string, structuredContent: unk
       "hasMore",
     ], 1_000);
   }
-  if (tool === "git_read" || tool.startsWith("git_context_")) {
+  if (tool === "git_read" || tool === "git_write" || tool.startsWith("git_context_")) {
     return sanitizeRecord(structuredContent, {
       dropKeys: new Set(["content", "observation", "rawOutput"]),
       maxArrayItems: 30,
@@ -1,4 +1,4 @@
-import { omitFields, projectStructuredCall, readCommand, readMetadata } from "./shared.js";
+import { isRecord, omitFields, projectStructuredCall, readCommand, readMetadata } from "./shared.js";
 import type { ToolContextProjector } from "./types.js";
 
 const PROCESS_TOOLS = new Set(["process_run"]);
@@ -7,10 +7,13 @@ const TEST_BUILD_COMMAND = /(^|\s)(test|vitest|jest|pytest|cargo\s+test|go\s+tes
 export const testBuildProjector: ToolContextProjector = {
   id: "test_build_v1",
   supports(call) {
-    return PROCESS_TOOLS.has(call.tool) && TEST_BUILD_COMMAND.test(readCommand(call.input));
+    return PROCESS_TOOLS.has(call.tool)
+      && (TEST_BUILD_COMMAND.test(readCommand(call.input)) || isRecord(readMetadata(call)["testReport"]));
   },
   project(call, mode) {
     const command = readCommand(call.input);
+    const metadata = readMetadata(call);
+    const report = metadata["testReport"];
     return projectStructuredCall({
       projectorId: this.id,
       call,
@@ -21,7 +24,8 @@ export const testBuildProjector: ToolContextProjector = {
         category: "test_or_build",
         status: call.status,
         command,
-        result: omitFields(readMetadata(call), ["stdoutPreview", "stderrPreview", "outputPreview"]),
+        ...(isRecord(report) ? { report } : {}),
+        result: omitFields(metadata, ["stdoutPreview", "stderrPreview", "outputPreview", "testReport"]),
         ...(call.code ? { code: call.code } : {}),
         ...(call.error ? { error: call.error } : {}),
       },
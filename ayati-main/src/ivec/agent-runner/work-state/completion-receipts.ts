@@ -119,6 +119,10 @@ export function validationCompletionReceiptValue(check: ValidationCheckResult):
       return bounded(`Verified the database change ${subject}.`);
     case "process.exit_success":
       return bounded(`Verified successful process completion for ${subject}.`);
+    case "tests.all_passed":
+      return bounded(`Verified from parsed test results that every test passed for ${subject}.`);
+    case "git.mutation_succeeded":
+      return bounded(`Verified the Git change ${subject}.`);
     case "python.execution_succeeded":
       return bounded(`Verified successful Python execution for ${subject}.`);
     case "memory.read_succeeded":
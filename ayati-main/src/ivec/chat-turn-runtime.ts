@@ -4,9 +4,16 @@ export interface ChatTurnRuntimeInput {
   clientId: string;
   replyClientId?: string;
   messageId?: string;
-  channel?: "cli" | "desktop" | "voice" | "unknown";
+  channel?: "cli" | "desktop" | "voice" | "scheduled" | "unknown";
+  /** Workstream to bind before the agent starts, such as the one a schedule continues. */
+  boundWorkstream?: { workstreamId: string; requestId?: string };
+  /** Approval-gated tools this run may use without asking. */
+  preApprovedTools?: string[];
   content: string;
   attachments: ChatAttachmentInput[];
+  /** Aborted when a client cancels this chat; the run finalizes with a cancelled outcome. */
+  signal?: AbortSignal;
+  onRunStarted?: (runId: string) => void;
 }
 
 export interface ChatTurnRuntime {
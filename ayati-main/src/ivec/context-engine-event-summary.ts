@@ -26,7 +26,7 @@ interface WorkstreamLifecycle {
   };
   finalization?: {
     status?: "not_started" | "started" | "not_required" | "no_change" | "committed" | "failed";
-    outcome?: "done" | "incomplete" | "failed" | "blocked" | "needs_user_input";
+    outcome?: "done" | "incomplete" | "failed" | "blocked" | "needs_user_input" | "cancelled";
     validation?: "passed" | "failed" | "not_applicable";
     commit?: string;
     commitCreated?: boolean;
@@ -54,8 +54,8 @@ interface ContextEngineEventSummary {
   commit?: string;
   resourceCount?: number;
   workstreamBound?: boolean;
-  runOutcome?: "done" | "incomplete" | "failed" | "blocked" | "needs_user_input";
-  stopReason?: "completed" | "run_limit" | "context_limit" | "failed" | "blocked" | "needs_user_input" | "interrupted";
+  runOutcome?: "done" | "incomplete" | "failed" | "blocked" | "needs_user_input" | "cancelled";
+  stopReason?: "completed" | "run_limit" | "budget_exhausted" | "context_limit" | "failed" | "blocked" | "needs_user_input" | "interrupted" | "cancelled";
   commitStatus?: "not_required" | "no_change" | "committed";
   headBefore?: string;
   headAfter?: string;
@@ -5,13 +5,15 @@ import type { StaticContext } from "../context/static-context-cache.js";
 import { estimateTextTokens } from "../prompt/token-estimator.js";
 import { devError, devLog, devWarn } from "../shared/index.js";
 import { AgentRunQueue } from "./agent-run-queue.js";
-import type { ChatTurnRuntime } from "./chat-turn-runtime.js";
-import type { ChatAttachmentInput, ChatInboundMessage } from "./types.js";
+import type { ChatTurnRuntime, ChatTurnRuntimeInput } from "./chat-turn-runtime.js";
+import type { ChatAttachmentInput, ChatInboundMessage, RunBudgetRemaining } from "./types.js";
 
 export interface IVecEngineOptions {
   provider?: LlmProvider;
   staticContext?: StaticContext;
   chatTurnRuntime?: ChatTurnRuntime;
+  /** Budget headroom reported when a chat is accepted, before any workstream is bound. */
+  budgetRemaining?: () => RunBudgetRemaining | undefined;
 }
 
 export interface ChatIngressReceipt {
@@ -19,18 +21,52 @@ export interface ChatIngressReceipt {
   messageId: string;
   queued: boolean;
   queuePosition: number;
+  budget?: RunBudgetRemaining;
   duplicate?: true;
 }
 
 export interface ChatRunSettled {
   messageId: string;
-  status: "completed" | "failed";
+  status: "completed" | "failed" | "cancelled";
   error?: string;
 }
 
+export interface RunCancellationRequest {
+  messageId?: string;
+  runId?: string;
+}
+
+export interface RunCancellationReceipt {
+  type: "cancel_run_result";
+  status: "cancelling" | "not_found";
+  messageId?: string;
+  runId?: string;
+  /** True when the chat had not started yet; it will finalize as cancelled as soon as it is dequeued. */
+  queued?: boolean;
+}
+
+/** Queue snapshot for clients; `activeRun` is the chat the agent is working on right now. */
+export interface RunQueueStatus {
+  queued: number;
+  activeRun?: {
+    messageId: string;
+    runId?: string;
+    cancelling?: true;
+  };
+}
+
+interface TrackedChatRun {
+  messageId: string;
+  controller: AbortController;
+  runId?: string;
+  started?: boolean;
+}
+
 export interface MessageIngressContext {
   replyClientId?: string;
-  channel?: "cli" | "desktop" | "voice" | "unknown";
+  channel?: "cli" | "desktop" | "voice" | "scheduled" | "unknown";
+  boundWorkstream?: ChatTurnRuntimeInput["boundWorkstream"];
+  preApprovedTools?: string[];
   onSettled?: (result: ChatRunSettled) => void;
 }
 
@@ -40,8 +76,10 @@ export class IVecEngine {
   private readonly provider?: LlmProvider;
   private readonly staticContext?: StaticContext;
   private readonly chatTurnRuntime?: ChatTurnRuntime;
+  private readonly budgetRemaining?: () => RunBudgetRemaining | undefined;
   private readonly runQueue = new AgentRunQueue();
   private readonly recentChatReceipts = new Map<string, ChatIngressReceipt>();
+  private readonly chatRuns = new Map<string, TrackedChatRun>();
   private staticSystemTokens = 0;
   private staticTokensReady = false;
 
@@ -49,6 +87,7 @@ export class IVecEngine {
     this.provider = options?.provider;
     this.staticContext = options?.staticContext;
     this.chatTurnRuntime = options?.chatTurnRuntime;
+    this.budgetRemaining = options?.budgetRemaining;
   }
 
   async start(): Promise<void> {
@@ -94,25 +133,39 @@ export class IVecEngine {
     if (previousReceipt) return { ...previousReceipt, duplicate: true };
 
     const queued = this.runQueue.isBusy();
+    const budget = this.budgetRemaining?.();
     const receipt: ChatIngressReceipt = {
       type: "chat_accepted",
       messageId,
       queued,
       queuePosition: this.runQueue.size() + 1,
+      ...(budget ? { budget } : {}),
     };
     this.rememberChatReceipt(receiptKey, receipt);
+    const tracked: TrackedChatRun = { messageId, controller: new AbortController() };
+    this.chatRuns.set(messageId, tracked);
 
     void this.enqueueChat(clientId, async () => {
+      tracked.started = true;
       await this.chatTurnRuntime!.processChat({
         clientId,
         ...(ingress?.replyClientId ? { replyClientId: ingress.replyClientId } : {}),
         messageId,
         ...(ingress?.channel ? { channel: ingress.channel } : {}),
+        ...(ingress?.boundWorkstream ? { boundWorkstream: ingress.boundWorkstream } : {}),
+        ...(ingress?.preApprovedTools?.length ? { preApprovedTools: ingress.preApprovedTools } : {}),
         content: message.content,
         attachments: message.attachments ?? [],
+        signal: tracked.controller.signal,
+        onRunStarted: (runId) => {
+          tracked.runId = runId;
+        },
       });
     }).then(
-      () => this.notifyChatSettled(ingress?.onSettled, { messageId, status: "completed" }),
+      () => this.notifyChatSettled(ingress?.onSettled, {
+        messageId,
+        status: tracked.controller.signal.aborted ? "cancelled" : "completed",
+      }),
       (error: unknown) => {
         devError("Unhandled chat processing failure:", error);
         this.notifyChatSettled(ingress?.onSettled, {
@@ -121,10 +174,54 @@ export class IVecEngine {
           error: error instanceof Error ? error.message : String(error),
         });
       },
-    );
+    ).finally(() => {
+      if (this.chatRuns.get(messageId) === tracked) this.chatRuns.delete(messageId);
+    });
     return receipt;
   }
 
+  runQueueStatus(): RunQueueStatus {
+    const active = [...this.chatRuns.values()].find((entry) => entry.started);
+    return {
+      queued: Math.max(0, this.runQueue.size() - (active ? 1 : 0)),
+      ...(active
+        ? {
+            activeRun: {
+              messageId: active.messageId,
+              ...(active.runId ? { runId: active.runId } : {}),
+              ...(active.controller.signal.aborted ? { cancelling: true as const } : {}),
+            },
+          }
+        : {}),
+    };
+  }
+
+  /** Aborts a queued or running chat by its ingress message ID or its run ID, from any client. */
+  cancelRun(request: RunCancellationRequest): RunCancellationReceipt {
+    const tracked = request.messageId
+      ? this.chatRuns.get(request.messageId)
+      : [...this.chatRuns.values()].find((entry) => entry.runId === request.runId);
+    if (!tracked || (request.runId && tracked.runId && tracked.runId !== request.runId)) {
+      return {
+        type: "cancel_run_result",
+        status: "not_found",
+        ...(request.messageId ? { messageId: request.messageId } : {}),
+        ...(request.runId ? { runId: request.runId } : {}),
+      };
+    }
+    if (!tracked.controller.signal.aborted) {
+      devLog(`Cancelling chat message=${tracked.messageId} run=${tracked.runId ?? "queued"}`);
+      tracked.controller.abort();
+    }
+    return {
+      type: "cancel_run_result",
+      status: "cancelling",
+      messageId: tracked.messageId,
+      ...(tracked.runId ? { runId: tracked.runId } : {}),
+      ...(tracked.runId ? {} : { queued: true }),
+    };
+  }
+
   private async enqueueChat(clientId: string, work: () => Promise<void>): Promise<void> {
     const queued = this.runQueue.isBusy();
     const position = this.runQueue.size() + 1;
@@ -188,6 +285,18 @@ function asRecord(value: unknown): Record<string, unknown> | null {
   return value as Record<string, unknown>;
 }
 
+export function parseRunCancellationRequest(data: unknown): RunCancellationRequest | null {
+  const payload = asRecord(data);
+  if (!payload || payload["type"] !== "cancel_run") return null;
+  const messageId = asBoundedString(payload["messageId"], 128);
+  const runId = asBoundedString(payload["runId"], 128);
+  if (!messageId && !runId) return null;
+  return {
+    ...(messageId ? { messageId } : {}),
+    ...(runId ? { runId } : {}),
+  };
+}
+
 export function parseChatInboundMessage(data: unknown): ChatInboundMessage | null {
   const payload = asRecord(data);
   if (!payload || payload["type"] !== "chat" || typeof payload["content"] !== "string") return null;
@@ -1,5 +1,6 @@
-import type { LlmCostEstimate, LlmTokenUsage } from "../core/contracts/llm-protocol.js";
+import type { LlmCostEstimate, LlmServedBy, LlmTokenUsage } from "../core/contracts/llm-protocol.js";
 import { estimateTextTokens } from "../prompt/token-estimator.js";
+import type { RunSpend } from "./types.js";
 
 export type RunMetricKind = "llm" | "tool" | "local";
 export type RunMetricStatus = "success" | "failed";
@@ -48,6 +49,8 @@ export interface ProviderUsageMetricSummary {
   outputTokens: number;
   totalTokens: number;
   cachedInputTokens: number;
+  /** Share of input tokens served from the provider's prompt cache, from 0 to 1. */
+  cacheHitRatio: number;
   estimatedCostUsd: number;
   byModel: Record<string, {
     calls: number;
@@ -55,10 +58,18 @@ export interface ProviderUsageMetricSummary {
     outputTokens: number;
     totalTokens: number;
     cachedInputTokens: number;
+    cacheHitRatio: number;
     estimatedCostUsd: number;
   }>;
 }
 
+/** Which provider route answered each routed call, keyed by `provider:model`. */
+export interface ProviderRouteMetricSummary {
+  calls: number;
+  fallbackCalls: number;
+  servedBy: Record<string, number>;
+}
+
 export interface ContextGrowthPoint {
   call: number;
   totalChars: number;
@@ -103,6 +114,7 @@ export interface OptimizationMetricsSummary {
   compactions: Record<string, CompactionMetricSummary>;
   stateSizes: Record<string, StateSizeMetricSummary>;
   providerUsage: Record<string, ProviderUsageMetricSummary>;
+  providerRoutes: Record<string, ProviderRouteMetricSummary>;
   contextGrowth: Record<string, ContextGrowthMetricSummary>;
   planModes: Record<string, number>;
   verificationMethods: Record<string, number>;
@@ -139,6 +151,7 @@ export function createRunMetrics(): RunMetrics {
       compactions: {},
       stateSizes: {},
       providerUsage: {},
+      providerRoutes: {},
       contextGrowth: {},
       planModes: {},
       verificationMethods: {},
@@ -434,6 +447,7 @@ export function recordProviderUsageMetric(
     outputTokens: 0,
     totalTokens: 0,
     cachedInputTokens: 0,
+    cacheHitRatio: 0,
     estimatedCostUsd: 0,
     byModel: {},
   };
@@ -443,6 +457,7 @@ export function recordProviderUsageMetric(
   existing.outputTokens += Math.max(0, Math.round(usage.outputTokens));
   existing.totalTokens += Math.max(0, Math.round(usage.totalTokens));
   existing.cachedInputTokens += cachedInputTokens;
+  existing.cacheHitRatio = cacheHitRatio(existing.cachedInputTokens, existing.inputTokens);
   existing.estimatedCostUsd = roundUsd(existing.estimatedCostUsd + estimatedCostUsd);
 
   const modelKey = `${usage.provider}:${usage.model}`;
@@ -452,6 +467,7 @@ export function recordProviderUsageMetric(
     outputTokens: 0,
     totalTokens: 0,
     cachedInputTokens: 0,
+    cacheHitRatio: 0,
     estimatedCostUsd: 0,
   };
   byModel.calls++;
@@ -459,6 +475,7 @@ export function recordProviderUsageMetric(
   byModel.outputTokens += Math.max(0, Math.round(usage.outputTokens));
   byModel.totalTokens += Math.max(0, Math.round(usage.totalTokens));
   byModel.cachedInputTokens += cachedInputTokens;
+  byModel.cacheHitRatio = cacheHitRatio(byModel.cachedInputTokens, byModel.inputTokens);
   byModel.estimatedCostUsd = roundUsd(byModel.estimatedCostUsd + estimatedCostUsd);
   existing.byModel[modelKey] = byModel;
 
@@ -470,6 +487,51 @@ export function recordProviderUsageMetric(
   });
 }
 
+/** Totals every provider call the run has metered so far, across stages. */
+export function summarizeRunSpend(metrics: RunMetrics): RunSpend {
+  let usd = 0;
+  let tokens = 0;
+  for (const usage of Object.values(metrics.optimization.providerUsage)) {
+    usd += usage.estimatedCostUsd;
+    tokens += usage.totalTokens;
+  }
+  return { usd: roundUsd(usd), tokens };
+}
+
+/** Share of input tokens served from the prompt cache, rounded to four decimal places. */
+export function cacheHitRatio(cachedInputTokens: number, inputTokens: number): number {
+  if (inputTokens <= 0) {
+    return 0;
+  }
+  return Math.round(Math.min(1, cachedInputTokens / inputTokens) * 10_000) / 10_000;
+}
+
+export function recordProviderRouteMetric(
+  metrics: RunMetrics | undefined,
+  stage: string,
+  servedBy: LlmServedBy | undefined,
+): void {
+  if (!metrics || !servedBy) {
+    return;
+  }
+  const existing = metrics.optimization.providerRoutes[stage] ?? {
+    calls: 0,
+    fallbackCalls: 0,
+    servedBy: {},
+  };
+  const routeKey = `${servedBy.provider}:${servedBy.model}`;
+  existing.calls++;
+  existing.servedBy[routeKey] = (existing.servedBy[routeKey] ?? 0) + 1;
+  if (servedBy.fallbackFrom && servedBy.fallbackFrom.length > 0) {
+    existing.fallbackCalls++;
+    recordOptimizationEvent(metrics, "provider_fallback", {
+      stage,
+      ...servedBy,
+    });
+  }
+  metrics.optimization.providerRoutes[stage] = existing;
+}
+
 export function recordPlanModeMetric(
   metrics: RunMetrics | undefined,
   mode: string | undefined,
@@ -533,7 +595,17 @@ export function formatRunMetrics(metrics: RunMetrics): string {
     })
     .join(" | ");
 
-  return `total=${totalMs}ms llm_calls=${metrics.llmCalls} tool_calls=${metrics.toolCalls} local_decisions=${metrics.localDecisions}${stageSummary ? ` | ${stageSummary}` : ""}`;
+  let inputTokens = 0;
+  let cachedInputTokens = 0;
+  for (const usage of Object.values(metrics.optimization.providerUsage)) {
+    inputTokens += usage.inputTokens;
+    cachedInputTokens += usage.cachedInputTokens;
+  }
+  const cacheSummary = inputTokens > 0
+    ? ` cache_hit_ratio=${cacheHitRatio(cachedInputTokens, inputTokens)}`
+    : "";
+
+  return `total=${totalMs}ms llm_calls=${metrics.llmCalls} tool_calls=${metrics.toolCalls} local_decisions=${metrics.localDecisions}${cacheSummary}${stageSummary ? ` | ${stageSummary}` : ""}`;
 }
 
 function measureSections(sections: Record<string, string | number | undefined>): {
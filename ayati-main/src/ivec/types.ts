@@ -72,7 +72,7 @@ import type {
 
 export type WorkstreamSummaryRunStatus = "completed" | "failed" | "stuck";
 export type WorkstreamSummaryStatus = "open" | "done" | "blocked" | "needs_user_input";
-export type WorkstreamSummaryStopReason = "completed" | "needs_user_input" | "blocked" | "failed" | "stuck" | "context_limit" | "run_limit";
+export type WorkstreamSummaryStopReason = "completed" | "needs_user_input" | "blocked" | "failed" | "stuck" | "context_limit" | "run_limit" | "budget_exhausted";
 
 export interface WorkstreamSummaryFailureSummary {
   failedStep?: number;
@@ -273,7 +273,8 @@ export interface LoopState {
   runContextMaintenanceBudgetCredits?: number;
   contextLimitReached?: boolean;
   runLimitReached?: boolean;
-  interrupted?: boolean;
+  budgetExhausted?: boolean;
+  cancelled?: boolean;
   readProgress?: ReadProgressState;
   virtualMode: VirtualModeState;
   hotContext: HotContextProjection;
@@ -443,6 +444,8 @@ export interface AgentLoopResult {
   workState?: WorkState;
   completedSteps?: StepSummary[];
   harnessContext?: HarnessContext;
+  /** Estimated provider spend recorded by this run's metered LLM calls. */
+  spend?: RunSpend;
 }
 
 export type OnProgressCallback = (log: string, runPath: string) => void;
@@ -477,6 +480,39 @@ export interface AgentContextCheckpointCoordinator {
   currentContext(): ContextEngineMachineContext;
 }
 
+// --- Budgets ---
+
+export type RunBudgetScope = "run" | "workstream" | "day";
+export type RunBudgetUnit = "usd" | "tokens";
+
+export interface RunSpend {
+  usd: number;
+  tokens: number;
+}
+
+/** Headroom left per scope and unit; scopes without a configured limit are absent. */
+export type RunBudgetRemaining = Partial<Record<RunBudgetScope, Partial<Record<RunBudgetUnit, number>>>>;
+
+export interface RunBudgetExhaustion {
+  scope: RunBudgetScope;
+  unit: RunBudgetUnit;
+  limit: number;
+  spent: number;
+  projected: number;
+}
+
+/**
+ * Consulted before each decision. `projected` is the expected cost of the next decision; a
+ * non-null answer stops the run with `budget_exhausted` before the limit is crossed.
+ */
+export interface RunBudgetGate {
+  check(input: {
+    spent: RunSpend;
+    projected: RunSpend;
+    workstreamId?: string;
+  }): RunBudgetExhaustion | null;
+}
+
 // --- Deps ---
 
 export interface AgentLoopDeps {
@@ -525,6 +561,7 @@ export interface AgentLoopDeps {
   fileLibrary?: FileLibrary;
   directoryLibrary?: DirectoryLibrary;
   signal?: AbortSignal;
+  budget?: RunBudgetGate;
   onStuck?: (state: LoopState) => void;
 }
 
@@ -121,13 +121,58 @@ async function activateExistingWorkstream(
     proposal.resourceIds,
   );
   if (resourceFailure) return resourceFailure;
+  return await activateForRun(
+    options,
+    proposal.workstreamId,
+    expectedWorkstreamHead,
+    requestRoute(proposal.requestDecision),
+  );
+}
 
+/**
+ * Binds the run to a workstream fixed before the run started, such as the one a schedule
+ * continues, so routing does not depend on the model reading the prompt. Without a request ID
+ * the workstream's current request continues.
+ */
+export async function bindRunToWorkstream(
+  options: WorkstreamBindingCoordinatorOptions,
+  target: { workstreamId: string; requestId?: string },
+): Promise<DeterministicWorkstreamBindingOutcome> {
+  try {
+    const { workstream, context } = await options.service.getWorkstream({ workstreamId: target.workstreamId });
+    const current = context?.currentRequest;
+    const requestId = target.requestId ?? current?.id;
+    if (!requestId) {
+      return failed(
+        "WORKSTREAM_BINDING_REQUEST_REQUIRED",
+        `${target.workstreamId} has no current request to continue.`,
+        false,
+      );
+    }
+    const reason = "The run was started for this workstream request.";
+    const route: WorkstreamRequestRoute = current?.id !== requestId
+      ? { kind: "activate_existing", requestId, reason }
+      : current.status === "blocked"
+        ? { kind: "resume_blocked", requestId, reason }
+        : { kind: "continue_current", requestId, reason };
+    return await activateForRun(options, target.workstreamId, workstream.head, route);
+  } catch (error) {
+    return bindingFailure(error);
+  }
+}
+
+async function activateForRun(
+  options: WorkstreamBindingCoordinatorOptions,
+  workstreamId: string,
+  expectedWorkstreamHead: string,
+  route: WorkstreamRequestRoute,
+): Promise<DeterministicWorkstreamBindingOutcome> {
   const selected = await options.service.activateWorkstreamForRun({
     requestId: `${options.runId}:deterministic-bind`,
     runId: options.runId,
-    workstreamId: proposal.workstreamId,
+    workstreamId,
     expectedWorkstreamHead,
-    route: requestRoute(proposal.requestDecision),
+    route,
     at: (options.now ?? (() => new Date()))().toISOString(),
   });
   const context = await options.service.getAgentContext({
@@ -309,6 +309,7 @@ export class MemoryConsolidator {
     }, async () => await this.provider.generateTurn({
         messages: this.buildSectionMessages(payload, policy, sectionId, turns, chunkInfo),
         responseFormat: this.provider.capabilities.structuredOutput?.jsonObject ? { type: "json_object" } : undefined,
+        modelRole: "memory_consolidation",
       }));
     if (output.type !== "assistant" || !output.content) {
       throw new Error(`Personal memory ${sectionId} evolution returned no assistant JSON`);
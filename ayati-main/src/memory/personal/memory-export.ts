@@ -0,0 +1,241 @@
+import { normalizeKind, normalizeSlot, type PersonalMemoryStore } from "./personal-memory-store.js";
+import type {
+  MemoryAliasRecord,
+  MemoryCard,
+  MemoryEvidenceRecord,
+  MemoryEvidenceType,
+  MemoryEvolutionEventRecord,
+  MemoryEvolutionEventType,
+  MemorySectionId,
+  MemorySourceType,
+  MemoryState,
+  PersonalMemoryRecords,
+} from "./types.js";
+import { EVOLVING_MEMORY_SECTION_ID, TIME_BASED_SECTION_ID, USER_FACTS_SECTION_ID } from "./types.js";
+
+export const PERSONAL_MEMORY_EXPORT_FORMAT = "ayati-personal-memory";
+export const PERSONAL_MEMORY_EXPORT_VERSION = 1;
+
+/** Versioned JSON document written by memory export and accepted by memory import. */
+export interface PersonalMemoryExport extends PersonalMemoryRecords {
+  format: typeof PERSONAL_MEMORY_EXPORT_FORMAT;
+  version: typeof PERSONAL_MEMORY_EXPORT_VERSION;
+  exportedAt: string;
+}
+
+const SECTION_IDS: readonly MemorySectionId[] = [USER_FACTS_SECTION_ID, TIME_BASED_SECTION_ID, EVOLVING_MEMORY_SECTION_ID];
+const STATES: readonly MemoryState[] = ["candidate", "active", "archived", "superseded", "merged", "expired", "rejected"];
+const SOURCE_TYPES: readonly MemorySourceType[] = [
+  "explicit_user_statement",
+  "manual_user_request",
+  "agent_observation",
+  "inferred",
+];
+const EVIDENCE_TYPES: readonly MemoryEvidenceType[] = [
+  "creates",
+  "confirms",
+  "contradicts",
+  "supersedes",
+  "merges",
+  "archives",
+  "rejects",
+];
+const EVENT_TYPES: readonly MemoryEvolutionEventType[] = [...EVIDENCE_TYPES, "edits"];
+
+export function exportPersonalMemory(store: PersonalMemoryStore, userId: string, now = new Date()): PersonalMemoryExport {
+  return {
+    format: PERSONAL_MEMORY_EXPORT_FORMAT,
+    version: PERSONAL_MEMORY_EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    ...store.exportRecords(userId),
+  };
+}
+
+/**
+ * Validates an export document before anything touches the store. Owner ids in the document are
+ * ignored; import assigns every row to the importing user.
+ */
+export function parsePersonalMemoryExport(value: unknown): PersonalMemoryRecords {
+  const document = asRecord(value);
+  if (!document || document["format"] !== PERSONAL_MEMORY_EXPORT_FORMAT) {
+    throw new Error(`Memory import must be an "${PERSONAL_MEMORY_EXPORT_FORMAT}" export document.`);
+  }
+  if (document["version"] !== PERSONAL_MEMORY_EXPORT_VERSION) {
+    throw new Error(
+      `Memory export version ${String(document["version"])} is not supported; expected ${PERSONAL_MEMORY_EXPORT_VERSION}.`,
+    );
+  }
+  return {
+    cards: parseList(document["cards"], "cards", parseCard),
+    evidence: parseList(document["evidence"], "evidence", parseEvidence),
+    events: parseList(document["events"], "events", parseEvent),
+    aliases: parseList(document["aliases"], "aliases", parseAlias),
+  };
+}
+
+function parseList<T>(value: unknown, label: string, parse: (entry: RecordReader) => T): T[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new Error(`Memory export ${label} must be an array.`);
+  }
+  return value.map((entry, index) => parse(new RecordReader(entry, `${label}[${index}]`)));
+}
+
+function parseCard(entry: RecordReader): MemoryCard {
+  const sectionId = entry.oneOf("sectionId", SECTION_IDS);
+  const createdAt = entry.timestamp("createdAt");
+  return {
+    id: entry.string("id"),
+    userId: "",
+    sectionId,
+    kind: normalizeKind(entry.string("kind")),
+    slot: normalizeSlot(entry.string("slot")),
+    lifecycle: sectionId === TIME_BASED_SECTION_ID ? "timed" : sectionId === EVOLVING_MEMORY_SECTION_ID ? "evolving" : "fact",
+    text: entry.string("text").replace(/\s+/g, " "),
+    value: entry.optionalString("value"),
+    startsAt: entry.optionalTimestamp("startsAt"),
+    eventAt: entry.optionalTimestamp("eventAt"),
+    expiresAt: entry.optionalTimestamp("expiresAt"),
+    state: entry.oneOf("state", STATES),
+    confidence: entry.unit("confidence"),
+    importance: entry.unit("importance"),
+    confirmations: entry.count("confirmations"),
+    corrections: entry.count("corrections"),
+    contradictions: entry.count("contradictions"),
+    helpfulHits: entry.count("helpfulHits"),
+    harmfulHits: entry.count("harmfulHits"),
+    sourceType: entry.oneOf("sourceType", SOURCE_TYPES),
+    sourceReliability: entry.unit("sourceReliability"),
+    createdAt,
+    lastConfirmedAt: entry.optionalTimestamp("lastConfirmedAt") ?? createdAt,
+    lastUsedAt: entry.optionalTimestamp("lastUsedAt"),
+    supersededById: entry.optionalString("supersededById"),
+    mergedIntoId: entry.optionalString("mergedIntoId"),
+    metadataJson: entry.optionalString("metadataJson"),
+  };
+}
+
+function parseEvidence(entry: RecordReader): MemoryEvidenceRecord {
+  return {
+    id: entry.string("id"),
+    memoryId: entry.string("memoryId"),
+    userId: "",
+    sessionId: entry.optionalString("sessionId"),
+    runId: entry.optionalString("runId"),
+    sessionPath: entry.optionalString("sessionPath"),
+    runPath: entry.optionalString("runPath"),
+    evidenceType: entry.oneOf("evidenceType", EVIDENCE_TYPES),
+    sourceText: entry.string("sourceText"),
+    createdAt: entry.timestamp("createdAt"),
+  };
+}
+
+function parseEvent(entry: RecordReader): MemoryEvolutionEventRecord {
+  return {
+    id: entry.string("id"),
+    memoryId: entry.string("memoryId"),
+    userId: "",
+    sectionId: entry.oneOf("sectionId", SECTION_IDS),
+    kind: entry.string("kind"),
+    slot: entry.string("slot"),
+    address: "",
+    eventType: entry.oneOf("eventType", EVENT_TYPES),
+    sourceText: entry.string("sourceText"),
+    payloadJson: entry.optionalString("payloadJson"),
+    sessionId: entry.optionalString("sessionId"),
+    runId: entry.optionalString("runId"),
+    sessionPath: entry.optionalString("sessionPath"),
+    runPath: entry.optionalString("runPath"),
+    createdAt: entry.timestamp("createdAt"),
+  };
+}
+
+function parseAlias(entry: RecordReader): MemoryAliasRecord {
+  return {
+    userId: "",
+    sectionId: entry.oneOf("sectionId", SECTION_IDS),
+    aliasKind: entry.string("aliasKind"),
+    aliasSlot: entry.string("aliasSlot"),
+    targetKind: entry.string("targetKind"),
+    targetSlot: entry.string("targetSlot"),
+    targetMemoryId: entry.optionalString("targetMemoryId"),
+    confidence: entry.unit("confidence"),
+    createdAt: entry.timestamp("createdAt"),
+    lastUsedAt: entry.optionalTimestamp("lastUsedAt"),
+  };
+}
+
+class RecordReader {
+  private readonly record: Record<string, unknown>;
+
+  constructor(value: unknown, private readonly label: string) {
+    const record = asRecord(value);
+    if (!record) {
+      throw new Error(`Memory export ${label} must be an object.`);
+    }
+    this.record = record;
+  }
+
+  string(key: string): string {
+    const value = this.record[key];
+    if (typeof value !== "string" || value.trim().length === 0) {
+      throw new Error(`Memory export ${this.label}.${key} must be a non-empty string.`);
+    }
+    return value.trim();
+  }
+
+  optionalString(key: string): string | null {
+    const value = this.record[key];
+    if (value === undefined || value === null) return null;
+    if (typeof value !== "string") {
+      throw new Error(`Memory export ${this.label}.${key} must be a string or null.`);
+    }
+    return value.trim() || null;
+  }
+
+  timestamp(key: string): string {
+    const value = this.optionalTimestamp(key);
+    if (!value) {
+      throw new Error(`Memory export ${this.label}.${key} must be an ISO timestamp.`);
+    }
+    return value;
+  }
+
+  optionalTimestamp(key: string): string | null {
+    const value = this.optionalString(key);
+    if (value === null) return null;
+    const parsed = Date.parse(value);
+    if (!Number.isFinite(parsed)) {
+      throw new Error(`Memory export ${this.label}.${key} must be an ISO timestamp.`);
+    }
+    return new Date(parsed).toISOString();
+  }
+
+  oneOf<T extends string>(key: string, allowed: readonly T[]): T {
+    const value = this.record[key];
+    if (!allowed.includes(value as T)) {
+      throw new Error(`Memory export ${this.label}.${key} must be one of ${allowed.join(", ")}.`);
+    }
+    return value as T;
+  }
+
+  unit(key: string): number {
+    const value = this.record[key];
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || value > 1) {
+      throw new Error(`Memory export ${this.label}.${key} must be a number from 0 to 1.`);
+    }
+    return value;
+  }
+
+  count(key: string): number {
+    const value = this.record[key] ?? 0;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+      throw new Error(`Memory export ${this.label}.${key} must be a non-negative integer.`);
+    }
+    return value;
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
@@ -3,9 +3,22 @@ import { appendFileSync, mkdirSync } from "node:fs";
 import { dirname, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 import { DatabaseSync, type SQLInputValue } from "node:sqlite";
+import {
+  SEMANTIC_DOCUMENTS_TABLE_SQL,
+  countPendingSemanticDocuments,
+  createHashedNgramEmbedder,
+  fuseRankings,
+  rankSemanticDocuments,
+  refreshSemanticVectors,
+  registerSemanticDocument,
+  type RefreshSemanticIndexRequest,
+  type RefreshSemanticIndexResponse,
+  type TextEmbedder,
+} from "ayati-context-engine";
 import { scoreMemory } from "./memory-scorer.js";
 import type {
   MemoryCard,
+  MemoryCardEdit,
   MemoryAliasRecord,
   MemoryCandidateMatch,
   MemoryConsolidationJob,
@@ -14,6 +27,8 @@ import type {
   MemoryEvolutionEventType,
   MemoryEvidenceRecord,
   MemoryEvidenceType,
+  MemoryImportMode,
+  MemoryImportResult,
   MemoryLookupSignal,
   MemoryPolicy,
   MemoryProposal,
@@ -21,6 +36,7 @@ import type {
   MemorySourceType,
   MemoryState,
   MemoryUsageOutcome,
+  PersonalMemoryRecords,
 } from "./types.js";
 import { EVOLVING_MEMORY_SECTION_ID, TIME_BASED_SECTION_ID, USER_FACTS_SECTION_ID } from "./types.js";
 
@@ -31,11 +47,14 @@ const LIVE_STATES: MemoryState[] = ["candidate", "active"];
 const DEFAULT_FACT_IMPORTANCE = 0.7;
 const DEFAULT_TIMED_IMPORTANCE = 0.65;
 const DEFAULT_EVOLVING_IMPORTANCE = 0.6;
+const MEMORY_SEMANTIC_KIND = "memory";
 
 export interface PersonalMemoryStoreOptions {
   dataDir?: string;
   dbPath?: string;
   now?: () => Date;
+  /** Embeds card text for `searchMemoriesHybrid`; defaults to the offline hashed n-gram embedder. */
+  embedder?: TextEmbedder;
 }
 
 export interface MemoryAuditEvent {
@@ -94,12 +113,14 @@ export interface MemorySearchInput {
 export class PersonalMemoryStore {
   private readonly dbPath: string;
   private readonly nowProvider: () => Date;
+  private readonly embedder: TextEmbedder;
   private db: DatabaseSync | null = null;
 
   constructor(options?: PersonalMemoryStoreOptions) {
     const dataDir = options?.dataDir ?? DEFAULT_DATA_DIR;
     this.dbPath = options?.dbPath ?? resolve(dataDir, "personal.sqlite");
     this.nowProvider = options?.now ?? (() => new Date());
+    this.embedder = options?.embedder ?? createHashedNgramEmbedder();
   }
 
   start(_policy: MemoryPolicy): void {
@@ -109,6 +130,7 @@ export class PersonalMemoryStore {
     this.db.exec("PRAGMA synchronous=NORMAL;");
     this.createSchema();
     this.ensureCardSchemaColumns();
+    this.backfillSemanticDocuments();
   }
 
   stop(): void {
@@ -183,6 +205,19 @@ export class PersonalMemoryStore {
     return row ? mapCardRow(row) : null;
   }
 
+  /** Cards whose id starts with `prefix`, so clients can accept the shortened ids they display. */
+  findMemoriesByIdPrefix(userId: string, prefix: string, limit = 2): MemoryCard[] {
+    const rows = this.requireDb().prepare(`
+      SELECT *
+      FROM memory_cards
+      WHERE user_id = ?
+        AND substr(id, 1, ?) = ?
+      ORDER BY created_at DESC
+      LIMIT ?
+    `).all(userId, prefix.length, prefix, Math.max(1, Math.floor(limit))) as Record<string, unknown>[];
+    return rows.map(mapCardRow);
+  }
+
   searchMemories(userId: string, input: MemorySearchInput): MemoryCard[] {
     const limit = Math.max(1, Math.min(50, Math.floor(input.limit ?? 10)));
     const sectionId = input.sectionId ?? USER_FACTS_SECTION_ID;
@@ -243,6 +278,57 @@ export class PersonalMemoryStore {
     `).all(...params) as Record<string, unknown>[];
     return rows.map(mapCardRow);
   }
+  /**
+   * Embeds cards that have no vector from the store's embedder yet. The daemon calls this outside
+   * any run, so `searchMemoriesHybrid` only embeds its query.
+   */
+  async refreshSemanticIndex(input: RefreshSemanticIndexRequest = {}): Promise<RefreshSemanticIndexResponse> {
+    const embedded = await refreshSemanticVectors(this.requireDb(), this.embedder, input.limit);
+    return {
+      embedderId: this.embedder.id,
+      embedded,
+      pending: countPendingSemanticDocuments(this.requireDb(), this.embedder.id),
+    };
+  }
+
+  /**
+   * `searchMemories` fused with embedding matches, so a query also finds cards phrased with other
+   * word forms. Cards without a vector yet match by keyword only. Falls back to the keyword results
+   * when the embedder fails.
+   */
+  async searchMemoriesHybrid(userId: string, input: MemorySearchInput): Promise<MemoryCard[]> {
+    const keywordMatches = this.searchMemories(userId, input);
+    const query = input.query?.trim() ?? "";
+    if (!query) return keywordMatches;
+    const limit = Math.max(1, Math.min(50, Math.floor(input.limit ?? 10)));
+    const sectionId = input.sectionId ?? USER_FACTS_SECTION_ID;
+    const states = input.states && input.states.length > 0 ? input.states : LIVE_STATES;
+    const kind = input.kind ? normalizeKind(input.kind) : "";
+    const slot = input.slot ? normalizeSlot(input.slot) : "";
+    let vector: Float32Array | undefined;
+    try {
+      [vector] = await this.embedder.embed([query]);
+    } catch {
+      return keywordMatches;
+    }
+    if (!vector) return keywordMatches;
+    const semanticMatches = rankSemanticDocuments(this.requireDb(), {
+      kind: MEMORY_SEMANTIC_KIND,
+      scopeId: memorySemanticScope(userId, sectionId),
+      query: { embedderId: this.embedder.id, vector, minScore: this.embedder.minScore },
+      limit: limit * 4,
+    }).map((match) => this.getMemory(match.documentId))
+      .filter((card): card is MemoryCard => card !== null
+        && states.includes(card.state)
+        && (!kind || card.kind === kind)
+        && (!slot || card.slot === slot));
+    const cards = new Map([...keywordMatches, ...semanticMatches].map((card) => [card.id, card]));
+    return fuseRankings([
+      keywordMatches.map((card) => card.id),
+      semanticMatches.map((card) => card.id),
+    ], limit).map((id) => cards.get(id)!);
+  }
+
 
   findCardsByAddress(
     userId: string,
@@ -627,6 +713,78 @@ export class PersonalMemoryStore {
     `).run(now, memoryId);
   }
 
+  /** Applies a user's correction to a card. The replaced values are kept in the evolution history. */
+  editCard(memoryId: string, updates: MemoryCardEdit, now = this.nowIso()): MemoryCard {
+    const memory = this.getMemory(memoryId);
+    if (!memory) {
+      throw new Error(`Memory ${memoryId} does not exist.`);
+    }
+    const text = updates.text === undefined ? memory.text : normalizeText(updates.text);
+    if (!text) {
+      throw new Error("Memory text cannot be empty.");
+    }
+    const next = {
+      text,
+      value: updates.value === undefined ? memory.value ?? null : normalizeNullableText(updates.value),
+      startsAt: updates.startsAt === undefined ? memory.startsAt ?? null : normalizeIsoOrNull(updates.startsAt),
+      eventAt: updates.eventAt === undefined ? memory.eventAt ?? null : normalizeIsoOrNull(updates.eventAt),
+      expiresAt: updates.expiresAt === undefined ? memory.expiresAt ?? null : normalizeIsoOrNull(updates.expiresAt),
+    };
+    this.requireDb().prepare(`
+      UPDATE memory_cards
+      SET text = ?,
+          value = ?,
+          starts_at = ?,
+          event_at = ?,
+          expires_at = ?,
+          source_type = 'manual_user_request',
+          corrections = corrections + 1,
+          last_confirmed_at = ?
+      WHERE id = ?
+    `).run(next.text, next.value, next.startsAt, next.eventAt, next.expiresAt, now, memoryId);
+    const updated = this.getMemory(memoryId);
+    if (!updated) {
+      throw new Error(`Memory disappeared after edit: ${memoryId}`);
+    }
+    this.upsertFts(updated);
+    this.addEvolutionEvent({
+      memory: updated,
+      eventType: "edits",
+      sourceText: updated.text,
+      payloadJson: JSON.stringify({
+        previous: {
+          text: memory.text,
+          value: memory.value ?? null,
+          startsAt: memory.startsAt ?? null,
+          eventAt: memory.eventAt ?? null,
+          expiresAt: memory.expiresAt ?? null,
+        },
+      }),
+      createdAt: now,
+    });
+    return updated;
+  }
+
+  /** Archives a live card on the user's request and records the reason as evidence. */
+  archiveCardByUser(memoryId: string, sourceText: string, now = this.nowIso()): MemoryCard {
+    const memory = this.getMemory(memoryId);
+    if (!memory) {
+      throw new Error(`Memory ${memoryId} does not exist.`);
+    }
+    if (!LIVE_STATES.includes(memory.state)) {
+      throw new Error(`Memory ${memoryId} is already ${memory.state}.`);
+    }
+    this.archiveCard(memoryId, now);
+    this.addEvidence({
+      memoryId,
+      userId: memory.userId,
+      evidenceType: "archives",
+      sourceText,
+      createdAt: now,
+    });
+    return { ...memory, state: "archived", lastConfirmedAt: now };
+  }
+
   countLiveCards(userId: string, sectionId: MemorySectionId = USER_FACTS_SECTION_ID): number {
     const row = this.requireDb().prepare(`
       SELECT COUNT(*) AS count
@@ -780,6 +938,118 @@ export class PersonalMemoryStore {
     return rows.map(mapEvolutionEventRow);
   }
 
+  /** Reads every card, evidence row, evolution event, and alias owned by one user, oldest first. */
+  exportRecords(userId: string): PersonalMemoryRecords {
+    const db = this.requireDb();
+    const select = (table: string) => db
+      .prepare(`SELECT * FROM ${table} WHERE user_id = ? ORDER BY created_at ASC`)
+      .all(userId) as Record<string, unknown>[];
+    return {
+      cards: select("memory_cards").map(mapCardRow),
+      evidence: select("memory_evidence").map(mapEvidenceRow),
+      events: select("memory_events").map(mapEvolutionEventRow),
+      aliases: select("memory_aliases").map(mapAliasRow),
+    };
+  }
+
+  /**
+   * Loads exported rows for `userId` in one transaction. `replace` first deletes the user's existing
+   * rows; `merge` keeps any row whose id (or alias address) is already stored.
+   */
+  importRecords(userId: string, records: PersonalMemoryRecords, mode: MemoryImportMode): MemoryImportResult {
+    return this.runInTransaction(() => {
+      const db = this.requireDb();
+      if (mode === "replace") {
+        db.prepare("DELETE FROM memory_usage WHERE memory_id IN (SELECT id FROM memory_cards WHERE user_id = ?)")
+          .run(userId);
+        db.prepare(`
+          DELETE FROM semantic_documents
+          WHERE document_kind = ? AND document_id IN (SELECT id FROM memory_cards WHERE user_id = ?)
+        `).run(MEMORY_SEMANTIC_KIND, userId);
+        for (const table of ["memory_cards_fts", "memory_cards", "memory_evidence", "memory_events", "memory_aliases"]) {
+          db.prepare(`DELETE FROM ${table} WHERE user_id = ?`).run(userId);
+        }
+      }
+      const result: MemoryImportResult = { mode, cards: 0, evidence: 0, events: 0, aliases: 0, skipped: 0 };
+      for (const card of records.cards) {
+        if (this.getMemory(card.id)) {
+          result.skipped++;
+          continue;
+        }
+        this.insertCard({ ...card, userId, lifecycle: lifecycleForSection(card.sectionId) });
+        result.cards++;
+      }
+      for (const evidence of records.evidence) {
+        const inserted = db.prepare(`
+          INSERT OR IGNORE INTO memory_evidence (
+            id, memory_id, user_id, session_id, run_id, session_path, run_path, evidence_type, source_text, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          evidence.id,
+          evidence.memoryId,
+          userId,
+          evidence.sessionId ?? null,
+          evidence.runId ?? null,
+          evidence.sessionPath ?? null,
+          evidence.runPath ?? null,
+          evidence.evidenceType,
+          evidence.sourceText,
+          evidence.createdAt,
+        );
+        if (Number(inserted.changes) > 0) result.evidence++;
+        else result.skipped++;
+      }
+      for (const event of records.events) {
+        const inserted = db.prepare(`
+          INSERT OR IGNORE INTO memory_events (
+            id, memory_id, user_id, section_id, kind, slot, address, event_type, source_text, payload_json,
+            session_id, run_id, session_path, run_path, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          event.id,
+          event.memoryId,
+          userId,
+          event.sectionId,
+          event.kind,
+          event.slot,
+          canonicalMemoryAddress(event.sectionId, event.kind, event.slot),
+          event.eventType,
+          event.sourceText,
+          event.payloadJson ?? null,
+          event.sessionId ?? null,
+          event.runId ?? null,
+          event.sessionPath ?? null,
+          event.runPath ?? null,
+          event.createdAt,
+        );
+        if (Number(inserted.changes) > 0) result.events++;
+        else result.skipped++;
+      }
+      for (const alias of records.aliases) {
+        const inserted = db.prepare(`
+          INSERT OR IGNORE INTO memory_aliases (
+            user_id, section_id, alias_kind, alias_slot, target_kind, target_slot, target_memory_id,
+            confidence, created_at, last_used_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          userId,
+          alias.sectionId,
+          normalizeKind(alias.aliasKind),
+          normalizeSlot(alias.aliasSlot),
+          normalizeKind(alias.targetKind),
+          normalizeSlot(alias.targetSlot),
+          alias.targetMemoryId ?? null,
+          clampUnit(alias.confidence),
+          alias.createdAt,
+          alias.lastUsedAt ?? null,
+        );
+        if (Number(inserted.changes) > 0) result.aliases++;
+        else result.skipped++;
+      }
+      return result;
+    });
+  }
+
   recordUsage(memoryId: string, runId: string | null, outcome: MemoryUsageOutcome): void {
     const normalized = outcome === "failure" || outcome === "harmful" ? "harmful" : "helpful";
     const now = this.nowIso();
@@ -1040,6 +1310,29 @@ export class PersonalMemoryStore {
       card.text,
       card.value ?? "",
     );
+    registerSemanticDocument(this.requireDb(), {
+      kind: MEMORY_SEMANTIC_KIND,
+      documentId: card.id,
+      scopeId: memorySemanticScope(card.userId, card.sectionId),
+      text: [card.text, card.value ?? ""].join("\n"),
+      at: this.nowIso(),
+    });
+  }
+
+  /** Registers cards stored before semantic documents existed; vectors fill on the next search. */
+  private backfillSemanticDocuments(): void {
+    const rows = this.requireDb().prepare(`
+      SELECT *
+      FROM memory_cards c
+      WHERE NOT EXISTS (
+        SELECT 1 FROM semantic_documents d
+        WHERE d.document_kind = ? AND d.document_id = c.id
+      )
+    `).all(MEMORY_SEMANTIC_KIND) as Record<string, unknown>[];
+    if (rows.length === 0) return;
+    this.runInTransaction(() => {
+      for (const row of rows) this.upsertFts(mapCardRow(row));
+    });
   }
 
   private addEvolutionEvent(input: {
@@ -1227,6 +1520,7 @@ export class PersonalMemoryStore {
         generated_at TEXT NOT NULL
       );
     `);
+    this.requireDb().exec(SEMANTIC_DOCUMENTS_TABLE_SQL);
   }
 
   private ensureCardSchemaColumns(): void {
@@ -1260,6 +1554,10 @@ export class PersonalMemoryStore {
   }
 }
 
+function memorySemanticScope(userId: string, sectionId: MemorySectionId): string {
+  return `${userId}:${sectionId}`;
+}
+
 export function normalizeSlot(value: string): string {
   return value
     .trim()
@@ -1490,7 +1788,8 @@ function normalizeEvolutionEventType(value: unknown): MemoryEvolutionEventType {
     value === "supersedes" ||
     value === "merges" ||
     value === "archives" ||
-    value === "rejects"
+    value === "rejects" ||
+    value === "edits"
   ) {
     return value;
   }
@@ -52,7 +52,8 @@ export type MemoryEvolutionEventType =
   | "supersedes"
   | "merges"
   | "archives"
-  | "rejects";
+  | "rejects"
+  | "edits";
 
 export type MemoryLookupSignal =
   | "exact_address"
@@ -175,6 +176,35 @@ export interface MemoryAliasRecord {
   lastUsedAt?: string | null;
 }
 
+/** Fields a user may correct on an existing card; `null` clears an optional field. */
+export interface MemoryCardEdit {
+  text?: string;
+  value?: string | null;
+  startsAt?: string | null;
+  eventAt?: string | null;
+  expiresAt?: string | null;
+}
+
+/** Every durable row that belongs to one user, as moved by export and import. */
+export interface PersonalMemoryRecords {
+  cards: MemoryCard[];
+  evidence: MemoryEvidenceRecord[];
+  events: MemoryEvolutionEventRecord[];
+  aliases: MemoryAliasRecord[];
+}
+
+export type MemoryImportMode = "merge" | "replace";
+
+export interface MemoryImportResult {
+  mode: MemoryImportMode;
+  cards: number;
+  evidence: number;
+  events: number;
+  aliases: number;
+  /** Rows whose id or alias address already existed; merge keeps the stored copy. */
+  skipped: number;
+}
+
 export interface MemoryConsolidationJobPayload {
   userId: string;
   sessionId: string;
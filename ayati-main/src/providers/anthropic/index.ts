@@ -13,7 +13,7 @@ import type {
 import { estimateTurnInputTokens } from "../../prompt/token-estimator.js";
 import { hasImageInput, toAnthropicContent } from "../shared/multimodal.js";
 import { getProviderCapabilities } from "../shared/provider-profiles.js";
-import { getProviderRequestOptions } from "../shared/provider-call-policy.js";
+import { getProviderTurnRequestOptions } from "../shared/provider-call-policy.js";
 import {
   buildToolNameMapsForProvider,
   toCanonicalToolName,
@@ -21,6 +21,7 @@ import {
   type ToolNameMaps,
 } from "../shared/tool-name-mapping.js";
 import { readAnthropicUsage } from "../shared/token-usage.js";
+import { estimateAnthropicCost } from "./pricing.js";
 import {
   captureProviderNativePayload,
   captureProviderNativeResponse,
@@ -28,8 +29,17 @@ import {
 
 let client: Anthropic | null = null;
 
+/** Anthropic accepts at most four `cache_control` breakpoints per request. */
+const MAX_CACHE_BREAKPOINTS = 4;
+
+interface AnthropicSystemBlock {
+  type: "text";
+  text: string;
+  cache_control?: { type: "ephemeral" };
+}
+
 interface AnthropicMessageBuild {
-  system?: string;
+  system?: string | AnthropicSystemBlock[];
   messages: Array<{
     role: "user" | "assistant";
     content: string | Array<Record<string, unknown>>;
@@ -40,11 +50,18 @@ async function toAnthropicPayload(messages: LlmMessage[], maps: ToolNameMaps): P
   const out: AnthropicMessageBuild = {
     messages: [],
   };
+  const systemBlocks: AnthropicSystemBlock[] = [];
 
   for (const msg of messages) {
     switch (msg.role) {
       case "system":
-        out.system = out.system ? `${out.system}\n\n${msg.content}` : msg.content;
+        systemBlocks.push({
+          type: "text",
+          text: msg.content,
+          ...(msg.cacheBreakpoint && countCacheBreakpoints(systemBlocks) < MAX_CACHE_BREAKPOINTS
+            ? { cache_control: { type: "ephemeral" as const } }
+            : {}),
+        });
         break;
       case "user":
         out.messages.push({
@@ -94,9 +111,19 @@ async function toAnthropicPayload(messages: LlmMessage[], maps: ToolNameMaps): P
     }
   }
 
+  if (systemBlocks.length > 0) {
+    // Blocks are only needed to carry breakpoints; an uncached system prompt stays one string.
+    out.system = countCacheBreakpoints(systemBlocks) > 0
+      ? systemBlocks
+      : systemBlocks.map((block) => block.text).join("\n\n");
+  }
   return out;
 }
 
+function countCacheBreakpoints(blocks: AnthropicSystemBlock[]): number {
+  return blocks.filter((block) => block.cache_control).length;
+}
+
 function toAnthropicTools(
   tools: LlmToolSchema[] | undefined,
   maps: ToolNameMaps,
@@ -144,7 +171,7 @@ const provider: LlmProvider = {
       throw new Error("Anthropic provider not started.");
     }
 
-    const model = getModelForProvider("anthropic");
+    const model = input.model ?? getModelForProvider("anthropic");
     if (hasImageInput(input.messages)) {
       const estimate = estimateTurnInputTokens(input);
       return {
@@ -185,7 +212,7 @@ const provider: LlmProvider = {
       throw new Error("Anthropic provider not started.");
     }
 
-    const model = getModelForProvider("anthropic");
+    const model = input.model ?? getModelForProvider("anthropic");
     const nameMaps = buildToolNameMapsForProvider(provider.name, input.tools);
     const payload = await toAnthropicPayload(input.messages, nameMaps);
     const tools = toAnthropicTools(input.tools, nameMaps);
@@ -200,9 +227,10 @@ const provider: LlmProvider = {
       ...(tools ? { tools: tools as any } : {}),
     };
     captureProviderNativePayload({ provider: "anthropic", operation: "generateTurn", payload: request });
-    const response = await client.messages.create(request as any, getProviderRequestOptions());
+    const response = await client.messages.create(request as any, getProviderTurnRequestOptions(input));
     captureProviderNativeResponse({ provider: "anthropic", operation: "generateTurn", response });
     const usage = readAnthropicUsage(model, response);
+    const cost = usage ? estimateAnthropicCost(model, usage) : undefined;
 
     const calls: LlmToolCall[] = [];
     const textParts: string[] = [];
@@ -229,6 +257,7 @@ const provider: LlmProvider = {
         calls,
         ...(textParts.length > 0 ? { assistantContent: textParts.join("\n").trim() } : {}),
         ...(usage ? { usage } : {}),
+        ...(cost ? { cost } : {}),
       };
     }
 
@@ -241,6 +270,7 @@ const provider: LlmProvider = {
       type: "assistant",
       content: reply,
       ...(usage ? { usage } : {}),
+      ...(cost ? { cost } : {}),
     };
   },
 };
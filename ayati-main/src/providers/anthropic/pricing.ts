@@ -0,0 +1,45 @@
+import type { LlmCostEstimate, LlmTokenUsage } from "../../core/contracts/llm-protocol.js";
+import { estimateModelCost, type ModelPricingEntry } from "../shared/token-pricing.js";
+
+const ANTHROPIC_PRICING_SOURCE = "https://docs.claude.com/en/docs/about-claude/pricing";
+
+/**
+ * Cached input is priced at the cache-read rate. Cache writes are counted as ordinary input, so
+ * turns that create a cache entry are slightly under-estimated. Patterns accept dotted OpenRouter
+ * ids such as `anthropic/claude-sonnet-4.5`.
+ */
+export const ANTHROPIC_MODEL_PRICING: ModelPricingEntry[] = [
+  {
+    pattern: /claude-opus-4[-.]5(?:$|[^0-9])/i,
+    pricing: anthropicPricing(5.00, 0.50, 25.00),
+  },
+  {
+    pattern: /claude-opus-4(?:$|[^0-9])/i,
+    pricing: anthropicPricing(15.00, 1.50, 75.00),
+  },
+  {
+    pattern: /claude-(?:sonnet-4|3[-.]7-sonnet)(?:$|[^0-9])/i,
+    pricing: anthropicPricing(3.00, 0.30, 15.00),
+  },
+  {
+    pattern: /claude-haiku-4[-.]5(?:$|[^0-9])/i,
+    pricing: anthropicPricing(1.00, 0.10, 5.00),
+  },
+  {
+    pattern: /claude-3[-.]5-haiku(?:$|[^0-9])/i,
+    pricing: anthropicPricing(0.80, 0.08, 4.00),
+  },
+];
+
+export function estimateAnthropicCost(model: string, usage: LlmTokenUsage): LlmCostEstimate | undefined {
+  return estimateModelCost(ANTHROPIC_MODEL_PRICING, model, usage);
+}
+
+function anthropicPricing(input: number, cachedInput: number, output: number) {
+  return {
+    inputUsdPerMillion: input,
+    cachedInputUsdPerMillion: cachedInput,
+    outputUsdPerMillion: output,
+    source: ANTHROPIC_PRICING_SOURCE,
+  };
+}
@@ -15,7 +15,7 @@ import type {
 import { estimateTurnInputTokens } from "../../prompt/token-estimator.js";
 import { toOpenAiResponseFormat } from "../shared/openai-response-format.js";
 import { toOpenAiCompatibleContent } from "../shared/multimodal.js";
-import { getProviderRequestOptions } from "../shared/provider-call-policy.js";
+import { getProviderTurnRequestOptions } from "../shared/provider-call-policy.js";
 import {
   compileResponseFormatForProvider,
   getProviderCapabilities,
@@ -238,7 +238,7 @@ const provider: LlmProvider = {
       throw new Error("Fireworks provider not started.");
     }
 
-    const model = getModelForProvider("fireworks");
+    const model = input.model ?? getModelForProvider("fireworks");
     const estimate = estimateTurnInputTokens(input);
 
     return {
@@ -254,7 +254,7 @@ const provider: LlmProvider = {
       throw new Error("Fireworks provider not started.");
     }
 
-    const model = getModelForProvider("fireworks");
+    const model = input.model ?? getModelForProvider("fireworks");
     const nameMaps = buildToolNameMapsForProvider(provider.name, input.tools);
     const messages = await toFireworksMessages(input.messages, nameMaps);
     const responseTools = toFireworksResponseTools(input.tools, nameMaps);
@@ -292,7 +292,7 @@ const provider: LlmProvider = {
     captureProviderNativePayload({ provider: "fireworks", operation: "generateTurn", payload: request });
     const response = await client.chat.completions.create(
       request as any,
-      getProviderRequestOptions(),
+      getProviderTurnRequestOptions(input),
     );
     captureProviderNativeResponse({ provider: "fireworks", operation: "generateTurn", response });
     const usage = readFireworksUsage(model, response as unknown as Record<string, unknown>);
@@ -343,7 +343,7 @@ const provider: LlmProvider = {
       throw new Error("Fireworks provider not started.");
     }
 
-    const model = getModelForProvider("fireworks");
+    const model = input.model ?? getModelForProvider("fireworks");
     const nameMaps = buildToolNameMapsForProvider(provider.name, input.tools);
     const messages = await toFireworksMessages(input.messages, nameMaps);
     const responseTools = toFireworksResponseTools(input.tools, nameMaps);
@@ -382,7 +382,7 @@ const provider: LlmProvider = {
     captureProviderNativePayload({ provider: "fireworks", operation: "streamTurn", payload: request });
     const stream = await client.chat.completions.create(
       request as any,
-      getProviderRequestOptions(),
+      getProviderTurnRequestOptions(input),
     );
     const textParts: string[] = [];
     const nativeChunks: unknown[] | undefined = isLiveEvaluationEnabled() ? [] : undefined;
@@ -0,0 +1,418 @@
+import OpenAI from "openai";
+import type { LlmProvider } from "../../core/contracts/provider.js";
+import { ProviderEmptyResponseError } from "../../core/contracts/provider-errors.js";
+import { getModelForProvider } from "../../config/llm-runtime-config.js";
+import type {
+  LlmMessage,
+  LlmToolChoice,
+  LlmToolCall,
+  LlmInputTokenCount,
+  LlmTokenUsage,
+  LlmTurnStreamCallbacks,
+  LlmToolSchema,
+  LlmTurnInput,
+  LlmTurnOutput,
+} from "../../core/contracts/llm-protocol.js";
+import { parseAssistantTextToolCall } from "../../ivec/agent-runner/assistant-text-tool-call.js";
+import { estimateTurnInputTokens } from "../../prompt/token-estimator.js";
+import { toOpenAiResponseFormat } from "../shared/openai-response-format.js";
+import { toOpenAiCompatibleContent } from "../shared/multimodal.js";
+import { getProviderTurnRequestOptions } from "../shared/provider-call-policy.js";
+import {
+  clearProbedProviderCapabilities,
+  compileResponseFormatForProvider,
+  getProviderCapabilities,
+  recordProbedProviderCapabilities,
+} from "../shared/provider-profiles.js";
+import {
+  clearProbedModelContextWindows,
+  recordProbedModelContextWindow,
+} from "../shared/model-context-limits.js";
+import {
+  buildToolNameMapsForProvider,
+  toCanonicalToolName,
+  toProviderToolName,
+  type ToolNameMaps,
+} from "../shared/tool-name-mapping.js";
+import { readOpenAiCompatibleUsage } from "../shared/token-usage.js";
+import { estimateLocalCost } from "./pricing.js";
+import {
+  captureProviderNativePayload,
+  captureProviderNativeResponse,
+  isLiveEvaluationEnabled,
+} from "../../evaluation/capture-runtime.js";
+import {
+  localCapabilitiesFromProbe,
+  probeLocalModel,
+  readLocalToolCallingMode,
+} from "./model-probe.js";
+
+let client: OpenAI | null = null;
+
+const DEFAULT_LOCAL_BASE_URL = "http://127.0.0.1:11434/v1";
+
+async function toLocalMessages(
+  messages: LlmMessage[],
+  maps: ToolNameMaps,
+  textToolCalls: boolean,
+): Promise<OpenAI.ChatCompletionMessageParam[]> {
+  const out: OpenAI.ChatCompletionMessageParam[] = [];
+
+  for (const msg of messages) {
+    switch (msg.role) {
+      case "system":
+      case "assistant":
+        out.push({ role: msg.role, content: msg.content });
+        break;
+      case "user":
+        out.push({
+          role: "user",
+          content: await toOpenAiCompatibleContent(msg.content),
+        } as OpenAI.ChatCompletionUserMessageParam);
+        break;
+      case "assistant_tool_calls":
+        if (textToolCalls) {
+          out.push({
+            role: "assistant",
+            content: msg.calls
+              .map((call) => JSON.stringify({ tool: toProviderToolName(call.name, maps), input: call.input ?? {} }))
+              .join("\n"),
+          });
+          break;
+        }
+        out.push({
+          role: "assistant",
+          content: msg.content ?? null,
+          tool_calls: msg.calls.map((call) => ({
+            id: call.id,
+            type: "function",
+            function: {
+              name: toProviderToolName(call.name, maps),
+              arguments: JSON.stringify(call.input ?? {}),
+            },
+          })),
+        } as OpenAI.Chat.Completions.ChatCompletionAssistantMessageParam);
+        break;
+      case "tool":
+        if (textToolCalls) {
+          out.push({ role: "user", content: `Tool result for call ${msg.toolCallId}:\n${msg.content}` });
+          break;
+        }
+        out.push({
+          role: "tool",
+          tool_call_id: msg.toolCallId,
+          content: msg.content,
+        } as OpenAI.Chat.Completions.ChatCompletionToolMessageParam);
+        break;
+      default:
+        break;
+    }
+  }
+
+  return out;
+}
+
+function toLocalTools(
+  tools: LlmToolSchema[] | undefined,
+  maps: ToolNameMaps,
+): OpenAI.Chat.Completions.ChatCompletionTool[] | undefined {
+  if (!tools || tools.length === 0) return undefined;
+
+  return tools.map((tool) => ({
+    type: "function",
+    function: {
+      name: toProviderToolName(tool.name, maps),
+      description: tool.description,
+      parameters: tool.inputSchema,
+    },
+  }));
+}
+
+/** Describes the tool surface in the prompt for servers that cannot take `tools` natively. */
+function textToolCallInstructions(
+  tools: LlmToolSchema[],
+  choice: LlmToolChoice | undefined,
+  maps: ToolNameMaps,
+): string {
+  const lines = [
+    "Tools are not available through native tool calling on this server.",
+    "To call a tool, reply with only this JSON object and no other text:",
+    "{\"tool\": \"<tool name>\", \"input\": {<arguments matching the tool's input schema>}}",
+    "Call at most one tool per reply. To answer without a tool, reply with plain text.",
+  ];
+  if (choice === "required") {
+    lines.push("You must call one tool in this reply.");
+  } else if (choice && choice !== "auto") {
+    lines.push(`You must call the "${toProviderToolName(choice.name, maps)}" tool in this reply.`);
+  }
+  lines.push("", "Available tools:");
+  for (const tool of tools) {
+    lines.push(
+      `- ${toProviderToolName(tool.name, maps)}: ${tool.description}`,
+      `  input schema: ${JSON.stringify(tool.inputSchema)}`,
+    );
+  }
+  return lines.join("\n");
+}
+
+function parseToolArguments(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+function toLocalToolChoice(
+  choice: LlmToolChoice | undefined,
+  maps: ToolNameMaps,
+): "auto" | "required" | { type: "function"; function: { name: string } } | undefined {
+  if (!choice) return undefined;
+  if (choice === "auto" || choice === "required") return choice;
+  return {
+    type: "function",
+    function: {
+      name: toProviderToolName(choice.name, maps),
+    },
+  };
+}
+
+async function buildLocalRequest(
+  input: LlmTurnInput,
+  model: string,
+  stream: boolean,
+): Promise<{ request: Record<string, unknown>; nameMaps: ToolNameMaps; textToolCalls: boolean }> {
+  const nameMaps = buildToolNameMapsForProvider(provider.name, input.tools);
+  const capabilities = provider.capabilities;
+  const hasTools = Boolean(input.tools && input.tools.length > 0);
+  const textToolCalls = hasTools && !capabilities.nativeToolCalling;
+  const messages = await toLocalMessages(input.messages, nameMaps, textToolCalls);
+  if (textToolCalls) {
+    messages.push({ role: "system", content: textToolCallInstructions(input.tools!, input.toolChoice, nameMaps) });
+  }
+  const tools = textToolCalls ? undefined : toLocalTools(input.tools, nameMaps);
+  const responseFormat = toOpenAiResponseFormat(
+    compileResponseFormatForProvider(provider.name, capabilities, input.responseFormat),
+  );
+
+  return {
+    nameMaps,
+    textToolCalls,
+    request: {
+      model,
+      messages,
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      ...(input.maxOutputTokens !== undefined
+        ? { max_tokens: Math.max(1, Math.trunc(input.maxOutputTokens)) }
+        : {}),
+      ...(responseFormat ? { response_format: responseFormat } : {}),
+      ...(tools
+        ? {
+            tools,
+            tool_choice: toLocalToolChoice(input.toolChoice, nameMaps) ?? "auto",
+            ...(typeof input.parallelToolCalls === "boolean" ? { parallel_tool_calls: input.parallelToolCalls } : {}),
+          }
+        : {}),
+    },
+  };
+}
+
+function finishLocalTurn(input: {
+  model: string;
+  content: string | null | undefined;
+  calls: LlmToolCall[];
+  nameMaps: ToolNameMaps;
+  textToolCalls: boolean;
+  toolNames: string[];
+  usage: LlmTokenUsage | undefined;
+}): LlmTurnOutput {
+  const cost = input.usage ? estimateLocalCost(input.usage) : undefined;
+  if (input.calls.length > 0) {
+    return {
+      type: "tool_calls",
+      calls: input.calls,
+      ...(input.content ? { assistantContent: input.content } : {}),
+      ...(input.usage ? { usage: input.usage } : {}),
+      ...(cost ? { cost } : {}),
+    };
+  }
+
+  const reply = input.content;
+  if (!reply) {
+    throw new ProviderEmptyResponseError("Empty response from local LLM server.", {
+      provider: "local",
+      model: input.model,
+    });
+  }
+
+  const textCall = input.textToolCalls ? parseAssistantTextToolCall(reply, input.toolNames) : null;
+  if (textCall) {
+    return {
+      type: "tool_calls",
+      calls: [{
+        id: crypto.randomUUID(),
+        name: toCanonicalToolName(textCall.name, input.nameMaps),
+        input: textCall.input,
+      }],
+      ...(input.usage ? { usage: input.usage } : {}),
+      ...(cost ? { cost } : {}),
+    };
+  }
+
+  return {
+    type: "assistant",
+    content: reply,
+    ...(input.usage ? { usage: input.usage } : {}),
+    ...(cost ? { cost } : {}),
+  };
+}
+
+const provider: LlmProvider = {
+  name: "local",
+  version: "1.0.0",
+
+  get capabilities() {
+    return getProviderCapabilities("local");
+  },
+
+  async start() {
+    const baseURL = process.env["LOCAL_LLM_BASE_URL"]?.trim() || DEFAULT_LOCAL_BASE_URL;
+    const apiKey = process.env["LOCAL_LLM_API_KEY"]?.trim() || undefined;
+    const toolCallingMode = readLocalToolCallingMode();
+    const model = getModelForProvider("local");
+
+    const probe = await probeLocalModel({ baseURL, model, ...(apiKey ? { apiKey } : {}) });
+    if (probe.contextWindowTokens !== undefined) {
+      recordProbedModelContextWindow("local", model, probe.contextWindowTokens);
+    }
+    recordProbedProviderCapabilities("local", localCapabilitiesFromProbe(probe, toolCallingMode));
+
+    // Local servers ignore the key, but the SDK requires one.
+    client = new OpenAI({ apiKey: apiKey ?? "local", baseURL });
+  },
+
+  stop() {
+    client = null;
+    clearProbedProviderCapabilities("local");
+    clearProbedModelContextWindows("local");
+  },
+
+  async countInputTokens(input: LlmTurnInput): Promise<LlmInputTokenCount> {
+    if (!client) {
+      throw new Error("Local provider not started.");
+    }
+
+    const estimate = estimateTurnInputTokens(input);
+    return {
+      provider: "local",
+      model: input.model ?? getModelForProvider("local"),
+      inputTokens: estimate.totalTokens,
+      exact: false,
+    };
+  },
+
+  async generateTurn(input: LlmTurnInput): Promise<LlmTurnOutput> {
+    if (!client) {
+      throw new Error("Local provider not started.");
+    }
+
+    const model = input.model ?? getModelForProvider("local");
+    const { request, nameMaps, textToolCalls } = await buildLocalRequest(input, model, false);
+    captureProviderNativePayload({ provider: "local", operation: "generateTurn", payload: request });
+    const response = await client.chat.completions.create(
+      request as unknown as OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming,
+      getProviderTurnRequestOptions(input),
+    );
+    captureProviderNativeResponse({ provider: "local", operation: "generateTurn", response });
+    const usage = readOpenAiCompatibleUsage("local", model, response);
+
+    const message = response.choices?.[0]?.message;
+    const calls = (message?.tool_calls ?? []).map<LlmToolCall>((call) => {
+      const fn =
+        "function" in call
+          ? (call.function as { name?: string; arguments?: string } | undefined)
+          : undefined;
+      return {
+        id: call.id ?? crypto.randomUUID(),
+        name: toCanonicalToolName(fn?.name ?? "unknown_tool", nameMaps),
+        input: parseToolArguments(fn?.arguments ?? "{}"),
+      };
+    });
+
+    return finishLocalTurn({
+      model,
+      content: message?.content,
+      calls,
+      nameMaps,
+      textToolCalls,
+      toolNames: (input.tools ?? []).map((tool) => toProviderToolName(tool.name, nameMaps)),
+      usage,
+    });
+  },
+
+  async streamTurn(input: LlmTurnInput, callbacks: LlmTurnStreamCallbacks): Promise<LlmTurnOutput> {
+    if (!client) {
+      throw new Error("Local provider not started.");
+    }
+
+    // Printed tool-call JSON must not reach the user as streamed reply text.
+    if (input.tools && input.tools.length > 0 && !provider.capabilities.nativeToolCalling) {
+      return provider.generateTurn(input);
+    }
+
+    const model = input.model ?? getModelForProvider("local");
+    const { request, nameMaps, textToolCalls } = await buildLocalRequest(input, model, true);
+    captureProviderNativePayload({ provider: "local", operation: "streamTurn", payload: request });
+    const stream = await client.chat.completions.create(request as any, getProviderTurnRequestOptions(input));
+
+    const textParts: string[] = [];
+    const nativeChunks: unknown[] | undefined = isLiveEvaluationEnabled() ? [] : undefined;
+    let usage: LlmTokenUsage | undefined;
+    const toolCalls = new Map<number, {
+      id?: string;
+      name?: string;
+      arguments: string;
+    }>();
+
+    try {
+      for await (const chunk of stream as unknown as AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>) {
+        nativeChunks?.push(chunk);
+        usage = readOpenAiCompatibleUsage("local", model, chunk) ?? usage;
+        const delta = chunk.choices[0]?.delta;
+        const content = delta?.content;
+        if (typeof content === "string" && content.length > 0) {
+          textParts.push(content);
+          callbacks.onTextDelta?.(content);
+        }
+        for (const call of delta?.tool_calls ?? []) {
+          const index = typeof call.index === "number" ? call.index : toolCalls.size;
+          const existing = toolCalls.get(index) ?? { arguments: "" };
+          const fn = call.function;
+          toolCalls.set(index, {
+            id: call.id ?? existing.id,
+            name: fn?.name ?? existing.name,
+            arguments: `${existing.arguments}${fn?.arguments ?? ""}`,
+          });
+        }
+      }
+    } finally {
+      if (nativeChunks) captureProviderNativeResponse({ provider: "local", operation: "streamTurn", response: { chunks: nativeChunks } });
+    }
+
+    return finishLocalTurn({
+      model,
+      content: textParts.join(""),
+      calls: [...toolCalls.values()].map<LlmToolCall>((call) => ({
+        id: call.id ?? crypto.randomUUID(),
+        name: toCanonicalToolName(call.name ?? "unknown_tool", nameMaps),
+        input: parseToolArguments(call.arguments || "{}"),
+      })),
+      nameMaps,
+      textToolCalls,
+      toolNames: [],
+      usage,
+    });
+  },
+};
+
+export default provider;
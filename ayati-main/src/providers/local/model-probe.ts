@@ -0,0 +1,137 @@
+import type { LlmProviderCapabilities } from "../../core/contracts/llm-protocol.js";
+
+export const LOCAL_MODEL_PROBE_TIMEOUT_MS = 10_000;
+
+export type LocalToolCallingMode = "native" | "text";
+
+/** What one `/v1/models` entry says about the configured model. Unknown fields stay undefined. */
+export interface LocalModelProbe {
+  model: string;
+  availableModels: string[];
+  nativeToolCalling?: boolean;
+  imageInput?: boolean;
+  jsonSchema?: boolean;
+  contextWindowTokens?: number;
+}
+
+const CONTEXT_WINDOW_FIELDS = ["context_length", "context_window", "max_model_len", "max_context_length"] as const;
+const TOOL_CAPABILITY_NAMES = new Set(["tools", "tool_use", "tool_calling", "function_calling"]);
+const IMAGE_CAPABILITY_NAMES = new Set(["vision", "image", "image_input"]);
+const JSON_SCHEMA_CAPABILITY_NAMES = new Set(["json_schema", "structured_output", "structured_outputs"]);
+
+export async function probeLocalModel(input: {
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}): Promise<LocalModelProbe> {
+  const url = `${input.baseURL.replace(/\/+$/, "")}/models`;
+  const fetchImpl = input.fetchImpl ?? fetch;
+  let body: unknown;
+  try {
+    const response = await fetchImpl(url, {
+      headers: input.apiKey ? { Authorization: `Bearer ${input.apiKey}` } : {},
+      signal: AbortSignal.timeout(input.timeoutMs ?? LOCAL_MODEL_PROBE_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    body = await response.json();
+  } catch (error) {
+    throw new Error(
+      `Local LLM server at ${input.baseURL} did not answer the model probe: ${error instanceof Error ? error.message : String(error)}.`,
+    );
+  }
+
+  const entries = isRecord(body) && Array.isArray(body["data"]) ? body["data"].filter(isRecord) : [];
+  const availableModels = entries
+    .map((entry) => entry["id"])
+    .filter((id): id is string => typeof id === "string" && id.length > 0);
+  const entry = entries.find((candidate) => candidate["id"] === input.model);
+  if (!entry) {
+    throw new Error(
+      `Local LLM server at ${input.baseURL} does not serve model "${input.model}". `
+        + `Available: ${availableModels.length > 0 ? availableModels.join(", ") : "none"}.`,
+    );
+  }
+
+  const nativeToolCalling = readCapability(entry, TOOL_CAPABILITY_NAMES, "tools");
+  const imageInput = readCapability(entry, IMAGE_CAPABILITY_NAMES);
+  const jsonSchema = readCapability(entry, JSON_SCHEMA_CAPABILITY_NAMES, "structured_outputs");
+  const contextWindowTokens = readContextWindow(entry);
+  return {
+    model: input.model,
+    availableModels,
+    ...(nativeToolCalling !== undefined ? { nativeToolCalling } : {}),
+    ...(imageInput !== undefined ? { imageInput } : {}),
+    ...(jsonSchema !== undefined ? { jsonSchema } : {}),
+    ...(contextWindowTokens !== undefined ? { contextWindowTokens } : {}),
+  };
+}
+
+/** Unadvertised features are treated as absent; `mode` lets an operator force either tool-calling path. */
+export function localCapabilitiesFromProbe(
+  probe: LocalModelProbe,
+  mode?: LocalToolCallingMode,
+): LlmProviderCapabilities {
+  const nativeToolCalling = mode ? mode === "native" : probe.nativeToolCalling === true;
+  return {
+    nativeToolCalling,
+    textToolCallFallback: !nativeToolCalling,
+    streaming: true,
+    imageInput: probe.imageInput === true,
+    structuredOutput: {
+      jsonObject: probe.jsonSchema === true,
+      jsonSchema: probe.jsonSchema === true,
+    },
+  };
+}
+
+export function readLocalToolCallingMode(env: NodeJS.ProcessEnv = process.env): LocalToolCallingMode | undefined {
+  const raw = env["LOCAL_LLM_TOOL_CALLING"]?.trim();
+  if (!raw) return undefined;
+  if (raw !== "native" && raw !== "text") {
+    throw new Error(`LOCAL_LLM_TOOL_CALLING must be one of native, text; received ${JSON.stringify(raw)}.`);
+  }
+  return raw;
+}
+
+function readCapability(
+  entry: Record<string, unknown>,
+  names: Set<string>,
+  supportedParameter?: string,
+): boolean | undefined {
+  const capabilities = entry["capabilities"];
+  if (Array.isArray(capabilities)) {
+    return capabilities.some((name) => typeof name === "string" && names.has(name.toLowerCase()));
+  }
+  if (isRecord(capabilities)) {
+    const flags = Object.entries(capabilities)
+      .filter(([name, value]) => names.has(name.toLowerCase()) && typeof value === "boolean")
+      .map(([, value]) => value as boolean);
+    if (flags.length > 0) return flags.some(Boolean);
+  }
+  const supportedParameters = entry["supported_parameters"];
+  if (supportedParameter && Array.isArray(supportedParameters)) {
+    return supportedParameters.includes(supportedParameter);
+  }
+  return undefined;
+}
+
+function readContextWindow(entry: Record<string, unknown>): number | undefined {
+  for (const field of CONTEXT_WINDOW_FIELDS) {
+    const value = positiveInteger(entry[field]);
+    if (value !== undefined) return value;
+  }
+  const meta = entry["meta"];
+  return isRecord(meta) ? positiveInteger(meta["n_ctx_train"]) : undefined;
+}
+
+function positiveInteger(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isSafeInteger(value) && value > 0 ? value : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
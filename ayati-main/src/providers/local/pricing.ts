@@ -0,0 +1,12 @@
+import type { LlmCostEstimate, LlmTokenUsage } from "../../core/contracts/llm-protocol.js";
+import { estimateTokenCost } from "../shared/token-pricing.js";
+
+/** Self-hosted models cost nothing per token; estimates still flow so token budgets and metrics line up. */
+export function estimateLocalCost(usage: LlmTokenUsage): LlmCostEstimate {
+  return estimateTokenCost({
+    inputUsdPerMillion: 0,
+    cachedInputUsdPerMillion: 0,
+    outputUsdPerMillion: 0,
+    source: "self-hosted",
+  }, usage);
+}
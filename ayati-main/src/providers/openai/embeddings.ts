@@ -0,0 +1,33 @@
+import OpenAI from "openai";
+import type { TextEmbedder } from "ayati-context-engine";
+
+const OPENAI_EMBEDDING_MIN_SCORE = 0.3;
+
+export interface OpenAiEmbedderOptions {
+  model: string;
+  apiKey?: string;
+}
+
+/**
+ * Provider-backed embedder for hybrid history, workstream, and memory search. Vectors are keyed by
+ * model, so switching models re-embeds stored documents on the next search.
+ */
+export function createOpenAiEmbedder(options: OpenAiEmbedderOptions): TextEmbedder {
+  const apiKey = options.apiKey ?? process.env["OPENAI_API_KEY"];
+  if (!apiKey) {
+    throw new Error("Missing OPENAI_API_KEY environment variable.");
+  }
+  const { model } = options;
+  const client = new OpenAI({ apiKey });
+  return {
+    id: `openai:${model}`,
+    minScore: OPENAI_EMBEDDING_MIN_SCORE,
+    async embed(texts) {
+      if (texts.length === 0) return [];
+      const response = await client.embeddings.create({ model, input: [...texts] });
+      return [...response.data]
+        .sort((left, right) => left.index - right.index)
+        .map((item) => Float32Array.from(item.embedding));
+    },
+  };
+}
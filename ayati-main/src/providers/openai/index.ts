@@ -15,7 +15,7 @@ import type {
 import { estimateTurnInputTokens } from "../../prompt/token-estimator.js";
 import { toOpenAiResponseFormat } from "../shared/openai-response-format.js";
 import { hasImageInput, toOpenAiCompatibleContent } from "../shared/multimodal.js";
-import { getProviderRequestOptions } from "../shared/provider-call-policy.js";
+import { getProviderTurnRequestOptions } from "../shared/provider-call-policy.js";
 import {
   compileResponseFormatForProvider,
   getProviderCapabilities,
@@ -27,6 +27,7 @@ import {
   type ToolNameMaps,
 } from "../shared/tool-name-mapping.js";
 import { readOpenAiCompatibleUsage } from "../shared/token-usage.js";
+import { estimateOpenAiCost } from "./pricing.js";
 import {
   captureProviderNativePayload,
   captureProviderNativeResponse,
@@ -189,7 +190,7 @@ const provider: LlmProvider = {
       throw new Error("OpenAI provider not started.");
     }
 
-    const model = getModelForProvider("openai");
+    const model = input.model ?? getModelForProvider("openai");
     if (hasImageInput(input.messages)) {
       const estimate = estimateTurnInputTokens(input);
       return {
@@ -226,7 +227,7 @@ const provider: LlmProvider = {
       throw new Error("OpenAI provider not started.");
     }
 
-    const model = getModelForProvider("openai");
+    const model = input.model ?? getModelForProvider("openai");
     const nameMaps = buildToolNameMapsForProvider(provider.name, input.tools);
     const messages = await toOpenAiMessages(input.messages, nameMaps);
     const responseTools = toOpenAiResponseTools(input.tools, nameMaps);
@@ -258,9 +259,10 @@ const provider: LlmProvider = {
         : {}),
     } as OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming;
     captureProviderNativePayload({ provider: "openai", operation: "generateTurn", payload: request });
-    const response = await client.chat.completions.create(request, getProviderRequestOptions());
+    const response = await client.chat.completions.create(request, getProviderTurnRequestOptions(input));
     captureProviderNativeResponse({ provider: "openai", operation: "generateTurn", response });
     const usage = readOpenAiCompatibleUsage("openai", model, response);
+    const cost = usage ? estimateOpenAiCost(model, usage) : undefined;
 
     const message = response.choices[0]?.message;
     if (!message) {
@@ -285,6 +287,7 @@ const provider: LlmProvider = {
         calls,
         ...(typeof message.content === "string" ? { assistantContent: message.content } : {}),
         ...(usage ? { usage } : {}),
+        ...(cost ? { cost } : {}),
       };
     }
 
@@ -297,6 +300,7 @@ const provider: LlmProvider = {
       type: "assistant",
       content: reply,
       ...(usage ? { usage } : {}),
+      ...(cost ? { cost } : {}),
     };
   },
 
@@ -305,7 +309,7 @@ const provider: LlmProvider = {
       throw new Error("OpenAI provider not started.");
     }
 
-    const model = getModelForProvider("openai");
+    const model = input.model ?? getModelForProvider("openai");
     const nameMaps = buildToolNameMapsForProvider(provider.name, input.tools);
     const messages = await toOpenAiMessages(input.messages, nameMaps);
     const responseTools = toOpenAiResponseTools(input.tools, nameMaps);
@@ -338,7 +342,7 @@ const provider: LlmProvider = {
         : {}),
     };
     captureProviderNativePayload({ provider: "openai", operation: "streamTurn", payload: request });
-    const stream = await client.chat.completions.create(request as any, getProviderRequestOptions());
+    const stream = await client.chat.completions.create(request as any, getProviderTurnRequestOptions(input));
 
     const textParts: string[] = [];
     const nativeChunks: unknown[] | undefined = isLiveEvaluationEnabled() ? [] : undefined;
@@ -373,6 +377,7 @@ const provider: LlmProvider = {
     } finally {
       if (nativeChunks) captureProviderNativeResponse({ provider: "openai", operation: "streamTurn", response: { chunks: nativeChunks } });
     }
+    const cost = usage ? estimateOpenAiCost(model, usage) : undefined;
 
     if (toolCalls.size > 0) {
       const calls = [...toolCalls.values()].map<LlmToolCall>((call) => ({
@@ -385,6 +390,7 @@ const provider: LlmProvider = {
         calls,
         ...(textParts.length > 0 ? { assistantContent: textParts.join("") } : {}),
         ...(usage ? { usage } : {}),
+        ...(cost ? { cost } : {}),
       };
     }
 
@@ -397,6 +403,7 @@ const provider: LlmProvider = {
       type: "assistant",
       content: reply,
       ...(usage ? { usage } : {}),
+      ...(cost ? { cost } : {}),
     };
   },
 };
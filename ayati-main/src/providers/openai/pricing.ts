@@ -0,0 +1,61 @@
+import type { LlmCostEstimate, LlmTokenUsage } from "../../core/contracts/llm-protocol.js";
+import { estimateModelCost, type ModelPricingEntry } from "../shared/token-pricing.js";
+
+const OPENAI_PRICING_SOURCE = "https://openai.com/api/pricing";
+
+/** Patterns also match after a `/`, so OpenRouter ids such as `openai/gpt-4o` reuse this table. */
+export const OPENAI_MODEL_PRICING: ModelPricingEntry[] = [
+  {
+    pattern: /(?:^|\/)gpt-5[-.]?nano(?:$|[^a-z0-9])/i,
+    pricing: openAiPricing(0.05, 0.005, 0.40),
+  },
+  {
+    pattern: /(?:^|\/)gpt-5[-.]?mini(?:$|[^a-z0-9])/i,
+    pricing: openAiPricing(0.25, 0.025, 2.00),
+  },
+  {
+    pattern: /(?:^|\/)gpt-5(?:$|[^a-z0-9])/i,
+    pricing: openAiPricing(1.25, 0.125, 10.00),
+  },
+  {
+    pattern: /(?:^|\/)gpt-4\.1-nano(?:$|[^a-z0-9])/i,
+    pricing: openAiPricing(0.10, 0.025, 0.40),
+  },
+  {
+    pattern: /(?:^|\/)gpt-4\.1-mini(?:$|[^a-z0-9])/i,
+    pricing: openAiPricing(0.40, 0.10, 1.60),
+  },
+  {
+    pattern: /(?:^|\/)gpt-4\.1(?:$|[^a-z0-9])/i,
+    pricing: openAiPricing(2.00, 0.50, 8.00),
+  },
+  {
+    pattern: /(?:^|\/)gpt-4o-mini(?:$|[^a-z0-9])/i,
+    pricing: openAiPricing(0.15, 0.075, 0.60),
+  },
+  {
+    pattern: /(?:^|\/)gpt-4o(?:$|[^a-z0-9])/i,
+    pricing: openAiPricing(2.50, 1.25, 10.00),
+  },
+  {
+    pattern: /(?:^|\/)o4-mini(?:$|[^a-z0-9])/i,
+    pricing: openAiPricing(1.10, 0.275, 4.40),
+  },
+  {
+    pattern: /(?:^|\/)o3(?:$|[^a-z0-9])/i,
+    pricing: openAiPricing(2.00, 0.50, 8.00),
+  },
+];
+
+export function estimateOpenAiCost(model: string, usage: LlmTokenUsage): LlmCostEstimate | undefined {
+  return estimateModelCost(OPENAI_MODEL_PRICING, model, usage);
+}
+
+function openAiPricing(input: number, cachedInput: number, output: number) {
+  return {
+    inputUsdPerMillion: input,
+    cachedInputUsdPerMillion: cachedInput,
+    outputUsdPerMillion: output,
+    source: OPENAI_PRICING_SOURCE,
+  };
+}
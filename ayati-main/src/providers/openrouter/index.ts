@@ -17,7 +17,7 @@ import type {
 import { estimateTurnInputTokens } from "../../prompt/token-estimator.js";
 import { toOpenAiResponseFormat } from "../shared/openai-response-format.js";
 import { toOpenAiCompatibleContent } from "../shared/multimodal.js";
-import { getProviderRequestOptions } from "../shared/provider-call-policy.js";
+import { getProviderTurnRequestOptions } from "../shared/provider-call-policy.js";
 import {
   compileResponseFormatForProvider,
   getProviderCapabilities,
@@ -29,6 +29,7 @@ import {
   type ToolNameMaps,
 } from "../shared/tool-name-mapping.js";
 import { readOpenAiCompatibleUsage } from "../shared/token-usage.js";
+import { estimateOpenRouterCost } from "./pricing.js";
 import {
   captureProviderNativePayload,
   captureProviderNativeResponse,
@@ -231,7 +232,7 @@ const provider: LlmProvider = {
       throw new Error("OpenRouter provider not started.");
     }
 
-    const model = getModelForProvider("openrouter");
+    const model = input.model ?? getModelForProvider("openrouter");
     const estimate = estimateTurnInputTokens(input);
 
     return {
@@ -247,7 +248,7 @@ const provider: LlmProvider = {
       throw new Error("OpenRouter provider not started.");
     }
 
-    const model = getModelForProvider("openrouter");
+    const model = input.model ?? getModelForProvider("openrouter");
     const nameMaps = buildToolNameMapsForProvider(provider.name, input.tools);
     const messages = await toOpenRouterMessages(input.messages, nameMaps);
     const responseTools = toOpenRouterResponseTools(input.tools, nameMaps);
@@ -281,7 +282,7 @@ const provider: LlmProvider = {
     captureProviderNativePayload({ provider: "openrouter", operation: "generateTurn", payload: request });
     const response = await client.chat.completions.create(
       request as any,
-      getProviderRequestOptions(),
+      getProviderTurnRequestOptions(input),
     ).catch((error: unknown) => {
       if (isMalformedProviderResponseCause(error)) {
         throw malformedOpenRouterResponseError(model, error);
@@ -290,6 +291,7 @@ const provider: LlmProvider = {
     });
     captureProviderNativeResponse({ provider: "openrouter", operation: "generateTurn", response });
     const usage = readOpenAiCompatibleUsage("openrouter", model, response);
+    const cost = usage ? estimateOpenRouterCost(model, usage) : undefined;
 
     const choices = Array.isArray(response.choices) ? response.choices : [];
     const message = choices[0]?.message;
@@ -315,6 +317,7 @@ const provider: LlmProvider = {
         calls,
         ...(typeof message.content === "string" ? { assistantContent: message.content } : {}),
         ...(usage ? { usage } : {}),
+        ...(cost ? { cost } : {}),
       };
     }
 
@@ -327,6 +330,7 @@ const provider: LlmProvider = {
       type: "assistant",
       content: reply,
       ...(usage ? { usage } : {}),
+      ...(cost ? { cost } : {}),
     };
   },
 };
@@ -0,0 +1,31 @@
+import type { LlmCostEstimate, LlmTokenUsage } from "../../core/contracts/llm-protocol.js";
+import { ANTHROPIC_MODEL_PRICING } from "../anthropic/pricing.js";
+import { OPENAI_MODEL_PRICING } from "../openai/pricing.js";
+import { estimateModelCost, type ModelPricingEntry } from "../shared/token-pricing.js";
+
+const OPENROUTER_PRICING_SOURCE = "https://openrouter.ai/models";
+
+/** OpenRouter passes upstream list prices through, so routed OpenAI and Anthropic ids reuse those tables. */
+const MODEL_PRICING: ModelPricingEntry[] = [
+  {
+    pattern: /:free$/i,
+    pricing: {
+      inputUsdPerMillion: 0,
+      cachedInputUsdPerMillion: 0,
+      outputUsdPerMillion: 0,
+      source: OPENROUTER_PRICING_SOURCE,
+    },
+  },
+  ...OPENAI_MODEL_PRICING.map((entry) => ({
+    pattern: new RegExp(`^openai${entry.pattern.source}`, entry.pattern.flags),
+    pricing: entry.pricing,
+  })),
+  ...ANTHROPIC_MODEL_PRICING.map((entry) => ({
+    pattern: new RegExp(`^anthropic/${entry.pattern.source}`, entry.pattern.flags),
+    pricing: entry.pricing,
+  })),
+];
+
+export function estimateOpenRouterCost(model: string, usage: LlmTokenUsage): LlmCostEstimate | undefined {
+  return estimateModelCost(MODEL_PRICING, model, usage);
+}
@@ -1,41 +1,52 @@
 import {
-  getActiveProvider,
+  LLM_MODEL_ROLES,
+  resolveLlmModelRoutes,
+  type ResolvedLlmModelRoute,
   type SupportedLlmProvider,
 } from "../../config/llm-runtime-config.js";
 import type { LlmProvider } from "../../core/contracts/provider.js";
 import type {
   LlmInputTokenCount,
+  LlmModelRole,
+  LlmProviderCapabilities,
   LlmTurnStreamCallbacks,
   LlmTurnInput,
   LlmTurnOutput,
 } from "../../core/contracts/llm-protocol.js";
+import { devWarn } from "../../shared/index.js";
+import { hasImageInput, withoutImageInput } from "../shared/multimodal.js";
 import { getProviderCapabilities } from "../shared/provider-profiles.js";
+import { classifyProviderFailure } from "../shared/provider-call-policy.js";
 
-let activeProviderName: SupportedLlmProvider | null = null;
-let activeProvider: LlmProvider | null = null;
+const activeProviders = new Map<SupportedLlmProvider, LlmProvider>();
 let started = false;
 
 const runtimeProvider: LlmProvider = {
   get name() {
-    return activeProvider?.name ?? getActiveProvider();
+    return primaryRoute("decision").provider;
+  },
+
+  get model() {
+    return primaryRoute("decision").model;
   },
 
   get version() {
-    return activeProvider?.version ?? "1.0.0";
+    return activeProviders.get(primaryRoute("decision").provider)?.version ?? "1.0.0";
   },
 
   get capabilities() {
-    return activeProvider?.capabilities ?? getProviderCapabilities(getActiveProvider());
+    const provider = primaryRoute("decision").provider;
+    return activeProviders.get(provider)?.capabilities ?? getProviderCapabilities(provider);
   },
 
   async start() {
     started = true;
-    await ensureActiveProvider();
+    await ensureProvider(primaryRoute("decision").provider);
   },
 
   async stop() {
     started = false;
-    await stopActiveProvider();
+    await stopProviders(() => true);
   },
 
   async countInputTokens(input: LlmTurnInput): Promise<LlmInputTokenCount> {
@@ -43,12 +54,14 @@ const runtimeProvider: LlmProvider = {
       throw new Error("Runtime provider not started.");
     }
 
-    const provider = await ensureActiveProvider();
+    const route = primaryRoute(input.modelRole ?? "decision");
+    await stopUnroutedProviders();
+    const provider = await ensureProvider(route.provider);
     if (!provider.countInputTokens) {
       throw new Error(`Provider "${provider.name}" does not support input token counting.`);
     }
 
-    return provider.countInputTokens(input);
+    return provider.countInputTokens({ ...input, model: route.model });
   },
 
   async generateTurn(input: LlmTurnInput): Promise<LlmTurnOutput> {
@@ -56,8 +69,7 @@ const runtimeProvider: LlmProvider = {
       throw new Error("Runtime provider not started.");
     }
 
-    const provider = await ensureActiveProvider();
-    return provider.generateTurn(input);
+    return await generateOnRoutes(input, (provider, routedInput) => provider.generateTurn(routedInput));
   },
 
   async streamTurn(input: LlmTurnInput, callbacks: LlmTurnStreamCallbacks): Promise<LlmTurnOutput> {
@@ -65,44 +77,162 @@ const runtimeProvider: LlmProvider = {
       throw new Error("Runtime provider not started.");
     }
 
-    const provider = await ensureActiveProvider();
-    if (!provider.streamTurn) {
-      return provider.generateTurn(input);
-    }
-    return provider.streamTurn(input, callbacks);
+    let streamedText = false;
+    const trackedCallbacks: LlmTurnStreamCallbacks = {
+      ...callbacks,
+      onTextDelta: (delta) => {
+        streamedText = true;
+        callbacks.onTextDelta?.(delta);
+      },
+    };
+    return await generateOnRoutes(
+      input,
+      (provider, routedInput) => provider.streamTurn
+        ? provider.streamTurn(routedInput, trackedCallbacks)
+        : provider.generateTurn(routedInput),
+      () => streamedText,
+    );
   },
 };
 
 export default runtimeProvider;
 
-async function ensureActiveProvider(): Promise<LlmProvider> {
-  const configuredProvider = getActiveProvider();
+/**
+ * Walks the role's route chain. Only transient failures (timeouts, rate limits, 5xx) move on to
+ * the next route; a reply that already streamed text to the user is never replayed elsewhere.
+ * Callers compile the turn for the primary route, so each route gets a copy adapted to its own
+ * capabilities and routes that cannot serve the turn are skipped.
+ */
+async function generateOnRoutes(
+  input: LlmTurnInput,
+  generate: (provider: LlmProvider, routedInput: LlmTurnInput) => Promise<LlmTurnOutput>,
+  hasStreamedOutput: () => boolean = () => false,
+): Promise<LlmTurnOutput> {
+  const role = input.modelRole ?? "decision";
+  const routes = resolveLlmModelRoutes(role);
+  await stopUnroutedProviders();
+  const fallbackFrom: string[] = [];
+  let lastError: unknown;
+
+  for (const [index, route] of routes.entries()) {
+    const isLastRoute = index === routes.length - 1;
+    let provider: LlmProvider;
+    try {
+      provider = await ensureProvider(route.provider);
+    } catch (error) {
+      if (index > 0) {
+        // A fallback that cannot start is skipped so the earlier failure stays the reported one.
+        devWarn(`Fallback provider ${routeKey(route)} failed to start:`, errorMessage(error));
+        continue;
+      }
+      if (!canFallBack(error, route, isLastRoute, input)) {
+        throw error;
+      }
+      lastError = error;
+      fallbackFrom.push(routeKey(route));
+      continue;
+    }
+
+    const routedInput = compileTurnForRoute({ ...input, model: route.model }, provider.capabilities);
+    if (!routedInput) {
+      devWarn(`Provider ${routeKey(route)} cannot call the tools this turn needs; skipping it.`);
+      continue;
+    }
+
+    try {
+      const output = await generate(provider, routedInput);
+      return {
+        ...output,
+        servedBy: {
+          provider: route.provider,
+          model: route.model,
+          role,
+          ...(fallbackFrom.length > 0 ? { fallbackFrom } : {}),
+        },
+      };
+    } catch (error) {
+      if (hasStreamedOutput() || !canFallBack(error, route, isLastRoute, input)) {
+        throw error;
+      }
+      devWarn(`Provider ${routeKey(route)} failed transiently; trying ${routeKey(routes[index + 1]!)}.`);
+      lastError = error;
+      fallbackFrom.push(routeKey(route));
+    }
+  }
+
+  throw lastError ?? new Error(`No provider route configured for role "${role}" can serve this turn.`);
+}
 
-  if (activeProvider && activeProviderName === configuredProvider) {
-    return activeProvider;
+/**
+ * Images become text notes for routes without image input; structured output is already narrowed
+ * by each provider. Returns undefined when the turn offers tools the route cannot call.
+ */
+function compileTurnForRoute(input: LlmTurnInput, capabilities: LlmProviderCapabilities): LlmTurnInput | undefined {
+  if ((input.tools?.length ?? 0) > 0 && !capabilities.nativeToolCalling && !capabilities.textToolCallFallback) {
+    return undefined;
   }
+  return capabilities.imageInput !== true && hasImageInput(input.messages)
+    ? { ...input, messages: withoutImageInput(input.messages) }
+    : input;
+}
 
-  await stopActiveProvider();
+function canFallBack(
+  error: unknown,
+  route: ResolvedLlmModelRoute,
+  isLastRoute: boolean,
+  input: LlmTurnInput,
+): boolean {
+  return !isLastRoute
+    && !input.signal?.aborted
+    && classifyProviderFailure(error, route.provider).kind === "transient";
+}
+
+function primaryRoute(role: LlmModelRole): ResolvedLlmModelRoute {
+  return resolveLlmModelRoutes(role)[0]!;
+}
 
-  const nextProvider = await loadProviderModule(configuredProvider);
+async function ensureProvider(name: SupportedLlmProvider): Promise<LlmProvider> {
+  const existing = activeProviders.get(name);
+  if (existing) {
+    return existing;
+  }
+
+  const nextProvider = await loadProviderModule(name);
 
   if (started) {
     await nextProvider.start();
   }
 
-  activeProviderName = configuredProvider;
-  activeProvider = nextProvider;
+  activeProviders.set(name, nextProvider);
 
   return nextProvider;
 }
 
-async function stopActiveProvider(): Promise<void> {
-  if (activeProvider) {
-    await activeProvider.stop();
+/** Providers that no role or fallback references any more are stopped after a config change. */
+async function stopUnroutedProviders(): Promise<void> {
+  const routed = new Set<SupportedLlmProvider>();
+  for (const role of LLM_MODEL_ROLES) {
+    for (const route of resolveLlmModelRoutes(role)) {
+      routed.add(route.provider);
+    }
+  }
+  await stopProviders((name) => !routed.has(name));
+}
+
+async function stopProviders(shouldStop: (name: SupportedLlmProvider) => boolean): Promise<void> {
+  for (const [name, provider] of [...activeProviders]) {
+    if (!shouldStop(name)) continue;
+    activeProviders.delete(name);
+    await provider.stop();
   }
+}
+
+function routeKey(route: ResolvedLlmModelRoute): string {
+  return `${route.provider}:${route.model}`;
+}
 
-  activeProvider = null;
-  activeProviderName = null;
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
 }
 
 async function loadProviderModule(provider: SupportedLlmProvider): Promise<LlmProvider> {
@@ -115,6 +245,8 @@ async function loadProviderModule(provider: SupportedLlmProvider): Promise<LlmPr
       return (await import("../openai/index.js")).default;
     case "anthropic":
       return (await import("../anthropic/index.js")).default;
+    case "local":
+      return (await import("../local/index.js")).default;
     default:
       throw new Error(`Unsupported configured provider "${provider}".`);
   }
@@ -8,9 +8,10 @@ import {
   MIN_SUPPORTED_LLM_CONTEXT_WINDOW_TOKENS,
   resolveLlmContextPressureThresholds,
 } from "../../config/llm-context-profile.js";
+import type { SupportedLlmProvider } from "../../config/llm-runtime-config.js";
 import type { LlmProvider } from "../../core/contracts/provider.js";
 
-export type ModelContextLimitSource = "configured" | "default_128k";
+export type ModelContextLimitSource = "configured" | "probed" | "default_128k";
 
 export interface ResolvedModelContextLimits {
   provider: string;
@@ -33,15 +34,47 @@ type UnresolvedModelContextLimits = Omit<
   "preparationInputTokens" | "softInputTokens" | "recoveryTargetTokens" | "hardInputTokens"
 >>;
 
+const probedContextWindows = new Map<string, number>();
+
+/** Remembers the context window a self-hosted server reported for one model; configured limits still win. */
+export function recordProbedModelContextWindow(
+  provider: SupportedLlmProvider,
+  model: string,
+  contextWindowTokens: number,
+): void {
+  if (contextWindowTokens < MIN_SUPPORTED_LLM_CONTEXT_WINDOW_TOKENS) {
+    throw new Error(
+      `Model "${model}" reports a ${contextWindowTokens}-token context window; `
+        + `Ayati requires at least ${MIN_SUPPORTED_LLM_CONTEXT_WINDOW_TOKENS}.`,
+    );
+  }
+  probedContextWindows.set(probedKey(provider, model), contextWindowTokens);
+}
+
+export function clearProbedModelContextWindows(provider: SupportedLlmProvider): void {
+  for (const key of [...probedContextWindows.keys()]) {
+    if (key.startsWith(`${provider}:`)) probedContextWindows.delete(key);
+  }
+}
+
 export function resolveModelContextLimits(provider: LlmProvider): ResolvedModelContextLimits {
   if (!isSupportedLlmProvider(provider.name)) {
     return defaultLimits(provider.name, provider.name);
   }
 
-  const model = getModelForProvider(provider.name);
+  const model = provider.model ?? getModelForProvider(provider.name);
   const configured = getConfiguredModelContextLimits(provider.name, model);
   if (!configured) {
-    return defaultLimits(provider.name, model);
+    const probed = probedContextWindows.get(probedKey(provider.name, model));
+    return probed === undefined
+      ? defaultLimits(provider.name, model)
+      : resolveThresholds({
+          provider: provider.name,
+          model,
+          contextWindowTokens: probed,
+          outputReserveTokens: DEFAULT_LLM_OUTPUT_RESERVE_TOKENS,
+          source: "probed",
+        });
   }
 
   return resolveThresholds({
@@ -81,3 +114,7 @@ function resolveThresholds(input: UnresolvedModelContextLimits): ResolvedModelCo
     hardInputTokens: thresholds.hardInputTokens,
   };
 }
+
+function probedKey(provider: string, model: string): string {
+  return `${provider}:${model.trim()}`;
+}
@@ -14,6 +14,19 @@ export function hasImageInput(messages: LlmMessage[]): boolean {
   );
 }
 
+/** Replaces image parts with a short text note for models without image input. */
+export function withoutImageInput(messages: LlmMessage[]): LlmMessage[] {
+  return messages.map((message) => {
+    if (message.role !== "user" || typeof message.content === "string") return message;
+    return {
+      ...message,
+      content: message.content.map((part): LlmUserContentPart => part.type === "image"
+        ? { type: "text", text: `[Image ${part.name ?? part.imagePath} omitted: this model does not accept images.]` }
+        : part),
+    };
+  });
+}
+
 export function flattenUserTextContent(content: LlmUserContent): string {
   if (typeof content === "string") {
     return content;
@@ -51,6 +51,17 @@ export function getProviderRequestOptions(
   };
 }
 
+/** Request options for one model turn; the turn's abort signal cancels the in-flight HTTP call. */
+export function getProviderTurnRequestOptions(
+  input: { signal?: AbortSignal },
+  env: NodeJS.ProcessEnv = process.env,
+): { timeout: number; maxRetries: 0; signal?: AbortSignal } {
+  return {
+    ...getProviderRequestOptions(env),
+    ...(input.signal ? { signal: input.signal } : {}),
+  };
+}
+
 export function readProviderRequestTimeoutMs(
   env: NodeJS.ProcessEnv = process.env,
 ): number {
@@ -39,6 +39,11 @@ const ANTHROPIC_TOOL_NAMES: ToolNamePolicy = {
   maxLength: 64,
 };
 
+const LOCAL_TOOL_NAMES: ToolNamePolicy = {
+  pattern: DEFAULT_TOOL_NAME_PATTERN,
+  maxLength: 64,
+};
+
 const OPENAI_STRUCTURED_OUTPUT: StructuredOutputProfile = {
   jsonObject: true,
   jsonSchema: true,
@@ -81,6 +86,20 @@ const ANTHROPIC_STRUCTURED_OUTPUT: StructuredOutputProfile = {
   jsonSchema: false,
 };
 
+const LOCAL_STRUCTURED_OUTPUT: StructuredOutputProfile = {
+  jsonObject: false,
+  jsonSchema: false,
+  validateJsonSchema(schema) {
+    return validateSchemaNode(schema, {
+      requireStrictObjects: false,
+      allowAnyOf: true,
+      allowAllOf: true,
+      allowOneOf: false,
+      allowNot: false,
+    });
+  },
+};
+
 export const PROVIDER_PROFILES: Record<SupportedLlmProvider, ProviderProfile> = {
   openai: {
     capabilities: {
@@ -128,10 +147,37 @@ export const PROVIDER_PROFILES: Record<SupportedLlmProvider, ProviderProfile> =
     },
     toolNames: FIREWORKS_TOOL_NAMES,
   },
+  local: {
+    capabilities: {
+      nativeToolCalling: false,
+      textToolCallFallback: true,
+      streaming: true,
+      imageInput: false,
+      structuredOutput: {
+        jsonObject: LOCAL_STRUCTURED_OUTPUT.jsonObject,
+        jsonSchema: LOCAL_STRUCTURED_OUTPUT.jsonSchema,
+      },
+    },
+    toolNames: LOCAL_TOOL_NAMES,
+  },
 };
 
+// Self-hosted servers differ per model, so their start() probe replaces the static profile.
+const probedCapabilities = new Map<SupportedLlmProvider, LlmProviderCapabilities>();
+
 export function getProviderCapabilities(provider: SupportedLlmProvider): LlmProviderCapabilities {
-  return cloneCapabilities(PROVIDER_PROFILES[provider].capabilities);
+  return cloneCapabilities(probedCapabilities.get(provider) ?? PROVIDER_PROFILES[provider].capabilities);
+}
+
+export function recordProbedProviderCapabilities(
+  provider: SupportedLlmProvider,
+  capabilities: LlmProviderCapabilities,
+): void {
+  probedCapabilities.set(provider, cloneCapabilities(capabilities));
+}
+
+export function clearProbedProviderCapabilities(provider: SupportedLlmProvider): void {
+  probedCapabilities.delete(provider);
 }
 
 export function getProviderToolNamePolicy(providerName: string): ToolNamePolicy {
@@ -182,6 +228,8 @@ function getStructuredOutputProfile(providerName: string): StructuredOutputProfi
       return OPENROUTER_STRUCTURED_OUTPUT;
     case "anthropic":
       return ANTHROPIC_STRUCTURED_OUTPUT;
+    case "local":
+      return LOCAL_STRUCTURED_OUTPUT;
     default:
       return undefined;
   }
@@ -197,6 +245,11 @@ function getKnownProviderProfile(providerName: string): ProviderProfile | undefi
 function cloneCapabilities(capabilities: LlmProviderCapabilities): LlmProviderCapabilities {
   return {
     nativeToolCalling: capabilities.nativeToolCalling,
+    ...(typeof capabilities.textToolCallFallback === "boolean"
+      ? {
+          textToolCallFallback: capabilities.textToolCallFallback,
+        }
+      : {}),
     ...(typeof capabilities.streaming === "boolean"
       ? {
           streaming: capabilities.streaming,
@@ -0,0 +1,52 @@
+import type { LlmCostEstimate, LlmTokenUsage } from "../../core/contracts/llm-protocol.js";
+
+export interface TokenPricing {
+  inputUsdPerMillion: number;
+  cachedInputUsdPerMillion: number;
+  outputUsdPerMillion: number;
+  source: string;
+}
+
+export interface ModelPricingEntry {
+  pattern: RegExp;
+  pricing: TokenPricing;
+}
+
+/** First matching entry wins, so more specific model patterns must come before family patterns. */
+export function findModelPricing(table: readonly ModelPricingEntry[], model: string): TokenPricing | undefined {
+  return table.find((entry) => entry.pattern.test(model))?.pricing;
+}
+
+export function estimateTokenCost(pricing: TokenPricing, usage: LlmTokenUsage): LlmCostEstimate {
+  const cachedInputTokens = Math.max(0, usage.cachedInputTokens ?? 0);
+  const uncachedInputTokens = Math.max(0, usage.inputTokens - cachedInputTokens);
+  const inputCostUsd = priceTokens(uncachedInputTokens, pricing.inputUsdPerMillion);
+  const cachedInputCostUsd = priceTokens(cachedInputTokens, pricing.cachedInputUsdPerMillion);
+  const outputCostUsd = priceTokens(usage.outputTokens, pricing.outputUsdPerMillion);
+
+  return {
+    currency: "USD",
+    inputCostUsd,
+    cachedInputCostUsd,
+    outputCostUsd,
+    totalCostUsd: roundUsd(inputCostUsd + cachedInputCostUsd + outputCostUsd),
+    pricingSource: pricing.source,
+  };
+}
+
+export function estimateModelCost(
+  table: readonly ModelPricingEntry[],
+  model: string,
+  usage: LlmTokenUsage,
+): LlmCostEstimate | undefined {
+  const pricing = findModelPricing(table, model);
+  return pricing ? estimateTokenCost(pricing, usage) : undefined;
+}
+
+function priceTokens(tokens: number, usdPerMillion: number): number {
+  return roundUsd((Math.max(0, tokens) / 1_000_000) * usdPerMillion);
+}
+
+export function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000_000) / 1_000_000_000;
+}
@@ -0,0 +1,23 @@
+export { ScheduleStore } from "./schedule-store.js";
+export type {
+  ScheduleFireRecord,
+  ScheduleFireStatus,
+  ScheduleKind,
+  ScheduleRecord,
+  ScheduleStatus,
+} from "./schedule-store.js";
+export { SchedulerRuntime, scheduledRunMessage } from "./scheduler-runtime.js";
+export type {
+  CreateScheduleRequest,
+  ScheduledRunNotification,
+  SchedulerRuntimeOptions,
+  SubmitScheduledChatInput,
+} from "./scheduler-runtime.js";
+export { loadSchedulerRuntimeConfig } from "./scheduler-config.js";
+export type { SchedulerRuntimeConfig } from "./scheduler-config.js";
+export {
+  nextCronFire,
+  parseCronExpression,
+  parseScheduleTime,
+} from "./schedule-expression.js";
+export type { CronSchedule } from "./schedule-expression.js";
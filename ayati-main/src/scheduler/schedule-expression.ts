@@ -0,0 +1,214 @@
+import { getTimeZoneOffsetMinutes, isValidTimeZone } from "../skills/builtins/system/time.js";
+
+/** Searching further than this for the next fire means the expression can never match (for example `0 0 30 2 *`). */
+const MAX_SEARCH_DAYS = 5 * 366;
+
+const CRON_MACROS: Readonly<Record<string, string>> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesStartAt?: number;
+}
+
+const FIELDS: readonly CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, namesStartAt: 1 },
+  { name: "day of week", min: 0, max: 7, names: WEEKDAY_NAMES, namesStartAt: 0 },
+];
+
+export interface CronSchedule {
+  expression: string;
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  daysOfWeek: ReadonlySet<number>;
+  /** Cron matches either day field when both are restricted, and only the restricted one otherwise. */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+export interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second?: number;
+}
+
+/** Parses a five-field cron expression (minute hour day-of-month month day-of-week) or an `@daily`-style macro. */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = expression.trim().replace(/\s+/g, " ");
+  const expanded = CRON_MACROS[normalized.toLowerCase()] ?? normalized;
+  const parts = expanded.split(" ");
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields: minute hour day-of-month month day-of-week.`);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]!));
+  const weekdays = new Set([...daysOfWeek!].map((day) => day % 7));
+  return {
+    expression: normalized,
+    minutes: [...minutes!].sort((left, right) => left - right),
+    hours: [...hours!].sort((left, right) => left - right),
+    daysOfMonth: daysOfMonth!,
+    months: months!,
+    daysOfWeek: weekdays,
+    dayOfMonthRestricted: parts[2] !== "*",
+    dayOfWeekRestricted: parts[4] !== "*",
+  };
+}
+
+/** Returns the first fire strictly after `after`, evaluated on the wall clock of `timeZone`. */
+export function nextCronFire(schedule: CronSchedule, after: Date, timeZone: string): Date | undefined {
+  const start = zonedDate(after, timeZone);
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const day = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const month = day.getUTCMonth() + 1;
+    const dayOfMonth = day.getUTCDate();
+    if (!schedule.months.has(month) || !matchesDay(schedule, dayOfMonth, day.getUTCDay())) continue;
+    for (const hour of schedule.hours) {
+      for (const minute of schedule.minutes) {
+        const fire = zonedTimeToUtc({
+          year: day.getUTCFullYear(),
+          month,
+          day: dayOfMonth,
+          hour,
+          minute,
+        }, timeZone);
+        if (fire && fire.getTime() > after.getTime()) return fire;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses a one-shot fire time. Timestamps with `Z` or an offset are absolute; a bare
+ * `YYYY-MM-DDTHH:mm[:ss]` is read on the wall clock of `timeZone`.
+ */
+export function parseScheduleTime(value: string, timeZone: string): Date {
+  const trimmed = value.trim();
+  const local = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/);
+  if (local) {
+    const [, year, month, day, hour, minute, second] = local;
+    const parsed = zonedTimeToUtc({
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour),
+      minute: Number(minute),
+      second: Number(second ?? "0"),
+    }, timeZone);
+    if (!parsed) {
+      throw new Error(`"${value}" does not exist on the ${timeZone} clock.`);
+    }
+    return parsed;
+  }
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})$/i.test(trimmed)) {
+    const parsed = new Date(trimmed);
+    if (Number.isFinite(parsed.getTime())) return parsed;
+  }
+  throw new Error(`"${value}" must be an ISO date-time such as 2026-07-19T09:00 or 2026-07-19T09:00:00Z.`);
+}
+
+export function requireTimeZone(value: string): string {
+  if (!isValidTimeZone(value)) {
+    throw new Error(`"${value}" is not a known IANA time zone.`);
+  }
+  return value;
+}
+
+/** Converts a wall-clock time to UTC; returns undefined for times skipped by a daylight-saving jump. */
+export function zonedTimeToUtc(local: LocalDateTime, timeZone: string): Date | undefined {
+  const wallClockAsUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second ?? 0,
+  );
+  let guess = wallClockAsUtc - getTimeZoneOffsetMinutes(new Date(wallClockAsUtc), timeZone) * 60_000;
+  guess = wallClockAsUtc - getTimeZoneOffsetMinutes(new Date(guess), timeZone) * 60_000;
+  const roundTrip = guess + getTimeZoneOffsetMinutes(new Date(guess), timeZone) * 60_000;
+  return roundTrip === wallClockAsUtc ? new Date(guess) : undefined;
+}
+
+function matchesDay(schedule: CronSchedule, dayOfMonth: number, dayOfWeek: number): boolean {
+  const domMatches = schedule.daysOfMonth.has(dayOfMonth);
+  const dowMatches = schedule.daysOfWeek.has(dayOfWeek);
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return domMatches || dowMatches;
+  if (schedule.dayOfMonthRestricted) return domMatches;
+  if (schedule.dayOfWeekRestricted) return dowMatches;
+  return true;
+}
+
+function parseField(raw: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+  for (const item of raw.split(",")) {
+    const [range, stepText, extra] = item.split("/");
+    if (extra !== undefined || !range) {
+      throw new Error(`Cron ${field.name} field "${raw}" is malformed.`);
+    }
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step <= 0) {
+      throw new Error(`Cron ${field.name} step "${stepText}" must be a positive integer.`);
+    }
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else {
+      const [from, to, more] = range.split("-");
+      if (more !== undefined || from === undefined) {
+        throw new Error(`Cron ${field.name} range "${range}" is malformed.`);
+      }
+      start = fieldValue(from, field);
+      end = to === undefined ? (stepText === undefined ? start : field.max) : fieldValue(to, field);
+      if (end < start) {
+        throw new Error(`Cron ${field.name} range "${range}" runs backwards.`);
+      }
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
+
+function fieldValue(text: string, field: CronField): number {
+  const nameIndex = field.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = nameIndex >= 0 ? nameIndex + (field.namesStartAt ?? 0) : Number(text);
+  if (!/^\d+$/.test(text) && nameIndex < 0) {
+    throw new Error(`Cron ${field.name} value "${text}" is not a number.`);
+  }
+  if (!Number.isInteger(value) || value < field.min || value > field.max) {
+    throw new Error(`Cron ${field.name} value "${text}" must be from ${field.min} through ${field.max}.`);
+  }
+  return value;
+}
+
+function zonedDate(date: Date, timeZone: string): { year: number; month: number; day: number } {
+  const local = new Date(date.getTime() + getTimeZoneOffsetMinutes(date, timeZone) * 60_000);
+  return {
+    year: local.getUTCFullYear(),
+    month: local.getUTCMonth() + 1,
+    day: local.getUTCDate(),
+  };
+}
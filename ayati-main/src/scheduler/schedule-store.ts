@@ -0,0 +1,440 @@
+import { randomUUID } from "node:crypto";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { DatabaseSync, type SQLInputValue } from "node:sqlite";
+
+export type ScheduleKind = "cron" | "once";
+
+export type ScheduleStatus = "active" | "completed" | "cancelled";
+
+/**
+ * `queued` fires are in the agent run queue. `missed` fires were too old to catch up after a
+ * restart, `skipped` fires found the previous fire of the same schedule still unfinished, and
+ * `interrupted` fires were queued when the daemon stopped.
+ */
+export type ScheduleFireStatus =
+  | "queued"
+  | "completed"
+  | "failed"
+  | "cancelled"
+  | "interrupted"
+  | "skipped"
+  | "missed";
+
+export interface ScheduleRecord {
+  scheduleId: string;
+  name: string;
+  prompt: string;
+  kind: ScheduleKind;
+  cron?: string;
+  runAt?: string;
+  timezone: string;
+  workstreamId?: string;
+  requestId?: string;
+  /** Tools the user approved for this schedule's unattended runs. */
+  approvedTools: string[];
+  status: ScheduleStatus;
+  nextFireAt?: string;
+  lastFiredAt?: string;
+  createdByRunId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScheduleFireRecord {
+  fireId: string;
+  scheduleId: string;
+  scheduledFor: string;
+  status: ScheduleFireStatus;
+  catchUp: boolean;
+  /** Earlier occurrences folded into this fire because the daemon was down. */
+  missedCount: number;
+  firedAt: string;
+  messageId?: string;
+  runId?: string;
+  settledAt?: string;
+  detail?: string;
+}
+
+export interface CreateScheduleInput {
+  name: string;
+  prompt: string;
+  kind: ScheduleKind;
+  cron?: string;
+  runAt?: string;
+  timezone: string;
+  workstreamId?: string;
+  requestId?: string;
+  approvedTools?: string[];
+  nextFireAt: string;
+  createdByRunId?: string;
+}
+
+export interface ListSchedulesInput {
+  workstreamId?: string;
+  statuses?: ScheduleStatus[];
+  limit?: number;
+}
+
+export interface ScheduleUpdate {
+  status?: ScheduleStatus;
+  nextFireAt?: string | null;
+  lastFiredAt?: string;
+}
+
+export interface RecordFireInput {
+  scheduleId: string;
+  scheduledFor: string;
+  status: ScheduleFireStatus;
+  catchUp?: boolean;
+  missedCount?: number;
+  messageId?: string;
+  detail?: string;
+}
+
+export interface SettleFireInput {
+  status: Exclude<ScheduleFireStatus, "queued">;
+  runId?: string;
+  detail?: string;
+}
+
+export interface ScheduleStoreOptions {
+  dbPath: string;
+  now?: () => Date;
+}
+
+const SCHEMA_VERSION = 2;
+
+/** Durable schedules and their fire history, kept beside the daemon's other runtime state. */
+export class ScheduleStore {
+  private readonly dbPath: string;
+  private readonly nowProvider: () => Date;
+  private db: DatabaseSync | null = null;
+
+  constructor(options: ScheduleStoreOptions) {
+    this.dbPath = options.dbPath;
+    this.nowProvider = options.now ?? (() => new Date());
+  }
+
+  start(): void {
+    mkdirSync(dirname(this.dbPath), { recursive: true });
+    this.db = new DatabaseSync(this.dbPath);
+    this.db.exec("PRAGMA journal_mode=WAL;");
+    this.db.exec("PRAGMA synchronous=NORMAL;");
+    this.createSchema();
+  }
+
+  stop(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  createSchedule(input: CreateScheduleInput): ScheduleRecord {
+    const now = this.nowIso();
+    const record: ScheduleRecord = {
+      scheduleId: `sched_${randomUUID().replace(/-/g, "").slice(0, 12)}`,
+      name: input.name,
+      prompt: input.prompt,
+      kind: input.kind,
+      ...(input.cron ? { cron: input.cron } : {}),
+      ...(input.runAt ? { runAt: input.runAt } : {}),
+      timezone: input.timezone,
+      ...(input.workstreamId ? { workstreamId: input.workstreamId } : {}),
+      ...(input.requestId ? { requestId: input.requestId } : {}),
+      approvedTools: [...(input.approvedTools ?? [])],
+      status: "active",
+      nextFireAt: input.nextFireAt,
+      ...(input.createdByRunId ? { createdByRunId: input.createdByRunId } : {}),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.requireDb().prepare(`
+      INSERT INTO schedules (
+        schedule_id, name, prompt, kind, cron, run_at, timezone, workstream_id, request_id,
+        approved_tools_json, status, next_fire_at, last_fired_at, created_by_run_id, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, ?, ?, ?)
+    `).run(
+      record.scheduleId,
+      record.name,
+      record.prompt,
+      record.kind,
+      record.cron ?? null,
+      record.runAt ?? null,
+      record.timezone,
+      record.workstreamId ?? null,
+      record.requestId ?? null,
+      JSON.stringify(record.approvedTools),
+      record.status,
+      input.nextFireAt,
+      record.createdByRunId ?? null,
+      now,
+      now,
+    );
+    return record;
+  }
+
+  getSchedule(scheduleId: string): ScheduleRecord | null {
+    const row = this.requireDb()
+      .prepare("SELECT * FROM schedules WHERE schedule_id = ?")
+      .get(scheduleId) as Record<string, unknown> | undefined;
+    return row ? mapScheduleRow(row) : null;
+  }
+
+  listSchedules(input: ListSchedulesInput = {}): ScheduleRecord[] {
+    const clauses: string[] = [];
+    const params: SQLInputValue[] = [];
+    if (input.workstreamId) {
+      clauses.push("workstream_id = ?");
+      params.push(input.workstreamId);
+    }
+    if (input.statuses && input.statuses.length > 0) {
+      clauses.push(`status IN (${input.statuses.map(() => "?").join(", ")})`);
+      params.push(...input.statuses);
+    }
+    params.push(Math.max(1, Math.min(500, Math.floor(input.limit ?? 100))));
+    const rows = this.requireDb().prepare(`
+      SELECT *
+      FROM schedules
+      ${clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : ""}
+      ORDER BY
+        CASE status WHEN 'active' THEN 0 ELSE 1 END,
+        next_fire_at IS NULL,
+        next_fire_at,
+        updated_at DESC
+      LIMIT ?
+    `).all(...params) as Record<string, unknown>[];
+    return rows.map(mapScheduleRow);
+  }
+
+  countActiveSchedules(): number {
+    const row = this.requireDb()
+      .prepare("SELECT COUNT(*) AS count FROM schedules WHERE status = 'active'")
+      .get() as { count: number };
+    return Number(row.count);
+  }
+
+  /** Active schedules whose next fire is at or before `at`, oldest first. */
+  dueSchedules(at: string): ScheduleRecord[] {
+    const rows = this.requireDb().prepare(`
+      SELECT *
+      FROM schedules
+      WHERE status = 'active' AND next_fire_at IS NOT NULL AND next_fire_at <= ?
+      ORDER BY next_fire_at, created_at
+    `).all(at) as Record<string, unknown>[];
+    return rows.map(mapScheduleRow);
+  }
+
+  earliestNextFireAt(): string | undefined {
+    const row = this.requireDb().prepare(`
+      SELECT MIN(next_fire_at) AS next_fire_at
+      FROM schedules
+      WHERE status = 'active' AND next_fire_at IS NOT NULL
+    `).get() as { next_fire_at: string | null } | undefined;
+    return row?.next_fire_at ?? undefined;
+  }
+
+  updateSchedule(scheduleId: string, update: ScheduleUpdate): ScheduleRecord | null {
+    const sets = ["updated_at = ?"];
+    const params: SQLInputValue[] = [this.nowIso()];
+    if (update.status) {
+      sets.push("status = ?");
+      params.push(update.status);
+    }
+    if (update.nextFireAt !== undefined) {
+      sets.push("next_fire_at = ?");
+      params.push(update.nextFireAt);
+    }
+    if (update.lastFiredAt) {
+      sets.push("last_fired_at = ?");
+      params.push(update.lastFiredAt);
+    }
+    this.requireDb()
+      .prepare(`UPDATE schedules SET ${sets.join(", ")} WHERE schedule_id = ?`)
+      .run(...params, scheduleId);
+    return this.getSchedule(scheduleId);
+  }
+
+  recordFire(input: RecordFireInput): ScheduleFireRecord {
+    const record: ScheduleFireRecord = {
+      fireId: `fire_${randomUUID()}`,
+      scheduleId: input.scheduleId,
+      scheduledFor: input.scheduledFor,
+      status: input.status,
+      catchUp: input.catchUp === true,
+      missedCount: input.missedCount ?? 0,
+      firedAt: this.nowIso(),
+      ...(input.messageId ? { messageId: input.messageId } : {}),
+      ...(input.status !== "queued" ? { settledAt: this.nowIso() } : {}),
+      ...(input.detail ? { detail: input.detail } : {}),
+    };
+    this.requireDb().prepare(`
+      INSERT INTO schedule_fires (
+        fire_id, schedule_id, scheduled_for, status, catch_up, missed_count,
+        fired_at, message_id, run_id, settled_at, detail
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, NULL, ?, ?)
+    `).run(
+      record.fireId,
+      record.scheduleId,
+      record.scheduledFor,
+      record.status,
+      record.catchUp ? 1 : 0,
+      record.missedCount,
+      record.firedAt,
+      record.messageId ?? null,
+      record.settledAt ?? null,
+      record.detail ?? null,
+    );
+    return record;
+  }
+
+  settleFire(fireId: string, input: SettleFireInput): ScheduleFireRecord | null {
+    this.requireDb().prepare(`
+      UPDATE schedule_fires
+      SET status = ?, run_id = COALESCE(?, run_id), settled_at = ?, detail = COALESCE(?, detail)
+      WHERE fire_id = ? AND status = 'queued'
+    `).run(input.status, input.runId ?? null, this.nowIso(), input.detail ?? null, fireId);
+    const row = this.requireDb()
+      .prepare("SELECT * FROM schedule_fires WHERE fire_id = ?")
+      .get(fireId) as Record<string, unknown> | undefined;
+    return row ? mapFireRow(row) : null;
+  }
+
+  queuedFires(): ScheduleFireRecord[] {
+    const rows = this.requireDb()
+      .prepare("SELECT * FROM schedule_fires WHERE status = 'queued' ORDER BY fired_at")
+      .all() as Record<string, unknown>[];
+    return rows.map(mapFireRow);
+  }
+
+  listFires(scheduleId: string, limit = 10): ScheduleFireRecord[] {
+    const rows = this.requireDb().prepare(`
+      SELECT *
+      FROM schedule_fires
+      WHERE schedule_id = ?
+      ORDER BY fired_at DESC
+      LIMIT ?
+    `).all(scheduleId, Math.max(1, Math.min(100, Math.floor(limit)))) as Record<string, unknown>[];
+    return rows.map(mapFireRow);
+  }
+
+  private createSchema(): void {
+    const db = this.requireDb();
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS schedules (
+        schedule_id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        prompt TEXT NOT NULL,
+        kind TEXT NOT NULL CHECK (kind IN ('cron', 'once')),
+        cron TEXT,
+        run_at TEXT,
+        timezone TEXT NOT NULL,
+        workstream_id TEXT,
+        request_id TEXT,
+        approved_tools_json TEXT NOT NULL DEFAULT '[]',
+        status TEXT NOT NULL CHECK (status IN ('active', 'completed', 'cancelled')),
+        next_fire_at TEXT,
+        last_fired_at TEXT,
+        created_by_run_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_schedules_due
+        ON schedules(status, next_fire_at);
+      CREATE INDEX IF NOT EXISTS idx_schedules_workstream
+        ON schedules(workstream_id, status);
+
+      CREATE TABLE IF NOT EXISTS schedule_fires (
+        fire_id TEXT PRIMARY KEY,
+        schedule_id TEXT NOT NULL REFERENCES schedules(schedule_id),
+        scheduled_for TEXT NOT NULL,
+        status TEXT NOT NULL,
+        catch_up INTEGER NOT NULL DEFAULT 0,
+        missed_count INTEGER NOT NULL DEFAULT 0,
+        fired_at TEXT NOT NULL,
+        message_id TEXT,
+        run_id TEXT,
+        settled_at TEXT,
+        detail TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_schedule_fires_schedule
+        ON schedule_fires(schedule_id, fired_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_schedule_fires_status
+        ON schedule_fires(status);
+    `);
+    const columns = db.prepare("PRAGMA table_info(schedules)").all() as Array<{ name?: string }>;
+    if (!columns.some((column) => column.name === "approved_tools_json")) {
+      db.exec("ALTER TABLE schedules ADD COLUMN approved_tools_json TEXT NOT NULL DEFAULT '[]'");
+    }
+    db.exec(`PRAGMA user_version = ${SCHEMA_VERSION};`);
+  }
+
+  private requireDb(): DatabaseSync {
+    if (!this.db) {
+      throw new Error("ScheduleStore not started");
+    }
+    return this.db;
+  }
+
+  private nowIso(): string {
+    return this.nowProvider().toISOString();
+  }
+}
+
+function mapScheduleRow(row: Record<string, unknown>): ScheduleRecord {
+  return {
+    scheduleId: String(row["schedule_id"]),
+    name: String(row["name"]),
+    prompt: String(row["prompt"]),
+    kind: row["kind"] === "once" ? "once" : "cron",
+    ...optionalString("cron", row["cron"]),
+    ...optionalString("runAt", row["run_at"]),
+    timezone: String(row["timezone"]),
+    ...optionalString("workstreamId", row["workstream_id"]),
+    ...optionalString("requestId", row["request_id"]),
+    approvedTools: parseApprovedTools(row["approved_tools_json"]),
+    status: normalizeScheduleStatus(row["status"]),
+    ...optionalString("nextFireAt", row["next_fire_at"]),
+    ...optionalString("lastFiredAt", row["last_fired_at"]),
+    ...optionalString("createdByRunId", row["created_by_run_id"]),
+    createdAt: String(row["created_at"]),
+    updatedAt: String(row["updated_at"]),
+  };
+}
+
+function mapFireRow(row: Record<string, unknown>): ScheduleFireRecord {
+  return {
+    fireId: String(row["fire_id"]),
+    scheduleId: String(row["schedule_id"]),
+    scheduledFor: String(row["scheduled_for"]),
+    status: String(row["status"]) as ScheduleFireStatus,
+    catchUp: Number(row["catch_up"] ?? 0) === 1,
+    missedCount: Number(row["missed_count"] ?? 0),
+    firedAt: String(row["fired_at"]),
+    ...optionalString("messageId", row["message_id"]),
+    ...optionalString("runId", row["run_id"]),
+    ...optionalString("settledAt", row["settled_at"]),
+    ...optionalString("detail", row["detail"]),
+  };
+}
+
+function parseApprovedTools(value: unknown): string[] {
+  if (typeof value !== "string") return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((tool): tool is string => typeof tool === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function normalizeScheduleStatus(value: unknown): ScheduleStatus {
+  return value === "completed" || value === "cancelled" ? value : "active";
+}
+
+function optionalString<K extends string>(key: K, value: unknown): Partial<Record<K, string>> {
+  return typeof value === "string" && value.length > 0
+    ? { [key]: value } as Record<K, string>
+    : {};
+}
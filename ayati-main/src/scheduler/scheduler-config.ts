@@ -0,0 +1,69 @@
+export const DEFAULT_SCHEDULER_CATCH_UP_MINUTES = 60;
+export const DEFAULT_SCHEDULER_MAX_ACTIVE_SCHEDULES = 50;
+
+export interface SchedulerRuntimeConfig {
+  enabled: boolean;
+  /** A fire missed while the daemon was down still runs once on startup when it is at most this old. */
+  catchUpWindowMs: number;
+  maxActiveSchedules: number;
+  /** Falls back to a native desktop notification when no client is connected to receive a result. */
+  desktopNotifications: boolean;
+}
+
+export function loadSchedulerRuntimeConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): SchedulerRuntimeConfig {
+  return {
+    enabled: readBoolean("AYATI_SCHEDULER_ENABLED", env["AYATI_SCHEDULER_ENABLED"], true),
+    catchUpWindowMs: readInteger(
+      "AYATI_SCHEDULER_CATCH_UP_MINUTES",
+      env["AYATI_SCHEDULER_CATCH_UP_MINUTES"],
+      DEFAULT_SCHEDULER_CATCH_UP_MINUTES,
+      0,
+      7 * 24 * 60,
+    ) * 60_000,
+    maxActiveSchedules: readInteger(
+      "AYATI_SCHEDULER_MAX_ACTIVE",
+      env["AYATI_SCHEDULER_MAX_ACTIVE"],
+      DEFAULT_SCHEDULER_MAX_ACTIVE_SCHEDULES,
+      1,
+      1_000,
+    ),
+    desktopNotifications: readBoolean(
+      "AYATI_SCHEDULER_NOTIFICATIONS",
+      env["AYATI_SCHEDULER_NOTIFICATIONS"],
+      true,
+    ),
+  };
+}
+
+function readBoolean(name: string, value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined || value.trim() === "") {
+    return fallback;
+  }
+  const normalized = value.trim().toLowerCase();
+  if (["1", "true", "yes", "on"].includes(normalized)) {
+    return true;
+  }
+  if (["0", "false", "no", "off"].includes(normalized)) {
+    return false;
+  }
+  throw new Error(`${name} must be true or false; received ${value}`);
+}
+
+function readInteger(
+  name: string,
+  value: string | undefined,
+  fallback: number,
+  minimum: number,
+  maximum: number,
+): number {
+  if (value === undefined || value.trim() === "") {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < minimum || parsed > maximum) {
+    throw new Error(`${name} must be an integer from ${minimum} through ${maximum}; received ${value}`);
+  }
+  return parsed;
+}
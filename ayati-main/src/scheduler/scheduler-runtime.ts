@@ -0,0 +1,462 @@
+import { randomUUID } from "node:crypto";
+import type { ChatIngressReceipt, ChatRunSettled } from "../ivec/index.js";
+import { devLog, devWarn } from "../shared/index.js";
+import { getNowSnapshot } from "../skills/builtins/system/time.js";
+import type { VoiceNotifier } from "../voice/desktop-notifier.js";
+import type { SchedulerRuntimeConfig } from "./scheduler-config.js";
+import {
+  nextCronFire,
+  parseCronExpression,
+  parseScheduleTime,
+  requireTimeZone,
+} from "./schedule-expression.js";
+import type {
+  ListSchedulesInput,
+  ScheduleFireRecord,
+  ScheduleFireStatus,
+  ScheduleRecord,
+  ScheduleStore,
+} from "./schedule-store.js";
+
+/** Timers re-check at least this often so suspend/resume and wall-clock changes are noticed. */
+const MAX_TIMER_DELAY_MS = 60_000;
+/** A fire this late is reported as a catch-up rather than an on-time run. */
+const CATCH_UP_THRESHOLD_MS = 60_000;
+const MAX_MISSED_OCCURRENCES_COUNTED = 10_000;
+const MAX_NAME_CHARS = 80;
+const MAX_PROMPT_CHARS = 4_000;
+const NOTIFICATION_PREVIEW_LIMIT = 240;
+
+export interface SubmitScheduledChatInput {
+  messageId: string;
+  content: string;
+  /** Workstream the run is bound to before the agent starts, rather than routed from the prompt. */
+  boundWorkstream?: { workstreamId: string; requestId?: string };
+  /** Tools the run may use without an interactive approval. */
+  preApprovedTools: string[];
+  onSettled: (result: ChatRunSettled) => void;
+}
+
+export interface CreateScheduleRequest {
+  name: string;
+  prompt: string;
+  /** Five-field cron expression or macro for a recurring schedule. */
+  cron?: string;
+  /** ISO date-time for a one-shot schedule. */
+  at?: string;
+  timezone?: string;
+  workstreamId?: string;
+  requestId?: string;
+  /** Tools the scheduled runs may use unattended; the user approves this list when creating it. */
+  approvedTools?: string[];
+  createdByRunId?: string;
+}
+
+export interface ScheduledRunNotification {
+  type: "notification";
+  content: string;
+  commitStatus: string;
+  runId?: string;
+  schedule: {
+    scheduleId: string;
+    name: string;
+    fireId: string;
+    scheduledFor: string;
+    status: Extract<ScheduleFireStatus, "completed" | "failed" | "cancelled">;
+    workstreamId?: string;
+  };
+}
+
+export interface SchedulerRuntimeOptions {
+  store: ScheduleStore;
+  config: SchedulerRuntimeConfig;
+  defaultTimezone: string;
+  submitChat: (input: SubmitScheduledChatInput) => ChatIngressReceipt | null;
+  /** Sends an envelope to every connected client and returns how many received it. */
+  broadcast: (data: unknown) => number;
+  notifier?: VoiceNotifier;
+  now?: () => Date;
+  createId?: () => string;
+}
+
+interface PendingFire {
+  schedule: ScheduleRecord;
+  fire: ScheduleFireRecord;
+  content?: string;
+  error?: string;
+  runId?: string;
+  commitStatus?: string;
+}
+
+/**
+ * Fires durable schedules into the agent run queue as synthetic chats with the `scheduled`
+ * channel and turns each run's final message into a `notification` broadcast to every client.
+ */
+export class SchedulerRuntime {
+  private readonly now: () => Date;
+  private readonly createId: () => string;
+  private readonly pending = new Map<string, PendingFire>();
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = true;
+
+  constructor(private readonly options: SchedulerRuntimeOptions) {
+    this.now = options.now ?? (() => new Date());
+    this.createId = options.createId ?? randomUUID;
+  }
+
+  /**
+   * Opens the store and applies restart rules: fires still queued when the daemon stopped become
+   * `interrupted`, and occurrences missed while it was down either run once as a catch-up (when
+   * the latest one is inside the catch-up window) or are recorded as `missed`.
+   */
+  start(): void {
+    this.options.store.start();
+    this.stopped = false;
+    for (const fire of this.options.store.queuedFires()) {
+      this.options.store.settleFire(fire.fireId, {
+        status: "interrupted",
+        detail: "The daemon stopped before this scheduled run finished.",
+      });
+    }
+    this.fireDue();
+    this.arm();
+    devLog(`Scheduler started with ${this.options.store.countActiveSchedules()} active schedule(s)`);
+  }
+
+  /** Stops firing; fires already in the run queue still settle until `close`. */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  close(): void {
+    this.stop();
+    this.options.store.stop();
+  }
+
+  createSchedule(request: CreateScheduleRequest): ScheduleRecord {
+    const name = request.name.trim();
+    const prompt = request.prompt.trim();
+    if (!name || name.length > MAX_NAME_CHARS) {
+      throw new Error(`Schedule name must be 1 to ${MAX_NAME_CHARS} characters.`);
+    }
+    if (!prompt || prompt.length > MAX_PROMPT_CHARS) {
+      throw new Error(`Schedule prompt must be 1 to ${MAX_PROMPT_CHARS} characters.`);
+    }
+    const hasCron = Boolean(request.cron?.trim());
+    const hasAt = Boolean(request.at?.trim());
+    if (hasCron === hasAt) {
+      throw new Error("Give exactly one of cron (recurring) or at (one-shot).");
+    }
+    const timezone = requireTimeZone(request.timezone?.trim() || this.options.defaultTimezone);
+    if (this.options.store.countActiveSchedules() >= this.options.config.maxActiveSchedules) {
+      throw new Error(
+        `At most ${this.options.config.maxActiveSchedules} schedules can be active; cancel one first.`,
+      );
+    }
+
+    const now = this.now();
+    let nextFireAt: Date | undefined;
+    let cron: string | undefined;
+    let runAt: string | undefined;
+    if (hasCron) {
+      const parsed = parseCronExpression(request.cron!);
+      cron = parsed.expression;
+      nextFireAt = nextCronFire(parsed, now, timezone);
+      if (!nextFireAt) {
+        throw new Error(`Cron expression "${cron}" never fires.`);
+      }
+    } else {
+      nextFireAt = parseScheduleTime(request.at!, timezone);
+      if (nextFireAt.getTime() <= now.getTime()) {
+        throw new Error(`"${request.at}" is in the past.`);
+      }
+      runAt = nextFireAt.toISOString();
+    }
+
+    const record = this.options.store.createSchedule({
+      name,
+      prompt,
+      kind: hasCron ? "cron" : "once",
+      ...(cron ? { cron } : {}),
+      ...(runAt ? { runAt } : {}),
+      timezone,
+      ...(request.workstreamId ? { workstreamId: request.workstreamId } : {}),
+      ...(request.requestId ? { requestId: request.requestId } : {}),
+      ...(request.approvedTools?.length ? { approvedTools: [...new Set(request.approvedTools)] } : {}),
+      nextFireAt: nextFireAt.toISOString(),
+      ...(request.createdByRunId ? { createdByRunId: request.createdByRunId } : {}),
+    });
+    devLog(`Schedule ${record.scheduleId} created; next fire ${record.nextFireAt}`);
+    this.arm();
+    return record;
+  }
+
+  listSchedules(input: ListSchedulesInput = {}): ScheduleRecord[] {
+    return this.options.store.listSchedules(input);
+  }
+
+  getSchedule(scheduleId: string): ScheduleRecord | null {
+    return this.options.store.getSchedule(scheduleId);
+  }
+
+  recentFires(scheduleId: string, limit = 5): ScheduleFireRecord[] {
+    return this.options.store.listFires(scheduleId, limit);
+  }
+
+  cancelSchedule(scheduleId: string): ScheduleRecord {
+    const existing = this.options.store.getSchedule(scheduleId);
+    if (!existing) {
+      throw new Error(`Schedule ${scheduleId} does not exist.`);
+    }
+    if (existing.status === "cancelled" || existing.status === "completed") {
+      return existing;
+    }
+    const cancelled = this.options.store.updateSchedule(scheduleId, {
+      status: "cancelled",
+      nextFireAt: null,
+    });
+    this.arm();
+    return cancelled ?? existing;
+  }
+
+  /** Receives every envelope the chat runtime addresses to the scheduler reply client. */
+  handleAgentMessage(data: unknown): void {
+    const message = asRecord(data);
+    const messageId = typeof message?.["messageId"] === "string" ? message["messageId"] : undefined;
+    const entry = messageId ? this.pending.get(messageId) : undefined;
+    if (!message || !entry) return;
+
+    const type = message["type"];
+    if (typeof message["runId"] === "string") entry.runId = message["runId"];
+    if (typeof message["commitStatus"] === "string") entry.commitStatus = message["commitStatus"];
+    const content = typeof message["content"] === "string" ? message["content"].trim() : "";
+    if (type === "error") {
+      entry.error = content || "The scheduled run failed.";
+      return;
+    }
+    if (["reply", "feedback", "notification", "reply_done"].includes(String(type)) && content) {
+      entry.content = content;
+    }
+  }
+
+  private arm(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (this.stopped) return;
+    const next = this.options.store.earliestNextFireAt();
+    if (!next) return;
+    const delay = Math.max(0, Math.min(MAX_TIMER_DELAY_MS, Date.parse(next) - this.now().getTime()));
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      try {
+        this.fireDue();
+      } catch (error) {
+        devWarn("Scheduler tick failed:", formatError(error));
+      }
+      this.arm();
+    }, delay);
+    this.timer.unref?.();
+  }
+
+  private fireDue(): void {
+    const now = this.now();
+    for (const schedule of this.options.store.dueSchedules(now.toISOString())) {
+      this.fireSchedule(schedule, now);
+    }
+  }
+
+  private fireSchedule(schedule: ScheduleRecord, now: Date): void {
+    const occurrences = dueOccurrences(schedule, now);
+    const scheduledFor = occurrences.latest;
+    const missedCount = occurrences.count - 1;
+    this.options.store.updateSchedule(schedule.scheduleId, {
+      lastFiredAt: now.toISOString(),
+      ...(occurrences.next
+        ? { nextFireAt: occurrences.next.toISOString() }
+        : { nextFireAt: null, status: "completed" as const }),
+    });
+
+    const lateness = now.getTime() - scheduledFor.getTime();
+    if (lateness > this.options.config.catchUpWindowMs && lateness > CATCH_UP_THRESHOLD_MS) {
+      this.options.store.recordFire({
+        scheduleId: schedule.scheduleId,
+        scheduledFor: scheduledFor.toISOString(),
+        status: "missed",
+        missedCount,
+        detail: "Ayati was not running within the catch-up window of this fire.",
+      });
+      devLog(`Schedule ${schedule.scheduleId} missed ${occurrences.count} fire(s); next ${occurrences.next?.toISOString() ?? "none"}`);
+      return;
+    }
+    if ([...this.pending.values()].some((entry) => entry.schedule.scheduleId === schedule.scheduleId)) {
+      this.options.store.recordFire({
+        scheduleId: schedule.scheduleId,
+        scheduledFor: scheduledFor.toISOString(),
+        status: "skipped",
+        missedCount,
+        detail: "The previous run of this schedule had not finished.",
+      });
+      return;
+    }
+
+    const messageId = this.createId();
+    const catchUp = lateness > CATCH_UP_THRESHOLD_MS || missedCount > 0;
+    const fire = this.options.store.recordFire({
+      scheduleId: schedule.scheduleId,
+      scheduledFor: scheduledFor.toISOString(),
+      status: "queued",
+      catchUp,
+      missedCount,
+      messageId,
+    });
+    const entry: PendingFire = { schedule, fire };
+    this.pending.set(messageId, entry);
+    devLog(`Schedule ${schedule.scheduleId} fired message=${messageId}${catchUp ? " (catch-up)" : ""}`);
+    let receipt: ChatIngressReceipt | null = null;
+    try {
+      receipt = this.options.submitChat({
+        messageId,
+        content: scheduledRunMessage(schedule, scheduledFor, missedCount),
+        ...(schedule.workstreamId
+          ? {
+              boundWorkstream: {
+                workstreamId: schedule.workstreamId,
+                ...(schedule.requestId ? { requestId: schedule.requestId } : {}),
+              },
+            }
+          : {}),
+        preApprovedTools: schedule.approvedTools,
+        onSettled: (result) => this.settle(messageId, result),
+      });
+    } catch (error) {
+      entry.error = formatError(error);
+    }
+    if (!receipt) {
+      this.settle(messageId, {
+        messageId,
+        status: "failed",
+        error: entry.error ?? "The agent run queue did not accept the scheduled run.",
+      });
+    }
+  }
+
+  private settle(messageId: string, result: ChatRunSettled): void {
+    const entry = this.pending.get(messageId);
+    if (!entry) return;
+    this.pending.delete(messageId);
+    const status = result.status === "completed" && entry.error ? "failed" : result.status;
+    const detail = result.error ?? entry.error;
+    try {
+      this.options.store.settleFire(entry.fire.fireId, {
+        status,
+        ...(entry.runId ? { runId: entry.runId } : {}),
+        ...(detail ? { detail } : {}),
+      });
+    } catch (error) {
+      devWarn(`Unable to record the result of schedule ${entry.schedule.scheduleId}:`, formatError(error));
+    }
+    this.deliver(entry, status, detail);
+  }
+
+  private deliver(
+    entry: PendingFire,
+    status: ScheduledRunNotification["schedule"]["status"],
+    detail: string | undefined,
+  ): void {
+    const { schedule, fire } = entry;
+    const body = status === "completed"
+      ? entry.content ?? "Finished without a message."
+      : status === "cancelled"
+        ? "Cancelled before it finished."
+        : detail ?? "The scheduled run failed.";
+    const notification: ScheduledRunNotification = {
+      type: "notification",
+      content: `Scheduled run "${schedule.name}"${status === "completed" ? "" : ` ${status}`}:\n\n${body}`,
+      commitStatus: entry.commitStatus ?? "not_required",
+      ...(entry.runId ? { runId: entry.runId } : {}),
+      schedule: {
+        scheduleId: schedule.scheduleId,
+        name: schedule.name,
+        fireId: fire.fireId,
+        scheduledFor: fire.scheduledFor,
+        status,
+        ...(schedule.workstreamId ? { workstreamId: schedule.workstreamId } : {}),
+      },
+    };
+    let delivered = 0;
+    try {
+      delivered = this.options.broadcast(notification);
+    } catch (error) {
+      devWarn("Scheduled run notification delivery failed:", formatError(error));
+    }
+    if (delivered > 0 || !this.options.config.desktopNotifications || !this.options.notifier) return;
+    void this.options.notifier.notify({
+      title: status === "completed" ? `Ayati · ${schedule.name}` : `Ayati · ${schedule.name} ${status}`,
+      body: preview(body, NOTIFICATION_PREVIEW_LIMIT),
+      urgency: status === "failed" ? "critical" : "normal",
+      expireMs: 15_000,
+    }).catch((error: unknown) => {
+      devWarn("Scheduled run desktop notification failed:", formatError(error));
+    });
+  }
+}
+
+/** The synthetic user message that starts a scheduled run. */
+export function scheduledRunMessage(schedule: ScheduleRecord, scheduledFor: Date, missedCount: number): string {
+  const local = getNowSnapshot(scheduledFor, schedule.timezone);
+  const lines = [
+    `Scheduled run "${schedule.name}" (${schedule.scheduleId}), due ${local.localDate} ${local.localTime.slice(0, 5)} ${schedule.timezone}.`,
+  ];
+  if (schedule.workstreamId) {
+    lines.push(
+      `Continue workstream ${schedule.workstreamId}${schedule.requestId ? ` request ${schedule.requestId}` : ""}.`,
+    );
+  }
+  if (missedCount > 0) {
+    lines.push(`${missedCount} earlier occurrence(s) were missed while Ayati was not running; do this once for all of them.`);
+  }
+  lines.push("Nobody is waiting for a reply; your final message is delivered as a notification.", "", schedule.prompt);
+  return lines.join("\n");
+}
+
+function dueOccurrences(
+  schedule: ScheduleRecord,
+  now: Date,
+): { latest: Date; count: number; next?: Date } {
+  const first = new Date(schedule.nextFireAt ?? now.toISOString());
+  if (schedule.kind === "once" || !schedule.cron) {
+    return { latest: first, count: 1 };
+  }
+  const cron = parseCronExpression(schedule.cron);
+  let latest = first;
+  let count = 1;
+  let next = nextCronFire(cron, latest, schedule.timezone);
+  while (next && next.getTime() <= now.getTime() && count < MAX_MISSED_OCCURRENCES_COUNTED) {
+    latest = next;
+    count += 1;
+    next = nextCronFire(cron, latest, schedule.timezone);
+  }
+  if (next && next.getTime() <= now.getTime()) {
+    next = nextCronFire(cron, now, schedule.timezone);
+  }
+  return { latest, count, ...(next ? { next } : {}) };
+}
+
+function preview(value: string, limit: number): string {
+  const normalized = value.replace(/\s+/g, " ").trim();
+  return normalized.length <= limit
+    ? normalized
+    : `${normalized.slice(0, Math.max(0, limit - 1)).trimEnd()}…`;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : undefined;
+}
+
+function formatError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
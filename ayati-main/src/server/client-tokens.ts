@@ -0,0 +1,210 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { readFileSync, statSync } from "node:fs";
+import { chmod, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { devWarn } from "../shared/index.js";
+
+export type ClientTokenScope = "chat" | "upload" | "voice" | "observer";
+
+export const CLIENT_TOKEN_SCOPES: readonly ClientTokenScope[] = ["chat", "upload", "voice", "observer"];
+
+export interface ClientTokenRecord {
+  name: string;
+  scopes: ClientTokenScope[];
+  token: string;
+  createdAt: string;
+  rotatedAt?: string;
+}
+
+export interface ClientTokenGrant {
+  name: string;
+  scopes: ReadonlySet<ClientTokenScope>;
+}
+
+/** Checks a presented bearer token; returns null when it matches no configured client. */
+export interface ClientAuthenticator {
+  authenticate(token: unknown): ClientTokenGrant | null;
+}
+
+export type ClientAuthFailureReason = "missing_token" | "invalid_token" | "insufficient_scope";
+
+/** Tokens created on first start. Clients read their own entry by name. */
+export const DEFAULT_CLIENT_TOKENS: ReadonlyArray<{ name: string; scopes: ClientTokenScope[] }> = [
+  { name: "cli", scopes: ["chat", "upload"] },
+  { name: "desktop", scopes: ["chat", "upload"] },
+  { name: "voice", scopes: ["voice"] },
+  { name: "observer", scopes: ["observer"] },
+];
+
+const FILE_VERSION = 1;
+const TOKEN_PREFIX = "ayati_";
+const MAX_TOKEN_CHARS = 256;
+
+interface ClientTokenFile {
+  version: typeof FILE_VERSION;
+  tokens: ClientTokenRecord[];
+}
+
+export interface ClientTokenStoreOptions {
+  filePath: string;
+  now?: () => Date;
+  generateToken?: () => string;
+}
+
+/** Token file location shared by the daemon and its local clients. */
+export function clientTokensPath(rootDirectory: string): string {
+  return join(rootDirectory, ".ayati", "client-tokens.json");
+}
+
+/**
+ * Owns `<root>/.ayati/client-tokens.json`. The file is created with the default client tokens,
+ * kept at mode 0600, and re-read whenever it changes on disk so rotations apply to new connections
+ * without a daemon restart.
+ */
+export class ClientTokenStore implements ClientAuthenticator {
+  readonly filePath: string;
+  private readonly now: () => Date;
+  private readonly generateToken: () => string;
+  private records: ClientTokenRecord[] = [];
+  private loadedMtimeMs = -1;
+
+  constructor(options: ClientTokenStoreOptions) {
+    this.filePath = options.filePath;
+    this.now = options.now ?? (() => new Date());
+    this.generateToken = options.generateToken ?? (() => `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`);
+  }
+
+  /** Creates the file, or adds any missing default tokens to an existing one. */
+  async start(): Promise<void> {
+    const current = await this.readFileRecords();
+    const missing = DEFAULT_CLIENT_TOKENS.filter((entry) => !current.some((record) => record.name === entry.name));
+    if (missing.length > 0) {
+      const createdAt = this.now().toISOString();
+      await this.write([
+        ...current,
+        ...missing.map((entry) => ({ name: entry.name, scopes: [...entry.scopes], token: this.generateToken(), createdAt })),
+      ]);
+    } else {
+      await chmod(this.filePath, 0o600);
+      this.records = current;
+      this.loadedMtimeMs = statSync(this.filePath).mtimeMs;
+    }
+  }
+
+  list(): ClientTokenRecord[] {
+    this.reloadIfChanged();
+    return this.records.map((record) => ({ ...record, scopes: [...record.scopes] }));
+  }
+
+  /** Replaces the secret for one client. Connections that already authenticated stay open. */
+  async rotate(name: string): Promise<ClientTokenRecord> {
+    const current = await this.readFileRecords();
+    const index = current.findIndex((record) => record.name === name);
+    if (index < 0) {
+      throw new Error(`Client token "${name}" does not exist; known tokens: ${current.map((record) => record.name).join(", ")}.`);
+    }
+    const rotated: ClientTokenRecord = {
+      ...current[index]!,
+      token: this.generateToken(),
+      rotatedAt: this.now().toISOString(),
+    };
+    current[index] = rotated;
+    await this.write(current);
+    return { ...rotated };
+  }
+
+  authenticate(token: unknown): ClientTokenGrant | null {
+    if (typeof token !== "string" || token.length === 0 || token.length > MAX_TOKEN_CHARS) {
+      return null;
+    }
+    this.reloadIfChanged();
+    const presented = digest(token);
+    let match: ClientTokenRecord | null = null;
+    // Compare against every record so timing does not reveal which entry matched.
+    for (const record of this.records) {
+      if (timingSafeEqual(presented, digest(record.token))) {
+        match = record;
+      }
+    }
+    return match ? { name: match.name, scopes: new Set(match.scopes) } : null;
+  }
+
+  private reloadIfChanged(): void {
+    let mtimeMs: number;
+    try {
+      mtimeMs = statSync(this.filePath).mtimeMs;
+    } catch {
+      return;
+    }
+    if (mtimeMs === this.loadedMtimeMs) return;
+    try {
+      this.records = parseTokenFile(readFileSync(this.filePath, "utf8"), this.filePath);
+      this.loadedMtimeMs = mtimeMs;
+    } catch (error) {
+      devWarn(`Keeping previous client tokens: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async readFileRecords(): Promise<ClientTokenRecord[]> {
+    let text: string;
+    try {
+      text = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+    return parseTokenFile(text, this.filePath);
+  }
+
+  private async write(records: ClientTokenRecord[]): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true, mode: 0o700 });
+    const body: ClientTokenFile = { version: FILE_VERSION, tokens: records };
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, `${JSON.stringify(body, null, 2)}\n`, { mode: 0o600 });
+    await rename(tempPath, this.filePath);
+    await chmod(this.filePath, 0o600);
+    this.records = records;
+    this.loadedMtimeMs = statSync(this.filePath).mtimeMs;
+  }
+}
+
+function parseTokenFile(text: string, filePath: string): ClientTokenRecord[] {
+  const parsed = JSON.parse(text) as unknown;
+  const file = parsed && typeof parsed === "object" && !Array.isArray(parsed)
+    ? parsed as Record<string, unknown>
+    : undefined;
+  if (!file || file["version"] !== FILE_VERSION || !Array.isArray(file["tokens"])) {
+    throw new Error(`${filePath} must be a version ${FILE_VERSION} client token file.`);
+  }
+  return file["tokens"].map((entry, index) => parseTokenRecord(entry, `${filePath} tokens[${index}]`));
+}
+
+function parseTokenRecord(value: unknown, label: string): ClientTokenRecord {
+  const record = value && typeof value === "object" && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+  const name = record["name"];
+  const token = record["token"];
+  const scopes = record["scopes"];
+  const createdAt = record["createdAt"];
+  if (typeof name !== "string" || name.trim().length === 0) {
+    throw new Error(`${label} must have a name.`);
+  }
+  if (typeof token !== "string" || token.length < 16 || token.length > MAX_TOKEN_CHARS) {
+    throw new Error(`${label} must have a token of 16 to ${MAX_TOKEN_CHARS} characters.`);
+  }
+  if (!Array.isArray(scopes) || !scopes.every((scope) => CLIENT_TOKEN_SCOPES.includes(scope as ClientTokenScope))) {
+    throw new Error(`${label} scopes must be drawn from ${CLIENT_TOKEN_SCOPES.join(", ")}.`);
+  }
+  return {
+    name,
+    scopes: scopes as ClientTokenScope[],
+    token,
+    createdAt: typeof createdAt === "string" ? createdAt : new Date(0).toISOString(),
+    ...(typeof record["rotatedAt"] === "string" ? { rotatedAt: record["rotatedAt"] } : {}),
+  };
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
@@ -3,6 +3,16 @@ export type {
   ReplyRenderedAcknowledgement,
   WsClientKind,
   WsServerOptions,
+  WsUnauthorizedEnvelope,
 } from "./ws-server.js";
 export { UploadServer } from "./upload-server.js";
 export type { UploadServerOptions } from "./upload-server.js";
+export { CLIENT_TOKEN_SCOPES, ClientTokenStore, clientTokensPath, DEFAULT_CLIENT_TOKENS } from "./client-tokens.js";
+export type {
+  ClientAuthenticator,
+  ClientAuthFailureReason,
+  ClientTokenGrant,
+  ClientTokenRecord,
+  ClientTokenScope,
+  ClientTokenStoreOptions,
+} from "./client-tokens.js";
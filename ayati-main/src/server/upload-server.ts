@@ -3,8 +3,9 @@ import { resolve } from "node:path";
 import { devError, devLog, devWarn } from "../shared/index.js";
 import { persistManagedUpload, type ManagedUploadRecord } from "./upload-storage.js";
 import type { FileLibrary } from "../files/file-library.js";
+import type { ClientAuthenticator, ClientAuthFailureReason } from "./client-tokens.js";
 
-const DEFAULT_HOST = "0.0.0.0";
+const DEFAULT_HOST = "127.0.0.1";
 const DEFAULT_PORT = 8081;
 const DEFAULT_MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
 const DEFAULT_ALLOW_ORIGIN = "*";
@@ -17,6 +18,8 @@ export interface UploadServerOptions {
   maxUploadBytes?: number;
   allowOrigin?: string;
   fileLibrary?: FileLibrary;
+  /** When set, every request except CORS preflight needs `Authorization: Bearer` with the upload scope. */
+  auth?: ClientAuthenticator;
 }
 
 type UploadBlobLike = {
@@ -33,6 +36,7 @@ export class UploadServer {
   private readonly maxUploadBytes: number;
   private readonly allowOrigin: string;
   private readonly fileLibrary?: FileLibrary;
+  private readonly auth?: ClientAuthenticator;
   private server: Server | null = null;
 
   constructor(options: UploadServerOptions) {
@@ -42,6 +46,7 @@ export class UploadServer {
     this.maxUploadBytes = Math.max(1024, options.maxUploadBytes ?? DEFAULT_MAX_UPLOAD_BYTES);
     this.allowOrigin = options.allowOrigin?.trim() || DEFAULT_ALLOW_ORIGIN;
     this.fileLibrary = options.fileLibrary;
+    this.auth = options.auth;
   }
 
   async start(): Promise<void> {
@@ -85,6 +90,20 @@ export class UploadServer {
       return;
     }
 
+    const denied = this.checkAuthorization(req);
+    if (denied) {
+      devWarn(`Upload server rejected ${req.method ?? "request"} ${req.url ?? "/"}: ${denied}`);
+      res.setHeader("WWW-Authenticate", "Bearer");
+      this.sendJson(res, denied === "insufficient_scope" ? 403 : 401, {
+        error: denied === "insufficient_scope"
+          ? "This client token does not have the upload scope."
+          : "A valid client token is required.",
+        code: "unauthorized",
+        reason: denied,
+      });
+      return;
+    }
+
     const requestUrl = new URL(req.url ?? "/", `http://${req.headers.host ?? `${this.host}:${this.port}`}`);
     if (req.method !== "POST" || requestUrl.pathname !== UPLOAD_PATH) {
       res.statusCode = 404;
@@ -166,6 +185,21 @@ export class UploadServer {
     });
   }
 
+  private checkAuthorization(req: IncomingMessage): ClientAuthFailureReason | null {
+    if (!this.auth) {
+      return null;
+    }
+    const match = /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization ?? "");
+    if (!match) {
+      return "missing_token";
+    }
+    const grant = this.auth.authenticate(match[1]);
+    if (!grant) {
+      return "invalid_token";
+    }
+    return grant.scopes.has("upload") ? null : "insufficient_scope";
+  }
+
   private applyCors(res: ServerResponse): void {
     res.setHeader("Access-Control-Allow-Origin", this.allowOrigin);
     res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
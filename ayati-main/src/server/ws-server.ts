@@ -1,10 +1,18 @@
 import { randomUUID } from "node:crypto";
 import { WebSocketServer, WebSocket } from "ws";
 import { devLog, devWarn, devError } from "../shared/index.js";
+import type {
+  ClientAuthenticator,
+  ClientAuthFailureReason,
+  ClientTokenScope,
+} from "./client-tokens.js";
 
 const DEFAULT_PORT = 8080;
 const DEFAULT_HOST = "127.0.0.1";
 const MAX_PENDING_REPLY_RENDERS = 100;
+const DEFAULT_AUTH_TIMEOUT_MS = 10_000;
+const UNAUTHORIZED_CLOSE_CODE = 4401;
+const ALL_SCOPES: ReadonlySet<ClientTokenScope> = new Set(["chat", "upload", "voice", "observer"]);
 
 export interface WsServerOptions {
   host?: string;
@@ -12,6 +20,20 @@ export interface WsServerOptions {
   onMessage: (clientId: string, data: unknown) => void;
   onDisconnect?: (clientId: string) => void;
   onReplyRendered?: (clientId: string, acknowledgement: ReplyRenderedAcknowledgement) => void;
+  /**
+   * When set, a connection must send `client_hello` with a token holding the chat or observer
+   * scope before anything else; until then it receives nothing and its messages are rejected.
+   */
+  auth?: ClientAuthenticator;
+  /** Envelopes an observer-only client may send besides `client_hello` and `reply_rendered`. */
+  allowsObserverMessage?: (data: unknown) => boolean;
+  authTimeoutMs?: number;
+}
+
+export interface WsUnauthorizedEnvelope {
+  type: "unauthorized";
+  reason: ClientAuthFailureReason;
+  content: string;
 }
 
 export interface ReplyRenderedAcknowledgement {
@@ -23,7 +45,9 @@ export interface ReplyRenderedAcknowledgement {
 
 interface ClientCapabilities {
   replyStreaming: boolean;
+  approvals: boolean;
   kind: WsClientKind;
+  scopes: ReadonlySet<ClientTokenScope>;
 }
 
 export type WsClientKind = "cli" | "desktop" | "voice" | "unknown";
@@ -34,8 +58,13 @@ export class WsServer {
   private readonly onMessage: (clientId: string, data: unknown) => void;
   private readonly onDisconnect?: (clientId: string) => void;
   private readonly onReplyRendered?: WsServerOptions["onReplyRendered"];
+  private readonly auth?: ClientAuthenticator;
+  private readonly allowsObserverMessage: (data: unknown) => boolean;
+  private readonly authTimeoutMs: number;
   private wss: WebSocketServer | null = null;
+  /** Authenticated connections only; sends and broadcasts never reach a pending socket. */
   private clients = new Map<string, WebSocket>();
+  private pendingSockets = new Set<WebSocket>();
   private clientCapabilities = new Map<string, ClientCapabilities>();
   private pendingReplyRenders = new Map<string, Map<string, number>>();
   private defaultClientId: string | null = null;
@@ -46,6 +75,9 @@ export class WsServer {
     this.onMessage = options.onMessage;
     this.onDisconnect = options.onDisconnect;
     this.onReplyRendered = options.onReplyRendered;
+    this.auth = options.auth;
+    this.allowsObserverMessage = options.allowsObserverMessage ?? (() => false);
+    this.authTimeoutMs = options.authTimeoutMs ?? DEFAULT_AUTH_TIMEOUT_MS;
   }
 
   async start(): Promise<void> {
@@ -63,12 +95,15 @@ export class WsServer {
 
       this.wss.on("connection", (ws) => {
         const clientId = randomUUID();
-        this.clients.set(clientId, ws);
-        this.clientCapabilities.set(clientId, {
-          replyStreaming: false,
-          kind: "unknown",
-        });
-        this.defaultClientId = clientId;
+        let authTimer: NodeJS.Timeout | undefined;
+        if (this.auth) {
+          this.pendingSockets.add(ws);
+          authTimer = setTimeout(() => {
+            this.reject(ws, clientId, "missing_token", "Send client_hello with a client token to use this daemon.");
+          }, this.authTimeoutMs);
+        } else {
+          this.admit(clientId, ws, ALL_SCOPES);
+        }
         devLog(`Client connected: ${clientId}`);
 
         ws.on("message", (raw) => {
@@ -81,22 +116,39 @@ export class WsServer {
             ws.send(JSON.stringify({ type: "error", content: "Invalid JSON" }));
             return;
           }
-          if (this.recordClientHello(clientId, parsed)) {
+          if (this.recordClientHello(clientId, ws, parsed)) {
+            if (this.clients.has(clientId)) clearTimeout(authTimer);
+            return;
+          }
+          const scopes = this.clientCapabilities.get(clientId)?.scopes;
+          if (!scopes) {
+            this.reject(ws, clientId, "missing_token", "Send client_hello with a client token before other messages.");
             return;
           }
           if (this.recordReplyRendered(clientId, parsed)) {
             return;
           }
+          if (!scopes.has("chat") && !this.allowsObserverMessage(parsed)) {
+            ws.send(JSON.stringify(unauthorized(
+              "insufficient_scope",
+              "This client token is read-only; chats, approvals, and changes need a token with the chat scope.",
+            )));
+            return;
+          }
           this.onMessage(clientId, parsed);
         });
 
         ws.on("close", () => {
+          clearTimeout(authTimer);
+          this.pendingSockets.delete(ws);
+          if (!this.clients.has(clientId)) {
+            return;
+          }
           this.clients.delete(clientId);
           this.clientCapabilities.delete(clientId);
           this.pendingReplyRenders.delete(clientId);
           if (this.defaultClientId === clientId) {
-            const first = this.clients.keys().next();
-            this.defaultClientId = first.done ? null : first.value;
+            this.defaultClientId = this.firstChatClientId();
           }
           devLog(`Client disconnected: ${clientId}`);
           this.onDisconnect?.(clientId);
@@ -123,10 +175,10 @@ export class WsServer {
         ws = this.clients.get(this.defaultClientId);
       }
       if (!ws) {
-        const first = this.clients.entries().next();
-        if (!first.done) {
-          resolvedClientId = first.value[0];
-          ws = first.value[1];
+        const fallback = this.firstChatClientId();
+        if (fallback) {
+          resolvedClientId = fallback;
+          ws = this.clients.get(fallback);
         }
       }
     }
@@ -149,6 +201,18 @@ export class WsServer {
     }
   }
 
+  /** Sends to every authenticated client and returns how many received it. */
+  broadcast(data: unknown): number {
+    const payload = JSON.stringify(data);
+    let delivered = 0;
+    for (const ws of this.clients.values()) {
+      if (ws.readyState !== WebSocket.OPEN) continue;
+      ws.send(payload);
+      delivered++;
+    }
+    return delivered;
+  }
+
   clientSupportsReplyStreaming(clientId: string): boolean {
     const direct = this.clientCapabilities.get(clientId);
     if (direct) {
@@ -163,15 +227,21 @@ export class WsServer {
     return false;
   }
 
+  clientSupportsApprovals(clientId: string): boolean {
+    const capabilities = this.clientCapabilities.get(clientId);
+    return capabilities?.approvals === true && capabilities.scopes.has("chat");
+  }
+
   clientKind(clientId: string): WsClientKind {
     return this.clientCapabilities.get(clientId)?.kind ?? "unknown";
   }
 
   async stop(): Promise<void> {
-    for (const client of this.clients.values()) {
+    for (const client of [...this.clients.values(), ...this.pendingSockets]) {
       client.close(1001, "Server shutting down");
     }
     this.clients.clear();
+    this.pendingSockets.clear();
     this.clientCapabilities.clear();
     this.pendingReplyRenders.clear();
 
@@ -188,7 +258,39 @@ export class WsServer {
     });
   }
 
-  private recordClientHello(clientId: string, data: unknown): boolean {
+  private admit(clientId: string, ws: WebSocket, scopes: ReadonlySet<ClientTokenScope>): void {
+    this.pendingSockets.delete(ws);
+    this.clients.set(clientId, ws);
+    const previous = this.clientCapabilities.get(clientId);
+    this.clientCapabilities.set(clientId, {
+      replyStreaming: previous?.replyStreaming ?? false,
+      approvals: previous?.approvals ?? false,
+      kind: previous?.kind ?? "unknown",
+      scopes,
+    });
+    if (scopes.has("chat")) {
+      this.defaultClientId = clientId;
+    }
+  }
+
+  private reject(ws: WebSocket, clientId: string, reason: ClientAuthFailureReason, content: string): void {
+    devWarn(`Rejected client ${clientId}: ${reason}`);
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(unauthorized(reason, content)));
+    }
+    ws.close(UNAUTHORIZED_CLOSE_CODE, reason);
+  }
+
+  private firstChatClientId(): string | null {
+    for (const clientId of this.clients.keys()) {
+      if (this.clientCapabilities.get(clientId)?.scopes.has("chat")) {
+        return clientId;
+      }
+    }
+    return null;
+  }
+
+  private recordClientHello(clientId: string, ws: WebSocket, data: unknown): boolean {
     if (!data || typeof data !== "object" || Array.isArray(data)) {
       return false;
     }
@@ -196,15 +298,43 @@ export class WsServer {
     if (record["type"] !== "client_hello") {
       return false;
     }
+    if (this.auth && !this.clients.has(clientId)) {
+      const token = record["token"];
+      const grant = this.auth.authenticate(token);
+      if (!grant) {
+        const missing = typeof token !== "string" || token.length === 0;
+        this.reject(
+          ws,
+          clientId,
+          missing ? "missing_token" : "invalid_token",
+          missing
+            ? "This daemon requires a client token in client_hello."
+            : "The client token was not recognized; it may have been rotated.",
+        );
+        return true;
+      }
+      if (!grant.scopes.has("chat") && !grant.scopes.has("observer")) {
+        this.reject(ws, clientId, "insufficient_scope", `Client token "${grant.name}" cannot open a chat connection.`);
+        return true;
+      }
+      devLog(`Client ${clientId} authenticated as ${grant.name}`);
+      this.admit(clientId, ws, grant.scopes);
+    }
     const capabilities = readObject(record["capabilities"]);
     const kind = record["clientKind"] === "cli"
       || record["clientKind"] === "desktop"
       || record["clientKind"] === "voice"
       ? record["clientKind"]
       : "unknown";
+    const scopes = this.clientCapabilities.get(clientId)?.scopes;
+    if (!scopes) {
+      return true;
+    }
     this.clientCapabilities.set(clientId, {
       replyStreaming: capabilities?.["replyStreaming"] === true,
+      approvals: capabilities?.["approvals"] === true,
       kind,
+      scopes,
     });
     return true;
   }
@@ -242,6 +372,10 @@ export class WsServer {
   }
 }
 
+function unauthorized(reason: ClientAuthFailureReason, content: string): WsUnauthorizedEnvelope {
+  return { type: "unauthorized", reason, content };
+}
+
 function readObject(value: unknown): Record<string, unknown> | undefined {
   return value && typeof value === "object" && !Array.isArray(value)
     ? value as Record<string, unknown>
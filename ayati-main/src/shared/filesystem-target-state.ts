@@ -1,5 +1,5 @@
 import { createHash } from "node:crypto";
-import { createReadStream } from "node:fs";
+import { createReadStream, type Stats } from "node:fs";
 import { lstat, readlink } from "node:fs/promises";
 import { basename, dirname, resolve } from "node:path";
 import type {
@@ -26,16 +26,20 @@ export async function canonicalizeFilesystemEntryPath(
   return resolve(parent, basename(absolute)) as CanonicalFilesystemPath;
 }
 
+/** Cheap change detector for a regular file: identity plus size and mtime, without hashing. */
+export interface FilesystemFileFingerprint {
+  device: number;
+  inode: number;
+  sizeBytes: number;
+  mtimeMs: number;
+}
+
 export async function observeFilesystemTarget(
   path: string,
 ): Promise<FilesystemTargetState> {
   const state = await lstat(path).catch(missingPath);
   if (!state) return { kind: "missing" };
-  const identity = {
-    device: state.dev,
-    inode: state.ino,
-    mode: state.mode & 0o777,
-  };
+  const identity = targetIdentity(state);
   if (state.isSymbolicLink()) {
     return {
       kind: "symlink",
@@ -64,6 +68,29 @@ export async function observeFilesystemTarget(
   };
 }
 
+/**
+ * Observes a regular file without reading it. Returns null for anything that is not a regular
+ * file, including symbolic links, so callers never follow a link out of the tree they index.
+ */
+export async function fingerprintFilesystemFile(
+  path: string,
+): Promise<FilesystemFileFingerprint | null> {
+  const state = await lstat(path).catch(missingPath);
+  if (!state?.isFile()) return null;
+  const { device, inode } = targetIdentity(state);
+  return { device, inode, sizeBytes: state.size, mtimeMs: state.mtimeMs };
+}
+
+export function sameFilesystemFileFingerprint(
+  left: FilesystemFileFingerprint,
+  right: FilesystemFileFingerprint,
+): boolean {
+  return left.sizeBytes === right.sizeBytes
+    && left.mtimeMs === right.mtimeMs
+    && left.device === right.device
+    && left.inode === right.inode;
+}
+
 export function sameFilesystemTargetState(
   left: FilesystemTargetState,
   right: FilesystemTargetState,
@@ -145,6 +172,14 @@ export async function sha256File(path: string): Promise<string> {
   return hash.digest("hex");
 }
 
+function targetIdentity(state: Stats): { device: number; inode: number; mode: number } {
+  return {
+    device: state.dev,
+    inode: state.ino,
+    mode: state.mode & 0o777,
+  };
+}
+
 function missingPath(error: unknown): undefined {
   if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
   throw error;
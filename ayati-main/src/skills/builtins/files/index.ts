@@ -1,6 +1,6 @@
 import type { DirectoryLibrary } from "../../../files/directory-library.js";
 import type { FileLibrary } from "../../../files/file-library.js";
-import type { ManagedFileRecord } from "../../../files/types.js";
+import type { ManagedFileRecord, TableWorkspaceSource } from "../../../files/types.js";
 import type { SkillDefinition, ToolDefinition, ToolExecutionContext, ToolResult } from "../../types.js";
 import { requireAbsolutePath } from "../../workspace-paths.js";
 import {
@@ -28,6 +28,7 @@ export function createFilesSkill(deps: FilesSkillDeps): SkillDefinition {
     createFileQueryTool(deps),
     createFileProfileTableTool(deps),
     createFileQueryTableTool(deps),
+    createFileQueryTablesTool(deps),
   ];
 
   return {
@@ -200,7 +201,7 @@ function createAttachmentQueryTableTool(deps: FilesSkillDeps): ToolDefinition {
 function createDirectorySearchTool(deps: FilesSkillDeps): ToolDefinition {
   return {
     name: "directory_search",
-    description: "Search an attached directory by path/name, or search file contents with searchContents=true.",
+    description: "Search an attached directory by path/name, or search file contents with searchContents=true. Case-insensitive content searches use the directory's full-text index once it is built: results are BM25-ranked with excerpts, and queries match whole words, \"quoted phrases\", and word* prefixes.",
     inputSchema: {
       type: "object",
       required: ["query"],
@@ -408,6 +409,87 @@ function createFileQueryTableTool(deps: FilesSkillDeps): ToolDefinition {
   };
 }
 
+function createFileQueryTablesTool(deps: FilesSkillDeps): ToolDefinition {
+  return {
+    name: "file_query_tables",
+    description: "Run one SELECT across several managed CSV/XLSX files and SQLite databases. Each file table is named by its alias (default: the file name without extension, plus _<sheet> for multi-sheet workbooks); a database is attached as a schema, so query alias.table_name. Set saveAs to an absolute .csv or .xlsx path to write the full result there and register it as an artifact.",
+    inputSchema: {
+      type: "object",
+      required: ["tables", "sql"],
+      properties: {
+        tables: {
+          type: "array",
+          minItems: 1,
+          description: "Sources to mount. Give fileId (with optional sheetName) for a managed table file, or dbPath for a database-tool SQLite database.",
+          items: {
+            type: "object",
+            properties: {
+              fileId: { type: "string" },
+              sheetName: { type: "string" },
+              dbPath: { type: "string" },
+              alias: { type: "string", description: "Table (file) or schema (database) name to use in SQL." },
+            },
+            additionalProperties: false,
+          },
+        },
+        sql: { type: "string" },
+        maxRows: { type: "number" },
+        saveAs: { type: "string", description: "Canonical absolute path of a new .csv or .xlsx file for the full result." },
+      },
+      additionalProperties: false,
+    },
+    async execute(input, context): Promise<ToolResult> {
+      return withJsonResult(async () => {
+        const sources = readTableSources(input);
+        for (const source of sources) {
+          if (source.source === "file" && context?.runId) {
+            await deps.fileLibrary.touchRunFile(context.runId, source.fileId, "used");
+          }
+        }
+        const saveAs = readOptionalString(input, "saveAs");
+        return deps.fileLibrary.queryTables({
+          sources,
+          sql: readRequiredString(input, "sql"),
+          maxRows: readOptionalNumber(input, "maxRows"),
+          ...(saveAs ? { saveAs: readRequiredAbsolutePath(input, "saveAs") } : {}),
+          runId: context?.runId,
+        });
+      });
+    },
+  };
+}
+
+function readTableSources(input: unknown): TableWorkspaceSource[] {
+  const value = input && typeof input === "object" && !Array.isArray(input)
+    ? (input as Record<string, unknown>)["tables"]
+    : undefined;
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error("tables must be a non-empty array.");
+  }
+  return value.map((entry, index) => {
+    const fileId = readOptionalString(entry, "fileId");
+    const dbPath = readOptionalString(entry, "dbPath");
+    const alias = readOptionalString(entry, "alias");
+    if ((fileId === undefined) === (dbPath === undefined)) {
+      throw new Error(`tables[${index}] must have exactly one of fileId or dbPath.`);
+    }
+    if (fileId) {
+      const sheetName = readOptionalString(entry, "sheetName");
+      return {
+        source: "file",
+        fileId,
+        ...(sheetName ? { sheetName } : {}),
+        ...(alias ? { alias } : {}),
+      };
+    }
+    return {
+      source: "database",
+      ...(dbPath ? { dbPath } : {}),
+      ...(alias ? { alias } : {}),
+    };
+  });
+}
+
 async function resolveFileId(
   fileLibrary: FileLibrary,
   input: unknown,
@@ -1,5 +1,6 @@
 import { readdir, readFile, stat } from "node:fs/promises";
 import { join } from "node:path";
+import { getActiveIndexedPathSearcher } from "../../../files/directory-index.js";
 import type { ToolDefinition, ToolResult } from "../../types.js";
 import {
   makeBlock,
@@ -8,6 +9,7 @@ import {
 } from "../../observations/context-observation.js";
 import { resolveWorkspaceRoots } from "../../workspace-paths.js";
 import { commonAnnotations, okResult, succeededContract, successV2 } from "../contract-helpers.js";
+import type { SearchInFilesInput } from "./types.js";
 import { validateSearchInFilesInput } from "./validators.js";
 
 interface SearchState {
@@ -18,16 +20,22 @@ interface SearchState {
 interface FileMatch {
   filePath: string;
   kind: "file";
+  /** 0 for a ranked hit whose terms only match across line breaks; `match` is then the excerpt. */
   line: number;
   before: string[];
   match: string;
   after: string[];
+  score?: number;
+  excerpt?: string;
 }
 
+type SearchResultMode = NonNullable<SearchInFilesInput["resultMode"]>;
+
 const MAX_FILE_SIZE = 1024 * 1024; // 1MB
 const DEFAULT_CONTEXT_LINES = 1;
 const MAX_CONTEXT_LINES = 5;
 const PER_FILE_MATCH_LIMIT = 3;
+const MAX_RANKED_RESULTS = 100;
 
 function containsQuery(text: string, query: string, caseSensitive: boolean): boolean {
   if (caseSensitive) return text.includes(query);
@@ -81,7 +89,7 @@ function findLineMatches(
 
 export const searchInFilesTool: ToolDefinition = {
   name: "search_in_files",
-  description: "Search text inside files. Returns matching paths by default, optional snippets, or a complete occurrence count without matching text.",
+  description: "Search text inside files. Returns matching paths by default, optional snippets, a complete occurrence count without matching text, or BM25-ranked files from an attached directory's full-text index.",
   inputSchema: {
     type: "object",
     required: ["query"],
@@ -102,8 +110,8 @@ export const searchInFilesTool: ToolDefinition = {
       },
       resultMode: {
         type: "string",
-        enum: ["paths", "snippets", "count"],
-        description: "Return matching paths (default), bounded text snippets, or an exact occurrence count when the complete allowed scope can be scanned.",
+        enum: ["paths", "snippets", "count", "ranked"],
+        description: "Return matching paths (default), bounded text snippets, an exact occurrence count when the complete allowed scope can be scanned, or ranked files from the index of an attached directory. Ranked queries match whole words, \"quoted phrases\", and word* prefixes, case-insensitively.",
       },
     },
   },
@@ -121,7 +129,7 @@ export const searchInFilesTool: ToolDefinition = {
       hasMore: { type: "boolean" },
       countUnit: { type: "string", enum: ["occurrences"] },
       capped: { type: "boolean" },
-      resultMode: { type: "string", enum: ["paths", "snippets", "count"] },
+      resultMode: { type: "string", enum: ["paths", "snippets", "count", "ranked"] },
       matches: { type: "array", items: { type: "object" } },
       observation: { type: "object" },
     },
@@ -162,6 +170,17 @@ export const searchInFilesTool: ToolDefinition = {
       : 0;
     const roots = resolveWorkspaceRoots(parsed.roots, context?.resourceScope?.rootPath);
     const start = Date.now();
+    if (resultMode === "ranked") {
+      return await searchRanked({
+        query: parsed.query,
+        roots,
+        maxDepth,
+        maxResults: Math.min(maxResults, MAX_RANKED_RESULTS),
+        includeHidden,
+        contextLines: Math.max(0, Math.min(parsed.contextLines ?? DEFAULT_CONTEXT_LINES, MAX_CONTEXT_LINES)),
+        start,
+      });
+    }
 
     const searchedRoots: string[] = [];
     const matches: FileMatch[] = [];
@@ -325,6 +344,141 @@ export const searchInFilesTool: ToolDefinition = {
   },
 };
 
+/**
+ * Ranked mode reads the full-text index of the attached directory that covers each root instead
+ * of walking the tree. Roots outside attached directories, or whose index is still being built,
+ * fail with a pointer to the scanning modes.
+ */
+async function searchRanked(input: {
+  query: string;
+  roots: string[];
+  maxDepth: number;
+  maxResults: number;
+  includeHidden: boolean;
+  contextLines: number;
+  start: number;
+}): Promise<ToolResult> {
+  const searcher = getActiveIndexedPathSearcher();
+  const matches: FileMatch[] = [];
+  const matchedFiles = new Set<string>();
+  const directories: Array<{ root: string; directoryId: string; refreshedAt?: string }> = [];
+  try {
+    for (const root of input.roots) {
+      const remaining = input.maxResults - matchedFiles.size;
+      if (remaining <= 0) break;
+      const result = await searcher?.searchIndexedPath({
+        path: root,
+        query: input.query,
+        maxResults: remaining,
+        includeHidden: input.includeHidden,
+        contextLines: input.contextLines,
+      });
+      if (!result) {
+        throw new Error(
+          `${root} is not inside an attached directory with a built search index yet; `
+          + 'use resultMode "paths" or "snippets" to scan it.',
+        );
+      }
+      directories.push({
+        root,
+        directoryId: result.directoryId,
+        ...(result.index.refreshedAt ? { refreshedAt: result.index.refreshedAt } : {}),
+      });
+      for (const hit of result.hits) {
+        matchedFiles.add(hit.path);
+        const ranked = { score: hit.score, excerpt: hit.excerpt };
+        if (hit.lineMatches.length === 0) {
+          matches.push({ filePath: hit.path, kind: "file", line: 0, before: [], match: hit.excerpt, after: [], ...ranked });
+          continue;
+        }
+        for (const line of hit.lineMatches) {
+          matches.push({
+            filePath: hit.path,
+            kind: "file",
+            line: line.line,
+            before: line.before ?? [],
+            match: line.text,
+            after: line.after ?? [],
+            ...ranked,
+          });
+        }
+      }
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown ranked search error";
+    return { ok: false, error: message, meta: { durationMs: Date.now() - input.start } };
+  }
+
+  const capped = matchedFiles.size >= input.maxResults;
+  const counts = {
+    matchedFileCount: matchedFiles.size,
+    returnedMatchCount: matches.length,
+    totalMatchCount: null,
+    minimumMatchCount: matches.length,
+    countComplete: false,
+    hasMore: capped,
+    capped,
+  };
+  const observation = buildSearchObservation({
+    query: input.query,
+    roots: input.roots,
+    ...counts,
+    matches,
+    visitedFiles: 0,
+    skippedLargeFiles: 0,
+    maxDepth: input.maxDepth,
+    maxResults: input.maxResults,
+    includeHidden: input.includeHidden,
+    caseSensitive: false,
+    resultMode: "ranked",
+  });
+  const meta = {
+    durationMs: Date.now() - input.start,
+    query: input.query,
+    roots: input.roots,
+    ...counts,
+    countUnit: "occurrences",
+    maxResults: input.maxResults,
+    includeHidden: input.includeHidden,
+    caseSensitive: false,
+    resultMode: "ranked",
+    indexedDirectories: directories,
+  };
+  return {
+    ...okResult({
+      output: renderContextObservation({
+        tool: "search_in_files",
+        status: "success",
+        message: `Ranked search of ${input.roots.length} root${input.roots.length === 1 ? "" : "s"}.`,
+        observation,
+      }),
+      meta,
+      v2: successV2({
+        code: "FILES_SEARCHED",
+        message: `Searched files for: ${input.query}`,
+        structuredContent: {
+          query: input.query,
+          roots: input.roots,
+          ...counts,
+          countUnit: "occurrences",
+          resultMode: "ranked",
+          matches,
+          observation,
+          visitedFiles: 0,
+          skippedLargeFiles: 0,
+          maxDepth: input.maxDepth,
+          maxResults: input.maxResults,
+          includeHidden: input.includeHidden,
+          caseSensitive: false,
+          indexedDirectories: directories,
+        },
+        diagnostics: meta,
+      }),
+    }),
+    rawOutput: formatRawMatches(matches, input.query),
+  };
+}
+
 function buildSearchObservation(input: {
   query: string;
   roots: string[];
@@ -342,12 +496,13 @@ function buildSearchObservation(input: {
   maxResults: number;
   includeHidden: boolean;
   caseSensitive: boolean;
-  resultMode: "paths" | "snippets" | "count";
+  resultMode: SearchResultMode;
 }): ToolContextObservation {
-  const visibleMatches = input.resultMode === "snippets"
+  const showsText = input.resultMode === "snippets" || input.resultMode === "ranked";
+  const visibleMatches = showsText
     ? input.matches.slice(0, 12)
     : firstMatchPerFile(input.matches).slice(0, 12);
-  const blocks = input.resultMode === "snippets"
+  const blocks = showsText
     ? visibleMatches.map((match) => makeBlock({
         title: `${match.filePath}:${match.line}`,
         lines: [
@@ -387,7 +542,7 @@ function buildSearchObservation(input: {
       resultMode: input.resultMode,
     },
     highlights: visibleMatches.map((match) => (
-      input.resultMode === "snippets"
+      showsText
         ? `${match.filePath}:${match.line}: ${match.match.trim()}`
         : `${match.filePath}:${match.line}`
     )),
@@ -411,9 +566,12 @@ function searchSummary(input: {
   totalMatchCount: number | null;
   minimumMatchCount: number;
   countComplete: boolean;
-  resultMode: "paths" | "snippets" | "count";
+  resultMode: SearchResultMode;
 }): string {
   const files = `${input.matchedFileCount} file${input.matchedFileCount === 1 ? "" : "s"}`;
+  if (input.resultMode === "ranked") {
+    return `Ranked ${files} for "${input.query}" from the directory index; occurrences are not counted.`;
+  }
   if (input.countComplete) {
     return `Counted ${input.totalMatchCount ?? 0} occurrence${input.totalMatchCount === 1 ? "" : "s"} in ${files} for "${input.query}".`;
   }
@@ -262,5 +262,5 @@ export interface SearchInFilesInput {
   includeHidden?: boolean;
   caseSensitive?: boolean;
   contextLines?: number;
-  resultMode?: "paths" | "snippets" | "count";
+  resultMode?: "paths" | "snippets" | "count" | "ranked";
 }
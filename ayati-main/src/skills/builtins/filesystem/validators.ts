@@ -613,8 +613,9 @@ export function validateSearchInFilesInput(input: unknown): SearchInFilesInput |
     && v.resultMode !== "paths"
     && v.resultMode !== "snippets"
     && v.resultMode !== "count"
+    && v.resultMode !== "ranked"
   ) {
-    return fail('resultMode must be "paths", "snippets", or "count".');
+    return fail('resultMode must be "paths", "snippets", "count", or "ranked".');
   }
 
   return {
@@ -4,6 +4,7 @@ import type {
   ResourceRole,
   WorkstreamDiscoveryOutcome,
   WorkstreamDiscoveryView,
+  WorkstreamLifecycleOperationResponse,
 } from "ayati-context-engine";
 import type { ToolDefinition, ToolExecutionContext, ToolResult } from "../../types.js";
 import {
@@ -18,6 +19,10 @@ export function createWorkstreamDiscoveryTools(service: ContextEngineService): T
     findWorkstreamsTool(service),
     readWorkstreamTool(service),
     setWorkstreamStarTool(service),
+    archiveWorkstreamTool(service),
+    renameWorkstreamTool(service),
+    mergeWorkstreamsTool(service),
+    splitWorkstreamTool(service),
     findResourcesTool(service),
     inspectResourceTool(service),
     bindResourcesTool(service),
@@ -223,6 +228,171 @@ function setWorkstreamStarTool(service: ContextEngineService): ToolDefinition {
   };
 }
 
+function archiveWorkstreamTool(service: ContextEngineService): ToolDefinition {
+  return {
+    name: "git_context_archive_workstream",
+    description: "Archive a workstream, or restore an archived one with archived=false. Use only when the user asks to archive or restore it.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        workstreamId: { type: "string", pattern: "^W-[0-9]{8}-[0-9]{4}$" },
+        archived: { type: "boolean" },
+        reason: { type: "string" },
+      },
+      required: ["workstreamId", "archived", "reason"],
+      additionalProperties: false,
+    },
+    outputSchema: lifecycleOutputSchema(),
+    annotations: controlAnnotations(true),
+    resultContract: succeededContract(),
+    async execute(input, context): Promise<ToolResult> {
+      const record = objectInput(input);
+      const workstreamId = workstreamIdInput(record, "workstreamId");
+      if (!workstreamId || typeof record["archived"] !== "boolean" || !optionalString(record, "reason")) {
+        return discoveryError("A valid workstream id, archived value, and reason are required.");
+      }
+      const archived = record["archived"];
+      return await runLifecycleOperation(service, context, "archive", async (base) =>
+        await service.archiveWorkstream({ ...base, workstreamId, archived }));
+    },
+  };
+}
+
+function renameWorkstreamTool(service: ContextEngineService): ToolDefinition {
+  return {
+    name: "git_context_rename_workstream",
+    description: "Rename a workstream. The former title stays searchable as an alias unless aliases are given. Use only when the user asks for a new name.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        workstreamId: { type: "string", pattern: "^W-[0-9]{8}-[0-9]{4}$" },
+        title: { type: "string" },
+        aliases: { type: "array", maxItems: 12, items: { type: "string" } },
+        reason: { type: "string" },
+      },
+      required: ["workstreamId", "title", "reason"],
+      additionalProperties: false,
+    },
+    outputSchema: lifecycleOutputSchema(),
+    annotations: controlAnnotations(true),
+    resultContract: succeededContract(),
+    async execute(input, context): Promise<ToolResult> {
+      const record = objectInput(input);
+      const workstreamId = workstreamIdInput(record, "workstreamId");
+      const title = optionalString(record, "title");
+      if (!workstreamId || !title || !optionalString(record, "reason")) {
+        return discoveryError("A valid workstream id, title, and reason are required.");
+      }
+      const aliases = Array.isArray(record["aliases"]) ? stringArray(record["aliases"]) : undefined;
+      return await runLifecycleOperation(service, context, "rename", async (base) =>
+        await service.renameWorkstream({ ...base, workstreamId, title, ...(aliases ? { aliases } : {}) }));
+    },
+  };
+}
+
+function mergeWorkstreamsTool(service: ContextEngineService): ToolDefinition {
+  return {
+    name: "git_context_merge_workstreams",
+    description: "Move every request, progress entry, and resource binding of the source workstream into the target and archive the source. Use only when the user asks to merge them.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sourceWorkstreamId: { type: "string", pattern: "^W-[0-9]{8}-[0-9]{4}$" },
+        targetWorkstreamId: { type: "string", pattern: "^W-[0-9]{8}-[0-9]{4}$" },
+        reason: { type: "string" },
+      },
+      required: ["sourceWorkstreamId", "targetWorkstreamId", "reason"],
+      additionalProperties: false,
+    },
+    outputSchema: lifecycleOutputSchema(),
+    annotations: rewriteAnnotations(),
+    resultContract: succeededContract(),
+    async execute(input, context): Promise<ToolResult> {
+      const record = objectInput(input);
+      const sourceWorkstreamId = workstreamIdInput(record, "sourceWorkstreamId");
+      const targetWorkstreamId = workstreamIdInput(record, "targetWorkstreamId");
+      if (!sourceWorkstreamId || !targetWorkstreamId || !optionalString(record, "reason")) {
+        return discoveryError("Valid source and target workstream ids and a reason are required.");
+      }
+      return await runLifecycleOperation(service, context, "merge", async (base) =>
+        await service.mergeWorkstreams({ ...base, sourceWorkstreamId, targetWorkstreamId }));
+    },
+  };
+}
+
+function splitWorkstreamTool(service: ContextEngineService): ToolDefinition {
+  return {
+    name: "git_context_split_workstream",
+    description: "Move the selected requests, with their progress and resource bindings, into a new workstream. Use only when the user asks to split them out.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        workstreamId: { type: "string", pattern: "^W-[0-9]{8}-[0-9]{4}$" },
+        requestIds: { type: "array", minItems: 1, maxItems: 50, items: { type: "string", pattern: "^R-[0-9]{4}$" } },
+        title: { type: "string" },
+        objective: { type: "string" },
+        reason: { type: "string" },
+      },
+      required: ["workstreamId", "requestIds", "title", "reason"],
+      additionalProperties: false,
+    },
+    outputSchema: lifecycleOutputSchema(),
+    annotations: rewriteAnnotations(),
+    resultContract: succeededContract(),
+    async execute(input, context): Promise<ToolResult> {
+      const record = objectInput(input);
+      const workstreamId = workstreamIdInput(record, "workstreamId");
+      const requestIds = stringArray(record["requestIds"]);
+      const title = optionalString(record, "title");
+      const objective = optionalString(record, "objective");
+      if (!workstreamId || requestIds.length === 0 || !title || !optionalString(record, "reason")) {
+        return discoveryError("A valid workstream id, request ids, title, and reason are required.");
+      }
+      return await runLifecycleOperation(service, context, "split", async (base) =>
+        await service.splitWorkstream({ ...base, workstreamId, requestIds, title, ...(objective ? { objective } : {}) }));
+    },
+  };
+}
+
+const LIFECYCLE_RESULT_CODES: Record<WorkstreamLifecycleOperationResponse["operation"], string> = {
+  archive: "GIT_CONTEXT_WORKSTREAM_ARCHIVED",
+  restore: "GIT_CONTEXT_WORKSTREAM_RESTORED",
+  rename: "GIT_CONTEXT_WORKSTREAM_RENAMED",
+  merge: "GIT_CONTEXT_WORKSTREAMS_MERGED",
+  split: "GIT_CONTEXT_WORKSTREAM_SPLIT",
+};
+
+async function runLifecycleOperation(
+  service: ContextEngineService,
+  context: ToolExecutionContext | undefined,
+  operation: string,
+  perform: (base: { requestId: string; runId: string; at: string }) => Promise<WorkstreamLifecycleOperationResponse>,
+): Promise<ToolResult> {
+  const identity = executionIdentity(context);
+  if (!identity) return discoveryError("Workstream lifecycle changes require the current run.");
+  try {
+    const active = await service.getAgentContext({ streamId: identity.streamId });
+    const run = active.run?.run;
+    if (!run || run.runId !== identity.runId) {
+      return discoveryError("Workstream lifecycle changes require the current run.");
+    }
+    const result = await perform({
+      requestId: identity.requestId + ":" + operation,
+      runId: identity.runId,
+      at: run.startedAt,
+    });
+    return okJsonResult({
+      code: result.changed ? LIFECYCLE_RESULT_CODES[result.operation] : "GIT_CONTEXT_WORKSTREAM_UNCHANGED",
+      message: result.changed
+        ? `Workstream ${result.operation} committed for ${result.workstreamId}.`
+        : `Workstream ${result.workstreamId} was already in the requested state.`,
+      structuredContent: result,
+    });
+  } catch (error) {
+    return discoveryError(errorMessage(error));
+  }
+}
+
 function findResourcesTool(service: ContextEngineService): ToolDefinition {
   return {
     name: "git_context_find_resources",
@@ -436,6 +606,24 @@ function listOutputSchema(field: string): Record<string, unknown> {
   };
 }
 
+function lifecycleOutputSchema(): Record<string, unknown> {
+  return {
+    type: "object",
+    properties: {
+      operation: { type: "string" },
+      workstreamId: { type: "string" },
+      sourceWorkstreamId: { type: "string" },
+      title: { type: "string" },
+      lifecycleStatus: { type: "string" },
+      changed: { type: "boolean" },
+      commit: { type: "string" },
+      movedRequests: { type: "array" },
+    },
+    required: ["operation", "workstreamId", "title", "lifecycleStatus", "changed", "movedRequests"],
+    additionalProperties: false,
+  };
+}
+
 function workstreamListOutputSchema(): Record<string, unknown> {
   return {
     type: "object",
@@ -503,6 +691,11 @@ function controlAnnotations(idempotent: boolean) {
   return commonAnnotations({ domain: "git_context", readOnly: false, idempotent, retrySafe: idempotent });
 }
 
+/** Merge and split move requests between workstreams and cannot be undone, so the approval gate asks first. */
+function rewriteAnnotations() {
+  return commonAnnotations({ domain: "git_context", readOnly: false, destructive: true, idempotent: true, retrySafe: true });
+}
+
 function executionIdentity(context?: ToolExecutionContext): {
   streamId: string;
   runId: string;
@@ -525,6 +718,11 @@ function objectInput(value: unknown): Record<string, unknown> {
     : {};
 }
 
+function workstreamIdInput(value: Record<string, unknown>, key: string): string | undefined {
+  const id = optionalString(value, key);
+  return id && /^W-\d{8}-\d{4}$/.test(id) ? id : undefined;
+}
+
 function optionalString(value: Record<string, unknown>, key: string): string | undefined {
   const field = value[key];
   return typeof field === "string" && field.trim() ? field.trim() : undefined;
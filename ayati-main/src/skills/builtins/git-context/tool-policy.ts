@@ -9,6 +9,10 @@ export const GIT_CONTEXT_READ_ONLY_TOOL_NAMES = [
 
 export const GIT_CONTEXT_PREFERENCE_TOOL_NAMES = [
   "git_context_set_workstream_star",
+  "git_context_archive_workstream",
+  "git_context_rename_workstream",
+  "git_context_merge_workstreams",
+  "git_context_split_workstream",
 ] as const;
 
 export const GIT_CONTEXT_ROUTING_SUPPORT_TOOL_NAMES = [
@@ -0,0 +1,51 @@
+export const GIT_WRITE_OPERATIONS = [
+  "stage",
+  "commit",
+  "branch_create",
+  "switch",
+  "stash",
+  "worktree_add",
+  "revert_commit",
+] as const;
+
+export type GitWriteOperation = typeof GIT_WRITE_OPERATIONS[number];
+
+export interface GitWriteInput {
+  repositoryPath: string;
+  operation: GitWriteOperation;
+  pathspecs?: string[];
+  message?: string;
+  branch?: string;
+  startRevision?: string;
+  revision?: string;
+  worktreePath?: string;
+  createBranch?: boolean;
+  includeUntracked?: boolean;
+}
+
+export interface GitWorktreeState {
+  head?: string;
+  branch?: string;
+  dirty: boolean;
+}
+
+export interface GitWriteOperationResult {
+  result: Record<string, unknown>;
+  /** Short deterministic description of the verified change, used as the progress-fact subject. */
+  verifiedChange: string;
+}
+
+export interface GitWriteOutput {
+  operation: GitWriteOperation;
+  repository: {
+    path: string;
+    access: "mutate";
+  };
+  before: GitWorktreeState;
+  after: GitWorktreeState;
+  result: Record<string, unknown>;
+  verifiedChange: string;
+}
+
+export const MAX_GIT_WRITE_PATHSPECS = 100;
+export const MAX_GIT_COMMIT_MESSAGE_CHARS = 10_000;
@@ -0,0 +1,81 @@
+import { execFile } from "node:child_process";
+import type { GitProcessResult } from "../git-read/git-process.js";
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_BUFFER = 16 * 1024 * 1024;
+
+export class GitWriteProcessError extends Error {
+  readonly code = "GIT_WRITE_PROCESS_FAILED";
+
+  constructor(
+    message: string,
+    readonly exitCode?: number,
+  ) {
+    super(message);
+    this.name = "GitWriteProcessError";
+  }
+}
+
+/**
+ * Runs one Git mutation with hooks, editors, and credential prompts disabled,
+ * so the only effects are the ones the structured operation asked for.
+ */
+export async function runMutatingGit(
+  repositoryPath: string,
+  args: readonly string[],
+  options: {
+    allowedExitCodes?: readonly number[];
+    timeoutMs?: number;
+  } = {},
+): Promise<GitProcessResult> {
+  const allowedExitCodes = new Set(options.allowedExitCodes ?? [0]);
+  return await new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      [
+        "--no-pager",
+        "-c",
+        "core.pager=cat",
+        "-c",
+        "core.hooksPath=/dev/null",
+        "-c",
+        "core.editor=true",
+        ...args,
+      ],
+      {
+        cwd: repositoryPath,
+        encoding: "utf8",
+        maxBuffer: DEFAULT_MAX_BUFFER,
+        timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        env: {
+          ...process.env,
+          GIT_TERMINAL_PROMPT: "0",
+          GIT_EDITOR: "true",
+          GIT_PAGER: "cat",
+          PAGER: "cat",
+        },
+      },
+      (error, stdout, stderr) => {
+        const exitCode = numericExitCode(error);
+        if (!error || allowedExitCodes.has(exitCode)) {
+          resolve({ stdout, stderr, exitCode });
+          return;
+        }
+        const detail = stderr.trim() || stdout.trim() || error.message;
+        reject(new GitWriteProcessError(
+          `Git ${args[0] ?? "operation"} failed: ${bounded(detail, 2_000)}`,
+          exitCode,
+        ));
+      },
+    );
+  });
+}
+
+function numericExitCode(error: { code?: string | number | null } | null): number {
+  if (!error) return 0;
+  return typeof error.code === "number" ? error.code : 1;
+}
+
+function bounded(value: string, maximum: number): string {
+  return value.length <= maximum ? value : `${value.slice(0, maximum - 3)}...`;
+}
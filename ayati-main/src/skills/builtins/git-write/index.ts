@@ -0,0 +1,212 @@
+import type { SkillDefinition, ToolDefinition, ToolResult } from "../../types.js";
+import {
+  commonAnnotations,
+  errorResult,
+  errorResultFromUnknown,
+  okJsonResult,
+  succeededContract,
+} from "../contract-helpers.js";
+import { resolveGitRepository } from "../git-read/repository-resolver.js";
+import {
+  GIT_WRITE_OPERATIONS,
+  MAX_GIT_COMMIT_MESSAGE_CHARS,
+  MAX_GIT_WRITE_PATHSPECS,
+  type GitWriteOutput,
+} from "./contracts.js";
+import { GitWriteProcessError } from "./git-process.js";
+import { parseGitWriteInput } from "./input.js";
+import {
+  executeGitWriteOperation,
+  GitWritePreconditionError,
+  GitWriteVerificationError,
+  readWorktreeState,
+} from "./operation-handlers.js";
+
+export interface GitWriteSkillDeps {
+  workstreamRoot: string;
+}
+
+export function createGitWriteSkill(deps: GitWriteSkillDeps): SkillDefinition {
+  return {
+    id: "git-write",
+    version: "1.0.0",
+    description: "Stage, commit, branch, stash, or add worktrees in an exact user Git repository with verified results.",
+    tools: [gitWriteTool(deps)],
+  };
+}
+
+function gitWriteTool(deps: GitWriteSkillDeps): ToolDefinition {
+  return {
+    name: "git_write",
+    description:
+      "Change one exact non-bare Git repository through one structured, non-destructive operation and verify the result. "
+      + "Hooks do not run. Force, reset, clean, amend, rebase, branch deletion, stash drop, and every network operation are unavailable.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repositoryPath: {
+          type: "string",
+          description: "Canonical absolute path to the exact Git repository root.",
+        },
+        operation: { type: "string", enum: [...GIT_WRITE_OPERATIONS] },
+        pathspecs: {
+          type: "array",
+          items: { type: "string" },
+          minItems: 1,
+          maxItems: MAX_GIT_WRITE_PATHSPECS,
+          description: "Repository-relative paths to stage; '.' stages every change.",
+        },
+        message: {
+          type: "string",
+          maxLength: MAX_GIT_COMMIT_MESSAGE_CHARS,
+          description: "Commit message for commit, or an optional stash message.",
+        },
+        branch: { type: "string", description: "Local branch name for branch_create, switch, or worktree_add." },
+        startRevision: { type: "string", description: "Commit a new branch starts from; defaults to HEAD." },
+        revision: { type: "string", description: "Commit to undo with a new revert commit." },
+        worktreePath: {
+          type: "string",
+          description: "Repository-relative directory for the new worktree; it must not exist yet.",
+        },
+        createBranch: { type: "boolean", description: "Create branch for worktree_add instead of checking out an existing one." },
+        includeUntracked: { type: "boolean", description: "Also stash untracked files." },
+      },
+      required: ["repositoryPath", "operation"],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        operation: { type: "string", enum: [...GIT_WRITE_OPERATIONS] },
+        repository: {
+          type: "object",
+          properties: {
+            path: { type: "string" },
+            access: { const: "mutate" },
+          },
+          required: ["path", "access"],
+          additionalProperties: false,
+        },
+        before: worktreeStateSchema(),
+        after: worktreeStateSchema(),
+        result: { type: "object" },
+        verifiedChange: { type: "string" },
+      },
+      required: ["operation", "repository", "before", "after", "result", "verifiedChange"],
+      additionalProperties: false,
+    },
+    annotations: commonAnnotations({
+      domain: "git",
+      readOnly: false,
+      mutatesWorkspace: true,
+    }),
+    resultContract: succeededContract({
+      assertions: [
+        { id: "git_write_operation_returned", kind: "json_path_exists", path: "$.result.structuredContent.operation" },
+        { id: "git_write_after_state_returned", kind: "json_path_exists", path: "$.result.structuredContent.after" },
+      ],
+      progressFacts: [{
+        kind: "git_mutation_verified",
+        path: "$.result.structuredContent.verifiedChange",
+        message: "Git repository change verified by git_write.",
+      }],
+    }),
+    async execute(input): Promise<ToolResult> {
+      const parsed = parseGitWriteInput(input);
+      if (!parsed.ok) {
+        return errorResult({
+          code: "GIT_WRITE_INPUT_INVALID",
+          message: parsed.message,
+          category: "validation",
+          retryable: true,
+          recoverable: true,
+          suggestedNextActions: ["Retry git_write with the fields accepted by the selected operation."],
+        });
+      }
+      const startedAt = Date.now();
+      const target = parsed.value.repositoryPath;
+      try {
+        const repository = await resolveGitRepository(target, deps.workstreamRoot);
+        if (repository.protectedWorkstream || repository.bare) {
+          return errorResult({
+            code: "GIT_WRITE_REPOSITORY_UNSUPPORTED",
+            message: repository.bare
+              ? "git_write only changes repositories with a working tree."
+              : "The workstream context repository is changed only by the Context Engine.",
+            category: "permission",
+            target: repository.path,
+            retryable: false,
+            recoverable: true,
+            suggestedNextActions: ["Use git_read to inspect this repository instead."],
+          });
+        }
+        const before = await readWorktreeState(repository.path);
+        const executed = await executeGitWriteOperation(parsed.value, repository, before);
+        const output: GitWriteOutput = {
+          operation: parsed.value.operation,
+          repository: { path: repository.path, access: "mutate" },
+          before,
+          after: await readWorktreeState(repository.path),
+          result: executed.result,
+          verifiedChange: executed.verifiedChange,
+        };
+        return okJsonResult({
+          code: `GIT_WRITE_${parsed.value.operation.toUpperCase()}_SUCCEEDED`,
+          message: `Verified Git ${parsed.value.operation}: ${executed.verifiedChange}.`,
+          structuredContent: output,
+          meta: {
+            durationMs: Date.now() - startedAt,
+            repositoryPath: repository.path,
+            operation: parsed.value.operation,
+          },
+        });
+      } catch (err) {
+        if (err instanceof GitWritePreconditionError) {
+          return errorResult({
+            code: err.code,
+            message: err.message,
+            category: "conflict",
+            target,
+            retryable: false,
+            recoverable: true,
+            suggestedNextActions: ["Inspect the repository with git_read status, resolve the reported condition, then retry."],
+            meta: { durationMs: Date.now() - startedAt },
+          });
+        }
+        if (err instanceof GitWriteVerificationError) {
+          return errorResult({
+            code: err.code,
+            message: err.message,
+            category: "semantic",
+            target,
+            retryable: false,
+            recoverable: false,
+            suggestedNextActions: ["Inspect the repository with git_read before making further changes."],
+            meta: { durationMs: Date.now() - startedAt },
+          });
+        }
+        return errorResultFromUnknown({
+          err,
+          code: err instanceof GitWriteProcessError ? err.code : "GIT_WRITE_FAILED",
+          fallbackMessage: "Git write operation failed.",
+          target,
+          suggestedNextActions: ["Check the repository path, branch or revision, and the operation fields, then inspect status with git_read."],
+          meta: { durationMs: Date.now() - startedAt },
+        });
+      }
+    },
+  };
+}
+
+function worktreeStateSchema(): Record<string, unknown> {
+  return {
+    type: "object",
+    properties: {
+      head: { type: "string" },
+      branch: { type: "string" },
+      dirty: { type: "boolean" },
+    },
+    required: ["dirty"],
+    additionalProperties: false,
+  };
+}
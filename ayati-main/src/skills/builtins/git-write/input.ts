@@ -0,0 +1,192 @@
+import {
+  requireAbsoluteFilesystemPath,
+  requireResourceRelativePath,
+} from "../../../shared/filesystem-paths.js";
+import {
+  GIT_WRITE_OPERATIONS,
+  MAX_GIT_COMMIT_MESSAGE_CHARS,
+  MAX_GIT_WRITE_PATHSPECS,
+  type GitWriteInput,
+  type GitWriteOperation,
+} from "./contracts.js";
+
+type GitWriteInputResult =
+  | { ok: true; value: GitWriteInput }
+  | { ok: false; message: string };
+
+type FieldResult<T> = { ok: true; value?: T } | { ok: false; message: string };
+
+const COMMON_FIELDS = ["repositoryPath", "operation"] as const;
+
+const OPERATION_FIELDS: Record<GitWriteOperation, readonly string[]> = {
+  stage: ["pathspecs"],
+  commit: ["message"],
+  branch_create: ["branch", "startRevision"],
+  switch: ["branch"],
+  stash: ["message", "includeUntracked"],
+  worktree_add: ["worktreePath", "branch", "createBranch", "startRevision"],
+  revert_commit: ["revision"],
+};
+
+const REQUIRED_FIELDS: Record<GitWriteOperation, readonly string[]> = {
+  stage: ["pathspecs"],
+  commit: ["message"],
+  branch_create: ["branch"],
+  switch: ["branch"],
+  stash: [],
+  worktree_add: ["worktreePath", "branch"],
+  revert_commit: ["revision"],
+};
+
+export function parseGitWriteInput(input: unknown): GitWriteInputResult {
+  if (!isRecord(input)) {
+    return invalid("git_write input must be an object.");
+  }
+  const repositoryPath = input["repositoryPath"];
+  if (typeof repositoryPath !== "string" || !repositoryPath.trim()) {
+    return invalid("repositoryPath is required and must be a non-empty string.");
+  }
+  const absolute = requireAbsoluteFilesystemPath(repositoryPath.trim(), "repositoryPath");
+  if (!absolute.ok) return invalid(absolute.message);
+
+  const operation = input["operation"];
+  if (typeof operation !== "string" || !isGitWriteOperation(operation)) {
+    return invalid(`operation must be one of: ${GIT_WRITE_OPERATIONS.join(", ")}.`);
+  }
+  const allowed = new Set<string>([...COMMON_FIELDS, ...OPERATION_FIELDS[operation]]);
+  const unknown = Object.keys(input).filter((key) => !allowed.has(key));
+  if (unknown.length > 0) {
+    return invalid(`${operation} does not accept: ${unknown.join(", ")}.`);
+  }
+  const missing = REQUIRED_FIELDS[operation].filter((key) => input[key] === undefined);
+  if (missing.length > 0) {
+    return invalid(`${operation} requires ${missing.join(" and ")}.`);
+  }
+
+  const pathspecs = readOptionalPathspecs(input);
+  if (!pathspecs.ok) return pathspecs;
+  const message = readOptionalText(input, "message", MAX_GIT_COMMIT_MESSAGE_CHARS);
+  if (!message.ok) return message;
+  const branch = readOptionalBranch(input);
+  if (!branch.ok) return branch;
+  const startRevision = readOptionalRevision(input, "startRevision");
+  if (!startRevision.ok) return startRevision;
+  const revision = readOptionalRevision(input, "revision");
+  if (!revision.ok) return revision;
+  const worktreePath = readOptionalWorktreePath(input);
+  if (!worktreePath.ok) return worktreePath;
+  const createBranch = readOptionalBoolean(input, "createBranch");
+  if (!createBranch.ok) return createBranch;
+  const includeUntracked = readOptionalBoolean(input, "includeUntracked");
+  if (!includeUntracked.ok) return includeUntracked;
+  if (operation === "worktree_add" && startRevision.value && !createBranch.value) {
+    return invalid("worktree_add accepts startRevision only with createBranch.");
+  }
+
+  return {
+    ok: true,
+    value: {
+      repositoryPath: absolute.absolutePath,
+      operation,
+      ...(pathspecs.value ? { pathspecs: pathspecs.value } : {}),
+      ...(message.value ? { message: message.value } : {}),
+      ...(branch.value ? { branch: branch.value } : {}),
+      ...(startRevision.value ? { startRevision: startRevision.value } : {}),
+      ...(revision.value ? { revision: revision.value } : {}),
+      ...(worktreePath.value ? { worktreePath: worktreePath.value } : {}),
+      ...(createBranch.value !== undefined ? { createBranch: createBranch.value } : {}),
+      ...(includeUntracked.value !== undefined ? { includeUntracked: includeUntracked.value } : {}),
+    },
+  };
+}
+
+function readOptionalPathspecs(input: Record<string, unknown>): FieldResult<string[]> {
+  const value = input["pathspecs"];
+  if (value === undefined) return { ok: true };
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_GIT_WRITE_PATHSPECS) {
+    return invalid(`pathspecs must list between 1 and ${MAX_GIT_WRITE_PATHSPECS} repository-relative paths.`);
+  }
+  const pathspecs: string[] = [];
+  for (const entry of value) {
+    if (typeof entry !== "string") return invalid("pathspecs entries must be strings.");
+    const relative = requireResourceRelativePath(entry, { field: "pathspecs", allowResourceRoot: true });
+    if (!relative.ok) return invalid(relative.message);
+    if (isGitDirectoryPath(relative.relativePath)) {
+      return invalid("pathspecs may not name the .git directory.");
+    }
+    pathspecs.push(relative.relativePath);
+  }
+  return { ok: true, value: [...new Set(pathspecs)] };
+}
+
+function readOptionalText(
+  input: Record<string, unknown>,
+  field: string,
+  maximumLength: number,
+): FieldResult<string> {
+  const value = input[field];
+  if (value === undefined) return { ok: true };
+  if (typeof value !== "string" || !value.trim() || value.length > maximumLength) {
+    return invalid(`${field} must be a non-empty string of at most ${maximumLength} characters.`);
+  }
+  if (/\0/.test(value)) return invalid(`${field} may not contain NUL characters.`);
+  return { ok: true, value: value.trim() };
+}
+
+function readOptionalBranch(input: Record<string, unknown>): FieldResult<string> {
+  const parsed = readOptionalText(input, "branch", 200);
+  if (!parsed.ok || !parsed.value) return parsed;
+  if (
+    parsed.value.startsWith("-")
+    || parsed.value.startsWith("refs/")
+    || /[\s\u0000-\u001f\u007f~^:?*[\\]/.test(parsed.value)
+  ) {
+    return invalid("branch must be a short local branch name without whitespace or revision syntax.");
+  }
+  return parsed;
+}
+
+function readOptionalRevision(input: Record<string, unknown>, field: string): FieldResult<string> {
+  const parsed = readOptionalText(input, field, 200);
+  if (!parsed.ok || !parsed.value) return parsed;
+  if (parsed.value.startsWith("-") || /[\u0000-\u001f\u007f]/.test(parsed.value)) {
+    return invalid(`${field} must be a safe Git revision and may not begin with '-'.`);
+  }
+  return parsed;
+}
+
+function readOptionalWorktreePath(input: Record<string, unknown>): FieldResult<string> {
+  const value = input["worktreePath"];
+  if (value === undefined) return { ok: true };
+  if (typeof value !== "string") return invalid("worktreePath must be a string.");
+  const relative = requireResourceRelativePath(value, { field: "worktreePath" });
+  if (!relative.ok) return invalid(relative.message);
+  if (isGitDirectoryPath(relative.relativePath)) {
+    return invalid("worktreePath may not be inside the .git directory.");
+  }
+  return { ok: true, value: relative.relativePath };
+}
+
+function readOptionalBoolean(input: Record<string, unknown>, field: string): FieldResult<boolean> {
+  const value = input[field];
+  if (value === undefined) return { ok: true };
+  return typeof value === "boolean"
+    ? { ok: true, value }
+    : invalid(`${field} must be a boolean.`);
+}
+
+function isGitDirectoryPath(path: string): boolean {
+  return path === ".git" || path.startsWith(".git/");
+}
+
+function isGitWriteOperation(value: string): value is GitWriteOperation {
+  return (GIT_WRITE_OPERATIONS as readonly string[]).includes(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function invalid(message: string): { ok: false; message: string } {
+  return { ok: false, message };
+}
@@ -0,0 +1,356 @@
+import { lstat, realpath } from "node:fs/promises";
+import { resolve } from "node:path";
+import type { GitRepositoryIdentity } from "../git-read/contracts.js";
+import { runReadOnlyGit } from "../git-read/git-process.js";
+import type {
+  GitWorktreeState,
+  GitWriteInput,
+  GitWriteOperationResult,
+} from "./contracts.js";
+import { runMutatingGit } from "./git-process.js";
+
+export class GitWritePreconditionError extends Error {
+  readonly code = "GIT_WRITE_PRECONDITION_FAILED";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "GitWritePreconditionError";
+  }
+}
+
+export class GitWriteVerificationError extends Error {
+  readonly code = "GIT_WRITE_VERIFICATION_FAILED";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "GitWriteVerificationError";
+  }
+}
+
+export async function readWorktreeState(repositoryPath: string): Promise<GitWorktreeState> {
+  const [head, branch, status] = await Promise.all([
+    optionalCommit(repositoryPath, "HEAD"),
+    runReadOnlyGit(repositoryPath, ["symbolic-ref", "--quiet", "--short", "HEAD"], { allowedExitCodes: [0, 1] }),
+    runReadOnlyGit(repositoryPath, ["status", "--porcelain", "--untracked-files=all"]),
+  ]);
+  return {
+    ...(head ? { head } : {}),
+    ...(branch.exitCode === 0 && branch.stdout.trim() ? { branch: branch.stdout.trim() } : {}),
+    dirty: status.stdout.trim().length > 0,
+  };
+}
+
+/**
+ * Each handler checks its own preconditions, runs exactly one mutating Git
+ * command, and then proves the expected postcondition from fresh Git state.
+ */
+export async function executeGitWriteOperation(
+  input: GitWriteInput,
+  repository: GitRepositoryIdentity,
+  before: GitWorktreeState,
+): Promise<GitWriteOperationResult> {
+  switch (input.operation) {
+    case "stage":
+      return await stage(input, repository);
+    case "commit":
+      return await commit(input, repository, before);
+    case "branch_create":
+      return await branchCreate(input, repository);
+    case "switch":
+      return await switchBranch(input, repository, before);
+    case "stash":
+      return await stash(input, repository, before);
+    case "worktree_add":
+      return await worktreeAdd(input, repository);
+    case "revert_commit":
+      return await revertCommit(input, repository, before);
+  }
+}
+
+async function stage(
+  input: GitWriteInput,
+  repository: GitRepositoryIdentity,
+): Promise<GitWriteOperationResult> {
+  const pathspecs = (input.pathspecs ?? []).map(literalPathspec);
+  await runMutatingGit(repository.path, ["add", "--all", "--", ...pathspecs]);
+  const [unstaged, untracked, staged] = await Promise.all([
+    runReadOnlyGit(repository.path, ["diff", "--name-only", "-z", "--", ...pathspecs]),
+    runReadOnlyGit(repository.path, ["ls-files", "--others", "--exclude-standard", "-z", "--", ...pathspecs]),
+    runReadOnlyGit(repository.path, ["diff", "--cached", "--name-status", "-z", "--", ...pathspecs]),
+  ]);
+  const remaining = [...splitNul(unstaged.stdout), ...splitNul(untracked.stdout)];
+  if (remaining.length > 0) {
+    throw new GitWriteVerificationError(
+      `Paths still have unstaged changes after staging: ${remaining.slice(0, 5).join(", ")}.`,
+    );
+  }
+  const stagedPaths = parseNameStatus(staged.stdout);
+  return {
+    result: { pathspecs: input.pathspecs ?? [], staged: stagedPaths.slice(0, 100), stagedCount: stagedPaths.length },
+    verifiedChange: `staged ${stagedPaths.length} path${stagedPaths.length === 1 ? "" : "s"} in ${repository.path}`,
+  };
+}
+
+async function commit(
+  input: GitWriteInput,
+  repository: GitRepositoryIdentity,
+  before: GitWorktreeState,
+): Promise<GitWriteOperationResult> {
+  const stagedCheck = await runReadOnlyGit(
+    repository.path,
+    ["diff", "--cached", "--quiet"],
+    { allowedExitCodes: [0, 1] },
+  );
+  if (stagedCheck.exitCode === 0) {
+    throw new GitWritePreconditionError("Nothing is staged; stage the intended paths before committing.");
+  }
+  await runMutatingGit(repository.path, ["commit", "--quiet", "--no-edit", "--cleanup=strip", "-m", input.message ?? ""]);
+  const head = await requireCommit(repository.path, "HEAD");
+  const parents = (await runReadOnlyGit(repository.path, ["rev-list", "--parents", "-n", "1", head]))
+    .stdout.trim().split(/\s+/).slice(1);
+  const expectedParents = before.head ? [before.head] : [];
+  if (head === before.head || parents.join(" ") !== expectedParents.join(" ")) {
+    throw new GitWriteVerificationError("The new commit does not sit directly on the previous HEAD.");
+  }
+  const branch = await currentBranch(repository.path);
+  if (branch !== before.branch) {
+    throw new GitWriteVerificationError("The checked-out branch changed while committing.");
+  }
+  return {
+    result: {
+      commit: head,
+      ...(before.head ? { parent: before.head } : {}),
+      ...(branch ? { branch } : {}),
+      subject: (input.message ?? "").split("\n")[0],
+    },
+    verifiedChange: `commit ${head} in ${repository.path}`,
+  };
+}
+
+async function branchCreate(
+  input: GitWriteInput,
+  repository: GitRepositoryIdentity,
+): Promise<GitWriteOperationResult> {
+  const branch = await requireBranchName(repository.path, input.branch ?? "");
+  if (await optionalCommit(repository.path, `refs/heads/${branch}`)) {
+    throw new GitWritePreconditionError(`Branch ${branch} already exists; choose a new name.`);
+  }
+  const start = await requireCommit(repository.path, input.startRevision ?? "HEAD");
+  await runMutatingGit(repository.path, ["branch", "--no-track", branch, start]);
+  const created = await optionalCommit(repository.path, `refs/heads/${branch}`);
+  if (created !== start) {
+    throw new GitWriteVerificationError(`Branch ${branch} does not point at ${start}.`);
+  }
+  return {
+    result: { branch, commit: start },
+    verifiedChange: `branch ${branch} at ${start} in ${repository.path}`,
+  };
+}
+
+async function switchBranch(
+  input: GitWriteInput,
+  repository: GitRepositoryIdentity,
+  before: GitWorktreeState,
+): Promise<GitWriteOperationResult> {
+  const branch = await requireBranchName(repository.path, input.branch ?? "");
+  const target = await optionalCommit(repository.path, `refs/heads/${branch}`);
+  if (!target) {
+    throw new GitWritePreconditionError(`Local branch ${branch} does not exist; create it with branch_create first.`);
+  }
+  if (before.branch === branch) {
+    throw new GitWritePreconditionError(`Branch ${branch} is already checked out.`);
+  }
+  // Without --force or --discard-changes Git refuses any switch that would overwrite local work.
+  await runMutatingGit(repository.path, ["switch", "--no-guess", "--quiet", branch]);
+  const [head, current] = await Promise.all([
+    requireCommit(repository.path, "HEAD"),
+    currentBranch(repository.path),
+  ]);
+  if (current !== branch || head !== target) {
+    throw new GitWriteVerificationError(`HEAD is not on branch ${branch} at ${target}.`);
+  }
+  return {
+    result: { branch, commit: head, ...(before.branch ? { previousBranch: before.branch } : {}) },
+    verifiedChange: `switched to ${branch} at ${head} in ${repository.path}`,
+  };
+}
+
+async function stash(
+  input: GitWriteInput,
+  repository: GitRepositoryIdentity,
+  before: GitWorktreeState,
+): Promise<GitWriteOperationResult> {
+  if (!before.dirty) {
+    throw new GitWritePreconditionError("The working tree has no local changes to stash.");
+  }
+  const previous = await optionalCommit(repository.path, "refs/stash");
+  await runMutatingGit(repository.path, [
+    "stash",
+    "push",
+    "--quiet",
+    ...(input.includeUntracked ? ["--include-untracked"] : []),
+    ...(input.message ? ["-m", input.message] : []),
+  ]);
+  const [created, head] = await Promise.all([
+    optionalCommit(repository.path, "refs/stash"),
+    optionalCommit(repository.path, "HEAD"),
+  ]);
+  if (!created || created === previous) {
+    throw new GitWriteVerificationError("Git did not record a new stash entry.");
+  }
+  if (head !== before.head) {
+    throw new GitWriteVerificationError("HEAD moved while stashing.");
+  }
+  return {
+    result: {
+      stash: "stash@{0}",
+      commit: created,
+      includeUntracked: input.includeUntracked ?? false,
+      ...(input.message ? { message: input.message } : {}),
+    },
+    verifiedChange: `stash ${created} in ${repository.path}`,
+  };
+}
+
+async function worktreeAdd(
+  input: GitWriteInput,
+  repository: GitRepositoryIdentity,
+): Promise<GitWriteOperationResult> {
+  const branch = await requireBranchName(repository.path, input.branch ?? "");
+  const worktreePath = resolve(repository.path, input.worktreePath ?? "");
+  if (await pathExists(worktreePath)) {
+    throw new GitWritePreconditionError(`worktreePath already exists: ${worktreePath}.`);
+  }
+  const existing = await optionalCommit(repository.path, `refs/heads/${branch}`);
+  let args: string[];
+  if (input.createBranch) {
+    if (existing) throw new GitWritePreconditionError(`Branch ${branch} already exists; omit createBranch to check it out.`);
+    const start = await requireCommit(repository.path, input.startRevision ?? "HEAD");
+    args = ["worktree", "add", "--quiet", "-b", branch, worktreePath, start];
+  } else {
+    if (!existing) throw new GitWritePreconditionError(`Local branch ${branch} does not exist; set createBranch to create it.`);
+    args = ["worktree", "add", "--quiet", worktreePath, branch];
+  }
+  await runMutatingGit(repository.path, args);
+
+  const top = await realpath(
+    (await runReadOnlyGit(worktreePath, ["rev-parse", "--show-toplevel"])).stdout.trim(),
+  );
+  const [head, current] = await Promise.all([
+    requireCommit(worktreePath, "HEAD"),
+    currentBranch(worktreePath),
+  ]);
+  if (top !== await realpath(worktreePath) || current !== branch) {
+    throw new GitWriteVerificationError(`The worktree at ${worktreePath} is not checked out on ${branch}.`);
+  }
+  return {
+    result: { worktreePath, branch, commit: head, createdBranch: input.createBranch ?? false },
+    verifiedChange: `worktree ${worktreePath} on ${branch} in ${repository.path}`,
+  };
+}
+
+async function revertCommit(
+  input: GitWriteInput,
+  repository: GitRepositoryIdentity,
+  before: GitWorktreeState,
+): Promise<GitWriteOperationResult> {
+  if (before.dirty) {
+    throw new GitWritePreconditionError("Reverting requires a clean working tree; commit or stash local changes first.");
+  }
+  if (!before.head) {
+    throw new GitWritePreconditionError("The repository has no commits to revert.");
+  }
+  const reverted = await requireCommit(repository.path, input.revision ?? "");
+  try {
+    await runMutatingGit(repository.path, ["revert", "--no-edit", reverted]);
+  } catch (error) {
+    // A conflicted revert leaves a half-applied state; abort it so the failure changes nothing.
+    await runMutatingGit(repository.path, ["revert", "--abort"]).catch(() => undefined);
+    throw error;
+  }
+  const head = await requireCommit(repository.path, "HEAD");
+  const parent = await optionalCommit(repository.path, `${head}^`);
+  if (head === before.head || parent !== before.head) {
+    throw new GitWriteVerificationError("The revert commit does not sit directly on the previous HEAD.");
+  }
+  return {
+    result: { commit: head, reverted, parent: before.head },
+    verifiedChange: `revert of ${reverted} as ${head} in ${repository.path}`,
+  };
+}
+
+async function requireBranchName(repositoryPath: string, branch: string): Promise<string> {
+  const checked = await runReadOnlyGit(
+    repositoryPath,
+    ["check-ref-format", "--branch", branch],
+    { allowedExitCodes: [0, 1, 128] },
+  );
+  const normalized = checked.stdout.trim();
+  if (checked.exitCode !== 0 || normalized !== branch) {
+    throw new GitWritePreconditionError(`${branch} is not a valid local branch name.`);
+  }
+  return normalized;
+}
+
+async function requireCommit(repositoryPath: string, revision: string): Promise<string> {
+  const commit = await optionalCommit(repositoryPath, revision);
+  if (!commit) {
+    throw new GitWritePreconditionError(`Git did not resolve ${revision} to one commit.`);
+  }
+  return commit;
+}
+
+async function optionalCommit(repositoryPath: string, revision: string): Promise<string | undefined> {
+  const result = await runReadOnlyGit(
+    repositoryPath,
+    ["rev-parse", "--verify", "--quiet", "--end-of-options", `${revision}^{commit}`],
+    { allowedExitCodes: [0, 1, 128] },
+  );
+  const commit = result.stdout.trim().toLowerCase();
+  return result.exitCode === 0 && /^[a-f0-9]{40,64}$/.test(commit) ? commit : undefined;
+}
+
+async function currentBranch(repositoryPath: string): Promise<string | undefined> {
+  const result = await runReadOnlyGit(
+    repositoryPath,
+    ["symbolic-ref", "--quiet", "--short", "HEAD"],
+    { allowedExitCodes: [0, 1] },
+  );
+  return result.exitCode === 0 ? result.stdout.trim() || undefined : undefined;
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await lstat(path);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+    throw error;
+  }
+}
+
+function parseNameStatus(output: string): Array<{ status: string; path: string }> {
+  const tokens = splitNul(output);
+  const entries: Array<{ status: string; path: string }> = [];
+  for (let index = 0; index < tokens.length; index++) {
+    const status = tokens[index] ?? "";
+    const path = tokens[++index];
+    if (!path) break;
+    // Renames and copies carry a source and a destination path.
+    if (/^[RC]/.test(status)) {
+      const destination = tokens[++index];
+      entries.push({ status: status.slice(0, 1), path: destination ?? path });
+      continue;
+    }
+    entries.push({ status, path });
+  }
+  return entries;
+}
+
+function splitNul(output: string): string[] {
+  return output.split("\0").filter(Boolean);
+}
+
+function literalPathspec(path: string): string {
+  return path === "." ? "." : `:(literal)${path}`;
+}
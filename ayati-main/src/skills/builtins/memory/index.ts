@@ -35,7 +35,7 @@ function createSearchTool(deps: MemorySkillDeps): ToolDefinition {
     inputSchema: {
       type: "object",
       properties: {
-        query: { type: "string", description: "Keyword query for fact text, kind, slot, or value." },
+        query: { type: "string", description: "Keyword or phrase query for fact text, kind, slot, or value." },
         sectionId: { type: "string", description: "Optional section: user_facts, time_based, or evolving_memory." },
         type: { type: "string", description: "Optional memory type, such as identity, preference, or goal." },
         kind: { type: "string", description: "Alias for type." },
@@ -59,7 +59,7 @@ function createSearchTool(deps: MemorySkillDeps): ToolDefinition {
     async execute(input, context): Promise<ToolResult> {
       const value = validateObject(input) ?? {};
       const userId = userIdFromContext(context?.clientId, deps.defaultUserId);
-      const matches = deps.store.searchMemories(userId, {
+      const matches = (await deps.store.searchMemoriesHybrid(userId, {
         query: typeof value["query"] === "string" ? value["query"] : undefined,
         sectionId: normalizeSectionInput(value["sectionId"] ?? value["section_id"]),
         kind: typeof value["kind"] === "string"
@@ -67,7 +67,7 @@ function createSearchTool(deps: MemorySkillDeps): ToolDefinition {
           : (typeof value["type"] === "string" ? value["type"] : undefined),
         slot: typeof value["slot"] === "string" ? value["slot"] : undefined,
         limit: typeof value["limit"] === "number" ? value["limit"] : undefined,
-      }).map((memory) => ({
+      })).map((memory) => ({
         ...serializeMemory(memory),
         score: scoreMemory(memory),
       }));
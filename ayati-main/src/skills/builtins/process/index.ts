@@ -1,6 +1,6 @@
 import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
 import { basename } from "node:path";
-import type { SkillDefinition, ToolDefinition, ToolResult } from "../../types.js";
+import type { SkillDefinition, ToolDefinition, ToolResourceScope, ToolResult } from "../../types.js";
 import {
   headTailBlocks,
   importantLineBlocks,
@@ -11,8 +11,21 @@ import {
   type ToolContextBlock,
   type ToolContextObservation,
 } from "../../observations/context-observation.js";
+import {
+  describeSandboxReport,
+  prepareSandboxedProcess,
+  ProcessSandboxError,
+  type PreparedSandboxProcess,
+  type ProcessSandboxReport,
+} from "../../process-sandbox.js";
 import { requireAbsolutePath, resolveWorkspaceCwd } from "../../workspace-paths.js";
 import { commonAnnotations, errorResult, failureV2, genericObjectOutputSchema, okResult, succeededContract, successV2 } from "../contract-helpers.js";
+import {
+  parseTestBuildOutput,
+  summarizeTestBuildReport,
+  testBuildFailureLocations,
+  type TestBuildReport,
+} from "./test-results.js";
 
 const DEFAULT_TIMEOUT_MS = 15_000;
 const DEFAULT_MAX_OUTPUT_CHARS = 100_000;
@@ -86,6 +99,9 @@ interface ProcessCommandResultInput {
   exitCode: number | null;
   signal: string | null;
   timedOut: boolean;
+  cancelled?: boolean;
+  sandbox?: ProcessSandboxReport;
+  testReport?: TestBuildReport;
 }
 
 type ProcessRiskLevel = "safe" | "workspace_mutation" | "destructive" | "external_system";
@@ -133,7 +149,9 @@ function processCommandResult(input: ProcessCommandResultInput): ToolResult {
     timedOut: input.timedOut,
     truncated: input.truncated,
     rawOutputChars: rawOutput.length,
+    ...(input.sandbox ? { isolation: input.sandbox.isolation } : {}),
   };
+  const failureLocations = input.testReport ? testBuildFailureLocations(input.testReport) : [];
   const structuredContent = {
     command: input.command,
     ...(input.cwd ? { cwd: input.cwd } : {}),
@@ -147,6 +165,11 @@ function processCommandResult(input: ProcessCommandResultInput): ToolResult {
     durationMs: input.durationMs,
     truncated: input.truncated,
     rawOutputChars: rawOutput.length,
+    ...(input.sandbox ? { sandbox: input.sandbox } : {}),
+    ...(input.testReport ? { testReport: input.testReport } : {}),
+    // Present only when parsed results prove every test passed; feeds the tests_passed fact.
+    ...(input.testReport?.kind === "test" && input.testReport.verdict === "passed" ? { testsPassed: input.command } : {}),
+    ...(failureLocations.length > 0 ? { failureLocations } : {}),
   };
 
   if (input.ok) {
@@ -177,9 +200,13 @@ function processCommandResult(input: ProcessCommandResultInput): ToolResult {
       category: input.timedOut ? "timeout" : "semantic",
       retryable: input.timedOut,
       recoverable: true,
-      suggestedNextActions: input.timedOut
-        ? ["Retry with a longer timeout or a narrower command."]
-        : ["Inspect stdout/stderr and rerun with corrected command or environment."],
+      suggestedNextActions: input.cancelled
+        ? ["Do not rerun the command unless the user asks to continue."]
+        : input.timedOut
+          ? ["Retry with a longer timeout or a narrower command."]
+          : failureLocations.length > 0
+            ? [`Fix the reported failures first: ${failureLocations.join("; ")}.`, "Rerun the same command to confirm."]
+            : ["Inspect stdout/stderr and rerun with corrected command or environment."],
       structuredContent,
       diagnostics: meta,
     }),
@@ -225,6 +252,7 @@ function buildProcessObservation(input: ProcessCommandResultInput): ToolContextO
       lineCount: lines.length,
       stdoutChars: input.stdout.length,
       stderrChars: input.stderr.length,
+      ...(input.sandbox ? { sandbox: describeSandboxReport(input.sandbox) } : {}),
     },
     highlights: buildProcessHighlights(input, commandKind, lines),
     blocks,
@@ -603,11 +631,14 @@ async function runProcessCommand(
   cwd: string | undefined,
   timeoutMs: number,
   maxOutputChars: number,
+  sandbox: PreparedSandboxProcess,
+  abortSignal?: AbortSignal,
 ): Promise<ToolResult> {
   const start = Date.now();
   return await new Promise<ToolResult>((resolveResult) => {
-    const child = spawn(command, args, {
+    const child = spawn(sandbox.command, sandbox.args, {
       cwd,
+      env: sandbox.env,
       stdio: ["ignore", "pipe", "pipe"],
       shell: false,
     });
@@ -615,17 +646,28 @@ async function runProcessCommand(
     let stderr = "";
     let finished = false;
     let timedOut = false;
+    let cancelled = false;
 
+    const cancel = (): void => {
+      cancelled = true;
+      child.kill("SIGTERM");
+    };
     const finish = (result: ToolResult): void => {
       if (finished) return;
       finished = true;
-      resolveResult(result);
+      abortSignal?.removeEventListener("abort", cancel);
+      void sandbox.dispose().finally(() => resolveResult(result));
     };
 
     const timeout = setTimeout(() => {
       timedOut = true;
       child.kill("SIGTERM");
     }, timeoutMs);
+    if (abortSignal?.aborted) {
+      cancel();
+    } else {
+      abortSignal?.addEventListener("abort", cancel, { once: true });
+    }
 
     child.stdout.on("data", (chunk: Buffer | string) => {
       stdout = appendCapped(stdout, chunk.toString(), maxOutputChars);
@@ -637,6 +679,7 @@ async function runProcessCommand(
     child.on("error", (err: Error) => {
       clearTimeout(timeout);
       finish(processCommandResult({
+        sandbox: sandbox.report,
         ok: false,
         code: "PROCESS_START_FAILED",
         message: err.message,
@@ -653,13 +696,34 @@ async function runProcessCommand(
       }));
     });
 
-    child.on("close", (code, signal) => {
+    child.on("close", async (code, signal) => {
       clearTimeout(timeout);
       const output = toOutput(stdout, stderr);
       const durationMs = Date.now() - start;
       const commandLine = [command, ...args].join(" ");
+      if (cancelled) {
+        finish(processCommandResult({
+          sandbox: sandbox.report,
+          ok: false,
+          code: "COMMAND_CANCELLED",
+          message: "Command was terminated because the run was cancelled.",
+          command: commandLine,
+          cwd,
+          stdout,
+          stderr,
+          output,
+          truncated: false,
+          durationMs,
+          exitCode: code,
+          signal,
+          timedOut: false,
+          cancelled: true,
+        }));
+        return;
+      }
       if (timedOut) {
         finish(processCommandResult({
+          sandbox: sandbox.report,
           ok: false,
           code: "COMMAND_TIMED_OUT",
           message: "Command timed out and was terminated.",
@@ -676,11 +740,22 @@ async function runProcessCommand(
         }));
         return;
       }
+      const testReport = await parseTestBuildOutput({
+        executable: command,
+        args,
+        cwd,
+        stdout,
+        stderr,
+        exitCode: code,
+        startedAt: start,
+      }).catch(() => undefined);
+      const reportSummary = testReport ? ` ${summarizeTestBuildReport(testReport)}` : "";
       if (code === 0) {
         finish(processCommandResult({
+          sandbox: sandbox.report,
           ok: true,
           code: "COMMAND_SUCCEEDED",
-          message: "Command exited with code 0.",
+          message: `Command exited with code 0.${reportSummary}`,
           command: commandLine,
           cwd,
           stdout,
@@ -691,13 +766,15 @@ async function runProcessCommand(
           exitCode: code,
           signal,
           timedOut: false,
+          ...(testReport ? { testReport } : {}),
         }));
         return;
       }
       finish(processCommandResult({
+        sandbox: sandbox.report,
         ok: false,
         code: "COMMAND_FAILED",
-        message: `Process exited with code ${code ?? "unknown"}.`,
+        message: `Process exited with code ${code ?? "unknown"}.${reportSummary}`,
         command: commandLine,
         cwd,
         stdout,
@@ -708,11 +785,34 @@ async function runProcessCommand(
         exitCode: code,
         signal,
         timedOut: false,
+        ...(testReport ? { testReport } : {}),
       }));
     });
   });
 }
 
+async function prepareProcessSandbox(
+  executable: string,
+  args: string[],
+  cwd: string | undefined,
+  scope: ToolResourceScope | undefined,
+): Promise<PreparedSandboxProcess | ToolResult> {
+  try {
+    return await prepareSandboxedProcess({ executable, args, cwd: cwd ?? resolveWorkspaceCwd(), scope });
+  } catch (err) {
+    if (!(err instanceof ProcessSandboxError)) throw err;
+    return errorResult({
+      code: err.code,
+      message: err.message,
+      category: "permission",
+      target: executable,
+      retryable: false,
+      recoverable: false,
+      suggestedNextActions: ["Ask the user to install the configured sandbox tool or change AYATI_SANDBOX."],
+    });
+  }
+}
+
 function preflightShellCommand(
   command: string,
   cwd: string | undefined,
@@ -746,7 +846,7 @@ const DOMAIN_OWNED_EXECUTABLES = new Map<string, string>([
   ["sqlite3", "database tools"],
   ["curl", "an explicitly policy-controlled external-action tool"],
   ["wget", "an explicitly policy-controlled external-action tool"],
-  ["git", "Context Engine runtime"],
+  ["git", "git_read, git_write, or the Context Engine runtime"],
   ["python", "python_execute"],
   ["python3", "python_execute"],
 ]);
@@ -997,6 +1097,10 @@ const processCommandContract = succeededContract({
     kind: "process_exit_success",
     path: "$.result.structuredContent.command",
     message: "Foreground process completed successfully.",
+  }, {
+    kind: "tests_passed",
+    path: "$.result.structuredContent.testsPassed",
+    message: "Parsed test results show every test passed.",
   }],
 });
 
@@ -1057,9 +1161,19 @@ export const processRunTool: ToolDefinition = {
       context?.resourceScope?.rootPath,
     );
     if (!preflight.ok) return preflight.result;
+    const sandbox = await prepareProcessSandbox(parsed.executable, parsed.args ?? [], preflight.resolvedCwd, context?.resourceScope);
+    if ("ok" in sandbox) return sandbox;
     const timeoutMs = capWithDefault(parsed.timeoutMs, DEFAULT_TIMEOUT_MS);
     const maxOutputChars = capWithDefault(parsed.maxOutputChars, DEFAULT_MAX_OUTPUT_CHARS);
-    return await runProcessCommand(parsed.executable, parsed.args ?? [], preflight.resolvedCwd, timeoutMs, maxOutputChars);
+    return await runProcessCommand(
+      parsed.executable,
+      parsed.args ?? [],
+      preflight.resolvedCwd,
+      timeoutMs,
+      maxOutputChars,
+      sandbox,
+      context?.signal,
+    );
   },
 };
 
@@ -1106,9 +1220,12 @@ export const processStartTool: ToolDefinition = {
       context?.resourceScope?.rootPath,
     );
     if (!preflight.ok) return preflight.result;
+    const sandbox = await prepareProcessSandbox(parsed.executable, parsed.args ?? [], preflight.resolvedCwd, context?.resourceScope);
+    if ("ok" in sandbox) return sandbox;
     const outputCap = capWithDefault(parsed.maxOutputChars, DEFAULT_MAX_SESSION_OUTPUT_CHARS);
-    const process = spawn(parsed.executable, parsed.args ?? [], {
+    const process = spawn(sandbox.command, sandbox.args, {
       cwd: preflight.resolvedCwd,
+      env: sandbox.env,
       stdio: ["pipe", "pipe", "pipe"],
       shell: false,
     });
@@ -1152,6 +1269,7 @@ export const processStartTool: ToolDefinition = {
       session.fullOutput = appendCapped(session.fullOutput, err.message, session.maxOutputChars);
       resolveClose?.();
     });
+    void closePromise.then(async () => await sandbox.dispose());
 
     processSessions.set(sessionId, session);
     await sleep(waitToPolicy(parsed.waitMs, 150));
@@ -1176,11 +1294,13 @@ export const processStartTool: ToolDefinition = {
       exitCode: session.exitCode,
       signal: session.signal,
       rawOutputChars: output.length,
+      sandbox: sandbox.report,
     };
     const meta = {
       sessionId,
       running: !session.exited,
       createdAt: session.createdAt,
+      isolation: sandbox.report.isolation,
     };
     return {
       ...okResult({
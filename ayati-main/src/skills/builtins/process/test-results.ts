@@ -0,0 +1,563 @@
+import { readFile, stat } from "node:fs/promises";
+import { basename, isAbsolute, resolve } from "node:path";
+
+export type TestBuildTool = "tsc" | "vitest" | "jest" | "pytest" | "eslint" | "cargo" | "go";
+export type TestBuildKind = "test" | "typecheck" | "lint" | "build";
+export type TestBuildVerdict = "passed" | "failed" | "inconclusive";
+
+export interface TestBuildCounts {
+  passed: number;
+  failed: number;
+  skipped: number;
+  total: number;
+}
+
+export interface TestBuildFailure {
+  name: string;
+  file?: string;
+  line?: number;
+  message?: string;
+}
+
+export interface TestBuildDiagnostic {
+  file: string;
+  line: number;
+  column?: number;
+  severity: "error" | "warning";
+  code?: string;
+  message: string;
+}
+
+/**
+ * Structured facts parsed from a foreground test, typecheck, lint, or build
+ * command. A "passed" verdict is only produced when the exit code, the parsed
+ * counts, and the diagnostics all agree; anything unparsed stays inconclusive.
+ */
+export interface TestBuildReport {
+  tool: TestBuildTool;
+  kind: TestBuildKind;
+  source: "json" | "junit_xml" | "text";
+  verdict: TestBuildVerdict;
+  counts?: TestBuildCounts;
+  failures: TestBuildFailure[];
+  diagnostics: TestBuildDiagnostic[];
+  omittedFailures?: number;
+  omittedDiagnostics?: number;
+}
+
+export interface TestBuildOutputInput {
+  executable: string;
+  args: string[];
+  cwd?: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  startedAt: number;
+}
+
+const MAX_FAILURES = 20;
+const MAX_DIAGNOSTICS = 30;
+const MAX_MESSAGE_CHARS = 300;
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+interface ParsedReport {
+  tool: TestBuildTool;
+  kind: TestBuildKind;
+  source: TestBuildReport["source"];
+  counts?: TestBuildCounts;
+  failures: TestBuildFailure[];
+  diagnostics: TestBuildDiagnostic[];
+  ranTests?: boolean;
+}
+
+export async function parseTestBuildOutput(input: TestBuildOutputInput): Promise<TestBuildReport | undefined> {
+  const tokens = commandTokens(input.executable, input.args);
+  const stdout = stripAnsi(input.stdout);
+  const output = [stdout, stripAnsi(input.stderr)].filter((value) => value.length > 0).join("\n");
+  const parsed = parseJsonReport(stdout, tokens)
+    ?? await parseJunitReport(input, tokens)
+    ?? parseTextReport(output, tokens);
+  return parsed ? finalizeReport(parsed, input.exitCode) : undefined;
+}
+
+/** One-line summary used in tool messages and repair feedback. */
+export function summarizeTestBuildReport(report: TestBuildReport): string {
+  const counts = report.counts
+    ? `${report.counts.failed} failed, ${report.counts.passed} passed${report.counts.skipped > 0 ? `, ${report.counts.skipped} skipped` : ""}`
+    : undefined;
+  const errors = report.diagnostics.filter((diagnostic) => diagnostic.severity === "error").length
+    + (report.omittedDiagnostics ?? 0);
+  const detail = [
+    counts,
+    errors > 0 || report.kind !== "test" ? `${errors} error diagnostic${errors === 1 ? "" : "s"}` : undefined,
+  ].filter((item): item is string => Boolean(item)).join("; ");
+  return `${report.tool} ${report.kind} ${report.verdict}${detail ? ` (${detail})` : ""}.`;
+}
+
+/** Bounded `file:line name: message` strings for the most actionable failures first. */
+export function testBuildFailureLocations(report: TestBuildReport, limit = 5): string[] {
+  const failures = report.failures.map((failure) => [
+    failure.file ? `${failure.file}${failure.line ? `:${failure.line}` : ""}` : undefined,
+    failure.name,
+  ].filter(Boolean).join(" ") + (failure.message ? `: ${failure.message}` : ""));
+  const diagnostics = report.diagnostics
+    .filter((diagnostic) => diagnostic.severity === "error")
+    .map((diagnostic) => `${diagnostic.file}:${diagnostic.line}${diagnostic.column ? `:${diagnostic.column}` : ""}${diagnostic.code ? ` ${diagnostic.code}` : ""}: ${diagnostic.message}`);
+  return [...failures, ...diagnostics].slice(0, limit).map((location) => truncate(location, MAX_MESSAGE_CHARS));
+}
+
+function finalizeReport(parsed: ParsedReport, exitCode: number | null): TestBuildReport {
+  const hasErrors = parsed.diagnostics.some((diagnostic) => diagnostic.severity === "error");
+  const failedCount = Math.max(parsed.counts?.failed ?? 0, parsed.failures.length);
+  let verdict: TestBuildVerdict;
+  if (exitCode !== 0 || failedCount > 0 || hasErrors) {
+    verdict = "failed";
+  } else if (parsed.kind === "test") {
+    verdict = (parsed.ranTests ?? (parsed.counts?.passed ?? 0) > 0) ? "passed" : "inconclusive";
+  } else {
+    verdict = "passed";
+  }
+  return {
+    tool: parsed.tool,
+    kind: parsed.kind,
+    source: parsed.source,
+    verdict,
+    ...(parsed.counts ? { counts: parsed.counts } : {}),
+    failures: parsed.failures.slice(0, MAX_FAILURES),
+    diagnostics: parsed.diagnostics.slice(0, MAX_DIAGNOSTICS),
+    ...(parsed.failures.length > MAX_FAILURES ? { omittedFailures: parsed.failures.length - MAX_FAILURES } : {}),
+    ...(parsed.diagnostics.length > MAX_DIAGNOSTICS ? { omittedDiagnostics: parsed.diagnostics.length - MAX_DIAGNOSTICS } : {}),
+  };
+}
+
+// --- JSON reporters (vitest/jest --json, eslint --format json) ---
+
+function parseJsonReport(stdout: string, tokens: string[]): ParsedReport | undefined {
+  const value = extractJson(stdout);
+  if (isRecord(value) && typeof value["numTotalTests"] === "number") {
+    return parseJestLikeJson(value, mentions(tokens, "vitest") ? "vitest" : "jest");
+  }
+  if (Array.isArray(value) && value.length > 0 && value.every((item) => isRecord(item) && typeof item["filePath"] === "string" && Array.isArray(item["messages"]))) {
+    return parseEslintJson(value as Record<string, unknown>[]);
+  }
+  return undefined;
+}
+
+function parseJestLikeJson(report: Record<string, unknown>, tool: "vitest" | "jest"): ParsedReport {
+  const failures: TestBuildFailure[] = [];
+  for (const suite of records(report["testResults"])) {
+    const file = readString(suite["name"]);
+    const assertions = records(suite["assertionResults"]);
+    const failed = assertions.filter((assertion) => assertion["status"] === "failed");
+    for (const assertion of failed) {
+      const messages: unknown[] = Array.isArray(assertion["failureMessages"]) ? assertion["failureMessages"] : [];
+      const message = readString(messages[0]) ?? "";
+      const location = isRecord(assertion["location"]) ? assertion["location"] : undefined;
+      const line = readNumber(location?.["line"]) ?? (file ? lineInStack(message, file) : undefined);
+      failures.push(failure(
+        readString(assertion["fullName"]) ?? readString(assertion["title"]) ?? "unnamed test",
+        file,
+        line,
+        message,
+      ));
+    }
+    if (failed.length === 0 && suite["status"] === "failed") {
+      failures.push(failure(file ?? "test suite", file, undefined, readString(suite["message"])));
+    }
+  }
+  const passed = readNumber(report["numPassedTests"]) ?? 0;
+  const failedCount = readNumber(report["numFailedTests"]) ?? 0;
+  const skipped = (readNumber(report["numPendingTests"]) ?? 0) + (readNumber(report["numTodoTests"]) ?? 0);
+  return {
+    tool,
+    kind: "test",
+    source: "json",
+    counts: { passed, failed: failedCount, skipped, total: readNumber(report["numTotalTests"]) ?? passed + failedCount + skipped },
+    failures,
+    diagnostics: [],
+  };
+}
+
+function parseEslintJson(results: Record<string, unknown>[]): ParsedReport {
+  const diagnostics: TestBuildDiagnostic[] = [];
+  for (const result of results) {
+    const file = readString(result["filePath"]) ?? "";
+    for (const message of records(result["messages"])) {
+      const ruleId = readString(message["ruleId"]);
+      diagnostics.push({
+        file,
+        line: readNumber(message["line"]) ?? 0,
+        ...(readNumber(message["column"]) !== undefined ? { column: readNumber(message["column"]) } : {}),
+        severity: message["severity"] === 2 || message["fatal"] === true ? "error" : "warning",
+        ...(ruleId ? { code: ruleId } : {}),
+        message: truncate(readString(message["message"]) ?? "", MAX_MESSAGE_CHARS),
+      });
+    }
+  }
+  return { tool: "eslint", kind: "lint", source: "json", failures: [], diagnostics };
+}
+
+// --- pytest junit XML (--junitxml=PATH) ---
+
+async function parseJunitReport(input: TestBuildOutputInput, tokens: string[]): Promise<ParsedReport | undefined> {
+  if (!mentions(tokens, "pytest")) return undefined;
+  const target = junitXmlPath(input.args);
+  if (!target) return undefined;
+  const path = isAbsolute(target) ? target : resolve(input.cwd ?? process.cwd(), target);
+  try {
+    // A report left over from an earlier run must not stand in for this one.
+    if ((await stat(path)).mtimeMs < input.startedAt - 1_000) return undefined;
+    return parseJunitXml(await readFile(path, "utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+function parseJunitXml(xml: string): ParsedReport | undefined {
+  const suites = [...xml.matchAll(/<testsuite\b([^>]*)>/g)].map((match) => xmlAttributes(match[1] ?? ""));
+  if (suites.length === 0) return undefined;
+  let total = 0;
+  let failed = 0;
+  let skipped = 0;
+  for (const suite of suites) {
+    total += Number(suite["tests"] ?? 0);
+    failed += Number(suite["failures"] ?? 0) + Number(suite["errors"] ?? 0);
+    skipped += Number(suite["skipped"] ?? 0);
+  }
+  const failures: TestBuildFailure[] = [];
+  for (const match of xml.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g)) {
+    const body = match[2] ?? "";
+    const problem = /<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/.exec(body);
+    if (!problem) continue;
+    const testcase = xmlAttributes(match[1] ?? "");
+    const details = xmlAttributes(problem[2] ?? "");
+    const text = unescapeXml(problem[3] ?? "");
+    const location = /^([^\s:]+\.py):(\d+):/m.exec(text);
+    const name = [testcase["classname"], testcase["name"]].filter(Boolean).join("::") || "unnamed test";
+    failures.push(failure(
+      name,
+      testcase["file"] ?? location?.[1],
+      testcase["line"] !== undefined && testcase["file"] ? Number(testcase["line"]) + 1 : location ? Number(location[2]) : undefined,
+      details["message"] ?? firstLine(text),
+    ));
+  }
+  return {
+    tool: "pytest",
+    kind: "test",
+    source: "junit_xml",
+    counts: { passed: Math.max(0, total - failed - skipped), failed, skipped, total },
+    failures,
+    diagnostics: [],
+  };
+}
+
+function junitXmlPath(args: string[]): string | undefined {
+  for (const [index, arg] of args.entries()) {
+    const inline = /^--junit-?xml=(.+)$/.exec(arg);
+    if (inline) return inline[1];
+    if (arg === "--junitxml" || arg === "--junit-xml") return args[index + 1];
+  }
+  return undefined;
+}
+
+// --- Text output ---
+
+function parseTextReport(output: string, tokens: string[]): ParsedReport | undefined {
+  if (mentions(tokens, "cargo") || /^test result: /m.test(output)) return parseCargoText(output, tokens);
+  if (tokens[0] === "go" || /^--- FAIL: /m.test(output)) return parseGoText(output, tokens);
+  if (mentions(tokens, "pytest") || PYTEST_SUMMARY.test(output)) return parsePytestText(output);
+  if (/^\s*Tests\s+.*\(\d+\)\s*$/m.test(output) && /^\s*Test Files\s/m.test(output)) return parseVitestText(output);
+  if (/^Tests:\s+/m.test(output)) return parseJestText(output);
+  if (mentions(tokens, "eslint")) return parseEslintStylish(output);
+  const diagnostics = parseTscDiagnostics(output);
+  if (mentions(tokens, "tsc") || mentions(tokens, "vue-tsc") || diagnostics.length > 0) {
+    return { tool: "tsc", kind: "typecheck", source: "text", failures: [], diagnostics };
+  }
+  return undefined;
+}
+
+const PYTEST_SUMMARY = /^=+ (.*?\b(?:passed|failed|errors?|skipped|no tests ran)\b.*?) in [\d.]+m?s(?: \([^)]*\))? =+$/m;
+
+function parsePytestText(output: string): ParsedReport | undefined {
+  const summary = PYTEST_SUMMARY.exec(output);
+  if (!summary) return undefined;
+  const count = (label: RegExp): number => Number(label.exec(summary[1] ?? "")?.[1] ?? 0);
+  const passed = count(/(\d+) passed/) + count(/(\d+) xpassed/);
+  const failed = count(/(\d+) failed/) + count(/(\d+) errors?/);
+  const skipped = count(/(\d+) skipped/) + count(/(\d+) xfailed/) + count(/(\d+) deselected/);
+  const failures = [...output.matchAll(/^(?:FAILED|ERROR) (\S+?)(?: - (.*))?$/gm)].map((match) => {
+    const nodeId = match[1] ?? "";
+    const file = nodeId.split("::")[0];
+    const line = file ? new RegExp(`^${escapeRegExp(file)}:(\\d+):`, "m").exec(output)?.[1] : undefined;
+    return failure(nodeId, file, line ? Number(line) : undefined, match[2]);
+  });
+  return {
+    tool: "pytest",
+    kind: "test",
+    source: "text",
+    counts: { passed, failed, skipped, total: passed + failed + skipped },
+    failures,
+    diagnostics: [],
+  };
+}
+
+function parseVitestText(output: string): ParsedReport {
+  const summary = /^\s*Tests\s+(.*?)\s*\((\d+)\)\s*$/m.exec(output);
+  const count = (label: string): number => Number(new RegExp(`(\\d+) ${label}`).exec(summary?.[1] ?? "")?.[1] ?? 0);
+  const failed = count("failed");
+  const passed = count("passed");
+  const skipped = count("skipped") + count("todo");
+  const failures = new Map<string, TestBuildFailure>();
+  for (const match of output.matchAll(/^\s*FAIL\s+(\S+)\s+>\s+(.+?)\s*$/gm)) {
+    const file = match[1] ?? "";
+    const name = `${file} > ${match[2]}`;
+    if (failures.has(name)) continue;
+    const line = new RegExp(`(?:❯|at)\\s+\\S*${escapeRegExp(file)}:(\\d+):\\d+`).exec(output.slice(match.index ?? 0))?.[1];
+    failures.set(name, failure(match[2] ?? name, file, line ? Number(line) : undefined, undefined));
+  }
+  return {
+    tool: "vitest",
+    kind: "test",
+    source: "text",
+    counts: { passed, failed, skipped, total: Number(summary?.[2] ?? passed + failed + skipped) },
+    failures: [...failures.values()],
+    diagnostics: parseTscDiagnostics(output),
+  };
+}
+
+function parseJestText(output: string): ParsedReport {
+  const summary = /^Tests:\s+(.*)$/m.exec(output)?.[1] ?? "";
+  const count = (label: string): number => Number(new RegExp(`(\\d+) ${label}`).exec(summary)?.[1] ?? 0);
+  const lines = output.split("\n");
+  const failures: TestBuildFailure[] = [];
+  let file: string | undefined;
+  for (const [index, line] of lines.entries()) {
+    const suite = /^FAIL\s+(\S+)/.exec(line);
+    if (suite) file = suite[1];
+    const test = /^\s+●\s+(.+?)\s*$/.exec(line);
+    if (!test || test[1]?.startsWith("Console")) continue;
+    const block = lines.slice(index + 1, index + 40).join("\n");
+    const location = file ? new RegExp(`${escapeRegExp(file)}:(\\d+):\\d+`).exec(block)?.[1] : undefined;
+    const message = lines.slice(index + 1, index + 6).map((item) => item.trim()).find((item) => item.length > 0);
+    failures.push(failure((test[1] ?? "").replace(/ › /g, " > "), file, location ? Number(location) : undefined, message));
+  }
+  return {
+    tool: "jest",
+    kind: "test",
+    source: "text",
+    counts: {
+      passed: count("passed"),
+      failed: count("failed"),
+      skipped: count("skipped") + count("todo"),
+      total: count("total"),
+    },
+    failures,
+    diagnostics: [],
+  };
+}
+
+function parseCargoText(output: string, tokens: string[]): ParsedReport {
+  const kind: TestBuildKind = tokens.includes("test") || /^test result: /m.test(output) ? "test" : "build";
+  let counts: TestBuildCounts | undefined;
+  for (const match of output.matchAll(/^test result: \w+\. (\d+) passed; (\d+) failed; (\d+) ignored;/gm)) {
+    const passed = Number(match[1]);
+    const failed = Number(match[2]);
+    const skipped = Number(match[3]);
+    counts = {
+      passed: (counts?.passed ?? 0) + passed,
+      failed: (counts?.failed ?? 0) + failed,
+      skipped: (counts?.skipped ?? 0) + skipped,
+      total: (counts?.total ?? 0) + passed + failed + skipped,
+    };
+  }
+  const failures = [...output.matchAll(/^test (\S+) \.\.\. FAILED$/gm)].map((match) => {
+    const name = match[1] ?? "";
+    const panic = new RegExp(`^thread '${escapeRegExp(name)}' panicked at (?:'([^\\n]*)', )?([^\\s:]+):(\\d+):\\d+:?\\n?(.*)$`, "m").exec(output);
+    return failure(name, panic?.[2], panic ? Number(panic[3]) : undefined, panic?.[1] || panic?.[4]);
+  });
+  const diagnostics: TestBuildDiagnostic[] = [];
+  const lines = output.split("\n");
+  for (const [index, line] of lines.entries()) {
+    const header = /^(error|warning)(?:\[(E\d+)\])?: (.+)$/.exec(line);
+    if (!header) continue;
+    const location = lines.slice(index + 1, index + 4)
+      .map((item) => /^\s*--> ([^:]+):(\d+):(\d+)/.exec(item))
+      .find((item): item is RegExpExecArray => Boolean(item));
+    if (!location) continue;
+    diagnostics.push({
+      file: location[1] ?? "",
+      line: Number(location[2]),
+      column: Number(location[3]),
+      severity: header[1] === "error" ? "error" : "warning",
+      ...(header[2] ? { code: header[2] } : {}),
+      message: truncate(header[3] ?? "", MAX_MESSAGE_CHARS),
+    });
+  }
+  return { tool: "cargo", kind, source: "text", ...(counts ? { counts } : {}), failures, diagnostics };
+}
+
+function parseGoText(output: string, tokens: string[]): ParsedReport {
+  const kind: TestBuildKind = tokens[1] === "test" || /^--- FAIL: /m.test(output) ? "test" : "build";
+  const lines = output.split("\n");
+  const failures: TestBuildFailure[] = [];
+  for (const [index, line] of lines.entries()) {
+    const failed = /^\s*--- FAIL: (\S+)/.exec(line);
+    if (!failed) continue;
+    const detail = lines.slice(index + 1, index + 10)
+      .map((item) => /^\s+([^\s:]+\.go):(\d+): (.*)$/.exec(item))
+      .find((item): item is RegExpExecArray => Boolean(item));
+    failures.push(failure(failed[1] ?? "", detail?.[1], detail ? Number(detail[2]) : undefined, detail?.[3]));
+  }
+  const passed = (output.match(/^\s*--- PASS: /gm) ?? []).length;
+  const skipped = (output.match(/^\s*--- SKIP: /gm) ?? []).length;
+  const okPackages = (output.match(/^ok\s+\S+/gm) ?? []).length;
+  const diagnostics = [...output.matchAll(/^(\.{0,2}\/?[^\s:]+\.go):(\d+):(\d+): (.+)$/gm)].map((match) => ({
+    file: match[1] ?? "",
+    line: Number(match[2]),
+    column: Number(match[3]),
+    severity: "error" as const,
+    message: truncate(match[4] ?? "", MAX_MESSAGE_CHARS),
+  }));
+  return {
+    tool: "go",
+    kind,
+    source: "text",
+    ...(passed + failures.length + skipped > 0
+      ? { counts: { passed, failed: failures.length, skipped, total: passed + failures.length + skipped } }
+      : {}),
+    failures,
+    diagnostics,
+    ranTests: passed > 0 || okPackages > 0,
+  };
+}
+
+function parseEslintStylish(output: string): ParsedReport {
+  const diagnostics: TestBuildDiagnostic[] = [];
+  let file: string | undefined;
+  for (const line of output.split("\n")) {
+    if (/^\S.*\S$/.test(line) && !/problems?\b/.test(line)) {
+      file = line.trim();
+      continue;
+    }
+    const entry = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?\s*$/.exec(line);
+    if (!entry || !file) continue;
+    diagnostics.push({
+      file,
+      line: Number(entry[1]),
+      column: Number(entry[2]),
+      severity: entry[3] === "error" ? "error" : "warning",
+      ...(entry[5] ? { code: entry[5] } : {}),
+      message: truncate(entry[4] ?? "", MAX_MESSAGE_CHARS),
+    });
+  }
+  return { tool: "eslint", kind: "lint", source: "text", failures: [], diagnostics };
+}
+
+function parseTscDiagnostics(output: string): TestBuildDiagnostic[] {
+  const diagnostics: TestBuildDiagnostic[] = [];
+  const patterns = [
+    /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/gm,
+    /^(.+?):(\d+):(\d+) - (error|warning) (TS\d+): (.*)$/gm,
+  ];
+  for (const pattern of patterns) {
+    for (const match of output.matchAll(pattern)) {
+      diagnostics.push({
+        file: (match[1] ?? "").trim(),
+        line: Number(match[2]),
+        column: Number(match[3]),
+        severity: match[4] === "error" ? "error" : "warning",
+        code: match[5] ?? "",
+        message: truncate(match[6] ?? "", MAX_MESSAGE_CHARS),
+      });
+    }
+  }
+  return diagnostics;
+}
+
+// --- Helpers ---
+
+function commandTokens(executable: string, args: string[]): string[] {
+  return [executable, ...args].map((token) => basename(token).toLowerCase());
+}
+
+function mentions(tokens: string[], name: string): boolean {
+  return tokens.some((token) => token === name || token === `${name}.cmd` || token === `${name}.exe`);
+}
+
+function extractJson(stdout: string): unknown {
+  const start = stdout.search(/^[[{]/m);
+  if (start < 0) return undefined;
+  const end = Math.max(stdout.lastIndexOf("}"), stdout.lastIndexOf("]"));
+  if (end <= start) return undefined;
+  try {
+    return JSON.parse(stdout.slice(start, end + 1)) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+function lineInStack(message: string, file: string): number | undefined {
+  const match = new RegExp(`${escapeRegExp(basename(file))}:(\\d+):\\d+`).exec(message);
+  return match ? Number(match[1]) : undefined;
+}
+
+function failure(name: string, file: string | undefined, line: number | undefined, message: string | undefined): TestBuildFailure {
+  const summary = message ? firstLine(stripAnsi(message)) : "";
+  return {
+    name: truncate(name, MAX_MESSAGE_CHARS),
+    ...(file ? { file } : {}),
+    ...(line !== undefined && Number.isFinite(line) && line > 0 ? { line } : {}),
+    ...(summary ? { message: truncate(summary, MAX_MESSAGE_CHARS) } : {}),
+  };
+}
+
+function xmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+    attributes[match[1] ?? ""] = unescapeXml(match[2] ?? "");
+  }
+  return attributes;
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+function records(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value && typeof value === "object" && !Array.isArray(value));
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim().length > 0 ? value : undefined;
+}
+
+function readNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function firstLine(value: string): string {
+  return value.split("\n").map((line) => line.trim()).find((line) => line.length > 0) ?? "";
+}
+
+function stripAnsi(value: string): string {
+  return value.replace(ANSI_PATTERN, "");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function truncate(value: string, maxChars: number): string {
+  if (value.length <= maxChars) return value;
+  return `${value.slice(0, Math.max(0, maxChars - 3)).trimEnd()}...`;
+}
@@ -15,9 +15,13 @@ import {
   writePythonScript,
   type PythonSkillRuntimeDeps,
 } from "./runtime.js";
+import { PythonSessionError, PythonSessionManager } from "./sessions.js";
 import {
   validatePythonExecuteInput,
   validatePythonInspectDatasetInput,
+  validatePythonSessionExecInput,
+  validatePythonSessionRefInput,
+  validatePythonSessionStartInput,
   type PythonExecuteInput,
   type PythonInspectDatasetInput,
 } from "./validators.js";
@@ -145,7 +149,10 @@ if __name__ == "__main__":
     main()
 `;
 
-export interface PythonSkillDeps extends PythonSkillRuntimeDeps {}
+export interface PythonSkillDeps extends PythonSkillRuntimeDeps {
+  /** Shared so the app can release run-scoped sessions and close all of them on shutdown. */
+  sessions?: PythonSessionManager;
+}
 
 const PYTHON_STRING_ARRAY_ITEM_SCHEMA: Record<string, unknown> = {
   type: "string",
@@ -168,6 +175,14 @@ function buildFailureResult(error: string, output?: Record<string, unknown>, met
   };
 }
 
+function sessionFailureResult(err: unknown, sessionId?: string): ToolResult {
+  const message = err instanceof Error ? err.message : String(err);
+  return buildFailureResult(message, undefined, {
+    ...(err instanceof PythonSessionError ? { code: err.code } : {}),
+    ...(sessionId ? { sessionId } : {}),
+  });
+}
+
 function buildCodeWrapper(userCode: string): string {
   return [
     "import json",
@@ -268,6 +283,7 @@ async function executeInspectDataset(
     stderrPath: artifacts.stderrPath,
     interpreter: runtime.interpreter,
     durationMs: runtime.durationMs,
+    isolation: runtime.sandbox.isolation,
   };
 
   if (!runtime.ok) {
@@ -286,6 +302,7 @@ async function executeInspectDataset(
     runtime: {
       interpreter: runtime.interpreter,
       durationMs: runtime.durationMs,
+      sandbox: runtime.sandbox,
     },
   }, meta);
 }
@@ -358,6 +375,7 @@ async function executePythonCode(
     signal: runtime.signal,
     timedOut: runtime.timedOut,
     outputTruncated: runtime.outputTruncated,
+    sandbox: runtime.sandbox,
     stdoutPreview: runtime.stdoutPreview,
     stderrPreview: runtime.stderrPreview,
     artifacts: artifactPaths,
@@ -375,6 +393,7 @@ async function executePythonCode(
       runDir: artifacts.runDir,
       manifestPath: artifacts.manifestPath,
       interpreter: runtime.interpreter,
+      isolation: runtime.sandbox.isolation,
     });
   }
 
@@ -382,6 +401,7 @@ async function executePythonCode(
     runDir: artifacts.runDir,
     manifestPath: artifacts.manifestPath,
     interpreter: runtime.interpreter,
+    isolation: runtime.sandbox.isolation,
   });
 }
 
@@ -511,7 +531,193 @@ function createPythonExecuteTool(deps: PythonSkillDeps): ToolDefinition {
   };
 }
 
+const PYTHON_SESSION_ID_SCHEMA: Record<string, unknown> = {
+  type: "string",
+  description: "Session id returned by python_session_start.",
+};
+
+function createPythonSessionStartTool(deps: PythonSkillDeps, sessions: PythonSessionManager): ToolDefinition {
+  return {
+    name: "python_session_start",
+    description: "Start a long-lived managed Python session whose variables persist across python_session_exec calls.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        scope: {
+          type: "string",
+          enum: ["run", "workstream"],
+          description: "run (default) ends with the current run; workstream keeps the session for later runs of the bound workstream.",
+        },
+        cwd: { type: "string", description: "Optional canonical absolute working directory. Omit to use the default Ayati workspace." },
+        idleTimeoutMs: { type: "number", description: "Stop the session after this much inactivity. Defaults to 10 minutes; capped at 1 hour." },
+        memoryMb: { type: "number", description: "Data-segment memory cap for the session. Defaults to 2048; capped at 8192." },
+        inputFiles: {
+          type: "array",
+          description: "Optional canonical absolute dataset file paths exposed as INPUT_FILES.",
+          items: PYTHON_STRING_ARRAY_ITEM_SCHEMA,
+        },
+        sqliteDbPaths: {
+          type: "array",
+          description: "Optional canonical absolute SQLite database paths exposed as SQLITE_DB_PATHS.",
+          items: PYTHON_STRING_ARRAY_ITEM_SCHEMA,
+        },
+      },
+      additionalProperties: false,
+    },
+    outputSchema: genericObjectOutputSchema,
+    resultContract: succeededContract({
+      assertions: [{
+        id: "session_id_present",
+        kind: "json_path_exists",
+        path: "$.result.structuredContent.sessionId",
+      }],
+    }),
+    async execute(input, context): Promise<ToolResult> {
+      const parsed = validatePythonSessionStartInput(input);
+      if ("ok" in parsed) return parsed;
+      try {
+        const session = await sessions.start({ deps, context, ...parsed });
+        return buildSuccessResult({ ...session }, {
+          sessionId: session.sessionId,
+          scope: session.scope,
+          isolation: session.sandbox.isolation,
+        });
+      } catch (err) {
+        return sessionFailureResult(err);
+      }
+    },
+  };
+}
+
+function createPythonSessionExecTool(sessions: PythonSessionManager): ToolDefinition {
+  return {
+    name: "python_session_exec",
+    description: "Run Python code inside an existing session; variables, imports, and loaded data from earlier calls are kept.",
+    inputSchema: {
+      type: "object",
+      required: ["sessionId", "code"],
+      properties: {
+        sessionId: PYTHON_SESSION_ID_SCHEMA,
+        code: { type: "string", description: "Python code. A trailing expression is echoed back as result." },
+        timeoutMs: { type: "number", description: "Interrupt the call after this many milliseconds; the session keeps its state." },
+        maxOutputChars: { type: "number", description: "Optional cap for stdout/stderr previews." },
+      },
+      additionalProperties: false,
+    },
+    outputSchema: genericObjectOutputSchema,
+    resultContract: succeededContract({
+      assertions: [{
+        id: "exec_status_ok",
+        kind: "json_path_equals",
+        path: "$.result.structuredContent.status",
+        value: "ok",
+      }],
+      progressFacts: [{
+        kind: "python_execution_succeeded",
+        path: "$.result.structuredContent.session.sessionId",
+        message: "Managed Python session call completed successfully.",
+      }],
+    }),
+    async execute(input, context): Promise<ToolResult> {
+      const parsed = validatePythonSessionExecInput(input);
+      if ("ok" in parsed) return parsed;
+      let result;
+      try {
+        result = await sessions.exec({ ...parsed, context });
+      } catch (err) {
+        return sessionFailureResult(err, parsed.sessionId);
+      }
+      const meta = {
+        sessionId: parsed.sessionId,
+        status: result.status,
+        running: result.session.running,
+        isolation: result.session.sandbox.isolation,
+      };
+      if (result.status !== "ok") {
+        return buildFailureResult(result.error ?? "Python session call failed.", { ...result }, meta);
+      }
+      return buildSuccessResult({ ...result }, meta);
+    },
+  };
+}
+
+function createPythonSessionInspectTool(sessions: PythonSessionManager): ToolDefinition {
+  return {
+    name: "python_session_inspect",
+    description: "List the variables, artifacts, limits, and status of one Python session without running code.",
+    inputSchema: {
+      type: "object",
+      required: ["sessionId"],
+      properties: {
+        sessionId: PYTHON_SESSION_ID_SCHEMA,
+      },
+      additionalProperties: false,
+    },
+    outputSchema: genericObjectOutputSchema,
+    resultContract: succeededContract({
+      assertions: [{
+        id: "session_present",
+        kind: "json_path_exists",
+        path: "$.result.structuredContent.session.sessionId",
+      }],
+    }),
+    async execute(input, context): Promise<ToolResult> {
+      const parsed = validatePythonSessionRefInput(input);
+      if ("ok" in parsed) return parsed;
+      try {
+        const inspected = await sessions.inspect({ sessionId: parsed.sessionId, context });
+        return buildSuccessResult({ ...inspected }, {
+          sessionId: parsed.sessionId,
+          running: inspected.session.running,
+          variableCount: inspected.variables.length,
+        });
+      } catch (err) {
+        return sessionFailureResult(err, parsed.sessionId);
+      }
+    },
+  };
+}
+
+function createPythonSessionStopTool(sessions: PythonSessionManager): ToolDefinition {
+  return {
+    name: "python_session_stop",
+    description: "Stop one Python session and discard its in-memory state; files in its artifact directory are kept.",
+    inputSchema: {
+      type: "object",
+      required: ["sessionId"],
+      properties: {
+        sessionId: PYTHON_SESSION_ID_SCHEMA,
+      },
+      additionalProperties: false,
+    },
+    outputSchema: genericObjectOutputSchema,
+    resultContract: succeededContract({
+      assertions: [{
+        id: "session_closed",
+        kind: "json_path_equals",
+        path: "$.result.structuredContent.running",
+        value: false,
+      }],
+    }),
+    async execute(input, context): Promise<ToolResult> {
+      const parsed = validatePythonSessionRefInput(input);
+      if ("ok" in parsed) return parsed;
+      try {
+        const session = await sessions.stop({ sessionId: parsed.sessionId, context });
+        return buildSuccessResult({ ...session }, {
+          sessionId: session.sessionId,
+          exitCode: session.exitCode,
+          signal: session.signal,
+        });
+      } catch (err) {
+        return sessionFailureResult(err, parsed.sessionId);
+      }
+    },
+  };
+}
+
 export function createPythonSkill(deps: PythonSkillDeps): SkillDefinition {
+  const sessions = deps.sessions ?? new PythonSessionManager();
   return {
     id: "python",
     version: "1.0.0",
@@ -519,6 +725,10 @@ export function createPythonSkill(deps: PythonSkillDeps): SkillDefinition {
     tools: [
       createInspectDatasetTool(deps),
       createPythonExecuteTool(deps),
+      createPythonSessionStartTool(deps, sessions),
+      createPythonSessionExecTool(sessions),
+      createPythonSessionInspectTool(sessions),
+      createPythonSessionStopTool(sessions),
     ],
   };
 }
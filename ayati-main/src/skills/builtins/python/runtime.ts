@@ -2,6 +2,7 @@ import { access, readFile, stat, writeFile } from "node:fs/promises";
 import { constants as fsConstants } from "node:fs";
 import { spawn } from "node:child_process";
 import { resolve as resolvePath } from "node:path";
+import { prepareSandboxedProcess, type ProcessSandboxReport } from "../../process-sandbox.js";
 import type { ToolExecutionContext } from "../../types.js";
 import { resolveWorkspaceCwd } from "../../workspace-paths.js";
 import {
@@ -33,6 +34,7 @@ export interface PythonSpawnResult {
   timedOut: boolean;
   outputTruncated: boolean;
   cwd: string;
+  sandbox: ProcessSandboxReport;
 }
 
 function appendCapped(current: string, incoming: string, cap: number): { value: string; truncated: boolean } {
@@ -118,21 +120,29 @@ export async function runManagedPythonProcess(input: {
   const timeoutMs = Math.max(1, Math.min(input.timeoutMs ?? DEFAULT_PYTHON_TIMEOUT_MS, DEFAULT_PYTHON_TIMEOUT_MS));
   const maxOutputChars = Math.max(1, Math.min(input.maxOutputChars ?? DEFAULT_MAX_OUTPUT_CHARS, DEFAULT_MAX_OUTPUT_CHARS));
   const cwd = resolvePythonCwd(input.deps, input.cwd, input.context);
+  // The scrubbed environment keeps provider API keys out of model-written code.
+  const sandbox = await prepareSandboxedProcess({
+    executable: interpreter,
+    args: [input.scriptPath, ...(input.args ?? [])],
+    cwd,
+    scope: input.context?.resourceScope,
+    extraWritable: [input.artifacts.runDir],
+    extraEnv: {
+      AYATI_PYTHON_RUN_ID: input.context?.runId ?? "",
+      AYATI_PYTHON_SESSION_ID: input.context?.sessionId ?? "",
+      AYATI_PYTHON_CLIENT_ID: input.context?.clientId ?? "",
+      AYATI_PYTHON_RUN_DIR: input.artifacts.runDir,
+      AYATI_PYTHON_ARTIFACT_DIR: input.artifacts.artifactsDir,
+      AYATI_PYTHON_REQUEST_PATH: input.artifacts.requestPath,
+      ...(input.extraEnv ?? {}),
+    },
+  });
   const start = Date.now();
 
   return await new Promise<PythonSpawnResult>((resolveResult) => {
-    const child = spawn(interpreter, [input.scriptPath, ...(input.args ?? [])], {
+    const child = spawn(sandbox.command, sandbox.args, {
       cwd,
-      env: {
-        ...process.env,
-        AYATI_PYTHON_RUN_ID: input.context?.runId ?? "",
-        AYATI_PYTHON_SESSION_ID: input.context?.sessionId ?? "",
-        AYATI_PYTHON_CLIENT_ID: input.context?.clientId ?? "",
-        AYATI_PYTHON_RUN_DIR: input.artifacts.runDir,
-        AYATI_PYTHON_ARTIFACT_DIR: input.artifacts.artifactsDir,
-        AYATI_PYTHON_REQUEST_PATH: input.artifacts.requestPath,
-        ...(input.extraEnv ?? {}),
-      },
+      env: sandbox.env,
       shell: false,
       stdio: ["ignore", "pipe", "pipe"],
     });
@@ -141,18 +151,27 @@ export async function runManagedPythonProcess(input: {
     let stderrPreview = "";
     let outputTruncated = false;
     let timedOut = false;
+    let cancelled = false;
     let settled = false;
+    const abortSignal = input.context?.signal;
 
-    const finish = async (result: Omit<PythonSpawnResult, "durationMs">): Promise<void> => {
+    const cancel = (): void => {
+      cancelled = true;
+      child.kill("SIGTERM");
+    };
+    const finish = async (result: Omit<PythonSpawnResult, "durationMs" | "sandbox">): Promise<void> => {
       if (settled) return;
       settled = true;
+      abortSignal?.removeEventListener("abort", cancel);
       await Promise.all([
         writeFile(input.artifacts.stdoutPath, stdoutPreview, "utf-8"),
         writeFile(input.artifacts.stderrPath, stderrPreview, "utf-8"),
+        sandbox.dispose(),
       ]);
       resolveResult({
         ...result,
         durationMs: Date.now() - start,
+        sandbox: sandbox.report,
       });
     };
 
@@ -160,6 +179,11 @@ export async function runManagedPythonProcess(input: {
       timedOut = true;
       child.kill("SIGTERM");
     }, timeoutMs);
+    if (abortSignal?.aborted) {
+      cancel();
+    } else {
+      abortSignal?.addEventListener("abort", cancel, { once: true });
+    }
 
     child.stdout.on("data", (chunk: Buffer | string) => {
       const next = appendCapped(stdoutPreview, chunk.toString(), maxOutputChars);
@@ -192,8 +216,12 @@ export async function runManagedPythonProcess(input: {
     child.on("close", async (code, signal) => {
       clearTimeout(timeout);
       await finish({
-        ok: !timedOut && code === 0,
-        error: timedOut ? "Python execution timed out and was terminated." : code === 0 ? undefined : `Python exited with code ${code ?? "unknown"}.`,
+        ok: !timedOut && !cancelled && code === 0,
+        error: cancelled
+          ? "Python execution was terminated because the run was cancelled."
+          : timedOut
+            ? "Python execution timed out and was terminated."
+            : code === 0 ? undefined : `Python exited with code ${code ?? "unknown"}.`,
         exitCode: code,
         signal,
         stdoutPreview,
@@ -232,6 +260,7 @@ export async function writeExecutionManifest(input: {
       timedOut: input.runtime.timedOut,
       outputTruncated: input.runtime.outputTruncated,
       cwd: input.runtime.cwd,
+      sandbox: input.runtime.sandbox,
     },
     files: {
       requestPath: input.artifacts.requestPath,
@@ -0,0 +1,733 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import { mkdir, rm, stat } from "node:fs/promises";
+import { resolve } from "node:path";
+import {
+  prepareSandboxedProcess,
+  type PreparedSandboxProcess,
+  type ProcessSandboxCapabilities,
+  type ProcessSandboxPolicy,
+  type ProcessSandboxReport,
+} from "../../process-sandbox.js";
+import type { ToolExecutionContext } from "../../types.js";
+import { listFilesRecursive } from "./artifacts.js";
+import {
+  buildPythonExecutionEnvironment,
+  DEFAULT_MAX_OUTPUT_CHARS,
+  DEFAULT_PYTHON_TIMEOUT_MS,
+  ensureManagedPythonInterpreter,
+  resolveManagedPythonInterpreter,
+  resolvePythonCwd,
+  writePythonScript,
+  type PythonSkillRuntimeDeps,
+} from "./runtime.js";
+
+export const DEFAULT_PYTHON_SESSION_IDLE_TIMEOUT_MS = 600_000; // 10 min
+export const MAX_PYTHON_SESSION_IDLE_TIMEOUT_MS = 3_600_000;
+export const DEFAULT_PYTHON_SESSION_MEMORY_MB = 2048;
+export const MAX_PYTHON_SESSION_MEMORY_MB = 8192;
+export const MAX_PYTHON_SESSIONS = 4;
+
+const MB = 1024 * 1024;
+const KERNEL_READY_TIMEOUT_MS = 15_000;
+const INTERRUPT_GRACE_MS = 2_000;
+const STOP_GRACE_MS = 1_000;
+const IDLE_SWEEP_INTERVAL_MS = 30_000;
+const MAX_STRAY_OUTPUT_CHARS = 4_000;
+
+const PYTHON_SESSION_KERNEL = String.raw`import ast
+import io
+import json
+import os
+import queue
+import signal
+import sys
+import threading
+import traceback
+import types
+from contextlib import redirect_stderr, redirect_stdout
+from pathlib import Path
+
+# Replies travel on a private copy of stdout; anything written straight to fd 1 lands on stderr.
+PROTOCOL = os.fdopen(os.dup(1), "w", encoding="utf-8", buffering=1)
+os.dup2(2, 1)
+
+NAMESPACE = {
+    "__name__": "__main__",
+    "SESSION_DIR": Path(os.environ["AYATI_PYTHON_SESSION_DIR"]),
+    "ARTIFACT_DIR": Path(os.environ["AYATI_PYTHON_ARTIFACT_DIR"]),
+    "INPUT_FILES": json.loads(os.environ.get("AYATI_PYTHON_INPUT_FILES", "[]")),
+    "SQLITE_DB_PATHS": json.loads(os.environ.get("AYATI_PYTHON_SQLITE_DB_PATHS", "[]")),
+}
+RESERVED = {"SESSION_DIR", "ARTIFACT_DIR", "INPUT_FILES", "SQLITE_DB_PATHS"}
+REQUESTS = queue.Queue()
+STATE_LOCK = threading.Lock()
+STATE = {"executing": False}
+
+
+def limit_memory():
+    limit = int(os.environ.get("AYATI_PYTHON_SESSION_MEMORY_BYTES", "0"))
+    if limit <= 0:
+        return
+    try:
+        import resource
+        _, hard = resource.getrlimit(resource.RLIMIT_DATA)
+        if hard != resource.RLIM_INFINITY:
+            limit = min(limit, hard)
+        resource.setrlimit(resource.RLIMIT_DATA, (limit, limit))
+    except (ImportError, ValueError, OSError):
+        pass
+
+
+def reply(payload):
+    PROTOCOL.write(json.dumps(payload, default=str) + "\n")
+    PROTOCOL.flush()
+
+
+def clip(text, limit):
+    if len(text) <= limit:
+        return text, False
+    return text[:limit] + "\n...[truncated]", True
+
+
+def run_cell(code):
+    tree = ast.parse(code, "<session>", "exec")
+    tail = None
+    if tree.body and isinstance(tree.body[-1], ast.Expr):
+        tail = ast.Expression(tree.body.pop().value)
+    exec(compile(tree, "<session>", "exec"), NAMESPACE)
+    if tail is None:
+        return None
+    value = eval(compile(tail, "<session>", "eval"), NAMESPACE)
+    if value is None:
+        return None
+    NAMESPACE["_"] = value
+    return summarize(value, 2000)
+
+
+def summarize(value, limit):
+    try:
+        text = repr(value)
+    except Exception:
+        text = "<unrepresentable " + type(value).__name__ + ">"
+    return text if len(text) <= limit else text[:limit] + "..."
+
+
+def inspect_namespace():
+    variables = []
+    for name, value in sorted(NAMESPACE.items()):
+        if name.startswith("_") or name in RESERVED or isinstance(value, types.ModuleType):
+            continue
+        entry = {"name": name, "type": type(value).__name__, "summary": summarize(value, 200)}
+        shape = getattr(value, "shape", None)
+        if isinstance(shape, tuple):
+            entry["shape"] = list(shape)
+        variables.append(entry)
+    return variables
+
+
+def execute(request):
+    stdout, stderr = io.StringIO(), io.StringIO()
+    status, result, error = "ok", None, None
+    try:
+        with redirect_stdout(stdout), redirect_stderr(stderr):
+            result = run_cell(request["code"])
+    except KeyboardInterrupt:
+        status, error = "interrupted", "Execution was interrupted."
+    except BaseException:
+        # SystemExit and MemoryError end the cell, not the session.
+        status, error = "error", traceback.format_exc()
+    limit = int(request.get("maxOutputChars", 100000))
+    out, out_truncated = clip(stdout.getvalue(), limit)
+    err, err_truncated = clip(stderr.getvalue(), limit)
+    return {
+        "id": request["id"],
+        "status": status,
+        "stdout": out,
+        "stderr": err,
+        "result": result,
+        "error": error,
+        "outputTruncated": out_truncated or err_truncated,
+    }
+
+
+def read_requests():
+    # Interrupts arrive in-band because a sandbox wrapper such as bubblewrap does not forward signals.
+    for line in sys.stdin:
+        try:
+            request = json.loads(line)
+        except ValueError:
+            continue
+        if request.get("op") != "interrupt":
+            REQUESTS.put(request)
+            continue
+        with STATE_LOCK:
+            if STATE["executing"]:
+                signal.pthread_kill(threading.main_thread().ident, signal.SIGINT)
+    REQUESTS.put(None)
+
+
+def main():
+    limit_memory()
+    signal.signal(signal.SIGINT, signal.default_int_handler)
+    threading.Thread(target=read_requests, daemon=True).start()
+    reply({"id": 0, "status": "ready", "python": sys.version.split()[0]})
+    while True:
+        try:
+            request = REQUESTS.get()
+            if request is None:
+                return
+            if request["op"] == "inspect":
+                reply({"id": request["id"], "status": "ok", "variables": inspect_namespace()})
+                continue
+            with STATE_LOCK:
+                STATE["executing"] = True
+            try:
+                response = execute(request)
+            finally:
+                with STATE_LOCK:
+                    STATE["executing"] = False
+            reply(response)
+        except KeyboardInterrupt:
+            continue
+
+
+if __name__ == "__main__":
+    main()
+`;
+
+export type PythonSessionScope = "run" | "workstream";
+
+export type PythonSessionErrorCode =
+  | "PYTHON_SESSION_NOT_FOUND"
+  | "PYTHON_SESSION_LIMIT"
+  | "PYTHON_SESSION_SCOPE_UNAVAILABLE"
+  | "PYTHON_SESSION_BUSY"
+  | "PYTHON_SESSION_EXPIRED"
+  | "PYTHON_SESSION_EXITED"
+  | "PYTHON_SESSION_START_FAILED";
+
+export class PythonSessionError extends Error {
+  constructor(readonly code: PythonSessionErrorCode, message: string) {
+    super(message);
+    this.name = "PythonSessionError";
+  }
+}
+
+export interface PythonSessionSnapshot {
+  sessionId: string;
+  scope: PythonSessionScope;
+  running: boolean;
+  busy: boolean;
+  interpreter: string;
+  pythonVersion?: string;
+  cwd: string;
+  sessionDir: string;
+  artifactDir: string;
+  createdAt: number;
+  lastActiveAt: number;
+  idleTimeoutMs: number;
+  memoryBytes: number;
+  execCount: number;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  sandbox: ProcessSandboxReport;
+}
+
+export interface PythonSessionVariable {
+  name: string;
+  type: string;
+  summary: string;
+  shape?: number[];
+}
+
+export interface PythonSessionExecResult {
+  status: "ok" | "error" | "interrupted" | "timed_out" | "cancelled" | "exited";
+  stdout: string;
+  stderr: string;
+  result: string | null;
+  error: string | null;
+  outputTruncated: boolean;
+  durationMs: number;
+  /** Artifact files created or rewritten by this call. */
+  newArtifacts: string[];
+  session: PythonSessionSnapshot;
+}
+
+interface KernelReply {
+  id: number;
+  status: string;
+  python?: string;
+  stdout?: string;
+  stderr?: string;
+  result?: string | null;
+  error?: string | null;
+  outputTruncated?: boolean;
+  variables?: PythonSessionVariable[];
+}
+
+interface PythonSessionState {
+  id: string;
+  scope: PythonSessionScope;
+  runId?: string;
+  workstreamId?: string;
+  child: ChildProcessWithoutNullStreams;
+  sandbox: PreparedSandboxProcess;
+  interpreter: string;
+  pythonVersion?: string;
+  cwd: string;
+  sessionDir: string;
+  artifactDir: string;
+  createdAt: number;
+  lastActiveAt: number;
+  idleTimeoutMs: number;
+  memoryBytes: number;
+  execCount: number;
+  nextRequestId: number;
+  busy: boolean;
+  exited: boolean;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  strayOutput: string;
+  protocolBuffer: string;
+  waiters: Map<number, (reply: KernelReply | null) => void>;
+  artifactVersions: Map<string, number>;
+  closePromise: Promise<void>;
+}
+
+/**
+ * Owns long-lived Python kernels for `python_session_*`. A run-scoped session belongs to the run
+ * that started it and is released when that run finalizes; a workstream-scoped session survives
+ * across runs of the same workstream until it idles out, is stopped, or the daemon shuts down.
+ */
+export class PythonSessionManager {
+  private readonly sessions = new Map<string, PythonSessionState>();
+  private sweepTimer: NodeJS.Timeout | undefined;
+
+  /** Sandbox inputs default to the environment policy and the probed host capabilities. */
+  constructor(private readonly sandbox: {
+    policy?: ProcessSandboxPolicy;
+    capabilities?: ProcessSandboxCapabilities;
+  } = {}) {}
+
+  async start(input: {
+    deps: PythonSkillRuntimeDeps;
+    context?: ToolExecutionContext;
+    scope: PythonSessionScope;
+    cwd?: string;
+    idleTimeoutMs?: number;
+    memoryMb?: number;
+    inputFiles?: string[];
+    sqliteDbPaths?: string[];
+  }): Promise<PythonSessionSnapshot> {
+    const workstreamId = input.context?.resourceScope?.workstreamId;
+    if (input.scope === "workstream" && !workstreamId) {
+      throw new PythonSessionError(
+        "PYTHON_SESSION_SCOPE_UNAVAILABLE",
+        "A workstream-scoped Python session needs a bound workstream resource; use scope run instead.",
+      );
+    }
+    if (this.runningCount() >= MAX_PYTHON_SESSIONS) {
+      throw new PythonSessionError(
+        "PYTHON_SESSION_LIMIT",
+        `At most ${MAX_PYTHON_SESSIONS} Python sessions may run at once. Stop an existing session first.`,
+      );
+    }
+
+    const interpreter = resolveManagedPythonInterpreter(input.deps);
+    await ensureManagedPythonInterpreter(interpreter);
+    const sessionId = `pysession_${randomUUID()}`;
+    const sessionDir = resolve(input.deps.dataDir, "python", "sessions", sessionId);
+    const artifactDir = resolve(sessionDir, "artifacts");
+    await mkdir(artifactDir, { recursive: true });
+    const kernelPath = resolve(sessionDir, "kernel.py");
+    await writePythonScript(kernelPath, PYTHON_SESSION_KERNEL);
+
+    const cwd = resolvePythonCwd(input.deps, input.cwd, input.context);
+    const idleTimeoutMs = Math.min(input.idleTimeoutMs ?? DEFAULT_PYTHON_SESSION_IDLE_TIMEOUT_MS, MAX_PYTHON_SESSION_IDLE_TIMEOUT_MS);
+    const memoryBytes = Math.min(input.memoryMb ?? DEFAULT_PYTHON_SESSION_MEMORY_MB, MAX_PYTHON_SESSION_MEMORY_MB) * MB;
+    const sandbox = await prepareSandboxedProcess({
+      executable: interpreter,
+      args: ["-u", kernelPath],
+      cwd,
+      scope: input.context?.resourceScope,
+      extraWritable: [sessionDir],
+      extraEnv: {
+        AYATI_PYTHON_RUN_ID: input.context?.runId ?? "",
+        AYATI_PYTHON_SESSION_ID: sessionId,
+        AYATI_PYTHON_CLIENT_ID: input.context?.clientId ?? "",
+        AYATI_PYTHON_SESSION_DIR: sessionDir,
+        AYATI_PYTHON_ARTIFACT_DIR: artifactDir,
+        AYATI_PYTHON_SESSION_MEMORY_BYTES: String(memoryBytes),
+        ...buildPythonExecutionEnvironment(input.inputFiles, input.sqliteDbPaths),
+      },
+      ...(this.sandbox.policy ? { policy: this.sandbox.policy } : {}),
+      ...(this.sandbox.capabilities ? { capabilities: this.sandbox.capabilities } : {}),
+    });
+    const child = spawn(sandbox.command, sandbox.args, {
+      cwd,
+      env: sandbox.env,
+      shell: false,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+
+    let resolveClose: (() => void) | undefined;
+    const closePromise = new Promise<void>((resolveClosed) => {
+      resolveClose = resolveClosed;
+    });
+    const now = Date.now();
+    const session: PythonSessionState = {
+      id: sessionId,
+      scope: input.scope,
+      ...(input.context?.runId ? { runId: input.context.runId } : {}),
+      ...(input.scope === "workstream" && workstreamId ? { workstreamId } : {}),
+      child,
+      sandbox,
+      interpreter,
+      cwd,
+      sessionDir,
+      artifactDir,
+      createdAt: now,
+      lastActiveAt: now,
+      idleTimeoutMs,
+      memoryBytes,
+      execCount: 0,
+      nextRequestId: 1,
+      busy: false,
+      exited: false,
+      exitCode: null,
+      signal: null,
+      strayOutput: "",
+      protocolBuffer: "",
+      waiters: new Map(),
+      artifactVersions: new Map(),
+      closePromise,
+    };
+
+    child.stdout.on("data", (chunk: Buffer | string) => {
+      session.protocolBuffer += chunk.toString();
+      let newline = session.protocolBuffer.indexOf("\n");
+      while (newline >= 0) {
+        const line = session.protocolBuffer.slice(0, newline).trim();
+        session.protocolBuffer = session.protocolBuffer.slice(newline + 1);
+        if (line.length > 0) deliverReply(session, line);
+        newline = session.protocolBuffer.indexOf("\n");
+      }
+    });
+    child.stderr.on("data", (chunk: Buffer | string) => {
+      session.strayOutput = (session.strayOutput + chunk.toString()).slice(-MAX_STRAY_OUTPUT_CHARS);
+    });
+    child.stdin.on("error", () => undefined);
+    const markExited = (code: number | null, signal: NodeJS.Signals | null): void => {
+      if (session.exited) return;
+      session.exited = true;
+      session.exitCode = code;
+      session.signal = signal;
+      for (const waiter of session.waiters.values()) waiter(null);
+      session.waiters.clear();
+      resolveClose?.();
+    };
+    child.on("close", markExited);
+    child.on("error", (err: Error) => {
+      session.strayOutput = (session.strayOutput + err.message).slice(-MAX_STRAY_OUTPUT_CHARS);
+      markExited(null, null);
+    });
+    void closePromise.then(async () => await sandbox.dispose());
+
+    const ready = await awaitReply(session, 0, KERNEL_READY_TIMEOUT_MS);
+    if (!ready || ready.status !== "ready") {
+      await terminate(session);
+      await rm(sessionDir, { recursive: true, force: true });
+      const detail = session.strayOutput.trim();
+      throw new PythonSessionError(
+        "PYTHON_SESSION_START_FAILED",
+        `Python session kernel did not start${detail ? `: ${detail}` : "."}`,
+      );
+    }
+    if (ready.python) session.pythonVersion = ready.python;
+
+    this.sessions.set(sessionId, session);
+    this.ensureSweeper();
+    return snapshot(session);
+  }
+
+  async exec(input: {
+    sessionId: string;
+    code: string;
+    timeoutMs?: number;
+    maxOutputChars?: number;
+    context?: ToolExecutionContext;
+  }): Promise<PythonSessionExecResult> {
+    const session = this.requireSession(input.sessionId, input.context);
+    if (session.busy) {
+      throw new PythonSessionError("PYTHON_SESSION_BUSY", `Python session ${session.id} is still running a previous call.`);
+    }
+    const timeoutMs = Math.max(1, Math.min(input.timeoutMs ?? DEFAULT_PYTHON_TIMEOUT_MS, DEFAULT_PYTHON_TIMEOUT_MS));
+    const maxOutputChars = Math.max(1, Math.min(input.maxOutputChars ?? DEFAULT_MAX_OUTPUT_CHARS, DEFAULT_MAX_OUTPUT_CHARS));
+    const abortSignal = input.context?.signal;
+    const started = Date.now();
+    session.busy = true;
+    session.lastActiveAt = started;
+    session.execCount += 1;
+
+    let interruptedBy: "timed_out" | "cancelled" | undefined;
+    const interrupt = (reason: "timed_out" | "cancelled"): void => {
+      if (interruptedBy || session.exited) return;
+      interruptedBy = reason;
+      // The child may be a bubblewrap wrapper that dies on SIGINT, so the kernel interrupts itself.
+      // KeyboardInterrupt keeps the namespace; a kernel that ignores it is killed after the grace period.
+      writeLine(session, { op: "interrupt" });
+      setTimeout(() => {
+        if (session.busy && !session.exited) session.child.kill("SIGKILL");
+      }, INTERRUPT_GRACE_MS).unref();
+    };
+    const onAbort = (): void => interrupt("cancelled");
+    const timer = setTimeout(() => interrupt("timed_out"), timeoutMs);
+    if (abortSignal?.aborted) {
+      onAbort();
+    } else {
+      abortSignal?.addEventListener("abort", onAbort, { once: true });
+    }
+
+    let reply: KernelReply | null;
+    try {
+      reply = await sendRequest(session, { op: "exec", code: input.code, maxOutputChars });
+    } finally {
+      clearTimeout(timer);
+      abortSignal?.removeEventListener("abort", onAbort);
+      session.busy = false;
+      session.lastActiveAt = Date.now();
+    }
+
+    const newArtifacts = await collectNewArtifacts(session);
+    if (!reply) this.sessions.delete(session.id);
+    const kernelStatus = reply?.status === "ok" || reply?.status === "error" ? reply.status : undefined;
+    const status: PythonSessionExecResult["status"] = interruptedBy ?? kernelStatus ?? (reply ? "interrupted" : "exited");
+    return {
+      status,
+      stdout: reply?.stdout ?? "",
+      stderr: reply?.stderr ?? (reply ? "" : session.strayOutput.trim()),
+      result: reply?.result ?? null,
+      error: reply?.error ?? execErrorMessage(status, timeoutMs),
+      outputTruncated: reply?.outputTruncated === true,
+      durationMs: Date.now() - started,
+      newArtifacts,
+      session: snapshot(session),
+    };
+  }
+
+  async inspect(input: { sessionId: string; context?: ToolExecutionContext }): Promise<{
+    session: PythonSessionSnapshot;
+    variables: PythonSessionVariable[];
+    artifacts: string[];
+  }> {
+    const session = this.requireSession(input.sessionId, input.context);
+    let variables: PythonSessionVariable[] = [];
+    if (!session.busy) {
+      const reply = await sendRequest(session, { op: "inspect" }, KERNEL_READY_TIMEOUT_MS);
+      variables = reply?.variables ?? [];
+    }
+    session.lastActiveAt = Date.now();
+    return {
+      session: snapshot(session),
+      variables,
+      artifacts: await listFilesRecursive(session.artifactDir).catch(() => []),
+    };
+  }
+
+  async stop(input: { sessionId: string; context?: ToolExecutionContext }): Promise<PythonSessionSnapshot> {
+    const session = this.requireSession(input.sessionId, input.context, { allowExited: true });
+    this.sessions.delete(session.id);
+    await terminate(session);
+    return snapshot(session);
+  }
+
+  /** Tears down the run-scoped sessions a finalized run started. */
+  async releaseRun(runId: string): Promise<void> {
+    const owned = [...this.sessions.values()].filter((session) => session.scope === "run" && session.runId === runId);
+    await this.closeSessions(owned);
+  }
+
+  async closeAll(): Promise<void> {
+    await this.closeSessions([...this.sessions.values()]);
+  }
+
+  /** Stops sessions idle past their timeout; runs on an unref'd timer and before each lookup. */
+  async sweepIdle(now = Date.now()): Promise<void> {
+    const idle = [...this.sessions.values()].filter((session) => isIdle(session, now));
+    await this.closeSessions(idle);
+  }
+
+  private async closeSessions(sessions: PythonSessionState[]): Promise<void> {
+    for (const session of sessions) this.sessions.delete(session.id);
+    await Promise.all(sessions.map(async (session) => await terminate(session)));
+    if (this.sessions.size === 0 && this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+
+  private requireSession(
+    sessionId: string,
+    context: ToolExecutionContext | undefined,
+    options: { allowExited?: boolean } = {},
+  ): PythonSessionState {
+    const session = this.sessions.get(sessionId);
+    // Sessions owned by another run or workstream are reported as unknown rather than leaked.
+    if (!session || !ownsSession(session, context)) {
+      throw new PythonSessionError("PYTHON_SESSION_NOT_FOUND", `Unknown Python session: ${sessionId}`);
+    }
+    if (!options.allowExited && isIdle(session, Date.now())) {
+      this.sessions.delete(session.id);
+      void terminate(session);
+      throw new PythonSessionError(
+        "PYTHON_SESSION_EXPIRED",
+        `Python session ${sessionId} expired after ${session.idleTimeoutMs}ms of inactivity; start a new session.`,
+      );
+    }
+    if (session.exited && !options.allowExited) {
+      this.sessions.delete(session.id);
+      throw new PythonSessionError(
+        "PYTHON_SESSION_EXITED",
+        `Python session ${sessionId} has exited${session.signal ? ` (${session.signal})` : ""}; start a new session.`,
+      );
+    }
+    return session;
+  }
+
+  private runningCount(): number {
+    return [...this.sessions.values()].filter((session) => !session.exited).length;
+  }
+
+  private ensureSweeper(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => {
+      void this.sweepIdle();
+    }, IDLE_SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+}
+
+function ownsSession(session: PythonSessionState, context: ToolExecutionContext | undefined): boolean {
+  if (session.scope === "workstream") {
+    return context?.resourceScope?.workstreamId === session.workstreamId;
+  }
+  return context?.runId === session.runId;
+}
+
+function isIdle(session: PythonSessionState, now: number): boolean {
+  return !session.busy && now - session.lastActiveAt > session.idleTimeoutMs;
+}
+
+function deliverReply(session: PythonSessionState, line: string): void {
+  let reply: KernelReply;
+  try {
+    reply = JSON.parse(line) as KernelReply;
+  } catch {
+    session.strayOutput = (session.strayOutput + line).slice(-MAX_STRAY_OUTPUT_CHARS);
+    return;
+  }
+  const waiter = session.waiters.get(reply.id);
+  if (!waiter) return;
+  session.waiters.delete(reply.id);
+  waiter(reply);
+}
+
+function awaitReply(session: PythonSessionState, id: number, timeoutMs?: number): Promise<KernelReply | null> {
+  if (session.exited) return Promise.resolve(null);
+  return new Promise((resolveReply) => {
+    const timer = timeoutMs === undefined
+      ? undefined
+      : setTimeout(() => {
+        session.waiters.delete(id);
+        resolveReply(null);
+      }, timeoutMs);
+    session.waiters.set(id, (reply) => {
+      if (timer) clearTimeout(timer);
+      resolveReply(reply);
+    });
+  });
+}
+
+async function sendRequest(
+  session: PythonSessionState,
+  request: Record<string, unknown>,
+  timeoutMs?: number,
+): Promise<KernelReply | null> {
+  const id = session.nextRequestId;
+  session.nextRequestId += 1;
+  const reply = awaitReply(session, id, timeoutMs);
+  writeLine(session, { ...request, id });
+  return await reply;
+}
+
+function writeLine(session: PythonSessionState, payload: Record<string, unknown>): void {
+  if (!session.exited && !session.child.stdin.destroyed) {
+    session.child.stdin.write(`${JSON.stringify(payload)}\n`);
+  }
+}
+
+async function terminate(session: PythonSessionState): Promise<void> {
+  if (!session.exited) {
+    session.child.stdin.end();
+    session.child.kill("SIGTERM");
+    await Promise.race([session.closePromise, sleep(STOP_GRACE_MS)]);
+    if (!session.exited) {
+      session.child.kill("SIGKILL");
+      await Promise.race([session.closePromise, sleep(STOP_GRACE_MS)]);
+    }
+  }
+}
+
+async function collectNewArtifacts(session: PythonSessionState): Promise<string[]> {
+  const paths = await listFilesRecursive(session.artifactDir).catch(() => []);
+  const changed: string[] = [];
+  for (const path of paths) {
+    const info = await stat(path).catch(() => null);
+    if (!info) continue;
+    if (session.artifactVersions.get(path) !== info.mtimeMs) changed.push(path);
+    session.artifactVersions.set(path, info.mtimeMs);
+  }
+  return changed;
+}
+
+function execErrorMessage(status: PythonSessionExecResult["status"], timeoutMs: number): string | null {
+  switch (status) {
+    case "timed_out":
+      return `Python session call exceeded ${timeoutMs}ms and was interrupted.`;
+    case "cancelled":
+      return "Python session call was interrupted because the run was cancelled.";
+    case "exited":
+      return "Python session exited while running the call; its variables are gone.";
+    default:
+      return null;
+  }
+}
+
+function snapshot(session: PythonSessionState): PythonSessionSnapshot {
+  return {
+    sessionId: session.id,
+    scope: session.scope,
+    running: !session.exited,
+    busy: session.busy,
+    interpreter: session.interpreter,
+    ...(session.pythonVersion ? { pythonVersion: session.pythonVersion } : {}),
+    cwd: session.cwd,
+    sessionDir: session.sessionDir,
+    artifactDir: session.artifactDir,
+    createdAt: session.createdAt,
+    lastActiveAt: session.lastActiveAt,
+    idleTimeoutMs: session.idleTimeoutMs,
+    memoryBytes: session.memoryBytes,
+    execCount: session.execCount,
+    exitCode: session.exitCode,
+    signal: session.signal,
+    sandbox: session.sandbox.report,
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolveSleep) => {
+    setTimeout(resolveSleep, ms);
+  });
+}
@@ -298,3 +298,84 @@ export function validatePythonExecuteInput(
     targets,
   };
 }
+
+export interface PythonSessionStartInput {
+  scope: "run" | "workstream";
+  cwd?: string;
+  idleTimeoutMs?: number;
+  memoryMb?: number;
+  inputFiles?: string[];
+  sqliteDbPaths?: string[];
+}
+
+export interface PythonSessionExecInput {
+  sessionId: string;
+  code: string;
+  timeoutMs?: number;
+  maxOutputChars?: number;
+}
+
+export interface PythonSessionRefInput {
+  sessionId: string;
+}
+
+export function validatePythonSessionStartInput(input: unknown): PythonSessionStartInput | ToolResult {
+  if (!isPlainObject(input)) {
+    return { ok: false, error: "Invalid input: expected object." };
+  }
+  const scope = input["scope"] ?? "run";
+  if (scope !== "run" && scope !== "workstream") {
+    return { ok: false, error: "Invalid input: scope must be run or workstream." };
+  }
+  const cwd = readOptionalString(input, "cwd");
+  if (typeof cwd === "object") return cwd;
+  const absoluteCwd = cwd === undefined ? undefined : absolutePath(cwd, "cwd");
+  if (absoluteCwd !== undefined && typeof absoluteCwd !== "string") return absoluteCwd;
+  const idleTimeoutMs = readOptionalNumber(input, "idleTimeoutMs");
+  if (typeof idleTimeoutMs === "object") return idleTimeoutMs;
+  const memoryMb = readOptionalNumber(input, "memoryMb");
+  if (typeof memoryMb === "object") return memoryMb;
+  const inputFiles = readOptionalStringArray(input, "inputFiles");
+  if (isToolResult(inputFiles)) return inputFiles;
+  const sqliteDbPaths = readOptionalStringArray(input, "sqliteDbPaths");
+  if (isToolResult(sqliteDbPaths)) return sqliteDbPaths;
+  const absoluteInputFiles = absolutePaths(inputFiles, "inputFiles");
+  if (isToolResult(absoluteInputFiles)) return absoluteInputFiles;
+  const absoluteSqliteDbPaths = absolutePaths(sqliteDbPaths, "sqliteDbPaths");
+  if (isToolResult(absoluteSqliteDbPaths)) return absoluteSqliteDbPaths;
+
+  return {
+    scope,
+    cwd: absoluteCwd,
+    idleTimeoutMs,
+    memoryMb,
+    inputFiles: absoluteInputFiles,
+    sqliteDbPaths: absoluteSqliteDbPaths,
+  };
+}
+
+export function validatePythonSessionExecInput(input: unknown): PythonSessionExecInput | ToolResult {
+  const ref = validatePythonSessionRefInput(input);
+  if ("ok" in ref) return ref;
+  const obj = input as Record<string, unknown>;
+  if (typeof obj["code"] !== "string" || obj["code"].trim().length === 0) {
+    return { ok: false, error: "Invalid input: code must be a non-empty string." };
+  }
+  const timeoutMs = readOptionalNumber(obj, "timeoutMs");
+  if (typeof timeoutMs === "object") return timeoutMs;
+  const maxOutputChars = readOptionalNumber(obj, "maxOutputChars");
+  if (typeof maxOutputChars === "object") return maxOutputChars;
+  return { sessionId: ref.sessionId, code: obj["code"], timeoutMs, maxOutputChars };
+}
+
+export function validatePythonSessionRefInput(input: unknown): PythonSessionRefInput | ToolResult {
+  if (!isPlainObject(input)) {
+    return { ok: false, error: "Invalid input: expected object." };
+  }
+  const sessionId = readOptionalString(input, "sessionId");
+  if (typeof sessionId === "object") return sessionId;
+  if (!sessionId) {
+    return { ok: false, error: "Invalid input: sessionId is required." };
+  }
+  return { sessionId };
+}
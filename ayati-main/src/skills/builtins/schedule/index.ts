@@ -0,0 +1,320 @@
+import type { ContextEngineService, WorkstreamBinding } from "ayati-context-engine";
+import type { ScheduleRecord, SchedulerRuntime } from "../../../scheduler/index.js";
+import { getNowSnapshot } from "../system/time.js";
+import type {
+  JsonSchema,
+  SkillDefinition,
+  ToolDefinition,
+  ToolExecutionContext,
+  ToolResult,
+} from "../../types.js";
+import {
+  commonAnnotations,
+  errorResult,
+  okJsonResult,
+  succeededContract,
+} from "../contract-helpers.js";
+
+const WORKSTREAM_ID_PATTERN = /^W-\d{8}-\d{4}$/;
+const RECENT_FIRES_PER_SCHEDULE = 3;
+const MAX_APPROVED_TOOLS = 20;
+const MAX_TOOL_NAME_CHARS = 120;
+
+export interface ScheduleSkillDeps {
+  scheduler: Pick<SchedulerRuntime, "createSchedule" | "listSchedules" | "cancelSchedule" | "getSchedule" | "recentFires">;
+  service: ContextEngineService;
+}
+
+export function createScheduleSkill(deps: ScheduleSkillDeps): SkillDefinition {
+  return {
+    id: "schedule",
+    version: "1.0.0",
+    description: "Schedule one-shot or recurring runs that Ayati starts on its own and reports as notifications.",
+    tools: [scheduleCreateTool(deps), scheduleListTool(deps), scheduleCancelTool(deps)],
+  };
+}
+
+const scheduleSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    scheduleId: { type: "string" },
+    name: { type: "string" },
+    kind: { type: "string", enum: ["cron", "once"] },
+    cron: { type: "string" },
+    at: { type: "string" },
+    timezone: { type: "string" },
+    workstreamId: { type: "string" },
+    requestId: { type: "string" },
+    approvedTools: { type: "array", items: { type: "string" } },
+    status: { type: "string" },
+    nextFireAt: { type: "string" },
+    nextFireLocal: { type: "string" },
+    lastFiredAt: { type: "string" },
+  },
+  required: ["scheduleId", "name", "kind", "timezone", "status"],
+};
+
+function scheduleCreateTool(deps: ScheduleSkillDeps): ToolDefinition {
+  return {
+    name: "schedule_create",
+    description:
+      "Schedule Ayati to run a prompt later, once (at) or on a cron schedule, for the bound workstream. "
+      + "Each fire starts a new run bound to that workstream; its final message is delivered to the user as a notification. "
+      + "Nobody can approve tool calls during a scheduled run, so list any approval-gated tools it needs in approvedTools; "
+      + "the user approves that list now.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Short label shown in notifications, such as \"Morning inbox digest\"." },
+        prompt: {
+          type: "string",
+          description: "Instruction for the future run. Write it so it makes sense without this conversation.",
+        },
+        cron: {
+          type: "string",
+          description: "Recurring: five-field cron (minute hour day-of-month month day-of-week) or @hourly/@daily/@weekly/@monthly.",
+        },
+        at: {
+          type: "string",
+          description: "One-shot: ISO date-time. Without an offset it is read in the schedule's timezone.",
+        },
+        timezone: { type: "string", description: "IANA time zone; defaults to the user's configured zone." },
+        workstreamId: {
+          type: "string",
+          description: "Workstream the runs continue; defaults to the workstream bound to this run.",
+        },
+        approvedTools: {
+          type: "array",
+          items: { type: "string" },
+          maxItems: MAX_APPROVED_TOOLS,
+          description: "Approval-gated tools, such as process_run, that every scheduled run may use without asking.",
+        },
+      },
+      required: ["name", "prompt"],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: "object",
+      properties: { schedule: scheduleSchema },
+      required: ["schedule"],
+    },
+    annotations: scheduleAnnotations(false),
+    approvalReason: (input) => readApprovedTools(asRecord(input)?.["approvedTools"])?.length ? "external_effect" : undefined,
+    resultContract: succeededContract({
+      assertions: [{ id: "schedule_created", kind: "json_path_exists", path: "$.result.structuredContent.schedule.scheduleId" }],
+      progressFacts: [{
+        kind: "schedule_created",
+        path: "$.result.structuredContent.schedule.scheduleId",
+        message: "A schedule was created.",
+      }],
+    }),
+    async execute(input, context): Promise<ToolResult> {
+      const value = asRecord(input);
+      const name = readString(value?.["name"]);
+      const prompt = readString(value?.["prompt"]);
+      if (!value || !name || !prompt) {
+        return validationError("SCHEDULE_INPUT_INVALID", "name and prompt are required.");
+      }
+      const requestedWorkstreamId = readString(value["workstreamId"])?.toUpperCase();
+      if (requestedWorkstreamId && !WORKSTREAM_ID_PATTERN.test(requestedWorkstreamId)) {
+        return validationError("SCHEDULE_INPUT_INVALID", "workstreamId must look like W-20260101-0001.");
+      }
+      const approvedTools = readApprovedTools(value["approvedTools"]);
+      if (!approvedTools) {
+        return validationError(
+          "SCHEDULE_INPUT_INVALID",
+          `approvedTools must list at most ${MAX_APPROVED_TOOLS} tool names.`,
+        );
+      }
+      try {
+        const binding = await currentBinding(deps.service, context);
+        const workstreamId = requestedWorkstreamId ?? binding?.workstreamId;
+        if (!workstreamId) {
+          return validationError(
+            "SCHEDULE_WORKSTREAM_REQUIRED",
+            "A schedule needs a workstream; bind one first or pass workstreamId.",
+          );
+        }
+        if (workstreamId !== binding?.workstreamId) {
+          await deps.service.getWorkstream({ workstreamId });
+        }
+        const schedule = deps.scheduler.createSchedule({
+          name,
+          prompt,
+          ...(readString(value["cron"]) ? { cron: readString(value["cron"]) } : {}),
+          ...(readString(value["at"]) ? { at: readString(value["at"]) } : {}),
+          ...(readString(value["timezone"]) ? { timezone: readString(value["timezone"]) } : {}),
+          workstreamId,
+          ...(binding && binding.workstreamId === workstreamId ? { requestId: binding.requestId } : {}),
+          ...(approvedTools.length > 0 ? { approvedTools } : {}),
+          ...(context?.runId ? { createdByRunId: context.runId } : {}),
+        });
+        const projected = projectSchedule(schedule);
+        return okJsonResult({
+          code: "SCHEDULE_CREATED",
+          message: `Scheduled "${schedule.name}" (${schedule.scheduleId}); next run ${projected.nextFireLocal ?? "never"}.`,
+          structuredContent: { schedule: projected },
+        });
+      } catch (error) {
+        return validationError("SCHEDULE_CREATE_FAILED", errorMessage(error));
+      }
+    },
+  };
+}
+
+function scheduleListTool(deps: ScheduleSkillDeps): ToolDefinition {
+  return {
+    name: "schedule_list",
+    description: "List scheduled runs with their next fire time and most recent results.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        workstreamId: { type: "string", description: "Only schedules that continue this workstream." },
+        includeInactive: { type: "boolean", description: "Also list completed and cancelled schedules." },
+      },
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        schedules: { type: "array", items: scheduleSchema },
+      },
+      required: ["schedules"],
+    },
+    annotations: scheduleAnnotations(true),
+    observationPolicy: { outputImportance: "decision_context", rawStorage: "never" },
+    resultContract: succeededContract({
+      assertions: [{ id: "schedules_listed", kind: "json_path_exists", path: "$.result.structuredContent.schedules" }],
+    }),
+    async execute(input): Promise<ToolResult> {
+      const value = asRecord(input) ?? {};
+      const workstreamId = readString(value["workstreamId"])?.toUpperCase();
+      const schedules = deps.scheduler.listSchedules({
+        ...(workstreamId ? { workstreamId } : {}),
+        ...(value["includeInactive"] === true ? {} : { statuses: ["active"] }),
+      }).map((schedule) => ({
+        ...projectSchedule(schedule),
+        recentFires: deps.scheduler.recentFires(schedule.scheduleId, RECENT_FIRES_PER_SCHEDULE).map((fire) => ({
+          scheduledFor: fire.scheduledFor,
+          status: fire.status,
+          ...(fire.runId ? { runId: fire.runId } : {}),
+          ...(fire.detail ? { detail: fire.detail } : {}),
+        })),
+      }));
+      return okJsonResult({
+        code: "SCHEDULES_LISTED",
+        message: schedules.length === 0 ? "No schedules match." : `${schedules.length} schedule(s).`,
+        structuredContent: { schedules },
+      });
+    },
+  };
+}
+
+function scheduleCancelTool(deps: ScheduleSkillDeps): ToolDefinition {
+  return {
+    name: "schedule_cancel",
+    description: "Cancel a schedule so it never fires again. Runs already in progress are not stopped.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        scheduleId: { type: "string", description: "Schedule id from schedule_list or schedule_create." },
+      },
+      required: ["scheduleId"],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: "object",
+      properties: { schedule: scheduleSchema },
+      required: ["schedule"],
+    },
+    annotations: { ...scheduleAnnotations(false), idempotent: true, retrySafe: true },
+    resultContract: succeededContract({
+      assertions: [{ id: "schedule_cancelled", kind: "json_path_exists", path: "$.result.structuredContent.schedule.status" }],
+    }),
+    async execute(input): Promise<ToolResult> {
+      const scheduleId = readString(asRecord(input)?.["scheduleId"]);
+      if (!scheduleId) {
+        return validationError("SCHEDULE_INPUT_INVALID", "scheduleId is required.");
+      }
+      if (!deps.scheduler.getSchedule(scheduleId)) {
+        return errorResult({
+          code: "SCHEDULE_NOT_FOUND",
+          message: `Schedule ${scheduleId} does not exist.`,
+          category: "semantic",
+          target: scheduleId,
+          suggestedNextActions: ["Use schedule_list to find the schedule id."],
+        });
+      }
+      const schedule = deps.scheduler.cancelSchedule(scheduleId);
+      return okJsonResult({
+        code: "SCHEDULE_CANCELLED",
+        message: `Schedule "${schedule.name}" is ${schedule.status}.`,
+        structuredContent: { schedule: projectSchedule(schedule) },
+      });
+    },
+  };
+}
+
+function projectSchedule(schedule: ScheduleRecord): Record<string, unknown> & { nextFireLocal?: string } {
+  const nextFireLocal = schedule.nextFireAt ? localTime(schedule.nextFireAt, schedule.timezone) : undefined;
+  return {
+    scheduleId: schedule.scheduleId,
+    name: schedule.name,
+    kind: schedule.kind,
+    ...(schedule.cron ? { cron: schedule.cron } : {}),
+    ...(schedule.runAt ? { at: schedule.runAt } : {}),
+    timezone: schedule.timezone,
+    ...(schedule.workstreamId ? { workstreamId: schedule.workstreamId } : {}),
+    ...(schedule.requestId ? { requestId: schedule.requestId } : {}),
+    ...(schedule.approvedTools.length > 0 ? { approvedTools: schedule.approvedTools } : {}),
+    status: schedule.status,
+    ...(schedule.nextFireAt ? { nextFireAt: schedule.nextFireAt } : {}),
+    ...(nextFireLocal ? { nextFireLocal } : {}),
+    ...(schedule.lastFiredAt ? { lastFiredAt: schedule.lastFiredAt } : {}),
+  };
+}
+
+function localTime(iso: string, timezone: string): string {
+  const snapshot = getNowSnapshot(new Date(iso), timezone);
+  return `${snapshot.localDate} ${snapshot.localTime.slice(0, 5)} ${timezone}`;
+}
+
+async function currentBinding(
+  service: ContextEngineService,
+  context: ToolExecutionContext | undefined,
+): Promise<WorkstreamBinding | undefined> {
+  const streamId = context?.sessionId?.trim();
+  const runId = context?.runId?.trim();
+  if (!streamId || !runId) return undefined;
+  const active = await service.getAgentContext({ streamId });
+  return active.run?.run.runId === runId ? active.run.run.workstreamBinding : undefined;
+}
+
+function scheduleAnnotations(readOnly: boolean) {
+  return commonAnnotations({ domain: "schedule", readOnly });
+}
+
+function validationError(code: string, message: string): ToolResult {
+  return errorResult({ code, message, category: "validation" });
+}
+
+/** Returns the trimmed tool names, or undefined when the list is malformed. */
+function readApprovedTools(value: unknown): string[] | undefined {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_APPROVED_TOOLS) return undefined;
+  const tools = value.map((tool) => readString(tool));
+  if (tools.some((tool) => !tool || tool.length > MAX_TOOL_NAME_CHARS)) return undefined;
+  return [...new Set(tools as string[])];
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : undefined;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
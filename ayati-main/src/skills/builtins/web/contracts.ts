@@ -0,0 +1,110 @@
+import type { ResourceAvailability } from "ayati-context-engine";
+import type { ToolErrorCategory } from "../../types.js";
+
+export const WEB_USER_AGENT = "Ayati/1.0 (+robots-aware personal agent)";
+/** Product token matched against robots.txt user-agent groups. */
+export const WEB_ROBOTS_AGENT = "ayati";
+
+export const DEFAULT_WEB_MAX_BYTES = 5 * 1024 * 1024;
+export const DEFAULT_WEB_TIMEOUT_MS = 20_000;
+export const MAX_WEB_REDIRECTS = 5;
+export const MAX_ROBOTS_BYTES = 512 * 1024;
+export const ROBOTS_CACHE_TTL_MS = 60 * 60 * 1000;
+
+export const DEFAULT_WEB_MAX_CHARS = 20_000;
+export const MAX_WEB_MAX_CHARS = 100_000;
+export const MAX_WEB_LINKS = 50;
+
+export type WebFetchMethod = "GET" | "HEAD";
+
+export type WebFetchErrorCode =
+  | "WEB_URL_INVALID"
+  | "WEB_DOMAIN_NOT_ALLOWED"
+  | "WEB_ROBOTS_DISALLOWED"
+  | "WEB_TOO_MANY_REDIRECTS"
+  | "WEB_RESPONSE_TOO_LARGE"
+  | "WEB_TIMEOUT"
+  | "WEB_CANCELLED"
+  | "WEB_FETCH_FAILED";
+
+export interface WebResponseHeaders {
+  mediaType?: string;
+  charset?: string;
+  etag?: string;
+  lastModified?: string;
+  contentLength?: number;
+}
+
+export interface WebFetchResponse {
+  /** Requested URL without its fragment. */
+  url: string;
+  finalUrl: string;
+  status: number;
+  redirects: string[];
+  headers: WebResponseHeaders;
+  /** Absent for HEAD requests and 304 revalidations. */
+  body?: Uint8Array;
+}
+
+/** Previously cached bytes for a URL, offered to the origin for revalidation. */
+export interface WebCachedVersion {
+  sha256: string;
+  storedPath: string;
+  etag?: string;
+  lastModified?: string;
+  mediaType?: string;
+}
+
+export interface WebResourceProjection {
+  resourceId: string;
+  availability: ResourceAvailability;
+  versionKey: string;
+}
+
+export interface WebPage {
+  url: string;
+  finalUrl: string;
+  status: number;
+  redirects: string[];
+  mediaType?: string;
+  charset?: string;
+  etag?: string;
+  lastModified?: string;
+  sizeBytes: number;
+  sha256?: string;
+  fromCache: boolean;
+  body?: Uint8Array;
+  resource?: WebResourceProjection;
+  warnings: string[];
+}
+
+export class WebFetchError extends Error {
+  constructor(
+    readonly code: WebFetchErrorCode,
+    message: string,
+    readonly target?: string,
+  ) {
+    super(message);
+    this.name = "WebFetchError";
+  }
+
+  get category(): ToolErrorCategory {
+    switch (this.code) {
+      case "WEB_URL_INVALID":
+        return "validation";
+      case "WEB_DOMAIN_NOT_ALLOWED":
+      case "WEB_ROBOTS_DISALLOWED":
+        return "permission";
+      case "WEB_TIMEOUT":
+        return "timeout";
+      case "WEB_FETCH_FAILED":
+        return "transient";
+      default:
+        return "semantic";
+    }
+  }
+
+  get retryable(): boolean {
+    return this.code === "WEB_TIMEOUT" || this.code === "WEB_FETCH_FAILED";
+  }
+}
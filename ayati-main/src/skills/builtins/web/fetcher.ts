@@ -0,0 +1,245 @@
+import {
+  MAX_ROBOTS_BYTES,
+  MAX_WEB_REDIRECTS,
+  WEB_USER_AGENT,
+  WebFetchError,
+  type WebFetchMethod,
+  type WebFetchResponse,
+  type WebResponseHeaders,
+} from "./contracts.js";
+import {
+  requireAllowedWebUrl,
+  requirePublicWebAddress,
+  resolveWebHost,
+  type WebFetchPolicy,
+  type WebHostResolver,
+} from "./policy.js";
+import { RobotsCache } from "./robots.js";
+
+export type FetchLike = (input: URL, init: RequestInit) => Promise<Response>;
+
+export interface WebFetcherOptions {
+  policy: WebFetchPolicy;
+  fetch?: FetchLike;
+  resolveHost?: WebHostResolver;
+}
+
+export interface WebFetchRequest {
+  url: string;
+  method: WebFetchMethod;
+  signal?: AbortSignal;
+  /** Validators from a cached copy; a 304 answer is returned without a body. */
+  ifNoneMatch?: string;
+  ifModifiedSince?: string;
+}
+
+/**
+ * Bounded HTTP client for the web skill. Every request and redirect hop, including robots.txt
+ * loads, is re-checked against the domain policy and the host's resolved addresses; page hops
+ * also honour robots.txt. Bodies larger than the configured limit are refused, not truncated.
+ */
+export class WebFetcher {
+  private readonly policy: WebFetchPolicy;
+  private readonly fetchImpl: FetchLike;
+  private readonly robots: RobotsCache;
+  private readonly resolveHost: WebHostResolver;
+
+  constructor(options: WebFetcherOptions) {
+    this.policy = options.policy;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.resolveHost = options.resolveHost ?? resolveWebHost;
+    this.robots = new RobotsCache(async (robotsUrl) => await this.loadRobots(robotsUrl));
+  }
+
+  async fetch(request: WebFetchRequest): Promise<WebFetchResponse> {
+    const requested = requireAllowedWebUrl(request.url, this.policy);
+    const signal = request.signal
+      ? AbortSignal.any([request.signal, AbortSignal.timeout(this.policy.timeoutMs)])
+      : AbortSignal.timeout(this.policy.timeoutMs);
+    const redirects: string[] = [];
+    let current = requested;
+
+    for (;;) {
+      await requirePublicWebAddress(current, this.policy, this.resolveHost);
+      await this.requireRobotsAllowed(current);
+      const response = await this.send(current, {
+        method: request.method,
+        redirect: "manual",
+        signal,
+        headers: {
+          "user-agent": WEB_USER_AGENT,
+          accept: "text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.8",
+          ...(request.ifNoneMatch ? { "if-none-match": request.ifNoneMatch } : {}),
+          ...(request.ifModifiedSince ? { "if-modified-since": request.ifModifiedSince } : {}),
+        },
+      }, request.signal);
+      const location = response.headers.get("location");
+      if (isRedirect(response.status) && location) {
+        await response.body?.cancel().catch(() => undefined);
+        if (redirects.length >= MAX_WEB_REDIRECTS) {
+          throw new WebFetchError(
+            "WEB_TOO_MANY_REDIRECTS",
+            `Stopped after ${MAX_WEB_REDIRECTS} redirects.`,
+            requested.toString(),
+          );
+        }
+        current = requireAllowedWebUrl(new URL(location, current).toString(), this.policy);
+        redirects.push(current.toString());
+        continue;
+      }
+      const headers = readHeaders(response.headers);
+      const body = request.method === "GET" && response.status !== 304
+        ? await readBoundedBody(response, this.policy.maxBytes, current.toString(), request.signal)
+        : undefined;
+      if (!body) await response.body?.cancel().catch(() => undefined);
+      return {
+        url: requested.toString(),
+        finalUrl: current.toString(),
+        status: response.status,
+        redirects,
+        headers,
+        ...(body ? { body } : {}),
+      };
+    }
+  }
+
+  private async requireRobotsAllowed(url: URL): Promise<void> {
+    if (!this.policy.respectRobots) return;
+    const decision = await this.robots.check(url);
+    if (decision === "allowed") return;
+    throw new WebFetchError(
+      "WEB_ROBOTS_DISALLOWED",
+      decision === "disallowed"
+        ? `robots.txt for ${url.origin} disallows ${url.pathname}.`
+        : `robots.txt for ${url.origin} could not be read, so the site is treated as disallowed.`,
+      url.toString(),
+    );
+  }
+
+  /** A hop the policy refuses throws, which the robots cache treats as unreadable and so disallowed. */
+  private async loadRobots(robotsUrl: URL): Promise<{ status: number; text?: string }> {
+    const signal = AbortSignal.timeout(this.policy.timeoutMs);
+    let current = requireAllowedWebUrl(robotsUrl.toString(), this.policy);
+    for (let redirects = 0; ; redirects++) {
+      await requirePublicWebAddress(current, this.policy, this.resolveHost);
+      const response = await this.send(current, {
+        method: "GET",
+        redirect: "manual",
+        signal,
+        headers: { "user-agent": WEB_USER_AGENT, accept: "text/plain" },
+      });
+      const location = response.headers.get("location");
+      if (isRedirect(response.status) && location) {
+        await response.body?.cancel().catch(() => undefined);
+        if (redirects >= MAX_WEB_REDIRECTS) {
+          throw new WebFetchError(
+            "WEB_TOO_MANY_REDIRECTS",
+            `Stopped after ${MAX_WEB_REDIRECTS} robots.txt redirects.`,
+            robotsUrl.toString(),
+          );
+        }
+        current = requireAllowedWebUrl(new URL(location, current).toString(), this.policy);
+        continue;
+      }
+      if (response.status < 200 || response.status >= 300) {
+        await response.body?.cancel().catch(() => undefined);
+        return { status: response.status };
+      }
+      const bytes = await readBoundedBody(response, MAX_ROBOTS_BYTES, current.toString());
+      return { status: response.status, text: new TextDecoder().decode(bytes) };
+    }
+  }
+
+  private async send(url: URL, init: RequestInit, cancelSignal?: AbortSignal): Promise<Response> {
+    try {
+      return await this.fetchImpl(url, init);
+    } catch (error) {
+      throw translateFetchError(error, url.toString(), cancelSignal);
+    }
+  }
+}
+
+async function readBoundedBody(
+  response: Response,
+  maxBytes: number,
+  target: string,
+  cancelSignal?: AbortSignal,
+): Promise<Uint8Array> {
+  const declared = Number(response.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    await response.body?.cancel().catch(() => undefined);
+    throw tooLarge(maxBytes, target);
+  }
+  if (!response.body) return new Uint8Array();
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      total += value.byteLength;
+      if (total > maxBytes) {
+        await reader.cancel().catch(() => undefined);
+        throw tooLarge(maxBytes, target);
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    if (error instanceof WebFetchError) throw error;
+    throw translateFetchError(error, target, cancelSignal);
+  }
+  const body = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+function readHeaders(headers: Headers): WebResponseHeaders {
+  const contentType = headers.get("content-type") ?? "";
+  const [mediaType, ...parameters] = contentType.split(";").map((part) => part.trim());
+  const charset = parameters
+    .find((parameter) => parameter.toLowerCase().startsWith("charset="))
+    ?.slice("charset=".length)
+    .replace(/^"|"$/g, "");
+  const contentLength = Number(headers.get("content-length"));
+  const etag = headers.get("etag");
+  const lastModified = headers.get("last-modified");
+  return {
+    ...(mediaType ? { mediaType: mediaType.toLowerCase() } : {}),
+    ...(charset ? { charset: charset.toLowerCase() } : {}),
+    ...(etag ? { etag } : {}),
+    ...(lastModified ? { lastModified } : {}),
+    ...(headers.has("content-length") && Number.isInteger(contentLength) && contentLength >= 0
+      ? { contentLength }
+      : {}),
+  };
+}
+
+function isRedirect(status: number): boolean {
+  return status === 301 || status === 302 || status === 303 || status === 307 || status === 308;
+}
+
+function tooLarge(maxBytes: number, target: string): WebFetchError {
+  return new WebFetchError(
+    "WEB_RESPONSE_TOO_LARGE",
+    `Response exceeds the ${maxBytes}-byte web fetch limit.`,
+    target,
+  );
+}
+
+function translateFetchError(error: unknown, target: string, cancelSignal?: AbortSignal): WebFetchError {
+  if (cancelSignal?.aborted) {
+    return new WebFetchError("WEB_CANCELLED", "The web request was cancelled with its run.", target);
+  }
+  const name = error instanceof Error ? error.name : "";
+  if (name === "TimeoutError" || name === "AbortError") {
+    return new WebFetchError("WEB_TIMEOUT", `Timed out fetching ${target}.`, target);
+  }
+  const cause = error instanceof Error && error.cause instanceof Error ? `: ${error.cause.message}` : "";
+  const message = error instanceof Error ? error.message : String(error);
+  return new WebFetchError("WEB_FETCH_FAILED", `Fetching ${target} failed (${message}${cause}).`, target);
+}
@@ -0,0 +1,512 @@
+import type { ContextEngineService, ManagedResourceStore } from "ayati-context-engine";
+import type {
+  JsonSchema,
+  SkillDefinition,
+  ToolDefinition,
+  ToolErrorCategory,
+  ToolExecutionContext,
+  ToolResult,
+} from "../../types.js";
+import {
+  commonAnnotations,
+  errorResult,
+  errorResultFromUnknown,
+  okJsonResult,
+  succeededContract,
+} from "../contract-helpers.js";
+import {
+  DEFAULT_WEB_MAX_CHARS,
+  MAX_WEB_MAX_CHARS,
+  WebFetchError,
+  type WebFetchMethod,
+  type WebPage,
+} from "./contracts.js";
+import { WebFetcher, type FetchLike } from "./fetcher.js";
+import { loadWebPage, type WebPageLoaderDeps } from "./page-loader.js";
+import type { WebFetchPolicy, WebHostResolver } from "./policy.js";
+import { extractReadable } from "./readable.js";
+
+export interface WebSkillDeps {
+  service: ContextEngineService;
+  resourceStore: ManagedResourceStore;
+  policy: WebFetchPolicy;
+  fetch?: FetchLike;
+  resolveHost?: WebHostResolver;
+}
+
+export function createWebSkill(deps: WebSkillDeps): SkillDefinition {
+  const loader: WebPageLoaderDeps = {
+    fetcher: new WebFetcher({
+      policy: deps.policy,
+      ...(deps.fetch ? { fetch: deps.fetch } : {}),
+      ...(deps.resolveHost ? { resolveHost: deps.resolveHost } : {}),
+    }),
+    service: deps.service,
+    resourceStore: deps.resourceStore,
+  };
+  return {
+    id: "web",
+    version: "1.0.0",
+    description: "Fetch public web pages within size, time, robots, and domain policy.",
+    tools: [webHeadTool(loader), webFetchTool(loader), webExtractReadableTool(loader)],
+  };
+}
+
+const urlProperty: JsonSchema = {
+  type: "string",
+  description: "Absolute http or https URL.",
+};
+
+const maxCharsProperty: JsonSchema = {
+  type: "integer",
+  minimum: 1,
+  maximum: MAX_WEB_MAX_CHARS,
+  description: `Maximum characters of text to return (default ${DEFAULT_WEB_MAX_CHARS}).`,
+};
+
+const resourceSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    resourceId: { type: "string" },
+    availability: { type: "string" },
+    versionKey: { type: "string" },
+  },
+  required: ["resourceId", "availability", "versionKey"],
+  additionalProperties: false,
+};
+
+function webHeadTool(loader: WebPageLoaderDeps): ToolDefinition {
+  return {
+    name: "web_head",
+    description:
+      "Check whether a URL is reachable and read its status, media type, size, and version headers without downloading the body.",
+    inputSchema: {
+      type: "object",
+      properties: { url: urlProperty },
+      required: ["url"],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string" },
+        finalUrl: { type: "string" },
+        status: { type: "integer" },
+        available: { type: "boolean" },
+        redirects: { type: "array", items: { type: "string" } },
+        mediaType: { type: "string" },
+        sizeBytes: { type: "integer" },
+        etag: { type: "string" },
+        lastModified: { type: "string" },
+        resource: resourceSchema,
+        warnings: { type: "array", items: { type: "string" } },
+      },
+      required: ["url", "finalUrl", "status", "available", "redirects", "warnings"],
+      additionalProperties: false,
+    },
+    annotations: webAnnotations(),
+    observationPolicy: { outputImportance: "operation_summary", rawStorage: "never" },
+    resultContract: succeededContract({
+      assertions: [{ id: "web_head_status_returned", kind: "json_path_exists", path: "$.result.structuredContent.status" }],
+    }),
+    async execute(input, context): Promise<ToolResult> {
+      return await runWebTool(loader, input, context, "HEAD", (page) => {
+        const available = page.status < 400;
+        return {
+          code: "WEB_HEAD_SUCCEEDED",
+          message: `${page.url} answered HTTP ${page.status}.`,
+          structuredContent: {
+            ...pageSummary(page),
+            available,
+            ...(page.sizeBytes > 0 ? { sizeBytes: page.sizeBytes } : {}),
+          },
+          // A HEAD reports availability, so an error status is still a successful observation.
+          httpFailure: false,
+        };
+      });
+    },
+  };
+}
+
+function webFetchTool(loader: WebPageLoaderDeps): ToolDefinition {
+  return {
+    name: "web_fetch",
+    description:
+      "Download one URL and return its decoded text (or a binary summary) with status and version metadata. "
+      + "The body is cached so repeated fetches revalidate instead of re-downloading. "
+      + "Use web_extract_readable instead when only an HTML page's main article text is needed.",
+    inputSchema: {
+      type: "object",
+      properties: { url: urlProperty, maxChars: maxCharsProperty },
+      required: ["url"],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string" },
+        finalUrl: { type: "string" },
+        status: { type: "integer" },
+        redirects: { type: "array", items: { type: "string" } },
+        mediaType: { type: "string" },
+        charset: { type: "string" },
+        etag: { type: "string" },
+        lastModified: { type: "string" },
+        sizeBytes: { type: "integer" },
+        sha256: { type: "string" },
+        fromCache: { type: "boolean" },
+        binary: { type: "boolean" },
+        text: { type: "string" },
+        truncated: { type: "boolean" },
+        resource: resourceSchema,
+        warnings: { type: "array", items: { type: "string" } },
+      },
+      required: ["url", "finalUrl", "status", "redirects", "sizeBytes", "fromCache", "binary", "truncated", "warnings"],
+      additionalProperties: false,
+    },
+    annotations: webAnnotations(),
+    observationPolicy: {
+      outputImportance: "decision_context",
+      rawStorage: "when_truncated",
+      maxObservationChars: MAX_WEB_MAX_CHARS,
+    },
+    resultContract: succeededContract({
+      assertions: [{ id: "web_fetch_body_hashed", kind: "json_path_exists", path: "$.result.structuredContent.sha256" }],
+    }),
+    async execute(input, context): Promise<ToolResult> {
+      const maxChars = readMaxChars(input);
+      return await runWebTool(loader, input, context, "GET", (page) => {
+        const text = page.body && isTextual(page.mediaType, page.body)
+          ? decodeText(page.body, page.charset)
+          : undefined;
+        const truncated = text !== undefined && text.length > maxChars;
+        return {
+          code: "WEB_FETCH_SUCCEEDED",
+          message: `Fetched ${page.sizeBytes} bytes from ${page.finalUrl}${page.fromCache ? " (unchanged, served from cache)" : ""}.`,
+          structuredContent: {
+            ...pageSummary(page),
+            ...(page.charset ? { charset: page.charset } : {}),
+            sizeBytes: page.sizeBytes,
+            ...(page.sha256 ? { sha256: page.sha256 } : {}),
+            fromCache: page.fromCache,
+            binary: text === undefined,
+            ...(text !== undefined ? { text: truncated ? text.slice(0, maxChars) : text } : {}),
+            truncated,
+          },
+        };
+      });
+    },
+  };
+}
+
+function webExtractReadableTool(loader: WebPageLoaderDeps): ToolDefinition {
+  return {
+    name: "web_extract_readable",
+    description:
+      "Download an HTML page and return its readable main content as light Markdown with title, headings, and links, "
+      + "leaving out navigation, ads, scripts, and other page chrome. Plain-text responses are returned as-is.",
+    inputSchema: {
+      type: "object",
+      properties: { url: urlProperty, maxChars: maxCharsProperty },
+      required: ["url"],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string" },
+        finalUrl: { type: "string" },
+        status: { type: "integer" },
+        redirects: { type: "array", items: { type: "string" } },
+        mediaType: { type: "string" },
+        etag: { type: "string" },
+        lastModified: { type: "string" },
+        sha256: { type: "string" },
+        fromCache: { type: "boolean" },
+        title: { type: "string" },
+        description: { type: "string" },
+        siteName: { type: "string" },
+        language: { type: "string" },
+        headings: { type: "array", items: { type: "string" } },
+        text: { type: "string" },
+        truncated: { type: "boolean" },
+        links: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { text: { type: "string" }, href: { type: "string" } },
+            required: ["text", "href"],
+            additionalProperties: false,
+          },
+        },
+        resource: resourceSchema,
+        warnings: { type: "array", items: { type: "string" } },
+      },
+      required: ["url", "finalUrl", "status", "redirects", "fromCache", "headings", "text", "truncated", "links", "warnings"],
+      additionalProperties: false,
+    },
+    annotations: webAnnotations(),
+    observationPolicy: {
+      outputImportance: "decision_context",
+      rawStorage: "when_truncated",
+      maxObservationChars: MAX_WEB_MAX_CHARS,
+    },
+    resultContract: succeededContract({
+      assertions: [{ id: "web_readable_text_returned", kind: "json_path_exists", path: "$.result.structuredContent.text" }],
+    }),
+    async execute(input, context): Promise<ToolResult> {
+      const maxChars = readMaxChars(input);
+      return await runWebTool(loader, input, context, "GET", (page) => {
+        if (!page.body || !isTextual(page.mediaType, page.body)) {
+          return {
+            code: "WEB_CONTENT_NOT_TEXT",
+            message: `${page.finalUrl} returned ${page.mediaType ?? "binary"} content, which has no readable text.`,
+            failure: {
+              category: "semantic",
+              suggestedNextActions: ["Use web_fetch to inspect the response metadata, or choose an HTML or text URL."],
+            },
+            structuredContent: pageSummary(page),
+          };
+        }
+        const decoded = decodeText(page.body, page.charset);
+        const readable = isHtml(page.mediaType, decoded)
+          ? extractReadable(decoded, page.finalUrl, maxChars)
+          : {
+              headings: [],
+              text: decoded.slice(0, maxChars),
+              truncated: decoded.length > maxChars,
+              links: [],
+            };
+        return {
+          code: "WEB_EXTRACT_READABLE_SUCCEEDED",
+          message: `Extracted ${readable.text.length} characters of readable text from ${page.finalUrl}.`,
+          structuredContent: {
+            ...pageSummary(page),
+            ...(page.sha256 ? { sha256: page.sha256 } : {}),
+            fromCache: page.fromCache,
+            ...readable,
+          },
+        };
+      });
+    },
+  };
+}
+
+interface WebToolOutcome {
+  code: string;
+  message: string;
+  structuredContent: Record<string, unknown>;
+  /** Set when the response itself is unusable even though the request completed. */
+  failure?: { category: ToolErrorCategory; suggestedNextActions: string[] };
+  /** Whether an HTTP error status fails the tool; defaults to true. */
+  httpFailure?: boolean;
+}
+
+async function runWebTool(
+  loader: WebPageLoaderDeps,
+  input: unknown,
+  context: ToolExecutionContext | undefined,
+  method: WebFetchMethod,
+  project: (page: WebPage) => WebToolOutcome,
+): Promise<ToolResult> {
+  const url = readUrl(input);
+  if (!url) {
+    return errorResult({
+      code: "WEB_INPUT_INVALID",
+      message: "An absolute http or https url is required.",
+      category: "validation",
+      retryable: true,
+      recoverable: true,
+      suggestedNextActions: ["Retry with the full URL, including its scheme."],
+    });
+  }
+  const startedAt = Date.now();
+  let page: WebPage;
+  try {
+    page = await loadWebPage(loader, { url, method, ...(context ? { context } : {}) });
+  } catch (err) {
+    if (err instanceof WebFetchError) {
+      return errorResult({
+        code: err.code,
+        message: err.message,
+        category: err.category,
+        target: err.target ?? url,
+        retryable: err.retryable,
+        recoverable: true,
+        suggestedNextActions: suggestedActionsFor(err),
+        meta: { durationMs: Date.now() - startedAt },
+      });
+    }
+    return errorResultFromUnknown({
+      err,
+      code: "WEB_FETCH_FAILED",
+      fallbackMessage: "Web request failed.",
+      target: url,
+      meta: { durationMs: Date.now() - startedAt },
+    });
+  }
+
+  const meta = {
+    durationMs: Date.now() - startedAt,
+    url: page.url,
+    status: page.status,
+    fromCache: page.fromCache,
+  };
+  const outcome = project(page);
+  if (page.status >= 400 && outcome.httpFailure !== false) {
+    const failure = httpStatusFailure(page.status);
+    return errorResult({
+      code: "WEB_HTTP_ERROR",
+      message: `${page.finalUrl} answered HTTP ${page.status}.`,
+      category: failure.category,
+      target: page.url,
+      retryable: failure.retryable,
+      recoverable: true,
+      suggestedNextActions: failure.suggestedNextActions,
+      structuredContent: pageSummary(page),
+      meta,
+    });
+  }
+  if (outcome.failure) {
+    return errorResult({
+      code: outcome.code,
+      message: outcome.message,
+      category: outcome.failure.category,
+      target: page.url,
+      retryable: false,
+      recoverable: true,
+      suggestedNextActions: outcome.failure.suggestedNextActions,
+      structuredContent: outcome.structuredContent,
+      meta,
+    });
+  }
+  return okJsonResult({
+    code: outcome.code,
+    message: outcome.message,
+    structuredContent: outcome.structuredContent,
+    meta,
+    artifacts: [{
+      kind: "url",
+      uri: page.url,
+      ...(page.resource ? { id: page.resource.resourceId } : {}),
+    }],
+  });
+}
+
+function pageSummary(page: WebPage): Record<string, unknown> {
+  return {
+    url: page.url,
+    finalUrl: page.finalUrl,
+    status: page.status,
+    redirects: page.redirects,
+    ...(page.mediaType ? { mediaType: page.mediaType } : {}),
+    ...(page.etag ? { etag: page.etag } : {}),
+    ...(page.lastModified ? { lastModified: page.lastModified } : {}),
+    ...(page.resource ? { resource: page.resource } : {}),
+    warnings: page.warnings,
+  };
+}
+
+function httpStatusFailure(status: number): {
+  category: ToolErrorCategory;
+  retryable: boolean;
+  suggestedNextActions: string[];
+} {
+  if (status === 404 || status === 410) {
+    return {
+      category: "missing_path",
+      retryable: false,
+      suggestedNextActions: ["Check the URL for typos, or locate the page's current address."],
+    };
+  }
+  if (status === 401 || status === 403) {
+    return {
+      category: "permission",
+      retryable: false,
+      suggestedNextActions: ["The page requires access Ayati does not have; ask the user for the content or another source."],
+    };
+  }
+  if (status === 408 || status === 429 || status >= 500) {
+    return {
+      category: "transient",
+      retryable: true,
+      suggestedNextActions: ["Retry later; the site is rate limiting or temporarily failing."],
+    };
+  }
+  return {
+    category: "semantic",
+    retryable: false,
+    suggestedNextActions: ["Inspect the status and choose a different URL or approach."],
+  };
+}
+
+function suggestedActionsFor(error: WebFetchError): string[] {
+  switch (error.code) {
+    case "WEB_URL_INVALID":
+      return ["Retry with an absolute http or https URL without embedded credentials."];
+    case "WEB_DOMAIN_NOT_ALLOWED":
+      return ["Use a URL on an allowed domain, or tell the user the site is outside Ayati's web policy."];
+    case "WEB_ROBOTS_DISALLOWED":
+      return ["Do not retry this URL; the site does not allow automated access. Ask the user for the content instead."];
+    case "WEB_RESPONSE_TOO_LARGE":
+      return ["Use web_head to check the size, or find a smaller page or a direct text source."];
+    case "WEB_TOO_MANY_REDIRECTS":
+      return ["Use the final destination URL directly, or tell the user the link loops."];
+    case "WEB_CANCELLED":
+      return ["Stop; the run was cancelled."];
+    default:
+      return ["Retry once; if it keeps failing, tell the user the site could not be reached."];
+  }
+}
+
+function readUrl(input: unknown): string | undefined {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return undefined;
+  const url = (input as Record<string, unknown>)["url"];
+  return typeof url === "string" && url.trim() ? url.trim() : undefined;
+}
+
+function readMaxChars(input: unknown): number {
+  const value = input && typeof input === "object" ? (input as Record<string, unknown>)["maxChars"] : undefined;
+  return typeof value === "number" && Number.isInteger(value) && value > 0
+    ? Math.min(value, MAX_WEB_MAX_CHARS)
+    : DEFAULT_WEB_MAX_CHARS;
+}
+
+function isTextual(mediaType: string | undefined, body: Uint8Array): boolean {
+  if (!mediaType) return !body.subarray(0, 1024).includes(0);
+  return mediaType.startsWith("text/")
+    || mediaType.endsWith("+json")
+    || mediaType.endsWith("+xml")
+    || [
+      "application/json",
+      "application/xml",
+      "application/javascript",
+      "application/x-javascript",
+      "application/ecmascript",
+    ].includes(mediaType);
+}
+
+function isHtml(mediaType: string | undefined, text: string): boolean {
+  if (mediaType) return mediaType === "text/html" || mediaType === "application/xhtml+xml";
+  return /^\s*(<!doctype html|<html)/i.test(text);
+}
+
+function decodeText(body: Uint8Array, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset ?? "utf-8").decode(body);
+  } catch {
+    // Unknown charset labels fall back to UTF-8 rather than failing the fetch.
+    return new TextDecoder().decode(body);
+  }
+}
+
+function webAnnotations() {
+  return commonAnnotations({
+    domain: "web",
+    readOnly: true,
+    idempotent: true,
+    retrySafe: true,
+  });
+}
+
+export { loadWebFetchPolicy, type WebFetchPolicy } from "./policy.js";
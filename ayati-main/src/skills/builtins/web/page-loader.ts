@@ -0,0 +1,171 @@
+import { readFile } from "node:fs/promises";
+import type {
+  ContextEngineService,
+  ManagedResourceStore,
+  UrlResourceFetchObservation,
+} from "ayati-context-engine";
+import type { ToolExecutionContext } from "../../types.js";
+import type {
+  WebCachedVersion,
+  WebFetchMethod,
+  WebPage,
+  WebResourceProjection,
+} from "./contracts.js";
+import type { WebFetcher } from "./fetcher.js";
+
+export interface WebPageLoaderDeps {
+  fetcher: WebFetcher;
+  service: ContextEngineService;
+  resourceStore: ManagedResourceStore;
+}
+
+/**
+ * Fetches one URL and keeps the catalog in step with it: GET bodies are stored content-addressed
+ * in the managed resource store, later fetches revalidate against the cached etag/last-modified,
+ * and the URL resource is re-observed with the remote version and availability.
+ */
+export async function loadWebPage(
+  deps: WebPageLoaderDeps,
+  input: { url: string; method: WebFetchMethod; context?: ToolExecutionContext },
+): Promise<WebPage> {
+  const cached = await findCachedVersion(deps, input.url);
+  const revalidate = input.method === "GET" && cached;
+  const response = await deps.fetcher.fetch({
+    url: input.url,
+    method: input.method,
+    ...(input.context?.signal ? { signal: input.context.signal } : {}),
+    ...(revalidate && cached.etag ? { ifNoneMatch: cached.etag } : {}),
+    ...(revalidate && cached.lastModified ? { ifModifiedSince: cached.lastModified } : {}),
+  });
+  const warnings: string[] = [];
+  const etag = response.headers.etag ?? (response.status === 304 ? cached?.etag : undefined);
+  const lastModified = response.headers.lastModified
+    ?? (response.status === 304 ? cached?.lastModified : undefined);
+  const mediaType = response.headers.mediaType ?? (response.status === 304 ? cached?.mediaType : undefined);
+
+  let body = response.body;
+  let sha256: string | undefined;
+  let fromCache = false;
+  if (response.status === 304 && revalidate) {
+    body = await readFile(cached.storedPath);
+    sha256 = cached.sha256;
+    fromCache = true;
+  } else if (body && response.status >= 200 && response.status < 300) {
+    const stored = await deps.resourceStore.storeBytes(body, displayNameFor(response.finalUrl));
+    sha256 = stored.contentHash;
+  } else if (input.method === "HEAD" && cached && sameRemoteVersion(cached, etag, lastModified)) {
+    // An unchanged HEAD keeps the content-addressed version a previous GET recorded.
+    sha256 = cached.sha256;
+  }
+  const sizeBytes = body?.byteLength ?? response.headers.contentLength ?? 0;
+
+  const resource = await recordUrlResource(deps.service, input.url, input.context, {
+    status: response.status,
+    ...(etag ? { etag } : {}),
+    ...(lastModified ? { lastModified } : {}),
+    ...(sha256 ? { sha256 } : {}),
+    ...(body || response.headers.contentLength !== undefined ? { sizeBytes } : {}),
+    ...(mediaType ? { mediaType } : {}),
+  }).catch((error: unknown) => {
+    warnings.push(`The URL was fetched but could not be recorded as a resource: ${errorMessage(error)}`);
+    return undefined;
+  });
+
+  return {
+    url: response.url,
+    finalUrl: response.finalUrl,
+    status: response.status,
+    redirects: response.redirects,
+    ...(mediaType ? { mediaType } : {}),
+    ...(response.headers.charset ? { charset: response.headers.charset } : {}),
+    ...(etag ? { etag } : {}),
+    ...(lastModified ? { lastModified } : {}),
+    sizeBytes,
+    ...(sha256 ? { sha256 } : {}),
+    fromCache,
+    ...(body ? { body } : {}),
+    ...(resource ? { resource } : {}),
+    warnings,
+  };
+}
+
+async function findCachedVersion(
+  deps: WebPageLoaderDeps,
+  rawUrl: string,
+): Promise<WebCachedVersion | undefined> {
+  const url = normalizeUrl(rawUrl);
+  if (!url) return undefined;
+  try {
+    // Locator search also matches by substring, so only the exact URL identity is accepted.
+    const found = await deps.service.findResources({ locators: ["url:" + url], includeMissing: true, limit: 10 });
+    const resource = found.resources
+      .find((entry) => entry.resource.locator.kind === "url" && entry.resource.locator.url === url)
+      ?.resource;
+    const sha256 = resource?.version.sha256;
+    if (!resource || !sha256) return undefined;
+    const storedPath = await deps.resourceStore.contentPath(sha256);
+    if (!storedPath) return undefined;
+    return {
+      sha256,
+      storedPath,
+      ...(resource.version.etag ? { etag: resource.version.etag } : {}),
+      ...(resource.version.lastModified ? { lastModified: resource.version.lastModified } : {}),
+      ...(resource.mediaType ? { mediaType: resource.mediaType } : {}),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+async function recordUrlResource(
+  service: ContextEngineService,
+  url: string,
+  context: ToolExecutionContext | undefined,
+  fetched: UrlResourceFetchObservation,
+): Promise<WebResourceProjection | undefined> {
+  const runId = context?.runId?.trim();
+  const callId = context?.callId?.trim();
+  if (!context?.sessionId?.trim() || !runId || !callId) return undefined;
+  const result = await service.inspectResourceForRun({
+    requestId: runId + ":" + callId + ":web-resource",
+    runId,
+    locator: { kind: "url", url },
+    origin: "agent_discovered",
+    fetched,
+    at: new Date().toISOString(),
+  });
+  return {
+    resourceId: result.resource.resourceId,
+    availability: result.resource.availability,
+    versionKey: result.resource.version.key,
+  };
+}
+
+function sameRemoteVersion(
+  cached: WebCachedVersion,
+  etag: string | undefined,
+  lastModified: string | undefined,
+): boolean {
+  if (cached.etag || etag) return cached.etag === etag;
+  return Boolean(cached.lastModified) && cached.lastModified === lastModified;
+}
+
+/** Mirrors the catalog's URL normalization so cached versions are found by exact identity. */
+function normalizeUrl(rawUrl: string): string | undefined {
+  try {
+    const url = new URL(rawUrl.trim());
+    url.hash = "";
+    return url.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function displayNameFor(url: string): string {
+  const parsed = new URL(url);
+  return parsed.hostname + (parsed.pathname === "/" ? "" : parsed.pathname);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
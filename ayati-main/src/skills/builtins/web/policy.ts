@@ -0,0 +1,185 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import {
+  DEFAULT_WEB_MAX_BYTES,
+  DEFAULT_WEB_TIMEOUT_MS,
+  WebFetchError,
+} from "./contracts.js";
+
+export interface WebFetchPolicy {
+  /** Hosts (and their subdomains) that may be fetched; empty allows any public host. */
+  allowedDomains: string[];
+  maxBytes: number;
+  timeoutMs: number;
+  respectRobots: boolean;
+}
+
+export const DEFAULT_WEB_FETCH_POLICY: WebFetchPolicy = {
+  allowedDomains: [],
+  maxBytes: DEFAULT_WEB_MAX_BYTES,
+  timeoutMs: DEFAULT_WEB_TIMEOUT_MS,
+  respectRobots: true,
+};
+
+export function loadWebFetchPolicy(env: NodeJS.ProcessEnv = process.env): WebFetchPolicy {
+  return {
+    allowedDomains: readDomainList(env["AYATI_WEB_ALLOWED_DOMAINS"]),
+    maxBytes: readPositiveInteger(env, "AYATI_WEB_MAX_BYTES", DEFAULT_WEB_FETCH_POLICY.maxBytes),
+    timeoutMs: readPositiveInteger(env, "AYATI_WEB_TIMEOUT_MS", DEFAULT_WEB_FETCH_POLICY.timeoutMs),
+    respectRobots: readBoolean(env, "AYATI_WEB_RESPECT_ROBOTS", DEFAULT_WEB_FETCH_POLICY.respectRobots),
+  };
+}
+
+/**
+ * Admits only http(s) URLs whose host passes the allowlist. Loopback, private, and link-local
+ * hosts are refused unless an operator lists that exact host.
+ */
+export function requireAllowedWebUrl(raw: string, policy: WebFetchPolicy): URL {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    throw new WebFetchError("WEB_URL_INVALID", `"${raw}" is not an absolute URL.`, raw);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new WebFetchError("WEB_URL_INVALID", `Only http and https URLs can be fetched; received ${url.protocol}`, raw);
+  }
+  if (url.username || url.password) {
+    throw new WebFetchError("WEB_URL_INVALID", "URLs with embedded credentials cannot be fetched.", raw);
+  }
+  url.hash = "";
+  const host = normalizeHost(url.hostname);
+  if (isPrivateHost(host)) {
+    if (!policy.allowedDomains.includes(host)) {
+      throw new WebFetchError(
+        "WEB_DOMAIN_NOT_ALLOWED",
+        `${host} is a local or private network host; list it in AYATI_WEB_ALLOWED_DOMAINS to fetch it.`,
+        url.toString(),
+      );
+    }
+    return url;
+  }
+  if (policy.allowedDomains.length > 0
+    && !policy.allowedDomains.some((domain) => host === domain || host.endsWith("." + domain))) {
+    throw new WebFetchError(
+      "WEB_DOMAIN_NOT_ALLOWED",
+      `${host} is not in the configured web domain allowlist.`,
+      url.toString(),
+    );
+  }
+  return url;
+}
+
+/** Resolves a host name to every address the system resolver returns for it. */
+export type WebHostResolver = (hostname: string) => Promise<string[]>;
+
+export const resolveWebHost: WebHostResolver = async (hostname) =>
+  (await lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+
+/**
+ * Resolves a named host and refuses it when any answer is a loopback, private, or link-local
+ * address, so a public-looking name cannot reach the local network. An exact operator-listed
+ * host is exempt, matching the lexical rule in requireAllowedWebUrl.
+ */
+export async function requirePublicWebAddress(
+  url: URL,
+  policy: WebFetchPolicy,
+  resolveHost: WebHostResolver,
+): Promise<void> {
+  const host = normalizeHost(url.hostname);
+  if (policy.allowedDomains.includes(host)) return;
+  let addresses: string[];
+  try {
+    // A literal is classified as its own answer rather than trusted because it parsed.
+    addresses = isIP(host) !== 0 ? [host] : await resolveHost(host);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new WebFetchError("WEB_FETCH_FAILED", `Could not resolve ${host} (${message}).`, url.toString());
+  }
+  const privateAddress = addresses.find((address) => isPrivateHost(normalizeHost(address)));
+  if (addresses.length === 0 || privateAddress) {
+    throw new WebFetchError(
+      "WEB_DOMAIN_NOT_ALLOWED",
+      privateAddress
+        ? `${host} resolves to the local or private address ${privateAddress}; list it in AYATI_WEB_ALLOWED_DOMAINS to fetch it.`
+        : `${host} did not resolve to any address.`,
+      url.toString(),
+    );
+  }
+}
+
+function isPrivateHost(host: string): boolean {
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local")) return true;
+  const version = isIP(host);
+  if (version === 4) return isPrivateIpv4(host.split(".").map(Number));
+  if (version === 6) {
+    const words = ipv6Words(host);
+    const embedded = [words[6]! >> 8, words[6]! & 0xff, words[7]! >> 8, words[7]! & 0xff];
+    const highZero = words.slice(0, 5).every((word) => word === 0);
+    // ::/96 holds :: and ::1 plus the deprecated IPv4-compatible form, so it is refused outright.
+    if (highZero && words[5] === 0) return true;
+    // IPv4-mapped (::ffff:0:0/96) and IPv4-translated (::ffff:0:0:0/96) literals reach the embedded
+    // IPv4 address. URL rewrites their dotted tail to hex, so it is read from the words, not the text.
+    if (highZero && words[5] === 0xffff) return isPrivateIpv4(embedded);
+    if (words.slice(0, 4).every((word) => word === 0) && words[4] === 0xffff && words[5] === 0) return isPrivateIpv4(embedded);
+    // NAT64 (64:ff9b::/96) gateways forward to the embedded IPv4 address.
+    if (words[0] === 0x64 && words[1] === 0xff9b && words.slice(2, 6).every((word) => word === 0)) {
+      return isPrivateIpv4(embedded);
+    }
+    return (words[0]! & 0xfe00) === 0xfc00 || (words[0]! & 0xffc0) === 0xfe80;
+  }
+  return false;
+}
+
+function isPrivateIpv4([a = 0, b = 0]: number[]): boolean {
+  return a === 0 || a === 10 || a === 127
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 100 && b >= 64 && b <= 127);
+}
+
+/** Expands a valid IPv6 literal, including a dotted IPv4 tail, into its eight 16-bit words. */
+function ipv6Words(host: string): number[] {
+  let text = host.replace(/%.*$/, "");
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number) as [number, number, number, number];
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head = "", tail] = text.split("::");
+  const parse = (part: string) => (part ? part.split(":").map((word) => parseInt(word, 16)) : []);
+  const high = parse(head);
+  const low = tail === undefined ? [] : parse(tail);
+  return [...high, ...new Array<number>(8 - high.length - low.length).fill(0), ...low];
+}
+
+function normalizeHost(hostname: string): string {
+  // URL keeps IPv6 literals bracketed.
+  return hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1").replace(/\.$/, "");
+}
+
+function readDomainList(raw: string | undefined): string[] {
+  if (!raw?.trim()) return [];
+  return [...new Set(raw.split(",")
+    .map((entry) => normalizeHost(entry.trim().replace(/^\*\./, "")))
+    .filter(Boolean))];
+}
+
+function readPositiveInteger(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const raw = env[name]?.trim();
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer; received ${JSON.stringify(raw)}.`);
+  }
+  return value;
+}
+
+function readBoolean(env: NodeJS.ProcessEnv, name: string, fallback: boolean): boolean {
+  const raw = env[name]?.trim().toLowerCase();
+  if (!raw) return fallback;
+  if (raw === "true" || raw === "1") return true;
+  if (raw === "false" || raw === "0") return false;
+  throw new Error(`${name} must be true or false; received ${JSON.stringify(raw)}.`);
+}
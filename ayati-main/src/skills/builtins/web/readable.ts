@@ -0,0 +1,132 @@
+import { load, type Cheerio, type CheerioAPI } from "cheerio";
+import { MAX_WEB_LINKS } from "./contracts.js";
+
+export interface ReadablePage {
+  title?: string;
+  description?: string;
+  siteName?: string;
+  language?: string;
+  headings: string[];
+  text: string;
+  truncated: boolean;
+  links: Array<{ text: string; href: string }>;
+}
+
+type Selection = ReturnType<CheerioAPI>;
+type HtmlElement = ReturnType<Selection["find"]> extends Cheerio<infer T> ? T : never;
+
+const NOISE_SELECTOR = [
+  "script", "style", "noscript", "template", "svg", "canvas", "iframe", "form",
+  "nav", "header", "footer", "aside", "button",
+  "[hidden]", "[aria-hidden='true']", "[role='navigation']", "[role='banner']",
+  "[role='contentinfo']", "[role='complementary']",
+].join(",");
+const BLOCK_SELECTOR = "h1,h2,h3,h4,h5,h6,p,li,pre,blockquote,figcaption,dt,dd,td,th";
+/** Candidates shorter than this are treated as chrome rather than the page's main content. */
+const MIN_MAIN_TEXT_CHARS = 200;
+
+/**
+ * Reduces an HTML document to the text a reader would see in its main content: page chrome is
+ * removed, the densest article/main region is kept, and blocks are rendered as light Markdown.
+ */
+export function extractReadable(html: string, baseUrl: string, maxChars: number): ReadablePage {
+  const $ = load(html);
+  const title = clean($("meta[property='og:title']").attr("content"))
+    ?? clean($("title").first().text());
+  const description = clean($("meta[name='description']").attr("content"))
+    ?? clean($("meta[property='og:description']").attr("content"));
+  const siteName = clean($("meta[property='og:site_name']").attr("content"));
+  const language = clean($("html").attr("lang"));
+
+  $(NOISE_SELECTOR).remove();
+  const root = mainContent($);
+  const candidates = root.find(BLOCK_SELECTOR).toArray();
+  const candidateSet = new Set(candidates);
+  // A list item wrapping paragraphs renders once, as the outermost block.
+  const blocks = candidates
+    .filter((element) => !$(element).parents().toArray().some((parent) => candidateSet.has(parent)))
+    .map((element) => renderBlock($, element))
+    .filter((block): block is string => Boolean(block));
+  const fullText = blocks.length > 0 ? blocks.join("\n\n") : collapse(root.text());
+  const truncated = fullText.length > maxChars;
+
+  return {
+    ...(title ? { title } : {}),
+    ...(description ? { description } : {}),
+    ...(siteName ? { siteName } : {}),
+    ...(language ? { language } : {}),
+    headings: root.find("h1,h2,h3").toArray()
+      .map((element) => collapse($(element).text()))
+      .filter(Boolean)
+      .slice(0, 50),
+    text: truncated ? fullText.slice(0, maxChars) : fullText,
+    truncated,
+    links: readLinks($, root, baseUrl),
+  };
+}
+
+function mainContent($: CheerioAPI): Selection {
+  for (const selector of ["article", "main", "[role='main']"]) {
+    const candidates = $(selector).toArray()
+      .map((element) => ({ element, length: collapse($(element).text()).length }))
+      .sort((left, right) => right.length - left.length);
+    const best = candidates[0];
+    if (best && best.length >= MIN_MAIN_TEXT_CHARS) return $(best.element);
+  }
+  const body = $("body");
+  return body.length > 0 ? body : $.root();
+}
+
+function renderBlock($: CheerioAPI, element: HtmlElement): string | undefined {
+  const tag = element.tagName.toLowerCase();
+  if (tag === "pre") {
+    const code = $(element).text().replace(/\s+$/, "");
+    return code ? "```\n" + code + "\n```" : undefined;
+  }
+  const text = collapse($(element).text());
+  if (!text) return undefined;
+  const heading = /^h([1-6])$/.exec(tag);
+  if (heading) return "#".repeat(Number(heading[1])) + " " + text;
+  if (tag === "li") return "- " + text;
+  if (tag === "blockquote") return "> " + text;
+  return text;
+}
+
+function readLinks(
+  $: CheerioAPI,
+  root: Selection,
+  baseUrl: string,
+): Array<{ text: string; href: string }> {
+  const seen = new Set<string>();
+  const links: Array<{ text: string; href: string }> = [];
+  for (const element of root.find("a[href]").toArray()) {
+    const href = resolveHref(($(element).attr("href") ?? "").trim(), baseUrl);
+    const text = collapse($(element).text());
+    if (!href || !text || seen.has(href)) continue;
+    seen.add(href);
+    links.push({ text: text.slice(0, 200), href });
+    if (links.length >= MAX_WEB_LINKS) break;
+  }
+  return links;
+}
+
+function resolveHref(href: string, baseUrl: string): string | undefined {
+  if (!href || href.startsWith("#")) return undefined;
+  try {
+    const url = new URL(href, baseUrl);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return undefined;
+    url.hash = "";
+    return url.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function clean(value: string | undefined): string | undefined {
+  const text = value ? collapse(value) : "";
+  return text || undefined;
+}
+
+function collapse(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
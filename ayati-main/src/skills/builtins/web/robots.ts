@@ -0,0 +1,116 @@
+import { ROBOTS_CACHE_TTL_MS, WEB_ROBOTS_AGENT } from "./contracts.js";
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+}
+
+export type RobotsDecision = "allowed" | "disallowed" | "unreachable";
+
+type RobotsLoader = (robotsUrl: URL) => Promise<{ status: number; text?: string }>;
+
+interface CachedRobots {
+  /** Undefined when robots.txt could not be read and the origin must be treated as disallowed. */
+  rules?: RobotsRules;
+  expiresAt: number;
+}
+
+/**
+ * Per-origin robots.txt cache. Follows RFC 9309: a missing file (4xx) allows everything, while a
+ * server error or unreachable file disallows everything until the entry expires.
+ */
+export class RobotsCache {
+  private readonly entries = new Map<string, CachedRobots>();
+
+  constructor(
+    private readonly load: RobotsLoader,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async check(url: URL): Promise<RobotsDecision> {
+    const rules = await this.rulesFor(url.origin);
+    if (!rules) return "unreachable";
+    return robotsAllows(rules, url.pathname + url.search) ? "allowed" : "disallowed";
+  }
+
+  private async rulesFor(origin: string): Promise<RobotsRules | undefined> {
+    const cached = this.entries.get(origin);
+    if (cached && cached.expiresAt > this.now()) return cached.rules;
+    let rules: RobotsRules | undefined;
+    try {
+      const response = await this.load(new URL("/robots.txt", origin));
+      if (response.status >= 200 && response.status < 300) {
+        rules = parseRobotsTxt(response.text ?? "", WEB_ROBOTS_AGENT);
+      } else if (response.status >= 400 && response.status < 500) {
+        rules = { allow: [], disallow: [] };
+      }
+    } catch {
+      rules = undefined;
+    }
+    this.entries.set(origin, {
+      ...(rules ? { rules } : {}),
+      expiresAt: this.now() + ROBOTS_CACHE_TTL_MS,
+    });
+    return rules;
+  }
+}
+
+/** Merges every group naming this agent, falling back to the `*` groups when none does. */
+export function parseRobotsTxt(text: string, agent: string): RobotsRules {
+  const named: RobotsRules = { allow: [], disallow: [] };
+  const wildcard: RobotsRules = { allow: [], disallow: [] };
+  let groupAgents: string[] = [];
+  let groupHasRules = false;
+  let matchedNamed = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator <= 0) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    if (field === "user-agent") {
+      if (groupHasRules) {
+        groupAgents = [];
+        groupHasRules = false;
+      }
+      groupAgents.push(value.toLowerCase());
+      continue;
+    }
+    if (field !== "allow" && field !== "disallow") continue;
+    groupHasRules = true;
+    const targets: RobotsRules[] = [];
+    if (groupAgents.includes(agent.toLowerCase())) {
+      targets.push(named);
+      matchedNamed = true;
+    }
+    if (groupAgents.includes("*")) targets.push(wildcard);
+    // An empty Disallow allows everything and adds no rule.
+    if (!value) continue;
+    for (const target of targets) {
+      target[field].push(value);
+    }
+  }
+  return matchedNamed ? named : wildcard;
+}
+
+/** The longest matching rule wins; Allow wins a tie. */
+export function robotsAllows(rules: RobotsRules, pathWithQuery: string): boolean {
+  const path = pathWithQuery || "/";
+  const longest = (patterns: string[]): number => patterns
+    .filter((pattern) => robotsPatternMatches(pattern, path))
+    .reduce((length, pattern) => Math.max(length, pattern.length), -1);
+  const allow = longest(rules.allow);
+  const disallow = longest(rules.disallow);
+  return disallow < 0 || allow >= disallow;
+}
+
+function robotsPatternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp("^" + source + (anchored ? "$" : "")).test(path);
+}
@@ -44,3 +44,83 @@ export function normalizeToolResultV2(result: ToolResult): ToolResultV2 {
   };
 }
 
+
+/** The `tools/call` result shape shared by every MCP server. */
+export interface McpToolCallResult {
+  content: unknown[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+/**
+ * Maps an MCP `tools/call` result onto Ayati's result shape. A result flagged `isError` is an
+ * operation failure the model can react to, classified from its text like any other tool error.
+ */
+export function normalizeMcpToolResult(result: McpToolCallResult, meta?: Record<string, unknown>): ToolResult {
+  const output = mcpContentText(result.content);
+  const structuredContent = result.structuredContent ?? parseStructuredOutput(output);
+  if (result.isError) {
+    const message = output.trim() || "MCP tool reported an error without details.";
+    const classified = classifyErrorMessage(message);
+    return {
+      ok: false,
+      error: message,
+      ...(meta ? { meta } : {}),
+      v2: {
+        transportOk: true,
+        operationStatus: "failed",
+        code: "MCP_TOOL_ERROR",
+        message,
+        ...(structuredContent !== undefined ? { structuredContent } : {}),
+        error: {
+          ...classified,
+          code: "MCP_TOOL_ERROR",
+          message,
+        },
+        ...(meta ? { diagnostics: meta } : {}),
+      },
+    };
+  }
+  return {
+    ok: true,
+    output,
+    ...(meta ? { meta } : {}),
+    v2: {
+      transportOk: true,
+      operationStatus: "succeeded",
+      code: "MCP_TOOL_SUCCEEDED",
+      message: `MCP tool returned ${result.content.length} content block${result.content.length === 1 ? "" : "s"}.`,
+      ...(structuredContent !== undefined ? { structuredContent } : {}),
+      ...(meta ? { diagnostics: meta } : {}),
+    },
+  };
+}
+
+function mcpContentText(content: unknown[]): string {
+  return content.map((block) => {
+    if (!block || typeof block !== "object") return "";
+    const record = block as Record<string, unknown>;
+    switch (record["type"]) {
+      case "text":
+        return typeof record["text"] === "string" ? record["text"] : "";
+      case "image":
+      case "audio":
+        return `[${record["type"]} ${String(record["mimeType"] ?? "unknown")}, ${base64Bytes(record["data"])} bytes]`;
+      case "resource": {
+        const resource = record["resource"] as Record<string, unknown> | undefined;
+        const uri = String(resource?.["uri"] ?? "unknown");
+        return typeof resource?.["text"] === "string"
+          ? `[resource ${uri}]\n${resource["text"]}`
+          : `[resource ${uri}, binary]`;
+      }
+      case "resource_link":
+        return `[resource link ${String(record["uri"] ?? "unknown")}]`;
+      default:
+        return `[${String(record["type"] ?? "unknown")} content]`;
+    }
+  }).filter(Boolean).join("\n");
+}
+
+function base64Bytes(data: unknown): number {
+  return typeof data === "string" ? Math.floor(data.replace(/=+$/, "").length * 3 / 4) : 0;
+}
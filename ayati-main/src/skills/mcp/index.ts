@@ -0,0 +1,13 @@
+export {
+  DEFAULT_MCP_CALL_TIMEOUT_MS,
+  DEFAULT_MCP_STARTUP_TIMEOUT_MS,
+  loadMcpRuntimeConfig,
+  parseMcpServers,
+} from "./mcp-config.js";
+export type { McpRuntimeConfig, McpServerConfig } from "./mcp-config.js";
+export { MCP_PROTOCOL_VERSION, McpRequestError, McpStdioClient } from "./mcp-client.js";
+export type { McpRequestErrorCode, McpToolDescriptor, McpToolHints } from "./mcp-client.js";
+export { createMcpSkill, mcpToolAnnotations, mcpToolName } from "./mcp-skill.js";
+export type { McpSkillBuild, McpToolClient } from "./mcp-skill.js";
+export { startMcpServers } from "./mcp-runtime.js";
+export type { McpRuntime, McpServerStatus } from "./mcp-runtime.js";
@@ -0,0 +1,325 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import type { McpToolCallResult } from "../contracts/tool-result-normalizer.js";
+import type { McpServerConfig } from "./mcp-config.js";
+
+export const MCP_PROTOCOL_VERSION = "2025-06-18";
+const MAX_MCP_MESSAGE_BYTES = 16 * 1024 * 1024;
+const MAX_STDERR_TAIL_CHARS = 4_000;
+const MAX_TOOL_LIST_PAGES = 20;
+const CLOSE_GRACE_MS = 2_000;
+/** Environment a server inherits from the daemon; everything else must be listed in its config. */
+const INHERITED_ENV_NAMES = ["PATH", "HOME", "USER", "LOGNAME", "SHELL", "LANG", "LC_ALL", "TERM", "TMPDIR", "TZ"];
+
+/** Behaviour hints a server may attach to a tool; all are untrusted and default to the unsafe side. */
+export interface McpToolHints {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+export interface McpToolDescriptor {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+  annotations?: McpToolHints;
+}
+
+export type McpRequestErrorCode =
+  | "MCP_TIMEOUT"
+  | "MCP_CANCELLED"
+  | "MCP_SERVER_EXITED"
+  | "MCP_PROTOCOL_ERROR"
+  | "MCP_REMOTE_ERROR";
+
+export class McpRequestError extends Error {
+  constructor(
+    readonly code: McpRequestErrorCode,
+    message: string,
+    readonly remoteCode?: number,
+  ) {
+    super(message);
+    this.name = "McpRequestError";
+  }
+}
+
+interface PendingRequest {
+  method: string;
+  resolve(value: unknown): void;
+  reject(error: McpRequestError): void;
+}
+
+/**
+ * JSON-RPC client for one stdio MCP server. Messages are newline-delimited JSON on the child's
+ * stdin/stdout; stderr is kept only as a bounded tail for error reports.
+ */
+export class McpStdioClient {
+  private child: ChildProcessWithoutNullStreams | undefined;
+  private readonly pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+  private buffer = "";
+  private stderrTail = "";
+  private exited: Promise<void> = Promise.resolve();
+  private serverInfoValue: { name: string; version?: string } | undefined;
+
+  constructor(readonly config: McpServerConfig) {}
+
+  get serverInfo(): { name: string; version?: string } | undefined {
+    return this.serverInfoValue;
+  }
+
+  async start(): Promise<void> {
+    if (this.child) return;
+    const child = spawn(this.config.command, this.config.args, {
+      ...(this.config.cwd ? { cwd: this.config.cwd } : {}),
+      env: { ...inheritedEnvironment(), ...this.config.env },
+      shell: false,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    this.child = child;
+    let markExited: () => void = () => undefined;
+    this.exited = new Promise((resolveExit) => {
+      markExited = resolveExit;
+    });
+    child.once("close", (code, signal) => {
+      this.failPending(new McpRequestError(
+        "MCP_SERVER_EXITED",
+        `MCP server "${this.config.name}" exited (${signal ?? `code ${code}`})${this.stderrSuffix()}`,
+      ));
+      markExited();
+    });
+    child.once("error", (error) => {
+      this.failPending(new McpRequestError(
+        "MCP_SERVER_EXITED",
+        `MCP server "${this.config.name}" could not run: ${error.message}`,
+      ));
+      // A command that never spawned has no close event to wait for.
+      if (child.pid === undefined) markExited();
+    });
+    child.stdout.setEncoding("utf-8");
+    child.stdout.on("data", (chunk: string) => this.receive(chunk));
+    child.stderr.setEncoding("utf-8");
+    child.stderr.on("data", (chunk: string) => {
+      this.stderrTail = (this.stderrTail + chunk).slice(-MAX_STDERR_TAIL_CHARS);
+    });
+    // A server that dies mid-write must not crash the daemon with EPIPE.
+    child.stdin.on("error", () => undefined);
+
+    const initialized = await this.request("initialize", {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: "ayati", version: "1.0.0" },
+    }, { timeoutMs: this.config.startupTimeoutMs });
+    const serverInfo = isRecord(initialized) && isRecord(initialized["serverInfo"])
+      ? initialized["serverInfo"]
+      : undefined;
+    if (serverInfo && typeof serverInfo["name"] === "string") {
+      this.serverInfoValue = {
+        name: serverInfo["name"],
+        ...(typeof serverInfo["version"] === "string" ? { version: serverInfo["version"] } : {}),
+      };
+    }
+    this.notify("notifications/initialized");
+  }
+
+  async listTools(): Promise<McpToolDescriptor[]> {
+    const tools: McpToolDescriptor[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_TOOL_LIST_PAGES; page += 1) {
+      const result = await this.request("tools/list", cursor ? { cursor } : {}, {
+        timeoutMs: this.config.startupTimeoutMs,
+      });
+      if (!isRecord(result) || !Array.isArray(result["tools"])) {
+        throw new McpRequestError("MCP_PROTOCOL_ERROR", `MCP server "${this.config.name}" returned a malformed tools/list result.`);
+      }
+      tools.push(...result["tools"].filter(isToolDescriptor));
+      cursor = typeof result["nextCursor"] === "string" && result["nextCursor"] ? result["nextCursor"] : undefined;
+      if (!cursor) break;
+    }
+    return tools;
+  }
+
+  async callTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<McpToolCallResult> {
+    const result = await this.request("tools/call", { name, arguments: args }, {
+      timeoutMs: this.config.callTimeoutMs,
+      ...(signal ? { signal } : {}),
+    });
+    if (!isRecord(result)) {
+      throw new McpRequestError("MCP_PROTOCOL_ERROR", `MCP server "${this.config.name}" returned a malformed tools/call result.`);
+    }
+    return {
+      content: Array.isArray(result["content"]) ? result["content"] : [],
+      ...(result["structuredContent"] !== undefined ? { structuredContent: result["structuredContent"] } : {}),
+      ...(result["isError"] === true ? { isError: true } : {}),
+    };
+  }
+
+  async close(): Promise<void> {
+    const child = this.child;
+    if (!child || child.pid === undefined || child.exitCode !== null || child.signalCode !== null) return;
+    child.stdin.end();
+    if (await settlesWithin(this.exited, CLOSE_GRACE_MS)) return;
+    child.kill("SIGTERM");
+    if (await settlesWithin(this.exited, CLOSE_GRACE_MS)) return;
+    child.kill("SIGKILL");
+    await this.exited;
+  }
+
+  private async request(
+    method: string,
+    params: Record<string, unknown>,
+    options: { timeoutMs: number; signal?: AbortSignal },
+  ): Promise<unknown> {
+    const child = this.child;
+    if (!child || child.exitCode !== null) {
+      throw new McpRequestError("MCP_SERVER_EXITED", `MCP server "${this.config.name}" is not running${this.stderrSuffix()}`);
+    }
+    if (options.signal?.aborted) {
+      throw new McpRequestError("MCP_CANCELLED", `${method} was cancelled before it was sent.`);
+    }
+    const id = this.nextId++;
+    return await new Promise<unknown>((resolveRequest, rejectRequest) => {
+      const abandon = (error: McpRequestError): void => {
+        if (!this.pending.delete(id)) return;
+        // Servers stop work for a request only when told; the reply, if any, is then ignored.
+        this.notify("notifications/cancelled", { requestId: id, reason: error.message });
+        cleanup();
+        rejectRequest(error);
+      };
+      const onAbort = (): void => abandon(new McpRequestError("MCP_CANCELLED", `${method} was cancelled with its run.`));
+      const timer = setTimeout(() => abandon(new McpRequestError(
+        "MCP_TIMEOUT",
+        `MCP server "${this.config.name}" did not answer ${method} within ${options.timeoutMs}ms.`,
+      )), options.timeoutMs);
+      const cleanup = (): void => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener("abort", onAbort);
+      };
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+      this.pending.set(id, {
+        method,
+        resolve: (value) => {
+          cleanup();
+          resolveRequest(value);
+        },
+        reject: (error) => {
+          cleanup();
+          rejectRequest(error);
+        },
+      });
+      this.write({ jsonrpc: "2.0", id, method, params });
+    });
+  }
+
+  private notify(method: string, params?: Record<string, unknown>): void {
+    this.write({ jsonrpc: "2.0", method, ...(params ? { params } : {}) });
+  }
+
+  private write(message: Record<string, unknown>): void {
+    const child = this.child;
+    if (!child || child.exitCode !== null || !child.stdin.writable) return;
+    child.stdin.write(JSON.stringify(message) + "\n");
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    if (this.buffer.length > MAX_MCP_MESSAGE_BYTES) {
+      this.buffer = "";
+      this.failPending(new McpRequestError(
+        "MCP_PROTOCOL_ERROR",
+        `MCP server "${this.config.name}" sent a message larger than ${MAX_MCP_MESSAGE_BYTES} bytes.`,
+      ));
+      this.child?.kill("SIGTERM");
+      return;
+    }
+    let newline = this.buffer.indexOf("\n");
+    while (newline >= 0) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line) this.dispatch(line);
+      newline = this.buffer.indexOf("\n");
+    }
+  }
+
+  private dispatch(line: string): void {
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      // Servers sometimes log to stdout; anything that is not JSON-RPC is ignored.
+      return;
+    }
+    if (!isRecord(message)) return;
+    const id = message["id"];
+    if (typeof message["method"] === "string") {
+      if (id === undefined || id === null) return;
+      // Ayati offers no client features (sampling, roots, elicitation), so only ping is answered.
+      this.write(message["method"] === "ping"
+        ? { jsonrpc: "2.0", id, result: {} }
+        : { jsonrpc: "2.0", id, error: { code: -32601, message: `Method not supported: ${message["method"]}` } });
+      return;
+    }
+    if (typeof id !== "number") return;
+    const pending = this.pending.get(id);
+    if (!pending) return;
+    this.pending.delete(id);
+    const error = message["error"];
+    if (isRecord(error)) {
+      pending.reject(new McpRequestError(
+        "MCP_REMOTE_ERROR",
+        `${pending.method} failed: ${typeof error["message"] === "string" ? error["message"] : "unknown error"}`,
+        typeof error["code"] === "number" ? error["code"] : undefined,
+      ));
+      return;
+    }
+    pending.resolve(message["result"]);
+  }
+
+  private failPending(error: McpRequestError): void {
+    const pending = [...this.pending.values()];
+    this.pending.clear();
+    for (const request of pending) {
+      request.reject(error);
+    }
+  }
+
+  private stderrSuffix(): string {
+    const tail = this.stderrTail.trim();
+    return tail ? `: ${tail.split("\n").slice(-5).join(" | ")}` : ".";
+  }
+}
+
+function inheritedEnvironment(): Record<string, string> {
+  const inherited: Record<string, string> = {};
+  for (const name of INHERITED_ENV_NAMES) {
+    const value = process.env[name];
+    if (value !== undefined) inherited[name] = value;
+  }
+  return inherited;
+}
+
+async function settlesWithin(promise: Promise<void>, timeoutMs: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<false>((resolveTimeout) => {
+    timer = setTimeout(() => resolveTimeout(false), timeoutMs);
+  });
+  try {
+    return await Promise.race([promise.then(() => true as const), timedOut]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function isToolDescriptor(value: unknown): value is McpToolDescriptor {
+  return isRecord(value)
+    && typeof value["name"] === "string"
+    && value["name"].length > 0
+    && isRecord(value["inputSchema"]);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
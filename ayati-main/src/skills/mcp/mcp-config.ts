@@ -0,0 +1,97 @@
+import { readFileSync } from "node:fs";
+import { dirname, isAbsolute, resolve } from "node:path";
+
+export const DEFAULT_MCP_CALL_TIMEOUT_MS = 60_000;
+export const DEFAULT_MCP_STARTUP_TIMEOUT_MS = 20_000;
+const MAX_MCP_TIMEOUT_MS = 30 * 60_000;
+
+export interface McpServerConfig {
+  /** Short lowercase id used in tool names and capability ids. */
+  name: string;
+  command: string;
+  args: string[];
+  /** Added to a minimal inherited environment; provider keys and other daemon secrets are never passed through. */
+  env: Record<string, string>;
+  cwd?: string;
+  startupTimeoutMs: number;
+  callTimeoutMs: number;
+}
+
+export interface McpRuntimeConfig {
+  configPath?: string;
+  servers: McpServerConfig[];
+}
+
+/**
+ * Reads `AYATI_MCP_CONFIG`, a JSON file in the common `{ "mcpServers": { name: { command, args,
+ * env, cwd } } }` shape. Relative `cwd` values resolve against the file's directory.
+ */
+export function loadMcpRuntimeConfig(env: NodeJS.ProcessEnv = process.env): McpRuntimeConfig {
+  const rawPath = env["AYATI_MCP_CONFIG"]?.trim();
+  if (!rawPath) return { servers: [] };
+  const configPath = resolve(rawPath);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(configPath, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `AYATI_MCP_CONFIG must name a readable JSON file; ${configPath} failed: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  return { configPath, servers: parseMcpServers(parsed, dirname(configPath)) };
+}
+
+export function parseMcpServers(value: unknown, baseDirectory: string): McpServerConfig[] {
+  if (!isRecord(value) || !isRecord(value["mcpServers"])) {
+    throw new Error("MCP config must be an object with an \"mcpServers\" object.");
+  }
+  return Object.entries(value["mcpServers"]).map(([name, entry]) => parseServer(name, entry, baseDirectory));
+}
+
+function parseServer(name: string, entry: unknown, baseDirectory: string): McpServerConfig {
+  if (!/^[a-z][a-z0-9-]{0,23}$/.test(name)) {
+    throw new Error(
+      `MCP server name "${name}" must start with a lowercase letter and use at most 24 lowercase letters, digits, or hyphens.`,
+    );
+  }
+  if (!isRecord(entry)) {
+    throw new Error(`MCP server "${name}" must be an object.`);
+  }
+  const command = entry["command"];
+  if (typeof command !== "string" || !command.trim()) {
+    throw new Error(`MCP server "${name}" requires a command.`);
+  }
+  const args = entry["args"] ?? [];
+  if (!Array.isArray(args) || !args.every((arg) => typeof arg === "string")) {
+    throw new Error(`MCP server "${name}" args must be an array of strings.`);
+  }
+  const serverEnv = entry["env"] ?? {};
+  if (!isRecord(serverEnv) || !Object.values(serverEnv).every((item) => typeof item === "string")) {
+    throw new Error(`MCP server "${name}" env must map names to strings.`);
+  }
+  const cwd = entry["cwd"];
+  if (cwd !== undefined && (typeof cwd !== "string" || !cwd.trim())) {
+    throw new Error(`MCP server "${name}" cwd must be a non-empty string.`);
+  }
+  return {
+    name,
+    command: command.trim(),
+    args: [...args],
+    env: { ...(serverEnv as Record<string, string>) },
+    ...(typeof cwd === "string" ? { cwd: isAbsolute(cwd) ? cwd : resolve(baseDirectory, cwd) } : {}),
+    startupTimeoutMs: readTimeout(name, "startupTimeoutMs", entry["startupTimeoutMs"], DEFAULT_MCP_STARTUP_TIMEOUT_MS),
+    callTimeoutMs: readTimeout(name, "callTimeoutMs", entry["callTimeoutMs"], DEFAULT_MCP_CALL_TIMEOUT_MS),
+  };
+}
+
+function readTimeout(server: string, field: string, value: unknown, fallback: number): number {
+  if (value === undefined) return fallback;
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0 || value > MAX_MCP_TIMEOUT_MS) {
+    throw new Error(`MCP server "${server}" ${field} must be a positive integer up to ${MAX_MCP_TIMEOUT_MS}.`);
+  }
+  return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
@@ -0,0 +1,83 @@
+import type { CapabilityDefinition } from "../../ivec/agent-runner/capabilities/contracts.js";
+import { devLog, devWarn } from "../../shared/index.js";
+import { unregisterExternalToolTaxonomy } from "../tool-taxonomy.js";
+import type { SkillDefinition } from "../types.js";
+import { McpStdioClient } from "./mcp-client.js";
+import type { McpServerConfig } from "./mcp-config.js";
+import { createMcpSkill } from "./mcp-skill.js";
+
+export interface McpServerStatus {
+  name: string;
+  status: "ready" | "failed";
+  toolCount: number;
+  error?: string;
+  skippedTools?: Array<{ tool: string; reason: string }>;
+}
+
+export interface McpRuntime {
+  skills: SkillDefinition[];
+  capabilities: CapabilityDefinition[];
+  servers: McpServerStatus[];
+  close(): Promise<void>;
+}
+
+/**
+ * Launches every configured stdio MCP server and turns its tools into skills and capabilities.
+ * A server that fails to start is reported and left out; it never blocks the daemon.
+ */
+export async function startMcpServers(configs: McpServerConfig[]): Promise<McpRuntime> {
+  const started = await Promise.all(configs.map(async (config) => await startServer(config)));
+  const clients = started.flatMap((entry) => (entry.client ? [entry.client] : []));
+  const skills = started.flatMap((entry) => (entry.skill ? [entry.skill] : []));
+  let closing: Promise<void> | undefined;
+  return {
+    skills,
+    capabilities: started.flatMap((entry) => entry.capabilities),
+    servers: started.map((entry) => entry.status),
+    close: async () => {
+      closing ??= (async () => {
+        await Promise.all(clients.map(async (client) => await client.close()));
+        for (const tool of skills.flatMap((skill) => skill.tools)) {
+          unregisterExternalToolTaxonomy(tool.name);
+        }
+      })();
+      await closing;
+    },
+  };
+}
+
+async function startServer(config: McpServerConfig): Promise<{
+  status: McpServerStatus;
+  client?: McpStdioClient;
+  skill?: SkillDefinition;
+  capabilities: CapabilityDefinition[];
+}> {
+  const client = new McpStdioClient(config);
+  try {
+    await client.start();
+    const built = createMcpSkill(client, await client.listTools());
+    for (const skipped of built.skipped) {
+      devWarn(`MCP server "${config.name}" tool ${skipped.tool} was not exposed: ${skipped.reason}`);
+    }
+    devLog(`MCP server "${config.name}" ready with ${built.skill.tools.length} tools.`);
+    return {
+      status: {
+        name: config.name,
+        status: "ready",
+        toolCount: built.skill.tools.length,
+        ...(built.skipped.length > 0 ? { skippedTools: built.skipped } : {}),
+      },
+      client,
+      skill: built.skill,
+      capabilities: built.capabilities,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    devWarn(`MCP server "${config.name}" failed to start: ${message}`);
+    await client.close().catch(() => undefined);
+    return {
+      status: { name: config.name, status: "failed", toolCount: 0, error: message },
+      capabilities: [],
+    };
+  }
+}
@@ -0,0 +1,241 @@
+import type { CapabilityDefinition } from "../../ivec/agent-runner/capabilities/contracts.js";
+import { commonAnnotations, errorResult, errorResultFromUnknown } from "../builtins/contract-helpers.js";
+import { normalizeMcpToolResult, type McpToolCallResult } from "../contracts/tool-result-normalizer.js";
+import {
+  registerExternalToolTaxonomy,
+  type ExternalToolEffect,
+} from "../tool-taxonomy.js";
+import type {
+  SkillDefinition,
+  ToolAnnotations,
+  ToolDefinition,
+  ToolErrorCategory,
+  ToolExecutionContext,
+  ToolResult,
+} from "../types.js";
+import {
+  McpRequestError,
+  type McpToolDescriptor,
+  type McpToolHints,
+} from "./mcp-client.js";
+
+const MAX_TOOL_NAME_LENGTH = 64;
+const MAX_TOOL_DESCRIPTION_CHARS = 1_024;
+/** Kept below the smallest capability surface so every MCP capability loads whole. */
+const MAX_TOOLS_PER_CAPABILITY = 4;
+
+/** The part of the MCP client a skill needs, so tests can drive tools without a process. */
+export interface McpToolClient {
+  readonly config: { name: string };
+  callTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<McpToolCallResult>;
+}
+
+export interface McpSkillBuild {
+  skill: SkillDefinition;
+  capabilities: CapabilityDefinition[];
+  /** Server tools that could not be exposed, with the reason. */
+  skipped: Array<{ tool: string; reason: string }>;
+}
+
+/**
+ * Exposes one MCP server's tools as an Ayati skill. Server hints are untrusted and only ever
+ * narrow effects: a tool is read-only only when it says so, and anything else is treated as
+ * destructive and open-world unless it explicitly declares otherwise.
+ */
+export function createMcpSkill(client: McpToolClient, descriptors: McpToolDescriptor[]): McpSkillBuild {
+  const server = client.config.name;
+  const tools: ToolDefinition[] = [];
+  const effects = new Map<string, ExternalToolEffect>();
+  const skipped: McpSkillBuild["skipped"] = [];
+
+  for (const descriptor of descriptors) {
+    const name = mcpToolName(server, descriptor.name);
+    if (effects.has(name)) {
+      skipped.push({ tool: descriptor.name, reason: `Its Ayati name '${name}' collides with another tool on this server.` });
+      continue;
+    }
+    const annotations = mcpToolAnnotations(descriptor.annotations);
+    const effect = toolEffect(annotations);
+    try {
+      registerExternalToolTaxonomy(name, effect);
+    } catch (error) {
+      skipped.push({ tool: descriptor.name, reason: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    effects.set(name, effect);
+    tools.push(mcpToolDefinition(client, descriptor, name, annotations));
+  }
+
+  return {
+    skill: {
+      id: `mcp-${server}`,
+      version: "1.0.0",
+      description: `Tools provided by the ${server} MCP server.`,
+      tools,
+    },
+    capabilities: mcpCapabilities(server, tools, effects),
+    skipped,
+  };
+}
+
+export function mcpToolAnnotations(hints: McpToolHints | undefined): ToolAnnotations {
+  const readOnly = hints?.readOnlyHint === true;
+  return commonAnnotations({
+    domain: "mcp",
+    readOnly,
+    mutatesWorkspace: !readOnly && hints?.openWorldHint === false,
+    mutatesExternalWorld: !readOnly && hints?.openWorldHint !== false,
+    destructive: !readOnly && hints?.destructiveHint !== false,
+    idempotent: readOnly || hints?.idempotentHint === true,
+    retrySafe: readOnly,
+  });
+}
+
+export function mcpToolName(server: string, tool: string): string {
+  const safeTool = tool.replace(/[^A-Za-z0-9_-]/g, "_");
+  return `mcp_${server.replace(/-/g, "_")}_${safeTool}`.slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+function toolEffect(annotations: ToolAnnotations): ExternalToolEffect {
+  if (annotations.readOnly) return "read_only";
+  if (annotations.destructive) return "destructive";
+  return annotations.mutatesExternalWorld ? "external_mutation" : "workspace_mutation";
+}
+
+function mcpToolDefinition(
+  client: McpToolClient,
+  descriptor: McpToolDescriptor,
+  name: string,
+  annotations: ToolAnnotations,
+): ToolDefinition {
+  const server = client.config.name;
+  const summary = [descriptor.title ?? descriptor.annotations?.title, descriptor.description]
+    .filter((part): part is string => Boolean(part?.trim()))
+    .join(": ");
+  return {
+    name,
+    description: `[${server} MCP] ${summary || descriptor.name}`.slice(0, MAX_TOOL_DESCRIPTION_CHARS),
+    inputSchema: { ...descriptor.inputSchema, type: "object" },
+    annotations,
+    observationPolicy: { outputImportance: "decision_context", rawStorage: "when_truncated" },
+    async execute(input: unknown, context?: ToolExecutionContext): Promise<ToolResult> {
+      const startedAt = Date.now();
+      const meta = (): Record<string, unknown> => ({
+        server,
+        tool: descriptor.name,
+        durationMs: Date.now() - startedAt,
+      });
+      const args = input && typeof input === "object" && !Array.isArray(input)
+        ? input as Record<string, unknown>
+        : {};
+      try {
+        const result = await client.callTool(descriptor.name, args, context?.signal);
+        return normalizeMcpToolResult(result, meta());
+      } catch (error) {
+        if (error instanceof McpRequestError) {
+          const failure = requestFailure(error);
+          return errorResult({
+            code: error.code,
+            message: error.message,
+            category: failure.category,
+            target: name,
+            retryable: failure.retryable,
+            recoverable: true,
+            suggestedNextActions: failure.suggestedNextActions,
+            meta: meta(),
+          });
+        }
+        return errorResultFromUnknown({
+          err: error,
+          code: "MCP_TOOL_FAILED",
+          fallbackMessage: `MCP tool ${descriptor.name} failed.`,
+          target: name,
+          meta: meta(),
+        });
+      }
+    },
+  };
+}
+
+function requestFailure(error: McpRequestError): {
+  category: ToolErrorCategory;
+  retryable: boolean;
+  suggestedNextActions: string[];
+} {
+  switch (error.code) {
+    case "MCP_TIMEOUT":
+      return {
+        category: "timeout",
+        retryable: false,
+        suggestedNextActions: ["Narrow the request; the MCP server did not answer in time and may still be working."],
+      };
+    case "MCP_CANCELLED":
+      return { category: "transient", retryable: false, suggestedNextActions: ["Stop; the run was cancelled."] };
+    case "MCP_SERVER_EXITED":
+      return {
+        category: "transient",
+        retryable: false,
+        suggestedNextActions: ["Tell the user the MCP server stopped; it restarts with the Ayati daemon."],
+      };
+    case "MCP_REMOTE_ERROR":
+      // -32602 is JSON-RPC "invalid params", which MCP servers use for schema violations.
+      return error.remoteCode === -32602
+        ? { category: "validation", retryable: true, suggestedNextActions: ["Fix the arguments to match the tool's input schema and retry."] }
+        : { category: "unknown", retryable: false, suggestedNextActions: ["Inspect the server error before trying another approach."] };
+    case "MCP_PROTOCOL_ERROR":
+      return {
+        category: "unknown",
+        retryable: false,
+        suggestedNextActions: ["Tell the user the MCP server returned an invalid response."],
+      };
+  }
+}
+
+function mcpCapabilities(
+  server: string,
+  tools: ToolDefinition[],
+  effects: ReadonlyMap<string, ExternalToolEffect>,
+): CapabilityDefinition[] {
+  const groups: Array<{ action: string; summary: string; effects: ExternalToolEffect[] }> = [
+    { action: "read", summary: `Read-only tools from the ${server} MCP server.`, effects: ["read_only"] },
+    {
+      action: "write",
+      summary: `Tools from the ${server} MCP server that change state outside Ayati.`,
+      effects: ["workspace_mutation", "external_mutation"],
+    },
+    {
+      action: "destructive",
+      summary: `Tools from the ${server} MCP server that may delete or overwrite data.`,
+      effects: ["destructive"],
+    },
+  ];
+  return groups.flatMap((group) => {
+    const members = tools.filter((tool) => group.effects.includes(effects.get(tool.name) ?? "destructive"));
+    return chunk(members, MAX_TOOLS_PER_CAPABILITY).map((part, index): CapabilityDefinition => {
+      const whenToUse = `Use for: ${part.map(describeForCard).join("; ")}`.slice(0, MAX_TOOL_DESCRIPTION_CHARS);
+      const common = {
+        id: `mcp-${server}:${group.action}${index === 0 ? "" : `-${index + 1}`}`,
+        summary: group.summary,
+        whenToUse,
+        coreTools: part.map((tool) => tool.name),
+      };
+      // Server tools rarely address an Ayati resource, so reads need no reference target.
+      return group.action === "read"
+        ? { ...common, allowedModes: ["observe.investigate"], targetRequirement: "none" }
+        : { ...common, allowedModes: ["execute"] };
+    });
+  });
+}
+
+function describeForCard(tool: ToolDefinition): string {
+  const summary = tool.description.replace(/^\[[^\]]+\]\s*/, "").split(/(?<=\.)\s/)[0] ?? "";
+  return `${tool.name} (${summary.slice(0, 120)})`;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
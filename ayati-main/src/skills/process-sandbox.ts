@@ -0,0 +1,314 @@
+import { execFile } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { promisify } from "node:util";
+import type { ToolResourceScope } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+const MB = 1024 * 1024;
+const PROBE_TIMEOUT_MS = 5_000;
+
+export type ProcessSandboxMode = "auto" | "bwrap" | "unshare" | "none";
+export type ProcessSandboxIsolation = "bwrap" | "unshare" | "none";
+
+export interface ProcessSandboxPolicy {
+  /** `auto` picks the strongest available isolation; `bwrap` and `unshare` fail closed when missing. */
+  mode: ProcessSandboxMode;
+  allowNetwork: boolean;
+  /** Limits applied through prlimit; 0 leaves that limit unset. */
+  cpuSeconds: number;
+  memoryBytes: number;
+  fileSizeBytes: number;
+  /** Extra variable names, or `PREFIX_*` patterns, passed through the scrubbed environment. */
+  envAllowlist: string[];
+}
+
+export const DEFAULT_PROCESS_SANDBOX_POLICY: ProcessSandboxPolicy = {
+  mode: "auto",
+  allowNetwork: false,
+  cpuSeconds: 900,
+  memoryBytes: 4096 * MB,
+  fileSizeBytes: 1024 * MB,
+  envAllowlist: [],
+};
+
+/** Everything else, including provider API keys, is dropped before a child starts. */
+const BASE_ENV_ALLOWLIST = ["PATH", "HOME", "USER", "LOGNAME", "SHELL", "LANG", "LANGUAGE", "LC_*", "TZ", "TERM", "TMPDIR"];
+
+export interface ProcessSandboxCapabilities {
+  bwrap: boolean;
+  unshare: boolean;
+  prlimit: boolean;
+}
+
+export interface ProcessSandboxReport {
+  isolation: ProcessSandboxIsolation;
+  network: "blocked" | "allowed" | "not_isolated";
+  filesystem: "read_only_outside_roots" | "unrestricted";
+  writableRoots?: string[];
+  environment: "scrubbed";
+  rlimits?: { cpuSeconds?: number; memoryBytes?: number; fileSizeBytes?: number };
+  /** Why `auto` ran with weaker isolation than bubblewrap. */
+  degraded?: string;
+}
+
+export interface SandboxedCommand {
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+  report: ProcessSandboxReport;
+}
+
+export interface PreparedSandboxProcess extends SandboxedCommand {
+  /** Removes the private scratch directory; call once the child has exited. */
+  dispose(): Promise<void>;
+}
+
+export class ProcessSandboxError extends Error {
+  readonly code = "PROCESS_SANDBOX_UNAVAILABLE";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ProcessSandboxError";
+  }
+}
+
+export function loadProcessSandboxPolicy(env: NodeJS.ProcessEnv = process.env): ProcessSandboxPolicy {
+  const mode = env["AYATI_SANDBOX"]?.trim().toLowerCase() || DEFAULT_PROCESS_SANDBOX_POLICY.mode;
+  if (mode !== "auto" && mode !== "bwrap" && mode !== "unshare" && mode !== "none") {
+    throw new Error(`AYATI_SANDBOX must be one of auto, bwrap, unshare, none; received ${JSON.stringify(mode)}.`);
+  }
+  return {
+    mode,
+    allowNetwork: readBoolean(env, "AYATI_SANDBOX_NETWORK", DEFAULT_PROCESS_SANDBOX_POLICY.allowNetwork),
+    cpuSeconds: readLimit(env, "AYATI_SANDBOX_CPU_SECONDS", DEFAULT_PROCESS_SANDBOX_POLICY.cpuSeconds, 1),
+    memoryBytes: readLimit(env, "AYATI_SANDBOX_MEMORY_MB", DEFAULT_PROCESS_SANDBOX_POLICY.memoryBytes, MB),
+    fileSizeBytes: readLimit(env, "AYATI_SANDBOX_FILE_SIZE_MB", DEFAULT_PROCESS_SANDBOX_POLICY.fileSizeBytes, MB),
+    envAllowlist: (env["AYATI_SANDBOX_ENV_ALLOWLIST"] ?? "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0),
+  };
+}
+
+let detectedCapabilities: Promise<ProcessSandboxCapabilities> | undefined;
+
+/** Probes once per daemon: each tool must both exist and be permitted to create its namespaces here. */
+export async function detectProcessSandboxCapabilities(): Promise<ProcessSandboxCapabilities> {
+  detectedCapabilities ??= probeCapabilities();
+  return await detectedCapabilities;
+}
+
+export function resolveSandboxIsolation(
+  policy: ProcessSandboxPolicy,
+  capabilities: ProcessSandboxCapabilities,
+): { isolation: ProcessSandboxIsolation; degraded?: string } {
+  if (policy.mode === "none") return { isolation: "none" };
+  if (policy.mode === "bwrap" || policy.mode === "unshare") {
+    if (!capabilities[policy.mode]) {
+      throw new ProcessSandboxError(
+        `AYATI_SANDBOX=${policy.mode} but ${policy.mode} is unavailable or cannot create namespaces on this host; run \`ayati doctor\` for details.`,
+      );
+    }
+    return { isolation: policy.mode };
+  }
+  if (capabilities.bwrap) return { isolation: "bwrap" };
+  if (capabilities.unshare) {
+    return { isolation: "unshare", degraded: "bubblewrap is unavailable, so the filesystem outside the root is not read-only." };
+  }
+  return { isolation: "none", degraded: "no namespace tool is available, so only the environment and rlimits are restricted." };
+}
+
+/** Wraps one executable in the resolved isolation; pure apart from reading the policy inputs. */
+export function buildSandboxedCommand(input: {
+  executable: string;
+  args: string[];
+  cwd: string;
+  writableRoots: string[];
+  scratchDir?: string;
+  env: Record<string, string>;
+  policy: ProcessSandboxPolicy;
+  capabilities: ProcessSandboxCapabilities;
+}): SandboxedCommand {
+  const { isolation, degraded } = resolveSandboxIsolation(input.policy, input.capabilities);
+  const rlimits = input.capabilities.prlimit ? activeRlimits(input.policy) : undefined;
+  const inner = rlimits
+    ? ["prlimit", ...prlimitArgs(rlimits), "--", input.executable, ...input.args]
+    : [input.executable, ...input.args];
+  const env = { ...input.env };
+  let wrapped: string[];
+  if (isolation === "bwrap") {
+    const binds = [...input.writableRoots, ...(input.scratchDir ? [input.scratchDir] : [])];
+    if (input.scratchDir) env["TMPDIR"] = input.scratchDir;
+    wrapped = [
+      "bwrap",
+      "--die-with-parent",
+      "--new-session",
+      "--unshare-pid",
+      "--unshare-ipc",
+      "--unshare-uts",
+      ...(input.policy.allowNetwork ? [] : ["--unshare-net"]),
+      "--ro-bind", "/", "/",
+      "--dev", "/dev",
+      "--proc", "/proc",
+      ...binds.flatMap((path) => ["--bind", path, path]),
+      "--chdir", input.cwd,
+      "--",
+      ...inner,
+    ];
+  } else if (isolation === "unshare") {
+    // No --fork/--pid: the command must stay the spawned pid so SIGTERM on timeout or cancel reaches it.
+    wrapped = [
+      "unshare",
+      "--user",
+      "--map-root-user",
+      ...(input.policy.allowNetwork ? [] : ["--net"]),
+      "--",
+      ...inner,
+    ];
+  } else {
+    wrapped = inner;
+  }
+  return {
+    command: wrapped[0]!,
+    args: wrapped.slice(1),
+    env,
+    report: {
+      isolation,
+      network: input.policy.allowNetwork ? "allowed" : isolation === "none" ? "not_isolated" : "blocked",
+      filesystem: isolation === "bwrap" ? "read_only_outside_roots" : "unrestricted",
+      ...(isolation === "bwrap" ? { writableRoots: input.writableRoots } : {}),
+      environment: "scrubbed",
+      ...(rlimits ? { rlimits } : {}),
+      ...(degraded ? { degraded } : {}),
+    },
+  };
+}
+
+/**
+ * Prepares a process or Python child for the current tool call. The resolved scope root, any
+ * bounded mutation authorities, and `extraWritable` stay writable; bubblewrap children also get a
+ * private TMPDIR because the system temp directory is read-only inside the sandbox.
+ */
+export async function prepareSandboxedProcess(input: {
+  executable: string;
+  args: string[];
+  cwd: string;
+  scope?: ToolResourceScope;
+  extraWritable?: string[];
+  extraEnv?: Record<string, string>;
+  policy?: ProcessSandboxPolicy;
+  capabilities?: ProcessSandboxCapabilities;
+}): Promise<PreparedSandboxProcess> {
+  const policy = input.policy ?? loadProcessSandboxPolicy();
+  const capabilities = input.capabilities ?? await detectProcessSandboxCapabilities();
+  const { isolation } = resolveSandboxIsolation(policy, capabilities);
+  const scratchDir = isolation === "bwrap" ? await mkdtemp(join(tmpdir(), "ayati-sandbox-")) : undefined;
+  const command = buildSandboxedCommand({
+    executable: input.executable,
+    args: input.args,
+    cwd: input.cwd,
+    writableRoots: sandboxWritableRoots(input.scope, input.cwd, input.extraWritable),
+    scratchDir,
+    env: buildSandboxEnvironment(process.env, policy.envAllowlist, input.extraEnv),
+    policy,
+    capabilities,
+  });
+  return {
+    ...command,
+    dispose: async () => {
+      if (scratchDir) await rm(scratchDir, { recursive: true, force: true });
+    },
+  };
+}
+
+export function buildSandboxEnvironment(
+  source: NodeJS.ProcessEnv,
+  allowlist: readonly string[] = [],
+  extra: Record<string, string> = {},
+): Record<string, string> {
+  const patterns = [...BASE_ENV_ALLOWLIST, ...allowlist];
+  const env: Record<string, string> = {};
+  for (const [name, value] of Object.entries(source)) {
+    if (value === undefined) continue;
+    if (patterns.some((pattern) => pattern.endsWith("*") ? name.startsWith(pattern.slice(0, -1)) : name === pattern)) {
+      env[name] = value;
+    }
+  }
+  return { ...env, ...extra };
+}
+
+export function describeSandboxReport(report: ProcessSandboxReport): string {
+  const isolation = report.isolation === "none" ? "no namespaces" : `${report.isolation} namespaces`;
+  const network = report.network === "not_isolated" ? "network not isolated" : `network ${report.network}`;
+  const limits = report.rlimits ? "rlimits applied" : "no rlimits";
+  return `${isolation}, ${network}, ${limits}, scrubbed environment`;
+}
+
+function sandboxWritableRoots(scope: ToolResourceScope | undefined, cwd: string, extra: string[] = []): string[] {
+  const roots = [scope?.rootPath ?? cwd, ...extra];
+  for (const authority of scope?.mutationAuthorities ?? []) {
+    // A target that does not exist yet is created inside its parent directory.
+    roots.push(existsSync(authority.path) ? authority.path : dirname(authority.path));
+  }
+  return [...new Set(roots.map((root) => resolve(root)))].filter((root) => existsSync(root));
+}
+
+function activeRlimits(policy: ProcessSandboxPolicy): ProcessSandboxReport["rlimits"] | undefined {
+  const limits = {
+    ...(policy.cpuSeconds > 0 ? { cpuSeconds: policy.cpuSeconds } : {}),
+    ...(policy.memoryBytes > 0 ? { memoryBytes: policy.memoryBytes } : {}),
+    ...(policy.fileSizeBytes > 0 ? { fileSizeBytes: policy.fileSizeBytes } : {}),
+  };
+  return Object.keys(limits).length > 0 ? limits : undefined;
+}
+
+function prlimitArgs(limits: NonNullable<ProcessSandboxReport["rlimits"]>): string[] {
+  // RLIMIT_DATA rather than RLIMIT_AS: V8 and the JVM reserve far more address space than they use.
+  return [
+    ...(limits.cpuSeconds ? [`--cpu=${limits.cpuSeconds}`] : []),
+    ...(limits.memoryBytes ? [`--data=${limits.memoryBytes}`] : []),
+    ...(limits.fileSizeBytes ? [`--fsize=${limits.fileSizeBytes}`] : []),
+  ];
+}
+
+async function probeCapabilities(): Promise<ProcessSandboxCapabilities> {
+  if (process.platform !== "linux") {
+    return { bwrap: false, unshare: false, prlimit: false };
+  }
+  const [bwrap, unshare, prlimit] = await Promise.all([
+    probeCommand("bwrap", ["--die-with-parent", "--unshare-net", "--ro-bind", "/", "/", "--", "true"]),
+    probeCommand("unshare", ["--user", "--map-root-user", "--net", "--", "true"]),
+    probeCommand("prlimit", ["--cpu=60", "--", "true"]),
+  ]);
+  return { bwrap, unshare, prlimit };
+}
+
+async function probeCommand(command: string, args: string[]): Promise<boolean> {
+  try {
+    await execFileAsync(command, args, { timeout: PROBE_TIMEOUT_MS, env: { PATH: process.env["PATH"] ?? "" } });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function readBoolean(env: NodeJS.ProcessEnv, name: string, fallback: boolean): boolean {
+  const raw = env[name]?.trim().toLowerCase();
+  if (!raw) return fallback;
+  if (raw === "true" || raw === "1") return true;
+  if (raw === "false" || raw === "0") return false;
+  throw new Error(`${name} must be true or false; received ${JSON.stringify(raw)}.`);
+}
+
+function readLimit(env: NodeJS.ProcessEnv, name: string, fallback: number, unit: number): number {
+  const raw = env[name]?.trim();
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer; received ${JSON.stringify(raw)}.`);
+  }
+  return value * unit;
+}
@@ -133,6 +133,10 @@ export const TOOL_TAXONOMY: Readonly<Record<string, ToolTaxonomyEntry>> = buildT
   attachment_restore: control(["attachment_access", "workstream_discovery"], "phase", ["routing", "workstream_bound"]),
   python_inspect_dataset: readOnly(["data_analysis", "attachment_access"], "phase", ["enquiry", "workstream_bound"]),
   python_execute: workspaceMutation(["command_execution", "data_analysis"], "one_step", WORKSTREAM_BOUND_ONLY),
+  python_session_start: workspaceMutation(["command_execution", "data_analysis", "long_running_process"], "background", WORKSTREAM_BOUND_ONLY),
+  python_session_exec: workspaceMutation(["command_execution", "data_analysis", "long_running_process"], "background", WORKSTREAM_BOUND_ONLY),
+  python_session_inspect: control(["evidence_access", "data_analysis"], "background", WORKSTREAM_BOUND_ONLY),
+  python_session_stop: control(["command_execution", "long_running_process"], "single_use", WORKSTREAM_BOUND_ONLY),
 
   attachment_list: search(["enquiry_read", "attachment_access"], "phase", ["enquiry", "routing", "workstream_bound"]),
   attachment_inspect: readOnly(["enquiry_read", "attachment_access"], "phase", ["enquiry", "routing", "workstream_bound"]),
@@ -143,6 +147,7 @@ export const TOOL_TAXONOMY: Readonly<Record<string, ToolTaxonomyEntry>> = buildT
   file_describe: readOnly(["enquiry_read", "attachment_access"], "phase", ["enquiry", "workstream_bound"]),
   file_profile_table: readOnly(["enquiry_read", "data_analysis", "attachment_access"], "phase", ["enquiry", "workstream_bound"]),
   file_query_table: search(["enquiry_read", "data_analysis", "attachment_access"], "phase", ["enquiry", "workstream_bound"]),
+  file_query_tables: workspaceMutation(["workstream_mutation", "data_analysis", "attachment_access"], "one_step"),
   file_read_text: readOnly(["enquiry_read", "attachment_access"], "phase", ["enquiry", "workstream_bound"]),
   file_query: search(["enquiry_read", "attachment_access"], "phase", ["enquiry", "workstream_bound"]),
   file_register_path: control(["attachment_access"], "one_step", ["workstream_bound"]),
@@ -154,17 +159,49 @@ export const TOOL_TAXONOMY: Readonly<Record<string, ToolTaxonomyEntry>> = buildT
   git_context_read_workstream: readOnly(["enquiry_read", "workstream_discovery", "evidence_access"], "run", READ_ONLY_PHASES),
   git_context_find_resources: search(["enquiry_read", "workstream_discovery", "evidence_access"], "run", READ_ONLY_PHASES),
   git_read: readOnly(["enquiry_read", "workstream_discovery", "evidence_access"], "run", READ_ONLY_PHASES),
+  git_write: workspaceMutation(["workstream_mutation"], "one_step", WORKSTREAM_BOUND_ONLY),
   git_context_inspect_resource: control(["workstream_routing"], "one_step", ["routing"]),
   git_context_bind_resources: control(["workstream_mutation"], "one_step", ["workstream_bound"]),
   git_context_set_workstream_star: control(["workstream_preference"], "one_step", ["routing", "workstream_bound"]),
+  git_context_archive_workstream: control(["workstream_preference"], "one_step", ["routing", "workstream_bound"]),
+  git_context_rename_workstream: control(["workstream_preference"], "one_step", ["routing", "workstream_bound"]),
+  git_context_merge_workstreams: control(["workstream_mutation"], "one_step", ["routing", "workstream_bound"]),
+  git_context_split_workstream: control(["workstream_mutation"], "one_step", ["routing", "workstream_bound"]),
   agent_history_search: search(["conversation_read", "enquiry_read", "evidence_access"], "run", READ_ONLY_PHASES),
   agent_conversation_read: readOnly(["conversation_read", "enquiry_read", "evidence_access"], "run", READ_ONLY_PHASES),
   agent_history_read: readOnly(["conversation_read", "enquiry_read", "evidence_access"], "run", READ_ONLY_PHASES),
+  web_head: readOnly(["enquiry_read", "evidence_access"], "run", READ_ONLY_PHASES),
+  web_fetch: readOnly(["enquiry_read", "evidence_access"], "run", READ_ONLY_PHASES),
+  web_extract_readable: readOnly(["enquiry_read", "evidence_access"], "run", READ_ONLY_PHASES),
+  schedule_list: readOnly(["enquiry_read", "workstream_preference"], "run", READ_ONLY_PHASES),
+  schedule_create: contextMutation(["workstream_preference"], "one_step", ["workstream_bound"]),
+  schedule_cancel: contextMutation(["workstream_preference"], "one_step", ["workstream_bound"]),
 
 });
 
+/** Taxonomy for tools discovered at startup, such as MCP server tools; never overrides a built-in entry. */
+const EXTERNAL_TOOL_TAXONOMY = new Map<string, ToolTaxonomyEntry>();
+
+export type ExternalToolEffect = Extract<ToolEffect, "read_only" | "workspace_mutation" | "external_mutation" | "destructive">;
+
+export function registerExternalToolTaxonomy(toolName: string, effect: ExternalToolEffect): ToolTaxonomyEntry {
+  if (Object.hasOwn(TOOL_TAXONOMY, toolName) || isNativeControlToolName(toolName)) {
+    throw new Error(`External tool '${toolName}' collides with a built-in tool.`);
+  }
+  const entry: ToolTaxonomyEntry = { name: toolName, ...externalToolTaxonomy(effect) };
+  assertPurposeEffectConsistency(entry);
+  EXTERNAL_TOOL_TAXONOMY.set(toolName, entry);
+  return entry;
+}
+
+export function unregisterExternalToolTaxonomy(toolName: string): void {
+  EXTERNAL_TOOL_TAXONOMY.delete(toolName);
+}
+
 export function getToolTaxonomy(toolName: string): ToolTaxonomyEntry | undefined {
-  return TOOL_TAXONOMY[toolName];
+  return Object.hasOwn(TOOL_TAXONOMY, toolName)
+    ? TOOL_TAXONOMY[toolName]
+    : EXTERNAL_TOOL_TAXONOMY.get(toolName);
 }
 
 export function requireToolTaxonomy(toolName: string): ToolTaxonomyEntry {
@@ -423,6 +460,31 @@ function destructive(
   };
 }
 
+function externalMutation(
+  roles: ToolRole[],
+  lifetime: ToolLifetime,
+  allowedPhases: ToolPhase[] = WORKSTREAM_BOUND_ONLY,
+): ToolTaxonomyInput {
+  return {
+    ...workspaceMutation(roles, lifetime, allowedPhases),
+    effect: "external_mutation",
+    producesUserArtifact: false,
+  };
+}
+
+function externalToolTaxonomy(effect: ExternalToolEffect): ToolTaxonomyInput {
+  switch (effect) {
+    case "read_only":
+      return readOnly(["enquiry_read", "evidence_access"], "run", READ_ONLY_PHASES);
+    case "workspace_mutation":
+      return workspaceMutation(["command_execution"], "run");
+    case "external_mutation":
+      return externalMutation(["command_execution"], "run");
+    case "destructive":
+      return destructive(["command_execution"], "one_step");
+  }
+}
+
 function zeroRecord<T extends string>(keys: readonly T[]): Record<T, number> {
   return Object.fromEntries(keys.map((key) => [key, 0])) as Record<T, number>;
 }
@@ -50,6 +50,8 @@ export interface ToolExecutionContext {
   filesystemTargetPreconditions?: FilesystemTargetPrecondition[];
   stepNumber?: number;
   resourceScope?: ToolResourceScope;
+  /** Fires when the owning run is cancelled; long-running tools stop their child work. */
+  signal?: AbortSignal;
 }
 
 export interface FilesystemMutationAuthority {
@@ -86,7 +88,10 @@ export type ToolDomain =
   | "attachments"
   | "git"
   | "git_context"
-  | "files";
+  | "files"
+  | "web"
+  | "schedule"
+  | "mcp";
 
 export interface ToolAnnotations {
   domain: ToolDomain;
@@ -267,6 +272,8 @@ export interface ToolDefinition {
   resultContract?: ToolResultContract;
   errorContract?: ToolErrorContract;
   observationPolicy?: ToolObservationPolicy;
+  /** Gates one call on user approval when its input, rather than the tool itself, has the effect. */
+  approvalReason?(input: unknown): "destructive" | "external_effect" | undefined;
   execute(input: unknown, context?: ToolExecutionContext): Promise<ToolResult>;
 }
 
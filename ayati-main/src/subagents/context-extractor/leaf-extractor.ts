@@ -74,6 +74,7 @@ export async function extractLeafEvidence(input: LeafExtractInput): Promise<Leaf
     purpose: "context_extraction",
   }, async () => await input.provider.generateTurn({
       messages: [{ role: "user", content: prompt }],
+      modelRole: "context_extraction",
     }));
 
   if (turn.type !== "assistant") {
@@ -0,0 +1,27 @@
+import { resolveAyatiRootDir } from "./config/runtime-config.js";
+import { ClientTokenStore, clientTokensPath } from "./server/index.js";
+
+const [command = "list", name] = process.argv.slice(2);
+const store = new ClientTokenStore({
+  filePath: clientTokensPath(resolveAyatiRootDir(process.env["AYATI_ROOT_DIR"])),
+});
+
+try {
+  await store.start();
+  if (command === "list") {
+    console.log(store.filePath);
+    for (const record of store.list()) {
+      const changed = record.rotatedAt ? `rotated ${record.rotatedAt}` : `created ${record.createdAt}`;
+      console.log(`  ${record.name.padEnd(10)} ${record.scopes.join(",").padEnd(12)} ${changed}`);
+    }
+  } else if (command === "rotate" && name) {
+    const rotated = await store.rotate(name);
+    console.log(`Rotated "${rotated.name}". Clients that read ${store.filePath} pick it up on their next connection.`);
+  } else {
+    console.error("Usage: pnpm tokens [list | rotate <name>]");
+    process.exitCode = 2;
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exitCode = 1;
+}
@@ -11,13 +11,26 @@ export interface VoiceNotifier {
   notify(notification: VoiceNotification): Promise<void>;
 }
 
+export interface NotifierIdentity {
+  appName: string;
+  icon: string;
+}
+
+const VOICE_NOTIFIER_IDENTITY: NotifierIdentity = {
+  appName: "Ayati Voice",
+  icon: "audio-input-microphone",
+};
+
 export class NotifySendVoiceNotifier implements VoiceNotifier {
-  constructor(private readonly command = "notify-send") {}
+  constructor(
+    private readonly command = "notify-send",
+    private readonly identity: NotifierIdentity = VOICE_NOTIFIER_IDENTITY,
+  ) {}
 
   async notify(notification: VoiceNotification): Promise<void> {
     const args = [
-      "--app-name=Ayati Voice",
-      "--icon=audio-input-microphone",
+      `--app-name=${this.identity.appName}`,
+      `--icon=${this.identity.icon}`,
       `--urgency=${notification.urgency ?? "normal"}`,
       `--expire-time=${notification.expireMs ?? 7_000}`,
       notification.title,
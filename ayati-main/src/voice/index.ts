@@ -8,7 +8,7 @@ export {
   NoopVoiceNotifier,
   NotifySendVoiceNotifier,
 } from "./desktop-notifier.js";
-export type { VoiceNotification, VoiceNotifier } from "./desktop-notifier.js";
+export type { NotifierIdentity, VoiceNotification, VoiceNotifier } from "./desktop-notifier.js";
 export { loadVoiceRuntimeConfig } from "./voice-config.js";
 export type { VoiceRuntimeConfig } from "./voice-config.js";
 export { resolveVoiceRuntimePaths } from "./voice-runtime-paths.js";
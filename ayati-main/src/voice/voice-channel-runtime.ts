@@ -40,6 +40,8 @@ export interface VoiceChannelRuntimeOptions {
   now?: () => Date;
   createId?: () => string;
   controlServer?: VoiceControlServerLifecycle;
+  /** Checks the token on control socket requests; omitted means the socket's 0600 mode is the only gate. */
+  authorizeControl?: (token: unknown) => boolean;
 }
 
 export interface VoiceControlServerLifecycle {
@@ -69,6 +71,7 @@ export class VoiceChannelRuntime {
     this.controlServer = options.controlServer ?? new VoiceControlServer({
       socketPath: options.paths.controlSocketPath,
       execute: async (command) => await this.execute(command),
+      ...(options.authorizeControl ? { authorize: options.authorizeControl } : {}),
     });
   }
 
@@ -387,6 +390,10 @@ export class VoiceChannelRuntime {
       });
       return;
     }
+    if (result.status === "cancelled") {
+      this.transition("idle", "Voice request was cancelled.");
+      return;
+    }
     this.transition("idle", "Voice request completed without a reply envelope.");
     this.notify({
       title: "Ayati",
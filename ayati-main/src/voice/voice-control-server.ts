@@ -41,6 +41,8 @@ export interface VoiceControlResponse {
 export interface VoiceControlServerOptions {
   socketPath: string;
   execute: (command: VoiceControlCommand) => Promise<VoiceControlResponse>;
+  /** When set, JSON requests must carry a `token` this accepts; plain command strings are refused. */
+  authorize?: (token: unknown) => boolean;
 }
 
 export class VoiceControlServer {
@@ -123,11 +125,16 @@ export class VoiceControlServer {
       }
       const newline = input.indexOf("\n");
       if (newline < 0) return;
-      const command = parseCommand(input.slice(0, newline));
-      if (!command) {
+      const request = parseRequest(input.slice(0, newline));
+      if (!request.command) {
         fail("Unknown voice command.");
         return;
       }
+      if (this.options.authorize && !this.options.authorize(request.token)) {
+        fail("Voice control token is missing or invalid.");
+        return;
+      }
+      const command = request.command;
       void this.options.execute(command).then(finish, (error: unknown) => {
         fail(error instanceof Error ? error.message : String(error));
       });
@@ -139,20 +146,27 @@ export class VoiceControlServer {
   }
 }
 
-function parseCommand(input: string): VoiceControlCommand | undefined {
+function parseRequest(input: string): { command?: VoiceControlCommand; token?: unknown } {
   const trimmed = input.trim();
   let value: unknown = trimmed;
+  let token: unknown;
   try {
     const parsed = JSON.parse(trimmed) as unknown;
-    value = parsed && typeof parsed === "object" && !Array.isArray(parsed)
-      ? (parsed as Record<string, unknown>)["command"]
-      : parsed;
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      value = (parsed as Record<string, unknown>)["command"];
+      token = (parsed as Record<string, unknown>)["token"];
+    } else {
+      value = parsed;
+    }
   } catch {
-    // Plain command strings are accepted for simple local scripts.
+    // Plain command strings are accepted for simple local scripts when no token is required.
   }
-  return ["press", "release", "toggle", "send", "cancel", "status"].includes(String(value))
-    ? value as VoiceControlCommand
-    : undefined;
+  return {
+    ...(["press", "release", "toggle", "send", "cancel", "status"].includes(String(value))
+      ? { command: value as VoiceControlCommand }
+      : {}),
+    ...(token !== undefined ? { token } : {}),
+  };
 }
 
 async function removeStaleSocket(path: string): Promise<void> {
@@ -0,0 +1,484 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ContextEngineService } from "ayati-context-engine";
+import {
+  ClientQueryHandler,
+  type ClientQueryHandlerOptions,
+  type ClientQueryResultEnvelope,
+  isReadOnlyClientQuery,
+} from "../../src/app/client-query-handler.js";
+import { getLlmRuntimeConfig } from "../../src/config/llm-runtime-config.js";
+import { DEFAULT_MEMORY_POLICY } from "../../src/memory/personal/memory-policy.js";
+import { PersonalMemoryStore } from "../../src/memory/personal/personal-memory-store.js";
+import {
+  setupProviderRuntimeConfig,
+  type ProviderRuntimeConfigHandle,
+} from "../providers/runtime-config-test-helpers.js";
+
+const WORKSTREAM_ID = "W-20260719-0001";
+let configHandle: ProviderRuntimeConfigHandle | undefined;
+const roots: string[] = [];
+const stores: PersonalMemoryStore[] = [];
+
+afterEach(async () => {
+  await configHandle?.cleanup();
+  configHandle = undefined;
+  for (const store of stores.splice(0)) store.stop();
+  await Promise.all(roots.splice(0).map(async (root) => await rm(root, { recursive: true, force: true })));
+});
+
+describe("ClientQueryHandler", () => {
+  it("lists workstreams with stars and status", async () => {
+    const service = fakeService({
+      listWorkstreams: vi.fn(async () => ({
+        workstreams: [{
+          workstreamId: WORKSTREAM_ID,
+          title: "Coffee site",
+          objective: "Build the site.",
+          status: "active",
+          lifecycleStatus: "active",
+          currentRequest: { id: "R-0002", title: "Add menu page", status: "active" },
+          unfinishedRequests: [{ id: "R-0002", title: "Add menu page", status: "active" }],
+          head: "abc",
+          primaryResources: [],
+          updatedAt: "2026-07-19T10:00:00.000Z",
+          discovery: { tier: "recent", reasons: [] },
+          starred: true,
+          boundRunsLast30Days: 3,
+        }],
+      })),
+    });
+    const { handler, results } = createHandler(service);
+
+    expect(handler.handle("client-1", { type: "query", queryId: "q1", kind: "list_workstreams", query: "coffee" }))
+      .toBe(true);
+
+    const [result] = await waitForResults(results, 1);
+    expect(service.listWorkstreams).toHaveBeenCalledWith({ query: "coffee", limit: 20 });
+    expect(result).toEqual({
+      type: "query_result",
+      queryId: "q1",
+      kind: "list_workstreams",
+      ok: true,
+      result: {
+        workstreams: [{
+          workstreamId: WORKSTREAM_ID,
+          title: "Coffee site",
+          status: "active",
+          lifecycleStatus: "active",
+          starred: true,
+          currentRequest: { id: "R-0002", title: "Add menu page", status: "active" },
+          unfinishedRequests: 1,
+          updatedAt: "2026-07-19T10:00:00.000Z",
+        }],
+      },
+    });
+  });
+
+  it("opens a workstream card without binding or recording a run", async () => {
+    const service = fakeService({
+      getWorkstream: vi.fn(async () => ({
+        workstream: {
+          workstreamId: WORKSTREAM_ID,
+          title: "Coffee site",
+          objective: "Build the site.",
+          status: "active",
+          createdAt: "2026-07-18T10:00:00.000Z",
+          updatedAt: "2026-07-19T10:00:00.000Z",
+        },
+        context: {
+          workstream: { workstreamId: WORKSTREAM_ID },
+          title: "Coffee site",
+          objective: "Build the site.",
+          summary: "Landing page shipped.",
+          next: "Add the menu page.",
+          resourceChanges: [{
+            resourceId: "RES-1",
+            displayName: "menu.md",
+            change: "missing",
+            availability: "missing",
+            at: "2026-07-19T11:00:00.000Z",
+          }],
+          recentCommits: [{
+            commit: "0123456789abcdef",
+            subject: "run finalized",
+            workSummary: "Shipped the landing page.",
+            committedAt: "2026-07-19T09:00:00.000Z",
+          }],
+        },
+      })),
+    });
+    const { handler, results } = createHandler(service);
+
+    handler.handle("client-1", { type: "query", queryId: "q2", kind: "open_workstream", workstreamId: WORKSTREAM_ID });
+
+    const [result] = await waitForResults(results, 1);
+    expect(service.readWorkstream).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      ok: true,
+      result: {
+        workstream: { workstreamId: WORKSTREAM_ID, title: "Coffee site" },
+        card: {
+          summary: "Landing page shipped.",
+          next: "Add the menu page.",
+          resourcesChangedSinceLastRun: [{
+            resourceId: "RES-1",
+            name: "menu.md",
+            change: "missing",
+            at: "2026-07-19T11:00:00.000Z",
+          }],
+        },
+        recentProgress: [{ commit: "0123456789ab", summary: "Shipped the landing page.", at: "2026-07-19T09:00:00.000Z" }],
+      },
+    });
+  });
+
+  it("stars workstreams, lists resources and searches the agent's history", async () => {
+    const service = fakeService({
+      setWorkstreamStarByUser: vi.fn(async (input) => ({
+        workstreamId: input.workstreamId,
+        starred: input.starred,
+        starredAt: input.at,
+      })),
+      findResources: vi.fn(async () => ({
+        resources: [{
+          resource: {
+            resourceId: "RES-1",
+            kind: "file",
+            origin: "user_attachment",
+            displayName: "menu.md",
+            description: "",
+            aliases: [],
+            locator: { kind: "filesystem", path: "/work/menu.md" },
+            version: { key: "v1", observedAt: "2026-07-19T09:00:00.000Z" },
+            availability: "available",
+            metadataStatus: "fallback",
+            createdAt: "2026-07-19T09:00:00.000Z",
+            updatedAt: "2026-07-19T09:00:00.000Z",
+          },
+          workstreamIds: [WORKSTREAM_ID],
+          roles: ["primary"],
+        }],
+      })),
+      getAgentContext: vi.fn(async () => ({ stream: { stream: { streamId: "S-1" } } })),
+      searchAgentHistory: vi.fn(async () => ({
+        hits: [{ ref: "msg:4", kind: "message", at: "2026-07-19T09:00:00.000Z", preview: "menu prices", resourceIds: [] }],
+      })),
+    });
+    const { handler, results } = createHandler(service);
+
+    handler.handle("client-1", { type: "query", queryId: "q3", kind: "set_workstream_star", workstreamId: WORKSTREAM_ID, starred: true });
+    handler.handle("client-1", { type: "query", queryId: "q4", kind: "list_workstream_resources", workstreamId: WORKSTREAM_ID });
+    handler.handle("client-1", { type: "query", queryId: "q5", kind: "search_history", query: "menu" });
+
+    const byId = new Map((await waitForResults(results, 3)).map((result) => [result.queryId, result]));
+    expect(byId.get("q3")).toMatchObject({
+      ok: true,
+      result: { workstreamId: WORKSTREAM_ID, starred: true, starredAt: "2026-07-19T10:00:00.000Z" },
+    });
+    expect(byId.get("q4")).toMatchObject({
+      ok: true,
+      result: {
+        resources: [{ resourceId: "RES-1", name: "menu.md", locator: "/work/menu.md", availability: "available", roles: ["primary"] }],
+      },
+    });
+    expect(service.searchAgentHistory).toHaveBeenCalledWith({ streamId: "S-1", query: "menu", limit: 10 });
+    expect(byId.get("q5")).toMatchObject({
+      ok: true,
+      result: { query: "menu", hits: [{ kind: "message", preview: "menu prices" }] },
+    });
+  });
+
+  it("archives, renames, merges and splits workstreams outside any run", async () => {
+    const response = (operation: string) => vi.fn(async (input: Record<string, unknown>) => ({
+      operation,
+      workstreamId: input["workstreamId"] ?? input["targetWorkstreamId"],
+      title: input["title"] ?? "Website",
+      lifecycleStatus: "active",
+      changed: true,
+      movedRequests: [],
+    }));
+    const service = fakeService({
+      archiveWorkstream: response("archive"),
+      renameWorkstream: response("rename"),
+      mergeWorkstreams: response("merge"),
+      splitWorkstream: response("split"),
+    });
+    const { handler, results } = createHandler(service);
+    const target = "W-20260719-0002";
+
+    handler.handle("client-1", { type: "query", queryId: "l1", kind: "archive_workstream", workstreamId: WORKSTREAM_ID, archived: true });
+    handler.handle("client-1", { type: "query", queryId: "l2", kind: "rename_workstream", workstreamId: WORKSTREAM_ID, title: "Bakery Site" });
+    handler.handle("client-1", {
+      type: "query",
+      queryId: "l3",
+      kind: "merge_workstreams",
+      sourceWorkstreamId: WORKSTREAM_ID,
+      targetWorkstreamId: target,
+    });
+    handler.handle("client-1", {
+      type: "query",
+      queryId: "l4",
+      kind: "split_workstream",
+      workstreamId: WORKSTREAM_ID,
+      requestIds: ["R-0002"],
+      title: "Menu Photos",
+    });
+    handler.handle("client-1", { type: "query", queryId: "l5", kind: "split_workstream", workstreamId: WORKSTREAM_ID, requestIds: ["2"], title: "x" });
+
+    const byId = new Map((await waitForResults(results, 5)).map((result) => [result.queryId, result]));
+    expect(service.archiveWorkstream).toHaveBeenCalledWith({
+      requestId: expect.stringMatching(/^client-archive:/),
+      workstreamId: WORKSTREAM_ID,
+      archived: true,
+      at: "2026-07-19T10:00:00.000Z",
+    });
+    expect(service.mergeWorkstreams).toHaveBeenCalledWith(expect.objectContaining({
+      sourceWorkstreamId: WORKSTREAM_ID,
+      targetWorkstreamId: target,
+    }));
+    expect(service.splitWorkstream).toHaveBeenCalledWith(expect.objectContaining({
+      workstreamId: WORKSTREAM_ID,
+      requestIds: ["R-0002"],
+      title: "Menu Photos",
+    }));
+    expect(byId.get("l1")).toMatchObject({ ok: true, result: { operation: "archive", changed: true } });
+    expect(byId.get("l2")).toMatchObject({ ok: true, result: { operation: "rename", title: "Bakery Site" } });
+    expect(byId.get("l3")).toMatchObject({ ok: true, result: { operation: "merge", workstreamId: target } });
+    expect(byId.get("l5")).toMatchObject({ ok: false, error: "A split needs request ids like R-0001." });
+    expect(isReadOnlyClientQuery({ type: "query", queryId: "l6", kind: "merge_workstreams" })).toBe(false);
+  });
+
+  it("switches the model through the llm config file and reports status", async () => {
+    configHandle = await setupProviderRuntimeConfig("openrouter");
+    const { handler, results } = createHandler(fakeService({}), {
+      runQueueStatus: () => ({ queued: 2, activeRun: { messageId: "m-1", runId: "run-1" } }),
+    });
+
+    handler.handle("client-1", { type: "query", queryId: "q6", kind: "set_model", provider: "openai", model: "gpt-5-mini" });
+    await waitForResults(results, 1);
+    handler.handle("client-1", { type: "query", queryId: "q7", kind: "status" });
+    const [model, status] = await waitForResults(results, 2);
+
+    expect(model).toMatchObject({ ok: true, result: { provider: "openai", model: "gpt-5-mini" } });
+    expect(getLlmRuntimeConfig()).toMatchObject({ activeProvider: "openai", models: { openai: "gpt-5-mini" } });
+    expect(status).toMatchObject({
+      ok: true,
+      result: {
+        queued: 2,
+        activeRun: { messageId: "m-1", runId: "run-1" },
+        pendingApprovals: 0,
+        provider: "openai",
+        model: "gpt-5-mini",
+      },
+    });
+  });
+
+  it("lists active schedules with their last result, and reports a disabled scheduler", async () => {
+    const scheduler = {
+      listSchedules: vi.fn(() => [{
+        scheduleId: "sched_0123456789ab",
+        name: "Inbox digest",
+        prompt: "Summarize new email.",
+        kind: "cron" as const,
+        cron: "0 9 * * 1-5",
+        timezone: "Europe/Berlin",
+        workstreamId: WORKSTREAM_ID,
+        status: "active" as const,
+        nextFireAt: "2026-07-20T07:00:00.000Z",
+        createdAt: "2026-07-17T08:00:00.000Z",
+        updatedAt: "2026-07-17T08:00:00.000Z",
+      }]),
+      recentFires: vi.fn(() => [{
+        fireId: "fire_1",
+        scheduleId: "sched_0123456789ab",
+        scheduledFor: "2026-07-17T07:00:00.000Z",
+        status: "completed" as const,
+        catchUp: false,
+        missedCount: 0,
+        firedAt: "2026-07-17T07:00:01.000Z",
+      }]),
+    };
+    const { handler, results } = createHandler(fakeService({}), { scheduler });
+    const disabled = createHandler(fakeService({}));
+
+    handler.handle("client-1", { type: "query", queryId: "q12", kind: "list_schedules" });
+    disabled.handler.handle("client-1", { type: "query", queryId: "q13", kind: "list_schedules", includeInactive: true });
+
+    const [listed] = await waitForResults(results, 1);
+    expect(scheduler.listSchedules).toHaveBeenCalledWith({ statuses: ["active"], limit: 50 });
+    expect(listed).toMatchObject({
+      ok: true,
+      kind: "list_schedules",
+      result: {
+        schedules: [{
+          scheduleId: "sched_0123456789ab",
+          name: "Inbox digest",
+          cron: "0 9 * * 1-5",
+          status: "active",
+          workstreamId: WORKSTREAM_ID,
+          nextFireAt: "2026-07-20T07:00:00.000Z",
+          lastFire: { scheduledFor: "2026-07-17T07:00:00.000Z", status: "completed" },
+        }],
+      },
+    });
+    const [unavailable] = await waitForResults(disabled.results, 1);
+    expect(unavailable).toMatchObject({ ok: false, error: expect.stringContaining("AYATI_SCHEDULER_ENABLED") });
+  });
+
+  it("browses, edits, archives, exports and imports personal memory", async () => {
+    const store = await createMemoryStore();
+    const card = store.createCard({
+      userId: "local",
+      kind: "identity",
+      slot: "identity/name",
+      text: "User's name is Sai.",
+      value: "Sai",
+      state: "active",
+      confidence: 0.9,
+      importance: 1,
+      sourceType: "explicit_user_statement",
+      sourceReliability: 0.95,
+    });
+    store.addEvidence({ memoryId: card.id, userId: "local", evidenceType: "creates", sourceText: "I'm Sai." });
+    store.createCard({
+      userId: "someone-else",
+      kind: "identity",
+      slot: "identity/name",
+      text: "User's name is Ravi.",
+      state: "active",
+      confidence: 0.9,
+      importance: 1,
+      sourceType: "explicit_user_statement",
+      sourceReliability: 0.95,
+    });
+    const refreshSnapshot = vi.fn(async () => "");
+    const { handler, results } = createHandler(fakeService({}), { memory: { store, userId: "local", refreshSnapshot } });
+    const ask = async (query: Record<string, unknown>) => {
+      const answered = results.length;
+      handler.handle("client-1", { type: "query", queryId: `q${answered}`, ...query });
+      await waitForResults(results, answered + 1);
+      return results[answered]!;
+    };
+
+    expect(await ask({ kind: "list_memories", sectionId: "user_facts" })).toMatchObject({
+      ok: true,
+      result: { sections: [{ sectionId: "user_facts", cards: [{ memoryId: card.id, text: "User's name is Sai.", state: "active" }] }] },
+    });
+    expect(await ask({ kind: "memory_detail", memoryId: card.id })).toMatchObject({
+      ok: true,
+      result: {
+        memory: { memoryId: card.id, confirmations: 0 },
+        evidence: [{ evidenceType: "creates", sourceText: "I'm Sai." }],
+        events: [{ eventType: "creates" }],
+      },
+    });
+    expect(await ask({ kind: "edit_memory", memoryId: card.id.slice(0, 12), text: "User's name is Sai Eshwar.", value: null }))
+      .toMatchObject({ ok: true, result: { memory: { text: "User's name is Sai Eshwar.", sourceType: "manual_user_request" } } });
+    expect(store.getMemory(card.id)?.value).toBeNull();
+    const exported = await ask({ kind: "export_memory" });
+    expect(exported).toMatchObject({ ok: true, result: { format: "ayati-personal-memory", version: 1, cards: [{ id: card.id }] } });
+    expect(await ask({ kind: "archive_memory", memoryId: card.id })).toMatchObject({ ok: true, result: { memory: { state: "archived" } } });
+    expect(await ask({ kind: "list_memories", sectionId: "user_facts" }))
+      .toMatchObject({ result: { sections: [{ cards: [] }] } });
+    expect(await ask({ kind: "import_memory", mode: "replace", document: (exported as { result: unknown }).result }))
+      .toMatchObject({ ok: true, result: { mode: "replace", cards: 1, skipped: 0 } });
+    expect(store.getMemory(card.id)?.state).toBe("active");
+    expect(refreshSnapshot.mock.calls.map(([reason]) => reason))
+      .toEqual(["client_memory_edit", "client_memory_archive", "client_memory_import"]);
+
+    const otherUsersCard = store.listMemories("someone-else")[0]!;
+    expect(await ask({ kind: "memory_detail", memoryId: otherUsersCard.id }))
+      .toMatchObject({ ok: false, error: `Memory ${otherUsersCard.id} does not exist.` });
+    expect(await ask({ kind: "edit_memory", memoryId: card.id })).toMatchObject({ ok: false, error: expect.stringContaining("at least one") });
+    expect(await ask({ kind: "list_memories", sectionId: "secrets" })).toMatchObject({ ok: false, kind: "list_memories" });
+    expect(await ask({ kind: "import_memory", document: { format: "other" } }))
+      .toMatchObject({ ok: false, error: expect.stringContaining("ayati-personal-memory") });
+
+    const withoutMemory = createHandler(fakeService({}));
+    withoutMemory.handler.handle("client-1", { type: "query", queryId: "q-none", kind: "export_memory" });
+    expect((await waitForResults(withoutMemory.results, 1))[0])
+      .toMatchObject({ ok: false, error: "Personal memory is not available in this daemon." });
+  });
+
+  it("answers invalid queries and engine failures with errors, and ignores other envelopes", async () => {
+    const service = fakeService({
+      getWorkstream: vi.fn(async () => {
+        throw new Error("Workstream does not exist.");
+      }),
+    });
+    const { handler, results } = createHandler(service);
+
+    expect(handler.handle("client-1", { type: "chat", content: "hi" })).toBe(false);
+    handler.handle("client-1", { type: "query", queryId: "q8", kind: "open_workstream", workstreamId: "nope" });
+    handler.handle("client-1", { type: "query", queryId: "q9", kind: "set_model", provider: "acme", model: "m" });
+    handler.handle("client-1", { type: "query", queryId: "q10", kind: "open_workstream", workstreamId: "W-20260719-0404" });
+    handler.handle("client-1", { type: "query", queryId: "q11", kind: "drop_tables" });
+
+    const byId = new Map((await waitForResults(results, 4)).map((result) => [result.queryId, result]));
+    expect(byId.get("q8")).toMatchObject({ ok: false, kind: "open_workstream", error: expect.stringContaining("workstream id") });
+    expect(byId.get("q9")).toMatchObject({ ok: false, error: expect.stringContaining("Unknown provider \"acme\"") });
+    expect(byId.get("q10")).toMatchObject({ ok: false, error: "Workstream does not exist." });
+    expect(byId.get("q11")).toMatchObject({ ok: false, kind: "unknown", error: "Unknown query kind." });
+  });
+
+  it("marks only queries that change nothing as open to observer clients", () => {
+    expect(isReadOnlyClientQuery({ type: "query", queryId: "q1", kind: "status" })).toBe(true);
+    expect(isReadOnlyClientQuery({ type: "query", queryId: "q2", kind: "search_history", query: "x" })).toBe(true);
+    expect(isReadOnlyClientQuery({ type: "query", queryId: "q3", kind: "set_model" })).toBe(false);
+    expect(isReadOnlyClientQuery({ type: "query", queryId: "q4", kind: "set_workstream_star" })).toBe(false);
+    expect(isReadOnlyClientQuery({ type: "query", queryId: "q5", kind: "memory_detail", memoryId: "mem_1" })).toBe(true);
+    expect(isReadOnlyClientQuery({ type: "query", queryId: "q6", kind: "archive_memory", memoryId: "mem_1" })).toBe(false);
+    expect(isReadOnlyClientQuery({ type: "chat", content: "status" })).toBe(false);
+  });
+});
+
+function createHandler(
+  service: ContextEngineService,
+  overrides: {
+    runQueueStatus?: () => { queued: number };
+    scheduler?: ClientQueryHandlerOptions["scheduler"];
+    memory?: ClientQueryHandlerOptions["memory"];
+  } = {},
+): { handler: ClientQueryHandler; results: ClientQueryResultEnvelope[] } {
+  const results: ClientQueryResultEnvelope[] = [];
+  const handler = new ClientQueryHandler({
+    service,
+    agentId: "ayati",
+    runQueueStatus: overrides.runQueueStatus ?? (() => ({ queued: 0 })),
+    ...(overrides.scheduler ? { scheduler: overrides.scheduler } : {}),
+    ...(overrides.memory ? { memory: overrides.memory } : {}),
+    send: (clientId, data) => {
+      expect(clientId).toBe("client-1");
+      results.push(data);
+    },
+    now: () => new Date("2026-07-19T10:00:00.000Z"),
+  });
+  return { handler, results };
+}
+
+async function createMemoryStore(): Promise<PersonalMemoryStore> {
+  const root = await mkdtemp(join(tmpdir(), "ayati-query-memory-"));
+  roots.push(root);
+  const store = new PersonalMemoryStore({ dataDir: root, now: () => new Date("2026-07-19T10:00:00.000Z") });
+  store.start(DEFAULT_MEMORY_POLICY);
+  stores.push(store);
+  return store;
+}
+
+function fakeService(methods: Record<string, unknown>): ContextEngineService {
+  return {
+    readWorkstream: vi.fn(),
+    ...methods,
+  } as unknown as ContextEngineService;
+}
+
+async function waitForResults(
+  results: ClientQueryResultEnvelope[],
+  count: number,
+): Promise<ClientQueryResultEnvelope[]> {
+  await vi.waitFor(() => expect(results.length).toBeGreaterThanOrEqual(count));
+  return results.slice(-count);
+}
@@ -0,0 +1,120 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  CostBudgetLedger,
+  createBudgetMeteredProvider,
+  hasCostBudget,
+  loadCostBudgetPolicy,
+} from "../../src/app/cost-budget-ledger.js";
+import type { LlmProvider } from "../../src/core/contracts/provider.js";
+
+const roots: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map((root) => rm(root, { recursive: true, force: true })));
+});
+
+async function ledgerPath(): Promise<string> {
+  const root = await mkdtemp(join(tmpdir(), "ayati-budget-"));
+  roots.push(root);
+  return join(root, "runtime", "cost-budget-ledger.json");
+}
+
+describe("cost budget ledger", () => {
+  it("loads limits per scope and reports whether any budget is configured", () => {
+    expect(hasCostBudget(loadCostBudgetPolicy({}))).toBe(false);
+    const policy = loadCostBudgetPolicy({ AYATI_BUDGET_WORKSTREAM_USD: "2.5", AYATI_BUDGET_DAY_TOKENS: "900" });
+    expect(policy).toEqual({ run: {}, workstream: { usd: 2.5 }, day: { tokens: 900 } });
+    expect(hasCostBudget(policy)).toBe(true);
+  });
+
+  it("stops before a run would cross its own limit", async () => {
+    const ledger = new CostBudgetLedger({
+      policy: { run: { usd: 1 }, workstream: {}, day: {} },
+      filePath: await ledgerPath(),
+      timezone: "UTC",
+    });
+
+    expect(ledger.check({ spent: { usd: 0.6, tokens: 0 }, projected: { usd: 0.3, tokens: 0 } })).toBeNull();
+    expect(ledger.check({ spent: { usd: 0.8, tokens: 0 }, projected: { usd: 0.3, tokens: 0 } })).toEqual({
+      scope: "run",
+      unit: "usd",
+      limit: 1,
+      spent: 0.8,
+      projected: 0.3,
+    });
+  });
+
+  it("adds the running run to its workstream total and omits unbound workstream headroom", async () => {
+    const ledger = new CostBudgetLedger({
+      policy: { run: {}, workstream: { tokens: 10_000 }, day: {} },
+      filePath: await ledgerPath(),
+      timezone: "UTC",
+    });
+    ledger.recordRun({ workstreamId: "W-1", spend: { usd: 0, tokens: 8_000 } });
+
+    expect(ledger.check({
+      spent: { usd: 0, tokens: 1_500 },
+      projected: { usd: 0, tokens: 1_000 },
+      workstreamId: "W-1",
+    })).toMatchObject({ scope: "workstream", unit: "tokens", spent: 9_500 });
+    expect(ledger.remaining({ spent: { usd: 0, tokens: 1_500 }, workstreamId: "W-1" }))
+      .toEqual({ workstream: { tokens: 500 } });
+    expect(ledger.remaining()).toBeUndefined();
+  });
+
+  it("meters provider calls into the calendar day of the configured timezone and persists them", async () => {
+    const filePath = await ledgerPath();
+    let now = new Date("2026-10-19T18:00:00Z");
+    const ledger = new CostBudgetLedger({
+      policy: { run: {}, workstream: {}, day: { usd: 1 } },
+      filePath,
+      timezone: "Asia/Kolkata",
+      now: () => now,
+    });
+    const provider = createBudgetMeteredProvider({
+      name: "fake",
+      version: "1.0.0",
+      capabilities: { nativeToolCalling: true },
+      start: vi.fn(),
+      stop: vi.fn(),
+      generateTurn: vi.fn(async () => ({
+        type: "assistant" as const,
+        content: "ok",
+        usage: { provider: "fake", model: "m", inputTokens: 10, outputTokens: 5, totalTokens: 15, exact: true },
+        cost: {
+          currency: "USD" as const,
+          inputCostUsd: 0.3,
+          cachedInputCostUsd: 0,
+          outputCostUsd: 0.1,
+          totalCostUsd: 0.4,
+          pricingSource: "test",
+        },
+      })),
+    } satisfies LlmProvider, ledger);
+
+    await provider.generateTurn({ messages: [] });
+    expect(ledger.remaining()).toEqual({ day: { usd: 0.6 } });
+    await ledger.flush();
+    expect(JSON.parse(await readFile(filePath, "utf8"))).toEqual({
+      version: 1,
+      days: { "2026-10-19": { usd: 0.4, tokens: 15 } },
+      workstreams: {},
+    });
+
+    const reloaded = new CostBudgetLedger({
+      policy: { run: {}, workstream: {}, day: { usd: 1 } },
+      filePath,
+      timezone: "Asia/Kolkata",
+      now: () => now,
+    });
+    await reloaded.load();
+    expect(reloaded.check({ spent: { usd: 0, tokens: 0 }, projected: { usd: 0.7, tokens: 0 } }))
+      .toMatchObject({ scope: "day", spent: 0.4 });
+
+    now = new Date("2026-10-19T19:00:00Z");
+    expect(reloaded.remaining()).toEqual({ day: { usd: 1 } });
+  });
+});
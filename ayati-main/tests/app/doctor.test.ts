@@ -1,10 +1,12 @@
 import { describe, expect, it } from "vitest";
 import {
+  checkProcessSandbox,
   hasDoctorFailures,
   renderDoctorReport,
   summarizeDoctorReport,
   type DoctorReport,
 } from "../../src/app/doctor.js";
+import { DEFAULT_PROCESS_SANDBOX_POLICY } from "../../src/skills/process-sandbox.js";
 
 function makeReport(): DoctorReport {
   return {
@@ -52,4 +54,19 @@ describe("doctor report", () => {
     expect(output).toContain("- [WARN] pandoc: missing");
     expect(output).toContain("Summary: 2 ok, 1 warn, 1 fail");
   });
+
+  it("reports the process sandbox that tools will run under", () => {
+    const full = checkProcessSandbox(DEFAULT_PROCESS_SANDBOX_POLICY, { bwrap: true, unshare: true, prlimit: true });
+    expect(full.map((check) => check.status)).toEqual(["ok", "ok", "ok", "ok", "ok"]);
+
+    const bare = checkProcessSandbox(DEFAULT_PROCESS_SANDBOX_POLICY, { bwrap: false, unshare: false, prlimit: false });
+    expect(bare[0]).toMatchObject({ label: "isolation", status: "warn", detail: expect.stringContaining("none;") });
+    expect(bare.at(-1)).toEqual({ label: "network", status: "warn", detail: "cannot be blocked without a namespace tool" });
+
+    const explicit = checkProcessSandbox(
+      { ...DEFAULT_PROCESS_SANDBOX_POLICY, mode: "bwrap" },
+      { bwrap: false, unshare: true, prlimit: true },
+    );
+    expect(explicit[0]).toMatchObject({ label: "isolation", status: "fail" });
+  });
 });
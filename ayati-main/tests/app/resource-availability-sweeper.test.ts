@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from "vitest";
+import type {
+  ResourceAvailabilityDrift,
+  SweepResourceAvailabilityResponse,
+} from "ayati-context-engine";
+import {
+  deliverableDriftNotification,
+  ResourceAvailabilitySweeper,
+} from "../../src/app/resource-availability-sweeper.js";
+
+const AT = "2026-07-19T05:30:00.000Z";
+
+describe("resource availability sweeper", () => {
+  it("notifies clients only about deliverables that changed or disappeared", async () => {
+    const sweepResourceAvailability = vi.fn(async (): Promise<SweepResourceAvailabilityResponse> => ({
+      observed: 3,
+      drift: [
+        drift("RES-1", "report.md", "missing", true),
+        drift("RES-2", "notes.md", "changed", false),
+        drift("RES-3", "draft.md", "restored", true),
+      ],
+      failures: [],
+    }));
+    const broadcast = vi.fn(() => 1);
+    const sweeper = new ResourceAvailabilitySweeper({
+      service: { sweepResourceAvailability },
+      intervalMs: 60_000,
+      broadcast,
+      now: () => new Date(AT),
+    });
+
+    await expect(sweeper.sweep()).resolves.toMatchObject({ status: "success", value: { observed: 3 } });
+
+    expect(sweepResourceAvailability).toHaveBeenCalledWith({ at: AT });
+    expect(broadcast).toHaveBeenCalledTimes(1);
+    expect(broadcast).toHaveBeenCalledWith({
+      type: "notification",
+      content: "Deliverable report.md of \"Solar Research\" (W-20260719-0001) is missing from /work/report.md.",
+      resourceDrift: {
+        eventId: "RE-RES-1",
+        resourceId: "RES-1",
+        displayName: "report.md",
+        change: "missing",
+        availability: "missing",
+        workstreams: [{ workstreamId: "W-20260719-0001", title: "Solar Research" }],
+      },
+    });
+  });
+
+  it("joins a sweep already in progress and stays idle when disabled", async () => {
+    let release!: () => void;
+    const sweepResourceAvailability = vi.fn(() => new Promise<SweepResourceAvailabilityResponse>((resolve) => {
+      release = () => resolve({ observed: 0, drift: [], failures: [] });
+    }));
+    const sweeper = new ResourceAvailabilitySweeper({
+      service: { sweepResourceAvailability },
+      intervalMs: 60_000,
+      broadcast: () => 0,
+    });
+
+    const first = sweeper.sweep();
+    const second = sweeper.sweep();
+    await vi.waitFor(() => expect(sweepResourceAvailability).toHaveBeenCalledTimes(1));
+    release();
+    await expect(Promise.all([first, second])).resolves.toEqual([
+      expect.objectContaining({ status: "success" }),
+      expect.objectContaining({ status: "success" }),
+    ]);
+    expect(sweepResourceAvailability).toHaveBeenCalledTimes(1);
+
+    const disabled = vi.fn();
+    const idle = new ResourceAvailabilitySweeper({
+      service: { sweepResourceAvailability: disabled },
+      intervalMs: 0,
+      broadcast: () => 0,
+    });
+    idle.start();
+    await idle.stop();
+    expect(disabled).not.toHaveBeenCalled();
+  });
+
+  it("reports a failed sweep without throwing", async () => {
+    const sweeper = new ResourceAvailabilitySweeper({
+      service: { sweepResourceAvailability: async () => { throw new Error("database is locked"); } },
+      intervalMs: 60_000,
+      broadcast: () => 0,
+    });
+
+    await expect(sweeper.sweep()).resolves.toMatchObject({ status: "failed", error: "database is locked" });
+  });
+
+  it("describes content changes to deliverables", () => {
+    expect(deliverableDriftNotification(drift("RES-2", "notes.md", "changed", true))?.content)
+      .toBe("Deliverable notes.md of \"Solar Research\" (W-20260719-0001) changed outside Ayati.");
+  });
+});
+
+function drift(
+  resourceId: string,
+  displayName: string,
+  change: ResourceAvailabilityDrift["change"],
+  deliverable: boolean,
+): ResourceAvailabilityDrift {
+  const exists = change !== "missing";
+  return {
+    eventId: `RE-${resourceId}`,
+    change,
+    previousVersion: { key: "file:before", observedAt: AT, exists: change !== "restored", kind: "file" },
+    resource: {
+      resourceId,
+      kind: "file",
+      origin: "agent_created",
+      displayName,
+      description: displayName,
+      aliases: [],
+      locator: { kind: "filesystem", path: `/work/${displayName}` },
+      version: { key: exists ? "file:after" : "missing", observedAt: AT, exists, kind: "file" },
+      availability: change === "changed" ? "changed" : exists ? "available" : "missing",
+      metadataStatus: "enriched",
+      createdAt: AT,
+      updatedAt: AT,
+    },
+    workstreams: [{
+      workstreamId: "W-20260719-0001",
+      title: "Solar Research",
+      role: deliverable ? "primary" : "reference",
+      primary: deliverable,
+      deliverable,
+    }],
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from "vitest";
+import type { RefreshSemanticIndexResponse } from "ayati-context-engine";
+import { SemanticIndexRefresher } from "../../src/app/semantic-index-refresher.js";
+
+describe("semantic index refresher", () => {
+  it("embeds batches until nothing is pending", async () => {
+    const responses: RefreshSemanticIndexResponse[] = [
+      { embedderId: "hashed-ngram-v1:2048", embedded: 256, pending: 300 },
+      { embedderId: "hashed-ngram-v1:2048", embedded: 256, pending: 44 },
+      { embedderId: "hashed-ngram-v1:2048", embedded: 44, pending: 0 },
+    ];
+    const refreshSemanticIndex = vi.fn(async () => responses.shift()!);
+    const refresher = new SemanticIndexRefresher({ service: { refreshSemanticIndex } });
+
+    await expect(refresher.refresh()).resolves.toEqual({
+      status: "success",
+      durationMs: expect.any(Number),
+      value: { embedderId: "hashed-ngram-v1:2048", embedded: 556, pending: 0 },
+    });
+    expect(refreshSemanticIndex).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops after a batch that embeds nothing and reports a failing embedder", async () => {
+    const refreshSemanticIndex = vi.fn(async (): Promise<RefreshSemanticIndexResponse> => ({
+      embedderId: "remote",
+      embedded: 0,
+      pending: 12,
+    }));
+    const refresher = new SemanticIndexRefresher({ service: { refreshSemanticIndex } });
+
+    await expect(refresher.refresh()).resolves.toMatchObject({ status: "success", value: { embedded: 0, pending: 12 } });
+    expect(refreshSemanticIndex).toHaveBeenCalledTimes(1);
+
+    refreshSemanticIndex.mockRejectedValueOnce(new Error("embedding endpoint unavailable"));
+    await expect(refresher.refresh()).resolves.toMatchObject({
+      status: "failed",
+      error: "embedding endpoint unavailable",
+    });
+  });
+
+  it("stays idle when disabled", async () => {
+    const refreshSemanticIndex = vi.fn();
+    const refresher = new SemanticIndexRefresher({ service: { refreshSemanticIndex }, intervalMs: 0 });
+
+    refresher.start();
+    await refresher.stop();
+
+    expect(refreshSemanticIndex).not.toHaveBeenCalled();
+  });
+});
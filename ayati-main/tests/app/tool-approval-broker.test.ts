@@ -0,0 +1,325 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import type { ContextEngineService } from "ayati-context-engine";
+import { createApprovalGatedToolExecutor } from "../../src/app/approval-gated-tool-executor.js";
+import {
+  loadToolApprovalPolicy,
+  ToolApprovalBroker,
+  type ToolApprovalRequestedEnvelope,
+} from "../../src/app/tool-approval-broker.js";
+import { commonAnnotations } from "../../src/skills/builtins/contract-helpers.js";
+import databaseSkill from "../../src/skills/builtins/database/index.js";
+import { createGitContextSkill } from "../../src/skills/builtins/git-context/index.js";
+import { getToolTaxonomy } from "../../src/skills/tool-taxonomy.js";
+import { createToolExecutor } from "../../src/skills/tool-executor.js";
+import type { ToolDefinition } from "../../src/skills/types.js";
+import { createRepairSignalFromStepSummary } from "../../src/ivec/agent-runner/repair-feedback.js";
+
+describe("tool approval broker", () => {
+  it("asks the run's client and resolves with its decision", async () => {
+    const broker = new ToolApprovalBroker();
+    const sent: unknown[] = [];
+    broker.attachRun("R-1", { clientId: "transport-1", interactive: true, send: (data) => sent.push(data) });
+
+    const pending = broker.requestApproval({
+      runId: "R-1",
+      tool: "delete",
+      reason: "destructive",
+      target: "/tmp/report.txt",
+      preview: "{\"path\":\"/tmp/report.txt\"}",
+    });
+    const request = sent[0] as ToolApprovalRequestedEnvelope;
+    expect(request).toMatchObject({
+      type: "approval_requested",
+      runId: "R-1",
+      tool: "delete",
+      target: "/tmp/report.txt",
+      options: ["approve", "deny"],
+    });
+
+    expect(broker.respond("other-client", {
+      type: "approval_response",
+      approvalId: request.approvalId,
+      decision: "approve",
+    })).toBe(true);
+    expect(broker.pendingCount()).toBe(1);
+
+    broker.respond("transport-1", {
+      type: "approval_response",
+      approvalId: request.approvalId,
+      decision: "deny",
+    });
+    await expect(pending).resolves.toMatchObject({ approved: false, decision: "deny", source: "user" });
+    expect(sent[1]).toMatchObject({ type: "approval_resolved", decision: "deny", source: "user" });
+  });
+
+  it("remembers always-for-this-workstream grants per tool", async () => {
+    const broker = new ToolApprovalBroker();
+    const send = vi.fn();
+    broker.attachRun("R-1", { clientId: "transport-1", interactive: true, send });
+
+    const first = broker.requestApproval({
+      runId: "R-1",
+      workstreamId: "W-1",
+      tool: "process_run",
+      reason: "external_effect",
+      preview: "{}",
+    });
+    const request = send.mock.calls[0]?.[0] as ToolApprovalRequestedEnvelope;
+    expect(request.options).toContain("always_for_workstream");
+    broker.respond("transport-1", {
+      type: "approval_response",
+      approvalId: request.approvalId,
+      decision: "always_for_workstream",
+    });
+    await expect(first).resolves.toMatchObject({ approved: true });
+
+    await expect(broker.requestApproval({
+      runId: "R-1",
+      workstreamId: "W-1",
+      tool: "process_run",
+      reason: "external_effect",
+      preview: "{}",
+    })).resolves.toEqual({ approved: true, decision: "always_for_workstream", source: "standing_grant" });
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("restores standing grants after a daemon restart", async () => {
+    const root = await mkdtemp(join(tmpdir(), "ayati-approval-grants-"));
+    try {
+      const grantsFilePath = join(root, "runtime", "tool-approval-grants.json");
+      const broker = new ToolApprovalBroker({ grantsFilePath });
+      const send = vi.fn();
+      broker.attachRun("R-1", { clientId: "transport-1", interactive: true, send });
+      const first = broker.requestApproval({
+        runId: "R-1",
+        workstreamId: "W-1",
+        tool: "process_run",
+        reason: "external_effect",
+        preview: "{}",
+      });
+      const request = send.mock.calls[0]?.[0] as ToolApprovalRequestedEnvelope;
+      broker.respond("transport-1", {
+        type: "approval_response",
+        approvalId: request.approvalId,
+        decision: "always_for_workstream",
+      });
+      await first;
+      await broker.flush();
+
+      const restarted = new ToolApprovalBroker({ grantsFilePath });
+      await restarted.load();
+      await expect(restarted.requestApproval({
+        runId: "R-2",
+        workstreamId: "W-1",
+        tool: "process_run",
+        reason: "external_effect",
+        preview: "{}",
+      })).resolves.toMatchObject({ approved: true, source: "standing_grant" });
+      await expect(restarted.requestApproval({
+        runId: "R-2",
+        workstreamId: "W-2",
+        tool: "process_run",
+        reason: "external_effect",
+        preview: "{}",
+      })).resolves.toMatchObject({ approved: false, source: "unattended" });
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it("denies without prompting when no interactive client owns the run", async () => {
+    const broker = new ToolApprovalBroker();
+    broker.attachRun("R-voice", { clientId: "voice", interactive: false, send: vi.fn() });
+
+    await expect(broker.requestApproval({
+      runId: "R-voice",
+      tool: "delete",
+      reason: "destructive",
+      preview: "{}",
+    })).resolves.toMatchObject({ approved: false, source: "unattended" });
+  });
+
+  it("approves a run's pre-approved tools without prompting, even when unattended", async () => {
+    const broker = new ToolApprovalBroker();
+    const send = vi.fn();
+    broker.attachRun("R-scheduled", {
+      clientId: "scheduler",
+      interactive: false,
+      preApprovedTools: ["process_run"],
+      send,
+    });
+
+    await expect(broker.requestApproval({
+      runId: "R-scheduled",
+      tool: "process_run",
+      reason: "external_effect",
+      preview: "{}",
+    })).resolves.toEqual({ approved: true, decision: "approve", source: "pre_approved" });
+    await expect(broker.requestApproval({
+      runId: "R-scheduled",
+      tool: "db_drop_table",
+      reason: "destructive",
+      preview: "{}",
+    })).resolves.toMatchObject({ approved: false, source: "unattended" });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("denies pending approvals on timeout and when the run is released", async () => {
+    vi.useFakeTimers();
+    try {
+      const broker = new ToolApprovalBroker({ policy: { mode: "prompt", timeoutMs: 1_000 } });
+      const release = broker.attachRun("R-1", { clientId: "c", interactive: true, send: vi.fn() });
+      const timedOut = broker.requestApproval({ runId: "R-1", tool: "move", reason: "destructive", preview: "{}" });
+      await vi.advanceTimersByTimeAsync(1_000);
+      await expect(timedOut).resolves.toMatchObject({ approved: false, source: "timeout" });
+
+      const released = broker.requestApproval({ runId: "R-1", tool: "move", reason: "destructive", preview: "{}" });
+      release();
+      await expect(released).resolves.toMatchObject({ approved: false, source: "run_ended" });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("loads the operator approval policy from the environment", () => {
+    expect(loadToolApprovalPolicy({})).toEqual({ mode: "prompt", timeoutMs: 300_000 });
+    expect(() => loadToolApprovalPolicy({ AYATI_TOOL_APPROVAL_MODE: "never" }))
+      .toThrow(/AYATI_TOOL_APPROVAL_MODE/);
+  });
+});
+
+describe("approval-gated tool executor", () => {
+  it("runs annotated tools only after approval and returns a typed denial otherwise", async () => {
+    const execute = vi.fn(async () => ({ ok: true, output: "deleted" }));
+    const readExecute = vi.fn(async () => ({ ok: true, output: "read" }));
+    const broker = new ToolApprovalBroker();
+    const send = vi.fn();
+    broker.attachRun("R-1", { clientId: "c", interactive: true, send });
+    const executor = createApprovalGatedToolExecutor({
+      base: createToolExecutor([
+        fakeTool("remove_thing", execute, { destructive: true }),
+        fakeTool("read_thing", readExecute, { readOnly: true }),
+      ]),
+      broker,
+    });
+
+    await expect(executor.execute("read_thing", {}, { runId: "R-1" })).resolves.toMatchObject({ ok: true });
+    expect(send).not.toHaveBeenCalled();
+
+    const denied = executor.execute("remove_thing", { path: "/tmp/a.txt" }, { runId: "R-1" });
+    const request = send.mock.calls[0]?.[0] as ToolApprovalRequestedEnvelope;
+    expect(request).toMatchObject({ tool: "remove_thing", reason: "destructive", target: "/tmp/a.txt" });
+    broker.respond("c", { type: "approval_response", approvalId: request.approvalId, decision: "deny" });
+
+    await expect(denied).resolves.toMatchObject({
+      ok: false,
+      v2: {
+        code: "TOOL_APPROVAL_DENIED",
+        error: { category: "permission", retryable: false, target: "/tmp/a.txt" },
+      },
+    });
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it("asks before dropping or deleting from a database table", async () => {
+    const broker = new ToolApprovalBroker();
+    const send = vi.fn();
+    broker.attachRun("R-1", { clientId: "c", interactive: true, send });
+    const executor = createApprovalGatedToolExecutor({
+      base: createToolExecutor(databaseSkill.tools),
+      broker,
+    });
+
+    for (const tool of ["db_drop_table", "db_delete_rows"]) {
+      const denied = executor.execute(tool, { table: "orders" }, { runId: "R-1" });
+      const request = send.mock.calls.at(-1)?.[0] as ToolApprovalRequestedEnvelope;
+      expect(request).toMatchObject({ type: "approval_requested", tool, reason: "destructive" });
+      broker.respond("c", { type: "approval_response", approvalId: request.approvalId, decision: "deny" });
+      await expect(denied).resolves.toMatchObject({ ok: false, v2: { code: "TOOL_APPROVAL_DENIED" } });
+    }
+  });
+
+  it("asks before merging or splitting workstreams", async () => {
+    const broker = new ToolApprovalBroker();
+    const send = vi.fn();
+    broker.attachRun("R-1", { clientId: "c", interactive: true, send });
+    const service = { mergeWorkstreams: vi.fn(), splitWorkstream: vi.fn() };
+    const executor = createApprovalGatedToolExecutor({
+      base: createToolExecutor(createGitContextSkill({ service: service as unknown as ContextEngineService }).tools),
+      broker,
+    });
+
+    for (const tool of ["git_context_merge_workstreams", "git_context_split_workstream"]) {
+      expect(getToolTaxonomy(tool)?.roles).toContain("workstream_mutation");
+      const denied = executor.execute(tool, { workstreamId: "W-20260719-0001" }, { runId: "R-1" });
+      const request = send.mock.calls.at(-1)?.[0] as ToolApprovalRequestedEnvelope;
+      expect(request).toMatchObject({ type: "approval_requested", tool, reason: "destructive" });
+      broker.respond("c", { type: "approval_response", approvalId: request.approvalId, decision: "deny" });
+      await expect(denied).resolves.toMatchObject({ ok: false, v2: { code: "TOOL_APPROVAL_DENIED" } });
+    }
+    expect(service.mergeWorkstreams).not.toHaveBeenCalled();
+    expect(service.splitWorkstream).not.toHaveBeenCalled();
+  });
+
+  it("gates tools the safety taxonomy marks destructive even without annotations", async () => {
+    const execute = vi.fn(async () => ({ ok: true, output: "dropped" }));
+    const broker = new ToolApprovalBroker();
+    broker.attachRun("R-voice", { clientId: "voice", interactive: false, send: vi.fn() });
+    const executor = createApprovalGatedToolExecutor({
+      base: createToolExecutor([{
+        name: "db_drop_table",
+        description: "Drop a table.",
+        inputSchema: { type: "object", properties: {} },
+        execute,
+      }]),
+      broker,
+    });
+
+    await expect(executor.execute("db_drop_table", { table: "orders" }, { runId: "R-voice" }))
+      .resolves.toMatchObject({ ok: false, v2: { code: "TOOL_APPROVAL_DENIED" } });
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it("turns a denied tool call into a typed repair outcome", () => {
+    const repair = createRepairSignalFromStepSummary({
+      step: 2,
+      executionContract: "single action: delete",
+      outcome: "failed",
+      summary: "delete: The user denied 'delete'.",
+      newFacts: [],
+      artifacts: [],
+      toolsUsed: ["delete"],
+      toolSuccessCount: 0,
+      toolFailureCount: 1,
+      evidenceItems: ["delete: The user denied 'delete'."],
+      failureType: "tool_error",
+      evidenceSource: {
+        kind: "tool-output",
+        toolCalls: [{ tool: "delete", status: "failed", code: "TOOL_APPROVAL_DENIED", path: "/tmp/a.txt" }],
+      },
+    });
+
+    expect(repair).toMatchObject({
+      code: "R_TOOL_APPROVAL_DENIED",
+      blockedTargets: ["delete"],
+      modelFacing: true,
+    });
+  });
+});
+
+function fakeTool(
+  name: string,
+  execute: ToolDefinition["execute"],
+  annotations: Partial<Parameters<typeof commonAnnotations>[0]>,
+): ToolDefinition {
+  return {
+    name,
+    description: name,
+    inputSchema: { type: "object", properties: {} },
+    annotations: commonAnnotations({ domain: "general", readOnly: false, ...annotations }),
+    execute,
+  };
+}
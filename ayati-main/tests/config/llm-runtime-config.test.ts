@@ -9,7 +9,9 @@ import {
   getConfiguredModelContextLimits,
   getModelForProvider,
   initializeLlmRuntimeConfig,
+  resolveLlmModelRoutes,
   resetLlmRuntimeConfigForTests,
+  setActiveModel,
   setActiveProvider,
   setModelContextLimitsForProvider,
   setModelForProvider,
@@ -54,7 +56,10 @@ describe("llm runtime config", () => {
         openai: "gpt-5-mini",
         anthropic: "claude-sonnet-4-5-20250929",
         fireworks: "fireworks/minimax-m2p5",
+        local: "llama3.1:8b",
       },
+      fallback: [],
+      roles: {},
       modelContextLimits: {},
     });
 
@@ -63,6 +68,23 @@ describe("llm runtime config", () => {
     expect(saved.models.openai).toBe("gpt-5-mini");
   });
 
+  it("switches provider and model together in one write", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "ayati-llm-config-"));
+    tempDirs.push(tempDir);
+    const configPath = join(tempDir, "llm-config.json");
+
+    await initializeLlmRuntimeConfig({ configPath });
+    await setActiveModel("anthropic", " claude-opus-4-1 ");
+
+    expect(getActiveProvider()).toBe("anthropic");
+    expect(getModelForProvider("anthropic")).toBe("claude-opus-4-1");
+    const saved = JSON.parse(await readFile(configPath, "utf8"));
+    expect(saved.activeProvider).toBe("anthropic");
+    expect(saved.models.anthropic).toBe("claude-opus-4-1");
+    await expect(setActiveModel("openai", "  ")).rejects.toThrow("must not be empty");
+    expect(getActiveProvider()).toBe("anthropic");
+  });
+
   it("persists context limits for the configured provider model", async () => {
     const tempDir = await mkdtemp(join(tmpdir(), "ayati-llm-config-"));
     tempDirs.push(tempDir);
@@ -214,4 +236,62 @@ describe("llm runtime config", () => {
       'Invalid LLM runtime config: unsupported activeProvider "gemini".',
     );
   });
+
+  it("resolves per-role routes followed by the ordered fallback chain", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "ayati-llm-config-"));
+    tempDirs.push(tempDir);
+    const configPath = join(tempDir, "llm-config.json");
+
+    await writeFile(
+      configPath,
+      JSON.stringify({
+        activeProvider: "anthropic",
+        models: { openai: "gpt-4o" },
+        fallback: ["openai", { provider: "local", model: "qwen2.5:14b" }],
+        roles: {
+          stream_checkpoint: { provider: "openai", model: "gpt-4o-mini" },
+        },
+      }),
+      "utf8",
+    );
+
+    await initializeLlmRuntimeConfig({ configPath });
+
+    expect(resolveLlmModelRoutes("decision")).toEqual([
+      { provider: "anthropic", model: "claude-sonnet-4-5-20250929" },
+      { provider: "openai", model: "gpt-4o" },
+      { provider: "local", model: "qwen2.5:14b" },
+    ]);
+    expect(resolveLlmModelRoutes("stream_checkpoint")).toEqual([
+      { provider: "openai", model: "gpt-4o-mini" },
+      { provider: "openai", model: "gpt-4o" },
+      { provider: "local", model: "qwen2.5:14b" },
+    ]);
+    const saved = JSON.parse(await readFile(configPath, "utf8"));
+    expect(saved.fallback).toEqual([{ provider: "openai" }, { provider: "local", model: "qwen2.5:14b" }]);
+  });
+
+  it("rejects unknown model roles and fallback providers", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "ayati-llm-config-"));
+    tempDirs.push(tempDir);
+    const configPath = join(tempDir, "llm-config.json");
+
+    await writeFile(configPath, JSON.stringify({
+      activeProvider: "openai",
+      models: {},
+      roles: { summarizer: "openai" },
+    }), "utf8");
+    await expect(initializeLlmRuntimeConfig({ configPath })).rejects.toThrow(
+      'Invalid LLM runtime config: unsupported role "summarizer".',
+    );
+
+    await writeFile(configPath, JSON.stringify({
+      activeProvider: "openai",
+      models: {},
+      fallback: ["gemini"],
+    }), "utf8");
+    await expect(initializeLlmRuntimeConfig({ configPath })).rejects.toThrow(
+      'Invalid LLM runtime config: unsupported fallback[0].provider "gemini".',
+    );
+  });
 });
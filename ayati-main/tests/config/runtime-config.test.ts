@@ -5,9 +5,11 @@ import {
   DEFAULT_AYATI_ROOT_DIR,
   DEFAULT_CONTEXT_ENGINE_AGENT_ID,
   DEFAULT_CONTEXT_ENGINE_TIMEZONE,
+  DEFAULT_EMBEDDING_MODEL,
   DEFAULT_HTTP_ALLOW_ORIGIN,
   DEFAULT_HTTP_HOST,
   DEFAULT_HTTP_PORT,
+  DEFAULT_RESOURCE_SWEEP_MINUTES,
   DEFAULT_UPLOAD_MAX_BYTES,
   DEFAULT_WORKSPACE_DIR,
   loadAyatiRuntimeConfig,
@@ -32,13 +34,41 @@ describe("ayati runtime config", () => {
         readScope: "machine",
         mutationScope: "workspace",
       },
+      toolApproval: {
+        mode: "prompt",
+        timeoutMs: 300_000,
+      },
+      budget: { run: {}, workstream: {}, day: {} },
+      web: {
+        allowedDomains: [],
+        maxBytes: 5 * 1024 * 1024,
+        timeoutMs: 20_000,
+        respectRobots: true,
+      },
+      sandbox: {
+        mode: "auto",
+        allowNetwork: false,
+        cpuSeconds: 900,
+        memoryBytes: 4096 * 1024 * 1024,
+        fileSizeBytes: 1024 * 1024 * 1024,
+        envAllowlist: [],
+      },
+      mcp: { servers: [] },
+      scheduler: {
+        enabled: true,
+        catchUpWindowMs: 60 * 60_000,
+        maxActiveSchedules: 50,
+        desktopNotifications: true,
+      },
       workspace: { root: DEFAULT_WORKSPACE_DIR },
       contextEngine: {
         rootDirectory: DEFAULT_AYATI_ROOT_DIR,
         databasePath: join(DEFAULT_AYATI_ROOT_DIR, ".ayati", "context.db"),
         timezone: DEFAULT_CONTEXT_ENGINE_TIMEZONE,
         agentId: DEFAULT_CONTEXT_ENGINE_AGENT_ID,
+        resourceSweepIntervalMs: DEFAULT_RESOURCE_SWEEP_MINUTES * 60_000,
       },
+      embeddings: { provider: "hashed", model: DEFAULT_EMBEDDING_MODEL },
     });
   });
 
@@ -53,9 +83,25 @@ describe("ayati runtime config", () => {
       AYATI_AGENT_MAX_CAPABILITY_SURFACE_TOOLS: "5",
       AYATI_FILESYSTEM_READ_SCOPE: "workspace",
       AYATI_FILESYSTEM_MUTATION_SCOPE: "bound_resource",
+      AYATI_TOOL_APPROVAL_MODE: "auto_approve",
+      AYATI_TOOL_APPROVAL_TIMEOUT_MS: "30000",
+      AYATI_BUDGET_RUN_USD: "0.5",
+      AYATI_BUDGET_WORKSTREAM_TOKENS: "2000000",
+      AYATI_BUDGET_DAY_USD: " 5 ",
+      AYATI_WEB_ALLOWED_DOMAINS: " docs.example.com, *.Example.org ",
+      AYATI_WEB_MAX_BYTES: "1048576",
+      AYATI_WEB_TIMEOUT_MS: "5000",
+      AYATI_WEB_RESPECT_ROBOTS: "false",
+      AYATI_SCHEDULER_ENABLED: "off",
+      AYATI_SCHEDULER_CATCH_UP_MINUTES: "0",
+      AYATI_SCHEDULER_MAX_ACTIVE: "5",
+      AYATI_SCHEDULER_NOTIFICATIONS: "no",
       AYATI_CONTEXT_ENGINE_DATABASE: " /tmp/ayati-db/context.db ",
       AYATI_CONTEXT_ENGINE_TIMEZONE: " UTC ",
       AYATI_CONTEXT_ENGINE_AGENT_ID: " local-agent ",
+      AYATI_RESOURCE_SWEEP_MINUTES: "0",
+      AYATI_EMBEDDINGS: " OpenAI ",
+      AYATI_EMBEDDING_MODEL: " text-embedding-3-large ",
     });
 
     expect(config.workspace.root).toBe("/tmp/ayati-runtime/workspace");
@@ -64,6 +110,7 @@ describe("ayati runtime config", () => {
       databasePath: "/tmp/ayati-db/context.db",
       timezone: "UTC",
       agentId: "local-agent",
+      resourceSweepIntervalMs: 0,
     });
     expect(config.http).toMatchObject({
       host: "0.0.0.0",
@@ -77,6 +124,75 @@ describe("ayati runtime config", () => {
       readScope: "workspace",
       mutationScope: "bound_resource",
     });
+    expect(config.toolApproval).toEqual({
+      mode: "auto_approve",
+      timeoutMs: 30_000,
+    });
+    expect(config.budget).toEqual({
+      run: { usd: 0.5 },
+      workstream: { tokens: 2_000_000 },
+      day: { usd: 5 },
+    });
+    expect(config.web).toEqual({
+      allowedDomains: ["docs.example.com", "example.org"],
+      maxBytes: 1_048_576,
+      timeoutMs: 5_000,
+      respectRobots: false,
+    });
+    expect(config.scheduler).toEqual({
+      enabled: false,
+      catchUpWindowMs: 0,
+      maxActiveSchedules: 5,
+      desktopNotifications: false,
+    });
+    expect(config.embeddings).toEqual({ provider: "openai", model: "text-embedding-3-large" });
+  });
+
+  it("rejects budgets that are not positive amounts", () => {
+    expect(() => loadAyatiRuntimeConfig({ AYATI_BUDGET_DAY_USD: "-1" }))
+      .toThrow("AYATI_BUDGET_DAY_USD must be a positive number");
+    expect(() => loadAyatiRuntimeConfig({ AYATI_BUDGET_RUN_TOKENS: "1.5" }))
+      .toThrow("AYATI_BUDGET_RUN_TOKENS must be a positive integer");
+  });
+
+  it("rejects web fetch limits that are not positive integers", () => {
+    expect(() => loadAyatiRuntimeConfig({ AYATI_WEB_MAX_BYTES: "0" }))
+      .toThrow("AYATI_WEB_MAX_BYTES must be a positive integer");
+    expect(() => loadAyatiRuntimeConfig({ AYATI_WEB_RESPECT_ROBOTS: "maybe" }))
+      .toThrow("AYATI_WEB_RESPECT_ROBOTS must be true or false");
+  });
+
+  it("rejects scheduler settings outside their ranges", () => {
+    expect(() => loadAyatiRuntimeConfig({ AYATI_SCHEDULER_CATCH_UP_MINUTES: "-5" }))
+      .toThrow("AYATI_SCHEDULER_CATCH_UP_MINUTES must be an integer from 0 through 10080");
+    expect(() => loadAyatiRuntimeConfig({ AYATI_SCHEDULER_ENABLED: "sometimes" }))
+      .toThrow("AYATI_SCHEDULER_ENABLED must be true or false");
+  });
+
+  it("loads and validates process sandbox settings", () => {
+    expect(loadAyatiRuntimeConfig({
+      AYATI_SANDBOX: " BWRAP ",
+      AYATI_SANDBOX_NETWORK: "true",
+      AYATI_SANDBOX_CPU_SECONDS: "0",
+      AYATI_SANDBOX_MEMORY_MB: "512",
+      AYATI_SANDBOX_ENV_ALLOWLIST: "CARGO_HOME, RUSTUP_*",
+    }).sandbox).toEqual({
+      mode: "bwrap",
+      allowNetwork: true,
+      cpuSeconds: 0,
+      memoryBytes: 512 * 1024 * 1024,
+      fileSizeBytes: 1024 * 1024 * 1024,
+      envAllowlist: ["CARGO_HOME", "RUSTUP_*"],
+    });
+    expect(() => loadAyatiRuntimeConfig({ AYATI_SANDBOX: "docker" }))
+      .toThrow('AYATI_SANDBOX must be one of auto, bwrap, unshare, none; received "docker".');
+    expect(() => loadAyatiRuntimeConfig({ AYATI_SANDBOX_MEMORY_MB: "-1" }))
+      .toThrow("AYATI_SANDBOX_MEMORY_MB must be a non-negative integer");
+  });
+
+  it("rejects unknown embedding providers", () => {
+    expect(() => loadAyatiRuntimeConfig({ AYATI_EMBEDDINGS: "bert" }))
+      .toThrow('AYATI_EMBEDDINGS must be one of hashed, openai; received "bert".');
   });
 
   it("accepts legacy Git Context storage settings during the internal rename", () => {
@@ -19,6 +19,7 @@ import type {
   ContextEngineRuntime,
 } from "../../src/app/context-engine-runtime.js";
 import { createContextEngineRuntime } from "../../src/app/context-engine-runtime.js";
+import { CostBudgetLedger } from "../../src/app/cost-budget-ledger.js";
 import { writeFilesTool } from "../../src/skills/builtins/filesystem/write-files.js";
 import { inspectPathsTool } from "../../src/skills/builtins/filesystem/inspect-paths.js";
 import { createGitContextSkill } from "../../src/skills/builtins/git-context/index.js";
@@ -350,6 +351,7 @@ function createEngine(options: TestEngineOptions = {}): IVecEngine {
     eventSink: options.eventSink,
     chatContextRuntime,
     contextEngineService: options.contextEngineService,
+    costBudget: options.costBudget,
   });
   return new IVecEngine({
     provider,
@@ -362,11 +364,34 @@ function withNativeDecisions(provider: LlmProvider): LlmProvider {
     ...provider,
     async generateTurn(input: LlmTurnInput): Promise<LlmTurnOutput> {
       const turn = await provider.generateTurn(input);
-      return turn.type === "assistant" ? nativeDecisionFixture(turn.content) : turn;
+      return turn.type === "assistant"
+        ? { ...nativeDecisionFixture(turn.content), ...(turn.usage ? { usage: turn.usage } : {}) }
+        : turn;
     },
   };
 }
 
+function withTokenUsage(provider: LlmProvider, totalTokens: number): LlmProvider {
+  return {
+    ...provider,
+    async generateTurn(input: LlmTurnInput): Promise<LlmTurnOutput> {
+      const turn = await provider.generateTurn(input);
+      return {
+        ...turn,
+        usage: { provider: "mock", model: "mock", inputTokens: totalTokens, outputTokens: 0, totalTokens, exact: true },
+      };
+    },
+  };
+}
+
+function createWorkstreamTokenBudget(dataDir: string): CostBudgetLedger {
+  return new CostBudgetLedger({
+    policy: { run: {}, workstream: { tokens: 10_000 }, day: {} },
+    filePath: join(dataDir, "runtime", "cost-budget-ledger.json"),
+    timezone: "UTC",
+  });
+}
+
 function createReadTool(): ToolDefinition {
   return {
     name: "read_files",
@@ -434,6 +459,62 @@ function createFindTool(path = "/tmp/health-notes.md"): ToolDefinition {
   };
 }
 
+/** Runs a mutation that binds a new workstream, lets `fail` break the run, and checks its charge. */
+async function expectFailedBoundRunCharged(fail: (runtime: ContextEngineRuntime) => void): Promise<void> {
+  const dataDir = makeTmpDir("ayati-failed-run-budget-");
+  const workingDirectory = join(dataDir, "workspace");
+  const outputPath = join(workingDirectory, "budget.txt");
+  const database = await ContextDatabase.open({ path: join(dataDir, "context.sqlite") });
+  const service = new SqliteContextEngineService({
+    database,
+    rootDirectory: dataDir,
+    now: () => "2026-07-21T10:00:00.000Z",
+  });
+  const runtime = createContextEngineRuntime({
+    service,
+    timezone: "Asia/Kolkata",
+    agentId: "local",
+    scopeKey: "default",
+  });
+  fail(runtime);
+  const provider = createSingleLoopMutationProvider(outputPath);
+  const costBudget = createWorkstreamTokenBudget(dataDir);
+  const onReply = vi.fn();
+  const engine = createEngine({
+    onReply,
+    provider: withTokenUsage(provider, 100),
+    workspaceRoot: workingDirectory,
+    dataDir,
+    chatContextRuntime: runtime,
+    contextEngineService: service,
+    costBudget,
+    toolExecutor: createToolExecutor([writeFilesTool, inspectPathsTool, ...createGitContextSkill({ service }).tools]),
+  });
+
+  try {
+    await engine.start();
+    engine.handleMessage("c1", { type: "chat", content: `Create a file at ${outputPath}` });
+
+    await vi.waitFor(() => {
+      expect(onReply).toHaveBeenCalledWith("c1", expect.objectContaining({ type: "error" }));
+    }, { timeout: 5_000 });
+    const spent = vi.mocked(provider.generateTurn).mock.calls.length * 100;
+    expect(spent).toBeGreaterThan(0);
+    await costBudget.flush();
+    const ledger = JSON.parse(readFileSync(join(dataDir, "runtime", "cost-budget-ledger.json"), "utf8")) as {
+      workstreams: Record<string, unknown>;
+    };
+    expect(Object.entries(ledger.workstreams)).toEqual([
+      [expect.stringMatching(/^W-/), { usd: 0, tokens: spent }],
+    ]);
+  } finally {
+    await costBudget.flush();
+    await engine.stop();
+    await service.close();
+    rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
 describe("IVecEngine one-run integration", () => {
   it("is constructible and starts without a provider", async () => {
     const engine = createEngine();
@@ -856,6 +937,24 @@ describe("IVecEngine one-run integration", () => {
     }
   });
 
+  it("charges a bound run's spend to its workstream when finalization fails", async () => {
+    await expectFailedBoundRunCharged((runtime) => {
+      vi.spyOn(runtime, "finalizeRun").mockRejectedValue(new Error("commit identity is uncertain"));
+    });
+  });
+
+  it("charges a run that throws after binding to the workstream it bound", async () => {
+    await expectFailedBoundRunCharged((runtime) => {
+      const recordRunStep = runtime.recordRunStep.bind(runtime);
+      let recordedSteps = 0;
+      vi.spyOn(runtime, "recordRunStep").mockImplementation(async (input) => {
+        recordedSteps += 1;
+        if (recordedSteps === 2) throw new Error("step persistence unavailable");
+        return await recordRunStep(input);
+      });
+    });
+  });
+
   it("finalizes an unbound provider crash before sending the failure reply", async () => {
     const dataDir = makeTmpDir();
     try {
@@ -1,6 +1,6 @@
 import { describe, expect, it, vi } from "vitest";
 import type { ChatTurnRuntime } from "../../src/ivec/chat-turn-runtime.js";
-import { IVecEngine } from "../../src/ivec/index.js";
+import { IVecEngine, parseRunCancellationRequest } from "../../src/ivec/index.js";
 
 function deferred(): { promise: Promise<void>; resolve: () => void } {
   let resolvePromise: (() => void) | undefined;
@@ -67,6 +67,8 @@ describe("IVecEngine global run serialization", () => {
       channel: "cli",
       content: "First",
       attachments: [],
+      signal: expect.any(AbortSignal),
+      onRunStarted: expect.any(Function),
     });
 
     chatGate.resolve();
@@ -78,9 +80,32 @@ describe("IVecEngine global run serialization", () => {
       channel: "voice",
       content: "Second",
       attachments: [],
+      signal: expect.any(AbortSignal),
+      onRunStarted: expect.any(Function),
     });
   });
 
+  it("reports remaining budget on the chat receipt", async () => {
+    const chatTurnRuntime: ChatTurnRuntime = {
+      processChat: vi.fn(async () => undefined),
+    };
+    const engine = new IVecEngine({
+      chatTurnRuntime,
+      budgetRemaining: () => ({ run: { usd: 0.5 }, day: { tokens: 40_000 } }),
+    });
+
+    const receipt = engine.handleMessage("local", { type: "chat", messageId: "message-1", content: "Hi" });
+
+    expect(receipt).toEqual({
+      type: "chat_accepted",
+      messageId: "message-1",
+      queued: false,
+      queuePosition: 1,
+      budget: { run: { usd: 0.5 }, day: { tokens: 40_000 } },
+    });
+    await engine.stop();
+  });
+
   it("runs chat harness lifecycles one at a time", async () => {
     const chatGate = deferred();
     const events: string[] = [];
@@ -156,4 +181,84 @@ describe("IVecEngine global run serialization", () => {
 
     expect(stopped).toBe(true);
   });
+
+  it("cancels the running chat by message ID and a queued chat before it starts", async () => {
+    const signals: AbortSignal[] = [];
+    const chatTurnRuntime: ChatTurnRuntime = {
+      processChat: vi.fn(async (input) => {
+        signals.push(input.signal!);
+        input.onRunStarted?.(`run-${input.messageId}`);
+        if (input.signal?.aborted) return;
+        await new Promise<void>((resolve) => input.signal?.addEventListener("abort", () => resolve()));
+      }),
+    };
+    const settled: unknown[] = [];
+    const engine = new IVecEngine({ chatTurnRuntime });
+    const onSettled = (result: unknown) => settled.push(result);
+
+    engine.handleMessage("cli", { type: "chat", messageId: "message-1", content: "First" }, { onSettled });
+    engine.handleMessage("cli", { type: "chat", messageId: "message-2", content: "Second" }, { onSettled });
+    await vi.waitFor(() => expect(chatTurnRuntime.processChat).toHaveBeenCalledTimes(1));
+
+    expect(engine.cancelRun({ messageId: "message-2" })).toEqual({
+      type: "cancel_run_result",
+      status: "cancelling",
+      messageId: "message-2",
+      queued: true,
+    });
+    expect(engine.cancelRun({ runId: "run-message-1" })).toEqual({
+      type: "cancel_run_result",
+      status: "cancelling",
+      messageId: "message-1",
+      runId: "run-message-1",
+    });
+
+    await engine.stop();
+    expect(signals.map((signal) => signal.aborted)).toEqual([true, true]);
+    expect(settled).toEqual([
+      { messageId: "message-1", status: "cancelled" },
+      { messageId: "message-2", status: "cancelled" },
+    ]);
+    expect(engine.cancelRun({ messageId: "message-1" })).toEqual({
+      type: "cancel_run_result",
+      status: "not_found",
+      messageId: "message-1",
+    });
+  });
+
+  it("reports the active run and how many chats wait behind it", async () => {
+    const chatGate = deferred();
+    const chatTurnRuntime: ChatTurnRuntime = {
+      processChat: vi.fn(async (input) => {
+        input.onRunStarted?.("run-1");
+        await chatGate.promise;
+      }),
+    };
+    const engine = new IVecEngine({ chatTurnRuntime });
+    expect(engine.runQueueStatus()).toEqual({ queued: 0 });
+
+    engine.handleMessage("local", { type: "chat", messageId: "message-1", content: "First" });
+    engine.handleMessage("local", { type: "chat", messageId: "message-2", content: "Second" });
+    await vi.waitFor(() => expect(chatTurnRuntime.processChat).toHaveBeenCalledTimes(1));
+
+    expect(engine.runQueueStatus()).toEqual({
+      queued: 1,
+      activeRun: { messageId: "message-1", runId: "run-1" },
+    });
+    engine.cancelRun({ messageId: "message-1" });
+    expect(engine.runQueueStatus().activeRun).toEqual({ messageId: "message-1", runId: "run-1", cancelling: true });
+
+    chatGate.resolve();
+    await engine.stop();
+    await vi.waitFor(() => expect(engine.runQueueStatus()).toEqual({ queued: 0 }));
+  });
+
+  it("parses bounded cancel_run envelopes", () => {
+    expect(parseRunCancellationRequest({ type: "cancel_run", messageId: " message-1 " }))
+      .toEqual({ messageId: "message-1" });
+    expect(parseRunCancellationRequest({ type: "cancel_run", runId: "run-1" })).toEqual({ runId: "run-1" });
+    expect(parseRunCancellationRequest({ type: "cancel_run" })).toBeNull();
+    expect(parseRunCancellationRequest({ type: "cancel_run", runId: "x".repeat(129) })).toBeNull();
+    expect(parseRunCancellationRequest({ type: "chat", messageId: "message-1" })).toBeNull();
+  });
 });
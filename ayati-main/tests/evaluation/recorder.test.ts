@@ -158,6 +158,20 @@ describe("live evaluation recorder instrumentation", () => {
     expect(recorder.session.status).toBe("running");
   });
 
+  it("reports the prompt cache hit ratio in run and session reports", async () => {
+    const { recorder, storage } = await createRecorder();
+    const provider = createEvaluationProvider(fakeProvider({}));
+    await runOperation(provider, "RUN-CACHE", "main_decision", "foreground");
+    await recorder.checkpoint("RUN-CACHE");
+
+    const report = await readFile(storage.path("runs", "RUN-CACHE", "report.md"), "utf8");
+    expect(report).toContain("cached 3 (cache hit ratio 0.3000)");
+    const evidence = await storage.readJson<{ totals: { cacheHitRatio: number } }>("runs/RUN-CACHE/evidence.json");
+    expect(evidence.totals.cacheHitRatio).toBe(0.3);
+    const sessionReport = await readFile(storage.path("session-report.md"), "utf8");
+    expect(sessionReport).toContain("| Cache hit |");
+  });
+
   it("schedules terminal reports behind queued capture without blocking the caller", async () => {
     const { recorder, storage } = await createRecorder();
     let release!: () => void;
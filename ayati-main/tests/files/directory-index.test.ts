@@ -0,0 +1,135 @@
+import { mkdir, mkdtemp, readdir, rm, unlink, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DirectoryIndex, parseIndexQuery, type IndexableFile } from "../../src/files/directory-index.js";
+import { DirectoryIndexScheduler } from "../../src/files/directory-index-scheduler.js";
+
+const roots: string[] = [];
+const indexes: DirectoryIndex[] = [];
+
+afterEach(async () => {
+  for (const index of indexes.splice(0)) index.close();
+  await Promise.all(roots.splice(0).map(async (root) => await rm(root, { recursive: true, force: true })));
+});
+
+describe("DirectoryIndex", () => {
+  it("ranks files by relevance with highlighted excerpts and matching lines", async () => {
+    const fixture = await createFixture({
+      "src/config.ts": "// config loader: reads config\nexport function parseConfig(text: string) {\n  return parseToml(text);\n}\n",
+      "src/notes.md": "The config file is described elsewhere in the guide for new users.\n",
+      "src/other.ts": "export const unrelated = true;\n",
+    });
+    await fixture.refresh();
+
+    const hits = fixture.index.search({ query: "config", maxResults: 10 });
+
+    expect(hits.map((hit) => hit.relativePath)).toEqual(["src/config.ts", "src/notes.md"]);
+    expect(hits[0]!.score).toBeGreaterThan(0);
+    expect(hits[0]!.excerpt).toContain("**config**");
+    expect(hits[0]!.lineMatches).toEqual([{ line: 1, text: "// config loader: reads config" }]);
+    expect(fixture.index.search({ query: "parse*", maxResults: 10, contextLines: 1 })[0]!.lineMatches[0]).toEqual({
+      line: 2,
+      text: "export function parseConfig(text: string) {",
+      before: ["// config loader: reads config"],
+      after: ["  return parseToml(text);"],
+    });
+    expect(fixture.index.search({ query: "\"file is described\"", maxResults: 10 }).map((hit) => hit.relativePath))
+      .toEqual(["src/notes.md"]);
+    expect(fixture.index.search({ query: "\"described file\"", maxResults: 10 })).toEqual([]);
+    expect(fixture.index.search({ query: "config", maxResults: 10, pathPrefix: "docs" })).toEqual([]);
+  });
+
+  it("re-reads only changed files and drops files the walk no longer reaches", async () => {
+    const fixture = await createFixture({
+      "a.txt": "alpha\n",
+      "b.txt": "bravo\n",
+      "image.bin": "PNG\u0000\u0001",
+    });
+    expect(fixture.index.status()).toEqual({ state: "missing", indexedFiles: 0, skippedFiles: 0 });
+    expect(await fixture.refresh()).toMatchObject({ added: 3, skipped: 1, unchanged: 0 });
+
+    await writeFile(join(fixture.root, "a.txt"), "alpha changed to charlie\n");
+    await utimes(join(fixture.root, "a.txt"), new Date(), new Date(Date.now() + 5_000));
+    await unlink(join(fixture.root, "b.txt"));
+
+    expect(await fixture.refresh()).toMatchObject({ added: 0, updated: 1, removed: 1, unchanged: 1 });
+    expect(fixture.index.search({ query: "charlie", maxResults: 5 }).map((hit) => hit.relativePath)).toEqual(["a.txt"]);
+    expect(fixture.index.search({ query: "bravo", maxResults: 5 })).toEqual([]);
+    expect(fixture.index.status()).toMatchObject({
+      state: "ready",
+      refreshedAt: "2026-08-01T10:00:00.000Z",
+      indexedFiles: 1,
+      skippedFiles: 1,
+    });
+  });
+
+  it("quotes user input so FTS5 operators cannot break the query", () => {
+    expect(parseIndexQuery("foo OR bar* \"a.b c\" NEAR(x)").match).toBe("\"foo\" \"or\" \"bar\"* \"a b c\" \"near x\"");
+    expect(() => parseIndexQuery("-> ::")).toThrow(/at least one letter or digit/);
+  });
+});
+
+describe("DirectoryIndexScheduler", () => {
+  it("sweeps every attachment on start and refreshes each queued directory once at a time", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const refreshed: string[] = [];
+    const library = {
+      listDirectoryIds: vi.fn(async () => ["dir_a", "dir_b"]),
+      refreshIndex: vi.fn(async (directoryId: string) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        refreshed.push(directoryId);
+        active--;
+        return { added: 0, updated: 0, removed: 0, unchanged: 1, skipped: 0, durationMs: 5 };
+      }),
+    };
+    const scheduler = new DirectoryIndexScheduler({ library, sweepIntervalMs: 60_000 });
+
+    scheduler.enqueue("dir_ignored_before_start");
+    scheduler.start();
+    await vi.waitFor(() => expect(refreshed).toHaveLength(2));
+    scheduler.enqueue("dir_c");
+    scheduler.enqueue("dir_c");
+    await scheduler.idle();
+    await scheduler.stop();
+    scheduler.enqueue("dir_after_stop");
+
+    expect(refreshed).toEqual(["dir_a", "dir_b", "dir_c"]);
+    expect(maxActive).toBe(1);
+  });
+});
+
+async function createFixture(files: Record<string, string>) {
+  const root = await mkdtemp(join(tmpdir(), "ayati-directory-index-"));
+  roots.push(root);
+  const tree = join(root, "tree");
+  for (const [relativePath, content] of Object.entries(files)) {
+    await mkdir(join(tree, relativePath, ".."), { recursive: true });
+    await writeFile(join(tree, relativePath), content);
+  }
+  const index = new DirectoryIndex({
+    dbPath: join(root, "index.sqlite"),
+    now: () => new Date("2026-08-01T10:00:00.000Z"),
+  });
+  indexes.push(index);
+  return {
+    root: tree,
+    index,
+    async refresh() {
+      const entries = await readdir(tree, { recursive: true, withFileTypes: true });
+      const visitable: IndexableFile[] = entries
+        .filter((entry) => entry.isFile())
+        .map((entry) => {
+          const path = join(entry.parentPath, entry.name);
+          return { path, relativePath: path.slice(tree.length + 1) };
+        })
+        .sort((left, right) => left.relativePath.localeCompare(right.relativePath));
+      return await index.refresh(async (visit) => {
+        for (const file of visitable) await visit(file);
+      }, { maxFileBytes: 1024 });
+    },
+  };
+}
@@ -83,4 +83,89 @@ describe("DirectoryLibrary", () => {
       rmSync(dataDir, { recursive: true, force: true });
     }
   });
+
+  it("finds the same content matches through the index as a scan of the same files", async () => {
+    const dataDir = makeTmpDir();
+    const projectDir = join(dataDir, "project");
+    mkdirSync(join(projectDir, "src"), { recursive: true });
+    mkdirSync(join(projectDir, "agents"), { recursive: true });
+    mkdirSync(join(projectDir, ".config"), { recursive: true });
+    writeFileSync(join(projectDir, "src", "agent.ts"), "export class AyatiAgent {}\n", "utf-8");
+    writeFileSync(join(projectDir, "agents", "README.md"), "Nothing to see.\n", "utf-8");
+    writeFileSync(join(projectDir, ".config", "notes.md"), "The agent reads this.\n", "utf-8");
+
+    try {
+      const library = new DirectoryLibrary({ dataDir });
+      const directory = await library.registerPath({ path: projectDir });
+      const search = async () => await library.searchDirectory({
+        directoryId: directory.directoryId,
+        query: "agent",
+        searchContents: true,
+      });
+      const relativePaths = (result: Record<string, unknown>) =>
+        (result["matches"] as Array<{ relativePath: string }>).map((match) => match.relativePath).sort();
+
+      const scanned = await search();
+      await library.refreshIndex(directory.directoryId);
+      const indexed = await search();
+
+      expect(scanned["searchMode"]).toBe("scan");
+      expect(indexed["searchMode"]).toBe("index");
+      expect(relativePaths(scanned)).toEqual([".config/notes.md", "agents", "src/agent.ts"]);
+      expect(relativePaths(indexed)).toEqual(relativePaths(scanned));
+      expect((indexed["matches"] as Array<Record<string, unknown>>)[0]).toMatchObject({
+        relativePath: ".config/notes.md",
+        score: expect.any(Number),
+      });
+      library.close();
+    } finally {
+      rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+
+  it("serves content searches from the full-text index once it has been built", async () => {
+    const dataDir = makeTmpDir();
+    const projectDir = join(dataDir, "project");
+    mkdirSync(join(projectDir, "src"), { recursive: true });
+    mkdirSync(join(projectDir, "docs"), { recursive: true });
+    writeFileSync(join(projectDir, "src", "agent.ts"), "export class AyatiAgent {}\n// retry budget\n", "utf-8");
+    writeFileSync(join(projectDir, "docs", "retries.md"), "The retry budget resets per run.\n", "utf-8");
+    const refreshRequests: string[] = [];
+
+    try {
+      const library = new DirectoryLibrary({ dataDir, requestIndexRefresh: (id) => refreshRequests.push(id) });
+      const directory = await library.registerPath({ path: projectDir });
+      expect(refreshRequests).toEqual([directory.directoryId]);
+
+      const scanned = await library.searchDirectory({
+        directoryId: directory.directoryId,
+        query: "retry budget",
+        searchContents: true,
+      });
+      expect(scanned["searchMode"]).toBe("scan");
+      expect(refreshRequests).toHaveLength(2);
+
+      expect(await library.refreshIndex(directory.directoryId)).toMatchObject({ added: 2, skipped: 0 });
+      const indexed = await library.searchDirectory({
+        directoryId: directory.directoryId,
+        query: "\"retry budget\" reset*",
+        searchContents: true,
+      });
+      expect(indexed).toMatchObject({
+        searchMode: "index",
+        index: { state: "ready", indexedFiles: 2 },
+        matchCount: 1,
+        matches: [{ relativePath: "docs/retries.md", lineMatches: [{ line: 1 }] }],
+      });
+      expect(JSON.stringify(indexed["matches"])).toContain("**retry budget**");
+
+      const scoped = await library.searchIndexedPath({ path: join(projectDir, "src"), query: "retry", maxResults: 5 });
+      expect(scoped?.directoryId).toBe(directory.directoryId);
+      expect(scoped?.hits.map((hit) => hit.path)).toEqual([join(projectDir, "src", "agent.ts")]);
+      expect(await library.searchIndexedPath({ path: dataDir, query: "retry", maxResults: 5 })).toBeNull();
+      library.close();
+    } finally {
+      rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
 });
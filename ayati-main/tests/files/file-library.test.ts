@@ -2,6 +2,7 @@ import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "no
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
 import { FileLibrary } from "../../src/files/file-library.js";
 
 function makeTmpDir(): string {
@@ -93,4 +94,56 @@ describe("FileLibrary", () => {
       rmSync(dataDir, { recursive: true, force: true });
     }
   });
+
+  it("joins csv and xlsx tables in one query and saves the result as an artifact", async () => {
+    const dataDir = makeTmpDir();
+    const ordersPath = join(dataDir, "orders.csv");
+    const customersPath = join(dataDir, "customers.xlsx");
+    writeFileSync(ordersPath, "customer_id,amount\n1,120\n2,80\n1,30\n", "utf-8");
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([["id", "name"], [1, "Asha, Ltd"], [2, "Ravi"]]), "People");
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([["note"], ["unused"]]), "Notes");
+    XLSX.writeFile(workbook, customersPath);
+
+    try {
+      const library = new FileLibrary({ dataDir });
+      const orders = await library.registerPath({ path: ordersPath, runId: "run-3" });
+      const customers = await library.registerPath({ path: customersPath, runId: "run-3" });
+      const sql = "SELECT c.name, SUM(o.amount) AS total FROM orders o JOIN customers_people c ON c.id = o.customer_id GROUP BY c.name ORDER BY total DESC";
+
+      const result = await library.queryTables({
+        sources: [
+          { source: "file", fileId: orders.fileId },
+          { source: "file", fileId: customers.fileId, sheetName: "People" },
+        ],
+        sql,
+        maxRows: 1,
+        saveAs: join(dataDir, "totals.csv"),
+        runId: "run-3",
+      });
+
+      expect(result["tables"]).toMatchObject([
+        { alias: "orders", source: "file", fileId: orders.fileId, rowCount: 3 },
+        { alias: "customers_people", source: "file", sheetName: "People", columns: ["id", "name"] },
+      ]);
+      expect(result["rows"]).toEqual([{ name: "Asha, Ltd", total: 150 }]);
+      expect(result["truncated"]).toBe(true);
+      expect(result["saved"]).toMatchObject({ format: "csv", rowCount: 2, file: { originalName: "totals.csv" } });
+      expect(readFileSync(join(dataDir, "totals.csv"), "utf-8")).toBe("name,total\n\"Asha, Ltd\",150\nRavi,80\n");
+      expect((await library.listRunFiles("run-3")).map((file) => file.originalName)).toContain("totals.csv");
+
+      await expect(library.queryTables({
+        sources: [{ source: "file", fileId: orders.fileId }],
+        sql: "SELECT * FROM orders",
+        saveAs: join(dataDir, "totals.csv"),
+      })).rejects.toThrow("Refusing to overwrite existing file");
+      await expect(library.queryTables({
+        sources: [{ source: "file", fileId: orders.fileId }],
+        sql: "SELECT * FROM orders",
+        saveAs: join(dataDir, "totals.json"),
+      })).rejects.toThrow("must end in .csv or .xlsx");
+    } finally {
+      rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
 });
@@ -0,0 +1,268 @@
+import { chmodSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { FileLibrary } from "../../src/files/file-library.js";
+import { parseExif, readImageHeader } from "../../src/files/processors/image-metadata.js";
+
+type TiffEntry = { tag: number; type: 1 | 2 | 3 | 4 | 5; value: string | number[] };
+
+const savedEnv = { tesseract: process.env["TESSERACT_BIN"], magick: process.env["IMAGEMAGICK_BIN"] };
+const cleanups: string[] = [];
+
+afterEach(() => {
+  restoreEnv("TESSERACT_BIN", savedEnv.tesseract);
+  restoreEnv("IMAGEMAGICK_BIN", savedEnv.magick);
+  for (const dir of cleanups.splice(0)) rmSync(dir, { recursive: true, force: true });
+});
+
+describe("image metadata", () => {
+  it("reads JPEG dimensions and EXIF capture time, camera, orientation, and GPS", () => {
+    const header = readImageHeader(buildJpeg(4032, 3024));
+
+    expect(header).toMatchObject({ format: "jpeg", mimeType: "image/jpeg", width: 4032, height: 3024 });
+    expect(parseExif(header!.exif!)).toEqual({
+      cameraMake: "Pixel",
+      orientation: 6,
+      orientationDescription: "rotated 90° clockwise",
+      capturedAt: "2026-03-14T09:26:53+05:30",
+      gps: { latitude: 12.971599, longitude: -77.59455, altitudeMeters: 920.5 },
+    });
+  });
+
+  it("reads dimensions from PNG, GIF, WebP, and BMP headers", () => {
+    expect(readImageHeader(png(640, 480))).toMatchObject({ format: "png", width: 640, height: 480 });
+    const gif = Buffer.alloc(13);
+    gif.write("GIF89a", 0, "ascii");
+    gif.writeUInt16LE(32, 6);
+    gif.writeUInt16LE(16, 8);
+    expect(readImageHeader(gif)).toMatchObject({ format: "gif", width: 32, height: 16 });
+    const webp = Buffer.alloc(30);
+    webp.write("RIFF", 0, "ascii");
+    webp.write("WEBPVP8X", 8, "ascii");
+    webp.writeUInt32LE(10, 16);
+    webp.writeUIntLE(1919, 24, 3);
+    webp.writeUIntLE(1079, 27, 3);
+    expect(readImageHeader(webp)).toMatchObject({ format: "webp", width: 1920, height: 1080 });
+    const bmp = Buffer.alloc(26);
+    bmp.write("BM", 0, "ascii");
+    bmp.writeInt32LE(100, 18);
+    bmp.writeInt32LE(-50, 22);
+    expect(readImageHeader(bmp)).toMatchObject({ format: "bmp", width: 100, height: 50 });
+    expect(readImageHeader(Buffer.from("not an image"))).toBeNull();
+    expect(parseExif(Buffer.from("MM\u0000*\u0000\u0000\u0010\u0000", "latin1"))).toEqual({});
+  });
+
+  it("prepares previews and OCR text once and describes them for file_describe", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "ayati-image-prep-"));
+    cleanups.push(dir);
+    const previewSource = join(dir, "small.png");
+    const log = join(dir, "calls.log");
+    writeFileSync(previewSource, png(1568, 1176));
+    process.env["TESSERACT_BIN"] = script(dir, "tesseract", `echo tesseract >> "${log}"\necho "TOTAL DUE 42.00"`);
+    process.env["IMAGEMAGICK_BIN"] = script(dir, "magick", `echo magick >> "${log}"\nfor last; do :; done\ncp "${previewSource}" "$last"`);
+
+    const library = new FileLibrary({ dataDir: join(dir, "data") });
+    const file = await library.registerUpload({ originalName: "receipt.jpg", bytes: buildJpeg(4032, 3024), origin: "user_upload" });
+    const described = await library.describeFile(file.fileId);
+
+    expect(described).toMatchObject({
+      processingStatus: "ready",
+      mimeType: "image/jpeg",
+      image: {
+        format: "jpeg",
+        width: 4032,
+        height: 3024,
+        exif: { orientation: 6, capturedAt: "2026-03-14T09:26:53+05:30" },
+        preview: { width: 1568, height: 1176 },
+        ocr: { status: "ok", text: "TOTAL DUE 42.00", truncated: false },
+      },
+    });
+    expect((await library.getFile(file.fileId)).imagePreview).toEqual({
+      path: join(dir, "data", "files", file.fileId, "derived", "preview.jpg"),
+      mimeType: "image/jpeg",
+      width: 1568,
+      height: 1176,
+    });
+    await library.describeFile(file.fileId);
+    expect(readFileSync(log, "utf-8").trim().split("\n")).toEqual(["magick", "tesseract"]);
+  });
+
+  it("keeps the original for providers and retries later when the image tools are missing", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "ayati-image-prep-"));
+    cleanups.push(dir);
+    process.env["TESSERACT_BIN"] = join(dir, "missing-tesseract");
+    process.env["IMAGEMAGICK_BIN"] = join(dir, "missing-magick");
+
+    const library = new FileLibrary({ dataDir: join(dir, "data") });
+    const small = await library.registerUpload({ originalName: "icon.png", bytes: png(64, 64), origin: "user_upload" });
+    const large = await library.registerUpload({ originalName: "scan.jpg", bytes: buildJpeg(4032, 3024), origin: "user_upload" });
+
+    expect(await library.describeFile(small.fileId)).toMatchObject({
+      processingStatus: "ready",
+      mimeType: "image/png",
+      image: { format: "png", width: 64, height: 64, ocr: { status: "unavailable" } },
+    });
+    expect(await library.describeFile(large.fileId)).toMatchObject({
+      processingStatus: "partial",
+      warnings: ["Image preview unavailable: ImageMagick was not found; install it or set IMAGEMAGICK_BIN."],
+    });
+    expect((await library.getFile(large.fileId)).imagePreview).toBeUndefined();
+
+    const log = join(dir, "calls.log");
+    process.env["TESSERACT_BIN"] = script(dir, "tesseract", `echo tesseract >> "${log}"\necho "HELLO"`);
+    expect(await library.describeFile(small.fileId)).toMatchObject({
+      image: { ocr: { status: "ok", text: "HELLO" } },
+    });
+  });
+
+  it("caches failed OCR until the image tools change", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "ayati-image-prep-"));
+    cleanups.push(dir);
+    const log = join(dir, "calls.log");
+    process.env["TESSERACT_BIN"] = script(dir, "tesseract", `echo tesseract >> "${log}"\necho "bad image" >&2\nexit 1`);
+    process.env["IMAGEMAGICK_BIN"] = join(dir, "missing-magick");
+
+    const library = new FileLibrary({ dataDir: join(dir, "data") });
+    const file = await library.registerUpload({ originalName: "icon.png", bytes: png(64, 64), origin: "user_upload" });
+    expect(await library.describeFile(file.fileId)).toMatchObject({
+      processingStatus: "partial",
+      image: { ocr: { status: "failed" } },
+    });
+    await library.describeFile(file.fileId);
+    expect(readFileSync(log, "utf-8").trim().split("\n")).toEqual(["tesseract"]);
+
+    process.env["TESSERACT_BIN"] = script(dir, "tesseract-fixed", `echo tesseract >> "${log}"\necho "FIXED"`);
+    expect(await library.describeFile(file.fileId)).toMatchObject({
+      processingStatus: "ready",
+      image: { ocr: { status: "ok", text: "FIXED" } },
+    });
+  });
+
+  it("leaves OCR to file_describe when an attachment is prepared without it", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "ayati-image-prep-"));
+    cleanups.push(dir);
+    const previewSource = join(dir, "small.png");
+    const log = join(dir, "calls.log");
+    writeFileSync(previewSource, png(1568, 1176));
+    process.env["TESSERACT_BIN"] = script(dir, "tesseract", `echo tesseract >> "${log}"\necho "TOTAL DUE 42.00"`);
+    process.env["IMAGEMAGICK_BIN"] = script(dir, "magick", `echo magick >> "${log}"\nfor last; do :; done\ncp "${previewSource}" "$last"`);
+
+    const library = new FileLibrary({ dataDir: join(dir, "data") });
+    const file = await library.registerUpload({ originalName: "receipt.jpg", bytes: buildJpeg(4032, 3024), origin: "user_upload" });
+    const attached = await library.prepareFile(file.fileId, { ocr: false });
+
+    expect(attached.image?.ocr).toEqual({ status: "skipped" });
+    expect(attached.file.imagePreview).toMatchObject({ width: 1568, height: 1176 });
+    expect(readFileSync(log, "utf-8").trim().split("\n")).toEqual(["magick"]);
+
+    expect(await library.describeFile(file.fileId)).toMatchObject({
+      image: { preview: { width: 1568 }, ocr: { status: "ok", text: "TOTAL DUE 42.00" } },
+    });
+    expect(readFileSync(log, "utf-8").trim().split("\n")).toEqual(["magick", "tesseract"]);
+  });
+});
+
+function buildJpeg(width: number, height: number): Buffer {
+  const tiff = buildTiff(
+    [
+      { tag: 0x010f, type: 2, value: "Pixel" },
+      { tag: 0x0112, type: 3, value: [6] },
+    ],
+    [
+      { tag: 0x9003, type: 2, value: "2026:03:14 09:26:53" },
+      { tag: 0x9011, type: 2, value: "+05:30" },
+    ],
+    [
+      { tag: 1, type: 2, value: "N" },
+      { tag: 2, type: 5, value: [12, 1, 58, 1, 1775764, 100000] },
+      { tag: 3, type: 2, value: "W" },
+      { tag: 4, type: 5, value: [77, 1, 35, 1, 4038, 100] },
+      { tag: 5, type: 1, value: [0] },
+      { tag: 6, type: 5, value: [9205, 10] },
+    ],
+  );
+  const app1Body = Buffer.concat([Buffer.from("Exif\u0000\u0000", "binary"), tiff]);
+  const app1 = Buffer.alloc(4);
+  app1.writeUInt16BE(0xffe1, 0);
+  app1.writeUInt16BE(app1Body.length + 2, 2);
+  const sof = Buffer.alloc(19);
+  sof.writeUInt16BE(0xffc0, 0);
+  sof.writeUInt16BE(17, 2);
+  sof[4] = 8;
+  sof.writeUInt16BE(height, 5);
+  sof.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app1, app1Body, sof, Buffer.from([0xff, 0xd9])]);
+}
+
+/** Big-endian TIFF with IFD0 pointing at an Exif IFD and a GPS IFD. */
+function buildTiff(ifd0: TiffEntry[], exif: TiffEntry[], gps: TiffEntry[]): Buffer {
+  const buffer = Buffer.alloc(1024);
+  buffer.write("MM", 0, "ascii");
+  buffer.writeUInt16BE(42, 2);
+  buffer.writeUInt32BE(8, 4);
+  const ifdSize = (count: number): number => 2 + count * 12 + 4;
+  const exifOffset = 8 + ifdSize(ifd0.length + 2);
+  const gpsOffset = exifOffset + ifdSize(exif.length);
+  let data = gpsOffset + ifdSize(gps.length);
+  const writeIfd = (offset: number, entries: TiffEntry[]): void => {
+    buffer.writeUInt16BE(entries.length, offset);
+    entries.forEach((entry, index) => {
+      const at = offset + 2 + index * 12;
+      const payload = encode(entry);
+      const count = entry.type === 2 ? payload.length : entry.type === 5 ? (entry.value as number[]).length / 2 : (entry.value as number[]).length;
+      buffer.writeUInt16BE(entry.tag, at);
+      buffer.writeUInt16BE(entry.type, at + 2);
+      buffer.writeUInt32BE(count, at + 4);
+      if (payload.length <= 4) {
+        payload.copy(buffer, at + 8);
+      } else {
+        buffer.writeUInt32BE(data, at + 8);
+        payload.copy(buffer, data);
+        data += payload.length;
+      }
+    });
+  };
+  writeIfd(8, [...ifd0, { tag: 0x8769, type: 4, value: [exifOffset] }, { tag: 0x8825, type: 4, value: [gpsOffset] }]);
+  writeIfd(exifOffset, exif);
+  writeIfd(gpsOffset, gps);
+  return buffer.subarray(0, data);
+}
+
+function encode(entry: TiffEntry): Buffer {
+  if (entry.type === 2) return Buffer.from(`${entry.value as string}\u0000`, "latin1");
+  const values = entry.value as number[];
+  const size = entry.type === 1 ? 1 : entry.type === 3 ? 2 : 4;
+  const out = Buffer.alloc(values.length * size);
+  values.forEach((value, index) => {
+    if (size === 1) out[index] = value;
+    else if (size === 2) out.writeUInt16BE(value, index * 2);
+    else out.writeUInt32BE(value, index * 4);
+  });
+  return out;
+}
+
+function png(width: number, height: number): Buffer {
+  const bytes = Buffer.alloc(45);
+  bytes.writeUInt32BE(0x89504e47, 0);
+  bytes.writeUInt32BE(0x0d0a1a0a, 4);
+  bytes.writeUInt32BE(13, 8);
+  bytes.write("IHDR", 12, "ascii");
+  bytes.writeUInt32BE(width, 16);
+  bytes.writeUInt32BE(height, 20);
+  bytes.writeUInt32BE(0, 33);
+  bytes.write("IEND", 37, "ascii");
+  return bytes;
+}
+
+function script(dir: string, name: string, body: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, `#!/bin/sh\n${body}\n`, "utf-8");
+  chmodSync(path, 0o755);
+  return path;
+}
+
+function restoreEnv(key: string, value: string | undefined): void {
+  if (value === undefined) delete process.env[key];
+  else process.env[key] = value;
+}
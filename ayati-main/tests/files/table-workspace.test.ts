@@ -0,0 +1,55 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { createTable, insertRows } from "../../src/database/sqlite-runtime.js";
+import { TableWorkspace } from "../../src/files/table-workspace.js";
+
+const cleanups: Array<() => void> = [];
+
+afterEach(() => {
+  for (const cleanup of cleanups.splice(0)) cleanup();
+});
+
+describe("TableWorkspace", () => {
+  it("attaches databases as read-only schemas named by stable aliases", () => {
+    const dir = mkdtempSync(join(tmpdir(), "ayati-table-workspace-"));
+    const workspace = new TableWorkspace();
+    cleanups.push(() => {
+      workspace.close();
+      rmSync(dir, { recursive: true, force: true });
+    });
+    const salesDb = join(dir, "sales-2026.sqlite");
+    const crmDb = join(dir, "crm.sqlite");
+    createTable({ dbPath: salesDb, table: "orders", columns: [{ name: "customer_id", type: "INTEGER" }, { name: "total", type: "REAL" }] });
+    insertRows({ dbPath: salesDb, table: "orders", rows: [{ customer_id: 1, total: 10 }, { customer_id: 1, total: 5 }, { customer_id: 2, total: 7 }] });
+    createTable({ dbPath: crmDb, table: "customers", columns: [{ name: "id", type: "INTEGER" }, { name: "name" }] });
+    insertRows({ dbPath: crmDb, table: "customers", rows: [{ id: 1, name: "Asha" }, { id: 2, name: "Ravi" }] });
+
+    expect(workspace.mountDatabase({ dbPath: salesDb })).toEqual({
+      alias: "sales_2026",
+      source: "database",
+      dbPath: salesDb,
+      tables: ["sales_2026.orders"],
+    });
+    workspace.mountDatabase({ dbPath: crmDb, alias: "crm" });
+    expect(() => workspace.mountDatabase({ dbPath: crmDb, alias: "CRM" })).toThrow(/used more than once/);
+    expect(() => workspace.mountDatabase({ dbPath: crmDb, alias: "main" })).toThrow(/Invalid table alias/);
+
+    const result = workspace.query({
+      sql: `SELECT c.name, SUM(o.total) AS spent
+        FROM sales_2026.orders o JOIN crm.customers c ON c.id = o.customer_id
+        GROUP BY c.name ORDER BY spent DESC`,
+    });
+    expect(result).toEqual({
+      columns: ["name", "spent"],
+      rows: [{ name: "Asha", spent: 15 }, { name: "Ravi", spent: 7 }],
+      rowCount: 2,
+      truncated: false,
+    });
+
+    expect(() => workspace.query({ sql: "DELETE FROM crm.customers" })).toThrow(/single SELECT or WITH/);
+    expect(() => workspace.query({ sql: "WITH gone AS (SELECT 1) DELETE FROM crm.customers" })).toThrow(/readonly|read-only/i);
+    expect(() => workspace.mountDatabase({ dbPath: salesDb, alias: "late" })).toThrow(/after the workspace has been queried/);
+  });
+});
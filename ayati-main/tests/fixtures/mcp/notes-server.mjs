@@ -0,0 +1,98 @@
+// Minimal stdio MCP server for client tests: newline-delimited JSON-RPC, no SDK.
+import { createInterface } from "node:readline";
+
+const notes = [];
+const pendingSlowCalls = new Map();
+
+const TOOLS = [
+  {
+    name: "echo",
+    title: "Echo",
+    description: "Echo the given text back.",
+    inputSchema: { type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: "add_note",
+    description: "Store one note in server memory.",
+    inputSchema: { type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+    annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: false },
+  },
+  {
+    name: "wipe",
+    description: "Delete every stored note.",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "slow",
+    description: "Wait until cancelled.",
+    inputSchema: { type: "object", properties: {} },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: "missing.note",
+    description: "Read a note that does not exist.",
+    inputSchema: { type: "object", properties: {} },
+    annotations: { readOnlyHint: true },
+  },
+];
+
+function send(message) {
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", ...message }) + "\n");
+}
+
+function text(value) {
+  return [{ type: "text", text: value }];
+}
+
+function callTool(id, name, args) {
+  switch (name) {
+    case "echo":
+      return send({ id, result: { content: text(String(args.text)) } });
+    case "add_note":
+      notes.push(String(args.text));
+      return send({ id, result: { content: text("stored"), structuredContent: { count: notes.length } } });
+    case "wipe":
+      notes.length = 0;
+      return send({ id, result: { content: text("wiped") } });
+    case "slow":
+      pendingSlowCalls.set(id, setTimeout(() => send({ id, result: { content: text("late") } }), 10_000));
+      return undefined;
+    case "missing.note":
+      return send({ id, result: { content: text("Note does not exist."), isError: true } });
+    default:
+      return send({ id, error: { code: -32602, message: `Unknown tool: ${name}` } });
+  }
+}
+
+createInterface({ input: process.stdin }).on("line", (line) => {
+  const message = JSON.parse(line);
+  switch (message.method) {
+    case "initialize":
+      return send({
+        id: message.id,
+        result: {
+          protocolVersion: message.params.protocolVersion,
+          capabilities: { tools: {} },
+          serverInfo: { name: "notes-fixture", version: "0.1.0" },
+        },
+      });
+    case "tools/list":
+      // Two pages so the client's cursor handling is exercised.
+      return message.params?.cursor === "page-2"
+        ? send({ id: message.id, result: { tools: TOOLS.slice(3) } })
+        : send({ id: message.id, result: { tools: TOOLS.slice(0, 3), nextCursor: "page-2" } });
+    case "tools/call":
+      return callTool(message.id, message.params.name, message.params.arguments ?? {});
+    case "notifications/cancelled": {
+      const timer = pendingSlowCalls.get(message.params.requestId);
+      clearTimeout(timer);
+      pendingSlowCalls.delete(message.params.requestId);
+      process.stderr.write(`cancelled ${message.params.requestId}\n`);
+      return undefined;
+    }
+    default:
+      if (message.id !== undefined) send({ id: message.id, error: { code: -32601, message: "Method not found" } });
+      return undefined;
+  }
+});
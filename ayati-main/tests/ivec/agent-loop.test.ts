@@ -428,6 +428,86 @@ describe("agentLoop one-run lifecycle", () => {
     }
   });
 
+  it("finalizes a run cancelled during a provider call as cancelled", async () => {
+    const dataDir = makeTmpDir();
+    try {
+      const controller = new AbortController();
+      const provider = createProvider([]);
+      vi.mocked(provider.generateTurn).mockImplementation(async (input) => {
+        expect(input.signal).toBe(controller.signal);
+        controller.abort();
+        throw Object.assign(new Error("Request was aborted."), { name: "AbortError" });
+      });
+
+      const result = await agentLoop({
+        provider,
+        workspaceRoot: dataDir,
+        toolDefinitions: [],
+        runHandle: runHandle("R-cancelled"),
+        clientId: "c1",
+        initialUserMessage: "hello",
+        dataDir,
+        systemContext: "test system context",
+        signal: controller.signal,
+      });
+
+      expect(result).toMatchObject({
+        runId: "R-cancelled",
+        outcome: "cancelled",
+        stopReason: "cancelled",
+        status: "failed",
+        totalToolCalls: 0,
+      });
+      expect(provider.generateTurn).toHaveBeenCalledTimes(1);
+    } finally {
+      cleanup(dataDir);
+    }
+  });
+
+  it("stops through the run-limit handoff when the cost budget is exhausted", async () => {
+    const dataDir = makeTmpDir();
+    try {
+      const provider = createProvider([
+        { kind: "reply", status: "completed", message: "Never sent." },
+      ]);
+      const check = vi.fn(() => ({
+        scope: "day" as const,
+        unit: "usd" as const,
+        limit: 2,
+        spent: 2,
+        projected: 0,
+      }));
+
+      const result = await agentLoop({
+        provider,
+        workspaceRoot: dataDir,
+        toolDefinitions: [],
+        runHandle: runHandle("R-budget"),
+        clientId: "c1",
+        initialUserMessage: "hello",
+        dataDir,
+        systemContext: "test system context",
+        budget: { check },
+      });
+
+      expect(check).toHaveBeenCalledWith({
+        spent: { usd: 0, tokens: 0 },
+        projected: { usd: 0, tokens: 0 },
+      });
+      expect(result).toMatchObject({
+        runId: "R-budget",
+        outcome: "incomplete",
+        stopReason: "budget_exhausted",
+        status: "stuck",
+        spend: { usd: 0, tokens: 0 },
+      });
+      expect(result.content).toContain("I reached today's $2.00 spending budget and safely paused this run.");
+      expect(provider.generateTurn).not.toHaveBeenCalled();
+    } finally {
+      cleanup(dataDir);
+    }
+  });
+
   it("persists a named WorkState checkpoint without creating an action step", async () => {
     const dataDir = makeTmpDir();
     try {
@@ -185,6 +185,26 @@ describe("buildBoundWorkstreamPromptContext", () => {
     }
   });
 
+  it("surfaces resources changed outside Ayati since the last run", () => {
+    const context = boundContext();
+    expect(buildBoundWorkstreamPromptContext(context)).not.toHaveProperty("resourcesChangedSinceLastRun");
+    context.workstream!.resourceChanges = [{
+      resourceId: resourceId(1),
+      displayName: "site",
+      change: "changed",
+      availability: "changed",
+      at: "2026-07-29T09:00:00.000Z",
+    }];
+
+    expect(buildBoundWorkstreamPromptContext(context)?.resourcesChangedSinceLastRun).toEqual([{
+      id: resourceId(1),
+      name: "site",
+      change: "changed",
+      availability: "changed",
+      at: "2026-07-29T09:00:00.000Z",
+    }]);
+  });
+
   it("keeps the selected request primary and identifies a different active request", () => {
     const context = boundContext();
     context.workstream!.selectedRequest = {
@@ -4,7 +4,7 @@ import {
   ProviderEmptyResponseError,
   ProviderMalformedResponseError,
 } from "../../src/core/contracts/provider-errors.js";
-import type { LlmTurnInput, LlmTurnOutput } from "../../src/core/contracts/llm-protocol.js";
+import type { LlmMessage, LlmTurnInput, LlmTurnOutput } from "../../src/core/contracts/llm-protocol.js";
 import {
   ContextInputLimitError,
   ContextRunCapacityError,
@@ -16,7 +16,7 @@ import type { AgentStateView } from "../../src/ivec/agent-runner/state-view.js";
 import { buildCoreCapsule } from "../../src/ivec/agent-runner/core-capsule.js";
 import type { AgentTemporalEvent } from "../../src/ivec/agent-runner/agent-context-events.js";
 import { MODE_TRANSITION_CONTROL_TOOL_NAMES } from "../../src/ivec/agent-runner/mode-transition-controls.js";
-import { createRunMetrics } from "../../src/ivec/metrics.js";
+import { createRunMetrics, formatRunMetrics } from "../../src/ivec/metrics.js";
 import type { ToolDefinition } from "../../src/skills/types.js";
 import { nativeDecisionFixture } from "./native-decision-fixture.js";
 
@@ -312,6 +312,74 @@ describe("callAgentDecision", () => {
     }));
   });
 
+  it("records which provider route served the decision turn", async () => {
+    const { provider, generateTurn } = createNativeToolProvider([{
+      ...nativeDecisionFixture(JSON.stringify({ kind: "reply", status: "completed", message: "Hi!" })),
+      servedBy: {
+        provider: "anthropic",
+        model: "claude-sonnet-4-5-20250929",
+        role: "decision",
+        fallbackFrom: ["openai:gpt-4o"],
+      },
+    }]);
+    const metrics = createRunMetrics();
+
+    await callAgentDecision({
+      provider,
+      stateView: createStateView(),
+      toolDefinitions: [],
+      metrics,
+    });
+
+    expect(generateTurn).toHaveBeenCalledWith(expect.objectContaining({ modelRole: "decision" }));
+    expect(metrics.optimization.providerRoutes["agent_decision"]).toEqual({
+      calls: 1,
+      fallbackCalls: 1,
+      servedBy: { "anthropic:claude-sonnet-4-5-20250929": 1 },
+    });
+    expect(metrics.optimizationEvents.find((event) => event.kind === "provider_fallback")?.data).toMatchObject({
+      stage: "agent_decision",
+      provider: "anthropic",
+      fallbackFrom: ["openai:gpt-4o"],
+    });
+  });
+
+  it("records the prompt cache hit ratio of decision turns", async () => {
+    const usage = (cachedInputTokens: number) => ({
+      provider: "anthropic",
+      model: "claude-sonnet-4-5-20250929",
+      inputTokens: 1_000,
+      outputTokens: 20,
+      totalTokens: 1_020,
+      cachedInputTokens,
+      exact: true,
+    });
+    const reply = nativeDecisionFixture(JSON.stringify({ kind: "reply", status: "completed", message: "Hi!" }));
+    const { provider } = createNativeToolProvider([
+      { ...reply, usage: usage(0) },
+      { ...reply, usage: usage(900) },
+    ]);
+    const metrics = createRunMetrics();
+
+    for (let call = 0; call < 2; call++) {
+      await callAgentDecision({
+        provider,
+        stateView: createStateView(),
+        toolDefinitions: [],
+        metrics,
+      });
+    }
+
+    expect(metrics.optimization.providerUsage["agent_decision"]).toMatchObject({
+      calls: 2,
+      inputTokens: 2_000,
+      cachedInputTokens: 900,
+      cacheHitRatio: 0.45,
+      byModel: { "anthropic:claude-sonnet-4-5-20250929": { cacheHitRatio: 0.45 } },
+    });
+    expect(formatRunMetrics(metrics)).toContain("cache_hit_ratio=0.45");
+  });
+
   it("rejects an over-limit request before provider generation", async () => {
     const generateTurn = vi.fn();
     const countInputTokens = vi.fn().mockResolvedValue({
@@ -1790,14 +1858,14 @@ describe("callAgentDecision", () => {
     });
 
     const turnInput = generateTurn.mock.calls[0]?.[0];
-    const userPrompt = turnInput?.messages.find((message) => message.role === "user")?.content;
-    if (typeof userPrompt !== "string") throw new Error("Expected a user prompt.");
-    expect(userPrompt).toContain("Selected tools:\n- read: read_files");
-    expect(userPrompt).not.toContain("UNIQUE_INPUT_SCHEMA_MARKER");
-    expect(userPrompt).not.toContain("UNIQUE_OUTPUT_SCHEMA_MARKER");
-    expect(userPrompt).not.toContain("annotations=");
-    expect(userPrompt).not.toContain("inputSchema=");
-    expect(userPrompt).not.toContain("outputSchema=");
+    const capabilitySurface = turnInput?.messages[1];
+    if (capabilitySurface?.role !== "system") throw new Error("Expected a capability surface message.");
+    expect(capabilitySurface.content).toContain("Selected tools:\n- read: read_files");
+    expect(capabilitySurface.content).not.toContain("UNIQUE_INPUT_SCHEMA_MARKER");
+    expect(capabilitySurface.content).not.toContain("UNIQUE_OUTPUT_SCHEMA_MARKER");
+    expect(capabilitySurface.content).not.toContain("annotations=");
+    expect(capabilitySurface.content).not.toContain("inputSchema=");
+    expect(capabilitySurface.content).not.toContain("outputSchema=");
 
     const nativeTool = turnInput?.tools?.find((tool) => tool.name === "read_files");
     expect(nativeTool?.description).toBe(selectedTool.description);
@@ -1809,6 +1877,30 @@ describe("callAgentDecision", () => {
     expect((nativeTool?.inputSchema.properties as Record<string, unknown>)["taskCompletion"]).toBeUndefined();
   });
 
+  it("orders static context and the capability surface before volatile state as cacheable prefixes", async () => {
+    const { provider, generateTurn } = createProvider([
+      JSON.stringify({ kind: "reply", status: "completed", message: "Hi!" }),
+    ]);
+
+    await callAgentDecision({
+      provider,
+      stateView: createStateView(),
+      toolDefinitions: [],
+      systemContext: "SOUL_MARKER",
+      toolRoutingSummary: "- file:read: read exact files",
+    });
+
+    const messages: LlmMessage[] = generateTurn.mock.calls[0]?.[0]?.messages ?? [];
+    expect(messages.map((message) => message.role)).toEqual(["system", "system", "user"]);
+    expect(messages[0]).toMatchObject({ cacheBreakpoint: true });
+    expect(messages[0]?.content).toContain("SOUL_MARKER");
+    expect(messages[1]).toMatchObject({ cacheBreakpoint: true });
+    expect(messages[1]?.content).toContain("Capability catalog");
+    expect(messages[1]?.content).toContain("- file:read: read exact files");
+    expect(messages[1]?.content).not.toContain("State view:");
+    expect(messages[2]?.content).toMatch(/^State view:\n/);
+  });
+
   it("records and retries an empty provider response once", async () => {
     const providerError = new ProviderEmptyResponseError("Empty response from OpenRouter.", {
       provider: "openrouter",
@@ -21,6 +21,22 @@ describe("run-limit handoff", () => {
     expect(handoff.response).toContain("No workstream or request was created or activated");
   });
 
+  it("describes a budget stop instead of the decision limit", () => {
+    const handoff = buildRunLimitHandoff(state(), 30, {
+      scope: "day",
+      unit: "usd",
+      limit: 5,
+      spent: 4.9,
+      projected: 0.2,
+    });
+
+    expect(handoff.workState.summary).toBe(
+      "Run paused at the spending budget before any task action was durably verified.",
+    );
+    expect(handoff.response).toContain("I reached today's $5.00 spending budget and safely paused this run.");
+    expect(handoff.response).not.toContain("decision limit");
+  });
+
   it("preserves exact verified effects and pauses active plan work", () => {
     const current = state(true);
     current.workState.plan = [
@@ -42,6 +42,39 @@ describe("task validation criterion proofs", () => {
     });
   });
 
+  it("requires a parsed all-tests-passed outcome for test criteria", () => {
+    const processRef = "run:RUN-1:step:3:call:pnpm-test:outcome:0";
+    const testsRef = "run:RUN-1:step:3:call:pnpm-test:outcome:1";
+    const checks = [
+      { outcomeRef: writeRef, kind: "file.written" as const, subject: "/work/src/cart.ts" },
+      { outcomeRef: processRef, kind: "process.exit_success" as const, subject: "pnpm test" },
+      { outcomeRef: testsRef, kind: "tests.all_passed" as const, subject: "pnpm test" },
+    ];
+
+    expect(validateCriterionProofSelections({
+      acceptance: ["The cart total is fixed.", "All tests pass."],
+      outcomeRefs: [writeRef, processRef],
+      selections: [
+        { criterionIndex: 0, outcomeRefs: [writeRef] },
+        { criterionIndex: 1, outcomeRefs: [processRef] },
+      ],
+      checks,
+    })).toMatchObject({
+      message: expect.stringContaining("requires passing tests"),
+      subjects: [processRef],
+    });
+
+    expect(validateCriterionProofSelections({
+      acceptance: ["The cart total is fixed.", "The unit tests are passing."],
+      outcomeRefs: [writeRef, testsRef],
+      selections: [
+        { criterionIndex: 0, outcomeRefs: [writeRef] },
+        { criterionIndex: 1, outcomeRefs: [testsRef] },
+      ],
+      checks,
+    })).toBeUndefined();
+  });
+
   it("does not accept criterion mappings for an unbound responsibility", () => {
     expect(validateCriterionProofSelections({
       acceptance: [],
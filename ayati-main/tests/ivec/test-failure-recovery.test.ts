@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { createFailureRecordFromStepSummary, createRepairSignalFromStepSummary } from "../../src/ivec/agent-runner/repair-feedback.js";
+import type { StepSummary } from "../../src/ivec/types.js";
+
+describe("test failure recovery policy", () => {
+  it("points repair feedback at parsed failing locations", () => {
+    const step = failedTestStep(["tests/cart.test.ts:18 cart > totals items: expected 25 to be 30"]);
+
+    const repair = createRepairSignalFromStepSummary(step);
+    expect(repair).toMatchObject({
+      code: "R_TEST_FAILURE_RECOVERY",
+      message: "pnpm test failed at 1 parsed location.",
+      blockedTargets: ["tests/cart.test.ts:18 cart > totals items: expected 25 to be 30"],
+    });
+    expect(repair?.allowedNextActions[0]).toBe(
+      "Fix these reported locations first: tests/cart.test.ts:18 cart > totals items: expected 25 to be 30.",
+    );
+
+    const failure = createFailureRecordFromStepSummary(step);
+    expect(failure.repairCode).toBe("R_TEST_FAILURE_RECOVERY");
+    expect(failure.repair?.allowedNextActions.join("\n")).toContain("Rerun the same command");
+  });
+
+  it("keeps the generic repair when the failed command had no parsed locations", () => {
+    const repair = createRepairSignalFromStepSummary(failedTestStep([]));
+    expect(repair?.code).not.toBe("R_TEST_FAILURE_RECOVERY");
+  });
+});
+
+function failedTestStep(failureLocations: string[]): StepSummary {
+  return {
+    step: 5,
+    executionContract: "single action: process_run",
+    outcome: "failed",
+    summary: "process_run: Process exited with code 1. vitest test failed (1 failed, 4 passed).",
+    newFacts: [],
+    artifacts: [],
+    toolsUsed: ["process_run"],
+    toolSuccessCount: 0,
+    toolFailureCount: 1,
+    evidenceItems: ["process_run: Process exited with code 1."],
+    failureType: "tool_error",
+    evidenceSource: {
+      kind: "tool-output",
+      toolCalls: [{
+        tool: "process_run",
+        status: "failed",
+        code: "COMMAND_FAILED",
+        command: "pnpm test",
+        exitCode: 1,
+        ...(failureLocations.length > 0 ? { failureLocations } : {}),
+      }],
+    },
+  };
+}
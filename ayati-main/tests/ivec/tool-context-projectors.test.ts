@@ -52,6 +52,29 @@ describe("tool context projectors", () => {
     expect(projection.call.outputPreview).toContain("failure: expected 60K received 70K");
   });
 
+  it("projects parsed test reports even when the command name is not recognized", () => {
+    const projection = projectToolCallForPressure(call({
+      tool: "process_run",
+      input: { executable: "node", args: ["scripts/check.mjs"], cwd: "/workspace" },
+      output: "check output",
+      projectionMetadata: {
+        command: "node scripts/check.mjs",
+        exitCode: 1,
+        testReport: {
+          tool: "vitest",
+          kind: "test",
+          verdict: "failed",
+          counts: { passed: 4, failed: 1, skipped: 0, total: 5 },
+          failures: [{ name: "cart > totals items", file: "tests/cart.test.ts", line: 18 }],
+          diagnostics: [],
+        },
+      },
+    }), "preview");
+
+    expect(projection.projectorId).toBe("test_build_v1");
+    expect(projection.call.summary).toContain("tests/cart.test.ts");
+  });
+
   it("uses structured search metadata and keeps exact query inputs", () => {
     const projection = projectToolCallForPressure(call({
       tool: "search_in_files",
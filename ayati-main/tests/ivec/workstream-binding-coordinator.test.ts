@@ -3,7 +3,10 @@ import {
   type ContextEngineService,
 } from "ayati-context-engine";
 import { describe, expect, it, vi } from "vitest";
-import { createWorkstreamBindingCoordinator } from "../../src/ivec/workstream-binding/coordinator.js";
+import {
+  bindRunToWorkstream,
+  createWorkstreamBindingCoordinator,
+} from "../../src/ivec/workstream-binding/coordinator.js";
 
 const NOW = "2026-07-22T12:00:00.000Z";
 const WORKSTREAM_ID = "W-20260722-0001";
@@ -660,6 +663,67 @@ describe("workstream binding coordinator", () => {
     });
     expect(findWorkstreams).not.toHaveBeenCalled();
   });
+
+  it("binds a run to a fixed workstream request before the model routes it", async () => {
+    const activateWorkstreamForRun = vi.fn(async () => ({
+      run: {
+        runId: "RUN-1",
+        streamId: "S-1",
+        workstreamBinding: { workstreamId: WORKSTREAM_ID, requestId: "R-0002", boundAt: NOW },
+      },
+    }));
+    const service = {
+      getWorkstream: vi.fn(async () => ({
+        workstream: { workstreamId: WORKSTREAM_ID, head: HEAD },
+        context: { currentRequest: { id: "R-0001", status: "active" } },
+      })),
+      getAgentContext: vi.fn(async () => agentContext(true, "R-0002")),
+      activateWorkstreamForRun,
+    } as unknown as ContextEngineService;
+    const options = {
+      service,
+      runId: "RUN-1",
+      streamId: "S-1",
+      currentInput: "Scheduled run.",
+      now: () => new Date(NOW),
+    };
+
+    const result = await bindRunToWorkstream(options, { workstreamId: WORKSTREAM_ID, requestId: "R-0002" });
+
+    expect(result).toMatchObject({ status: "resolved", workstreamId: WORKSTREAM_ID, requestId: "R-0002" });
+    expect(activateWorkstreamForRun).toHaveBeenCalledWith(expect.objectContaining({
+      workstreamId: WORKSTREAM_ID,
+      expectedWorkstreamHead: HEAD,
+      route: expect.objectContaining({ kind: "activate_existing", requestId: "R-0002" }),
+    }));
+
+    await bindRunToWorkstream(options, { workstreamId: WORKSTREAM_ID });
+    expect(activateWorkstreamForRun).toHaveBeenLastCalledWith(expect.objectContaining({
+      route: expect.objectContaining({ kind: "continue_current", requestId: "R-0001" }),
+    }));
+  });
+
+  it("reports a fixed workstream that cannot be bound instead of throwing", async () => {
+    const service = {
+      getWorkstream: vi.fn(async () => {
+        throw new ContextEngineServiceError({
+          code: "WORKSTREAM_NOT_FOUND",
+          message: "Workstream not found.",
+          retryable: false,
+        });
+      }),
+    } as unknown as ContextEngineService;
+
+    await expect(bindRunToWorkstream({
+      service,
+      runId: "RUN-1",
+      streamId: "S-1",
+      currentInput: "Scheduled run.",
+    }, { workstreamId: WORKSTREAM_ID })).resolves.toMatchObject({
+      status: "failed",
+      code: "WORKSTREAM_NOT_FOUND",
+    });
+  });
 });
 
 function workspaceTarget(
@@ -6,6 +6,7 @@ import { afterEach, describe, expect, it, vi } from "vitest";
 import type { LlmProvider } from "../../src/core/contracts/provider.js";
 import { DEFAULT_MEMORY_POLICY, loadMemoryPolicy } from "../../src/memory/personal/memory-policy.js";
 import { MemoryConsolidator } from "../../src/memory/personal/memory-consolidator.js";
+import { exportPersonalMemory, parsePersonalMemoryExport } from "../../src/memory/personal/memory-export.js";
 import { MemoryResolver } from "../../src/memory/personal/memory-resolver.js";
 import { scoreMemory } from "../../src/memory/personal/memory-scorer.js";
 import { PersonalMemoryStore } from "../../src/memory/personal/personal-memory-store.js";
@@ -487,6 +488,52 @@ describe("User Facts personal memory section", () => {
     store.stop();
   });
 
+  it("fuses embedding matches into hybrid search once a refresh embeds the cards", async () => {
+    const root = mkdtempSync(join(tmpdir(), "ayati-user-facts-"));
+    roots.push(root);
+    const store = makeStore(root);
+    const card = store.createCard({
+      userId: "local",
+      kind: "hobby",
+      slot: "hobby/weekend",
+      text: "User enjoys photographing birds on weekends.",
+      state: "active",
+      confidence: 0.9,
+      importance: 0.7,
+      sourceType: "explicit_user_statement",
+      sourceReliability: 0.95,
+    });
+    const work = store.createCard({
+      userId: "local",
+      kind: "work",
+      slot: "work/role",
+      text: "User works as an accountant.",
+      state: "active",
+      confidence: 0.9,
+      importance: 0.7,
+      sourceType: "explicit_user_statement",
+      sourceReliability: 0.95,
+    });
+
+    expect(store.searchMemories("local", { query: "photography" })).toEqual([]);
+    expect(await store.searchMemoriesHybrid("local", { query: "photography" })).toEqual([]);
+    await expect(store.refreshSemanticIndex()).resolves.toMatchObject({ embedded: 2, pending: 0 });
+    expect((await store.searchMemoriesHybrid("local", { query: "photography" })).map((memory) => memory.id))
+      .toEqual([card.id]);
+    expect((await store.searchMemoriesHybrid("local", { query: "photography", kind: "work" }))
+      .map((memory) => memory.id)).toEqual([work.id]);
+    store.stop();
+
+    const db = new DatabaseSync(resolve(root, "data", "memory", "personal.sqlite"));
+    db.exec("DELETE FROM semantic_documents");
+    db.close();
+    const reopened = makeStore(root);
+    await expect(reopened.refreshSemanticIndex()).resolves.toMatchObject({ embedded: 2, pending: 0 });
+    expect((await reopened.searchMemoriesHybrid("local", { query: "photography" })).map((memory) => memory.id))
+      .toEqual([card.id]);
+    reopened.stop();
+  });
+
   it("ignores legacy personal_memories rows during startup", () => {
     const root = mkdtempSync(join(tmpdir(), "ayati-legacy-personal-memory-"));
     roots.push(root);
@@ -1203,3 +1250,120 @@ describe("User Facts personal memory section", () => {
     store.stop();
   });
 });
+
+describe("Personal memory management", () => {
+  const roots: string[] = [];
+
+  afterEach(() => {
+    for (const root of roots.splice(0, roots.length)) {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  function tempStore(): PersonalMemoryStore {
+    const root = mkdtempSync(join(tmpdir(), "ayati-memory-manage-"));
+    roots.push(root);
+    return makeStore(root);
+  }
+
+  it("edits a card as a user correction and keeps the previous values in its history", () => {
+    const store = tempStore();
+    new MemoryResolver(store).resolve("local", payload("s1"), [proposal()], DEFAULT_MEMORY_POLICY);
+    const [card] = store.listMemories("local");
+
+    const edited = store.editCard(card!.id, { text: "User's name is Sai Eshwar.", value: "Sai Eshwar" });
+
+    expect(edited).toMatchObject({
+      text: "User's name is Sai Eshwar.",
+      value: "Sai Eshwar",
+      sourceType: "manual_user_request",
+      corrections: 1,
+    });
+    expect(store.searchMemories("local", { query: "Eshwar" }).map((memory) => memory.id)).toEqual([card!.id]);
+    const edit = store.listEvolutionEvents({ memoryId: card!.id }).find((event) => event.eventType === "edits");
+    expect(JSON.parse(edit?.payloadJson ?? "{}")).toMatchObject({ previous: { text: "User's name is Sai.", value: "Sai" } });
+    expect(() => store.editCard(card!.id, { text: "  " })).toThrow(/cannot be empty/);
+    expect(() => store.editCard("mem_missing", { text: "x" })).toThrow(/does not exist/);
+    store.stop();
+  });
+
+  it("archives a live card on request and refuses cards that are no longer live", () => {
+    const store = tempStore();
+    new MemoryResolver(store).resolve("local", payload("s1"), [proposal()], DEFAULT_MEMORY_POLICY);
+    const [card] = store.listMemories("local");
+
+    expect(store.archiveCardByUser(card!.id, "User asked to forget it.")).toMatchObject({ state: "archived" });
+
+    expect(store.listMemories("local")).toEqual([]);
+    expect(store.listEvidence(card!.id)).toContainEqual(expect.objectContaining({
+      evidenceType: "archives",
+      sourceText: "User asked to forget it.",
+    }));
+    expect(() => store.archiveCardByUser(card!.id, "again")).toThrow(/already archived/);
+    store.stop();
+  });
+
+  it("round-trips an export into another store by merge and by replace", () => {
+    const source = tempStore();
+    const resolver = new MemoryResolver(source);
+    resolver.resolve("local", payload("s1"), [proposal(), evolvingProposal()], DEFAULT_MEMORY_POLICY);
+    resolver.resolve("local", payload("s2"), [evolvingProposal({ kind: "style", slot: "style/answer_depth" })], DEFAULT_MEMORY_POLICY);
+    const document = JSON.parse(JSON.stringify(exportPersonalMemory(source, "local", new Date(TEST_NOW))));
+
+    expect(document).toMatchObject({ format: "ayati-personal-memory", version: 1, exportedAt: TEST_NOW });
+    expect(document.cards).toHaveLength(source.exportRecords("local").cards.length);
+
+    const target = tempStore();
+    const records = parsePersonalMemoryExport(document);
+    const first = target.importRecords("other-user", records, "merge");
+    expect(first).toMatchObject({
+      mode: "merge",
+      cards: records.cards.length,
+      evidence: records.evidence.length,
+      events: records.events.length,
+      aliases: records.aliases.length,
+      skipped: 0,
+    });
+    expect(target.listMemories("other-user")[0]?.userId).toBe("other-user");
+    expect(target.searchMemories("other-user", { query: "Sai" })).toHaveLength(1);
+
+    const again = target.importRecords("other-user", records, "merge");
+    expect(again).toMatchObject({ cards: 0, evidence: 0, skipped: first.cards + first.evidence + first.events + first.aliases });
+
+    target.createCard({
+      userId: "other-user",
+      kind: "location",
+      slot: "location/home_city",
+      text: "User lives in Pune.",
+      state: "active",
+      confidence: 0.9,
+      importance: 0.8,
+      sourceType: "manual_user_request",
+      sourceReliability: 0.98,
+    });
+    const replaced = target.importRecords("other-user", records, "replace");
+    expect(replaced.skipped).toBe(0);
+    expect(target.exportRecords("other-user").cards.map((card) => card.id).sort())
+      .toEqual(records.cards.map((card) => card.id).sort());
+    source.stop();
+    target.stop();
+  });
+
+  it("rejects malformed export documents before touching the store", () => {
+    expect(() => parsePersonalMemoryExport({ format: "something-else" })).toThrow(/ayati-personal-memory/);
+    expect(() => parsePersonalMemoryExport({ format: "ayati-personal-memory", version: 2 })).toThrow(/version 2/);
+    expect(() => parsePersonalMemoryExport({
+      format: "ayati-personal-memory",
+      version: 1,
+      cards: [{
+        id: "mem_1",
+        sectionId: "user_facts",
+        kind: "identity",
+        slot: "identity/name",
+        text: "x",
+        state: "live",
+        createdAt: TEST_NOW,
+      }],
+    })).toThrow(/cards\[0\]\.state must be one of/);
+  });
+});
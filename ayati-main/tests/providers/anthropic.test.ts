@@ -95,6 +95,59 @@ describe("Anthropic provider", () => {
     expect(out).toEqual({ type: "assistant", content: "Hello from Claude" });
   });
 
+  it("should mark cache breakpoints on system blocks for generation and counting", async () => {
+    process.env["ANTHROPIC_API_KEY"] = "sk-ant-test-key";
+
+    const mockCreate = vi.fn().mockResolvedValue({
+      content: [{ type: "text", text: "Cached" }],
+    });
+    const mockCount = vi.fn().mockResolvedValue({ input_tokens: 10 });
+
+    mockAnthropicConstructor(mockCreate, mockCount);
+
+    provider.start();
+    const input = {
+      messages: [
+        { role: "system" as const, content: "Static", cacheBreakpoint: true },
+        { role: "system" as const, content: "Capabilities", cacheBreakpoint: true },
+        { role: "system" as const, content: "Volatile" },
+        { role: "user" as const, content: "Hi" },
+      ],
+    };
+    await provider.generateTurn(input);
+    await provider.countInputTokens!(input);
+
+    const expectedSystem = [
+      { type: "text", text: "Static", cache_control: { type: "ephemeral" } },
+      { type: "text", text: "Capabilities", cache_control: { type: "ephemeral" } },
+      { type: "text", text: "Volatile" },
+    ];
+    expect((mockCreate.mock.calls[0]?.[0] as any)?.system).toEqual(expectedSystem);
+    expect((mockCount.mock.calls[0]?.[0] as any)?.system).toEqual(expectedSystem);
+  });
+
+  it("should send at most four cache breakpoints", async () => {
+    process.env["ANTHROPIC_API_KEY"] = "sk-ant-test-key";
+
+    const mockCreate = vi.fn().mockResolvedValue({
+      content: [{ type: "text", text: "Cached" }],
+    });
+
+    mockAnthropicConstructor(mockCreate);
+
+    provider.start();
+    await provider.generateTurn({
+      messages: [
+        ...["a", "b", "c", "d", "e"].map((content) => ({ role: "system" as const, content, cacheBreakpoint: true })),
+        { role: "user", content: "Hi" },
+      ],
+    });
+
+    const system = (mockCreate.mock.calls[0]?.[0] as any)?.system as Array<Record<string, unknown>>;
+    expect(system.filter((block) => block["cache_control"]).map((block) => block["text"]))
+      .toEqual(["a", "b", "c", "d"]);
+  });
+
   it("should serialize user images as Anthropic image blocks", async () => {
     process.env["ANTHROPIC_API_KEY"] = "sk-ant-test-key";
     const fixture = makeImageFixture();
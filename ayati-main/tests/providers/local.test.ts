@@ -0,0 +1,212 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { LlmProvider } from "../../src/core/contracts/provider.js";
+import type { LlmTurnInput } from "../../src/core/contracts/llm-protocol.js";
+import { resolveModelContextLimits } from "../../src/providers/shared/model-context-limits.js";
+import { canBindTcpSocket } from "../fixtures/runtime-capabilities.js";
+import {
+  type ProviderRuntimeConfigHandle,
+  setupProviderRuntimeConfig,
+} from "./runtime-config-test-helpers.js";
+
+interface FakeLocalServer {
+  baseURL: string;
+  models: Record<string, unknown>[];
+  completions: unknown[];
+  chatRequests: Record<string, unknown>[];
+  close(): Promise<void>;
+}
+
+async function readBody(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+async function startFakeLocalServer(): Promise<FakeLocalServer> {
+  const state = {
+    models: [] as Record<string, unknown>[],
+    completions: [] as unknown[],
+    chatRequests: [] as Record<string, unknown>[],
+  };
+  const server: Server = createServer(async (request, response) => {
+    response.setHeader("content-type", "application/json");
+    if (request.method === "GET" && request.url === "/v1/models") {
+      response.end(JSON.stringify({ object: "list", data: state.models }));
+      return;
+    }
+    if (request.method === "POST" && request.url === "/v1/chat/completions") {
+      state.chatRequests.push(JSON.parse(await readBody(request)) as Record<string, unknown>);
+      response.end(JSON.stringify(state.completions.shift() ?? completion("")));
+      return;
+    }
+    response.statusCode = 404;
+    response.end(JSON.stringify({ error: "not found" }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseURL: `http://127.0.0.1:${port}/v1`,
+    ...state,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+function completion(content: string | null, toolCalls?: unknown[]): unknown {
+  return {
+    id: "chatcmpl-local",
+    object: "chat.completion",
+    created: 0,
+    model: "qwen2.5:14b",
+    choices: [{
+      index: 0,
+      finish_reason: toolCalls ? "tool_calls" : "stop",
+      message: { role: "assistant", content, ...(toolCalls ? { tool_calls: toolCalls } : {}) },
+    }],
+    usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 },
+  };
+}
+
+const toolTurn: LlmTurnInput = {
+  messages: [{ role: "user", content: "read the notes" }],
+  tools: [{
+    name: "read_file",
+    description: "Read a file.",
+    inputSchema: { type: "object", properties: { path: { type: "string" } }, required: ["path"] },
+  }],
+};
+
+describe.runIf(canBindTcpSocket())("local provider", () => {
+  const originalEnv = { ...process.env };
+  let server: FakeLocalServer;
+  let provider: LlmProvider;
+  let runtimeConfig: ProviderRuntimeConfigHandle;
+
+  beforeEach(async () => {
+    server = await startFakeLocalServer();
+    process.env["LOCAL_LLM_BASE_URL"] = server.baseURL;
+    delete process.env["LOCAL_LLM_TOOL_CALLING"];
+    runtimeConfig = await setupProviderRuntimeConfig("local", "qwen2.5:14b");
+    provider = (await import("../../src/providers/local/index.js")).default;
+  });
+
+  afterEach(async () => {
+    await provider.stop();
+    await runtimeConfig.cleanup();
+    await server.close();
+    process.env = { ...originalEnv };
+  });
+
+  it("probes the served model and records its capabilities and context window", async () => {
+    server.models.push({
+      id: "qwen2.5:14b",
+      object: "model",
+      context_length: 131_072,
+      capabilities: ["completion", "tools"],
+    });
+
+    await provider.start();
+
+    expect(provider.capabilities).toMatchObject({
+      nativeToolCalling: true,
+      textToolCallFallback: false,
+      streaming: true,
+      imageInput: false,
+    });
+    expect(resolveModelContextLimits(provider)).toMatchObject({
+      provider: "local",
+      model: "qwen2.5:14b",
+      contextWindowTokens: 131_072,
+      source: "probed",
+    });
+  });
+
+  it("fails to start when the server does not serve the configured model", async () => {
+    server.models.push({ id: "llama3.1:8b", object: "model" });
+
+    await expect(provider.start()).rejects.toThrow(
+      /does not serve model "qwen2\.5:14b"\. Available: llama3\.1:8b/,
+    );
+  });
+
+  it("fails to start when the probed context window is below the supported minimum", async () => {
+    server.models.push({ id: "qwen2.5:14b", object: "model", max_model_len: 32_768 });
+
+    await expect(provider.start()).rejects.toThrow(/32768-token context window/);
+  });
+
+  it("sends native tools and maps tool calls when the model advertises tool calling", async () => {
+    server.models.push({ id: "qwen2.5:14b", object: "model", supported_parameters: ["tools"] });
+    server.completions.push(completion(null, [{
+      id: "call_1",
+      type: "function",
+      function: { name: "read_file", arguments: "{\"path\":\"notes.md\"}" },
+    }]));
+    await provider.start();
+
+    const output = await provider.generateTurn(toolTurn);
+
+    expect(server.chatRequests[0]).toMatchObject({
+      model: "qwen2.5:14b",
+      tool_choice: "auto",
+      tools: [{ type: "function", function: { name: "read_file" } }],
+    });
+    expect(output).toMatchObject({
+      type: "tool_calls",
+      calls: [{ id: "call_1", name: "read_file", input: { path: "notes.md" } }],
+      usage: { inputTokens: 12, outputTokens: 5 },
+    });
+  });
+
+  it("falls back to assistant-text tool calls when native tool calling is unavailable", async () => {
+    server.models.push({ id: "qwen2.5:14b", object: "model" });
+    server.completions.push(completion("```json\n{\"tool\": \"read_file\", \"input\": {\"path\": \"notes.md\"}}\n```"));
+    await provider.start();
+
+    expect(provider.capabilities).toMatchObject({ nativeToolCalling: false, textToolCallFallback: true });
+    const output = await provider.generateTurn({ ...toolTurn, toolChoice: "required" });
+
+    const request = server.chatRequests[0]!;
+    expect(request["tools"]).toBeUndefined();
+    const messages = request["messages"] as Array<{ role: string; content: string }>;
+    expect(messages.at(-1)).toMatchObject({ role: "system" });
+    expect(messages.at(-1)?.content).toContain("- read_file: Read a file.");
+    expect(messages.at(-1)?.content).toContain("You must call one tool in this reply.");
+    expect(output).toMatchObject({
+      type: "tool_calls",
+      calls: [{ name: "read_file", input: { path: "notes.md" } }],
+    });
+  });
+
+  it("replays text-mode tool history as plain messages and returns ordinary replies", async () => {
+    server.models.push({ id: "qwen2.5:14b", object: "model" });
+    server.completions.push(completion("The notes mention the launch date."));
+    process.env["LOCAL_LLM_TOOL_CALLING"] = "text";
+    await provider.start();
+
+    const output = await provider.generateTurn({
+      ...toolTurn,
+      messages: [
+        ...toolTurn.messages,
+        { role: "assistant_tool_calls", calls: [{ id: "call_1", name: "read_file", input: { path: "notes.md" } }] },
+        { role: "tool", toolCallId: "call_1", name: "read_file", content: "launch: 2026-11-02" },
+      ],
+    });
+
+    const messages = server.chatRequests[0]!["messages"] as Array<{ role: string; content: string }>;
+    expect(messages.slice(1, 3)).toEqual([
+      { role: "assistant", content: "{\"tool\":\"read_file\",\"input\":{\"path\":\"notes.md\"}}" },
+      { role: "user", content: "Tool result for call call_1:\nlaunch: 2026-11-02" },
+    ]);
+    expect(output).toEqual({
+      type: "assistant",
+      content: "The notes mention the launch date.",
+      usage: expect.objectContaining({ inputTokens: 12 }),
+      cost: expect.objectContaining({ totalCostUsd: 0, pricingSource: "self-hosted" }),
+    });
+  });
+});
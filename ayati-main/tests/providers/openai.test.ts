@@ -478,3 +478,40 @@ describe("OpenAI provider", () => {
     ).rejects.toThrow("OpenAI provider not started.");
   });
 });
+
+describe("OpenAI embeddings", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it("requires an API key before any search embeds text", async () => {
+    delete process.env["OPENAI_API_KEY"];
+    const { createOpenAiEmbedder } = await import("../../src/providers/openai/embeddings.js");
+
+    expect(() => createOpenAiEmbedder({ model: "text-embedding-3-small" }))
+      .toThrow("Missing OPENAI_API_KEY environment variable.");
+  });
+
+  it("returns vectors in input order keyed by model", async () => {
+    process.env["OPENAI_API_KEY"] = "sk-test-key";
+    const mockCreate = vi.fn().mockResolvedValue({
+      data: [
+        { index: 1, embedding: [0, 1] },
+        { index: 0, embedding: [1, 0] },
+      ],
+    });
+    vi.mocked(OpenAI).mockImplementation(function (this: unknown) {
+      return { embeddings: { create: mockCreate } } as unknown as OpenAI;
+    } as never);
+    const { createOpenAiEmbedder } = await import("../../src/providers/openai/embeddings.js");
+
+    const embedder = createOpenAiEmbedder({ model: "text-embedding-3-small" });
+    const vectors = await embedder.embed(["first", "second"]);
+
+    expect(embedder.id).toBe("openai:text-embedding-3-small");
+    expect(mockCreate).toHaveBeenCalledWith({ model: "text-embedding-3-small", input: ["first", "second"] });
+    expect(vectors).toEqual([Float32Array.from([1, 0]), Float32Array.from([0, 1])]);
+  });
+});
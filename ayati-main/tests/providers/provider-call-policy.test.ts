@@ -3,6 +3,7 @@ import {
   classifyProviderFailure,
   DEFAULT_PROVIDER_REQUEST_TIMEOUT_MS,
   getProviderRequestOptions,
+  getProviderTurnRequestOptions,
   ProviderCallError,
   readProviderRequestTimeoutMs,
   toProviderCallError,
@@ -22,6 +23,16 @@ describe("provider call policy", () => {
       .toThrow("AYATI_LLM_REQUEST_TIMEOUT_MS must be an integer between 1000 and 600000.");
   });
 
+  it("forwards a run's abort signal with the bounded request options", () => {
+    const controller = new AbortController();
+    expect(getProviderTurnRequestOptions({ signal: controller.signal }, {})).toEqual({
+      timeout: DEFAULT_PROVIDER_REQUEST_TIMEOUT_MS,
+      maxRetries: 0,
+      signal: controller.signal,
+    });
+    expect(getProviderTurnRequestOptions({}, {})).not.toHaveProperty("signal");
+  });
+
   it("classifies timeouts and temporary server failures as retryable", () => {
     const timeout = Object.assign(new Error("Request timed out."), {
       name: "APIConnectionTimeoutError",
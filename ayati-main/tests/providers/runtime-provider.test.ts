@@ -4,6 +4,8 @@ import type { LlmTurnOutput } from "../../src/core/contracts/llm-protocol.js";
 import {
   resetLlmRuntimeConfigForTests,
   setActiveProvider,
+  setFallbackRoutes,
+  setRoleRoute,
 } from "../../src/config/llm-runtime-config.js";
 import {
   type ProviderRuntimeConfigHandle,
@@ -74,7 +76,11 @@ describe("runtime provider", () => {
     expect(runtimeProvider.name).toBe("openai");
     expect(openAiProvider.start).toHaveBeenCalledTimes(1);
     expect(openAiProvider.generateTurn).toHaveBeenCalledTimes(1);
-    expect(reply).toEqual({ type: "assistant", content: "hi from openai" });
+    expect(reply).toEqual({
+      type: "assistant",
+      content: "hi from openai",
+      servedBy: { provider: "openai", model: "gpt-4o", role: "decision" },
+    });
   });
 
   it("switches to a different provider after config changes", async () => {
@@ -99,6 +105,138 @@ describe("runtime provider", () => {
     expect(anthropicProvider.start).toHaveBeenCalledTimes(1);
     expect(anthropicProvider.generateTurn).toHaveBeenCalledTimes(1);
     expect(runtimeProvider.name).toBe("anthropic");
-    expect(reply).toEqual({ type: "assistant", content: "hi from anthropic" });
+    expect(reply).toEqual({
+      type: "assistant",
+      content: "hi from anthropic",
+      servedBy: { provider: "anthropic", model: "claude-sonnet-4-5-20250929", role: "decision" },
+    });
+  });
+
+  it("falls back to the next route after a transient failure", async () => {
+    const mod = await import("../../src/providers/runtime/index.js");
+    runtimeProvider = mod.default;
+    const openAiProvider = (await import("../../src/providers/openai/index.js")).default;
+    const anthropicProvider = (await import("../../src/providers/anthropic/index.js")).default;
+    vi.mocked(openAiProvider.generateTurn).mockRejectedValueOnce(
+      Object.assign(new Error("Rate limit reached"), { status: 429 }),
+    );
+    await setFallbackRoutes([{ provider: "anthropic" }]);
+
+    await runtimeProvider.start();
+    const reply = await runtimeProvider.generateTurn({
+      messages: [{ role: "user", content: "hello" }],
+    });
+
+    expect(anthropicProvider.start).toHaveBeenCalledTimes(1);
+    expect(reply).toMatchObject({
+      content: "hi from anthropic",
+      servedBy: {
+        provider: "anthropic",
+        role: "decision",
+        fallbackFrom: ["openai:gpt-4o"],
+      },
+    });
+  });
+
+  it("adapts the turn to each fallback route's capabilities", async () => {
+    const mod = await import("../../src/providers/runtime/index.js");
+    runtimeProvider = mod.default;
+    const openAiProvider = (await import("../../src/providers/openai/index.js")).default;
+    const anthropicProvider = (await import("../../src/providers/anthropic/index.js")).default;
+    const original = openAiProvider.capabilities;
+    (openAiProvider as { capabilities: LlmProvider["capabilities"] }).capabilities = { ...original, imageInput: true };
+    vi.mocked(openAiProvider.generateTurn).mockRejectedValueOnce(
+      Object.assign(new Error("Rate limit reached"), { status: 429 }),
+    );
+    await setFallbackRoutes([{ provider: "anthropic" }]);
+
+    try {
+      await runtimeProvider.start();
+      await runtimeProvider.generateTurn({
+        messages: [{
+          role: "user",
+          content: [
+            { type: "text", text: "What is this?" },
+            { type: "image", imagePath: "/tmp/receipt.png", mimeType: "image/png", name: "receipt.png" },
+          ],
+        }],
+      });
+    } finally {
+      (openAiProvider as { capabilities: LlmProvider["capabilities"] }).capabilities = original;
+    }
+
+    expect(vi.mocked(openAiProvider.generateTurn).mock.calls[0]?.[0].messages[0]?.content)
+      .toContainEqual(expect.objectContaining({ type: "image" }));
+    expect(vi.mocked(anthropicProvider.generateTurn).mock.calls[0]?.[0].messages).toEqual([{
+      role: "user",
+      content: [
+        { type: "text", text: "What is this?" },
+        { type: "text", text: "[Image receipt.png omitted: this model does not accept images.]" },
+      ],
+    }]);
+  });
+
+  it("skips a fallback route that cannot call the turn's tools", async () => {
+    const mod = await import("../../src/providers/runtime/index.js");
+    runtimeProvider = mod.default;
+    const openAiProvider = (await import("../../src/providers/openai/index.js")).default;
+    const anthropicProvider = (await import("../../src/providers/anthropic/index.js")).default;
+    const original = anthropicProvider.capabilities;
+    (anthropicProvider as { capabilities: LlmProvider["capabilities"] }).capabilities = { ...original, nativeToolCalling: false };
+    vi.mocked(openAiProvider.generateTurn).mockRejectedValueOnce(
+      Object.assign(new Error("Rate limit reached"), { status: 429 }),
+    );
+    await setFallbackRoutes([{ provider: "anthropic" }]);
+
+    try {
+      await runtimeProvider.start();
+      await expect(runtimeProvider.generateTurn({
+        messages: [{ role: "user", content: "where am i" }],
+        tools: [{ name: "shell", description: "Run shell", inputSchema: { type: "object", properties: {} } }],
+      })).rejects.toThrow("Rate limit reached");
+    } finally {
+      (anthropicProvider as { capabilities: LlmProvider["capabilities"] }).capabilities = original;
+    }
+    expect(anthropicProvider.generateTurn).not.toHaveBeenCalled();
+  });
+
+  it("does not fall back after a permanent failure", async () => {
+    const mod = await import("../../src/providers/runtime/index.js");
+    runtimeProvider = mod.default;
+    const openAiProvider = (await import("../../src/providers/openai/index.js")).default;
+    const anthropicProvider = (await import("../../src/providers/anthropic/index.js")).default;
+    vi.mocked(openAiProvider.generateTurn).mockRejectedValueOnce(
+      Object.assign(new Error("Invalid API key"), { status: 401 }),
+    );
+    await setFallbackRoutes([{ provider: "anthropic" }]);
+
+    await runtimeProvider.start();
+    await expect(runtimeProvider.generateTurn({
+      messages: [{ role: "user", content: "hello" }],
+    })).rejects.toThrow("Invalid API key");
+    expect(anthropicProvider.generateTurn).not.toHaveBeenCalled();
+  });
+
+  it("routes each model role to its configured provider and model", async () => {
+    const mod = await import("../../src/providers/runtime/index.js");
+    runtimeProvider = mod.default;
+    const anthropicProvider = (await import("../../src/providers/anthropic/index.js")).default;
+    await setRoleRoute("stream_checkpoint", { provider: "anthropic", model: "claude-haiku-4-5" });
+
+    await runtimeProvider.start();
+    const reply = await runtimeProvider.generateTurn({
+      messages: [{ role: "user", content: "summarize" }],
+      modelRole: "stream_checkpoint",
+    });
+
+    expect(runtimeProvider.name).toBe("openai");
+    expect(runtimeProvider.model).toBe("gpt-4o");
+    expect(anthropicProvider.generateTurn).toHaveBeenCalledWith(expect.objectContaining({
+      model: "claude-haiku-4-5",
+      modelRole: "stream_checkpoint",
+    }));
+    expect(reply).toMatchObject({
+      servedBy: { provider: "anthropic", model: "claude-haiku-4-5", role: "stream_checkpoint" },
+    });
   });
 });
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { LlmTokenUsage } from "../../src/core/contracts/llm-protocol.js";
+import { estimateAnthropicCost } from "../../src/providers/anthropic/pricing.js";
+import { estimateLocalCost } from "../../src/providers/local/pricing.js";
+import { estimateOpenAiCost } from "../../src/providers/openai/pricing.js";
+import { estimateOpenRouterCost } from "../../src/providers/openrouter/pricing.js";
+
+function usage(model: string, cachedInputTokens?: number): LlmTokenUsage {
+  return {
+    provider: "test",
+    model,
+    inputTokens: 1_000_000,
+    outputTokens: 100_000,
+    totalTokens: 1_100_000,
+    ...(cachedInputTokens !== undefined ? { cachedInputTokens } : {}),
+    exact: true,
+  };
+}
+
+describe("provider pricing tables", () => {
+  it("prices OpenAI models and prefers the most specific family", () => {
+    expect(estimateOpenAiCost("gpt-4o-mini", usage("gpt-4o-mini"))).toMatchObject({
+      inputCostUsd: 0.15,
+      outputCostUsd: 0.06,
+      totalCostUsd: 0.21,
+    });
+    expect(estimateOpenAiCost("gpt-4o-2024-08-06", usage("gpt-4o", 400_000))).toMatchObject({
+      inputCostUsd: 1.5,
+      cachedInputCostUsd: 0.5,
+      outputCostUsd: 1,
+      totalCostUsd: 3,
+    });
+    expect(estimateOpenAiCost("gpt-3.5-turbo", usage("gpt-3.5-turbo"))).toBeUndefined();
+  });
+
+  it("prices Anthropic models from dated and dotted ids", () => {
+    expect(estimateAnthropicCost("claude-sonnet-4-5-20250929", usage("claude-sonnet-4-5")))
+      .toMatchObject({ totalCostUsd: 4.5 });
+    expect(estimateAnthropicCost("claude-opus-4-1", usage("claude-opus-4-1")))
+      .toMatchObject({ totalCostUsd: 22.5 });
+    expect(estimateAnthropicCost("claude-haiku-4-5", usage("claude-haiku-4-5")))
+      .toMatchObject({ totalCostUsd: 1.5 });
+  });
+
+  it("reuses upstream prices for routed OpenRouter ids and zero-prices free variants", () => {
+    expect(estimateOpenRouterCost("openai/gpt-4o-mini", usage("openai/gpt-4o-mini")))
+      .toMatchObject({ totalCostUsd: 0.21 });
+    expect(estimateOpenRouterCost("anthropic/claude-sonnet-4.5", usage("anthropic/claude-sonnet-4.5")))
+      .toMatchObject({ totalCostUsd: 4.5 });
+    expect(estimateOpenRouterCost("meta-llama/llama-3.3-70b-instruct:free", usage("llama")))
+      .toMatchObject({ totalCostUsd: 0, pricingSource: "https://openrouter.ai/models" });
+    expect(estimateOpenRouterCost("mistralai/mistral-large", usage("mistral"))).toBeUndefined();
+  });
+
+  it("reports self-hosted usage as free", () => {
+    expect(estimateLocalCost(usage("qwen2.5:14b"))).toEqual({
+      currency: "USD",
+      inputCostUsd: 0,
+      cachedInputCostUsd: 0,
+      outputCostUsd: 0,
+      totalCostUsd: 0,
+      pricingSource: "self-hosted",
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import {
+  nextCronFire,
+  parseCronExpression,
+  parseScheduleTime,
+} from "../../src/scheduler/index.js";
+import { zonedTimeToUtc } from "../../src/scheduler/schedule-expression.js";
+
+describe("schedule expressions", () => {
+  it("parses lists, ranges, steps, names, and macros", () => {
+    const schedule = parseCronExpression("*/15 9-17 * jan,JUL mon-fri");
+    expect(schedule.minutes).toEqual([0, 15, 30, 45]);
+    expect(schedule.hours).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...schedule.months].sort((a, b) => a - b)).toEqual([1, 7]);
+    expect([...schedule.daysOfWeek].sort()).toEqual([1, 2, 3, 4, 5]);
+    expect(parseCronExpression("@daily").expression).toBe("@daily");
+    expect([...parseCronExpression("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  it("rejects malformed expressions with the offending field", () => {
+    expect(() => parseCronExpression("0 9 * *")).toThrow(/5 fields/);
+    expect(() => parseCronExpression("60 9 * * *")).toThrow(/minute value "60"/);
+    expect(() => parseCronExpression("0 17-9 * * *")).toThrow(/runs backwards/);
+    expect(() => parseCronExpression("0 9 * * */0")).toThrow(/positive integer/);
+  });
+
+  it("finds the next fire on the schedule's wall clock", () => {
+    const weekdays = parseCronExpression("0 9 * * 1-5");
+    // Friday 2026-07-17 10:00 in Berlin is 08:00 UTC; the next weekday 09:00 is Monday.
+    expect(nextCronFire(weekdays, new Date("2026-07-17T08:00:00Z"), "Europe/Berlin")?.toISOString())
+      .toBe("2026-07-20T07:00:00.000Z");
+    expect(nextCronFire(weekdays, new Date("2026-07-17T06:59:00Z"), "Europe/Berlin")?.toISOString())
+      .toBe("2026-07-17T07:00:00.000Z");
+  });
+
+  it("matches either day field when both are restricted", () => {
+    const schedule = parseCronExpression("0 0 13 * 5");
+    // 2026-03-06 is a Friday and comes before the 13th.
+    expect(nextCronFire(schedule, new Date("2026-03-01T00:00:00Z"), "UTC")?.toISOString())
+      .toBe("2026-03-06T00:00:00.000Z");
+  });
+
+  it("skips wall-clock times that daylight saving removes and never fires impossible dates", () => {
+    const early = parseCronExpression("30 2 * * *");
+    // 2026-03-29 02:30 does not exist in Berlin.
+    expect(nextCronFire(early, new Date("2026-03-28T02:00:00Z"), "Europe/Berlin")?.toISOString())
+      .toBe("2026-03-30T00:30:00.000Z");
+    expect(zonedTimeToUtc({ year: 2026, month: 3, day: 29, hour: 2, minute: 30 }, "Europe/Berlin")).toBeUndefined();
+    expect(nextCronFire(parseCronExpression("0 0 30 2 *"), new Date("2026-01-01T00:00:00Z"), "UTC")).toBeUndefined();
+  });
+
+  it("reads one-shot times locally unless they carry an offset", () => {
+    expect(parseScheduleTime("2026-07-19T09:00", "Asia/Kolkata").toISOString()).toBe("2026-07-19T03:30:00.000Z");
+    expect(parseScheduleTime("2026-07-19T09:00:00Z", "Asia/Kolkata").toISOString()).toBe("2026-07-19T09:00:00.000Z");
+    expect(parseScheduleTime("2026-07-19T09:00+02:00", "UTC").toISOString()).toBe("2026-07-19T07:00:00.000Z");
+    expect(() => parseScheduleTime("tomorrow at nine", "UTC")).toThrow(/ISO date-time/);
+  });
+});
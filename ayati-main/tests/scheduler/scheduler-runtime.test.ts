@@ -0,0 +1,284 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DatabaseSync } from "node:sqlite";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  ScheduleStore,
+  SchedulerRuntime,
+  type ScheduledRunNotification,
+  type SchedulerRuntimeConfig,
+  type SubmitScheduledChatInput,
+} from "../../src/scheduler/index.js";
+import type { VoiceNotification } from "../../src/voice/index.js";
+
+const CONFIG: SchedulerRuntimeConfig = {
+  enabled: true,
+  catchUpWindowMs: 60 * 60_000,
+  maxActiveSchedules: 3,
+  desktopNotifications: true,
+};
+
+const roots: string[] = [];
+const runtimes: SchedulerRuntime[] = [];
+
+afterEach(async () => {
+  for (const runtime of runtimes.splice(0)) runtime.close();
+  vi.useRealTimers();
+  await Promise.all(roots.splice(0).map(async (root) => await rm(root, { recursive: true, force: true })));
+});
+
+describe("SchedulerRuntime", () => {
+  it("validates new schedules and computes the first fire in the schedule's zone", async () => {
+    const { runtime } = await createHarness({ now: "2026-07-17T08:00:00Z" });
+
+    const schedule = runtime.createSchedule({
+      name: "Inbox digest",
+      prompt: "Summarize new email.",
+      cron: "0 9 * * mon-fri",
+      timezone: "Europe/Berlin",
+      workstreamId: "W-20260719-0001",
+    });
+
+    expect(schedule).toMatchObject({
+      kind: "cron",
+      cron: "0 9 * * mon-fri",
+      status: "active",
+      nextFireAt: "2026-07-20T07:00:00.000Z",
+      workstreamId: "W-20260719-0001",
+    });
+    expect(() => runtime.createSchedule({ name: "x", prompt: "y" })).toThrow(/exactly one of cron/);
+    expect(() => runtime.createSchedule({ name: "x", prompt: "y", at: "2026-07-01T09:00" })).toThrow(/in the past/);
+    expect(() => runtime.createSchedule({ name: "x", prompt: "y", cron: "@daily", timezone: "Mars/Base" }))
+      .toThrow(/IANA time zone/);
+    runtime.createSchedule({ name: "two", prompt: "y", cron: "@daily" });
+    runtime.createSchedule({ name: "three", prompt: "y", cron: "@daily" });
+    expect(() => runtime.createSchedule({ name: "four", prompt: "y", cron: "@daily" })).toThrow(/At most 3/);
+  });
+
+  it("fires a due schedule into the run queue and broadcasts the final message", async () => {
+    const harness = await createHarness({ now: "2026-07-17T08:00:00Z" });
+    const schedule = harness.runtime.createSchedule({
+      name: "Standup note",
+      prompt: "Draft the standup note.",
+      at: "2026-07-17T08:30:00Z",
+      workstreamId: "W-20260719-0001",
+      requestId: "R-001",
+    });
+
+    harness.clock.now = new Date("2026-07-17T08:30:05Z");
+    await vi.advanceTimersByTimeAsync(31 * 60_000);
+
+    expect(harness.submitted).toHaveLength(1);
+    const submitted = harness.submitted[0]!;
+    expect(submitted.content).toContain(`Scheduled run "Standup note" (${schedule.scheduleId})`);
+    expect(submitted.content).toContain("Continue workstream W-20260719-0001 request R-001.");
+    expect(submitted.content).toContain("Draft the standup note.");
+    expect(submitted.boundWorkstream).toEqual({ workstreamId: "W-20260719-0001", requestId: "R-001" });
+    expect(submitted.preApprovedTools).toEqual([]);
+
+    harness.runtime.handleAgentMessage({
+      type: "reply",
+      messageId: submitted.messageId,
+      content: "Standup note is ready.",
+      runId: "run-7",
+      commitStatus: "committed",
+    });
+    submitted.onSettled({ messageId: submitted.messageId, status: "completed" });
+
+    expect(harness.broadcasts).toEqual([expect.objectContaining({
+      type: "notification",
+      content: "Scheduled run \"Standup note\":\n\nStandup note is ready.",
+      runId: "run-7",
+      commitStatus: "committed",
+      schedule: expect.objectContaining({
+        scheduleId: schedule.scheduleId,
+        status: "completed",
+        scheduledFor: "2026-07-17T08:30:00.000Z",
+      }),
+    })]);
+    expect(harness.broadcasts[0]).not.toHaveProperty("final");
+    expect(harness.runtime.getSchedule(schedule.scheduleId)?.status).toBe("completed");
+    expect(harness.runtime.recentFires(schedule.scheduleId)).toEqual([
+      expect.objectContaining({ status: "completed", runId: "run-7", catchUp: false }),
+    ]);
+    expect(harness.notifications).toEqual([]);
+  });
+
+  it("keeps a schedule's approved tools and hands them to each fire", async () => {
+    const dbPath = join(await tempRoot(), "schedules.sqlite");
+    const first = await createHarness({ now: "2026-07-17T08:00:00Z", dbPath });
+    const schedule = first.runtime.createSchedule({
+      name: "Nightly build",
+      prompt: "Run the build.",
+      at: "2026-07-17T08:01:00Z",
+      workstreamId: "W-20260719-0001",
+      approvedTools: ["process_run", "process_run"],
+    });
+    expect(schedule.approvedTools).toEqual(["process_run"]);
+    first.runtime.close();
+    runtimes.splice(runtimes.indexOf(first.runtime), 1);
+
+    const restarted = await createHarness({ now: "2026-07-17T08:00:30Z", dbPath });
+    restarted.clock.now = new Date("2026-07-17T08:01:00Z");
+    await vi.advanceTimersByTimeAsync(30_000);
+
+    expect(restarted.submitted).toEqual([expect.objectContaining({
+      boundWorkstream: { workstreamId: "W-20260719-0001" },
+      preApprovedTools: ["process_run"],
+    })]);
+  });
+
+  it("adds the approved tools column to a schedule database from before it existed", async () => {
+    const dbPath = join(await tempRoot(), "schedules.sqlite");
+    const legacy = new DatabaseSync(dbPath);
+    legacy.exec(`
+      CREATE TABLE schedules (
+        schedule_id TEXT PRIMARY KEY, name TEXT NOT NULL, prompt TEXT NOT NULL, kind TEXT NOT NULL,
+        cron TEXT, run_at TEXT, timezone TEXT NOT NULL, workstream_id TEXT, request_id TEXT,
+        status TEXT NOT NULL, next_fire_at TEXT, last_fired_at TEXT, created_by_run_id TEXT,
+        created_at TEXT NOT NULL, updated_at TEXT NOT NULL
+      );
+      INSERT INTO schedules VALUES (
+        'sched_legacy', 'Legacy', 'Run.', 'cron', '@daily', NULL, 'UTC', NULL, NULL,
+        'active', '2026-07-18T00:00:00.000Z', NULL, NULL, '2026-07-01T00:00:00Z', '2026-07-01T00:00:00Z'
+      );
+    `);
+    legacy.close();
+
+    const harness = await createHarness({ now: "2026-07-17T08:00:00Z", dbPath });
+
+    expect(harness.runtime.getSchedule("sched_legacy")).toMatchObject({ name: "Legacy", approvedTools: [] });
+  });
+
+  it("falls back to a desktop notification when no client is connected", async () => {
+    const harness = await createHarness({ now: "2026-07-17T08:00:00Z", connectedClients: 0 });
+    harness.runtime.createSchedule({ name: "Backup check", prompt: "Check backups.", at: "2026-07-17T08:01:00Z" });
+
+    harness.clock.now = new Date("2026-07-17T08:01:00Z");
+    await vi.advanceTimersByTimeAsync(60_000);
+    const submitted = harness.submitted[0]!;
+    submitted.onSettled({ messageId: submitted.messageId, status: "failed", error: "Provider unavailable." });
+
+    expect(harness.notifications).toEqual([expect.objectContaining({
+      title: "Ayati · Backup check failed",
+      body: "Provider unavailable.",
+      urgency: "critical",
+    })]);
+  });
+
+  it("applies catch-up rules on startup", async () => {
+    const dbPath = join(await tempRoot(), "schedules.sqlite");
+    const first = await createHarness({ now: "2026-07-17T06:00:00Z", dbPath });
+    const recent = first.runtime.createSchedule({ name: "Recent", prompt: "Run.", cron: "0 * * * *" });
+    const stale = first.runtime.createSchedule({ name: "Stale", prompt: "Run.", at: "2026-07-17T07:30:00Z" });
+    first.runtime.close();
+    runtimes.splice(runtimes.indexOf(first.runtime), 1);
+
+    // The daemon comes back at 09:20: hourly fires at 07:00-09:00 fold into one catch-up run,
+    // while the one-shot from 07:30 is outside the one-hour window.
+    const restarted = await createHarness({ now: "2026-07-17T09:20:00Z", dbPath });
+
+    expect(restarted.submitted).toHaveLength(1);
+    expect(restarted.submitted[0]!.content).toContain("2 earlier occurrence(s) were missed");
+    expect(restarted.runtime.recentFires(recent.scheduleId)).toEqual([
+      expect.objectContaining({ status: "queued", catchUp: true, missedCount: 2, scheduledFor: "2026-07-17T09:00:00.000Z" }),
+    ]);
+    expect(restarted.runtime.getSchedule(recent.scheduleId)?.nextFireAt).toBe("2026-07-17T10:00:00.000Z");
+    expect(restarted.runtime.recentFires(stale.scheduleId)).toEqual([
+      expect.objectContaining({ status: "missed" }),
+    ]);
+    expect(restarted.runtime.getSchedule(stale.scheduleId)?.status).toBe("completed");
+  });
+
+  it("marks fires left queued by a stopped daemon as interrupted", async () => {
+    const dbPath = join(await tempRoot(), "schedules.sqlite");
+    const first = await createHarness({ now: "2026-07-17T08:00:00Z", dbPath });
+    const schedule = first.runtime.createSchedule({ name: "Long job", prompt: "Run.", at: "2026-07-17T08:01:00Z" });
+    first.clock.now = new Date("2026-07-17T08:01:00Z");
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(first.submitted).toHaveLength(1);
+    first.runtime.close();
+    runtimes.splice(runtimes.indexOf(first.runtime), 1);
+
+    const restarted = await createHarness({ now: "2026-07-17T08:05:00Z", dbPath });
+
+    expect(restarted.runtime.recentFires(schedule.scheduleId)).toEqual([
+      expect.objectContaining({ status: "interrupted" }),
+    ]);
+    expect(restarted.submitted).toHaveLength(0);
+  });
+
+  it("skips a fire while the previous run of the same schedule is still pending", async () => {
+    const harness = await createHarness({ now: "2026-07-17T08:00:30Z" });
+    const schedule = harness.runtime.createSchedule({ name: "Ping", prompt: "Ping.", cron: "* * * * *" });
+
+    harness.clock.now = new Date("2026-07-17T08:01:00Z");
+    await vi.advanceTimersByTimeAsync(30_000);
+    harness.clock.now = new Date("2026-07-17T08:02:00Z");
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(harness.submitted).toHaveLength(1);
+    expect(harness.runtime.recentFires(schedule.scheduleId).map((fire) => fire.status)).toEqual(["skipped", "queued"]);
+  });
+
+  it("stops firing a cancelled schedule", async () => {
+    const harness = await createHarness({ now: "2026-07-17T08:00:00Z" });
+    const schedule = harness.runtime.createSchedule({ name: "Ping", prompt: "Ping.", cron: "*/5 * * * *" });
+
+    expect(harness.runtime.cancelSchedule(schedule.scheduleId)).toMatchObject({ status: "cancelled" });
+    expect(harness.runtime.getSchedule(schedule.scheduleId)?.nextFireAt).toBeUndefined();
+    harness.clock.now = new Date("2026-07-17T08:05:00Z");
+    await vi.advanceTimersByTimeAsync(5 * 60_000);
+
+    expect(harness.submitted).toHaveLength(0);
+    expect(() => harness.runtime.cancelSchedule("sched_missing")).toThrow(/does not exist/);
+  });
+});
+
+interface HarnessOptions {
+  now: string;
+  dbPath?: string;
+  connectedClients?: number;
+}
+
+async function createHarness(options: HarnessOptions) {
+  vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+  const clock = { now: new Date(options.now) };
+  const submitted: SubmitScheduledChatInput[] = [];
+  const broadcasts: ScheduledRunNotification[] = [];
+  const notifications: VoiceNotification[] = [];
+  const store = new ScheduleStore({
+    dbPath: options.dbPath ?? join(await tempRoot(), "schedules.sqlite"),
+    now: () => clock.now,
+  });
+  const runtime = new SchedulerRuntime({
+    store,
+    config: CONFIG,
+    defaultTimezone: "UTC",
+    now: () => clock.now,
+    createId: () => `message-${submitted.length + 1}`,
+    submitChat: (input) => {
+      submitted.push(input);
+      return { type: "chat_accepted", messageId: input.messageId, queued: false, queuePosition: 1 };
+    },
+    broadcast: (data) => {
+      broadcasts.push(data as ScheduledRunNotification);
+      return options.connectedClients ?? 1;
+    },
+    notifier: {
+      notify: async (notification) => {
+        notifications.push(notification);
+      },
+    },
+  });
+  runtimes.push(runtime);
+  runtime.start();
+  return { runtime, clock, submitted, broadcasts, notifications };
+}
+
+async function tempRoot(): Promise<string> {
+  const root = await mkdtemp(join(tmpdir(), "ayati-scheduler-"));
+  roots.push(root);
+  return root;
+}
@@ -0,0 +1,71 @@
+import { mkdtemp, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { ClientTokenStore, clientTokensPath } from "../../src/server/index.js";
+
+const roots: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map(async (root) => await rm(root, { recursive: true, force: true })));
+});
+
+describe("ClientTokenStore", () => {
+  it("creates the default client tokens in a private file", async () => {
+    const store = await startStore();
+
+    expect(store.list().map((record) => [record.name, record.scopes])).toEqual([
+      ["cli", ["chat", "upload"]],
+      ["desktop", ["chat", "upload"]],
+      ["voice", ["voice"]],
+      ["observer", ["observer"]],
+    ]);
+    expect((await stat(store.filePath)).mode & 0o777).toBe(0o600);
+    const cli = store.list().find((record) => record.name === "cli")!;
+    expect(cli.token).toMatch(/^ayati_[A-Za-z0-9_-]{43}$/);
+    expect(store.authenticate(cli.token)).toEqual({ name: "cli", scopes: new Set(["chat", "upload"]) });
+    expect(store.authenticate("ayati_wrong")).toBeNull();
+    expect(store.authenticate(undefined)).toBeNull();
+  });
+
+  it("keeps existing tokens and adds missing defaults on restart", async () => {
+    const root = await tempRoot();
+    const filePath = clientTokensPath(root);
+    const first = new ClientTokenStore({ filePath });
+    await first.start();
+    const before = first.list();
+    const file = JSON.parse(await readFile(filePath, "utf8")) as { tokens: Array<{ name: string }> };
+    file.tokens = file.tokens.filter((record) => record.name !== "observer");
+    await writeFile(filePath, JSON.stringify(file));
+
+    const second = new ClientTokenStore({ filePath });
+    await second.start();
+
+    expect(second.list().find((record) => record.name === "cli")?.token).toBe(before[0]!.token);
+    expect(second.list().map((record) => record.name)).toContain("observer");
+  });
+
+  it("rejects the old secret after rotation, including rotations by another process", async () => {
+    const store = await startStore();
+    const oldToken = store.list().find((record) => record.name === "desktop")!.token;
+
+    const rotated = await new ClientTokenStore({ filePath: store.filePath }).rotate("desktop");
+
+    expect(rotated.rotatedAt).toEqual(expect.any(String));
+    expect(store.authenticate(oldToken)).toBeNull();
+    expect(store.authenticate(rotated.token)?.name).toBe("desktop");
+    await expect(store.rotate("phone")).rejects.toThrow(/does not exist; known tokens: cli, desktop/);
+  });
+});
+
+async function startStore(): Promise<ClientTokenStore> {
+  const store = new ClientTokenStore({ filePath: clientTokensPath(await tempRoot()) });
+  await store.start();
+  return store;
+}
+
+async function tempRoot(): Promise<string> {
+  const root = await mkdtemp(join(tmpdir(), "ayati-client-tokens-"));
+  roots.push(root);
+  return root;
+}
@@ -34,12 +34,19 @@ function websocketUrl(port: number): string {
   return `ws://127.0.0.1:${port}`;
 }
 
-async function postFile(port: number, name: string, body: string, type = "text/plain"): Promise<Response> {
+async function postFile(
+  port: number,
+  name: string,
+  body: string,
+  type = "text/plain",
+  token?: string,
+): Promise<Response> {
   const formData = new FormData();
   formData.set("file", new Blob([body], { type }), name);
   return fetch(uploadUrl(port), {
     method: "POST",
     body: formData,
+    ...(token ? { headers: { Authorization: `Bearer ${token}` } } : {}),
   });
 }
 
@@ -239,6 +246,40 @@ describe.runIf(canBindTcpSocket())("UploadServer", () => {
     }
   });
 
+  it("requires a bearer token with the upload scope when client tokens are enabled", async () => {
+    const dataDir = makeTmpDir();
+    const port = getPort();
+    const server = new UploadServer({
+      uploadsDir: join(dataDir, "documents", "uploads"),
+      host: "127.0.0.1",
+      port,
+      auth: {
+        authenticate: (token) => token === "ayati_cli"
+          ? { name: "cli", scopes: new Set(["chat", "upload"]) }
+          : token === "ayati_observer"
+            ? { name: "observer", scopes: new Set(["observer"]) }
+            : null,
+      },
+    });
+
+    try {
+      await server.start();
+      const missing = await postFile(port, "policy.txt", "Policy body.");
+      expect(missing.status).toBe(401);
+      expect(missing.headers.get("www-authenticate")).toBe("Bearer");
+      expect(await missing.json()).toMatchObject({ code: "unauthorized", reason: "missing_token" });
+      expect(await (await postFile(port, "policy.txt", "Policy body.", "text/plain", "ayati_nope")).json())
+        .toMatchObject({ reason: "invalid_token" });
+      expect((await postFile(port, "policy.txt", "Policy body.", "text/plain", "ayati_observer")).status).toBe(403);
+      expect((await fetch(uploadUrl(port), { method: "OPTIONS" })).status).toBe(204);
+
+      expect((await postFile(port, "policy.txt", "Policy body.", "text/plain", "ayati_cli")).status).toBe(201);
+    } finally {
+      await server.stop();
+      rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+
   it("uploads over HTTP and makes the saved document visible to the agent over WebSocket chat", async () => {
     const dataDir = makeTmpDir();
     const wsPort = getPort();
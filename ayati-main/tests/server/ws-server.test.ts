@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, afterEach } from "vitest";
-import { WsServer } from "../../src/server/index.js";
+import { WsServer, type ClientAuthenticator, type ClientTokenScope } from "../../src/server/index.js";
 import WebSocket from "ws";
 import { canBindTcpSocket } from "../fixtures/runtime-capabilities.js";
 
@@ -125,6 +125,7 @@ describe.runIf(canBindTcpSocket())("WsServer", () => {
     await messageReceived;
 
     expect(server.clientSupportsReplyStreaming(capturedClientId)).toBe(true);
+    expect(server.clientSupportsApprovals(capturedClientId)).toBe(false);
     expect(server.clientKind(capturedClientId)).toBe("voice");
     await closeClient(client);
   });
@@ -142,6 +143,7 @@ describe.runIf(canBindTcpSocket())("WsServer", () => {
       clientKind: "desktop",
       capabilities: {
         replyStreaming: true,
+        approvals: true,
       },
     }));
 
@@ -156,6 +158,7 @@ describe.runIf(canBindTcpSocket())("WsServer", () => {
 
     expect(server.clientKind(capturedClientId)).toBe("desktop");
     expect(server.clientSupportsReplyStreaming(capturedClientId)).toBe(true);
+    expect(server.clientSupportsApprovals(capturedClientId)).toBe(true);
     await closeClient(client);
   });
 
@@ -347,3 +350,118 @@ describe.runIf(canBindTcpSocket())("WsServer", () => {
     await closeClient(client2);
   });
 });
+
+describe.runIf(canBindTcpSocket())("WsServer with client tokens", () => {
+  const auth: ClientAuthenticator = {
+    authenticate(token) {
+      const scopes: Record<string, ClientTokenScope[]> = {
+        "ayati_chat": ["chat", "upload"],
+        "ayati_observer": ["observer"],
+        "ayati_voice": ["voice"],
+      };
+      return typeof token === "string" && scopes[token]
+        ? { name: token.slice(6), scopes: new Set(scopes[token]) }
+        : null;
+    },
+  };
+
+  function nextMessage(ws: WebSocket): Promise<Record<string, unknown>> {
+    return new Promise((resolve) => {
+      ws.once("message", (raw) => resolve(JSON.parse(raw.toString()) as Record<string, unknown>));
+    });
+  }
+
+  function closed(ws: WebSocket): Promise<number> {
+    return new Promise((resolve) => ws.once("close", (code) => resolve(code)));
+  }
+
+  it("rejects a hello without a valid token with an unauthorized envelope", async () => {
+    const port = getPort();
+    const onMessage = vi.fn();
+    server = new WsServer({ port, onMessage, auth });
+    await server.start();
+
+    const missing = await connectClient(port);
+    const missingReply = nextMessage(missing);
+    const missingClosed = closed(missing);
+    missing.send(JSON.stringify({ type: "client_hello", clientKind: "cli" }));
+    expect(await missingReply).toEqual({
+      type: "unauthorized",
+      reason: "missing_token",
+      content: expect.stringContaining("requires a client token"),
+    });
+    expect(await missingClosed).toBe(4401);
+
+    const wrongScope = await connectClient(port);
+    const wrongScopeReply = nextMessage(wrongScope);
+    wrongScope.send(JSON.stringify({ type: "client_hello", token: "ayati_voice" }));
+    expect(await wrongScopeReply).toMatchObject({ reason: "insufficient_scope" });
+
+    const early = await connectClient(port);
+    const earlyReply = nextMessage(early);
+    early.send(JSON.stringify({ type: "chat", content: "hi" }));
+    expect(await earlyReply).toMatchObject({ type: "unauthorized", reason: "missing_token" });
+    expect(onMessage).not.toHaveBeenCalled();
+  });
+
+  it("closes connections that never authenticate", async () => {
+    const port = getPort();
+    server = new WsServer({ port, onMessage: vi.fn(), auth, authTimeoutMs: 20 });
+    await server.start();
+
+    const client = await connectClient(port);
+    const reply = nextMessage(client);
+    expect(await closed(client)).toBe(4401);
+    expect(await reply).toMatchObject({ type: "unauthorized", reason: "missing_token" });
+  });
+
+  it("routes only authenticated clients and limits observers to read-only envelopes", async () => {
+    const port = getPort();
+    const onMessage = vi.fn();
+    server = new WsServer({
+      port,
+      onMessage,
+      auth,
+      allowsObserverMessage: (data) => (data as Record<string, unknown>)["type"] === "query",
+    });
+    await server.start();
+
+    const pending = await connectClient(port);
+    const pendingMessages: unknown[] = [];
+    pending.on("message", (raw) => pendingMessages.push(JSON.parse(raw.toString())));
+
+    const observer = await connectClient(port);
+    observer.send(JSON.stringify({
+      type: "client_hello",
+      clientKind: "desktop",
+      token: "ayati_observer",
+      capabilities: { approvals: true },
+    }));
+    observer.send(JSON.stringify({ type: "query", queryId: "q1", kind: "status" }));
+    await vi.waitFor(() => expect(onMessage).toHaveBeenCalledTimes(1));
+    const observerClientId = onMessage.mock.calls[0]![0] as string;
+    expect(server.clientSupportsApprovals(observerClientId)).toBe(false);
+
+    const refused = nextMessage(observer);
+    observer.send(JSON.stringify({ type: "chat", content: "change things" }));
+    expect(await refused).toMatchObject({ type: "unauthorized", reason: "insufficient_scope" });
+    expect(observer.readyState).toBe(WebSocket.OPEN);
+
+    const chat = await connectClient(port);
+    chat.send(JSON.stringify({ type: "client_hello", clientKind: "cli", token: "ayati_chat" }));
+    chat.send(JSON.stringify({ type: "chat", content: "hello" }));
+    await vi.waitFor(() => expect(onMessage).toHaveBeenCalledTimes(2));
+    expect(onMessage.mock.calls[1]![1]).toEqual({ type: "chat", content: "hello" });
+
+    const local = nextMessage(chat);
+    server.send("local", { type: "reply", content: "for the chat client" });
+    expect(await local).toEqual({ type: "reply", content: "for the chat client" });
+    expect(server.broadcast({ type: "notification", content: "all" })).toBe(2);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(pendingMessages).toEqual([]);
+
+    await closeClient(pending);
+    await closeClient(observer);
+    await closeClient(chat);
+  });
+});
@@ -2,6 +2,8 @@ import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { mkdtemp, writeFile, mkdir, rm } from "node:fs/promises";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
+import { DirectoryLibrary } from "../../../src/files/directory-library.js";
+import { setActiveIndexedPathSearcher } from "../../../src/files/directory-index.js";
 import { searchInFilesTool } from "../../../src/skills/builtins/filesystem/search-in-files.js";
 import { workspaceRoot } from "../../../src/skills/workspace-paths.js";
 
@@ -15,6 +17,7 @@ describe("searchInFilesTool", () => {
   });
 
   afterEach(async () => {
+    setActiveIndexedPathSearcher(undefined);
     await rm(tmp, { recursive: true, force: true });
     await Promise.all(workspaceArtifacts.map((path) => rm(path, { recursive: true, force: true })));
   });
@@ -215,4 +218,31 @@ describe("searchInFilesTool", () => {
     expect(result.ok).toBe(true);
     expect(result.output).toContain(filePath);
   });
+
+  it("returns ranked results from an attached directory's full-text index", async () => {
+    const project = join(tmp, "project");
+    await mkdir(join(project, "src"), { recursive: true });
+    await writeFile(join(project, "src", "queue.ts"), "// drain the retry queue\nexport function drainQueue() {}\n", "utf-8");
+    await writeFile(join(project, "src", "other.ts"), "export const unrelated = 1;\n", "utf-8");
+    const library = new DirectoryLibrary({ dataDir: join(tmp, "data") });
+    setActiveIndexedPathSearcher(library);
+
+    try {
+      const notIndexed = await searchInFilesTool.execute({ query: "retry", roots: [project], resultMode: "ranked" });
+      expect(notIndexed.ok).toBe(false);
+      expect(notIndexed.error).toContain("not inside an attached directory with a built search index");
+
+      const directory = await library.registerPath({ path: project });
+      await library.refreshIndex(directory.directoryId);
+      const result = await searchInFilesTool.execute({ query: "retry que*", roots: [join(project, "src")], resultMode: "ranked" });
+
+      expect(result.ok).toBe(true);
+      expect(result.output).toContain("resultMode=ranked");
+      expect(result.output).toContain("queue.ts:1");
+      expect(result.output).toContain("// drain the retry queue");
+      expect(result.output).not.toContain("other.ts");
+    } finally {
+      library.close();
+    }
+  });
 });
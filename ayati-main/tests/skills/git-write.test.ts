@@ -0,0 +1,159 @@
+import { execFile } from "node:child_process";
+import { access, chmod, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { afterEach, describe, expect, it } from "vitest";
+import { createGitWriteSkill } from "../../src/skills/builtins/git-write/index.js";
+import { createToolExecutor } from "../../src/skills/tool-executor.js";
+
+const execFileAsync = promisify(execFile);
+const roots: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map(async (root) => await rm(root, {
+    recursive: true,
+    force: true,
+  })));
+});
+
+describe("git_write", () => {
+  it("stages, commits, branches, switches, adds a worktree, stashes, and reverts with verified state", async () => {
+    const fixture = await createRepository();
+    const write = gitWrite(fixture.root);
+
+    await writeFile(join(fixture.root, "notes.txt"), "first\nsecond\n", "utf8");
+    const staged = await write({ operation: "stage", pathspecs: ["notes.txt"] });
+    expect(staged.v2?.structuredContent).toMatchObject({
+      before: { head: fixture.first, branch: "main", dirty: true },
+      after: { head: fixture.first, branch: "main", dirty: true },
+      result: { staged: [{ status: "M", path: "notes.txt" }], stagedCount: 1 },
+    });
+
+    const committed = await write({ operation: "commit", message: "Add second line" });
+    const second = (await git(fixture.root, ["rev-parse", "HEAD"])).trim();
+    expect(committed.v2?.structuredContent).toMatchObject({
+      after: { head: second, branch: "main", dirty: false },
+      result: { commit: second, parent: fixture.first, subject: "Add second line" },
+      verifiedChange: `commit ${second} in ${fixture.root}`,
+    });
+
+    const branched = await write({ operation: "branch_create", branch: "feature/notes", startRevision: fixture.first });
+    expect(branched.v2?.structuredContent).toMatchObject({ result: { branch: "feature/notes", commit: fixture.first } });
+    const switched = await write({ operation: "switch", branch: "feature/notes" });
+    expect(switched.v2?.structuredContent).toMatchObject({
+      before: { branch: "main" },
+      after: { head: fixture.first, branch: "feature/notes", dirty: false },
+    });
+    await write({ operation: "switch", branch: "main" });
+
+    const worktree = await write({
+      operation: "worktree_add",
+      worktreePath: ".worktrees/review",
+      branch: "review",
+      createBranch: true,
+    });
+    expect(worktree.v2?.structuredContent).toMatchObject({
+      result: { worktreePath: join(fixture.root, ".worktrees", "review"), branch: "review", commit: second },
+    });
+    expect(await readFile(join(fixture.root, ".worktrees", "review", "notes.txt"), "utf8")).toBe("first\nsecond\n");
+
+    await writeFile(join(fixture.root, "notes.txt"), "scratch\n", "utf8");
+    const stashed = await write({ operation: "stash", message: "scratch work" });
+    expect(stashed.v2?.structuredContent).toMatchObject({
+      before: { dirty: true },
+      after: { head: second, dirty: false },
+      result: { stash: "stash@{0}" },
+    });
+
+    const reverted = await write({ operation: "revert_commit", revision: second });
+    const revertCommit = (await git(fixture.root, ["rev-parse", "HEAD"])).trim();
+    expect(reverted.v2?.structuredContent).toMatchObject({
+      result: { commit: revertCommit, reverted: second, parent: second },
+      after: { head: revertCommit, dirty: false },
+    });
+    expect(await readFile(join(fixture.root, "notes.txt"), "utf8")).toBe("first\n");
+  });
+
+  it("does not run repository hooks", async () => {
+    const fixture = await createRepository();
+    const hook = join(fixture.root, ".git", "hooks", "pre-commit");
+    await writeFile(hook, `#!/bin/sh\ntouch "${join(fixture.root, "hook-ran")}"\nexit 1\n`, "utf8");
+    await chmod(hook, 0o755);
+    const write = gitWrite(fixture.root);
+
+    await writeFile(join(fixture.root, "added.txt"), "new\n", "utf8");
+    await write({ operation: "stage", pathspecs: ["."] });
+    const committed = await write({ operation: "commit", message: "Add file" });
+
+    expect(committed.ok).toBe(true);
+    await expect(access(join(fixture.root, "hook-ran"))).rejects.toMatchObject({ code: "ENOENT" });
+  });
+
+  it("rejects destructive operations, unsafe fields, and unmet preconditions", async () => {
+    const fixture = await createRepository();
+    const executor = createToolExecutor(createGitWriteSkill({
+      workstreamRoot: join(fixture.root, "protected-workstreams"),
+    }).tools);
+    const call = async (input: Record<string, unknown>) => await executor.execute(
+      "git_write",
+      { repositoryPath: fixture.root, ...input },
+      { runId: "RUN-12345678-0000000001", callId: "git-write-reject" },
+    );
+
+    for (const input of [
+      { operation: "reset", revision: "HEAD~1" },
+      { operation: "commit", message: "x", amend: true },
+      { operation: "stage", pathspecs: ["../outside.txt"] },
+      { operation: "stage", pathspecs: [".git/config"] },
+      { operation: "branch_create", branch: "--force" },
+      { operation: "worktree_add", worktreePath: "wt", branch: "main", startRevision: "HEAD" },
+    ]) {
+      expect((await call(input)).v2?.code, JSON.stringify(input)).toBe("GIT_WRITE_INPUT_INVALID");
+    }
+
+    expect((await call({ operation: "commit", message: "empty" })).v2?.code).toBe("GIT_WRITE_PRECONDITION_FAILED");
+    expect((await call({ operation: "branch_create", branch: "main" })).v2?.code).toBe("GIT_WRITE_PRECONDITION_FAILED");
+    expect((await call({ operation: "switch", branch: "missing" })).v2?.code).toBe("GIT_WRITE_PRECONDITION_FAILED");
+    expect((await call({ operation: "stash" })).v2?.code).toBe("GIT_WRITE_PRECONDITION_FAILED");
+    await writeFile(join(fixture.root, "notes.txt"), "dirty\n", "utf8");
+    expect((await call({ operation: "revert_commit", revision: fixture.first })).v2?.code)
+      .toBe("GIT_WRITE_PRECONDITION_FAILED");
+    expect((await git(fixture.root, ["rev-parse", "HEAD"])).trim()).toBe(fixture.first);
+  });
+});
+
+function gitWrite(root: string) {
+  const executor = createToolExecutor(createGitWriteSkill({
+    workstreamRoot: join(root, "protected-workstreams"),
+  }).tools);
+  let index = 0;
+  return async (input: Record<string, unknown>) => {
+    const result = await executor.execute("git_write", { repositoryPath: root, ...input }, {
+      runId: "RUN-12345678-0000000001",
+      callId: `git-write-${index++}`,
+    });
+    expect(result.ok, `${String(input["operation"])}: ${result.error ?? "unknown error"}`).toBe(true);
+    return result;
+  };
+}
+
+async function createRepository(): Promise<{ root: string; first: string }> {
+  const root = await mkdtemp(join(tmpdir(), "ayati-git-write-"));
+  roots.push(root);
+  await git(root, ["init", "-b", "main"]);
+  await git(root, ["config", "user.name", "Ayati Test"]);
+  await git(root, ["config", "user.email", "ayati-test@example.invalid"]);
+  await git(root, ["config", "commit.gpgsign", "false"]);
+  await writeFile(join(root, ".gitignore"), ".worktrees/\n", "utf8");
+  await writeFile(join(root, "notes.txt"), "first\n", "utf8");
+  await git(root, ["add", "."]);
+  await git(root, ["commit", "-m", "first"]);
+  const first = (await git(root, ["rev-parse", "HEAD"])).trim();
+  return { root, first };
+}
+
+async function git(root: string, args: string[]): Promise<string> {
+  const result = await execFileAsync("git", args, { cwd: root, encoding: "utf8" });
+  return result.stdout;
+}
@@ -0,0 +1,186 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, describe, expect, it } from "vitest";
+import { CAPABILITY_DEFINITIONS, CapabilityCatalog } from "../../src/ivec/agent-runner/capabilities/catalog.js";
+import { ToolRegistry } from "../../src/ivec/agent-runner/capabilities/registry.js";
+import {
+  DEFAULT_MCP_CALL_TIMEOUT_MS,
+  DEFAULT_MCP_STARTUP_TIMEOUT_MS,
+  loadMcpRuntimeConfig,
+  parseMcpServers,
+  startMcpServers,
+  type McpRuntime,
+  type McpServerConfig,
+} from "../../src/skills/mcp/index.js";
+import { createToolExecutor } from "../../src/skills/tool-executor.js";
+import { getToolTaxonomy } from "../../src/skills/tool-taxonomy.js";
+import { canCaptureNodeSubprocessOutput } from "../fixtures/runtime-capabilities.js";
+
+const supportsSubprocessOutput = canCaptureNodeSubprocessOutput();
+const FIXTURE_SERVER = resolve(dirname(fileURLToPath(import.meta.url)), "../fixtures/mcp/notes-server.mjs");
+const runtimes: McpRuntime[] = [];
+const roots: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(runtimes.splice(0).map(async (runtime) => await runtime.close()));
+  await Promise.all(roots.splice(0).map(async (root) => await rm(root, { recursive: true, force: true })));
+});
+
+describe("MCP server config", () => {
+  it("reads servers from the AYATI_MCP_CONFIG file", async () => {
+    const root = await mkdtemp(join(tmpdir(), "ayati-mcp-config-"));
+    roots.push(root);
+    const configPath = join(root, "mcp.json");
+    await writeFile(configPath, JSON.stringify({
+      mcpServers: {
+        notes: { command: "node", args: ["server.mjs"], env: { NOTES_DIR: "/tmp/notes" }, cwd: "servers" },
+        tickets: { command: "tickets-mcp", callTimeoutMs: 5_000 },
+      },
+    }));
+
+    expect(loadMcpRuntimeConfig({ AYATI_MCP_CONFIG: configPath })).toEqual({
+      configPath,
+      servers: [
+        {
+          name: "notes",
+          command: "node",
+          args: ["server.mjs"],
+          env: { NOTES_DIR: "/tmp/notes" },
+          cwd: join(root, "servers"),
+          startupTimeoutMs: DEFAULT_MCP_STARTUP_TIMEOUT_MS,
+          callTimeoutMs: DEFAULT_MCP_CALL_TIMEOUT_MS,
+        },
+        {
+          name: "tickets",
+          command: "tickets-mcp",
+          args: [],
+          env: {},
+          startupTimeoutMs: DEFAULT_MCP_STARTUP_TIMEOUT_MS,
+          callTimeoutMs: 5_000,
+        },
+      ],
+    });
+    expect(loadMcpRuntimeConfig({})).toEqual({ servers: [] });
+  });
+
+  it("rejects server entries it cannot launch safely", () => {
+    expect(() => parseMcpServers({ servers: {} }, "/tmp")).toThrow("\"mcpServers\" object");
+    expect(() => parseMcpServers({ mcpServers: { "Bad Name": { command: "x" } } }, "/tmp"))
+      .toThrow("must start with a lowercase letter");
+    expect(() => parseMcpServers({ mcpServers: { notes: { args: [] } } }, "/tmp"))
+      .toThrow("requires a command");
+    expect(() => parseMcpServers({ mcpServers: { notes: { command: "x", args: "--flag" } } }, "/tmp"))
+      .toThrow("args must be an array of strings");
+    expect(() => parseMcpServers({ mcpServers: { notes: { command: "x", callTimeoutMs: 0 } } }, "/tmp"))
+      .toThrow("callTimeoutMs must be a positive integer");
+  });
+});
+
+describe("MCP client skills", () => {
+  it.runIf(supportsSubprocessOutput)("exposes server tools with conservative annotations and capabilities", async () => {
+    const runtime = await startFixture();
+
+    expect(runtime.servers).toEqual([{ name: "notes", status: "ready", toolCount: 5 }]);
+    const tools = runtime.skills.flatMap((skill) => skill.tools);
+    expect(tools.map((tool) => tool.name)).toEqual([
+      "mcp_notes_echo",
+      "mcp_notes_add_note",
+      "mcp_notes_wipe",
+      "mcp_notes_slow",
+      "mcp_notes_missing_note",
+    ]);
+    expect(tools[0]?.description).toBe("[notes MCP] Echo: Echo the given text back.");
+    expect(tools.map((tool) => tool.annotations)).toEqual([
+      expect.objectContaining({ domain: "mcp", readOnly: true, destructive: false, mutatesExternalWorld: false }),
+      expect.objectContaining({ readOnly: false, destructive: false, mutatesWorkspace: true, mutatesExternalWorld: false }),
+      // No hints means the MCP defaults: destructive and open-world.
+      expect.objectContaining({ readOnly: false, destructive: true, mutatesExternalWorld: true, retrySafe: false }),
+      expect.objectContaining({ readOnly: true }),
+      expect.objectContaining({ readOnly: true }),
+    ]);
+    expect(getToolTaxonomy("mcp_notes_echo")).toMatchObject({ effect: "read_only", canRunBeforeWorkstream: true });
+    expect(getToolTaxonomy("mcp_notes_wipe")).toMatchObject({ effect: "destructive", requiresWorkstreamBinding: true });
+
+    expect(runtime.capabilities.map(({ id, allowedModes, coreTools }) => ({ id, allowedModes, coreTools }))).toEqual([
+      {
+        id: "mcp-notes:read",
+        allowedModes: ["observe.investigate"],
+        coreTools: ["mcp_notes_echo", "mcp_notes_slow", "mcp_notes_missing_note"],
+      },
+      { id: "mcp-notes:write", allowedModes: ["execute"], coreTools: ["mcp_notes_add_note"] },
+      { id: "mcp-notes:destructive", allowedModes: ["execute"], coreTools: ["mcp_notes_wipe"] },
+    ]);
+    const catalog = new CapabilityCatalog([...CAPABILITY_DEFINITIONS, ...runtime.capabilities]);
+    const registry = new ToolRegistry(tools);
+    expect(catalog.capabilitiesForTool("mcp_notes_wipe").map(({ id }) => id)).toEqual(["mcp-notes:destructive"]);
+    expect(registry.names()).toHaveLength(5);
+
+    await runtime.close();
+    expect(getToolTaxonomy("mcp_notes_echo")).toBeUndefined();
+  });
+
+  it.runIf(supportsSubprocessOutput)("routes call results and failures through the tool result contract", async () => {
+    const runtime = await startFixture();
+    const executor = createToolExecutor(runtime.skills.flatMap((skill) => skill.tools));
+
+    const echo = await executor.execute("mcp_notes_echo", { text: "hello" });
+    const added = await executor.execute("mcp_notes_add_note", { text: "first" });
+    const missing = await executor.execute("mcp_notes_missing_note", {});
+
+    expect(echo).toMatchObject({ ok: true, output: "hello" });
+    expect(echo.v2).toMatchObject({ operationStatus: "succeeded", code: "MCP_TOOL_SUCCEEDED" });
+    expect(echo.v2?.diagnostics).toMatchObject({ server: "notes", tool: "echo" });
+    expect(added.v2?.structuredContent).toEqual({ count: 1 });
+    expect(missing.ok).toBe(false);
+    expect(missing.v2?.error).toMatchObject({
+      code: "MCP_TOOL_ERROR",
+      category: "missing_path",
+      message: "Note does not exist.",
+    });
+  });
+
+  it.runIf(supportsSubprocessOutput)("cancels in-flight calls with the run and keeps the server usable", async () => {
+    const runtime = await startFixture();
+    const executor = createToolExecutor(runtime.skills.flatMap((skill) => skill.tools));
+    const controller = new AbortController();
+
+    const pending = executor.execute("mcp_notes_slow", {}, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+    const cancelled = await pending;
+    const next = await executor.execute("mcp_notes_echo", { text: "still here" });
+
+    expect(cancelled.v2?.error).toMatchObject({ code: "MCP_CANCELLED", retryable: false });
+    expect(next).toMatchObject({ ok: true, output: "still here" });
+  });
+
+  it("reports a server that cannot start without failing the runtime", async () => {
+    const runtime = await startMcpServers([serverConfig({ command: "/nonexistent/ayati-mcp-server", args: [] })]);
+    runtimes.push(runtime);
+
+    expect(runtime.skills).toEqual([]);
+    expect(runtime.capabilities).toEqual([]);
+    expect(runtime.servers).toEqual([
+      expect.objectContaining({ name: "notes", status: "failed", toolCount: 0, error: expect.stringContaining("could not run") }),
+    ]);
+  });
+});
+
+async function startFixture(): Promise<McpRuntime> {
+  const runtime = await startMcpServers([serverConfig({})]);
+  runtimes.push(runtime);
+  return runtime;
+}
+
+function serverConfig(overrides: Partial<McpServerConfig>): McpServerConfig {
+  return {
+    name: "notes",
+    command: process.execPath,
+    args: [FIXTURE_SERVER],
+    env: {},
+    startupTimeoutMs: 10_000,
+    callTimeoutMs: 10_000,
+    ...overrides,
+  };
+}
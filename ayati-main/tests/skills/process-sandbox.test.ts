@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSandboxedCommand,
+  buildSandboxEnvironment,
+  DEFAULT_PROCESS_SANDBOX_POLICY,
+  ProcessSandboxError,
+  type ProcessSandboxCapabilities,
+} from "../../src/skills/process-sandbox.js";
+
+const ALL: ProcessSandboxCapabilities = { bwrap: true, unshare: true, prlimit: true };
+const NONE: ProcessSandboxCapabilities = { bwrap: false, unshare: false, prlimit: false };
+
+function build(overrides: Partial<Parameters<typeof buildSandboxedCommand>[0]> = {}) {
+  return buildSandboxedCommand({
+    executable: "node",
+    args: ["build.mjs"],
+    cwd: "/work/project",
+    writableRoots: ["/work/project"],
+    env: { PATH: "/usr/bin" },
+    policy: DEFAULT_PROCESS_SANDBOX_POLICY,
+    capabilities: ALL,
+    ...overrides,
+  });
+}
+
+describe("process sandbox", () => {
+  it("passes only allowlisted variables to children", () => {
+    const env = buildSandboxEnvironment({
+      PATH: "/usr/bin",
+      HOME: "/home/ayati",
+      LC_ALL: "C.UTF-8",
+      OPENAI_API_KEY: "sk-secret",
+      ANTHROPIC_API_KEY: "sk-ant-secret",
+      AYATI_ROOT_DIR: "/home/ayati/ayati",
+      CARGO_HOME: "/home/ayati/.cargo",
+      RUSTUP_TOOLCHAIN: "stable",
+    }, ["CARGO_HOME", "RUSTUP_*"], { AYATI_PYTHON_RUN_DIR: "/data/python/run-1" });
+
+    expect(env).toEqual({
+      PATH: "/usr/bin",
+      HOME: "/home/ayati",
+      LC_ALL: "C.UTF-8",
+      CARGO_HOME: "/home/ayati/.cargo",
+      RUSTUP_TOOLCHAIN: "stable",
+      AYATI_PYTHON_RUN_DIR: "/data/python/run-1",
+    });
+  });
+
+  it("wraps commands in bubblewrap with read-only binds outside the root and no network", () => {
+    const command = build({ scratchDir: "/tmp/ayati-sandbox-1" });
+
+    expect(command.command).toBe("bwrap");
+    expect(command.args).toEqual([
+      "--die-with-parent",
+      "--new-session",
+      "--unshare-pid",
+      "--unshare-ipc",
+      "--unshare-uts",
+      "--unshare-net",
+      "--ro-bind", "/", "/",
+      "--dev", "/dev",
+      "--proc", "/proc",
+      "--bind", "/work/project", "/work/project",
+      "--bind", "/tmp/ayati-sandbox-1", "/tmp/ayati-sandbox-1",
+      "--chdir", "/work/project",
+      "--",
+      "prlimit", "--cpu=900", `--data=${4096 * 1024 * 1024}`, `--fsize=${1024 * 1024 * 1024}`, "--",
+      "node", "build.mjs",
+    ]);
+    expect(command.env).toEqual({ PATH: "/usr/bin", TMPDIR: "/tmp/ayati-sandbox-1" });
+    expect(command.report).toEqual({
+      isolation: "bwrap",
+      network: "blocked",
+      filesystem: "read_only_outside_roots",
+      writableRoots: ["/work/project"],
+      environment: "scrubbed",
+      rlimits: { cpuSeconds: 900, memoryBytes: 4096 * 1024 * 1024, fileSizeBytes: 1024 * 1024 * 1024 },
+    });
+  });
+
+  it("falls back to unshare and then to no namespaces when auto lacks bubblewrap", () => {
+    const unshare = build({
+      capabilities: { ...ALL, bwrap: false },
+      policy: { ...DEFAULT_PROCESS_SANDBOX_POLICY, allowNetwork: true, cpuSeconds: 0, memoryBytes: 0, fileSizeBytes: 0 },
+    });
+    expect(unshare.command).toBe("unshare");
+    expect(unshare.args).toEqual(["--user", "--map-root-user", "--", "node", "build.mjs"]);
+    expect(unshare.report).toMatchObject({ isolation: "unshare", network: "allowed", filesystem: "unrestricted" });
+    expect(unshare.report.degraded).toContain("bubblewrap is unavailable");
+
+    const bare = build({ capabilities: NONE });
+    expect([bare.command, ...bare.args]).toEqual(["node", "build.mjs"]);
+    expect(bare.report).toMatchObject({ isolation: "none", network: "not_isolated", environment: "scrubbed" });
+    expect(bare.report.rlimits).toBeUndefined();
+  });
+
+  it("fails closed when an explicit isolation mode is unavailable", () => {
+    expect(() => build({ capabilities: NONE, policy: { ...DEFAULT_PROCESS_SANDBOX_POLICY, mode: "bwrap" } }))
+      .toThrow(ProcessSandboxError);
+    expect(build({ capabilities: ALL, policy: { ...DEFAULT_PROCESS_SANDBOX_POLICY, mode: "unshare" } }).command)
+      .toBe("unshare");
+  });
+});
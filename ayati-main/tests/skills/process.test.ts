@@ -54,6 +54,39 @@ describe("focused process tools", () => {
     }
   });
 
+  it.runIf(supportsSubprocessOutput)("attaches parsed test results and proves passing runs", async () => {
+    const temp = await mkdtemp(join(tmpdir(), "ayati-process-tests-"));
+    try {
+      const failingPath = join(temp, "failing.mjs");
+      const passingPath = join(temp, "passing.mjs");
+      await writeFile(failingPath, [
+        "console.log(' FAIL  tests/cart.test.ts > cart > totals items');",
+        "console.log(' ❯ tests/cart.test.ts:18:22');",
+        "console.log(' Test Files  1 failed (1)');",
+        "console.log('      Tests  1 failed | 4 passed (5)');",
+        "process.exit(1);",
+      ].join("\n"), "utf8");
+      await writeFile(passingPath, "console.log(' Test Files  1 passed (1)'); console.log('      Tests  5 passed (5)');\n", "utf8");
+
+      const failing = await processRunTool.execute({ executable: "node", args: [failingPath] });
+      expect(failing.error).toBe("Process exited with code 1. vitest test failed (1 failed, 4 passed).");
+      expect(failing.v2?.structuredContent).toMatchObject({
+        testReport: { tool: "vitest", verdict: "failed", failures: [{ file: "tests/cart.test.ts", line: 18 }] },
+        failureLocations: ["tests/cart.test.ts:18 cart > totals items"],
+      });
+      expect(failing.v2?.structuredContent).not.toHaveProperty("testsPassed");
+      expect(failing.v2?.error?.suggestedNextActions[0]).toContain("tests/cart.test.ts:18");
+
+      const passing = await processRunTool.execute({ executable: "node", args: [passingPath] });
+      expect(passing.v2?.structuredContent).toMatchObject({
+        testReport: { verdict: "passed", counts: { passed: 5, failed: 0, total: 5 } },
+        testsPassed: `node ${passingPath}`,
+      });
+    } finally {
+      await rm(temp, { recursive: true, force: true });
+    }
+  });
+
   it.each([
     ["cat", "read_files"],
     ["rg", "search_in_files"],
@@ -79,6 +112,29 @@ describe("focused process tools", () => {
     expect(inline.v2?.code).toBe("PROCESS_INLINE_CODE_BLOCKED");
   });
 
+  it.runIf(supportsSubprocessOutput)("keeps provider keys out of the child environment", async () => {
+    const temp = await mkdtemp(join(tmpdir(), "ayati-process-env-"));
+    const previous = process.env["OPENAI_API_KEY"];
+    process.env["OPENAI_API_KEY"] = "sk-process-test-secret";
+    try {
+      const scriptPath = join(temp, "env.mjs");
+      await writeFile(scriptPath, "console.log(JSON.stringify({ key: process.env.OPENAI_API_KEY ?? null, path: Boolean(process.env.PATH) }));\n", "utf8");
+
+      const result = await processRunTool.execute({ executable: "node", args: [scriptPath] });
+
+      expect(result.ok).toBe(true);
+      expect(JSON.parse(String(result.rawOutput ?? "").trim())).toEqual({ key: null, path: true });
+      expect(result.v2?.structuredContent).toMatchObject({
+        sandbox: { environment: "scrubbed", isolation: expect.stringMatching(/^(bwrap|unshare|none)$/) },
+      });
+      expect(result.meta?.["isolation"]).toBe((result.v2?.structuredContent as { sandbox: { isolation: string } }).sandbox.isolation);
+    } finally {
+      if (previous === undefined) delete process.env["OPENAI_API_KEY"];
+      else process.env["OPENAI_API_KEY"] = previous;
+      await rm(temp, { recursive: true, force: true });
+    }
+  });
+
   it.runIf(supportsSubprocessOutput)("defaults cwd to the configured workspace", async () => {
     const temp = await mkdtemp(join(tmpdir(), "ayati-process-cwd-"));
     try {
@@ -94,6 +150,27 @@ describe("focused process tools", () => {
     }
   });
 
+  it("terminates a running command when the owning run is cancelled", async () => {
+    const temp = await mkdtemp(join(tmpdir(), "ayati-process-cancel-"));
+    try {
+      const scriptPath = join(temp, "wait.mjs");
+      await writeFile(scriptPath, "setTimeout(() => {}, 30000);\n", "utf8");
+      const controller = new AbortController();
+
+      const pending = processRunTool.execute(
+        { executable: "node", args: [scriptPath] },
+        { signal: controller.signal },
+      );
+      setTimeout(() => controller.abort(), 100);
+      const result = await pending;
+
+      expect(result.ok).toBe(false);
+      expect(result.v2).toMatchObject({ code: "COMMAND_CANCELLED" });
+    } finally {
+      await rm(temp, { recursive: true, force: true });
+    }
+  });
+
   it("rejects supplied relative working directories", async () => {
     const result = await processRunTool.execute({ executable: "node", args: ["--version"], cwd: "project" });
 
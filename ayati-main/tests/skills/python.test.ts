@@ -1,11 +1,21 @@
+import { spawnSync } from "node:child_process";
 import { chmodSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { afterEach, describe, expect, it } from "vitest";
 import { createPythonSkill } from "../../src/skills/builtins/python/index.js";
+import { PythonSessionManager } from "../../src/skills/builtins/python/sessions.js";
+import { DEFAULT_PROCESS_SANDBOX_POLICY } from "../../src/skills/process-sandbox.js";
 import { canCaptureNodeSubprocessOutput } from "../fixtures/runtime-capabilities.js";
 
 const supportsSubprocessOutput = canCaptureNodeSubprocessOutput();
+const hostPython = resolveHostPython();
+
+function resolveHostPython(): string | undefined {
+  const result = spawnSync("python3", ["-c", "import sys; print(sys.executable)"], { encoding: "utf8", timeout: 5_000 });
+  const executable = result.status === 0 ? result.stdout.trim() : "";
+  return executable.length > 0 ? executable : undefined;
+}
 
 function parseOutput(result: { ok: boolean; output?: string; error?: string }) {
   expect(result.output).toBeTruthy();
@@ -214,3 +224,165 @@ describe("python skill", () => {
   });
 
 });
+
+describe.runIf(hostPython)("python sessions", () => {
+  const tempDirs: string[] = [];
+  const managers: PythonSessionManager[] = [];
+
+  afterEach(async () => {
+    await Promise.all(managers.splice(0).map(async (manager) => await manager.closeAll()));
+    for (const dir of tempDirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  function sessionTools(sandbox?: ConstructorParameters<typeof PythonSessionManager>[0]) {
+    const dataDir = createTempDir("ayati-python-session-");
+    tempDirs.push(dataDir);
+    const sessions = new PythonSessionManager(sandbox);
+    managers.push(sessions);
+    const skill = createPythonSkill({ dataDir, interpreterPath: hostPython, defaultCwd: dataDir, sessions });
+    const tool = (name: string) => {
+      const found = skill.tools.find((entry) => entry.name === name);
+      if (!found) throw new Error(`Missing tool: ${name}`);
+      return found;
+    };
+    return {
+      sessions,
+      start: tool("python_session_start"),
+      exec: tool("python_session_exec"),
+      inspect: tool("python_session_inspect"),
+      stop: tool("python_session_stop"),
+    };
+  }
+
+  it("keeps variables between calls and reports newly written artifacts", async () => {
+    const tools = sessionTools();
+    const context = { runId: "run-session" };
+    const started = parseOutput(await tools.start.execute({}, context));
+    const sessionId = String(started["sessionId"]);
+    expect(started).toMatchObject({ scope: "run", running: true, execCount: 0 });
+
+    const first = await tools.exec.execute({ sessionId, code: "rows = [1, 2, 3]\nprint('loaded')" }, context);
+    expect(first.ok).toBe(true);
+    expect(parseOutput(first)).toMatchObject({ status: "ok", stdout: "loaded\n", result: null, newArtifacts: [] });
+
+    const second = await tools.exec.execute({
+      sessionId,
+      code: "(ARTIFACT_DIR / 'total.txt').write_text(str(sum(rows)))\nsum(rows) * 2",
+    }, context);
+    const secondOutput = parseOutput(second);
+    expect(secondOutput).toMatchObject({ status: "ok", result: "12" });
+    expect(secondOutput["newArtifacts"]).toEqual([join(String(started["artifactDir"]), "total.txt")]);
+
+    const third = parseOutput(await tools.exec.execute({ sessionId, code: "rows.append(4)" }, context));
+    expect(third["newArtifacts"]).toEqual([]);
+
+    const inspected = parseOutput(await tools.inspect.execute({ sessionId }, context));
+    expect(inspected["variables"]).toEqual([{ name: "rows", type: "list", summary: "[1, 2, 3, 4]" }]);
+    expect(inspected["artifacts"]).toEqual(secondOutput["newArtifacts"]);
+
+    const failed = await tools.exec.execute({ sessionId, code: "raise ValueError('bad row')" }, context);
+    expect(failed.ok).toBe(false);
+    expect(failed.error).toContain("ValueError: bad row");
+    expect(parseOutput(await tools.exec.execute({ sessionId, code: "len(rows)" }, context))["result"]).toBe("4");
+
+    const stopped = parseOutput(await tools.stop.execute({ sessionId }, context));
+    expect(stopped["running"]).toBe(false);
+    const afterStop = await tools.exec.execute({ sessionId, code: "rows" }, context);
+    expect(afterStop.meta).toMatchObject({ code: "PYTHON_SESSION_NOT_FOUND" });
+  });
+
+  it("interrupts a call that exceeds its timeout without losing session state", async () => {
+    const tools = sessionTools();
+    const context = { runId: "run-timeout" };
+    const sessionId = String(parseOutput(await tools.start.execute({}, context))["sessionId"]);
+    await tools.exec.execute({ sessionId, code: "import time\ncounter = 41" }, context);
+
+    const slow = await tools.exec.execute({ sessionId, code: "time.sleep(30)", timeoutMs: 200 }, context);
+
+    expect(slow.ok).toBe(false);
+    expect(parseOutput(slow)).toMatchObject({ status: "timed_out" });
+    expect(parseOutput(await tools.exec.execute({ sessionId, code: "counter + 1" }, context))["result"]).toBe("42");
+  });
+
+  it("interrupts the kernel inside a bubblewrap sandbox that does not forward signals", async () => {
+    // Like bwrap, this wrapper dies on SIGINT and takes the kernel with it instead of forwarding it.
+    const binDir = createTempDir("ayati-fake-bwrap-");
+    tempDirs.push(binDir);
+    writeFileSync(join(binDir, "bwrap"), [
+      `#!${hostPython}`,
+      "import subprocess, sys",
+      "args = sys.argv[1:]",
+      "cwd = args[args.index('--chdir') + 1]",
+      "child = subprocess.Popen(args[args.index('--') + 1:], cwd=cwd)",
+      "try:",
+      "    sys.exit(child.wait())",
+      "except KeyboardInterrupt:",
+      "    child.kill()",
+      "    sys.exit(130)",
+      "",
+    ].join("\n"), "utf8");
+    chmodSync(join(binDir, "bwrap"), 0o755);
+    const originalPath = process.env.PATH;
+    process.env.PATH = `${binDir}:${originalPath ?? ""}`;
+    try {
+      const tools = sessionTools({
+        policy: { ...DEFAULT_PROCESS_SANDBOX_POLICY, mode: "bwrap" },
+        capabilities: { bwrap: true, unshare: false, prlimit: false },
+      });
+      const context = { runId: "run-bwrap-interrupt" };
+      const started = parseOutput(await tools.start.execute({}, context));
+      expect(started["sandbox"]).toMatchObject({ isolation: "bwrap" });
+      const sessionId = String(started["sessionId"]);
+      await tools.exec.execute({ sessionId, code: "import time\ncounter = 41" }, context);
+
+      const slow = await tools.exec.execute({ sessionId, code: "time.sleep(30)", timeoutMs: 200 }, context);
+
+      expect(parseOutput(slow)).toMatchObject({ status: "timed_out", session: { running: true } });
+      expect(parseOutput(await tools.exec.execute({ sessionId, code: "counter + 1" }, context))["result"]).toBe("42");
+    } finally {
+      process.env.PATH = originalPath;
+    }
+  });
+
+  it("caps session memory and keeps the session usable after a MemoryError", async () => {
+    const tools = sessionTools();
+    const context = { runId: "run-memory" };
+    const sessionId = String(parseOutput(await tools.start.execute({ memoryMb: 256 }, context))["sessionId"]);
+
+    const oversized = await tools.exec.execute({ sessionId, code: "blob = bytearray(1024 * 1024 * 1024)" }, context);
+
+    expect(oversized.ok).toBe(false);
+    expect(oversized.error).toContain("MemoryError");
+    expect(parseOutput(await tools.exec.execute({ sessionId, code: "'still alive'" }, context))["result"]).toBe("'still alive'");
+  });
+
+  it("scopes sessions to their owner and releases run sessions when the run finalizes", async () => {
+    const tools = sessionTools();
+    const runSession = String(parseOutput(await tools.start.execute({}, { runId: "run-a" }))["sessionId"]);
+
+    const foreign = await tools.exec.execute({ sessionId: runSession, code: "1" }, { runId: "run-b" });
+    expect(foreign.meta).toMatchObject({ code: "PYTHON_SESSION_NOT_FOUND" });
+    const unbound = await tools.start.execute({ scope: "workstream" }, { runId: "run-a" });
+    expect(unbound.meta).toMatchObject({ code: "PYTHON_SESSION_SCOPE_UNAVAILABLE" });
+
+    await tools.sessions.releaseRun("run-a");
+
+    const released = await tools.exec.execute({ sessionId: runSession, code: "1" }, { runId: "run-a" });
+    expect(released.meta).toMatchObject({ code: "PYTHON_SESSION_NOT_FOUND" });
+  });
+
+  it("stops sessions that sit idle past their timeout", async () => {
+    const tools = sessionTools();
+    const context = { runId: "run-idle" };
+    const sessionId = String(parseOutput(await tools.start.execute({ idleTimeoutMs: 60_000 }, context))["sessionId"]);
+
+    await tools.sessions.sweepIdle(Date.now() + 30_000);
+    expect((await tools.inspect.execute({ sessionId }, context)).ok).toBe(true);
+    await tools.sessions.sweepIdle(Date.now() + 61_000);
+
+    const expired = await tools.inspect.execute({ sessionId }, context);
+    expect(expired.meta).toMatchObject({ code: "PYTHON_SESSION_NOT_FOUND" });
+  });
+});
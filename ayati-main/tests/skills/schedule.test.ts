@@ -0,0 +1,147 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ContextEngineService } from "ayati-context-engine";
+import { ScheduleStore, SchedulerRuntime } from "../../src/scheduler/index.js";
+import { createScheduleSkill } from "../../src/skills/builtins/schedule/index.js";
+import { createToolExecutor } from "../../src/skills/tool-executor.js";
+import type { ToolExecutionContext } from "../../src/skills/types.js";
+
+const WORKSTREAM_ID = "W-20260719-0001";
+const roots: string[] = [];
+const runtimes: SchedulerRuntime[] = [];
+
+afterEach(async () => {
+  for (const runtime of runtimes.splice(0)) runtime.close();
+  await Promise.all(roots.splice(0).map(async (root) => await rm(root, { recursive: true, force: true })));
+});
+
+describe("schedule skill", () => {
+  it("creates a schedule bound to the run's workstream and request", async () => {
+    const fixture = await createFixture();
+
+    const created = await fixture.execute("schedule_create", {
+      name: "Inbox digest",
+      prompt: "Summarize new email from today.",
+      cron: "0 9 * * mon-fri",
+      timezone: "Asia/Kolkata",
+    });
+
+    expect(created.ok).toBe(true);
+    expect(created.v2?.structuredContent).toEqual({
+      schedule: expect.objectContaining({
+        name: "Inbox digest",
+        kind: "cron",
+        timezone: "Asia/Kolkata",
+        workstreamId: WORKSTREAM_ID,
+        requestId: "R-0002",
+        status: "active",
+        nextFireAt: "2026-07-20T03:30:00.000Z",
+        nextFireLocal: "2026-07-20 09:00 Asia/Kolkata",
+      }),
+    });
+    expect(fixture.scheduler.listSchedules()[0]).toMatchObject({ createdByRunId: "RUN-1" });
+  });
+
+  it("checks an explicit workstream and reports invalid schedules as validation errors", async () => {
+    const fixture = await createFixture();
+
+    const other = await fixture.execute("schedule_create", {
+      name: "Weekly report",
+      prompt: "Write the weekly report.",
+      cron: "@weekly",
+      workstreamId: "w-20260719-0002",
+    });
+    expect(other.ok).toBe(true);
+    expect(fixture.service.getWorkstream).toHaveBeenCalledWith({ workstreamId: "W-20260719-0002" });
+    expect(other.v2?.structuredContent).toEqual({
+      schedule: expect.not.objectContaining({ requestId: expect.anything() }),
+    });
+
+    const invalid = await fixture.execute("schedule_create", {
+      name: "Broken",
+      prompt: "Nothing.",
+      cron: "0 25 * * *",
+    });
+    expect(invalid).toMatchObject({ ok: false, error: expect.stringContaining("hour value \"25\"") });
+  });
+
+  it("asks for approval before storing tools that scheduled runs may use unattended", async () => {
+    const fixture = await createFixture();
+    const create = fixture.tools.find((tool) => tool.name === "schedule_create")!;
+
+    expect(create.approvalReason?.({ name: "Build", prompt: "Build.", cron: "@daily" })).toBeUndefined();
+    expect(create.approvalReason?.({ name: "Build", prompt: "Build.", cron: "@daily", approvedTools: ["process_run"] }))
+      .toBe("external_effect");
+
+    const created = await fixture.execute("schedule_create", {
+      name: "Nightly build",
+      prompt: "Run the build.",
+      cron: "@daily",
+      approvedTools: ["process_run", " process_run "],
+    });
+    expect(created.v2?.structuredContent).toEqual({
+      schedule: expect.objectContaining({ approvedTools: ["process_run"] }),
+    });
+    expect(await fixture.execute("schedule_create", {
+      name: "Broken",
+      prompt: "Nothing.",
+      cron: "@daily",
+      approvedTools: [""],
+    })).toMatchObject({ ok: false, error: expect.stringContaining("approvedTools") });
+  });
+
+  it("lists and cancels schedules", async () => {
+    const fixture = await createFixture();
+    await fixture.execute("schedule_create", { name: "Ping", prompt: "Ping.", at: "2026-07-19T18:00" });
+    const scheduleId = fixture.scheduler.listSchedules()[0]!.scheduleId;
+
+    const cancelled = await fixture.execute("schedule_cancel", { scheduleId });
+    expect(cancelled.v2?.structuredContent).toEqual({ schedule: expect.objectContaining({ status: "cancelled" }) });
+    expect((await fixture.execute("schedule_list", {})).v2?.structuredContent).toEqual({ schedules: [] });
+    expect((await fixture.execute("schedule_list", { includeInactive: true })).v2?.structuredContent).toEqual({
+      schedules: [expect.objectContaining({ scheduleId, status: "cancelled", recentFires: [] })],
+    });
+    expect(await fixture.execute("schedule_cancel", { scheduleId: "sched_missing" }))
+      .toMatchObject({ ok: false, error: expect.stringContaining("does not exist") });
+  });
+});
+
+async function createFixture() {
+  const root = await mkdtemp(join(tmpdir(), "ayati-schedule-skill-"));
+  roots.push(root);
+  const now = () => new Date("2026-07-19T10:00:00.000Z");
+  const scheduler = new SchedulerRuntime({
+    store: new ScheduleStore({ dbPath: join(root, "schedules.sqlite"), now }),
+    config: { enabled: true, catchUpWindowMs: 3_600_000, maxActiveSchedules: 10, desktopNotifications: false },
+    defaultTimezone: "UTC",
+    now,
+    submitChat: () => null,
+    broadcast: () => 0,
+  });
+  runtimes.push(scheduler);
+  scheduler.start();
+  const service = {
+    getAgentContext: vi.fn(async () => ({
+      run: {
+        run: {
+          runId: "RUN-1",
+          workstreamBinding: { workstreamId: WORKSTREAM_ID, requestId: "R-0002" },
+        },
+      },
+    })),
+    getWorkstream: vi.fn(async () => ({ workstream: { workstreamId: "W-20260719-0002" } })),
+  };
+  const tools = createScheduleSkill({ scheduler, service: service as unknown as ContextEngineService }).tools;
+  const executor = createToolExecutor(tools);
+  return {
+    scheduler,
+    service,
+    tools,
+    async execute(toolName: string, input: unknown) {
+      const context: ToolExecutionContext = { sessionId: "SESSION-1", runId: "RUN-1", callId: "call-1" };
+      return await executor.execute(toolName, input, context);
+    },
+  };
+}
@@ -0,0 +1,286 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  parseTestBuildOutput,
+  summarizeTestBuildReport,
+  testBuildFailureLocations,
+  type TestBuildOutputInput,
+  type TestBuildReport,
+} from "../../src/skills/builtins/process/test-results.js";
+
+const roots: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map(async (root) => await rm(root, { recursive: true, force: true })));
+});
+
+async function run(overrides: Partial<TestBuildOutputInput>): Promise<TestBuildReport | undefined> {
+  return await parseTestBuildOutput({
+    executable: "pnpm",
+    args: ["test"],
+    stdout: "",
+    stderr: "",
+    exitCode: 0,
+    startedAt: Date.now(),
+    ...overrides,
+  });
+}
+
+describe("test and build output parsing", () => {
+  it("parses tsc diagnostics in plain and pretty formats", async () => {
+    const report = await run({
+      executable: "npx",
+      args: ["tsc", "--noEmit"],
+      exitCode: 2,
+      stdout: [
+        "src/app.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+        "\u001b[96msrc/util.ts\u001b[0m:\u001b[93m3\u001b[0m:\u001b[93m9\u001b[0m - \u001b[91merror\u001b[0m\u001b[90m TS2304: \u001b[0mCannot find name 'foo'.",
+        "Found 2 errors in 2 files.",
+      ].join("\n"),
+    });
+
+    expect(report).toMatchObject({ tool: "tsc", kind: "typecheck", verdict: "failed" });
+    expect(report?.diagnostics).toEqual([
+      { file: "src/app.ts", line: 12, column: 5, severity: "error", code: "TS2322", message: "Type 'string' is not assignable to type 'number'." },
+      { file: "src/util.ts", line: 3, column: 9, severity: "error", code: "TS2304", message: "Cannot find name 'foo'." },
+    ]);
+    expect(testBuildFailureLocations(report!)[0]).toBe("src/app.ts:12:5 TS2322: Type 'string' is not assignable to type 'number'.");
+
+    expect(await run({ executable: "tsc", args: ["--noEmit"] })).toMatchObject({ tool: "tsc", verdict: "passed", diagnostics: [] });
+  });
+
+  it("parses vitest and jest JSON reporters with failing assertion locations", async () => {
+    const report = await run({
+      executable: "npx",
+      args: ["vitest", "run", "--reporter=json"],
+      exitCode: 1,
+      stdout: `> ayati@1.0.0 test\n${JSON.stringify({
+        numTotalTests: 4,
+        numPassedTests: 2,
+        numFailedTests: 1,
+        numPendingTests: 1,
+        numTodoTests: 0,
+        testResults: [{
+          name: "/work/tests/math.test.ts",
+          status: "failed",
+          assertionResults: [
+            { fullName: "math adds", status: "passed", failureMessages: [] },
+            {
+              fullName: "math divides",
+              status: "failed",
+              failureMessages: ["AssertionError: expected 2 to be 3\n    at /work/tests/math.test.ts:14:7"],
+            },
+          ],
+        }],
+      })}`,
+    });
+
+    expect(report).toMatchObject({
+      tool: "vitest",
+      source: "json",
+      verdict: "failed",
+      counts: { passed: 2, failed: 1, skipped: 1, total: 4 },
+      failures: [{ name: "math divides", file: "/work/tests/math.test.ts", line: 14, message: "AssertionError: expected 2 to be 3" }],
+    });
+    expect(summarizeTestBuildReport(report!)).toBe("vitest test failed (1 failed, 2 passed, 1 skipped).");
+
+    const passing = await run({
+      executable: "npx",
+      args: ["jest", "--json"],
+      stdout: JSON.stringify({ numTotalTests: 3, numPassedTests: 3, numFailedTests: 0, numPendingTests: 0, testResults: [] }),
+    });
+    expect(passing).toMatchObject({ tool: "jest", verdict: "passed", counts: { passed: 3, total: 3 } });
+  });
+
+  it("reads a fresh pytest junit XML report and ignores a stale one", async () => {
+    const root = await mkdtemp(join(tmpdir(), "ayati-junit-"));
+    roots.push(root);
+    await writeFile(join(root, "report.xml"), [
+      "<?xml version=\"1.0\" encoding=\"utf-8\"?>",
+      "<testsuites><testsuite name=\"pytest\" errors=\"0\" failures=\"1\" skipped=\"1\" tests=\"4\">",
+      "<testcase classname=\"tests.test_api\" name=\"test_ok\" time=\"0.01\" />",
+      "<testcase classname=\"tests.test_api\" name=\"test_status\" time=\"0.02\">",
+      "<failure message=\"assert 500 == 200\">def test_status():\n&gt;       assert status() == 200\nE       assert 500 == 200\n\ntests/test_api.py:9: AssertionError</failure>",
+      "</testcase></testsuite></testsuites>",
+    ].join("\n"));
+
+    const report = await run({
+      executable: "python",
+      args: ["-m", "pytest", "--junitxml=report.xml"],
+      cwd: root,
+      exitCode: 1,
+      startedAt: Date.now() - 500,
+    });
+    expect(report).toMatchObject({
+      tool: "pytest",
+      source: "junit_xml",
+      verdict: "failed",
+      counts: { passed: 2, failed: 1, skipped: 1, total: 4 },
+      failures: [{ name: "tests.test_api::test_status", file: "tests/test_api.py", line: 9, message: "assert 500 == 200" }],
+    });
+
+    const stale = await run({
+      executable: "pytest",
+      args: ["--junitxml", "report.xml"],
+      cwd: root,
+      exitCode: 0,
+      startedAt: Date.now() + 60_000,
+      stdout: "============================== 5 passed in 0.12s ===============================",
+    });
+    expect(stale).toMatchObject({ source: "text", verdict: "passed", counts: { passed: 5, failed: 0, total: 5 } });
+  });
+
+  it("parses pytest, vitest, and jest text summaries", async () => {
+    const pytest = await run({
+      executable: "pytest",
+      args: [],
+      exitCode: 1,
+      stdout: [
+        "tests/test_cart.py:21: in test_total",
+        "    assert cart.total() == 30",
+        "=========================== short test summary info ============================",
+        "FAILED tests/test_cart.py::test_total - assert 25 == 30",
+        "===================== 1 failed, 7 passed, 2 skipped in 0.42s =====================",
+      ].join("\n"),
+    });
+    expect(pytest).toMatchObject({
+      counts: { passed: 7, failed: 1, skipped: 2, total: 10 },
+      failures: [{ name: "tests/test_cart.py::test_total", file: "tests/test_cart.py", line: 21, message: "assert 25 == 30" }],
+    });
+
+    const vitest = await run({
+      exitCode: 1,
+      stdout: [
+        " FAIL  tests/cart.test.ts > cart > totals items",
+        "AssertionError: expected 25 to be 30",
+        " ❯ tests/cart.test.ts:18:22",
+        " Test Files  1 failed | 3 passed (4)",
+        "      Tests  1 failed | 40 passed | 2 skipped (43)",
+      ].join("\n"),
+    });
+    expect(vitest).toMatchObject({
+      tool: "vitest",
+      counts: { passed: 40, failed: 1, skipped: 2, total: 43 },
+      failures: [{ name: "cart > totals items", file: "tests/cart.test.ts", line: 18 }],
+    });
+
+    const jest = await run({
+      exitCode: 1,
+      stdout: [
+        "FAIL src/cart.test.js",
+        "  ● cart › totals items",
+        "",
+        "    expect(received).toBe(expected)",
+        "      at Object.<anonymous> (src/cart.test.js:9:25)",
+        "Tests:       1 failed, 5 passed, 6 total",
+      ].join("\n"),
+    });
+    expect(jest).toMatchObject({
+      tool: "jest",
+      counts: { passed: 5, failed: 1, total: 6 },
+      failures: [{ name: "cart > totals items", file: "src/cart.test.js", line: 9, message: "expect(received).toBe(expected)" }],
+    });
+  });
+
+  it("parses eslint JSON and stylish output", async () => {
+    const json = await run({
+      executable: "npx",
+      args: ["eslint", ".", "--format", "json"],
+      exitCode: 1,
+      stdout: JSON.stringify([{
+        filePath: "/work/src/app.ts",
+        messages: [
+          { ruleId: "no-unused-vars", severity: 2, message: "'x' is assigned a value but never used.", line: 4, column: 7 },
+          { ruleId: "eqeqeq", severity: 1, message: "Expected '===' and instead saw '=='.", line: 9, column: 11 },
+        ],
+      }]),
+    });
+    expect(json).toMatchObject({ tool: "eslint", kind: "lint", verdict: "failed" });
+    expect(json?.diagnostics.map((diagnostic) => [diagnostic.line, diagnostic.severity, diagnostic.code]))
+      .toEqual([[4, "error", "no-unused-vars"], [9, "warning", "eqeqeq"]]);
+
+    const stylish = await run({
+      executable: "eslint",
+      args: ["src"],
+      exitCode: 1,
+      stdout: [
+        "/work/src/app.ts",
+        "  4:7  error  'x' is assigned a value but never used  no-unused-vars",
+        "",
+        "✖ 1 problem (1 error, 0 warnings)",
+      ].join("\n"),
+    });
+    expect(stylish?.diagnostics).toEqual([{
+      file: "/work/src/app.ts",
+      line: 4,
+      column: 7,
+      severity: "error",
+      code: "no-unused-vars",
+      message: "'x' is assigned a value but never used",
+    }]);
+  });
+
+  it("parses cargo and go test output", async () => {
+    const cargo = await run({
+      executable: "cargo",
+      args: ["test"],
+      exitCode: 101,
+      stdout: [
+        "test tests::adds ... ok",
+        "test tests::divides ... FAILED",
+        "",
+        "thread 'tests::divides' panicked at src/lib.rs:22:9:",
+        "assertion `left == right` failed",
+        "test result: FAILED. 1 passed; 1 failed; 0 ignored; 0 measured; 0 filtered out; finished in 0.00s",
+      ].join("\n"),
+    });
+    expect(cargo).toMatchObject({
+      tool: "cargo",
+      kind: "test",
+      counts: { passed: 1, failed: 1, skipped: 0, total: 2 },
+      failures: [{ name: "tests::divides", file: "src/lib.rs", line: 22, message: "assertion `left == right` failed" }],
+    });
+
+    const rustc = await run({
+      executable: "cargo",
+      args: ["build"],
+      exitCode: 101,
+      stderr: "error[E0308]: mismatched types\n  --> src/main.rs:4:18\n   |\nerror: could not compile `demo`",
+    });
+    expect(rustc).toMatchObject({
+      kind: "build",
+      diagnostics: [{ file: "src/main.rs", line: 4, column: 18, severity: "error", code: "E0308", message: "mismatched types" }],
+    });
+
+    const go = await run({
+      executable: "go",
+      args: ["test", "./..."],
+      exitCode: 1,
+      stdout: [
+        "--- FAIL: TestAdd (0.00s)",
+        "    add_test.go:10: expected 3, got 4",
+        "FAIL",
+        "FAIL\texample.com/calc\t0.002s",
+        "ok  \texample.com/other\t0.001s",
+      ].join("\n"),
+    });
+    expect(go).toMatchObject({
+      tool: "go",
+      verdict: "failed",
+      failures: [{ name: "TestAdd", file: "add_test.go", line: 10, message: "expected 3, got 4" }],
+    });
+
+    expect(await run({ executable: "go", args: ["test", "./..."], stdout: "ok  \texample.com/calc\t0.002s" }))
+      .toMatchObject({ tool: "go", verdict: "passed" });
+  });
+
+  it("never reports a pass without evidence that tests ran", async () => {
+    expect(await run({ stdout: "=========================== no tests ran in 0.01s ============================", executable: "pytest", exitCode: 5 }))
+      .toMatchObject({ verdict: "failed" });
+    expect(await run({ stdout: " Test Files  1 passed (1)\n      Tests  0 passed (0)" }))
+      .toMatchObject({ verdict: "inconclusive" });
+    expect(await run({ executable: "make", args: ["all"], stdout: "done" })).toBeUndefined();
+  });
+});
@@ -5,9 +5,12 @@ import { createGitContextSkill } from "../../src/skills/builtins/git-context/ind
 import { createGitReadSkill } from "../../src/skills/builtins/git-read/index.js";
 import { createPythonSkill } from "../../src/skills/builtins/python/index.js";
 import { createSystemSkill } from "../../src/skills/builtins/system/index.js";
+import { createWebSkill } from "../../src/skills/builtins/web/index.js";
+import { createScheduleSkill } from "../../src/skills/builtins/schedule/index.js";
+import { DEFAULT_WEB_FETCH_POLICY } from "../../src/skills/builtins/web/policy.js";
 import type { SessionAttachmentService } from "../../src/files/session-attachment-service.js";
 import type { ToolDefinition } from "../../src/skills/types.js";
-import type { ContextEngineService } from "ayati-context-engine";
+import type { ContextEngineService, ManagedResourceStore } from "ayati-context-engine";
 
 function findMissingArrayItems(schema: unknown, path = "inputSchema"): string[] {
   if (!schema || typeof schema !== "object") {
@@ -95,6 +98,15 @@ async function buildRuntimeTools(): Promise<ToolDefinition[]> {
       service: contextEngineService,
       workstreamRoot: "/tmp/ayati-workstreams",
     }).tools,
+    ...createWebSkill({
+      service: contextEngineService,
+      resourceStore: {} as ManagedResourceStore,
+      policy: DEFAULT_WEB_FETCH_POLICY,
+    }).tools,
+    ...createScheduleSkill({
+      scheduler: {} as Parameters<typeof createScheduleSkill>[0]["scheduler"],
+      service: contextEngineService,
+    }).tools,
   ];
 }
 
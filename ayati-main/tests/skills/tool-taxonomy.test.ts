@@ -3,10 +3,14 @@ import { createAttachmentSkill } from "../../src/skills/builtins/attachments/ind
 import { createFilesSkill } from "../../src/skills/builtins/files/index.js";
 import { createGitContextSkill } from "../../src/skills/builtins/git-context/index.js";
 import { createGitReadSkill } from "../../src/skills/builtins/git-read/index.js";
+import { createGitWriteSkill } from "../../src/skills/builtins/git-write/index.js";
 import { createMemorySkill } from "../../src/skills/builtins/memory/index.js";
 import { createPythonSkill } from "../../src/skills/builtins/python/index.js";
 import { createContextSkill } from "../../src/skills/builtins/context/index.js";
 import { createSystemSkill } from "../../src/skills/builtins/system/index.js";
+import { createWebSkill } from "../../src/skills/builtins/web/index.js";
+import { createScheduleSkill } from "../../src/skills/builtins/schedule/index.js";
+import { DEFAULT_WEB_FETCH_POLICY } from "../../src/skills/builtins/web/policy.js";
 import { builtInSkillsProvider } from "../../src/skills/provider.js";
 import type { SkillDefinition } from "../../src/skills/types.js";
 import { CapabilityCatalog } from "../../src/ivec/agent-runner/capabilities/catalog.js";
@@ -65,6 +69,8 @@ describe("tool taxonomy", () => {
     expect(getToolPurpose("git_context_read_workstream")).toBe("read");
     expect(getToolPurpose("git_read")).toBe("read");
     expect(hasMutationEffect("git_read")).toBe(false);
+    expect(getToolPurpose("git_write")).toBe("mutation");
+    expect(requiresWorkstreamBinding("git_write")).toBe(true);
     expect(getToolPurpose("git_context_set_workstream_star")).toBe("control");
     expect(canRunBeforeWorkstream("git_context_set_workstream_star")).toBe(true);
 
@@ -151,5 +157,8 @@ function runtimeSkills(): SkillDefinition[] {
     createFilesSkill({ fileLibrary: stub, directoryLibrary: stub }),
     createGitContextSkill({ service: stub }),
     createGitReadSkill({ service: stub, workstreamRoot: "/tmp/ayati-workstreams" }),
+    createGitWriteSkill({ workstreamRoot: "/tmp/ayati-workstreams" }),
+    createWebSkill({ service: stub, resourceStore: stub, policy: DEFAULT_WEB_FETCH_POLICY }),
+    createScheduleSkill({ scheduler: stub, service: stub }),
   ];
 }
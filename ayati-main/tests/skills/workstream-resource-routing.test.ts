@@ -379,6 +379,42 @@ describe("model-facing workstream and resource routing", () => {
       runId: "RUN-1",
     }));
   });
+
+  it("runs lifecycle operations under the current run's identity", async () => {
+    const mergeWorkstreams = vi.fn(async (input: { sourceWorkstreamId: string; targetWorkstreamId: string }) => ({
+      operation: "merge",
+      workstreamId: input.targetWorkstreamId,
+      sourceWorkstreamId: input.sourceWorkstreamId,
+      title: "Website",
+      lifecycleStatus: "active",
+      changed: true,
+      commit: "b".repeat(40),
+      movedRequests: [{ fromRequestId: "R-0001", toRequestId: "R-0003" }],
+    }));
+    const service = {
+      getAgentContext: vi.fn(async () => activeContext(false, "Merge the old site workstream into this one.")),
+      mergeWorkstreams,
+    } as unknown as ContextEngineService;
+    const tool = createGitContextSkill({ service }).tools
+      .find((candidate) => candidate.name === "git_context_merge_workstreams")!;
+
+    const result = await tool.execute({
+      sourceWorkstreamId: "W-20260718-0001",
+      targetWorkstreamId: WORKSTREAM_ID,
+      reason: "The user asked to merge the two site workstreams.",
+    }, executionContext("merge"));
+
+    expect(result.ok).toBe(true);
+    expect(result.v2).toMatchObject({ code: "GIT_CONTEXT_WORKSTREAMS_MERGED" });
+    expect(mergeWorkstreams).toHaveBeenCalledWith(expect.objectContaining({
+      requestId: "RUN-1:merge:merge",
+      runId: "RUN-1",
+      sourceWorkstreamId: "W-20260718-0001",
+      targetWorkstreamId: WORKSTREAM_ID,
+    }));
+    await expect(tool.execute({ sourceWorkstreamId: "W-1", targetWorkstreamId: WORKSTREAM_ID, reason: "x" }, executionContext("bad")))
+      .resolves.toMatchObject({ ok: false });
+  });
 });
 
 function executionContext(callId: string) {
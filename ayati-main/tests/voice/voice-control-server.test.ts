@@ -0,0 +1,55 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { createConnection } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { VoiceControlServer, type VoiceControlResponse } from "../../src/voice/index.js";
+
+const roots: string[] = [];
+const servers: VoiceControlServer[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(async (server) => await server.stop()));
+  await Promise.all(roots.splice(0).map(async (root) => await rm(root, { recursive: true, force: true })));
+});
+
+describe("VoiceControlServer", () => {
+  it("runs commands only for requests carrying an accepted token", async () => {
+    const root = await mkdtemp(join(tmpdir(), "ayati-voice-control-"));
+    roots.push(root);
+    const socketPath = join(root, "voice.sock");
+    const execute = vi.fn(async (): Promise<VoiceControlResponse> => ({
+      ok: true,
+      message: "Voice is idle.",
+      voice: { state: "idle", since: "2026-08-06T08:00:00.000Z" },
+    }));
+    const server = new VoiceControlServer({
+      socketPath,
+      execute,
+      authorize: (token) => token === "ayati_voice",
+    });
+    servers.push(server);
+    await server.start();
+
+    expect(await request(socketPath, { version: 1, command: "status", token: "ayati_voice" }))
+      .toMatchObject({ ok: true, message: "Voice is idle." });
+    expect(await request(socketPath, { version: 1, command: "status", token: "ayati_other" }))
+      .toMatchObject({ ok: false, message: "Voice control token is missing or invalid." });
+    expect(await request(socketPath, "status")).toMatchObject({ ok: false });
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+});
+
+function request(socketPath: string, body: unknown): Promise<VoiceControlResponse> {
+  return new Promise((resolve, reject) => {
+    const socket = createConnection(socketPath);
+    let response = "";
+    socket.setEncoding("utf8");
+    socket.on("connect", () => socket.write(`${typeof body === "string" ? body : JSON.stringify(body)}\n`));
+    socket.on("data", (chunk: string) => {
+      response += chunk;
+    });
+    socket.on("end", () => resolve(JSON.parse(response) as VoiceControlResponse));
+    socket.on("error", reject);
+  });
+}
@@ -85,6 +85,11 @@ function renderResult(result, paths, confirmed) {
   for (const failure of result.failures) {
     lines.push(`invalid: ${failure.contextRepositoryPath}: ${failure.message}`);
   }
+  if (result.semanticDocuments) {
+    lines.push(
+      `semantic-documents: messages=${result.semanticDocuments.messages} workstreams=${result.semanticDocuments.workstreams}`,
+    );
+  }
   lines.push(confirmed && result.applied
     ? `Rebuilt ${result.repositories.length} workstream catalog entr${result.repositories.length === 1 ? "y" : "ies"}.`
     : "No catalog changes were made. Re-run with --confirm after reviewing this inventory.");
@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+
+import { homedir } from "node:os";
+import { dirname, isAbsolute, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { startContextEngineHost } from "../ayati-context-engine/dist/index.js";
+
+const repositoryRoot = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const mainRoot = join(repositoryRoot, "ayati-main");
+const [workstreamId, outputPath, ...unknownArguments] = process.argv.slice(2);
+if (!workstreamId || !outputPath || unknownArguments.length > 0) {
+  throw new Error("Usage: pnpm context:workstream-export -- <W-YYYYMMDD-NNNN> <output-path>");
+}
+const paths = resolveRuntimePaths(process.env);
+
+// Opening the host takes the writer lock, so this refuses to run beside a live daemon.
+const host = await startContextEngineHost({
+  databasePath: paths.databasePath,
+  rootDirectory: paths.rootDirectory,
+});
+try {
+  const result = await host.service.exportWorkstream({
+    workstreamId,
+    outputPath: resolve(process.cwd(), outputPath),
+    at: new Date().toISOString(),
+  });
+  process.stdout.write([
+    `workstream: ${result.workstreamId} ${result.title}`,
+    `bundle: ${result.bundlePath}`,
+    `commits: ${result.commits}`,
+    `resources: ${result.resources.total} (portable=${result.resources.portable} unavailable=${result.resources.unavailable})`,
+    `signer: ${result.signer}`,
+  ].join("\n") + "\n");
+} finally {
+  await host.stop();
+}
+
+function resolveRuntimePaths(env) {
+  const rootDirectory = resolveConfiguredPath(
+    env["AYATI_ROOT_DIR"],
+    join(mainRoot, "ayati"),
+  );
+  return {
+    rootDirectory,
+    databasePath: resolveConfiguredPath(
+      env["AYATI_CONTEXT_ENGINE_DATABASE"] ?? env["AYATI_GIT_CONTEXT_DATABASE"],
+      join(rootDirectory, ".ayati", "context.db"),
+    ),
+  };
+}
+
+function resolveConfiguredPath(rawValue, fallback) {
+  const normalized = normalizeSpecialPath(rawValue ?? "");
+  if (!normalized) return resolve(fallback);
+  return isAbsolute(normalized) ? resolve(normalized) : resolve(mainRoot, normalized);
+}
+
+function normalizeSpecialPath(value) {
+  const trimmed = value.trim();
+  if (trimmed === "~") return homedir();
+  if (trimmed.startsWith("~/")) return join(homedir(), trimmed.slice(2));
+  return trimmed;
+}
@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+
+import { homedir } from "node:os";
+import { dirname, isAbsolute, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { startContextEngineHost } from "../ayati-context-engine/dist/index.js";
+
+const repositoryRoot = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const mainRoot = join(repositoryRoot, "ayati-main");
+const { bundlePath, trustedSigners, allowUntrusted } = parseArguments(process.argv.slice(2));
+const paths = resolveRuntimePaths(process.env);
+
+// Opening the host takes the writer lock, so this refuses to run beside a live daemon.
+const host = await startContextEngineHost({
+  databasePath: paths.databasePath,
+  rootDirectory: paths.rootDirectory,
+});
+try {
+  const result = await host.service.importWorkstream({
+    bundlePath: resolve(process.cwd(), bundlePath),
+    trustedSigners,
+    ...(allowUntrusted ? { allowUntrusted } : {}),
+    at: new Date().toISOString(),
+  });
+  const lines = [
+    `workstream: ${result.workstreamId} ${result.title}`
+      + (result.renamed ? ` (exported as ${result.sourceWorkstreamId})` : ""),
+    `context: ${result.contextRepositoryPath}`,
+    `commits: ${result.commits}`,
+    `signer: ${result.signer}${result.trusted ? "" : " (untrusted)"}`,
+    `resources: ${result.resources.length}`,
+  ];
+  for (const resource of result.resources) {
+    lines.push(`resource: ${resource.resourceId} ${resource.availability} ${resource.reconciled}`
+      + (resource.sourceResourceId !== resource.resourceId ? ` (was ${resource.sourceResourceId})` : ""));
+  }
+  process.stdout.write(lines.join("\n") + "\n");
+} finally {
+  await host.stop();
+}
+
+function parseArguments(argumentsList) {
+  const trusted = [];
+  const positional = [];
+  let allowUntrusted = false;
+  for (let index = 0; index < argumentsList.length; index += 1) {
+    const argument = argumentsList[index];
+    if (argument === "--trust") {
+      const value = argumentsList[index + 1];
+      if (!value) throw new Error("--trust requires a signer fingerprint.");
+      trusted.push(value);
+      index += 1;
+    } else if (argument === "--allow-untrusted") {
+      allowUntrusted = true;
+    } else if (argument.startsWith("--")) {
+      throw new Error(`Unknown workstream import option: ${argument}`);
+    } else {
+      positional.push(argument);
+    }
+  }
+  if (positional.length !== 1 || (trusted.length === 0 && !allowUntrusted)) {
+    throw new Error(
+      "Usage: pnpm context:workstream-import -- <bundle-path> (--trust <sha256:fingerprint>... | --allow-untrusted)",
+    );
+  }
+  return { bundlePath: positional[0], trustedSigners: trusted, allowUntrusted };
+}
+
+function resolveRuntimePaths(env) {
+  const rootDirectory = resolveConfiguredPath(
+    env["AYATI_ROOT_DIR"],
+    join(mainRoot, "ayati"),
+  );
+  return {
+    rootDirectory,
+    databasePath: resolveConfiguredPath(
+      env["AYATI_CONTEXT_ENGINE_DATABASE"] ?? env["AYATI_GIT_CONTEXT_DATABASE"],
+      join(rootDirectory, ".ayati", "context.db"),
+    ),
+  };
+}
+
+function resolveConfiguredPath(rawValue, fallback) {
+  const normalized = normalizeSpecialPath(rawValue ?? "");
+  if (!normalized) return resolve(fallback);
+  return isAbsolute(normalized) ? resolve(normalized) : resolve(mainRoot, normalized);
+}
+
+function normalizeSpecialPath(value) {
+  const trimmed = value.trim();
+  if (trimmed === "~") return homedir();
+  if (trimmed.startsWith("~/")) return join(homedir(), trimmed.slice(2));
+  return trimmed;
+}